@@ -8,6 +8,7 @@ import { HelmetProvider } from "react-helmet-async";
 import { AuthGuard } from "@/components/auth/AuthGuard";
 import { SuperAdminGuard } from "@/components/auth/SuperAdminGuard";
 import { SubscriptionGuard } from "@/components/auth/SubscriptionGuard";
+import { RoleGuard } from "@/components/auth/RoleGuard";
 import { UnitProvider } from "@/contexts/UnitContext";
 import { SubscriptionProvider } from "@/contexts/SubscriptionContext";
 import LandingPage from "./pages/LandingPage";
@@ -15,6 +16,8 @@ import Auth from "./pages/Auth";
 import BarberAuth from "./pages/BarberAuth";
 import BarberDashboard from "./pages/BarberDashboard";
 import BarberInvite from "./pages/BarberInvite";
+import StaffInvite from "./pages/StaffInvite";
+import AgendamentoOnline from "./pages/AgendamentoOnline";
 import Dashboard from "./pages/Dashboard";
 import Agenda from "./pages/Agenda";
 import Clientes from "./pages/Clientes";
@@ -62,18 +65,18 @@ const ProtectedRoutes = () => (
     <SubscriptionGuard>
       <UnitProvider>
         <Routes>
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/agenda" element={<Agenda />} />
-          <Route path="/agenda/display" element={<AgendaDisplay />} />
-          <Route path="/clientes" element={<Clientes />} />
-          <Route path="/profissionais" element={<Profissionais />} />
-          <Route path="/servicos" element={<Servicos />} />
-          <Route path="/financeiro" element={<Financeiro />} />
-          <Route path="/unidades" element={<Unidades />} />
-          <Route path="/marketing" element={<Marketing />} />
-          <Route path="/relatorios" element={<Relatorios />} />
-          <Route path="/configuracoes" element={<Configuracoes />} />
-          <Route path="/assinatura" element={<Assinatura />} />
+          <Route path="/dashboard" element={<RoleGuard module="dashboard"><Dashboard /></RoleGuard>} />
+          <Route path="/agenda" element={<RoleGuard module="agenda"><Agenda /></RoleGuard>} />
+          <Route path="/agenda/display" element={<RoleGuard module="agenda"><AgendaDisplay /></RoleGuard>} />
+          <Route path="/clientes" element={<RoleGuard module="clientes"><Clientes /></RoleGuard>} />
+          <Route path="/profissionais" element={<RoleGuard module="profissionais"><Profissionais /></RoleGuard>} />
+          <Route path="/servicos" element={<RoleGuard module="servicos"><Servicos /></RoleGuard>} />
+          <Route path="/financeiro" element={<RoleGuard module="financeiro"><Financeiro /></RoleGuard>} />
+          <Route path="/unidades" element={<RoleGuard module="unidades"><Unidades /></RoleGuard>} />
+          <Route path="/marketing" element={<RoleGuard module="marketing"><Marketing /></RoleGuard>} />
+          <Route path="/relatorios" element={<RoleGuard module="relatorios"><Relatorios /></RoleGuard>} />
+          <Route path="/configuracoes" element={<RoleGuard module="configuracoes"><Configuracoes /></RoleGuard>} />
+          <Route path="/assinatura" element={<RoleGuard module="assinatura"><Assinatura /></RoleGuard>} />
         </Routes>
       </UnitProvider>
     </SubscriptionGuard>
@@ -97,6 +100,10 @@ const App = () => (
             <Route path="/auth/barber" element={<BarberAuth />} />
             <Route path="/barbeiro" element={<BarberDashboard />} />
             <Route path="/convite/:token" element={<BarberInvite />} />
+            <Route path="/convite/equipe/:token" element={<StaffInvite />} />
+
+            {/* Public online booking */}
+            <Route path="/agendar/:unitSlug" element={<AgendamentoOnline />} />
             
             {/* Super Admin Routes */}
             <Route path="/admin" element={<SuperAdminGuard><AdminDashboard /></SuperAdminGuard>} />
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Phone, User, Scissors, Clock, DollarSign, Calendar, Edit, Trash2, CheckCircle, XCircle, UserX, AlertTriangle, Lock } from "lucide-react";
+import { Phone, User, Scissors, Clock, DollarSign, Calendar, Edit, Trash2, CheckCircle, XCircle, UserX, AlertTriangle, Lock, Repeat } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -14,7 +14,10 @@ import { PaymentMethodModal, PaymentBadge, type PaymentMethod } from "@/componen
 import { useFidelityCourtesy } from "@/hooks/useFidelityCourtesy";
 import { useBusinessSettings } from "@/hooks/useBusinessSettings";
 import { useToast } from "@/hooks/use-toast";
-import type { Appointment } from "@/hooks/useAppointments";
+import { usePendingClientFees, useClientFeeActions } from "@/hooks/useClientFees";
+import { getClientPlanForAppointment, type PlanForAppointment } from "@/hooks/useClientPlans";
+import { getAppointmentServices, type Appointment, type RecurrenceScope } from "@/hooks/useAppointments";
+import { RecurrenceScopeSelector } from "./RecurrenceScopeSelector";
 import type { Database } from "@/integrations/supabase/types";
 
 type AppointmentStatus = Database["public"]["Enums"]["appointment_status"];
@@ -27,6 +30,7 @@ interface AppointmentDetailsModalProps {
   onDelete: (reason?: string) => void;
   onStatusChange: (status: AppointmentStatus, paymentMethod?: string, courtesyReason?: string) => void;
   onNoShow?: () => void;
+  onCancelSeries?: (scope: RecurrenceScope) => void;
   isLoading?: boolean;
 }
 
@@ -38,10 +42,13 @@ export function AppointmentDetailsModal({
   onDelete,
   onStatusChange,
   onNoShow,
+  onCancelSeries,
   isLoading,
 }: AppointmentDetailsModalProps) {
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isDeleteWithReasonOpen, setIsDeleteWithReasonOpen] = useState(false);
+  const [isCancelSeriesOpen, setIsCancelSeriesOpen] = useState(false);
+  const [cancelScope, setCancelScope] = useState<RecurrenceScope>("this");
   const [deleteReason, setDeleteReason] = useState("");
   const [deletionPasswordInput, setDeletionPasswordInput] = useState("");
   const [passwordError, setPasswordError] = useState(false);
@@ -49,6 +56,7 @@ export function AppointmentDetailsModal({
   const [availableCourtesies, setAvailableCourtesies] = useState(0);
   const [isFreeCut, setIsFreeCut] = useState(false);
   const [loyaltyCuts, setLoyaltyCuts] = useState(0);
+  const [availablePlan, setAvailablePlan] = useState<PlanForAppointment | null>(null);
   const courtesiesBeforeRef = useRef<number>(0);
   
   const { toast } = useToast();
@@ -57,6 +65,11 @@ export function AppointmentDetailsModal({
   const fidelityEnabled = settings?.fidelity_program_enabled ?? false;
   const fidelityThreshold = settings?.fidelity_cuts_threshold ?? 5;
   const deletionPasswordRequired = settings?.deletion_password_enabled ?? false;
+  const { fees: pendingFees } = usePendingClientFees({
+    unitId: open ? appointment?.unit_id : null,
+    clientPhone: appointment?.client_phone,
+  });
+  const { payFees } = useClientFeeActions();
 
   // Fetch client's available courtesies and check if this is a free cut
   useEffect(() => {
@@ -85,19 +98,39 @@ export function AppointmentDetailsModal({
     }
   }, [open, appointment?.client_phone, appointment?.unit_id, appointment?.company_id, appointment?.total_price, fidelityEnabled]);
   
+  // Prepaid package / subscription that covers this appointment, if any
+  useEffect(() => {
+    if (open && appointment?.id && appointment.status !== "completed" && appointment.status !== "cancelled") {
+      getClientPlanForAppointment(appointment.id).then(setAvailablePlan);
+    } else {
+      setAvailablePlan(null);
+    }
+  }, [open, appointment?.id, appointment?.status]);
+
   if (!appointment) return null;
 
   const startTime = new Date(appointment.start_time);
   const endTime = new Date(appointment.end_time);
   const barberColor = appointment.barber?.calendar_color || "#FF6B00";
   const nextStatus = getNextStatus(appointment.status);
+  const serviceItems = getAppointmentServices(appointment);
+  const isSeriesAppointment = !!appointment.series_id && !!onCancelSeries;
+
+  const handleCancelClick = () => {
+    if (isSeriesAppointment) {
+      setCancelScope("this");
+      setIsCancelSeriesOpen(true);
+      return;
+    }
+    onStatusChange("cancelled");
+  };
 
   const handleFinalizar = () => {
     // Open payment method modal instead of directly completing
     setIsPaymentModalOpen(true);
   };
 
-  const handlePaymentConfirm = async (paymentMethod: PaymentMethod, courtesyReason?: string) => {
+  const handlePaymentConfirm = async (paymentMethod: PaymentMethod, courtesyReason?: string, collectFees?: boolean) => {
     // If using fidelity courtesy, add automatic reason
     const reason = paymentMethod === "fidelity_courtesy" 
       ? `[Fidelidade] Cortesia por ${settings?.fidelity_cuts_threshold || 10} cortes acumulados`
@@ -112,9 +145,17 @@ export function AppointmentDetailsModal({
     // Complete the appointment
     onStatusChange("completed", paymentMethod, reason);
     setIsPaymentModalOpen(false);
+
+    if (collectFees && pendingFees.length > 0) {
+      payFees.mutate({
+        feeIds: pendingFees.map((fee) => fee.id),
+        paymentMethod,
+        appointmentId: appointment.id,
+      });
+    }
     
     // Check if a fidelity cycle was completed (with a small delay to allow trigger to execute)
-    if (fidelityEnabled && clientPhone && paymentMethod !== "courtesy" && paymentMethod !== "fidelity_courtesy") {
+    if (fidelityEnabled && clientPhone && paymentMethod !== "courtesy" && paymentMethod !== "fidelity_courtesy" && paymentMethod !== "package") {
       setTimeout(async () => {
         const result = await checkCycleCompletion(clientPhone, unitId, courtesiesBefore);
         if (result.earned) {
@@ -183,6 +224,13 @@ export function AppointmentDetailsModal({
               </span>
             </div>
 
+            {appointment.series_id && (
+              <div className="flex items-center gap-3 text-sm">
+                <Repeat className="h-4 w-4 text-muted-foreground" />
+                <span>Agendamento recorrente</span>
+              </div>
+            )}
+
             {appointment.client_phone && (
               <div className="flex items-center gap-3 text-sm">
                 <Phone className="h-4 w-4 text-muted-foreground" />
@@ -204,12 +252,21 @@ export function AppointmentDetailsModal({
               </div>
             )}
 
-            {appointment.service && (
-              <div className="flex items-center gap-3 text-sm">
-                <Scissors className="h-4 w-4 text-muted-foreground" />
-                <span>
-                  {appointment.service.name} ({appointment.service.duration_minutes} min)
-                </span>
+            {serviceItems.length > 0 && (
+              <div className="flex items-start gap-3 text-sm">
+                <Scissors className="h-4 w-4 text-muted-foreground mt-0.5" />
+                <div className="flex-1 space-y-1">
+                  {serviceItems.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between gap-2">
+                      <span>
+                        {item.service_name} ({item.duration_minutes} min)
+                      </span>
+                      {serviceItems.length > 1 && (
+                        <span className="text-muted-foreground">R$ {Number(item.price).toFixed(2)}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
@@ -265,7 +322,7 @@ export function AppointmentDetailsModal({
               )}
               <Button
                 variant="destructive"
-                onClick={() => onStatusChange("cancelled")}
+                onClick={handleCancelClick}
                 disabled={isLoading}
               >
                 <XCircle className="h-4 w-4 mr-2" />
@@ -335,8 +392,32 @@ export function AppointmentDetailsModal({
         isFreeCut={fidelityEnabled && isFreeCut}
         loyaltyCuts={loyaltyCuts}
         loyaltyThreshold={fidelityThreshold}
+        pendingFees={pendingFees}
+        availablePlan={availablePlan}
       />
 
+      {/* Cancel scope for recurring appointments */}
+      <AlertDialog open={isCancelSeriesOpen} onOpenChange={setIsCancelSeriesOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar agendamento recorrente</AlertDialogTitle>
+            <AlertDialogDescription>
+              Escolha quais agendamentos da série devem ser cancelados. Agendamentos já finalizados não são alterados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <RecurrenceScopeSelector value={cancelScope} onChange={setCancelScope} idPrefix="cancel-scope" />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onCancelSeries?.(cancelScope)}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Cancelar agendamentos
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete with Reason Modal - for confirmed/completed appointments */}
       <Dialog open={isDeleteWithReasonOpen} onOpenChange={(open) => {
         setIsDeleteWithReasonOpen(open);
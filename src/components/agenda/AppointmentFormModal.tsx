@@ -3,22 +3,33 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
-import { Trash2, Users, UserPlus } from "lucide-react";
+import { Trash2, Users, UserPlus, Repeat } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { ClientCombobox } from "@/components/clients/ClientCombobox";
 import { ClientFormModal } from "@/components/clients/ClientFormModal";
 import { DependentFormModal } from "@/components/clients/DependentFormModal";
+import { ServiceMultiSelect } from "./ServiceMultiSelect";
+import { RecurrenceScopeSelector } from "./RecurrenceScopeSelector";
 import { useClients, CreateClientData, Client } from "@/hooks/useClients";
 import { useDependents, ClientDependent, CreateDependentData } from "@/hooks/useDependents";
 import type { Barber } from "@/hooks/useBarbers";
 import type { Service } from "@/hooks/useServices";
-import type { Appointment, AppointmentFormData } from "@/hooks/useAppointments";
+import {
+  getAppointmentServices,
+  buildRecurrenceDates,
+  MAX_RECURRENCE_OCCURRENCES,
+  type Appointment,
+  type AppointmentFormData,
+  type RecurrenceRule,
+  type RecurrenceScope,
+} from "@/hooks/useAppointments";
 
 const formSchema = z.object({
   client_id: z.string().optional(),
@@ -26,11 +37,40 @@ const formSchema = z.object({
   client_phone: z.string().optional(),
   client_birth_date: z.string().optional(),
   barber_id: z.string().min(1, "Selecione um barbeiro"),
-  service_id: z.string().min(1, "Selecione um serviço"),
+  service_ids: z.array(z.string()).min(1, "Selecione pelo menos um serviço"),
   date: z.string().min(1, "Selecione uma data"),
   time: z.string().min(1, "Selecione um horário"),
   notes: z.string().optional(),
-});
+  repeat: z.boolean(),
+  frequency: z.enum(["weekly", "biweekly", "custom"]),
+  interval_weeks: z.number().min(1, "Mínimo de 1 semana").max(12, "Máximo de 12 semanas"),
+  end_type: z.enum(["count", "until"]),
+  occurrences: z.number().min(2, "Mínimo de 2 ocorrências").max(MAX_RECURRENCE_OCCURRENCES, `Máximo de ${MAX_RECURRENCE_OCCURRENCES} ocorrências`),
+  until_date: z.string().optional(),
+}).refine(
+  (values) => !values.repeat || values.end_type !== "until" || (!!values.until_date && values.until_date > values.date),
+  { message: "A data final deve ser posterior à data do agendamento", path: ["until_date"] }
+);
+
+const FREQUENCY_INTERVALS = { weekly: 1, biweekly: 2 } as const;
+
+const DEFAULT_RECURRENCE_VALUES = {
+  repeat: false,
+  frequency: "biweekly" as const,
+  interval_weeks: 3,
+  end_type: "count" as const,
+  occurrences: 6,
+  until_date: "",
+};
+
+function getRecurrenceRule(values: FormValues): RecurrenceRule {
+  return {
+    interval_weeks: values.frequency === "custom" ? values.interval_weeks : FREQUENCY_INTERVALS[values.frequency],
+    end_type: values.end_type,
+    occurrences: values.occurrences,
+    until_date: values.until_date,
+  };
+}
 
 type FormValues = z.infer<typeof formSchema>;
 
@@ -67,6 +107,7 @@ export function AppointmentFormModal({
   const [newClientName, setNewClientName] = useState("");
   const [selectedDependentId, setSelectedDependentId] = useState<string | null>(null);
   const [showCreateDependent, setShowCreateDependent] = useState(false);
+  const [seriesScope, setSeriesScope] = useState<RecurrenceScope>("this");
   
   // Fetch dependents for the selected client
   const { dependents, createDependent } = useDependents(selectedClientId || undefined);
@@ -79,10 +120,11 @@ export function AppointmentFormModal({
       client_phone: "",
       client_birth_date: "",
       barber_id: "",
-      service_id: "",
+      service_ids: [],
       date: "",
       time: "",
       notes: "",
+      ...DEFAULT_RECURRENCE_VALUES,
     },
   });
 
@@ -96,10 +138,13 @@ export function AppointmentFormModal({
           client_phone: appointment.client_phone || "",
           client_birth_date: appointment.client_birth_date || "",
           barber_id: appointment.barber_id || "",
-          service_id: appointment.service_id || "",
+          service_ids: getAppointmentServices(appointment)
+            .map((item) => item.service_id)
+            .filter((id): id is string => !!id),
           date: format(startDate, "yyyy-MM-dd"),
           time: format(startDate, "HH:mm"),
           notes: appointment.notes || "",
+          ...DEFAULT_RECURRENCE_VALUES,
         });
         setSelectedClientId(null);
       } else {
@@ -109,13 +154,15 @@ export function AppointmentFormModal({
           client_phone: "",
           client_birth_date: "",
           barber_id: initialBarberId || "",
-          service_id: "",
+          service_ids: [],
           date: initialDate ? format(initialDate, "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd"),
           time: initialDate ? format(initialDate, "HH:mm") : "09:00",
           notes: "",
+          ...DEFAULT_RECURRENCE_VALUES,
         });
         setSelectedClientId(null);
       }
+      setSeriesScope("this");
     }
   }, [open, appointment, initialDate, initialBarberId, form]);
 
@@ -192,23 +239,38 @@ export function AppointmentFormModal({
       client_phone: values.client_phone,
       client_birth_date: values.client_birth_date,
       barber_id: values.barber_id,
-      service_id: values.service_id,
+      service_ids: values.service_ids,
       start_time: startTime,
       notes: values.notes,
       is_dependent: !!selectedDependentId,
       dependent_id: selectedDependentId,
+      recurrence: !appointment && values.repeat ? getRecurrenceRule(values) : null,
+      series_scope: appointment?.series_id ? seriesScope : "this",
     });
   };
 
-  const selectedService = services.find(s => s.id === form.watch("service_id"));
   const activeBarbers = barbers.filter(b => b.is_active);
   const activeServices = services.filter(s => s.is_active);
+  const selectedServices = form.watch("service_ids")
+    .map(id => services.find(s => s.id === id))
+    .filter((s): s is Service => !!s);
+  const totalDuration = selectedServices.reduce((sum, s) => sum + s.duration_minutes, 0);
+  const totalPrice = selectedServices.reduce((sum, s) => sum + Number(s.price), 0);
   const isEditMode = !!appointment;
+  const isRecurring = !isEditMode && form.watch("repeat");
+  const frequency = form.watch("frequency");
+  const endType = form.watch("end_type");
+
+  // Preview of how many occurrences the rule generates from the chosen date
+  const watchedDate = form.watch("date");
+  const recurrenceCount = isRecurring && watchedDate
+    ? buildRecurrenceDates(new Date(`${watchedDate}T12:00:00`), getRecurrenceRule(form.getValues())).length
+    : 0;
 
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {appointment ? "Editar Agendamento" : "Novo Agendamento"}
@@ -303,67 +365,56 @@ export function AppointmentFormModal({
                 </div>
               )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="barber_id"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Barbeiro *</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {activeBarbers.map(barber => (
-                            <SelectItem key={barber.id} value={barber.id}>
-                              <div className="flex items-center gap-2">
-                                <div
-                                  className="w-3 h-3 rounded-full"
-                                  style={{ backgroundColor: barber.calendar_color || "#FF6B00" }}
-                                />
-                                {barber.name}
-                              </div>
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <FormField
+                control={form.control}
+                name="barber_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Barbeiro *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeBarbers.map(barber => (
+                          <SelectItem key={barber.id} value={barber.id}>
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="w-3 h-3 rounded-full"
+                                style={{ backgroundColor: barber.calendar_color || "#FF6B00" }}
+                              />
+                              {barber.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-                <FormField
-                  control={form.control}
-                  name="service_id"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Serviço *</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {activeServices.map(service => (
-                            <SelectItem key={service.id} value={service.id}>
-                              {service.name} - R$ {Number(service.price).toFixed(2)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="service_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serviços *</FormLabel>
+                    <ServiceMultiSelect
+                      services={activeServices}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-              {selectedService && (
+              {selectedServices.length > 0 && (
                 <p className="text-sm text-muted-foreground">
-                  Duração: {selectedService.duration_minutes} min | Valor: R$ {Number(selectedService.price).toFixed(2)}
+                  Duração: {totalDuration} min | Valor: R$ {totalPrice.toFixed(2)}
                 </p>
               )}
 
@@ -397,6 +448,147 @@ export function AppointmentFormModal({
                 />
               </div>
 
+              {!isEditMode && (
+                <div className="border border-border rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm font-medium">Repetir agendamento</span>
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name="repeat"
+                      render={({ field }) => (
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      )}
+                    />
+                  </div>
+
+                  {isRecurring && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="frequency"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Frequência</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="weekly">Toda semana</SelectItem>
+                                  <SelectItem value="biweekly">A cada 15 dias</SelectItem>
+                                  <SelectItem value="custom">A cada N semanas</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                        {frequency === "custom" && (
+                          <FormField
+                            control={form.control}
+                            name="interval_weeks"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">Semanas</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={12}
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 1)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="end_type"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs">Termina</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="count">Após N vezes</SelectItem>
+                                  <SelectItem value="until">Em uma data</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                        {endType === "count" ? (
+                          <FormField
+                            control={form.control}
+                            name="occurrences"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">Ocorrências</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min={2}
+                                    max={MAX_RECURRENCE_OCCURRENCES}
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ) : (
+                          <FormField
+                            control={form.control}
+                            name="until_date"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs">Até</FormLabel>
+                                <FormControl>
+                                  <Input type="date" min={watchedDate} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+
+                      {recurrenceCount > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Serão criados até {recurrenceCount} agendamentos. Datas com conflito de horário são puladas.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {isEditMode && appointment?.series_id && (
+                <div className="border border-border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Agendamento recorrente – aplicar alterações em</span>
+                  </div>
+                  <RecurrenceScopeSelector value={seriesScope} onChange={setSeriesScope} idPrefix="edit-scope" />
+                </div>
+              )}
+
               <FormField
                 control={form.control}
                 name="notes"
@@ -6,7 +6,8 @@ import { useCurrentTime } from "@/hooks/useCurrentTime";
 import type { Appointment } from "@/hooks/useAppointments";
 import type { Barber } from "@/hooks/useBarbers";
 import type { BusinessHour, Holiday } from "@/hooks/useBusinessHours";
-import { Coffee } from "lucide-react";
+import { isHourOutsideBarberDay, type BarberDayStatus, type BarberTimeBlock } from "@/hooks/useBarberSchedules";
+import { Coffee, CalendarOff, Lock } from "lucide-react";
 
 interface CalendarDayViewProps {
   currentDate: Date;
@@ -24,6 +25,8 @@ interface CalendarDayViewProps {
   isOpenOnDate?: (date: Date) => boolean;
   getOpeningHours?: (date: Date) => { opening: string; closing: string } | null;
   isHoliday?: (date: Date) => Holiday | undefined;
+  getBarberDayStatus?: (barberId: string, date: Date) => BarberDayStatus | null;
+  getTimeBlockInHour?: (barberId: string, date: Date, hour: number) => BarberTimeBlock | undefined;
 }
 
 const DEFAULT_HOUR_HEIGHT = 96;
@@ -44,6 +47,8 @@ export function CalendarDayView({
   isOpenOnDate,
   getOpeningHours,
   isHoliday,
+  getBarberDayStatus,
+  getTimeBlockInHour,
 }: CalendarDayViewProps) {
   const activeBarbers = useMemo(
     () => barbers.filter(b => b.is_active && (!selectedBarberId || b.id === selectedBarberId)),
@@ -129,6 +134,14 @@ export function CalendarDayView({
     return hour >= startHour && hour < lunchEndHour;
   };
 
+  const barberStatuses = useMemo(() => {
+    const map: Record<string, BarberDayStatus | null> = {};
+    activeBarbers.forEach(barber => {
+      map[barber.id] = getBarberDayStatus ? getBarberDayStatus(barber.id, currentDate) : null;
+    });
+    return map;
+  }, [activeBarbers, getBarberDayStatus, currentDate]);
+
   return (
     <div ref={containerRef} data-calendar-day-container className="h-full flex flex-col overflow-hidden">
       <div className={`min-w-[600px] ${activeBarbers.length > 3 ? "min-w-[900px]" : ""} h-full flex flex-col overflow-hidden`}>
@@ -144,7 +157,12 @@ export function CalendarDayView({
           </div>
           {activeBarbers.map(barber => (
             <div key={barber.id} className="p-3 text-center border-r border-border last:border-r-0 flex items-center justify-center" style={{ borderTop: `3px solid ${barber.calendar_color || "#FF6B00"}` }}>
-              <p className="font-semibold text-foreground">{barber.name}</p>
+              <div>
+                <p className="font-semibold text-foreground">{barber.name}</p>
+                {barberStatuses[barber.id]?.off && (
+                  <p className="text-[10px] text-muted-foreground">{barberStatuses[barber.id]?.reason}</p>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -180,13 +198,20 @@ export function CalendarDayView({
                     const slotDate = setMinutes(setHours(currentDate, hour), 0);
                     const withinHours = isWithinBusinessHours(hour);
                     const isLunchBreak = isWithinLunchBreak(barber, hour);
+                    const barberStatus = barberStatuses[barber.id];
+                    const isUnavailable = isHourOutsideBarberDay(barberStatus, hour);
+                    const timeBlock = getTimeBlockInHour ? getTimeBlockInHour(barber.id, currentDate, hour) : undefined;
                     
                     return (
                       <div 
                         key={hour} 
                         className={`border-b border-border p-1 transition-colors ${
-                          isLunchBreak 
+                          isUnavailable
+                            ? "bg-muted/60 cursor-not-allowed"
+                            : isLunchBreak 
                             ? "bg-orange-100/60 dark:bg-orange-900/20 cursor-not-allowed" 
+                            : timeBlock
+                            ? "bg-slate-200/60 dark:bg-slate-800/40 cursor-not-allowed"
                             : `cursor-pointer hover:bg-muted/30 ${
                                 withinHours 
                                   ? "bg-blue-100/40 dark:bg-blue-900/20" 
@@ -194,13 +219,28 @@ export function CalendarDayView({
                               } ${today && withinHours ? "bg-blue-100/50 dark:bg-blue-900/30" : ""}`
                         }`}
                         style={{ height: DEFAULT_HOUR_HEIGHT }} 
-                        onClick={() => !isLunchBreak && onSlotClick(slotDate, barber.id)}
+                        onClick={() => !isLunchBreak && !isUnavailable && !timeBlock && onSlotClick(slotDate, barber.id)}
                       >
-                        {isLunchBreak && slotAppointments.length === 0 ? (
+                        {isUnavailable && slotAppointments.length === 0 ? (
+                          barberStatus?.off ? (
+                            <div className="h-full flex items-center justify-center gap-1 text-muted-foreground">
+                              <CalendarOff className="h-4 w-4" />
+                              <span className="text-xs font-medium">{barberStatus.reason === "Folga" ? "Folga" : `Ausente – ${barberStatus.reason}`}</span>
+                            </div>
+                          ) : null
+                        ) : isLunchBreak && slotAppointments.length === 0 ? (
                           <div className="h-full flex items-center justify-center gap-1 text-orange-600 dark:text-orange-400">
                             <Coffee className="h-4 w-4" />
                             <span className="text-xs font-medium">Intervalo</span>
                           </div>
+                        ) : timeBlock && slotAppointments.length === 0 ? (
+                          <div className="h-full flex items-center justify-center gap-1 text-muted-foreground">
+                            <Lock className="h-4 w-4" />
+                            <span className="text-xs font-medium truncate">
+                              Bloqueado {format(new Date(timeBlock.start_time), "HH:mm")}–{format(new Date(timeBlock.end_time), "HH:mm")}
+                              {timeBlock.reason && ` – ${timeBlock.reason}`}
+                            </span>
+                          </div>
                         ) : (
                           <div className="space-y-1 overflow-hidden h-full">
                             {slotAppointments.map(apt => (
@@ -1,5 +1,5 @@
 import { format } from "date-fns";
-import type { Appointment } from "@/hooks/useAppointments";
+import { getAppointmentServicesLabel, type Appointment } from "@/hooks/useAppointments";
 import { cn } from "@/lib/utils";
 
 interface CalendarEventProps {
@@ -15,6 +15,7 @@ export function CalendarEvent({ appointment, onClick, compact = false, ultraComp
   const endTime = format(new Date(appointment.end_time), "HH:mm");
   const isCancelled = appointment.status === "cancelled";
   const isCompleted = appointment.status === "completed";
+  const servicesLabel = getAppointmentServicesLabel(appointment);
 
   // Ultra compact mode: colored dot + time + client name in single line
   if (ultraCompact) {
@@ -101,12 +102,12 @@ export function CalendarEvent({ appointment, onClick, compact = false, ultraComp
       )}>
         {appointment.client_name}
       </p>
-      {appointment.service && (
+      {servicesLabel && (
         <p className={cn(
           "text-xs text-muted-foreground truncate",
           isCancelled && "line-through"
         )}>
-          {appointment.service.name}
+          {servicesLabel}
         </p>
       )}
       {appointment.barber && (
@@ -5,7 +5,8 @@ import { CalendarEvent } from "./CalendarEvent";
 import { useCurrentTime } from "@/hooks/useCurrentTime";
 import type { Appointment } from "@/hooks/useAppointments";
 import type { BusinessHour, Holiday } from "@/hooks/useBusinessHours";
-import { Coffee } from "lucide-react";
+import { isHourOutsideBarberDay, type BarberDayStatus, type BarberTimeBlock } from "@/hooks/useBarberSchedules";
+import { Coffee, CalendarOff, Lock } from "lucide-react";
 
 interface Barber {
   id: string;
@@ -33,6 +34,8 @@ interface CalendarWeekViewProps {
   isOpenOnDate?: (date: Date) => boolean;
   getOpeningHours?: (date: Date) => { opening: string; closing: string } | null;
   isHoliday?: (date: Date) => Holiday | undefined;
+  getBarberDayStatus?: (barberId: string, date: Date) => BarberDayStatus | null;
+  getTimeBlockInHour?: (barberId: string, date: Date, hour: number) => BarberTimeBlock | undefined;
 }
 
 const DEFAULT_HOUR_HEIGHT = 80;
@@ -55,6 +58,8 @@ export function CalendarWeekView({
   isOpenOnDate,
   getOpeningHours,
   isHoliday,
+  getBarberDayStatus,
+  getTimeBlockInHour,
 }: CalendarWeekViewProps) {
   const weekStart = startOfWeek(currentDate, { locale: ptBR });
   const weekEnd = endOfWeek(currentDate, { locale: ptBR });
@@ -197,6 +202,18 @@ export function CalendarWeekView({
 
   const selectedBarber = selectedBarberId ? barbers.find(b => b.id === selectedBarberId) : null;
 
+  // Schedule/absence of the selected barber for a day
+  const getSelectedBarberStatus = (day: Date) => {
+    if (!selectedBarberId || !getBarberDayStatus) return null;
+    return getBarberDayStatus(selectedBarberId, day);
+  };
+
+  // Time blocks only make sense when a single barber is shown
+  const getSelectedBarberTimeBlock = (day: Date, hour: number) => {
+    if (!selectedBarberId || !getTimeBlockInHour) return undefined;
+    return getTimeBlockInHour(selectedBarberId, day, hour);
+  };
+
   return (
     <div 
       ref={containerRef}
@@ -215,6 +232,7 @@ export function CalendarWeekView({
           {days.map(day => {
             const isClosed = isOpenOnDate ? !isOpenOnDate(day) : false;
             const holiday = isHoliday ? isHoliday(day) : undefined;
+            const barberStatus = getSelectedBarberStatus(day);
             
             return (
               <div
@@ -237,6 +255,9 @@ export function CalendarWeekView({
                 {isClosed && !holiday && (
                   <p className="text-[10px] text-muted-foreground">Fechado</p>
                 )}
+                {!isClosed && barberStatus?.off && (
+                  <p className="text-[10px] text-muted-foreground truncate max-w-full">{barberStatus.reason}</p>
+                )}
               </div>
             );
           })}
@@ -263,6 +284,7 @@ export function CalendarWeekView({
               const dayKey = format(day, "yyyy-MM-dd");
               const isDayToday = isToday(day);
               const isClosed = isOpenOnDate ? !isOpenOnDate(day) : false;
+              const barberStatus = getSelectedBarberStatus(day);
               
               return (
                 <div key={day.toISOString()} className={`border-r border-border last:border-r-0 relative ${isClosed ? "bg-muted/30" : ""}`}>
@@ -279,6 +301,16 @@ export function CalendarWeekView({
                     </div>
                   )}
                   
+                  {/* Barber absence overlay */}
+                  {!isClosed && barberStatus?.off && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
+                      <div className="bg-muted/80 text-muted-foreground px-3 py-1 rounded text-sm font-medium flex items-center gap-1">
+                        <CalendarOff className="h-3 w-3" />
+                        {barberStatus.reason === "Folga" ? "Folga" : `Ausente – ${barberStatus.reason}`}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Closed overlay */}
                   {isClosed && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
@@ -293,15 +325,19 @@ export function CalendarWeekView({
                     const slotDate = setMinutes(setHours(day, hour), 0);
                     const withinHours = isWithinBusinessHoursForDay(day, hour);
                     const isLunchBreak = isWithinLunchBreak(hour);
+                    const isUnavailable = isHourOutsideBarberDay(barberStatus, hour);
+                    const timeBlock = getSelectedBarberTimeBlock(day, hour);
 
                     return (
                       <div
                         key={hour}
                         className={`border-b border-border p-0.5 transition-colors ${
-                          isClosed 
+                          isClosed || isUnavailable
                             ? "bg-muted/40 cursor-not-allowed" 
                             : isLunchBreak
                               ? "bg-orange-100/60 dark:bg-orange-900/20 cursor-not-allowed"
+                              : timeBlock
+                              ? "bg-slate-200/60 dark:bg-slate-800/40 cursor-not-allowed"
                               : `cursor-pointer hover:bg-muted/30 ${
                                   withinHours 
                                     ? "bg-blue-100/40 dark:bg-blue-900/20" 
@@ -309,13 +345,18 @@ export function CalendarWeekView({
                                 } ${isDayToday && withinHours ? "bg-blue-100/50 dark:bg-blue-900/30" : ""}`
                         }`}
                         style={{ height: DEFAULT_HOUR_HEIGHT }}
-                        onClick={() => !isClosed && !isLunchBreak && onSlotClick(slotDate)}
+                        onClick={() => !isClosed && !isUnavailable && !isLunchBreak && !timeBlock && onSlotClick(slotDate)}
                       >
-                        {isLunchBreak && slotAppointments.length === 0 && !isClosed ? (
+                        {isLunchBreak && slotAppointments.length === 0 && !isClosed && !isUnavailable ? (
                           <div className="h-full flex items-center justify-center gap-1 text-orange-600 dark:text-orange-400">
                             <Coffee className="h-3 w-3" />
                             <span className="text-[10px] font-medium">Intervalo</span>
                           </div>
+                        ) : timeBlock && slotAppointments.length === 0 && !isClosed && !isUnavailable ? (
+                          <div className="h-full flex items-center justify-center gap-1 text-muted-foreground" title={timeBlock.reason || undefined}>
+                            <Lock className="h-3 w-3" />
+                            <span className="text-[10px] font-medium truncate">{timeBlock.reason || "Bloqueado"}</span>
+                          </div>
                         ) : (
                           <div className={`space-y-0.5 h-full ${
                             showAllBarbers && slotAppointments.length > 2 
@@ -32,14 +32,17 @@ import { Label } from "@/components/ui/label";
 import type { Barber } from "@/hooks/useBarbers";
 import type { Service } from "@/hooks/useServices";
 import { Zap, CalendarClock } from "lucide-react";
+import { ServiceMultiSelect } from "./ServiceMultiSelect";
 
 const formSchema = z.object({
   client_name: z.string().min(1, "Nome do cliente é obrigatório"),
   client_phone: z.string().optional(),
   client_birth_date: z.string().optional(),
   barber_id: z.string().min(1, "Selecione um profissional"),
-  service_id: z.string().min(1, "Selecione um serviço"),
-  total_price: z.number().min(0, "Valor inválido"),
+  services: z.array(z.object({
+    service_id: z.string(),
+    price: z.number().min(0, "Valor inválido"),
+  })).min(1, "Selecione pelo menos um serviço"),
   notes: z.string().optional(),
   schedule_later: z.boolean().default(false),
   scheduled_date: z.string().optional(),
@@ -90,8 +93,7 @@ export function QuickServiceModal({
       client_phone: "",
       client_birth_date: "",
       barber_id: "",
-      service_id: "",
-      total_price: 0,
+      services: [],
       notes: "",
       schedule_later: false,
       scheduled_date: "",
@@ -112,17 +114,32 @@ export function QuickServiceModal({
     [services]
   );
 
-  const selectedServiceId = form.watch("service_id");
+  const selectedItems = form.watch("services");
+  const totalPrice = selectedItems.reduce((sum, item) => sum + item.price, 0);
 
-  // Update price when service changes
-  useEffect(() => {
-    if (selectedServiceId) {
-      const service = services.find((s) => s.id === selectedServiceId);
-      if (service) {
-        form.setValue("total_price", service.price);
-      }
-    }
-  }, [selectedServiceId, services, form]);
+  // Keep prices already typed for services that stay selected; new ones start at the service price
+  const handleServicesChange = (serviceIds: string[]) => {
+    const currentItems = form.getValues("services");
+    form.setValue(
+      "services",
+      serviceIds.map((serviceId) => {
+        const existing = currentItems.find((item) => item.service_id === serviceId);
+        if (existing) return existing;
+        const service = services.find((s) => s.id === serviceId);
+        return { service_id: serviceId, price: Number(service?.price ?? 0) };
+      }),
+      { shouldValidate: true }
+    );
+  };
+
+  const handleItemPriceChange = (serviceId: string, price: number) => {
+    form.setValue(
+      "services",
+      form.getValues("services").map((item) =>
+        item.service_id === serviceId ? { ...item, price } : item
+      )
+    );
+  };
 
   // Reset form when modal opens
   useEffect(() => {
@@ -134,8 +151,7 @@ export function QuickServiceModal({
         client_phone: "",
         client_birth_date: "",
         barber_id: activeBarbers[0]?.id || "",
-        service_id: "",
-        total_price: 0,
+        services: [],
         notes: "",
         schedule_later: false,
         scheduled_date: today,
@@ -240,47 +256,46 @@ export function QuickServiceModal({
 
                 <FormField
                   control={form.control}
-                  name="service_id"
+                  name="services"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Serviço</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione o serviço" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {activeServices.map((service) => (
-                            <SelectItem key={service.id} value={service.id}>
-                              {service.name} - R$ {service.price.toFixed(2)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <FormLabel>Serviços</FormLabel>
+                      <ServiceMultiSelect
+                        services={activeServices}
+                        value={field.value.map((item) => item.service_id)}
+                        onChange={handleServicesChange}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="total_price"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Valor Cobrado (R$)</FormLabel>
-                      <FormControl>
+                {selectedItems.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Valor Cobrado (R$)</Label>
+                    {selectedItems.map((item) => (
+                      <div key={item.service_id} className="flex items-center gap-3">
+                        <span className="flex-1 text-sm truncate">
+                          {services.find((s) => s.id === item.service_id)?.name || "Serviço"}
+                        </span>
                         <Input
                           type="number"
                           step="0.01"
-                          {...field}
-                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          min="0"
+                          className="w-32"
+                          value={item.price}
+                          onChange={(e) => handleItemPriceChange(item.service_id, parseFloat(e.target.value) || 0)}
                         />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                      </div>
+                    ))}
+                    {selectedItems.length > 1 && (
+                      <div className="flex items-center justify-between border-t pt-2 text-sm font-medium">
+                        <span>Total</span>
+                        <span>R$ {totalPrice.toFixed(2)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 {/* Payment Method - Only show when NOT scheduling for later */}
                 {!scheduleLater && (
@@ -0,0 +1,30 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { RecurrenceScope } from "@/hooks/useAppointments";
+
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: "this", label: "Somente este agendamento" },
+  { value: "following", label: "Este e os seguintes" },
+  { value: "all", label: "Todos da série" },
+];
+
+interface RecurrenceScopeSelectorProps {
+  value: RecurrenceScope;
+  onChange: (scope: RecurrenceScope) => void;
+  idPrefix?: string;
+}
+
+export function RecurrenceScopeSelector({ value, onChange, idPrefix = "scope" }: RecurrenceScopeSelectorProps) {
+  return (
+    <RadioGroup value={value} onValueChange={(v) => onChange(v as RecurrenceScope)} className="gap-2">
+      {SCOPE_OPTIONS.map((option) => (
+        <div key={option.value} className="flex items-center gap-2">
+          <RadioGroupItem value={option.value} id={`${idPrefix}-${option.value}`} />
+          <Label htmlFor={`${idPrefix}-${option.value}`} className="font-normal cursor-pointer">
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
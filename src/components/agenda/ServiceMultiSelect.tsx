@@ -0,0 +1,132 @@
+import { useState, useMemo } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { Service } from "@/hooks/useServices";
+
+interface ServiceMultiSelectProps {
+  services: Service[];
+  value: string[];
+  onChange: (serviceIds: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export function ServiceMultiSelect({
+  services,
+  value,
+  onChange,
+  placeholder = "Selecione os serviços",
+  disabled = false,
+}: ServiceMultiSelectProps) {
+  const [open, setOpen] = useState(false);
+
+  // Keep the order in which services were picked (it becomes the order they are performed)
+  const selectedServices = useMemo(
+    () => value
+      .map((id) => services.find((s) => s.id === id))
+      .filter((s): s is Service => !!s),
+    [services, value]
+  );
+
+  const toggleService = (serviceId: string) => {
+    if (value.includes(serviceId)) {
+      onChange(value.filter((id) => id !== serviceId));
+    } else {
+      onChange([...value, serviceId]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+            disabled={disabled}
+          >
+            {selectedServices.length > 0 ? (
+              <span className="truncate">
+                {selectedServices.length === 1
+                  ? selectedServices[0].name
+                  : `${selectedServices.length} serviços selecionados`}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">{placeholder}</span>
+            )}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Buscar serviço..." />
+            <CommandList>
+              <CommandEmpty className="py-2 px-3 text-sm text-muted-foreground">
+                Nenhum serviço encontrado.
+              </CommandEmpty>
+              <CommandGroup>
+                {services.map((service) => (
+                  <CommandItem
+                    key={service.id}
+                    value={service.name}
+                    onSelect={() => toggleService(service.id)}
+                    className="cursor-pointer"
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        value.includes(service.id) ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <div className="flex flex-1 items-center justify-between gap-2">
+                      <span>{service.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {service.duration_minutes} min • R$ {Number(service.price).toFixed(2)}
+                      </span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selectedServices.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedServices.map((service) => (
+            <Badge key={service.id} variant="secondary" className="gap-1">
+              {service.name}
+              <button
+                type="button"
+                onClick={() => toggleService(service.id)}
+                className="rounded-full hover:text-destructive"
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
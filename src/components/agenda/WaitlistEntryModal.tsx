@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Barber } from "@/hooks/useBarbers";
+import type { Service } from "@/hooks/useServices";
+import type { WaitlistFormData } from "@/hooks/useWaitlist";
+
+const ANY_BARBER = "any";
+
+interface WaitlistEntryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  barbers: Barber[];
+  services: Service[];
+  onSubmit: (data: WaitlistFormData) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function WaitlistEntryModal({ open, onOpenChange, barbers, services, onSubmit, isLoading }: WaitlistEntryModalProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [clientName, setClientName] = useState("");
+  const [clientPhone, setClientPhone] = useState("");
+  const [barberId, setBarberId] = useState(ANY_BARBER);
+  const [serviceId, setServiceId] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setClientName("");
+      setClientPhone("");
+      setBarberId(ANY_BARBER);
+      setServiceId("");
+      setStartDate(today);
+      setEndDate(today);
+      setNotes("");
+    }
+  }, [open, today]);
+
+  const phoneDigits = clientPhone.replace(/\D/g, "");
+  const isValid = clientName.trim().length > 0 && phoneDigits.length >= 10 && !!serviceId && !!startDate && endDate >= startDate;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    await onSubmit({
+      client_name: clientName.trim(),
+      client_phone: phoneDigits,
+      barber_id: barberId === ANY_BARBER ? null : barberId,
+      service_id: serviceId,
+      desired_start_date: startDate,
+      desired_end_date: endDate,
+      notes: notes.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Adicionar à Lista de Espera</DialogTitle>
+          <DialogDescription>
+            Quando um horário compatível for liberado, o cliente recebe a oferta pelo WhatsApp.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Nome do cliente</Label>
+              <Input value={clientName} onChange={(e) => setClientName(e.target.value)} placeholder="Nome" />
+            </div>
+            <div className="space-y-2">
+              <Label>WhatsApp</Label>
+              <Input value={clientPhone} onChange={(e) => setClientPhone(e.target.value)} placeholder="(11) 99999-9999" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Serviço</Label>
+              <Select value={serviceId} onValueChange={setServiceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.filter((s) => s.is_active).map((service) => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.name} ({service.duration_minutes} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Profissional</Label>
+              <Select value={barberId} onValueChange={setBarberId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_BARBER}>Qualquer profissional</SelectItem>
+                  {barbers.filter((b) => b.is_active).map((barber) => (
+                    <SelectItem key={barber.id} value={barber.id}>
+                      {barber.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Disponível a partir de</Label>
+              <Input type="date" value={startDate} min={today} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Até</Label>
+              <Input type="date" value={endDate} min={startDate || today} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Observações</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Ex: prefere fim da tarde" rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!isValid || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Adicionar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Clock, ListPlus, Phone, Plus, Trash2, UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WaitlistEntryModal } from "./WaitlistEntryModal";
+import { useWaitlist, WAITLIST_STATUS_LABELS, type WaitlistEntry } from "@/hooks/useWaitlist";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import type { Barber } from "@/hooks/useBarbers";
+import type { Service } from "@/hooks/useServices";
+
+interface WaitlistTabProps {
+  barbers: Barber[];
+  services: Service[];
+}
+
+export function WaitlistTab({ barbers, services }: WaitlistTabProps) {
+  const { currentUnitId, currentCompanyId } = useCurrentUnit();
+  const { entries, activeEntries, isLoading, addEntry, cancelEntry, deleteEntry } = useWaitlist(currentUnitId, currentCompanyId);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const offeredCount = entries.filter((e) => e.status === "offered").length;
+  const bookedCount = entries.filter((e) => e.status === "booked").length;
+
+  const formatDate = (date: string) => format(parseISO(date), "dd/MM", { locale: ptBR });
+
+  const getBarberName = (barberId: string | null) =>
+    barbers.find((b) => b.id === barberId)?.name || "Profissional";
+
+  const getStatusBadge = (entry: WaitlistEntry) => {
+    switch (entry.status) {
+      case "offered":
+        if (entry.offer_expires_at && new Date(entry.offer_expires_at) < new Date()) {
+          return <Badge variant="secondary">Oferta expirada</Badge>;
+        }
+        return <Badge className="bg-amber-500 hover:bg-amber-500/80">{WAITLIST_STATUS_LABELS.offered}</Badge>;
+      case "booked":
+        return <Badge className="bg-green-600 hover:bg-green-600/80">{WAITLIST_STATUS_LABELS.booked}</Badge>;
+      case "cancelled":
+        return <Badge variant="outline">{WAITLIST_STATUS_LABELS.cancelled}</Badge>;
+      default:
+        return <Badge variant="secondary">{WAITLIST_STATUS_LABELS.waiting}</Badge>;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Na fila</CardDescription>
+            <CardTitle className="text-2xl">{activeEntries.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-1">
+              <Clock className="h-3 w-3 text-amber-500" />
+              Ofertas aguardando resposta
+            </CardDescription>
+            <CardTitle className="text-2xl text-amber-500">{offeredCount}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Agendados pela lista (7 dias)</CardDescription>
+            <CardTitle className="text-2xl text-green-600">{bookedCount}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Horários liberados por cancelamento são oferecidos pelo WhatsApp, por ordem de chegada na lista.
+        </p>
+        <Button onClick={() => setIsModalOpen(true)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Adicionar
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Serviço</TableHead>
+                <TableHead>Profissional</TableHead>
+                <TableHead>Período desejado</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Origem</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-12">
+                    <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                      <ListPlus className="h-8 w-8" />
+                      <span className="font-medium text-foreground">Lista de espera vazia</span>
+                      <span className="text-sm">Adicione clientes que querem um horário já ocupado</span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => {
+                  const isActive = entry.status === "waiting" || entry.status === "offered";
+
+                  return (
+                    <TableRow key={entry.id} className={isActive ? undefined : "opacity-60"}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{entry.client_name}</span>
+                          <span className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Phone className="h-3 w-3" />
+                            {entry.client_phone}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{entry.service?.name || "-"}</TableCell>
+                      <TableCell>{entry.barber?.name || "Qualquer"}</TableCell>
+                      <TableCell>
+                        {entry.desired_start_date === entry.desired_end_date
+                          ? formatDate(entry.desired_start_date)
+                          : `${formatDate(entry.desired_start_date)} a ${formatDate(entry.desired_end_date)}`}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1 items-start">
+                          {getStatusBadge(entry)}
+                          {entry.status === "offered" && entry.offered_slot_start && (
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(entry.offered_slot_start), "dd/MM HH:mm")} com {getBarberName(entry.offered_barber_id)}
+                              {entry.offer_expires_at && ` • reservado até ${format(new Date(entry.offer_expires_at), "HH:mm")}`}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{entry.source === "whatsapp" ? "WhatsApp" : "Manual"}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {isActive ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Remover da lista"
+                            onClick={() => cancelEntry.mutate(entry)}
+                            disabled={cancelEntry.isPending}
+                          >
+                            <UserMinus className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Excluir registro"
+                            onClick={() => deleteEntry.mutate(entry.id)}
+                            disabled={deleteEntry.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <WaitlistEntryModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        barbers={barbers}
+        services={services}
+        onSubmit={(data) => addEntry.mutateAsync(data)}
+        isLoading={addEntry.isPending}
+      />
+    </div>
+  );
+}
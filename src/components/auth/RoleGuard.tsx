@@ -0,0 +1,42 @@
+import { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { ROLE_PERMISSIONS, useUserRole, type AppModule } from "@/hooks/useUserRole";
+
+interface RoleGuardProps {
+  module: AppModule;
+  children: ReactNode;
+}
+
+const MODULE_PATHS: Record<AppModule, string> = {
+  dashboard: "/dashboard",
+  agenda: "/agenda",
+  clientes: "/clientes",
+  profissionais: "/profissionais",
+  servicos: "/servicos",
+  financeiro: "/financeiro",
+  marketing: "/marketing",
+  relatorios: "/relatorios",
+  unidades: "/unidades",
+  configuracoes: "/configuracoes",
+  assinatura: "/assinatura",
+};
+
+// Sends staff members to the first page their role can open
+export function RoleGuard({ module, children }: RoleGuardProps) {
+  const { role, can, isLoading } = useUserRole();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!can(module)) {
+    return <Navigate to={MODULE_PATHS[ROLE_PERMISSIONS[role][0]]} replace />;
+  }
+
+  return <>{children}</>;
+}
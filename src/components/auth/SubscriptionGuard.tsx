@@ -4,11 +4,29 @@ import { supabase } from "@/integrations/supabase/client";
 import { Loader2, AlertTriangle, Clock } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { usePlanEntitlements } from "@/hooks/usePlanEntitlements";
+import { UpgradePrompt } from "@/components/subscription/UpgradePrompt";
 
 interface SubscriptionGuardProps {
   children: React.ReactNode;
 }
 
+// Pages that require a plan feature (plan_features.feature_key)
+const FEATURE_PATHS: { path: string; feature: string; title: string; description: string }[] = [
+  {
+    path: "/relatorios",
+    feature: "advanced_reports",
+    title: "Relatórios avançados",
+    description: "Acompanhe faturamento, ticket médio e desempenho da equipe com os relatórios do plano Profissional.",
+  },
+  {
+    path: "/marketing",
+    feature: "marketing_automations",
+    title: "Marketing não disponível no seu plano",
+    description: "Campanhas, segmentos, automações e pesquisas de satisfação pelo WhatsApp estão disponíveis a partir do plano Profissional.",
+  },
+];
+
 export function SubscriptionGuard({ children }: SubscriptionGuardProps) {
   const navigate = useNavigate();
   const location = useLocation();
@@ -17,6 +35,7 @@ export function SubscriptionGuard({ children }: SubscriptionGuardProps) {
   const [daysRemaining, setDaysRemaining] = useState<number | null>(null);
   const [isBlocked, setIsBlocked] = useState(false);
   const [isSuperAdmin, setIsSuperAdmin] = useState(false);
+  const { hasFeature, isLoading: isLoadingEntitlements } = usePlanEntitlements();
   // Pages that don't require subscription check
   const exemptPaths = ["/assinatura", "/admin"];
 
@@ -44,12 +63,19 @@ export function SubscriptionGuard({ children }: SubscriptionGuardProps) {
         }
 
         // Get company data
-        const { data: company } = await supabase
+        const { data: ownCompany } = await supabase
           .from("companies")
           .select("plan_status, trial_ends_at, is_blocked, is_partner, partner_ends_at")
           .eq("owner_user_id", session.user.id)
           .maybeSingle();
 
+        // Staff members follow the subscription of the company they work for
+        let company = ownCompany;
+        if (!company) {
+          const { data: staffCompany } = await supabase.rpc("get_staff_company_status");
+          company = staffCompany?.[0] ?? null;
+        }
+
         if (!company) {
           setIsLoading(false);
           return;
@@ -113,8 +139,11 @@ export function SubscriptionGuard({ children }: SubscriptionGuardProps) {
 
   // Check if current path is exempt
   const isExemptPath = exemptPaths.some(path => location.pathname.startsWith(path));
+  const featurePath = FEATURE_PATHS.find((item) => location.pathname.startsWith(item.path));
+  const lockedFeature = featurePath && !hasFeature(featurePath.feature) ? featurePath : undefined;
 
-  if (isLoading) {
+  // Feature pages wait for the plan so they don't render before the check
+  if (isLoading || (featurePath && isLoadingEntitlements && !isSuperAdmin)) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <div className="flex flex-col items-center gap-4">
@@ -166,5 +195,19 @@ export function SubscriptionGuard({ children }: SubscriptionGuardProps) {
     );
   }
 
+  // Feature not included in the current plan
+  if (lockedFeature && !isSuperAdmin) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <div className="w-full max-w-md space-y-4">
+          <UpgradePrompt title={lockedFeature.title} description={lockedFeature.description} />
+          <Button variant="outline" className="w-full" onClick={() => navigate("/dashboard")}>
+            Voltar ao painel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
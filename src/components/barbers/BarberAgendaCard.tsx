@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import {
+  addDays,
+  addWeeks,
+  endOfDay,
+  endOfWeek,
+  format,
+  isSameDay,
+  isToday,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Calendar, CheckCircle, ChevronLeft, ChevronRight, Phone, Play, UserX } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StatusBadge } from "@/components/agenda/StatusBadge";
+import { PaymentMethodModal, PaymentBadge, type PaymentMethod } from "@/components/financeiro/PaymentMethodModal";
+import { useBarberAppointments } from "@/hooks/useBarberAppointments";
+import { getAppointmentServicesLabel, type Appointment } from "@/hooks/useAppointments";
+
+interface BarberAgendaCardProps {
+  barberId: string;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function BarberAgendaCard({ barberId }: BarberAgendaCardProps) {
+  const [view, setView] = useState<"day" | "week">("day");
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [completing, setCompleting] = useState<Appointment | null>(null);
+  const [noShow, setNoShow] = useState<Appointment | null>(null);
+
+  const range = useMemo(
+    () =>
+      view === "day"
+        ? { start: startOfDay(currentDate), end: endOfDay(currentDate) }
+        : { start: startOfWeek(currentDate, { weekStartsOn: 0 }), end: endOfWeek(currentDate, { weekStartsOn: 0 }) },
+    [view, currentDate]
+  );
+
+  const { appointments, isLoading, confirmAppointment, startAppointment, completeAppointment, markNoShow } =
+    useBarberAppointments(barberId, range.start, range.end);
+
+  const days = useMemo(() => {
+    if (view === "day") return [range.start];
+    return Array.from({ length: 7 }, (_, i) => addDays(range.start, i));
+  }, [view, range.start]);
+
+  const navigate = (direction: 1 | -1) =>
+    setCurrentDate((date) => (view === "day" ? addDays(date, direction) : addWeeks(date, direction)));
+
+  const handlePaymentConfirm = (paymentMethod: PaymentMethod, courtesyReason?: string) => {
+    if (!completing) return;
+    completeAppointment.mutate(
+      { id: completing.id, paymentMethod, courtesyReason },
+      { onSuccess: () => setCompleting(null) }
+    );
+  };
+
+  const handleNoShowConfirm = () => {
+    if (!noShow) return;
+    markNoShow.mutate(noShow, { onSettled: () => setNoShow(null) });
+  };
+
+  const title =
+    view === "day"
+      ? format(currentDate, "EEEE, dd 'de' MMMM", { locale: ptBR })
+      : `${format(range.start, "dd/MM")} a ${format(range.end, "dd/MM/yyyy")}`;
+
+  const renderAppointment = (appointment: Appointment) => {
+    const isOpen = appointment.status === "pending" || appointment.status === "confirmed";
+    const inService = isOpen && !!appointment.started_at;
+    const hasStarted = new Date(appointment.start_time) <= new Date();
+
+    return (
+      <div
+        key={appointment.id}
+        className={`rounded-lg border border-border p-3 ${appointment.status === "cancelled" ? "opacity-60" : ""}`}
+      >
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-foreground">
+              {format(new Date(appointment.start_time), "HH:mm")} - {format(new Date(appointment.end_time), "HH:mm")}
+              <span className="ml-2 font-medium">{appointment.client_name}</span>
+            </p>
+            <p className="truncate text-sm text-muted-foreground">{getAppointmentServicesLabel(appointment) || "Serviço"}</p>
+            {appointment.client_phone && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Phone className="h-3 w-3" />
+                {appointment.client_phone}
+              </p>
+            )}
+            {appointment.notes && <p className="mt-1 text-xs text-muted-foreground italic">{appointment.notes}</p>}
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            {inService ? (
+              <Badge variant="outline" className="bg-primary/20 text-primary border-primary/30">
+                <Play className="mr-1 h-3.5 w-3.5" />
+                Em atendimento
+              </Badge>
+            ) : (
+              <StatusBadge status={appointment.status} size="sm" />
+            )}
+            <span className="text-sm font-semibold text-foreground">{formatCurrency(Number(appointment.total_price))}</span>
+            {appointment.status === "completed" && appointment.payment_method && (
+              <PaymentBadge method={appointment.payment_method} />
+            )}
+          </div>
+        </div>
+
+        {isOpen && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {appointment.status === "pending" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => confirmAppointment.mutate(appointment.id)}
+                disabled={confirmAppointment.isPending}
+              >
+                Confirmar
+              </Button>
+            )}
+            {!inService && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                onClick={() => startAppointment.mutate(appointment)}
+                disabled={startAppointment.isPending}
+              >
+                <Play className="h-3.5 w-3.5" />
+                Iniciar
+              </Button>
+            )}
+            <Button size="sm" className="gap-1" onClick={() => setCompleting(appointment)}>
+              <CheckCircle className="h-3.5 w-3.5" />
+              Finalizar
+            </Button>
+            {hasStarted && !inService && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="gap-1 text-destructive hover:text-destructive"
+                onClick={() => setNoShow(appointment)}
+              >
+                <UserX className="h-3.5 w-3.5" />
+                Não compareceu
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            Minha Agenda
+          </CardTitle>
+          <div className="flex rounded-lg border border-border p-0.5">
+            <Button size="sm" variant={view === "day" ? "secondary" : "ghost"} className="h-7" onClick={() => setView("day")}>
+              Dia
+            </Button>
+            <Button size="sm" variant={view === "week" ? "secondary" : "ghost"} className="h-7" onClick={() => setView("week")}>
+              Semana
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium capitalize text-foreground">{title}</span>
+            {!isToday(currentDate) && (
+              <Button variant="outline" size="sm" className="h-7" onClick={() => setCurrentDate(new Date())}>
+                Hoje
+              </Button>
+            )}
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : appointments.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Nenhum agendamento {view === "day" ? "neste dia" : "nesta semana"}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {days.map((day) => {
+              const dayAppointments = appointments.filter((apt) => isSameDay(new Date(apt.start_time), day));
+              if (view === "week" && dayAppointments.length === 0) return null;
+
+              return (
+                <div key={day.toISOString()} className="space-y-2">
+                  {view === "week" && (
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">
+                      {format(day, "EEEE, dd/MM", { locale: ptBR })}
+                    </p>
+                  )}
+                  {dayAppointments.map(renderAppointment)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <PaymentMethodModal
+        open={!!completing}
+        onOpenChange={(open) => !open && setCompleting(null)}
+        onConfirm={handlePaymentConfirm}
+        totalPrice={Number(completing?.total_price || 0)}
+        isLoading={completeAppointment.isPending}
+      />
+
+      <AlertDialog open={!!noShow} onOpenChange={(open) => !open && setNoShow(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Registrar falta?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O agendamento de {noShow?.client_name} será cancelado como não comparecimento.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleNoShowConfirm}>Registrar Falta</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarOff, Loader2, Lock, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBarberAvailability } from "@/hooks/useBarberAvailability";
+import {
+  TIME_OFF_REASON_LABELS,
+  TIME_OFF_STATUS_LABELS,
+  type TimeOffReason,
+  type TimeOffStatus,
+} from "@/hooks/useBarberSchedules";
+import type { BarberProfile } from "@/hooks/useBarberAuth";
+
+interface BarberAvailabilityCardProps {
+  barber: BarberProfile;
+}
+
+const STATUS_STYLES: Record<TimeOffStatus, string> = {
+  pending: "bg-yellow-500/20 text-yellow-600 border-yellow-500/30",
+  approved: "bg-green-500/20 text-green-600 border-green-500/30",
+  rejected: "bg-red-500/20 text-red-600 border-red-500/30",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+export function BarberAvailabilityCard({ barber }: BarberAvailabilityCardProps) {
+  const { timeBlocks, timeOff, isLoading, addTimeBlock, removeTimeBlock, requestTimeOff, cancelTimeOffRequest } =
+    useBarberAvailability(barber);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const [blockDate, setBlockDate] = useState(today);
+  const [blockStart, setBlockStart] = useState("");
+  const [blockEnd, setBlockEnd] = useState("");
+  const [blockReason, setBlockReason] = useState("");
+
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState<TimeOffReason>("vacation");
+  const [notes, setNotes] = useState("");
+
+  const handleAddBlock = async () => {
+    if (!blockDate || !blockStart || !blockEnd) return;
+
+    await addTimeBlock.mutateAsync({
+      start_time: new Date(`${blockDate}T${blockStart}:00`),
+      end_time: new Date(`${blockDate}T${blockEnd}:00`),
+      reason: blockReason.trim() || null,
+    });
+    setBlockStart("");
+    setBlockEnd("");
+    setBlockReason("");
+  };
+
+  const resetRequestForm = () => {
+    setIsRequesting(false);
+    setStartDate("");
+    setEndDate("");
+    setReason("vacation");
+    setNotes("");
+  };
+
+  const handleRequest = async () => {
+    if (!startDate) return;
+
+    await requestTimeOff.mutateAsync({
+      start_date: startDate,
+      end_date: endDate || startDate,
+      reason,
+      notes: notes.trim() || null,
+    });
+    resetRequestForm();
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <CalendarOff className="h-4 w-4" />
+          Minha Disponibilidade
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <Tabs defaultValue="blocks">
+            <TabsList className="bg-muted">
+              <TabsTrigger value="blocks">Bloqueios</TabsTrigger>
+              <TabsTrigger value="absences">Ausências</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="blocks" className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Bloqueie um horário do seu dia (dentista, banco...). Clientes não conseguem agendar nesse período.
+              </p>
+              <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">Data</Label>
+                  <Input type="date" value={blockDate} min={today} onChange={(e) => setBlockDate(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Das</Label>
+                  <Input type="time" value={blockStart} onChange={(e) => setBlockStart(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Até</Label>
+                  <Input type="time" value={blockEnd} onChange={(e) => setBlockEnd(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Motivo</Label>
+                  <Input placeholder="Opcional" value={blockReason} onChange={(e) => setBlockReason(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  onClick={handleAddBlock}
+                  disabled={!blockDate || !blockStart || !blockEnd || addTimeBlock.isPending}
+                >
+                  {addTimeBlock.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Lock className="h-3.5 w-3.5" />}
+                  Bloquear Horário
+                </Button>
+              </div>
+
+              {timeBlocks.length > 0 ? (
+                <div className="divide-y divide-border rounded-lg border border-border">
+                  {timeBlocks.map((block) => (
+                    <div key={block.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <div>
+                        <p className="font-medium capitalize">
+                          {format(new Date(block.start_time), "EEEE, dd/MM", { locale: ptBR })} •{" "}
+                          {format(new Date(block.start_time), "HH:mm")} - {format(new Date(block.end_time), "HH:mm")}
+                        </p>
+                        {block.reason && <p className="text-xs text-muted-foreground">{block.reason}</p>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => removeTimeBlock.mutate(block.id)}
+                        disabled={removeTimeBlock.isPending}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center text-xs text-muted-foreground">Nenhum bloqueio programado</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="absences" className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  Férias, cursos e outras ausências precisam da aprovação do gestor.
+                </p>
+                {!isRequesting && (
+                  <Button variant="ghost" size="sm" className="h-7 shrink-0 gap-1 text-xs" onClick={() => setIsRequesting(true)}>
+                    <Plus className="h-3.5 w-3.5" />
+                    Solicitar
+                  </Button>
+                )}
+              </div>
+
+              {isRequesting && (
+                <div className="space-y-3 rounded-md bg-secondary/50 p-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">De</Label>
+                      <Input type="date" value={startDate} min={today} onChange={(e) => setStartDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Até</Label>
+                      <Input type="date" value={endDate} min={startDate || today} onChange={(e) => setEndDate(e.target.value)} />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Motivo</Label>
+                    <Select value={reason} onValueChange={(v) => setReason(v as TimeOffReason)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TIME_OFF_REASON_LABELS) as TimeOffReason[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {TIME_OFF_REASON_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input placeholder="Observação (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={resetRequestForm}>
+                      Cancelar
+                    </Button>
+                    <Button size="sm" onClick={handleRequest} disabled={!startDate || requestTimeOff.isPending}>
+                      {requestTimeOff.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Enviar Solicitação
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {timeOff.length > 0 ? (
+                <div className="divide-y divide-border rounded-lg border border-border">
+                  {timeOff.map((absence) => (
+                    <div key={absence.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <div>
+                        <p className="font-medium flex items-center gap-2">
+                          {TIME_OFF_REASON_LABELS[absence.reason]}
+                          <Badge variant="outline" className={STATUS_STYLES[absence.status]}>
+                            {TIME_OFF_STATUS_LABELS[absence.status]}
+                          </Badge>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {absence.start_date === absence.end_date
+                            ? formatDate(absence.start_date)
+                            : `${formatDate(absence.start_date)} a ${formatDate(absence.end_date)}`}
+                          {absence.notes && ` • ${absence.notes}`}
+                        </p>
+                      </div>
+                      {absence.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                          onClick={() => cancelTimeOffRequest.mutate(absence.id)}
+                          disabled={cancelTimeOffRequest.isPending}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                !isRequesting && <p className="text-center text-xs text-muted-foreground">Nenhuma ausência programada</p>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Banknote, CreditCard, Gift, Package, Smartphone, Target, Ticket, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useBarberEarnings } from "@/hooks/useBarberEarnings";
+import type { BarberProfile } from "@/hooks/useBarberAuth";
+
+type Period = "today" | "week" | "month";
+
+interface BarberEarningsCardProps {
+  barber: BarberProfile;
+}
+
+const PAYMENT_METHODS: { value: string; label: string; icon: React.ElementType; color: string }[] = [
+  { value: "cash", label: "Dinheiro", icon: Banknote, color: "text-green-500" },
+  { value: "pix", label: "PIX", icon: Smartphone, color: "text-blue-500" },
+  { value: "debit_card", label: "Débito", icon: CreditCard, color: "text-orange-500" },
+  { value: "credit_card", label: "Crédito", icon: CreditCard, color: "text-purple-500" },
+  { value: "courtesy", label: "Cortesia", icon: Gift, color: "text-pink-500" },
+  { value: "package", label: "Pacote", icon: Ticket, color: "text-cyan-500" },
+];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function BarberEarningsCard({ barber }: BarberEarningsCardProps) {
+  const [period, setPeriod] = useState<Period>("today");
+  const { summaries, settings, isLoading } = useBarberEarnings(barber);
+
+  const summary = summaries?.[period];
+  const goal = Number(barber.monthly_goal || 0);
+  const monthRevenue = summaries ? summaries.month.gross + summaries.month.productsTotal : 0;
+  const goalPercent = goal > 0 ? Math.min((monthRevenue / goal) * 100, 100) : 0;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            Meus Ganhos
+          </CardTitle>
+          <Tabs value={period} onValueChange={(v) => setPeriod(v as Period)}>
+            <TabsList className="bg-muted h-8">
+              <TabsTrigger value="today" className="text-xs">Hoje</TabsTrigger>
+              <TabsTrigger value="week" className="text-xs">Semana</TabsTrigger>
+              <TabsTrigger value="month" className="text-xs">Mês</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !summary ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Faturamento bruto</p>
+                <p className="text-lg font-bold text-foreground">{formatCurrency(summary.gross)}</p>
+                <p className="text-xs text-muted-foreground">{summary.count} atendimento(s)</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Taxas de cartão</p>
+                <p className="text-lg font-bold text-red-500">- {formatCurrency(summary.cardFees)}</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Líquido</p>
+                <p className="text-lg font-bold text-foreground">{formatCurrency(summary.net)}</p>
+              </div>
+              <div className="rounded-lg border border-primary/30 bg-primary/5 p-3">
+                <p className="text-xs text-muted-foreground">Sua comissão</p>
+                <p className="text-lg font-bold text-primary">{formatCurrency(summary.commission)}</p>
+                {summary.productCommission > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(summary.productCommission)} em produtos
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              Comissão sobre
+              <Badge variant="outline">{settings?.calculationBase === "net" ? "Valor Líquido" : "Valor Bruto"}</Badge>
+              <span>•</span>
+              Serviços {barber.commission_rate}% • Produtos {barber.product_commission_rate ?? 0}%
+            </div>
+
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {PAYMENT_METHODS.filter((method) => summary.byPaymentMethod[method.value]).map((method) => {
+                const entry = summary.byPaymentMethod[method.value];
+                const Icon = method.icon;
+                return (
+                  <div key={method.value} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <span className="flex items-center gap-2">
+                      <Icon className={`h-4 w-4 ${method.color}`} />
+                      {method.label}
+                      <span className="text-xs text-muted-foreground">({entry.count})</span>
+                    </span>
+                    <span className="text-right">
+                      <span className="font-medium">{formatCurrency(entry.total)}</span>
+                      <span className="ml-2 text-xs text-primary">{formatCurrency(entry.commission)}</span>
+                    </span>
+                  </div>
+                );
+              })}
+              <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <Package className="h-4 w-4 text-muted-foreground" />
+                  Produtos vendidos
+                </span>
+                <span className="text-right">
+                  <span className="font-medium">{formatCurrency(summary.productsTotal)}</span>
+                  <span className="ml-2 text-xs text-primary">{formatCurrency(summary.productCommission)}</span>
+                </span>
+              </div>
+            </div>
+
+            {goal > 0 && summaries && (
+              <div className="space-y-2 rounded-lg border border-border p-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 font-medium text-foreground">
+                    <Target className="h-4 w-4 text-primary" />
+                    Meta do mês
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatCurrency(monthRevenue)} de {formatCurrency(goal)}
+                  </span>
+                </div>
+                <Progress value={goalPercent} />
+                <p className="text-xs text-muted-foreground">
+                  {monthRevenue >= goal
+                    ? "Meta atingida! 🎉"
+                    : `Faltam ${formatCurrency(goal - monthRevenue)} (${goalPercent.toFixed(0)}% concluído)`}
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
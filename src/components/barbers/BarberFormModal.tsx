@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -11,6 +11,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -22,15 +23,28 @@ import { Slider } from "@/components/ui/slider";
 import { AvatarUpload } from "@/components/ui/avatar-upload";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { User, Building2, CreditCard, Clock } from "lucide-react";
-import { Barber } from "@/hooks/useBarbers";
+import { User, Building2, CreditCard, Clock, CalendarDays } from "lucide-react";
+import { Barber, useBarbers } from "@/hooks/useBarbers";
+import { usePlanEntitlements } from "@/hooks/usePlanEntitlements";
+import { UpgradePrompt } from "@/components/subscription/UpgradePrompt";
 import { Unit } from "@/hooks/useUnits";
+import { useBarberSchedules, DEFAULT_BARBER_SCHEDULE } from "@/hooks/useBarberSchedules";
+import { BarberTimeOffSection } from "./BarberTimeOffSection";
 
 const PRESET_COLORS = [
   "#FF6B00", "#D4AF37", "#22C55E", "#3B82F6", 
   "#8B5CF6", "#EC4899", "#EF4444", "#06B6D4"
 ];
 
+const DAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const scheduleDaySchema = z.object({
+  day_of_week: z.number().min(0).max(6),
+  is_working: z.boolean(),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+});
+
 const barberSchema = z.object({
   name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
   phone: z.string().optional(),
@@ -38,6 +52,8 @@ const barberSchema = z.object({
   photo_url: z.string().optional().or(z.literal("")),
   calendar_color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Cor inválida"),
   commission_rate: z.number().min(0).max(100),
+  product_commission_rate: z.number().min(0).max(100),
+  monthly_goal: z.number().min(0).optional().nullable(),
   is_active: z.boolean(),
   unit_id: z.string().optional(),
   use_custom_fees: z.boolean(),
@@ -46,6 +62,11 @@ const barberSchema = z.object({
   lunch_break_enabled: z.boolean(),
   lunch_break_start: z.string().optional().nullable(),
   lunch_break_end: z.string().optional().nullable(),
+  custom_schedule_enabled: z.boolean(),
+  schedule: z.array(scheduleDaySchema).refine(
+    (days) => days.every((d) => !d.is_working || (!!d.start_time && !!d.end_time && d.start_time < d.end_time)),
+    "O horário de saída deve ser posterior ao de entrada"
+  ),
 });
 
 type BarberFormValues = z.infer<typeof barberSchema>;
@@ -69,6 +90,13 @@ export function BarberFormModal({
   units = [],
   defaultUnitId,
 }: BarberFormModalProps) {
+  const { schedules } = useBarberSchedules(barber?.unit_id);
+  // Plan limit counts active professionals across every unit of the company
+  const { barbers: companyBarbers } = useBarbers(null);
+  const { isWithinLimit, getLimit } = usePlanEntitlements();
+  const activeBarbersCount = companyBarbers.filter((b) => b.is_active).length;
+  const isAtBarberLimit = !barber && !isWithinLimit("max_professionals", activeBarbersCount);
+
   const form = useForm<BarberFormValues>({
     resolver: zodResolver(barberSchema),
     defaultValues: {
@@ -78,6 +106,8 @@ export function BarberFormModal({
       photo_url: "",
       calendar_color: "#FF6B00",
       commission_rate: 50,
+      product_commission_rate: 0,
+      monthly_goal: null,
       is_active: true,
       unit_id: "",
       use_custom_fees: false,
@@ -86,6 +116,8 @@ export function BarberFormModal({
       lunch_break_enabled: false,
       lunch_break_start: "12:00",
       lunch_break_end: "13:00",
+      custom_schedule_enabled: false,
+      schedule: DEFAULT_BARBER_SCHEDULE,
     },
   });
 
@@ -95,6 +127,11 @@ export function BarberFormModal({
   const showUnitSelector = !isEditMode && units.length > 1;
   const useCustomFees = form.watch("use_custom_fees");
   const lunchBreakEnabled = form.watch("lunch_break_enabled");
+  const customScheduleEnabled = form.watch("custom_schedule_enabled");
+  const currentSchedule = useMemo(
+    () => (barber ? schedules.filter((s) => s.barber_id === barber.id) : []),
+    [schedules, barber]
+  );
 
   // Reset form when modal opens/closes or barber changes
   useEffect(() => {
@@ -107,6 +144,8 @@ export function BarberFormModal({
         photo_url: barber?.photo_url || "",
         calendar_color: barber?.calendar_color || "#FF6B00",
         commission_rate: barber?.commission_rate || 50,
+        product_commission_rate: barber?.product_commission_rate ?? 0,
+        monthly_goal: barber?.monthly_goal ?? null,
         is_active: barber?.is_active ?? true,
         unit_id: barber?.unit_id || defaultUnitId || (units.length === 1 ? units[0]?.id : ""),
         use_custom_fees: hasCustomFees,
@@ -115,10 +154,21 @@ export function BarberFormModal({
         lunch_break_enabled: barber?.lunch_break_enabled ?? false,
         lunch_break_start: barber?.lunch_break_start || "12:00",
         lunch_break_end: barber?.lunch_break_end || "13:00",
+        custom_schedule_enabled: currentSchedule.length > 0,
+        schedule: DEFAULT_BARBER_SCHEDULE.map((defaultDay) => {
+          const day = currentSchedule.find((s) => s.day_of_week === defaultDay.day_of_week);
+          if (!day) return defaultDay;
+          return {
+            day_of_week: day.day_of_week,
+            is_working: day.is_working,
+            start_time: day.start_time?.slice(0, 5) || defaultDay.start_time || "10:00",
+            end_time: day.end_time?.slice(0, 5) || defaultDay.end_time || "19:00",
+          };
+        }),
       });
       setSelectedColor(barber?.calendar_color || "#FF6B00");
     }
-  }, [open, barber, form, defaultUnitId, units]);
+  }, [open, barber, form, defaultUnitId, units, currentSchedule]);
 
   const handleSubmit = (data: BarberFormValues) => {
     const submitData = {
@@ -128,6 +178,7 @@ export function BarberFormModal({
       lunch_break_enabled: data.lunch_break_enabled,
       lunch_break_start: data.lunch_break_enabled ? data.lunch_break_start : null,
       lunch_break_end: data.lunch_break_enabled ? data.lunch_break_end : null,
+      schedule: data.custom_schedule_enabled ? data.schedule : null,
     };
     onSubmit(submitData);
     form.reset();
@@ -148,6 +199,12 @@ export function BarberFormModal({
           </DialogTitle>
         </DialogHeader>
 
+        {isAtBarberLimit ? (
+          <UpgradePrompt
+            title="Limite de profissionais atingido"
+            description={`Seu plano permite até ${getLimit("max_professionals")} profissional(is) ativo(s). Faça upgrade ou desative alguém para cadastrar um novo.`}
+          />
+        ) : (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
             {/* Unit Selector for new barbers */}
@@ -303,6 +360,51 @@ export function BarberFormModal({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="product_commission_rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comissão em produtos: {field.value}%</FormLabel>
+                  <FormControl>
+                    <Slider
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={[field.value]}
+                      onValueChange={(values) => field.onChange(values[0])}
+                      className="py-4"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="monthly_goal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Meta mensal de faturamento (R$)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sem meta"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-xs">
+                    Serviços e produtos. O profissional acompanha o progresso na área dele.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Custom Card Fees Section */}
             <div className="border border-border rounded-lg p-4 space-y-4">
               <div className="flex items-center justify-between">
@@ -441,6 +543,93 @@ export function BarberFormModal({
               )}
             </div>
 
+            {/* Working Schedule Section */}
+            <div className="border border-border rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Jornada de Trabalho</span>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="custom_schedule_enabled"
+                  render={({ field }) => (
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  )}
+                />
+              </div>
+
+              {customScheduleEnabled && (
+                <FormField
+                  control={form.control}
+                  name="schedule"
+                  render={({ field }) => {
+                    const updateDay = (dayOfWeek: number, changes: Partial<BarberFormValues["schedule"][number]>) => {
+                      field.onChange(field.value.map((d) => (d.day_of_week === dayOfWeek ? { ...d, ...changes } : d)));
+                    };
+
+                    return (
+                      <FormItem>
+                        <div className="space-y-2">
+                          {field.value.map((day) => (
+                            <div key={day.day_of_week} className="flex items-center gap-2">
+                              <span className="w-8 text-xs font-medium">{DAY_LABELS[day.day_of_week]}</span>
+                              <Switch
+                                checked={day.is_working}
+                                onCheckedChange={(checked) => updateDay(day.day_of_week, {
+                                  is_working: checked,
+                                  start_time: day.start_time || "10:00",
+                                  end_time: day.end_time || "19:00",
+                                })}
+                              />
+                              {day.is_working ? (
+                                <>
+                                  <Input
+                                    type="time"
+                                    className="h-8 flex-1"
+                                    value={day.start_time ?? ""}
+                                    onChange={(e) => updateDay(day.day_of_week, { start_time: e.target.value })}
+                                  />
+                                  <span className="text-xs text-muted-foreground">às</span>
+                                  <Input
+                                    type="time"
+                                    className="h-8 flex-1"
+                                    value={day.end_time ?? ""}
+                                    onChange={(e) => updateDay(day.day_of_week, { end_time: e.target.value })}
+                                  />
+                                </>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">Folga</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    );
+                  }}
+                />
+              )}
+
+              {!customScheduleEnabled && (
+                <p className="text-xs text-muted-foreground">
+                  Seguindo o horário de funcionamento da unidade
+                </p>
+              )}
+            </div>
+
+            {/* Time Off Section */}
+            {barber ? (
+              <BarberTimeOffSection barber={barber} />
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Salve o profissional para cadastrar férias e ausências
+              </p>
+            )}
+
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 type="button"
@@ -455,6 +644,7 @@ export function BarberFormModal({
             </div>
           </form>
         </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
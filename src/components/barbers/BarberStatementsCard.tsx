@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ChevronRight, HandCoins } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useBarberStatements, type CommissionPayout } from "@/hooks/useCommissionPayouts";
+import { CommissionPayoutModal } from "@/components/financeiro/CommissionPayoutModal";
+
+interface BarberStatementsCardProps {
+  barberId: string;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function BarberStatementsCard({ barberId }: BarberStatementsCardProps) {
+  const { statements, isLoading } = useBarberStatements(barberId);
+  const [viewing, setViewing] = useState<CommissionPayout | null>(null);
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <HandCoins className="h-4 w-4" />
+          Meus Extratos
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : statements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum acerto de comissão gerado ainda</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {statements.map((statement) => (
+              <button
+                key={statement.id}
+                type="button"
+                onClick={() => setViewing(statement)}
+                className="w-full flex items-center justify-between gap-3 py-3 text-left hover:bg-muted/30 transition-colors"
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {format(parseISO(statement.period_start), "dd/MM")} a {format(parseISO(statement.period_end), "dd/MM/yyyy")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {(statement.items || []).length} item(ns)
+                    {Number(statement.advances_total) > 0 && ` • Vales ${formatCurrency(Number(statement.advances_total))}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-foreground">{formatCurrency(Number(statement.net_amount))}</span>
+                  <Badge variant={statement.status === "paid" ? "default" : "outline"}>
+                    {statement.status === "paid" ? "Pago" : "Pendente"}
+                  </Badge>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CommissionPayoutModal payout={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarOff, Plus, Trash2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useBarberSchedules,
+  TIME_OFF_REASON_LABELS,
+  TIME_OFF_STATUS_LABELS,
+  type TimeOffReason,
+} from "@/hooks/useBarberSchedules";
+import type { Barber } from "@/hooks/useBarbers";
+
+interface BarberTimeOffSectionProps {
+  barber: Barber;
+}
+
+export function BarberTimeOffSection({ barber }: BarberTimeOffSectionProps) {
+  const { getBarberTimeOff, addTimeOff, removeTimeOff } = useBarberSchedules(barber.unit_id);
+  const [isAdding, setIsAdding] = useState(false);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState<TimeOffReason>("vacation");
+  const [notes, setNotes] = useState("");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const absences = getBarberTimeOff(barber.id).filter(t => t.end_date >= today);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setStartDate("");
+    setEndDate("");
+    setReason("vacation");
+    setNotes("");
+  };
+
+  const handleAdd = async () => {
+    if (!startDate) return;
+
+    await addTimeOff.mutateAsync({
+      barber_id: barber.id,
+      unit_id: barber.unit_id,
+      company_id: barber.company_id,
+      start_date: startDate,
+      end_date: endDate || startDate,
+      reason,
+      notes: notes.trim() || null,
+    });
+    resetForm();
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+  return (
+    <div className="border border-border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarOff className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Ausências</span>
+        </div>
+        {!isAdding && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={() => setIsAdding(true)}>
+            <Plus className="h-3.5 w-3.5" />
+            Adicionar
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="space-y-3 rounded-md bg-secondary/50 p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">De</Label>
+              <Input type="date" value={startDate} min={today} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Até</Label>
+              <Input type="date" value={endDate} min={startDate || today} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Motivo</Label>
+            <Select value={reason} onValueChange={(v) => setReason(v as TimeOffReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TIME_OFF_REASON_LABELS) as TimeOffReason[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {TIME_OFF_REASON_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input placeholder="Observação (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={resetForm}>
+              Cancelar
+            </Button>
+            <Button type="button" size="sm" onClick={handleAdd} disabled={!startDate || addTimeOff.isPending}>
+              {addTimeOff.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {absences.length > 0 ? (
+        <div className="space-y-2">
+          {absences.map((absence) => (
+            <div key={absence.id} className="flex items-center justify-between gap-2 text-sm">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  {TIME_OFF_REASON_LABELS[absence.reason]}
+                  {absence.status === "pending" && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-yellow-500/30 text-yellow-600">
+                      {TIME_OFF_STATUS_LABELS.pending}
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {absence.start_date === absence.end_date
+                    ? formatDate(absence.start_date)
+                    : `${formatDate(absence.start_date)} a ${formatDate(absence.end_date)}`}
+                  {absence.notes && ` • ${absence.notes}`}
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => removeTimeOff.mutate(absence.id)}
+                disabled={removeTimeOff.isPending}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !isAdding && (
+          <p className="text-xs text-muted-foreground">
+            Nenhuma ausência programada. Férias, atestados e cursos bloqueiam a agenda do profissional.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarClock, Check, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useTimeOffRequests } from "@/hooks/useTimeOffRequests";
+import { TIME_OFF_REASON_LABELS } from "@/hooks/useBarberSchedules";
+
+interface TimeOffRequestsCardProps {
+  unitId: string | null | undefined;
+}
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+export function TimeOffRequestsCard({ unitId }: TimeOffRequestsCardProps) {
+  const { requests, reviewRequest } = useTimeOffRequests(unitId);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="border-yellow-500/30 bg-yellow-500/5">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-yellow-600" />
+          Solicitações de ausência
+          <Badge variant="secondary">{requests.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y divide-border">
+        {requests.map((request) => (
+          <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+            <div>
+              <p className="font-medium text-foreground">
+                {request.barber?.name || "Profissional"} • {TIME_OFF_REASON_LABELS[request.reason]}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {request.start_date === request.end_date
+                  ? formatDate(request.start_date)
+                  : `${formatDate(request.start_date)} a ${formatDate(request.end_date)}`}
+                {request.notes && ` • ${request.notes}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1 text-destructive hover:text-destructive"
+                onClick={() => reviewRequest.mutate({ id: request.id, status: "rejected" })}
+                disabled={reviewRequest.isPending}
+              >
+                <X className="h-3.5 w-3.5" />
+                Recusar
+              </Button>
+              <Button
+                size="sm"
+                className="gap-1"
+                onClick={() => reviewRequest.mutate({ id: request.id, status: "approved" })}
+                disabled={reviewRequest.isPending}
+              >
+                <Check className="h-3.5 w-3.5" />
+                Aprovar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,9 +3,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Phone, Calendar, Clock, Edit2, Building2, BellOff, Bell, Users, FileText, Gift, Sparkles, Loader2 } from "lucide-react";
+import { Phone, Calendar, Clock, Edit2, Building2, BellOff, Bell, Users, FileText, Gift, Sparkles, Loader2, History } from "lucide-react";
 import { Client, useClients } from "@/hooks/useClients";
 import { DependentsList } from "./DependentsList";
+import { ClientFeesSection } from "./ClientFeesSection";
+import { ClientPlansSection } from "./ClientPlansSection";
+import { ClientHistoryTimeline } from "./ClientHistoryTimeline";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useCurrentUnit } from "@/contexts/UnitContext";
@@ -68,7 +71,7 @@ export function ClientDetailsModal({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg bg-card border-border">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto bg-card border-border">
         <DialogHeader>
           <DialogTitle className="sr-only">Detalhes do Cliente</DialogTitle>
         </DialogHeader>
@@ -224,9 +227,19 @@ export function ClientDetailsModal({
           </div>
         )}
 
+        {/* Prepaid packages and subscriptions */}
+        <ClientPlansSection clientId={client.id} clientName={client.name} unitId={client.unit_id} />
+
+        {/* Pending cancellation / no-show fees */}
+        <ClientFeesSection clientId={client.id} unitId={client.unit_id} />
+
         {/* Tabs */}
-        <Tabs defaultValue="dependents" className="w-full">
-          <TabsList className="w-full grid grid-cols-2">
+        <Tabs defaultValue="history" className="w-full">
+          <TabsList className="w-full grid grid-cols-3">
+            <TabsTrigger value="history" className="gap-1">
+              <History className="h-4 w-4" />
+              Histórico
+            </TabsTrigger>
             <TabsTrigger value="dependents" className="gap-1">
               <Users className="h-4 w-4" />
               Dependentes
@@ -237,6 +250,10 @@ export function ClientDetailsModal({
             </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="history" className="mt-4">
+            <ClientHistoryTimeline key={client.id} client={client} />
+          </TabsContent>
+
           <TabsContent value="dependents" className="mt-4">
             <DependentsList clientId={client.id} clientName={client.name} />
           </TabsContent>
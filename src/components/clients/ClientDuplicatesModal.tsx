@@ -0,0 +1,190 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowRight, Building2, Copy, Loader2, Phone, UserCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Client, useAllClients, useClients } from "@/hooks/useClients";
+import { findDuplicateClients } from "@/lib/clientDuplicates";
+
+interface ClientDuplicatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  unitIdFilter: string | null;
+  showUnit?: boolean;
+}
+
+interface PendingMerge {
+  target: Client;
+  source: Client;
+}
+
+export function ClientDuplicatesModal({ open, onOpenChange, unitIdFilter, showUnit }: ClientDuplicatesModalProps) {
+  const { mergeClients } = useClients({ filter: "all", unitIdFilter });
+  const { data: clients = [], isLoading } = useAllClients(unitIdFilter, open);
+  // Pairs marked as "not a duplicate" during this session
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const pairs = useMemo(
+    () => (open ? findDuplicateClients(clients).filter((pair) => !dismissed.has(pair.key)) : []),
+    [open, clients, dismissed]
+  );
+
+  const formatLastVisit = (date: string | null) => {
+    if (!date) return "Nunca visitou";
+    return formatDistanceToNow(new Date(date), { addSuffix: true, locale: ptBR });
+  };
+
+  const renderClient = (client: Client, other: Client) => (
+    <div className="flex flex-1 flex-col gap-2 rounded-lg border border-border p-3">
+      <div className="min-w-0">
+        <p className="font-medium truncate">{client.name}</p>
+        <p className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Phone className="h-3 w-3" />
+          {client.phone}
+        </p>
+        {showUnit && client.unit_name && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Building2 className="h-3 w-3 text-primary" />
+            {client.unit_name}
+          </p>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        <p>
+          {client.total_visits || 0} visita(s) • {client.loyalty_cuts || 0} corte(s) fidelidade
+          {(client.available_courtesies || 0) > 0 && ` • ${client.available_courtesies} cortesia(s)`}
+        </p>
+        <p>Última visita: {formatLastVisit(client.last_visit_at)}</p>
+        {(client.dependents_count || 0) > 0 && <p>{client.dependents_count} dependente(s)</p>}
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="mt-auto gap-2"
+        disabled={mergeClients.isPending}
+        onClick={() => setPendingMerge({ target: client, source: other })}
+      >
+        <UserCheck className="h-4 w-4" />
+        Manter este
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Copy className="h-5 w-5 text-primary" />
+              Clientes Duplicados
+            </DialogTitle>
+            <DialogDescription>
+              Cadastros com o mesmo telefone (com ou sem o 9º dígito) ou nomes muito parecidos. Escolha qual cadastro
+              manter; o outro é incorporado a ele.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-32 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          ) : pairs.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">Nenhum possível duplicado encontrado</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">{pairs.length} possível(is) duplicado(s)</p>
+              {pairs.map((pair) => (
+                <div key={pair.key} className="space-y-2 rounded-lg bg-muted/30 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex gap-1.5">
+                      {pair.reasons.includes("phone") && (
+                        <Badge variant="outline" className="border-gold/30 bg-gold/10 text-gold text-xs">
+                          Mesmo telefone
+                        </Badge>
+                      )}
+                      {pair.reasons.includes("name") && (
+                        <Badge variant="outline" className="text-xs">
+                          Nome {Math.round(pair.nameSimilarity * 100)}% parecido
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-muted-foreground"
+                      onClick={() => setDismissed((prev) => new Set(prev).add(pair.key))}
+                    >
+                      Não é duplicado
+                    </Button>
+                  </div>
+                  <div className="flex flex-col gap-2 sm:flex-row">
+                    {renderClient(pair.a, pair.b)}
+                    {renderClient(pair.b, pair.a)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(isOpen) => !isOpen && setPendingMerge(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar clientes</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p className="flex items-center gap-2 font-medium text-foreground">
+                  {pendingMerge?.source.name}
+                  <ArrowRight className="h-4 w-4" />
+                  {pendingMerge?.target.name}
+                </p>
+                <p>
+                  Agendamentos, vendas, dependentes, pacotes e histórico de mensagens de{" "}
+                  <strong>{pendingMerge?.source.name}</strong> passam para{" "}
+                  <strong>{pendingMerge?.target.name}</strong>. Visitas, cortes de fidelidade e cortesias são somados e o
+                  cadastro duplicado é removido. Esta ação não pode ser desfeita.
+                </p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeClients.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={mergeClients.isPending}
+              onClick={async (e) => {
+                e.preventDefault();
+                if (!pendingMerge) return;
+                try {
+                  await mergeClients.mutateAsync({ targetId: pendingMerge.target.id, sourceId: pendingMerge.source.id });
+                  setPendingMerge(null);
+                } catch {
+                  // Error toast is shown by the mutation
+                }
+              }}
+            >
+              {mergeClients.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mesclar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
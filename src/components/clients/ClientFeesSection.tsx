@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { usePendingClientFees, useClientFeeActions, FEE_TYPE_LABELS } from "@/hooks/useClientFees";
+
+interface ClientFeesSectionProps {
+  clientId: string;
+  unitId: string;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function ClientFeesSection({ clientId, unitId }: ClientFeesSectionProps) {
+  const { fees, totalPending } = usePendingClientFees({ unitId, clientId });
+  const { waiveFee } = useClientFeeActions();
+  const [waivingId, setWaivingId] = useState<string | null>(null);
+  const [waiveReason, setWaiveReason] = useState("");
+
+  if (fees.length === 0) return null;
+
+  const handleWaive = (id: string) => {
+    waiveFee.mutate(
+      { id, reason: waiveReason.trim() },
+      {
+        onSuccess: () => {
+          setWaivingId(null);
+          setWaiveReason("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          Taxas Pendentes
+        </h3>
+        <Badge variant="outline" className="bg-destructive/20 text-destructive border-destructive/30">
+          {formatCurrency(totalPending)}
+        </Badge>
+      </div>
+
+      <div className="space-y-2">
+        {fees.map((fee) => (
+          <div key={fee.id} className="rounded-md bg-background/50 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground">{FEE_TYPE_LABELS[fee.fee_type]}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(fee.scheduled_time), "dd/MM/yyyy HH:mm")} • {fee.fee_percent}% de {formatCurrency(Number(fee.base_amount))}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="font-semibold text-destructive">{formatCurrency(Number(fee.amount))}</span>
+                {waivingId !== fee.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => {
+                      setWaivingId(fee.id);
+                      setWaiveReason("");
+                    }}
+                  >
+                    Dispensar
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {waivingId === fee.id && (
+              <div className="flex items-center gap-2 mt-2">
+                <Input
+                  value={waiveReason}
+                  onChange={(e) => setWaiveReason(e.target.value)}
+                  placeholder="Motivo da dispensa"
+                  className="h-8 text-xs"
+                  maxLength={200}
+                />
+                <Button
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleWaive(fee.id)}
+                  disabled={!waiveReason.trim() || waiveFee.isPending}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setWaivingId(null)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3">
+        As taxas podem ser cobradas ao finalizar o próximo atendimento do cliente.
+      </p>
+    </div>
+  );
+}
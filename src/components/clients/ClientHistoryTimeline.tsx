@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarX, MessageSquare, Scissors, ShoppingBag, UserX } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { StatusBadge } from "@/components/agenda/StatusBadge";
+import { useClientHistory, type ClientHistoryClient, type ClientTimelineEvent } from "@/hooks/useClientHistory";
+import { AUTOMATION_LABELS } from "@/hooks/useMarketingAttribution";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatDateTime = (date: string) => format(new Date(date), "dd/MM/yyyy HH:mm", { locale: ptBR });
+
+type TimelineFilter = "all" | ClientTimelineEvent["kind"];
+
+const FILTER_LABELS: Record<TimelineFilter, string> = {
+  all: "Tudo",
+  appointment: "Atendimentos",
+  product: "Produtos",
+  cancellation: "Cancelamentos",
+  message: "Mensagens",
+};
+
+// Only the first items are rendered until the user asks for more
+const PAGE_SIZE = 30;
+
+function TimelineItem({ event }: { event: ClientTimelineEvent }) {
+  switch (event.kind) {
+    case "appointment":
+      return (
+        <div className="flex gap-3">
+          <Scissors className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">{event.services.join(" + ") || "Atendimento"}</p>
+              <StatusBadge status={event.status} size="sm" />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatDateTime(event.date)}
+              {event.barberName && ` • ${event.barberName}`}
+              {event.dependentName && ` • Dependente: ${event.dependentName}`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(event.price)}
+              {event.paymentMethod && ` • ${event.paymentMethod}`}
+            </p>
+          </div>
+        </div>
+      );
+    case "product":
+      return (
+        <div className="flex gap-3">
+          <ShoppingBag className="mt-0.5 h-4 w-4 shrink-0 text-blue-400" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">
+              {event.quantity}x {event.productName}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatDateTime(event.date)} • {formatCurrency(event.price)}
+              {event.paymentMethod && ` • ${event.paymentMethod}`}
+            </p>
+          </div>
+        </div>
+      );
+    case "cancellation":
+      return (
+        <div className="flex gap-3">
+          {event.isNoShow ? (
+            <UserX className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+          ) : (
+            <CalendarX className="mt-0.5 h-4 w-4 shrink-0 text-orange-400" />
+          )}
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">
+                {event.isNoShow ? "Falta" : "Cancelamento"}: {event.serviceName}
+              </p>
+              {event.isLate && !event.isNoShow && (
+                <Badge variant="outline" className="border-orange-500/30 bg-orange-500/10 text-orange-400 text-xs">
+                  Em cima da hora
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Horário {formatDateTime(event.scheduledTime)} • {event.barberName}
+            </p>
+          </div>
+        </div>
+      );
+    case "message":
+      return (
+        <div className="flex gap-3">
+          <MessageSquare className="mt-0.5 h-4 w-4 shrink-0 text-green-400" />
+          <div className="min-w-0 flex-1">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">
+                {event.source === "automation"
+                  ? AUTOMATION_LABELS[event.label] || event.label
+                  : "Campanha de marketing"}
+              </p>
+              {event.status !== "sent" && (
+                <Badge variant="outline" className="text-xs">
+                  {event.status === "failed" ? "Falhou" : event.status === "pending" ? "Pendente" : event.status}
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">{formatDateTime(event.date)}</p>
+            {event.source === "campaign" && event.label && (
+              <p className="text-xs text-muted-foreground line-clamp-2">{event.label}</p>
+            )}
+          </div>
+        </div>
+      );
+  }
+}
+
+export function ClientHistoryTimeline({ client }: { client: ClientHistoryClient }) {
+  const { data, isLoading } = useClientHistory(client);
+  const [filter, setFilter] = useState<TimelineFilter>("all");
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-20 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  const events = data?.events || [];
+  const metrics = data?.metrics;
+  const filtered = events.filter((event) => filter === "all" || event.kind === filter);
+
+  return (
+    <div className="space-y-4">
+      {metrics && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <div className="rounded-lg border border-border bg-secondary/30 p-3">
+            <div className="text-xs text-muted-foreground">Valor total (LTV)</div>
+            <div className="text-base font-bold text-foreground">{formatCurrency(metrics.lifetimeValue)}</div>
+            {metrics.productsRevenue > 0 && (
+              <div className="text-[11px] text-muted-foreground">
+                {formatCurrency(metrics.productsRevenue)} em produtos
+              </div>
+            )}
+          </div>
+          <div className="rounded-lg border border-border bg-secondary/30 p-3">
+            <div className="text-xs text-muted-foreground">Ticket médio</div>
+            <div className="text-base font-bold text-foreground">{formatCurrency(metrics.averageTicket)}</div>
+            <div className="text-[11px] text-muted-foreground">{metrics.completedVisits} atendimento(s)</div>
+          </div>
+          <div className="rounded-lg border border-border bg-secondary/30 p-3">
+            <div className="text-xs text-muted-foreground">Retorna a cada</div>
+            <div className="text-base font-bold text-foreground">
+              {metrics.averageReturnDays !== null ? `${Math.round(metrics.averageReturnDays)} dias` : "-"}
+            </div>
+            {(metrics.noShows > 0 || metrics.cancellations > 0) && (
+              <div className="text-[11px] text-muted-foreground">
+                {metrics.noShows} falta(s) • {metrics.cancellations} cancel.
+              </div>
+            )}
+          </div>
+          <div className="rounded-lg border border-border bg-secondary/30 p-3">
+            <div className="text-xs text-muted-foreground">Barbeiro favorito</div>
+            <div className="text-base font-bold text-foreground truncate">{metrics.favoriteBarber?.name ?? "-"}</div>
+            {metrics.favoriteBarber && (
+              <div className="text-[11px] text-muted-foreground">{metrics.favoriteBarber.visits} atendimento(s)</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {(Object.keys(FILTER_LABELS) as TimelineFilter[]).map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={filter === value ? "default" : "outline"}
+            className="h-7 text-xs"
+            onClick={() => {
+              setFilter(value);
+              setVisible(PAGE_SIZE);
+            }}
+          >
+            {FILTER_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground italic">Nenhum registro no histórico</p>
+      ) : (
+        <div className="space-y-3 border-l border-border pl-3">
+          {filtered.slice(0, visible).map((event) => (
+            <TimelineItem key={`${event.kind}-${event.id}`} event={event} />
+          ))}
+          {filtered.length > visible && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => setVisible((v) => v + PAGE_SIZE)}>
+              Ver mais ({filtered.length - visible})
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
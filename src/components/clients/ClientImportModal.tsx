@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, CheckCircle2, Copy, Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useClientImport, useImportExistingClients, type DuplicateMode, type ImportResult } from "@/hooks/useClientImport";
+import type { Unit } from "@/hooks/useUnits";
+import {
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  guessColumnMapping,
+  parseImportRows,
+  readImportFile,
+  type ColumnMapping,
+  type ImportField,
+  type ImportSheet,
+  type ParsedImportRow,
+} from "@/lib/clientImport";
+
+const TEMPLATE_CSV =
+  "nome;telefone;nascimento;tags;visitas;ultima visita;observacoes\n" +
+  "João Silva;(11) 98765-4321;15/03/1990;VIP, Frequente;12;10/01/2026;Prefere máquina 2\n";
+
+// The preview table is capped; counts always consider every row
+const PREVIEW_LIMIT = 200;
+
+type Step = "upload" | "mapping" | "preview" | "done";
+type RowFilter = "all" | "new" | "duplicate" | "error";
+
+const rowStatus = (row: ParsedImportRow): Exclude<RowFilter, "all"> =>
+  row.errors.length > 0 ? "error" : row.duplicateOf ? "duplicate" : "new";
+
+interface ClientImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  units: Unit[];
+  defaultUnitId?: string;
+}
+
+export function ClientImportModal({ open, onOpenChange, units, defaultUnitId }: ClientImportModalProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [unitId, setUnitId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>("skip");
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all");
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const { data: existingClients = [], isLoading: loadingExisting } = useImportExistingClients(unitId || null);
+  const { importClients } = useClientImport();
+
+  useEffect(() => {
+    if (open) {
+      setStep("upload");
+      setUnitId(defaultUnitId || (units.length === 1 ? units[0].id : ""));
+      setFileName("");
+      setSheet(null);
+      setMapping({});
+      setReadError(null);
+      setDuplicateMode("skip");
+      setRowFilter("all");
+      setResult(null);
+    }
+  }, [open, defaultUnitId, units]);
+
+  const unitPhone = units.find((u) => u.id === unitId)?.phone ?? null;
+
+  const parsedRows = useMemo(
+    () => (sheet && step === "preview" ? parseImportRows(sheet, mapping, existingClients, unitPhone) : []),
+    [sheet, step, mapping, existingClients, unitPhone]
+  );
+
+  const counts = useMemo(
+    () => ({
+      new: parsedRows.filter((r) => rowStatus(r) === "new").length,
+      duplicate: parsedRows.filter((r) => rowStatus(r) === "duplicate").length,
+      error: parsedRows.filter((r) => rowStatus(r) === "error").length,
+    }),
+    [parsedRows]
+  );
+
+  const visibleRows = parsedRows.filter((row) => rowFilter === "all" || rowStatus(row) === rowFilter);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setReadError("Formato não suportado. Envie um arquivo .csv ou .xlsx");
+      return;
+    }
+
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const data = await readImportFile(file);
+      setSheet(data);
+      setFileName(file.name);
+      setMapping(guessColumnMapping(data.headers));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Erro ao ler arquivo de importação:", error);
+      setReadError(error instanceof Error ? error.message : "Não foi possível ler o arquivo");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob(["\uFEFF" + TEMPLATE_CSV], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "modelo-importacao-clientes.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    const importResult = await importClients.mutateAsync({ unitId, rows: parsedRows, duplicateMode });
+    setResult(importResult);
+    setStep("done");
+  };
+
+  const mappingComplete = REQUIRED_IMPORT_FIELDS.every((field) => mapping[field] !== undefined);
+  const sampleRow = sheet?.rows[0]?.cells;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Importar Clientes
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Envie uma planilha CSV ou Excel (.xlsx) com seus clientes"}
+            {step === "mapping" && `Indique qual coluna de "${fileName}" corresponde a cada campo`}
+            {step === "preview" && "Confira o resultado antes de importar"}
+            {step === "done" && "Importação finalizada"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            {units.length > 1 && (
+              <div className="space-y-2">
+                <Label>Unidade *</Label>
+                <Select value={unitId} onValueChange={setUnitId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a unidade" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {units.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <label
+              className={`flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border p-8 text-center transition-colors hover:border-primary/50 ${
+                !unitId ? "pointer-events-none opacity-50" : ""
+              }`}
+            >
+              {isReading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              ) : (
+                <Upload className="h-8 w-8 text-muted-foreground" />
+              )}
+              <span className="text-sm font-medium">Clique para escolher o arquivo</span>
+              <span className="text-xs text-muted-foreground">.csv (separado por ; ou ,) ou .xlsx — a primeira linha deve ser o cabeçalho</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                className="hidden"
+                disabled={!unitId || isReading}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {readError && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {readError}
+              </p>
+            )}
+
+            <Button variant="link" className="h-auto p-0" onClick={downloadTemplate}>
+              <Download className="mr-1 h-4 w-4" />
+              Baixar planilha modelo
+            </Button>
+          </div>
+        )}
+
+        {step === "mapping" && sheet && (
+          <div className="space-y-3">
+            {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => {
+              const columnIndex = mapping[field];
+              const sample = columnIndex !== undefined && sampleRow ? sampleRow[columnIndex] : null;
+
+              return (
+                <div key={field} className="grid items-center gap-2 sm:grid-cols-[180px_1fr_1fr]">
+                  <Label>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && " *"}
+                  </Label>
+                  <Select
+                    value={columnIndex === undefined ? "none" : String(columnIndex)}
+                    onValueChange={(v) =>
+                      setMapping((prev) => {
+                        const next = { ...prev };
+                        if (v === "none") delete next[field];
+                        else next[field] = Number(v);
+                        return next;
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Não importar</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {sample !== null && sample !== undefined ? `Ex: ${sample instanceof Date ? sample.toLocaleDateString("pt-BR") : String(sample)}` : ""}
+                  </span>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Tags separadas por vírgula. Telefones sem DDD recebem o DDD da unidade. Visitas anteriores somam ao histórico do cliente.
+            </p>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {([
+                ["all", `Todos (${parsedRows.length})`],
+                ["new", `Novos (${counts.new})`],
+                ["duplicate", `Duplicados (${counts.duplicate})`],
+                ["error", `Com erro (${counts.error})`],
+              ] as [RowFilter, string][]).map(([value, label]) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={rowFilter === value ? "default" : "outline"}
+                  onClick={() => setRowFilter(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+              {loadingExisting && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+
+            {counts.duplicate > 0 && (
+              <div className="flex flex-col gap-2 rounded-lg border border-border p-3 sm:flex-row sm:items-center sm:justify-between">
+                <span className="flex items-center gap-2 text-sm">
+                  <Copy className="h-4 w-4 text-gold" />
+                  Telefones já cadastrados (com ou sem o 9º dígito)
+                </span>
+                <Select value={duplicateMode} onValueChange={(v) => setDuplicateMode(v as DuplicateMode)}>
+                  <SelectTrigger className="w-full sm:w-[300px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Ignorar duplicados</SelectItem>
+                    <SelectItem value="update">Completar cadastro existente (tags, visitas)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="max-h-[360px] overflow-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead className="w-14">Linha</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Telefone</TableHead>
+                    <TableHead>Nascimento</TableHead>
+                    <TableHead className="text-right">Visitas</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <div className="max-w-[180px] truncate">{row.name || "-"}</div>
+                        {row.tags.length > 0 && (
+                          <div className="text-xs text-muted-foreground truncate max-w-[180px]">{row.tags.join(", ")}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{row.phone || "-"}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.birth_date ? row.birth_date.split("-").reverse().join("/") : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{row.visits}</TableCell>
+                      <TableCell>
+                        {rowStatus(row) === "error" ? (
+                          <span className="text-xs text-destructive">{row.errors.join(", ")}</span>
+                        ) : row.duplicateOf === "file" ? (
+                          <Badge variant="outline" className="text-xs">Repetido na planilha</Badge>
+                        ) : row.duplicateOf ? (
+                          <Badge variant="outline" className="border-gold/30 bg-gold/10 text-gold text-xs">
+                            Já existe: {row.duplicateOf.name}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-success/30 bg-success/10 text-success text-xs">
+                            Novo
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visibleRows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Mostrando {PREVIEW_LIMIT} de {visibleRows.length} linhas
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "done" && result && (
+          <div className="flex flex-col items-center gap-3 py-6 text-center">
+            <CheckCircle2 className="h-12 w-12 text-success" />
+            <p className="text-lg font-semibold">
+              {result.created} cliente(s) importado(s)
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {result.updated} atualizado(s) • {result.skipped} ignorado(s)
+              {result.failed > 0 && ` • ${result.failed} com erro`}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Voltar
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={!mappingComplete}>
+                Pré-visualizar
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")} disabled={importClients.isPending}>
+                Voltar
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={
+                  loadingExisting ||
+                  importClients.isPending ||
+                  counts.new + (duplicateMode === "update" ? counts.duplicate : 0) === 0
+                }
+              >
+                {importClients.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importar {counts.new} novo(s)
+                {duplicateMode === "update" && counts.duplicate > 0 && ` e atualizar ${counts.duplicate}`}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => onOpenChange(false)}>Fechar</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
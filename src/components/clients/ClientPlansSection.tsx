@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { Plus, RefreshCw, Ticket, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useClientPlans, getRemainingCredits, isClientPlanUsable, type ClientPlan } from "@/hooks/useClientPlans";
+import { useServicePlans } from "@/hooks/useServicePlans";
+import { SellPlanModal } from "./SellPlanModal";
+
+interface ClientPlansSectionProps {
+  clientId: string;
+  clientName: string;
+  unitId: string;
+}
+
+export function ClientPlansSection({ clientId, clientName, unitId }: ClientPlansSectionProps) {
+  const { clientPlans, sellPlan, cancelPlan } = useClientPlans(clientId, unitId);
+  const { activePlans } = useServicePlans(unitId);
+  const [sellDefaults, setSellDefaults] = useState<{ planId?: string; startsAt?: string } | null>(null);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  // Only the current plans and the most recent closed one are relevant at the counter
+  const currentPlans = clientPlans.filter((plan) => plan.status === "active" && plan.expires_at >= today);
+  const pastPlans = clientPlans.filter((plan) => !currentPlans.includes(plan)).slice(0, 1);
+
+  if (activePlans.length === 0 && clientPlans.length === 0) return null;
+
+  const handleRenew = (clientPlan: ClientPlan) => {
+    const nextStart = format(addDays(parseISO(clientPlan.expires_at), 1), "yyyy-MM-dd");
+    setSellDefaults({ planId: clientPlan.plan_id, startsAt: nextStart > today ? nextStart : today });
+  };
+
+  const renderPlan = (clientPlan: ClientPlan) => {
+    const remaining = getRemainingCredits(clientPlan);
+    const usable = isClientPlanUsable(clientPlan);
+    const isSubscription = clientPlan.plan?.plan_type === "subscription";
+
+    return (
+      <div key={clientPlan.id} className={usable ? "space-y-2" : "space-y-2 opacity-60"}>
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium text-foreground truncate">{clientPlan.plan_name}</p>
+            <p className="text-xs text-muted-foreground">
+              {clientPlan.status === "cancelled"
+                ? "Cancelado"
+                : `${format(parseISO(clientPlan.starts_at), "dd/MM")} a ${format(parseISO(clientPlan.expires_at), "dd/MM/yyyy")}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="font-medium text-foreground">
+              {remaining} / {clientPlan.credits_total}
+            </span>
+            {isSubscription && clientPlan.status === "active" && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Renovar" onClick={() => handleRenew(clientPlan)}>
+                <RefreshCw className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            {usable && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Cancelar plano"
+                onClick={() => cancelPlan.mutate(clientPlan.id)}
+                disabled={cancelPlan.isPending}
+              >
+                <X className="h-3.5 w-3.5 text-muted-foreground" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <Progress value={(remaining / clientPlan.credits_total) * 100} className="h-2" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-secondary/30 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <Ticket className="h-4 w-4 text-primary" />
+          Pacotes e Assinaturas
+        </h3>
+        {activePlans.length > 0 && (
+          <Button variant="outline" size="sm" className="h-7 gap-1" onClick={() => setSellDefaults({})}>
+            <Plus className="h-3.5 w-3.5" />
+            Vender
+          </Button>
+        )}
+      </div>
+
+      {currentPlans.length === 0 && pastPlans.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nenhum plano contratado</p>
+      ) : (
+        <div className="space-y-3">
+          {currentPlans.map(renderPlan)}
+          {currentPlans.length === 0 && (
+            <Badge variant="outline" className="text-muted-foreground">Sem plano ativo</Badge>
+          )}
+          {pastPlans.map(renderPlan)}
+        </div>
+      )}
+
+      <SellPlanModal
+        open={!!sellDefaults}
+        onOpenChange={(open) => !open && setSellDefaults(null)}
+        plans={activePlans}
+        clientName={clientName}
+        defaultPlanId={sellDefaults?.planId}
+        defaultStartsAt={sellDefaults?.startsAt}
+        onSubmit={(data) => sellPlan.mutateAsync(data)}
+        isLoading={sellPlan.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PLAN_TYPE_LABELS, type ServicePlan } from "@/hooks/useServicePlans";
+
+const saleMethods = [
+  { value: "cash", label: "Dinheiro" },
+  { value: "pix", label: "PIX" },
+  { value: "debit_card", label: "Débito" },
+  { value: "credit_card", label: "Crédito" },
+];
+
+interface SellPlanModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plans: ServicePlan[];
+  clientName: string;
+  defaultPlanId?: string;
+  defaultStartsAt?: string;
+  onSubmit: (data: { plan: ServicePlan; paymentMethod: string; startsAt: string }) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function SellPlanModal({
+  open,
+  onOpenChange,
+  plans,
+  clientName,
+  defaultPlanId,
+  defaultStartsAt,
+  onSubmit,
+  isLoading,
+}: SellPlanModalProps) {
+  const [planId, setPlanId] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("pix");
+  const [startsAt, setStartsAt] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  useEffect(() => {
+    if (open) {
+      setPlanId(defaultPlanId || "");
+      setPaymentMethod("pix");
+      setStartsAt(defaultStartsAt || format(new Date(), "yyyy-MM-dd"));
+    }
+  }, [open, defaultPlanId, defaultStartsAt]);
+
+  const selectedPlan = plans.find((plan) => plan.id === planId);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+  const handleSubmit = async () => {
+    if (!selectedPlan || !startsAt) return;
+    await onSubmit({ plan: selectedPlan, paymentMethod, startsAt });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Vender Plano</DialogTitle>
+          <DialogDescription>{clientName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Plano</Label>
+            <Select value={planId} onValueChange={setPlanId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name} • {PLAN_TYPE_LABELS[plan.plan_type]} • {formatCurrency(plan.price)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedPlan && (
+              <p className="text-xs text-muted-foreground">
+                {selectedPlan.credits} crédito{selectedPlan.credits > 1 ? "s" : ""} válidos por {selectedPlan.period_days} dias
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Início</Label>
+              <Input type="date" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Pagamento</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {saleMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!selectedPlan || !startsAt || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Vender {selectedPlan ? formatCurrency(selectedPlan.price) : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,24 +8,38 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { useBusinessHours } from "@/hooks/useBusinessHours";
-import { Clock, CalendarIcon, Plus, Trash2, Loader2 } from "lucide-react";
+import { useUnits } from "@/hooks/useUnits";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { Clock, CalendarIcon, Plus, Trash2, Loader2, Building2, RotateCcw } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 
+const COMPANY_SCOPE = "company";
+
 export function BusinessHoursTab() {
+  const { currentCompanyId } = useCurrentUnit();
+  const { units } = useUnits(currentCompanyId);
+  const [scope, setScope] = useState<string>(COMPANY_SCOPE);
+  const scopeUnitId = scope === COMPANY_SCOPE ? null : scope;
+
   const {
     businessHours,
+    companyHours,
+    hasUnitHours,
     holidays,
     isLoading,
     initializeDefaultHours,
     updateBusinessHour,
+    resetUnitHours,
     addHoliday,
     removeHoliday,
     getWeekConfiguration,
     DAY_NAMES,
-  } = useBusinessHours();
+  } = useBusinessHours(scopeUnitId);
 
   const [newHolidayDate, setNewHolidayDate] = useState<Date>();
   const [newHolidayName, setNewHolidayName] = useState("");
@@ -35,10 +49,10 @@ export function BusinessHoursTab() {
 
   // Initialize default hours if none exist
   useEffect(() => {
-    if (!isLoading && businessHours.length === 0) {
+    if (!isLoading && companyHours.length === 0) {
       initializeDefaultHours.mutate();
     }
-  }, [isLoading, businessHours.length]);
+  }, [isLoading, companyHours.length]);
 
   // Initialize local state from business hours
   useEffect(() => {
@@ -52,6 +66,7 @@ export function BusinessHoursTab() {
         };
       });
       setLocalHours(hoursMap);
+      setHasChanges(false);
     }
   }, [businessHours]);
 
@@ -104,6 +119,8 @@ export function BusinessHoursTab() {
   };
 
   const weekConfig = getWeekConfiguration();
+  const showScopeSelector = units.length > 1;
+  const scopeUnitName = units.find(u => u.id === scopeUnitId)?.name;
 
   if (isLoading) {
     return (
@@ -127,6 +144,42 @@ export function BusinessHoursTab() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {showScopeSelector && (
+            <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className="w-full sm:w-[280px]">
+                  <Building2 className="h-4 w-4 mr-2 text-muted-foreground" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={COMPANY_SCOPE}>Padrão da empresa</SelectItem>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {scopeUnitId && (
+                hasUnitHours ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resetUnitHours.mutate()}
+                    disabled={resetUnitHours.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Usar horário padrão
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Esta unidade segue o horário padrão. Altere e salve para personalizar.
+                  </p>
+                )
+              )}
+            </div>
+          )}
+
           <Table>
             <TableHeader>
               <TableRow>
@@ -200,7 +253,9 @@ export function BusinessHoursTab() {
                 Feriados
               </CardTitle>
               <CardDescription>
-                Adicione datas em que o estabelecimento estará fechado
+                {scopeUnitName
+                  ? `Datas em que a unidade ${scopeUnitName} estará fechada, além dos feriados de todas as unidades`
+                  : "Adicione datas em que o estabelecimento estará fechado"}
               </CardDescription>
             </div>
             <Dialog open={holidayDialogOpen} onOpenChange={setHolidayDialogOpen}>
@@ -296,16 +351,24 @@ export function BusinessHoursTab() {
                     <TableCell>
                       {format(parseISO(holiday.date), "dd/MM/yyyy")}
                     </TableCell>
-                    <TableCell>{holiday.name}</TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => removeHoliday.mutate(holiday.id)}
-                        disabled={removeHoliday.isPending}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
+                      {holiday.name}
+                      {scopeUnitId && !holiday.unit_id && (
+                        <Badge variant="secondary" className="ml-2">Todas as unidades</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {/* Company-wide holidays are managed from the company default */}
+                      {(!scopeUnitId || holiday.unit_id) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeHoliday.mutate(holiday.id)}
+                          disabled={removeHoliday.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { useUnits } from "@/hooks/useUnits";
+import { useStaffMembers, type StaffMember } from "@/hooks/useStaffMembers";
+import { ROLE_LABELS, type StaffRole } from "@/hooks/useUserRole";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Loader2, Pencil, Plus, Trash2, UserCog } from "lucide-react";
+
+const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  receptionist: "Acessa apenas a agenda e os clientes das unidades selecionadas",
+  unit_manager: "Acessa tudo nas unidades selecionadas, exceto marketing, assinatura, unidades e configurações",
+};
+
+const emptyForm = { name: "", email: "", role: "receptionist" as StaffRole, unit_ids: [] as string[] };
+
+export function StaffTab() {
+  const { toast } = useToast();
+  const { currentCompanyId } = useCurrentUnit();
+  const { units } = useUnits(currentCompanyId);
+  const {
+    staffMembers,
+    isLoading,
+    createStaffMember,
+    updateStaffMember,
+    toggleActive,
+    deleteStaffMember,
+    generateInviteToken,
+  } = useStaffMembers(currentCompanyId);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+  const [deletingMember, setDeletingMember] = useState<StaffMember | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [copyingId, setCopyingId] = useState<string | null>(null);
+
+  const unitName = (id: string) => units.find((u) => u.id === id)?.name || "Unidade removida";
+
+  const handleOpenModal = (member?: StaffMember) => {
+    setEditingMember(member || null);
+    setForm(
+      member
+        ? { name: member.name, email: member.email || "", role: member.role, unit_ids: member.unit_ids }
+        : { ...emptyForm, unit_ids: units.length === 1 ? [units[0].id] : [] }
+    );
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingMember(null);
+  };
+
+  const toggleUnit = (unitId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      unit_ids: checked ? [...prev.unit_ids, unitId] : prev.unit_ids.filter((id) => id !== unitId),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (editingMember) {
+      updateStaffMember.mutate({ id: editingMember.id, ...form }, { onSuccess: handleCloseModal });
+    } else {
+      createStaffMember.mutate(form, { onSuccess: handleCloseModal });
+    }
+  };
+
+  const handleCopyInvite = async (member: StaffMember) => {
+    setCopyingId(member.id);
+    try {
+      // Use existing token or generate new one
+      let token = member.invite_token;
+      if (!token) {
+        token = await generateInviteToken.mutateAsync(member.id);
+      }
+
+      if (token) {
+        const inviteUrl = `${window.location.origin}/convite/equipe/${token}`;
+        await navigator.clipboard.writeText(inviteUrl);
+        toast({
+          title: "Link copiado!",
+          description: "Envie o link para o membro da equipe via WhatsApp ou email.",
+        });
+      }
+    } finally {
+      setCopyingId(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (deletingMember) {
+      deleteStaffMember.mutate(deletingMember.id, {
+        onSuccess: () => setDeletingMember(null),
+      });
+    }
+  };
+
+  const isSaving = createStaffMember.isPending || updateStaffMember.isPending;
+
+  return (
+    <Card className="bg-card">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Equipe</CardTitle>
+          <CardDescription>Dê acesso ao sistema para recepcionistas e gerentes de unidade</CardDescription>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Novo Membro
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-20 rounded-lg" />
+            ))}
+          </div>
+        ) : staffMembers.length === 0 ? (
+          <div className="flex min-h-[200px] items-center justify-center rounded-lg border border-dashed border-border bg-card/50">
+            <div className="flex flex-col items-center gap-4 text-center">
+              <UserCog className="h-12 w-12 text-muted-foreground/50" />
+              <div>
+                <h3 className="text-lg font-medium text-foreground">Nenhum membro cadastrado</h3>
+                <p className="text-sm text-muted-foreground">Clique em "Novo Membro" para convidar sua equipe</p>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {staffMembers.map((member) => (
+              <div key={member.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">{member.name}</span>
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                    {!member.user_id && <Badge variant="outline">Convite pendente</Badge>}
+                  </div>
+                  {member.email && <p className="text-xs text-muted-foreground">{member.email}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {member.unit_ids.map(unitName).join(", ") || "Nenhuma unidade"}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {!member.user_id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1.5 text-xs"
+                      disabled={copyingId === member.id}
+                      onClick={() => handleCopyInvite(member)}
+                    >
+                      {copyingId === member.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : member.invite_token ? (
+                        <Copy className="h-3 w-3" />
+                      ) : (
+                        <Link2 className="h-3 w-3" />
+                      )}
+                      {member.invite_token ? "Copiar Link" : "Gerar Link de Convite"}
+                    </Button>
+                  )}
+                  <Switch
+                    checked={member.is_active}
+                    onCheckedChange={(is_active) => toggleActive.mutate({ id: member.id, is_active })}
+                    aria-label="Acesso ativo"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleOpenModal(member)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => setDeletingMember(member)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && handleCloseModal()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingMember ? "Editar Membro" : "Novo Membro"}</DialogTitle>
+            <DialogDescription>{ROLE_DESCRIPTIONS[form.role]}</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staff-name">Nome</Label>
+              <Input
+                id="staff-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="staff-email">Email</Label>
+              <Input
+                id="staff-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="email@exemplo.com"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Função</Label>
+              <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as StaffRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="receptionist">{ROLE_LABELS.receptionist}</SelectItem>
+                  <SelectItem value="unit_manager">{ROLE_LABELS.unit_manager}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Unidades</Label>
+              <div className="space-y-2 rounded-md border border-border p-3">
+                {units.map((unit) => (
+                  <label key={unit.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.unit_ids.includes(unit.id)}
+                      onCheckedChange={(checked) => toggleUnit(unit.id, checked === true)}
+                    />
+                    {unit.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCloseModal}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving || form.unit_ids.length === 0}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingMember} onOpenChange={(open) => !open && setDeletingMember(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover membro</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingMember?.name} perderá o acesso ao sistema. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
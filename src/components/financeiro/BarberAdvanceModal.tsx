@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface BarberAdvanceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  barbers: { id: string; name: string }[];
+  onSubmit: (data: { barberId: string; amount: number; description?: string; advanceDate: string }) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function BarberAdvanceModal({ open, onOpenChange, barbers, onSubmit, isLoading }: BarberAdvanceModalProps) {
+  const [barberId, setBarberId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [advanceDate, setAdvanceDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  useEffect(() => {
+    if (open) {
+      setBarberId("");
+      setAmount("");
+      setDescription("");
+      setAdvanceDate(format(new Date(), "yyyy-MM-dd"));
+    }
+  }, [open]);
+
+  const value = parseFloat(amount.replace(",", ".")) || 0;
+  const isValid = !!barberId && value > 0 && !!advanceDate;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    await onSubmit({ barberId, amount: value, description: description.trim() || undefined, advanceDate });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Registrar Vale</DialogTitle>
+          <DialogDescription>O valor será descontado no próximo acerto do profissional</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Profissional</Label>
+            <Select value={barberId} onValueChange={setBarberId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione..." />
+              </SelectTrigger>
+              <SelectContent>
+                {barbers.map((barber) => (
+                  <SelectItem key={barber.id} value={barber.id}>
+                    {barber.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Valor (R$)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0,00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Input type="date" value={advanceDate} onChange={(e) => setAdvanceDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Descrição</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} maxLength={200} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!isValid || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState, useMemo } from "react";
+import { format, startOfMonth, endOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle, Calendar, CheckCircle, Clock, Phone, Ban } from "lucide-react";
+import { getMonthRange, getDateRanges } from "@/hooks/useFinancialData";
+import { useClientFeesReport, sumFees, FEE_TYPE_LABELS, FEE_STATUS_LABELS, type ClientFee } from "@/hooks/useClientFees";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { RevenueCard } from "./RevenueCard";
+import { DateRangePicker } from "./DateRangePicker";
+import { PaymentBadge } from "./PaymentMethodModal";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+type PeriodType = "day" | "week" | "month" | "custom";
+
+const statusBadgeClass: Record<ClientFee["status"], string> = {
+  pending: "bg-destructive/20 text-destructive border-destructive/30",
+  paid: "bg-green-500/20 text-green-500 border-green-500/30",
+  waived: "bg-muted text-muted-foreground",
+};
+
+export function CancellationFeesTab() {
+  const { currentUnitId } = useCurrentUnit();
+
+  const currentYear = new Date().getFullYear();
+  const currentMonth = new Date().getMonth();
+
+  const [periodType, setPeriodType] = useState<PeriodType>("month");
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [selectedStatus, setSelectedStatus] = useState<ClientFee["status"] | "all">("all");
+  const [customDateRange, setCustomDateRange] = useState({
+    start: startOfMonth(new Date()),
+    end: endOfMonth(new Date()),
+  });
+
+  const dateRanges = getDateRanges();
+
+  const dateRange = useMemo(() => {
+    switch (periodType) {
+      case "day":
+        return dateRanges.today;
+      case "week":
+        return dateRanges.week;
+      case "custom":
+        return customDateRange;
+      case "month":
+      default:
+        return getMonthRange(selectedYear, selectedMonth);
+    }
+  }, [periodType, selectedYear, selectedMonth, dateRanges.today, dateRanges.week, customDateRange]);
+
+  const { fees, isLoading } = useClientFeesReport(currentUnitId, dateRange);
+
+  const filteredFees = useMemo(() => {
+    return selectedStatus === "all" ? fees : fees.filter((fee) => fee.status === selectedStatus);
+  }, [fees, selectedStatus]);
+
+  // Fees generated in the period, split by outcome
+  const stats = useMemo(() => {
+    const byStatus = (status: ClientFee["status"]) => fees.filter((fee) => fee.status === status);
+    return {
+      total: sumFees(fees),
+      count: fees.length,
+      paid: sumFees(byStatus("paid")),
+      pending: sumFees(byStatus("pending")),
+      pendingCount: byStatus("pending").length,
+      waived: sumFees(byStatus("waived")),
+    };
+  }, [fees]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+  };
+
+  // Generate month options
+  const months = Array.from({ length: 12 }, (_, i) => ({
+    value: i,
+    label: format(new Date(2024, i, 1), "MMMM", { locale: ptBR }),
+  }));
+
+  // Generate year options (last 3 years)
+  const years = Array.from({ length: 3 }, (_, i) => currentYear - i);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+        <AlertTriangle className="h-6 w-6 text-destructive" />
+        <div>
+          <h3 className="font-semibold text-foreground">Taxas de Cancelamento e Faltas</h3>
+          <p className="text-sm text-muted-foreground">
+            Taxas geradas pela política de cancelamento e cobradas no próximo atendimento do cliente
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4 p-4 rounded-lg bg-muted/30 border border-border">
+        <div className="space-y-2">
+          <Label>Período</Label>
+          <Tabs value={periodType} onValueChange={(v) => setPeriodType(v as PeriodType)}>
+            <TabsList className="bg-muted">
+              <TabsTrigger value="day">Hoje</TabsTrigger>
+              <TabsTrigger value="week">Semana</TabsTrigger>
+              <TabsTrigger value="month">Mês</TabsTrigger>
+              <TabsTrigger value="custom">Personalizado</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {periodType === "custom" && (
+          <DateRangePicker
+            dateRange={customDateRange}
+            onDateRangeChange={setCustomDateRange}
+          />
+        )}
+
+        {periodType === "month" && (
+          <>
+            <div className="space-y-2">
+              <Label>Mês</Label>
+              <Select
+                value={String(selectedMonth)}
+                onValueChange={(v) => setSelectedMonth(Number(v))}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map((month) => (
+                    <SelectItem key={month.value} value={String(month.value)}>
+                      {month.label.charAt(0).toUpperCase() + month.label.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ano</Label>
+              <Select
+                value={String(selectedYear)}
+                onValueChange={(v) => setSelectedYear(Number(v))}
+              >
+                <SelectTrigger className="w-[100px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={selectedStatus}
+            onValueChange={(v) => setSelectedStatus(v as ClientFee["status"] | "all")}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos</SelectItem>
+              {Object.entries(FEE_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <RevenueCard
+          title="Taxas Geradas"
+          value={formatCurrency(stats.total)}
+          subtitle={`${stats.count} taxa${stats.count !== 1 ? "s" : ""} no período`}
+          icon={AlertTriangle}
+          variant="default"
+        />
+        <RevenueCard
+          title="Recebidas"
+          value={formatCurrency(stats.paid)}
+          subtitle="Cobradas em atendimentos"
+          icon={CheckCircle}
+          variant="success"
+        />
+        <RevenueCard
+          title="Pendentes"
+          value={formatCurrency(stats.pending)}
+          subtitle={`${stats.pendingCount} a receber`}
+          icon={Clock}
+          variant="warning"
+        />
+        <RevenueCard
+          title="Dispensadas"
+          value={formatCurrency(stats.waived)}
+          subtitle="Perdoadas pela barbearia"
+          icon={Ban}
+          variant="info"
+        />
+      </div>
+
+      {/* Fees Table */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-foreground">Detalhamento de Taxas</h3>
+        <div className="rounded-lg border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Horário Perdido</TableHead>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Valor</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Pagamento</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    {Array.from({ length: 6 }).map((_, j) => (
+                      <TableCell key={j}>
+                        <Skeleton className="h-4 w-full" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : filteredFees.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                      <AlertTriangle className="h-8 w-8" />
+                      <p>Nenhuma taxa registrada neste período</p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredFees.map((fee) => (
+                  <TableRow key={fee.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <div>
+                          <p className="text-sm font-medium">
+                            {format(new Date(fee.scheduled_time), "dd/MM/yyyy")}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(fee.scheduled_time), "HH:mm")}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>
+                        <p className="text-sm font-medium">{fee.client_name}</p>
+                        {fee.client_phone && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Phone className="h-3 w-3" />
+                            {fee.client_phone}
+                          </p>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>
+                        <p className="text-sm">{FEE_TYPE_LABELS[fee.fee_type]}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {fee.fee_percent}% de {formatCurrency(Number(fee.base_amount))}
+                        </p>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm font-medium">{formatCurrency(Number(fee.amount))}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusBadgeClass[fee.status]}>
+                        {FEE_STATUS_LABELS[fee.status]}
+                      </Badge>
+                      {fee.status === "waived" && fee.waived_reason && (
+                        <p className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate" title={fee.waived_reason}>
+                          {fee.waived_reason}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {fee.status === "paid" ? (
+                        <div className="flex flex-col gap-1 items-start">
+                          <PaymentBadge method={fee.payment_method} />
+                          {fee.paid_at && (
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(fee.paid_at), "dd/MM/yyyy")}
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { DollarSign, Calendar, TrendingUp, Users, Zap, Banknote, Smartphone, CreditCard, Gift } from "lucide-react";
+import { DollarSign, Calendar, TrendingUp, Users, Zap, Banknote, Smartphone, CreditCard, Gift, Ticket } from "lucide-react";
 import { startOfMonth, endOfMonth } from "date-fns";
 import { useFinancialData, getDateRanges } from "@/hooks/useFinancialData";
 import { RevenueCard } from "./RevenueCard";
@@ -88,6 +88,7 @@ export function CashFlowTab() {
       debit_card: { total: 0, count: 0 },
       credit_card: { total: 0, count: 0 },
       courtesy: { total: 0, count: 0 },
+      package: { total: 0, count: 0 },
     };
 
     filteredAppointments.forEach((apt) => {
@@ -107,6 +108,7 @@ export function CashFlowTab() {
     { key: "debit_card" as const, label: "Débito", icon: CreditCard, color: "text-orange-500", bg: "bg-orange-500/10" },
     { key: "credit_card" as const, label: "Crédito", icon: CreditCard, color: "text-purple-500", bg: "bg-purple-500/10" },
     { key: "courtesy" as const, label: "Cortesia", icon: Gift, color: "text-pink-500", bg: "bg-pink-500/10" },
+    { key: "package" as const, label: "Pacote", icon: Ticket, color: "text-primary", bg: "bg-primary/10" },
   ];
 
   return (
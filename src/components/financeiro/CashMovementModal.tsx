@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CashMovement } from "@/hooks/useCashSessions";
+
+interface CashMovementModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: CashMovement["movement_type"];
+  onSubmit: (data: { amount: number; reason: string }) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function CashMovementModal({ open, onOpenChange, type, onSubmit, isLoading }: CashMovementModalProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setAmount("");
+      setReason("");
+    }
+  }, [open]);
+
+  const value = parseFloat(amount.replace(",", ".")) || 0;
+  const isValid = value > 0 && reason.trim().length > 0;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    await onSubmit({ amount: value, reason: reason.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{type === "withdrawal" ? "Sangria" : "Suprimento"}</DialogTitle>
+          <DialogDescription>
+            {type === "withdrawal"
+              ? "Retirada de dinheiro da gaveta (ex: depósito, pagamento de fornecedor)"
+              : "Entrada de dinheiro na gaveta (ex: troco adicional)"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Valor (R$)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0,00"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} maxLength={200} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!isValid || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
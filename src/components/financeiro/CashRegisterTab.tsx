@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import jsPDF from "jspdf";
+import autoTable, { type Table as AutoTable } from "jspdf-autotable";
+import { ArrowDownCircle, ArrowUpCircle, Loader2, Lock, Printer, Unlock, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { useUnits } from "@/hooks/useUnits";
+import {
+  useCashSessions,
+  fetchCashSessionSummary,
+  sumAmounts,
+  CASH_METHODS,
+  type CashMovement,
+  type CashSession,
+} from "@/hooks/useCashSessions";
+import { RevenueCard } from "./RevenueCard";
+import { CashMovementModal } from "./CashMovementModal";
+import { CloseCashSessionModal } from "./CloseCashSessionModal";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function CashRegisterTab() {
+  const { currentUnitId } = useCurrentUnit();
+  const { units } = useUnits();
+  const unitName = units.find((u) => u.id === currentUnitId)?.name || "";
+  const {
+    openSession,
+    closedSessions,
+    summary,
+    isLoading,
+    isLoadingHistory,
+    isLoadingSummary,
+    openRegister,
+    addMovement,
+    closeRegister,
+  } = useCashSessions();
+
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [movementType, setMovementType] = useState<CashMovement["movement_type"] | null>(null);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [printingId, setPrintingId] = useState<string | null>(null);
+
+  const handlePrint = async (session: CashSession) => {
+    setPrintingId(session.id);
+    try {
+      await exportCashSessionPDF(session, unitName);
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!openSession ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-muted-foreground" />
+              Caixa fechado
+            </CardTitle>
+            <CardDescription>Abra o caixa informando o valor inicial (troco) da gaveta</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-3">
+              <div className="space-y-2">
+                <Label>Fundo de troco (R$)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={openingBalance}
+                  onChange={(e) => setOpeningBalance(e.target.value)}
+                  placeholder="0,00"
+                  className="w-[180px]"
+                />
+              </div>
+              <Button
+                onClick={() =>
+                  openRegister.mutate(
+                    { openingBalance: parseFloat(openingBalance.replace(",", ".")) || 0 },
+                    { onSuccess: () => setOpeningBalance("") }
+                  )
+                }
+                disabled={openRegister.isPending}
+                className="gap-2"
+              >
+                {openRegister.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Unlock className="h-4 w-4" />}
+                Abrir Caixa
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-lg bg-green-500/10 border border-green-500/20">
+            <div className="flex items-center gap-3">
+              <Unlock className="h-6 w-6 text-green-500" />
+              <div>
+                <h3 className="font-semibold text-foreground">Caixa aberto</h3>
+                <p className="text-sm text-muted-foreground">
+                  Desde {format(new Date(openSession.opened_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} • Fundo de troco{" "}
+                  {formatCurrency(Number(openSession.opening_balance))}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => setMovementType("supply")}>
+                <ArrowDownCircle className="h-4 w-4 text-green-500" />
+                Suprimento
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={() => setMovementType("withdrawal")}>
+                <ArrowUpCircle className="h-4 w-4 text-destructive" />
+                Sangria
+              </Button>
+              <Button className="gap-2" onClick={() => setIsCloseOpen(true)} disabled={!summary}>
+                <Lock className="h-4 w-4" />
+                Fechar Caixa
+              </Button>
+            </div>
+          </div>
+
+          {/* Expected per payment method */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CASH_METHODS.map((method) => (
+              <RevenueCard
+                key={method.key}
+                title={method.key === "cash" ? "Dinheiro na gaveta" : method.label}
+                value={isLoadingSummary || !summary ? "..." : formatCurrency(summary.expected[method.key])}
+                subtitle={
+                  method.key === "cash" && summary
+                    ? `Recebido ${formatCurrency(summary.receipts.cash)}`
+                    : "Recebido na sessão"
+                }
+                icon={Wallet}
+                variant={method.key === "cash" ? "success" : "info"}
+              />
+            ))}
+          </div>
+
+          {summary && (
+            <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+              <span>Atendimentos: {formatCurrency(summary.sources.appointments)}</span>
+              <span>• Produtos: {formatCurrency(summary.sources.products)}</span>
+              <span>• Taxas: {formatCurrency(summary.sources.fees)}</span>
+              <span>• Pacotes: {formatCurrency(summary.sources.plans)}</span>
+              <span>• Suprimentos: {formatCurrency(summary.supplies)}</span>
+              <span>• Sangrias: {formatCurrency(summary.withdrawals)}</span>
+              {summary.unassigned > 0 && (
+                <span>• Sem forma de pagamento: {formatCurrency(summary.unassigned)}</span>
+              )}
+            </div>
+          )}
+
+          {openSession.movements.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold text-foreground">Movimentações</h3>
+              <div className="rounded-lg border border-border overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Horário</TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Motivo</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...openSession.movements]
+                      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                      .map((movement) => (
+                        <TableRow key={movement.id}>
+                          <TableCell>{format(new Date(movement.created_at), "HH:mm")}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{movement.movement_type === "withdrawal" ? "Sangria" : "Suprimento"}</Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{movement.reason}</TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right font-medium",
+                              movement.movement_type === "withdrawal" ? "text-destructive" : "text-green-500"
+                            )}
+                          >
+                            {movement.movement_type === "withdrawal" ? "-" : "+"}
+                            {formatCurrency(Number(movement.amount))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* History */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-foreground">Fechamentos Anteriores</h3>
+        <div className="rounded-lg border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Abertura</TableHead>
+                <TableHead>Fechamento</TableHead>
+                <TableHead>Esperado</TableHead>
+                <TableHead>Conferido</TableHead>
+                <TableHead>Diferença</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingHistory ? (
+                <TableRow>
+                  <TableCell colSpan={6}>
+                    <Skeleton className="h-4 w-full" />
+                  </TableCell>
+                </TableRow>
+              ) : closedSessions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Nenhum caixa fechado ainda
+                  </TableCell>
+                </TableRow>
+              ) : (
+                closedSessions.map((session) => {
+                  const discrepancy = Number(session.discrepancy || 0);
+                  return (
+                    <TableRow key={session.id}>
+                      <TableCell>{format(new Date(session.opened_at), "dd/MM/yyyy HH:mm")}</TableCell>
+                      <TableCell>{session.closed_at ? format(new Date(session.closed_at), "dd/MM/yyyy HH:mm") : "-"}</TableCell>
+                      <TableCell>{formatCurrency(sumAmounts(session.expected_amounts))}</TableCell>
+                      <TableCell>{formatCurrency(sumAmounts(session.counted_amounts))}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "font-medium",
+                          discrepancy < 0 ? "text-destructive" : discrepancy > 0 ? "text-amber-500" : "text-green-500"
+                        )}
+                      >
+                        {formatCurrency(discrepancy)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Imprimir relatório"
+                          onClick={() => handlePrint(session)}
+                          disabled={printingId === session.id}
+                        >
+                          {printingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <CashMovementModal
+        open={!!movementType}
+        onOpenChange={(open) => !open && setMovementType(null)}
+        type={movementType || "withdrawal"}
+        onSubmit={(data) => addMovement.mutateAsync({ type: movementType!, ...data })}
+        isLoading={addMovement.isPending}
+      />
+
+      <CloseCashSessionModal
+        open={isCloseOpen}
+        onOpenChange={setIsCloseOpen}
+        expected={summary?.expected || null}
+        onSubmit={async (data) => {
+          const closed = await closeRegister.mutateAsync(data);
+          await exportCashSessionPDF(closed, unitName);
+        }}
+        isLoading={closeRegister.isPending}
+      />
+    </div>
+  );
+}
+
+// PDF Export Functions
+function lastAutoTableY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: AutoTable }).lastAutoTable.finalY ?? 0;
+}
+
+async function exportCashSessionPDF(session: CashSession, unitName: string) {
+  const closedAt = session.closed_at ? new Date(session.closed_at) : new Date();
+  const summary = await fetchCashSessionSummary(session, closedAt);
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Header
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("RELATÓRIO DE FECHAMENTO DE CAIXA", pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Unidade: ${unitName}`, 14, 32);
+  doc.text(`Abertura: ${format(new Date(session.opened_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}`, 14, 38);
+  doc.text(`Fechamento: ${format(closedAt, "dd/MM/yyyy HH:mm", { locale: ptBR })}`, 14, 44);
+  doc.text(`Fundo de troco: ${formatCurrency(Number(session.opening_balance))}`, 14, 50);
+
+  // Expected x counted per method
+  autoTable(doc, {
+    startY: 58,
+    head: [["Forma de pagamento", "Esperado", "Conferido", "Diferença"]],
+    body: [
+      ...CASH_METHODS.map((method) => {
+        const expected = session.expected_amounts?.[method.key] ?? summary.expected[method.key];
+        const counted = session.counted_amounts?.[method.key] ?? 0;
+        return [method.label, formatCurrency(expected), formatCurrency(counted), formatCurrency(counted - expected)];
+      }),
+      [
+        "TOTAL",
+        formatCurrency(sumAmounts(session.expected_amounts) || sumAmounts(summary.expected)),
+        formatCurrency(sumAmounts(session.counted_amounts)),
+        formatCurrency(Number(session.discrepancy || 0)),
+      ],
+    ],
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [41, 37, 36], textColor: [255, 255, 255] },
+    alternateRowStyles: { fillColor: [245, 245, 244] },
+  });
+
+  // Receipts by origin
+  autoTable(doc, {
+    startY: lastAutoTableY(doc) + 8,
+    head: [["Origem", "Valor"]],
+    body: [
+      ["Atendimentos", formatCurrency(summary.sources.appointments)],
+      ["Venda de produtos", formatCurrency(summary.sources.products)],
+      ["Taxas de cancelamento/falta", formatCurrency(summary.sources.fees)],
+      ["Pacotes e assinaturas", formatCurrency(summary.sources.plans)],
+      ["Suprimentos", formatCurrency(summary.supplies)],
+      ["Sangrias", `-${formatCurrency(summary.withdrawals)}`],
+      ...(summary.unassigned > 0
+        ? [["Sem forma de pagamento", formatCurrency(summary.unassigned)]]
+        : []),
+    ],
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [41, 37, 36], textColor: [255, 255, 255] },
+    alternateRowStyles: { fillColor: [245, 245, 244] },
+  });
+
+  if (session.movements.length > 0) {
+    autoTable(doc, {
+      startY: lastAutoTableY(doc) + 8,
+      head: [["Horário", "Movimentação", "Motivo", "Valor"]],
+      body: [...session.movements]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((m) => [
+          format(new Date(m.created_at), "dd/MM HH:mm"),
+          m.movement_type === "withdrawal" ? "Sangria" : "Suprimento",
+          m.reason,
+          formatCurrency(Number(m.amount)),
+        ]),
+      styles: { fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [41, 37, 36], textColor: [255, 255, 255] },
+      alternateRowStyles: { fillColor: [245, 245, 244] },
+    });
+  }
+
+  let finalY = lastAutoTableY(doc) + 12;
+  if (session.notes) {
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(`Observações: ${session.notes}`, pageWidth - 28), 14, finalY);
+    finalY += 14;
+  }
+
+  doc.setFontSize(9);
+  doc.text("_______________________________", 14, finalY + 16);
+  doc.text("Responsável pelo fechamento", 14, finalY + 21);
+
+  doc.save(`fechamento-caixa-${format(closedAt, "yyyy-MM-dd-HHmm")}.pdf`);
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { CASH_METHODS, sumAmounts, type CashAmounts, type CashMethod } from "@/hooks/useCashSessions";
+
+interface CloseCashSessionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  expected: CashAmounts | null;
+  onSubmit: (data: { counted: CashAmounts; notes?: string }) => Promise<void>;
+  isLoading?: boolean;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function CloseCashSessionModal({ open, onOpenChange, expected, onSubmit, isLoading }: CloseCashSessionModalProps) {
+  const [counted, setCounted] = useState<Record<CashMethod, string>>({ cash: "", pix: "", debit_card: "", credit_card: "" });
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCounted({ cash: "", pix: "", debit_card: "", credit_card: "" });
+      setNotes("");
+    }
+  }, [open]);
+
+  const countedAmounts: CashAmounts = {
+    cash: parseFloat(counted.cash.replace(",", ".")) || 0,
+    pix: parseFloat(counted.pix.replace(",", ".")) || 0,
+    debit_card: parseFloat(counted.debit_card.replace(",", ".")) || 0,
+    credit_card: parseFloat(counted.credit_card.replace(",", ".")) || 0,
+  };
+  const difference = sumAmounts(countedAmounts) - sumAmounts(expected);
+
+  const handleSubmit = async () => {
+    await onSubmit({ counted: countedAmounts, notes: notes.trim() || undefined });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Fechar Caixa</DialogTitle>
+          <DialogDescription>Informe os valores conferidos em cada forma de pagamento</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {CASH_METHODS.map((method) => {
+            const methodDiff = countedAmounts[method.key] - (expected?.[method.key] || 0);
+            return (
+              <div key={method.key} className="grid grid-cols-[1fr_140px] items-center gap-3">
+                <div>
+                  <Label>{method.label}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Esperado: {formatCurrency(expected?.[method.key] || 0)}
+                    {counted[method.key] !== "" && Math.abs(methodDiff) >= 0.01 && (
+                      <span className={cn("ml-1", methodDiff < 0 ? "text-destructive" : "text-green-500")}>
+                        ({methodDiff > 0 ? "+" : ""}{formatCurrency(methodDiff)})
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={counted[method.key]}
+                  onChange={(e) => setCounted((prev) => ({ ...prev, [method.key]: e.target.value }))}
+                  placeholder="0,00"
+                />
+              </div>
+            );
+          })}
+
+          <div
+            className={cn(
+              "rounded-lg p-3 text-center",
+              Math.abs(difference) < 0.01 ? "bg-green-500/10" : difference < 0 ? "bg-destructive/10" : "bg-amber-500/10"
+            )}
+          >
+            <p className="text-sm text-muted-foreground">Diferença total</p>
+            <p className={cn("text-xl font-bold", difference < -0.005 ? "text-destructive" : "text-foreground")}>
+              {formatCurrency(difference)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Observações</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Justifique diferenças, se houver"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Fechar Caixa
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CommissionPayout } from "@/hooks/useCommissionPayouts";
+import { CommissionStatement } from "./CommissionStatement";
+
+const PAYOUT_PAYMENT_METHODS: Record<string, string> = {
+  cash: "Dinheiro",
+  pix: "PIX",
+  transfer: "Transferência",
+};
+
+interface CommissionPayoutModalProps {
+  payout: CommissionPayout | null;
+  onOpenChange: (open: boolean) => void;
+  onMarkPaid?: (data: { id: string; paymentMethod: string }) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function CommissionPayoutModal({ payout, onOpenChange, onMarkPaid, onDelete, isLoading }: CommissionPayoutModalProps) {
+  const [paymentMethod, setPaymentMethod] = useState("pix");
+
+  useEffect(() => {
+    if (payout) setPaymentMethod("pix");
+  }, [payout]);
+
+  if (!payout) return null;
+
+  const isPending = payout.status === "pending";
+
+  return (
+    <Dialog open={!!payout} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Extrato {payout.barber?.name ? `- ${payout.barber.name}` : ""}
+            <Badge variant={isPending ? "outline" : "default"}>{isPending ? "Pendente" : "Pago"}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {format(parseISO(payout.period_start), "dd/MM/yyyy")} a {format(parseISO(payout.period_end), "dd/MM/yyyy")}
+            {payout.paid_at &&
+              ` • Pago em ${format(new Date(payout.paid_at), "dd/MM/yyyy")}${
+                payout.payment_method ? ` (${PAYOUT_PAYMENT_METHODS[payout.payment_method] || payout.payment_method})` : ""
+              }`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <CommissionStatement
+          items={payout.items || []}
+          advances={payout.advances || []}
+          serviceCommission={Number(payout.service_commission)}
+          productCommission={Number(payout.product_commission)}
+          advancesTotal={Number(payout.advances_total)}
+          netAmount={Number(payout.net_amount)}
+        />
+
+        {payout.notes && <p className="text-sm text-muted-foreground">Obs.: {payout.notes}</p>}
+
+        {isPending && onMarkPaid && (
+          <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+            {onDelete ? (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-destructive gap-2"
+                onClick={async () => {
+                  await onDelete(payout.id);
+                  onOpenChange(false);
+                }}
+                disabled={isLoading}
+              >
+                <Trash2 className="h-4 w-4" />
+                Excluir extrato
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Pago via</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYOUT_PAYMENT_METHODS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                onClick={async () => {
+                  await onMarkPaid({ id: payout.id, paymentMethod });
+                  onOpenChange(false);
+                }}
+                disabled={isLoading}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Marcar como pago
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Eye, HandCoins, Plus, Trash2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { useBarbers } from "@/hooks/useBarbers";
+import { useBusinessSettings } from "@/hooks/useBusinessSettings";
+import { useCommissionPayouts, type CommissionPayout } from "@/hooks/useCommissionPayouts";
+import { RevenueCard } from "./RevenueCard";
+import { BarberAdvanceModal } from "./BarberAdvanceModal";
+import { GeneratePayoutModal } from "./GeneratePayoutModal";
+import { CommissionPayoutModal } from "./CommissionPayoutModal";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function CommissionPayoutsTab() {
+  const { currentUnitId } = useCurrentUnit();
+  const { barbers } = useBarbers(currentUnitId);
+  const { settings } = useBusinessSettings();
+  const [selectedBarberId, setSelectedBarberId] = useState<string | null>(null);
+  const [isAdvanceOpen, setIsAdvanceOpen] = useState(false);
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [viewingPayoutId, setViewingPayoutId] = useState<string | null>(null);
+
+  const {
+    payouts,
+    openAdvances,
+    isLoading,
+    isLoadingAdvances,
+    createAdvance,
+    deleteAdvance,
+    createPayout,
+    markPaid,
+    deletePayout,
+  } = useCommissionPayouts(selectedBarberId);
+
+  const commissionSettings = {
+    debitFeePercent: settings?.debit_card_fee_percent ?? 1.5,
+    creditFeePercent: settings?.credit_card_fee_percent ?? 3.0,
+    calculationBase: ((settings?.commission_calculation_base as "gross" | "net") ?? "gross"),
+  };
+
+  const pendingTotal = payouts
+    .filter((p) => p.status === "pending")
+    .reduce((sum, p) => sum + Number(p.net_amount), 0);
+  const advancesTotal = openAdvances.reduce((sum, a) => sum + Number(a.amount), 0);
+  const viewingPayout: CommissionPayout | null = payouts.find((p) => p.id === viewingPayoutId) || null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 p-4 rounded-lg bg-muted/30 border border-border">
+        <div className="space-y-2">
+          <Label>Barbeiro</Label>
+          <Select
+            value={selectedBarberId || "all"}
+            onValueChange={(v) => setSelectedBarberId(v === "all" ? null : v)}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Selecione..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os Barbeiros</SelectItem>
+              {barbers.map((barber) => (
+                <SelectItem key={barber.id} value={barber.id}>
+                  {barber.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => setIsAdvanceOpen(true)}>
+            <Wallet className="h-4 w-4" />
+            Registrar Vale
+          </Button>
+          <Button className="gap-2" onClick={() => setIsGenerateOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Gerar Extrato
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <RevenueCard
+          title="Acertos Pendentes"
+          value={formatCurrency(pendingTotal)}
+          subtitle={`${payouts.filter((p) => p.status === "pending").length} extrato(s)`}
+          icon={HandCoins}
+          variant="warning"
+        />
+        <RevenueCard
+          title="Vales em Aberto"
+          value={formatCurrency(advancesTotal)}
+          subtitle="Descontados no próximo acerto"
+          icon={Wallet}
+          variant="danger"
+        />
+      </div>
+
+      {/* Open advances */}
+      {openAdvances.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-foreground">Vales em Aberto</h3>
+          <div className="rounded-lg border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Data</TableHead>
+                  <TableHead>Profissional</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openAdvances.map((advance) => (
+                  <TableRow key={advance.id}>
+                    <TableCell>{format(parseISO(advance.advance_date), "dd/MM/yyyy")}</TableCell>
+                    <TableCell>{advance.barber?.name || "-"}</TableCell>
+                    <TableCell className="text-muted-foreground">{advance.description || "-"}</TableCell>
+                    <TableCell className="text-right font-medium text-destructive">
+                      {formatCurrency(Number(advance.amount))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Excluir vale"
+                        onClick={() => deleteAdvance.mutate(advance.id)}
+                        disabled={deleteAdvance.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {/* Statements */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-foreground">Extratos</h3>
+        <div className="rounded-lg border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Profissional</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead className="text-right">Comissões</TableHead>
+                <TableHead className="text-right">Vales</TableHead>
+                <TableHead className="text-right">Líquido</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading || isLoadingAdvances ? (
+                <TableRow>
+                  <TableCell colSpan={7}>
+                    <Skeleton className="h-4 w-full" />
+                  </TableCell>
+                </TableRow>
+              ) : payouts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    Nenhum extrato gerado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                payouts.map((payout) => (
+                  <TableRow key={payout.id}>
+                    <TableCell className="font-medium">{payout.barber?.name || "-"}</TableCell>
+                    <TableCell>
+                      {format(parseISO(payout.period_start), "dd/MM")} a {format(parseISO(payout.period_end), "dd/MM/yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(Number(payout.service_commission) + Number(payout.product_commission))}
+                    </TableCell>
+                    <TableCell className="text-right text-destructive">
+                      {Number(payout.advances_total) > 0 ? `-${formatCurrency(Number(payout.advances_total))}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(Number(payout.net_amount))}</TableCell>
+                    <TableCell>
+                      {payout.status === "paid" ? (
+                        <Badge className="bg-green-500/10 text-green-500 border-green-500/20" variant="outline">
+                          Pago
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Pendente</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Ver extrato"
+                        onClick={() => setViewingPayoutId(payout.id)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <BarberAdvanceModal
+        open={isAdvanceOpen}
+        onOpenChange={setIsAdvanceOpen}
+        barbers={barbers}
+        onSubmit={(data) => createAdvance.mutateAsync(data)}
+        isLoading={createAdvance.isPending}
+      />
+
+      {currentUnitId && (
+        <GeneratePayoutModal
+          open={isGenerateOpen}
+          onOpenChange={setIsGenerateOpen}
+          unitId={currentUnitId}
+          barbers={barbers}
+          settings={commissionSettings}
+          onSubmit={(data) => createPayout.mutateAsync(data)}
+          isLoading={createPayout.isPending}
+        />
+      )}
+
+      <CommissionPayoutModal
+        payout={viewingPayout}
+        onOpenChange={(open) => !open && setViewingPayoutId(null)}
+        onMarkPaid={(data) => markPaid.mutateAsync(data)}
+        onDelete={(id) => deletePayout.mutateAsync(id)}
+        isLoading={markPaid.isPending || deletePayout.isPending}
+      />
+    </div>
+  );
+}
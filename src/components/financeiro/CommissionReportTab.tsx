@@ -1,15 +1,15 @@
 import { useState, useMemo } from "react";
 import { format, startOfMonth, endOfMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { DollarSign, Wallet, TrendingUp, Banknote, Smartphone, CreditCard, Receipt, Info, Gift } from "lucide-react";
+import { DollarSign, Wallet, TrendingUp, Banknote, Smartphone, CreditCard, Receipt, Info, Gift, Ticket } from "lucide-react";
 import { 
   useFinancialData, 
   getMonthRange,
   getDateRanges,
   calculateCardFee,
   calculateNetValue,
-  calculateCommissionWithFees,
-  calculateProfitWithFees
+  calculateAppointmentCommission,
+  calculateAppointmentProfit
 } from "@/hooks/useFinancialData";
 import { useBarbers } from "@/hooks/useBarbers";
 import { useBusinessSettings } from "@/hooks/useBusinessSettings";
@@ -77,17 +77,15 @@ export function CommissionReportTab() {
       (acc, apt) => {
         const cardFee = calculateCardFee(apt.total_price, apt.payment_method, debitFeePercent, creditFeePercent);
         const netValue = calculateNetValue(apt.total_price, apt.payment_method, debitFeePercent, creditFeePercent);
-        const commission = calculateCommissionWithFees(
-          apt.total_price,
-          apt.payment_method,
+        const commission = calculateAppointmentCommission(
+          apt,
           apt.barber?.commission_rate ?? null,
           debitFeePercent,
           creditFeePercent,
           calculationBase
         );
-        const profit = calculateProfitWithFees(
-          apt.total_price,
-          apt.payment_method,
+        const profit = calculateAppointmentProfit(
+          apt,
           apt.barber?.commission_rate ?? null,
           debitFeePercent,
           creditFeePercent,
@@ -114,15 +112,15 @@ export function CommissionReportTab() {
       debit_card: { total: 0, cardFee: 0, netValue: 0, commission: 0, count: 0 },
       credit_card: { total: 0, cardFee: 0, netValue: 0, commission: 0, count: 0 },
       courtesy: { total: 0, cardFee: 0, netValue: 0, commission: 0, count: 0 },
+      package: { total: 0, cardFee: 0, netValue: 0, commission: 0, count: 0 },
     };
 
     appointments.forEach((apt) => {
       const method = (apt.payment_method || "cash") as keyof typeof breakdown;
       const cardFee = calculateCardFee(apt.total_price, apt.payment_method, debitFeePercent, creditFeePercent);
       const netValue = calculateNetValue(apt.total_price, apt.payment_method, debitFeePercent, creditFeePercent);
-      const commission = calculateCommissionWithFees(
-        apt.total_price,
-        apt.payment_method,
+      const commission = calculateAppointmentCommission(
+        apt,
         apt.barber?.commission_rate ?? null,
         debitFeePercent,
         creditFeePercent,
@@ -375,6 +373,16 @@ export function CommissionReportTab() {
               {paymentBreakdown.courtesy.count} atend. • Comissão: {formatCurrency(paymentBreakdown.courtesy.commission)}
             </p>
           </div>
+          <div className="p-4 rounded-lg border border-border bg-card">
+            <div className="flex items-center gap-2 mb-2">
+              <Ticket className="h-4 w-4 text-primary" />
+              <span className="text-sm font-medium text-muted-foreground">Pacote</span>
+            </div>
+            <p className="text-lg font-bold text-foreground">{formatCurrency(paymentBreakdown.package.total)}</p>
+            <p className="text-xs text-muted-foreground">
+              {paymentBreakdown.package.count} atend. • Comissão: {formatCurrency(paymentBreakdown.package.commission)}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,104 @@
+import { format, parseISO } from "date-fns";
+import { Package, Scissors } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { BarberAdvance, StatementItem } from "@/hooks/useCommissionPayouts";
+
+interface CommissionStatementProps {
+  items: StatementItem[];
+  advances: BarberAdvance[];
+  serviceCommission: number;
+  productCommission: number;
+  advancesTotal: number;
+  netAmount: number;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function CommissionStatement({
+  items,
+  advances,
+  serviceCommission,
+  productCommission,
+  advancesTotal,
+  netAmount,
+}: CommissionStatementProps) {
+  const sortedItems = [...items].sort((a, b) => a.item_date.localeCompare(b.item_date));
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-border overflow-hidden max-h-[280px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Data</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+              <TableHead className="text-right">Comissão</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedItems.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                  Nenhum atendimento ou venda no período
+                </TableCell>
+              </TableRow>
+            ) : (
+              sortedItems.map((item) => (
+                <TableRow key={item.appointment_id || item.product_sale_id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(item.item_date), "dd/MM")}</TableCell>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      {item.item_type === "appointment" ? (
+                        <Scissors className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                      ) : (
+                        <Package className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                      )}
+                      {item.description}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(item.amount))}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(Number(item.commission))}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {advances.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="font-medium text-foreground">Vales descontados</p>
+          {advances.map((advance) => (
+            <div key={advance.id} className="flex justify-between text-muted-foreground">
+              <span>
+                {format(parseISO(advance.advance_date), "dd/MM")} {advance.description ? `- ${advance.description}` : ""}
+              </span>
+              <span className="text-destructive">-{formatCurrency(Number(advance.amount))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Comissão de serviços</span>
+          <span>{formatCurrency(serviceCommission)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Comissão de produtos</span>
+          <span>{formatCurrency(productCommission)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Vales</span>
+          <span className="text-destructive">-{formatCurrency(advancesTotal)}</span>
+        </div>
+        <div className="flex justify-between border-t border-border pt-1 font-semibold">
+          <span>Total a receber</span>
+          <span className={netAmount < 0 ? "text-destructive" : "text-primary"}>{formatCurrency(netAmount)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,8 +13,9 @@ import {
   FinancialAppointment, 
   calculateCardFee, 
   calculateNetValue, 
-  calculateCommissionWithFees, 
-  calculateProfitWithFees 
+  calculateAppointmentCommission, 
+  calculateAppointmentProfit,
+  getAppointmentServiceValues
 } from "@/hooks/useFinancialData";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PaymentBadge } from "./PaymentMethodModal";
@@ -62,9 +63,8 @@ export function CommissionTable({
         barberDebitFee,
         barberCreditFee
       );
-      const commission = calculateCommissionWithFees(
-        apt.total_price, 
-        apt.payment_method, 
+      const commission = calculateAppointmentCommission(
+        apt,
         apt.barber?.commission_rate ?? null,
         debitFeePercent,
         creditFeePercent,
@@ -72,9 +72,8 @@ export function CommissionTable({
         barberDebitFee,
         barberCreditFee
       );
-      const profit = calculateProfitWithFees(
-        apt.total_price,
-        apt.payment_method,
+      const profit = calculateAppointmentProfit(
+        apt,
         apt.barber?.commission_rate ?? null,
         debitFeePercent,
         creditFeePercent,
@@ -151,9 +150,8 @@ export function CommissionTable({
                 barberDebitFee,
                 barberCreditFee
               );
-              const commissionValue = calculateCommissionWithFees(
-                appointment.total_price,
-                appointment.payment_method,
+              const commissionValue = calculateAppointmentCommission(
+                appointment,
                 commissionRate,
                 debitFeePercent,
                 creditFeePercent,
@@ -161,9 +159,8 @@ export function CommissionTable({
                 barberDebitFee,
                 barberCreditFee
               );
-              const profitValue = calculateProfitWithFees(
-                appointment.total_price,
-                appointment.payment_method,
+              const profitValue = calculateAppointmentProfit(
+                appointment,
                 commissionRate,
                 debitFeePercent,
                 creditFeePercent,
@@ -177,7 +174,9 @@ export function CommissionTable({
                   <TableCell className="font-medium">
                     {format(new Date(appointment.start_time), "dd/MM", { locale: ptBR })}
                   </TableCell>
-                  <TableCell>{appointment.service?.name || "-"}</TableCell>
+                  <TableCell>
+                    {getAppointmentServiceValues(appointment).map((item) => item.name).join(" + ") || "-"}
+                  </TableCell>
                   <TableCell>
                     <PaymentBadge method={appointment.payment_method} />
                   </TableCell>
@@ -2,7 +2,7 @@ import { useState, useMemo } from "react";
 import { format, startOfMonth, endOfMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Gift, Calendar, User, Scissors, Phone, FileText } from "lucide-react";
-import { useFinancialData, getMonthRange, getDateRanges } from "@/hooks/useFinancialData";
+import { useFinancialData, getMonthRange, getDateRanges, getAppointmentServiceValues } from "@/hooks/useFinancialData";
 import { useBarbers } from "@/hooks/useBarbers";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { RevenueCard } from "./RevenueCard";
@@ -77,8 +77,8 @@ export function CourtesyReportTab() {
       const barberId = apt.barber?.id || "unknown";
       const barberName = apt.barber?.name || "Desconhecido";
       
-      // Get original service price (since courtesy sets total_price to 0)
-      const originalPrice = apt.service?.price || 0;
+      // Get original price of the services (since courtesy sets total_price to 0)
+      const originalPrice = getAppointmentServiceValues(apt).reduce((sum, item) => sum + item.listPrice, 0);
       totalOriginalValue += originalPrice;
 
       if (!byBarber[barberId]) {
@@ -334,11 +334,13 @@ export function CourtesyReportTab() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <span className="text-sm">{apt.service?.name || "-"}</span>
+                      <span className="text-sm">
+                        {getAppointmentServiceValues(apt).map((item) => item.name).join(" + ")}
+                      </span>
                     </TableCell>
                     <TableCell>
                       <span className="text-sm font-medium text-muted-foreground line-through">
-                        {formatCurrency(apt.service?.price || 0)}
+                        {formatCurrency(getAppointmentServiceValues(apt).reduce((sum, item) => sum + item.listPrice, 0))}
                       </span>
                     </TableCell>
                     <TableCell>
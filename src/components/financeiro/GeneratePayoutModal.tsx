@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { startOfMonth, endOfMonth, endOfDay } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  buildCommissionStatement,
+  type CommissionSettings,
+  type CommissionStatementPreview,
+  type StatementBarber,
+} from "@/hooks/useCommissionPayouts";
+import { DateRangePicker } from "./DateRangePicker";
+import { CommissionStatement } from "./CommissionStatement";
+
+interface GeneratePayoutModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  unitId: string;
+  barbers: StatementBarber[];
+  settings: CommissionSettings;
+  onSubmit: (data: {
+    barberId: string;
+    period: { start: Date; end: Date };
+    preview: CommissionStatementPreview;
+    notes?: string;
+  }) => Promise<unknown>;
+  isLoading?: boolean;
+}
+
+export function GeneratePayoutModal({
+  open,
+  onOpenChange,
+  unitId,
+  barbers,
+  settings,
+  onSubmit,
+  isLoading,
+}: GeneratePayoutModalProps) {
+  const [barberId, setBarberId] = useState("");
+  const [period, setPeriod] = useState({ start: startOfMonth(new Date()), end: endOfMonth(new Date()) });
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setBarberId("");
+      setPeriod({ start: startOfMonth(new Date()), end: endOfMonth(new Date()) });
+      setNotes("");
+    }
+  }, [open]);
+
+  const barber = barbers.find((b) => b.id === barberId);
+  const periodEnd = endOfDay(period.end);
+
+  const { data: preview, isLoading: isLoadingPreview } = useQuery({
+    queryKey: ["commission-payouts", "preview", unitId, barberId, period.start.toISOString(), periodEnd.toISOString(), settings],
+    queryFn: () => buildCommissionStatement(unitId, barber!, { start: period.start, end: periodEnd }, settings),
+    enabled: open && !!barber,
+  });
+
+  const isEmpty = !preview || (preview.items.length === 0 && preview.advances.length === 0);
+
+  const handleSubmit = async () => {
+    if (!barber || !preview) return;
+    await onSubmit({
+      barberId: barber.id,
+      period: { start: period.start, end: periodEnd },
+      preview,
+      notes: notes.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerar Extrato de Comissão</DialogTitle>
+          <DialogDescription>
+            Atendimentos e vendas já incluídos em outro acerto não entram novamente
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label>Profissional</Label>
+              <Select value={barberId} onValueChange={setBarberId}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Selecione..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {barbers.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Período</Label>
+              <DateRangePicker dateRange={period} onDateRangeChange={setPeriod} />
+            </div>
+          </div>
+
+          {barber &&
+            (isLoadingPreview || !preview ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <CommissionStatement
+                items={preview.items}
+                advances={preview.advances}
+                serviceCommission={preview.serviceCommission}
+                productCommission={preview.productCommission}
+                advancesTotal={preview.advancesTotal}
+                netAmount={preview.netAmount}
+              />
+            ))}
+
+          {barber && (
+            <div className="space-y-2">
+              <Label>Observações</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!barber || isEmpty || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Gerar Extrato
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
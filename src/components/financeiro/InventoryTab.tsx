@@ -1,30 +1,44 @@
 import { useState, useMemo } from "react";
-import { Plus, Package, AlertTriangle, TrendingUp, ShoppingCart } from "lucide-react";
+import { Plus, Package, AlertTriangle, TrendingUp, ShoppingCart, ClipboardList, Truck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useProducts } from "@/hooks/useProducts";
 import { useProductSales } from "@/hooks/useProductSales";
+import { useSuppliers, Supplier } from "@/hooks/useSuppliers";
 import { ProductFormModal } from "./ProductFormModal";
 import { ProductSaleModal } from "./ProductSaleModal";
 import { ProductsTable } from "./ProductsTable";
 import { ProductSalesTable } from "./ProductSalesTable";
 import { StockAdjustmentModal } from "./StockAdjustmentModal";
+import { StockMovementsTable } from "./StockMovementsTable";
+import { PurchaseOrdersTable } from "./PurchaseOrdersTable";
+import { PurchaseOrderFormModal, type PurchaseOrderDraftItem } from "./PurchaseOrderFormModal";
+import { ReorderList } from "./ReorderList";
+import { SuppliersTable } from "./SuppliersTable";
+import { SupplierFormModal } from "./SupplierFormModal";
 import { startOfMonth, endOfMonth } from "date-fns";
 
+type InventorySubTab = "products" | "movements" | "orders" | "reorder" | "suppliers" | "sales";
+
 export function InventoryTab() {
-  const [activeTab, setActiveTab] = useState<"products" | "sales">("products");
+  const [activeTab, setActiveTab] = useState<InventorySubTab>("products");
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [isSaleModalOpen, setIsSaleModalOpen] = useState(false);
   const [isStockModalOpen, setIsStockModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<any>(null);
   const [adjustingProduct, setAdjustingProduct] = useState<any>(null);
+  const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
+  const [orderInitialItems, setOrderInitialItems] = useState<PurchaseOrderDraftItem[] | undefined>();
+  const [isSupplierModalOpen, setIsSupplierModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
 
   const now = new Date();
   const monthRange = { start: startOfMonth(now), end: endOfMonth(now) };
 
   const { products, isLoading, deleteProduct, lowStockProducts, totalStockValue } = useProducts();
   const { sales, isLoading: salesLoading } = useProductSales(monthRange);
+  const { suppliers, isLoading: suppliersLoading, deleteSupplier } = useSuppliers();
 
   const activeProducts = useMemo(
     () => products.filter((p) => p.is_active),
@@ -67,6 +81,21 @@ export function InventoryTab() {
     setAdjustingProduct(null);
   };
 
+  const handleNewOrder = (items?: PurchaseOrderDraftItem[]) => {
+    setOrderInitialItems(items);
+    setIsOrderModalOpen(true);
+  };
+
+  const handleEditSupplier = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setIsSupplierModalOpen(true);
+  };
+
+  const handleCloseSupplierModal = () => {
+    setIsSupplierModalOpen(false);
+    setEditingSupplier(null);
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -122,7 +151,10 @@ export function InventoryTab() {
           </CardContent>
         </Card>
 
-        <Card className={`border-border bg-card ${lowStockProducts.length > 0 ? 'border-orange-500/50' : ''}`}>
+        <Card
+          className={`border-border bg-card cursor-pointer transition-colors hover:bg-muted/50 ${lowStockProducts.length > 0 ? 'border-orange-500/50' : ''}`}
+          onClick={() => setActiveTab("reorder")}
+        >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">Estoque Baixo</CardTitle>
             <AlertTriangle className={`h-4 w-4 ${lowStockProducts.length > 0 ? 'text-orange-500' : 'text-muted-foreground'}`} />
@@ -137,9 +169,20 @@ export function InventoryTab() {
       </div>
 
       {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "products" | "sales")}>
-        <TabsList className="bg-muted">
+      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as InventorySubTab)}>
+        <TabsList className="bg-muted flex-wrap h-auto">
           <TabsTrigger value="products">Produtos</TabsTrigger>
+          <TabsTrigger value="movements">Movimentações</TabsTrigger>
+          <TabsTrigger value="orders">Pedidos de Compra</TabsTrigger>
+          <TabsTrigger value="reorder">
+            Reposição
+            {lowStockProducts.length > 0 && (
+              <span className="ml-1.5 rounded-full bg-orange-500 px-1.5 text-xs text-white">
+                {lowStockProducts.length}
+              </span>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="suppliers">Fornecedores</TabsTrigger>
           <TabsTrigger value="sales">Histórico de Vendas</TabsTrigger>
         </TabsList>
 
@@ -153,6 +196,39 @@ export function InventoryTab() {
           />
         </TabsContent>
 
+        <TabsContent value="movements" className="mt-4">
+          <StockMovementsTable products={products} />
+        </TabsContent>
+
+        <TabsContent value="orders" className="mt-4 space-y-4">
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => handleNewOrder()} className="gap-2">
+              <ClipboardList className="h-4 w-4" />
+              Novo Pedido
+            </Button>
+          </div>
+          <PurchaseOrdersTable />
+        </TabsContent>
+
+        <TabsContent value="reorder" className="mt-4">
+          <ReorderList products={lowStockProducts} onCreateOrder={handleNewOrder} />
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="mt-4 space-y-4">
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => setIsSupplierModalOpen(true)} className="gap-2">
+              <Truck className="h-4 w-4" />
+              Novo Fornecedor
+            </Button>
+          </div>
+          <SuppliersTable
+            suppliers={suppliers}
+            isLoading={suppliersLoading}
+            onEdit={handleEditSupplier}
+            onDelete={(id) => deleteSupplier.mutate(id)}
+          />
+        </TabsContent>
+
         <TabsContent value="sales" className="mt-4">
           <ProductSalesTable sales={sales} isLoading={salesLoading} />
         </TabsContent>
@@ -174,6 +250,19 @@ export function InventoryTab() {
         onOpenChange={handleCloseStockModal}
         product={adjustingProduct}
       />
+
+      <PurchaseOrderFormModal
+        open={isOrderModalOpen}
+        onOpenChange={setIsOrderModalOpen}
+        products={activeProducts}
+        initialItems={orderInitialItems}
+      />
+
+      <SupplierFormModal
+        open={isSupplierModalOpen}
+        onOpenChange={handleCloseSupplierModal}
+        supplier={editingSupplier}
+      />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -8,15 +8,18 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Banknote, Smartphone, CreditCard, Gift } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Banknote, Smartphone, CreditCard, Gift, AlertTriangle, Ticket } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { sumFees, type ClientFee } from "@/hooks/useClientFees";
+import type { PlanForAppointment } from "@/hooks/useClientPlans";
 
-export type PaymentMethod = "cash" | "pix" | "debit_card" | "credit_card" | "courtesy" | "fidelity_courtesy";
+export type PaymentMethod = "cash" | "pix" | "debit_card" | "credit_card" | "courtesy" | "fidelity_courtesy" | "package";
 
 interface PaymentMethodModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onConfirm: (paymentMethod: PaymentMethod, courtesyReason?: string) => void;
+  onConfirm: (paymentMethod: PaymentMethod, courtesyReason?: string, collectFees?: boolean) => void;
   totalPrice: number;
   isLoading?: boolean;
   availableCourtesies?: number;
@@ -24,6 +27,8 @@ interface PaymentMethodModalProps {
   isFreeCut?: boolean; // New prop to indicate this is the free cut (6th)
   loyaltyCuts?: number; // Current loyalty cuts count
   loyaltyThreshold?: number; // Threshold for free cut
+  pendingFees?: ClientFee[]; // Late cancellation / no-show fees the client still owes
+  availablePlan?: PlanForAppointment | null; // Prepaid package / subscription covering this appointment
 }
 
 const paymentMethods: { value: PaymentMethod; label: string; icon: React.ElementType; color: string }[] = [
@@ -45,9 +50,19 @@ export function PaymentMethodModal({
   isFreeCut = false,
   loyaltyCuts = 0,
   loyaltyThreshold = 5,
+  pendingFees = [],
+  availablePlan = null,
 }: PaymentMethodModalProps) {
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
   const [courtesyReason, setCourtesyReason] = useState("");
+  const [collectFees, setCollectFees] = useState(true);
+
+  // Appointments covered by a package default to consuming its credits
+  useEffect(() => {
+    if (open && availablePlan) {
+      setSelectedMethod("package");
+    }
+  }, [open, availablePlan]);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("pt-BR", {
@@ -61,9 +76,14 @@ export function PaymentMethodModal({
       if (selectedMethod === "fidelity_courtesy" && onUseFidelityCourtesy) {
         onUseFidelityCourtesy();
       }
-      onConfirm(selectedMethod, selectedMethod === "courtesy" ? courtesyReason.trim() : undefined);
+      onConfirm(
+        selectedMethod,
+        selectedMethod === "courtesy" ? courtesyReason.trim() : undefined,
+        isCollectingFees
+      );
       setSelectedMethod(null);
       setCourtesyReason("");
+      setCollectFees(true);
     }
   };
 
@@ -71,12 +91,18 @@ export function PaymentMethodModal({
     if (!open) {
       setSelectedMethod(null);
       setCourtesyReason("");
+      setCollectFees(true);
     }
     onOpenChange(open);
   };
 
   const isCourtesyValid = selectedMethod !== "courtesy" || courtesyReason.trim().length > 0;
   const isFidelityCourtesy = selectedMethod === "fidelity_courtesy";
+  const isPackage = selectedMethod === "package";
+  const isServiceFree = selectedMethod === "courtesy" || isFidelityCourtesy || isPackage;
+  const pendingFeesTotal = sumFees(pendingFees);
+  // Fees are paid with the selected method, so a courtesy can't settle them
+  const isCollectingFees = pendingFees.length > 0 && collectFees && !isServiceFree;
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -137,15 +163,65 @@ export function PaymentMethodModal({
             </button>
           )}
 
+          {/* Package / Subscription Option */}
+          {availablePlan && (
+            <button
+              type="button"
+              onClick={() => setSelectedMethod("package")}
+              className={cn(
+                "w-full flex items-center gap-3 rounded-lg border-2 p-4 transition-all",
+                "bg-primary/10 border-primary/30 hover:bg-primary/20",
+                isPackage && "ring-2 ring-primary ring-offset-2 ring-offset-background"
+              )}
+            >
+              <div className="p-2 rounded-full bg-primary/20">
+                <Ticket className="h-6 w-6 text-primary" />
+              </div>
+              <div className="text-left flex-1">
+                <p className="font-semibold text-foreground">Usar {availablePlan.plan_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {availablePlan.remaining} crédito{availablePlan.remaining > 1 ? "s" : ""} disponível
+                </p>
+              </div>
+              <span className="text-primary font-bold">PACOTE</span>
+            </button>
+          )}
+
+          {/* Pending Fees */}
+          {pendingFees.length > 0 && (
+            <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                Cliente possui {pendingFees.length} taxa{pendingFees.length > 1 ? "s" : ""} pendente{pendingFees.length > 1 ? "s" : ""} ({formatCurrency(pendingFeesTotal)})
+              </div>
+              <label className={cn("flex items-center gap-2 mt-2 text-sm", isServiceFree ? "text-muted-foreground" : "text-foreground cursor-pointer")}>
+                <Checkbox
+                  checked={collectFees && !isServiceFree}
+                  onCheckedChange={(checked) => setCollectFees(checked === true)}
+                  disabled={isServiceFree}
+                />
+                {isServiceFree ? "Taxas não podem ser cobradas em cortesia ou pacote" : "Cobrar taxas neste pagamento"}
+              </label>
+            </div>
+          )}
+
           {/* Valor */}
           <div className="rounded-lg bg-muted/50 p-4 text-center">
             <p className="text-sm text-muted-foreground">Valor a receber</p>
             <p className="text-2xl font-bold text-foreground">
-              {selectedMethod === "courtesy" || isFidelityCourtesy ? formatCurrency(0) : formatCurrency(totalPrice)}
+              {formatCurrency((isServiceFree ? 0 : totalPrice) + (isCollectingFees ? pendingFeesTotal : 0))}
             </p>
+            {isCollectingFees && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Serviço {formatCurrency(totalPrice)} + taxas {formatCurrency(pendingFeesTotal)}
+              </p>
+            )}
             {selectedMethod === "courtesy" && (
               <p className="text-xs text-pink-500 mt-1">Serviço oferecido como cortesia</p>
             )}
+            {isPackage && (
+              <p className="text-xs text-primary mt-1">Crédito descontado do pacote do cliente</p>
+            )}
             {isFidelityCourtesy && (
               <p className="text-xs text-green-500 mt-1">
                 {isFreeCut ? `🎉 Prêmio por ${loyaltyThreshold} cortes pagos!` : "Cortesia de fidelidade"}
@@ -231,6 +307,7 @@ export function PaymentBadge({ method }: { method: string | null }) {
     credit_card: { label: "Crédito", icon: CreditCard, className: "bg-purple-500/10 text-purple-500" },
     courtesy: { label: "Cortesia", icon: Gift, className: "bg-pink-500/10 text-pink-500" },
     fidelity_courtesy: { label: "Fidelidade", icon: Gift, className: "bg-green-500/10 text-green-500" },
+    package: { label: "Pacote", icon: Ticket, className: "bg-primary/10 text-primary" },
   };
 
   const methodConfig = config[method];
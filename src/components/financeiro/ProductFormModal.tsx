@@ -94,7 +94,6 @@ export function ProductFormModal({ open, onOpenChange, product }: ProductFormMod
         sku: data.sku,
         cost_price: data.cost_price,
         sale_price: data.sale_price,
-        stock_quantity: data.stock_quantity,
         min_stock_alert: data.min_stock_alert,
         is_active: data.is_active,
       });
@@ -156,10 +155,13 @@ export function ProductFormModal({ open, onOpenChange, product }: ProductFormMod
                 name="stock_quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quantidade em Estoque *</FormLabel>
+                    <FormLabel>{isEditing ? "Quantidade em Estoque" : "Estoque Inicial *"}</FormLabel>
                     <FormControl>
-                      <Input type="number" min="0" {...field} />
+                      <Input type="number" min="0" disabled={isEditing} {...field} />
                     </FormControl>
+                    {isEditing && (
+                      <p className="text-xs text-muted-foreground">Use "Ajustar Estoque" para alterar</p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Product } from "@/hooks/useProducts";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { purchaseOrderTotal, usePurchaseOrders, type PurchaseOrderStatus } from "@/hooks/usePurchaseOrders";
+
+export interface PurchaseOrderDraftItem {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface PurchaseOrderFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  // Prefilled from the reorder list
+  initialItems?: PurchaseOrderDraftItem[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function PurchaseOrderFormModal({ open, onOpenChange, products, initialItems }: PurchaseOrderFormModalProps) {
+  const { activeSuppliers } = useSuppliers();
+  const { createOrder } = usePurchaseOrders();
+  const [supplierId, setSupplierId] = useState("none");
+  const [orderDate, setOrderDate] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<PurchaseOrderDraftItem[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId("none");
+      setOrderDate(format(new Date(), "yyyy-MM-dd"));
+      setExpectedDate("");
+      setNotes("");
+      setItems(initialItems && initialItems.length > 0 ? initialItems : []);
+    }
+  }, [open, initialItems]);
+
+  const updateItem = (index: number, changes: Partial<PurchaseOrderDraftItem>) =>
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const addItem = () => {
+    const available = products.find((p) => !items.some((item) => item.product_id === p.id));
+    if (!available) return;
+    setItems((prev) => [...prev, { product_id: available.id, quantity: 1, unit_cost: Number(available.cost_price) }]);
+  };
+
+  const validItems = items.filter((item) => item.product_id && item.quantity > 0);
+  const total = purchaseOrderTotal(validItems);
+
+  const handleSubmit = async (status: Extract<PurchaseOrderStatus, "draft" | "ordered">) => {
+    await createOrder.mutateAsync({
+      supplier_id: supplierId === "none" ? null : supplierId,
+      status,
+      order_date: orderDate,
+      expected_date: expectedDate || null,
+      notes: notes.trim() || null,
+      items: validItems.map((item) => ({
+        ...item,
+        product_name: products.find((p) => p.id === item.product_id)?.name || "Produto",
+      })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Novo Pedido de Compra</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Fornecedor</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sem fornecedor</SelectItem>
+                {activeSuppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Data do Pedido</Label>
+              <Input type="date" value={orderDate} onChange={(e) => setOrderDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Previsão de Entrega</Label>
+              <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Itens *</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addItem}
+                disabled={items.length >= products.length}
+                className="gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Adicionar
+              </Button>
+            </div>
+
+            {items.length === 0 ? (
+              <p className="rounded-lg border border-dashed border-border py-6 text-center text-sm text-muted-foreground">
+                Nenhum produto adicionado
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_80px_110px_32px] gap-2 text-xs text-muted-foreground">
+                  <span>Produto</span>
+                  <span>Qtd.</span>
+                  <span>Custo unit. (R$)</span>
+                  <span />
+                </div>
+                {items.map((item, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_80px_110px_32px] items-center gap-2">
+                    <Select
+                      value={item.product_id}
+                      onValueChange={(value) =>
+                        updateItem(index, {
+                          product_id: value,
+                          unit_cost: Number(products.find((p) => p.id === value)?.cost_price ?? item.unit_cost),
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem
+                            key={product.id}
+                            value={product.id}
+                            disabled={product.id !== item.product_id && items.some((i) => i.product_id === product.id)}
+                          >
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 0 })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.unit_cost}
+                      onChange={(e) => updateItem(index, { unit_cost: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Observações</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3">
+            <span className="text-sm text-muted-foreground">Total do pedido</span>
+            <span className="text-lg font-semibold">{formatCurrency(total)}</span>
+          </div>
+
+          <div className="flex flex-col-reverse gap-2 pt-2 sm:flex-row sm:justify-end">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => handleSubmit("draft")}
+              disabled={createOrder.isPending || validItems.length === 0 || !orderDate}
+            >
+              Salvar Rascunho
+            </Button>
+            <Button
+              type="button"
+              onClick={() => handleSubmit("ordered")}
+              disabled={createOrder.isPending || validItems.length === 0 || !orderDate}
+            >
+              Salvar e Marcar como Enviado
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ClipboardList, MoreVertical, PackageCheck, Send, Trash2, XCircle } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PAYMENT_METHODS } from "@/hooks/useExpenses";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  usePurchaseOrders,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+} from "@/hooks/usePurchaseOrders";
+
+const statusColors: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-secondary text-secondary-foreground",
+  ordered: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  received: "bg-green-500/20 text-green-400 border-green-500/30",
+  cancelled: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+export function PurchaseOrdersTable() {
+  const { orders, isLoading, updateStatus, receiveOrder, deleteOrder } = usePurchaseOrders();
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState("none");
+
+  const openReceive = (order: PurchaseOrder) => {
+    setPaymentMethod("none");
+    setReceivingOrder(order);
+  };
+
+  const handleReceive = async () => {
+    if (!receivingOrder) return;
+    await receiveOrder.mutateAsync({
+      id: receivingOrder.id,
+      paymentMethod: paymentMethod === "none" ? undefined : paymentMethod,
+    });
+    setReceivingOrder(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">Nenhum pedido de compra</p>
+        <p className="text-sm text-muted-foreground">Clique em "Novo Pedido" ou use a aba Reposição</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead>Data</TableHead>
+              <TableHead>Fornecedor</TableHead>
+              <TableHead>Itens</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[50px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => {
+              const isOpen = order.status === "draft" || order.status === "ordered";
+              return (
+                <TableRow key={order.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {format(parseISO(order.order_date), "dd/MM/yyyy", { locale: ptBR })}
+                    {order.expected_date && isOpen && (
+                      <p className="text-xs text-muted-foreground">
+                        Previsto: {format(parseISO(order.expected_date), "dd/MM", { locale: ptBR })}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">{order.supplier?.name || "-"}</TableCell>
+                  <TableCell className="max-w-[280px] text-sm text-muted-foreground">
+                    <p className="truncate">
+                      {order.items.map((item) => `${item.quantity}x ${item.product_name}`).join(", ")}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(Number(order.total_amount))}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={statusColors[order.status]}>
+                      {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                    </Badge>
+                    {order.received_at && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {format(new Date(order.received_at), "dd/MM/yyyy", { locale: ptBR })}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isOpen && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {order.status === "draft" && (
+                            <DropdownMenuItem onClick={() => updateStatus.mutate({ id: order.id, status: "ordered" })}>
+                              <Send className="mr-2 h-4 w-4" />
+                              Marcar como Enviado
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => openReceive(order)}>
+                            <PackageCheck className="mr-2 h-4 w-4" />
+                            Receber Pedido
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => updateStatus.mutate({ id: order.id, status: "cancelled" })}>
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Cancelar Pedido
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => deleteOrder.mutate(order.id)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Excluir
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!receivingOrder} onOpenChange={(open) => !open && setReceivingOrder(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Receber Pedido</DialogTitle>
+            <DialogDescription>
+              Os itens serão somados ao estoque e uma despesa de{" "}
+              {receivingOrder && formatCurrency(Number(receivingOrder.total_amount))} será lançada em Fornecedores.
+            </DialogDescription>
+          </DialogHeader>
+
+          {receivingOrder && (
+            <div className="space-y-4">
+              <div className="rounded-lg border border-border bg-muted/50 p-3 text-sm">
+                {receivingOrder.items.map((item) => (
+                  <div key={item.id} className="flex justify-between">
+                    <span>{item.product_name}</span>
+                    <span className="font-medium">+{item.quantity}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Forma de Pagamento</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Não informado</SelectItem>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {method}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setReceivingOrder(null)}>
+                  Cancelar
+                </Button>
+                <Button onClick={handleReceive} disabled={receiveOrder.isPending}>
+                  Confirmar Recebimento
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ClipboardList } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Product } from "@/hooks/useProducts";
+import { suggestedReorderQuantity } from "@/hooks/usePurchaseOrders";
+import type { PurchaseOrderDraftItem } from "./PurchaseOrderFormModal";
+
+interface ReorderListProps {
+  products: Product[];
+  onCreateOrder: (items: PurchaseOrderDraftItem[]) => void;
+}
+
+export function ReorderList({ products, onCreateOrder }: ReorderListProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const productIds = products.map((p) => p.id).join(",");
+
+  // Everything below the minimum starts selected
+  useEffect(() => {
+    setSelected(new Set(productIds ? productIds.split(",") : []));
+  }, [productIds]);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleCreate = () => {
+    onCreateOrder(
+      products
+        .filter((p) => selected.has(p.id))
+        .map((p) => ({
+          product_id: p.id,
+          quantity: suggestedReorderQuantity(p),
+          unit_cost: Number(p.cost_price),
+        }))
+    );
+  };
+
+  if (products.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
+        <p className="text-muted-foreground">Nenhum produto abaixo do estoque mínimo</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {products.length} produto(s) abaixo do estoque mínimo
+        </p>
+        <Button onClick={handleCreate} disabled={selected.size === 0} className="gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Criar Pedido de Compra
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent">
+              <TableHead className="w-[40px]"></TableHead>
+              <TableHead>Produto</TableHead>
+              <TableHead className="text-right">Estoque Atual</TableHead>
+              <TableHead className="text-right">Mínimo</TableHead>
+              <TableHead className="text-right">Sugestão de Compra</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.map((product) => (
+              <TableRow key={product.id}>
+                <TableCell>
+                  <Checkbox checked={selected.has(product.id)} onCheckedChange={() => toggle(product.id)} />
+                </TableCell>
+                <TableCell className="font-medium">{product.name}</TableCell>
+                <TableCell className="text-right font-semibold text-orange-500">{product.stock_quantity}</TableCell>
+                <TableCell className="text-right text-muted-foreground">{product.min_stock_alert || 5}</TableCell>
+                <TableCell className="text-right font-semibold">{suggestedReorderQuantity(product)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useProducts, Product } from "@/hooks/useProducts";
+import { STOCK_MOVEMENT_LABELS, type ManualStockMovementType } from "@/hooks/useStockMovements";
 import { Plus, Minus } from "lucide-react";
 
 interface StockAdjustmentModalProps {
@@ -17,34 +19,47 @@ interface StockAdjustmentModalProps {
   product?: Product | null;
 }
 
+const MOVEMENT_TYPES: ManualStockMovementType[] = ["adjustment", "loss", "internal_use"];
+
+const REASON_PLACEHOLDERS: Record<ManualStockMovementType, string> = {
+  adjustment: "Ex: Contagem de inventário",
+  loss: "Ex: Produto vencido, embalagem danificada",
+  internal_use: "Ex: Usado nos atendimentos da semana",
+};
+
 export function StockAdjustmentModal({ open, onOpenChange, product }: StockAdjustmentModalProps) {
   const { adjustStock } = useProducts();
+  const [movementType, setMovementType] = useState<ManualStockMovementType>("adjustment");
   const [newQuantity, setNewQuantity] = useState(0);
   const [adjustmentType, setAdjustmentType] = useState<"set" | "add" | "remove">("add");
   const [adjustmentAmount, setAdjustmentAmount] = useState(0);
+  const [reason, setReason] = useState("");
 
   useEffect(() => {
     if (product) {
+      setMovementType("adjustment");
       setNewQuantity(product.stock_quantity);
       setAdjustmentAmount(0);
       setAdjustmentType("add");
+      setReason("");
     }
-  }, [product]);
+  }, [product, open]);
 
   if (!product) return null;
 
-  const handleAdjustment = () => {
-    let finalQuantity = newQuantity;
-    
-    if (adjustmentType === "add") {
-      finalQuantity = product.stock_quantity + adjustmentAmount;
-    } else if (adjustmentType === "remove") {
-      finalQuantity = Math.max(0, product.stock_quantity - adjustmentAmount);
-    } else {
-      finalQuantity = newQuantity;
-    }
+  // Losses and internal use always take items out of stock
+  const direction = movementType === "adjustment" ? adjustmentType : "remove";
 
-    adjustStock.mutate({ id: product.id, quantity: finalQuantity });
+  const finalQuantity =
+    direction === "add"
+      ? product.stock_quantity + adjustmentAmount
+      : direction === "remove"
+        ? Math.max(0, product.stock_quantity - adjustmentAmount)
+        : newQuantity;
+  const delta = finalQuantity - product.stock_quantity;
+
+  const handleAdjustment = async () => {
+    await adjustStock.mutateAsync({ product, movementType, quantity: delta, reason });
     onOpenChange(false);
   };
 
@@ -64,37 +79,55 @@ export function StockAdjustmentModal({ open, onOpenChange, product }: StockAdjus
           </div>
 
           <div className="space-y-3">
-            <Label>Tipo de Ajuste</Label>
+            <Label>Motivo da Movimentação</Label>
             <div className="grid grid-cols-3 gap-2">
-              <Button
-                type="button"
-                variant={adjustmentType === "add" ? "default" : "outline"}
-                onClick={() => setAdjustmentType("add")}
-                className="gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Adicionar
-              </Button>
-              <Button
-                type="button"
-                variant={adjustmentType === "remove" ? "default" : "outline"}
-                onClick={() => setAdjustmentType("remove")}
-                className="gap-2"
-              >
-                <Minus className="h-4 w-4" />
-                Remover
-              </Button>
-              <Button
-                type="button"
-                variant={adjustmentType === "set" ? "default" : "outline"}
-                onClick={() => setAdjustmentType("set")}
-              >
-                Definir
-              </Button>
+              {MOVEMENT_TYPES.map((type) => (
+                <Button
+                  key={type}
+                  type="button"
+                  variant={movementType === type ? "default" : "outline"}
+                  onClick={() => setMovementType(type)}
+                >
+                  {STOCK_MOVEMENT_LABELS[type]}
+                </Button>
+              ))}
             </div>
           </div>
 
-          {adjustmentType === "set" ? (
+          {movementType === "adjustment" && (
+            <div className="space-y-3">
+              <Label>Tipo de Ajuste</Label>
+              <div className="grid grid-cols-3 gap-2">
+                <Button
+                  type="button"
+                  variant={adjustmentType === "add" ? "default" : "outline"}
+                  onClick={() => setAdjustmentType("add")}
+                  className="gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Adicionar
+                </Button>
+                <Button
+                  type="button"
+                  variant={adjustmentType === "remove" ? "default" : "outline"}
+                  onClick={() => setAdjustmentType("remove")}
+                  className="gap-2"
+                >
+                  <Minus className="h-4 w-4" />
+                  Remover
+                </Button>
+                <Button
+                  type="button"
+                  variant={adjustmentType === "set" ? "default" : "outline"}
+                  onClick={() => setAdjustmentType("set")}
+                >
+                  Definir
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {direction === "set" ? (
             <div className="space-y-2">
               <Label>Nova Quantidade</Label>
               <Input
@@ -107,7 +140,7 @@ export function StockAdjustmentModal({ open, onOpenChange, product }: StockAdjus
           ) : (
             <div className="space-y-2">
               <Label>
-                Quantidade a {adjustmentType === "add" ? "adicionar" : "remover"}
+                Quantidade a {direction === "add" ? "adicionar" : "remover"}
               </Label>
               <Input
                 type="number"
@@ -115,23 +148,31 @@ export function StockAdjustmentModal({ open, onOpenChange, product }: StockAdjus
                 value={adjustmentAmount}
                 onChange={(e) => setAdjustmentAmount(parseInt(e.target.value) || 0)}
               />
-              <p className="text-sm text-muted-foreground">
-                Estoque final:{" "}
-                <span className="font-semibold text-foreground">
-                  {adjustmentType === "add"
-                    ? product.stock_quantity + adjustmentAmount
-                    : Math.max(0, product.stock_quantity - adjustmentAmount)}
-                </span>{" "}
-                unidades
-              </p>
             </div>
           )}
 
+          <p className="text-sm text-muted-foreground">
+            Estoque final: <span className="font-semibold text-foreground">{finalQuantity}</span> unidades
+          </p>
+
+          <div className="space-y-2">
+            <Label>Observação *</Label>
+            <Textarea
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={REASON_PLACEHOLDERS[movementType]}
+            />
+          </div>
+
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleAdjustment} disabled={adjustStock.isPending}>
+            <Button
+              onClick={handleAdjustment}
+              disabled={adjustStock.isPending || delta === 0 || !reason.trim()}
+            >
               Confirmar Ajuste
             </Button>
           </div>
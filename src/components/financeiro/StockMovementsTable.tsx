@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { History } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Product } from "@/hooks/useProducts";
+import { STOCK_MOVEMENT_LABELS, useStockMovements, type StockMovementType } from "@/hooks/useStockMovements";
+
+const typeColors: Record<StockMovementType, string> = {
+  sale: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  purchase: "bg-green-500/20 text-green-400 border-green-500/30",
+  adjustment: "bg-secondary text-secondary-foreground",
+  loss: "bg-red-500/20 text-red-400 border-red-500/30",
+  internal_use: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+};
+
+interface StockMovementsTableProps {
+  products: Product[];
+}
+
+export function StockMovementsTable({ products }: StockMovementsTableProps) {
+  const [productId, setProductId] = useState("all");
+  const [type, setType] = useState("all");
+
+  const { movements, isLoading } = useStockMovements({
+    productId: productId === "all" ? null : productId,
+    type: type === "all" ? null : (type as StockMovementType),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Select value={productId} onValueChange={setProductId}>
+          <SelectTrigger className="sm:w-[240px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os produtos</SelectItem>
+            {products.map((product) => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="sm:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os tipos</SelectItem>
+            {(Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {STOCK_MOVEMENT_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : movements.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <History className="h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Nenhuma movimentação registrada</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-border bg-card overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Data</TableHead>
+                <TableHead>Produto</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead className="text-right">Quantidade</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+                <TableHead>Observação</TableHead>
+                <TableHead>Usuário</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="font-medium">{movement.product?.name || "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={typeColors[movement.movement_type]}>
+                      {STOCK_MOVEMENT_LABELS[movement.movement_type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-semibold ${movement.quantity > 0 ? "text-green-500" : "text-red-500"}`}
+                  >
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.stock_after ?? "-"}</TableCell>
+                  <TableCell className="max-w-[240px] truncate text-sm text-muted-foreground">
+                    {movement.reason || "-"}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{movement.created_by_label}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useSuppliers, Supplier } from "@/hooks/useSuppliers";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  contact_name: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email("E-mail inválido").optional().or(z.literal("")),
+  document: z.string().optional(),
+  notes: z.string().optional(),
+  is_active: z.boolean().default(true),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const emptyValues: FormData = {
+  name: "",
+  contact_name: "",
+  phone: "",
+  email: "",
+  document: "",
+  notes: "",
+  is_active: true,
+};
+
+interface SupplierFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier | null;
+}
+
+export function SupplierFormModal({ open, onOpenChange, supplier }: SupplierFormModalProps) {
+  const { createSupplier, updateSupplier } = useSuppliers();
+  const isEditing = !!supplier;
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (supplier) {
+      form.reset({
+        name: supplier.name,
+        contact_name: supplier.contact_name || "",
+        phone: supplier.phone || "",
+        email: supplier.email || "",
+        document: supplier.document || "",
+        notes: supplier.notes || "",
+        is_active: supplier.is_active,
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [supplier, open, form]);
+
+  const onSubmit = async (data: FormData) => {
+    const payload = {
+      name: data.name,
+      contact_name: data.contact_name || null,
+      phone: data.phone || null,
+      email: data.email || null,
+      document: data.document || null,
+      notes: data.notes || null,
+      is_active: data.is_active,
+    };
+
+    if (isEditing && supplier) {
+      await updateSupplier.mutateAsync({ id: supplier.id, ...payload });
+    } else {
+      await createSupplier.mutateAsync(payload);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Editar Fornecedor" : "Novo Fornecedor"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome / Razão Social *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Distribuidora Barber Shop" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="contact_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contato</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nome do vendedor" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="document"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>CNPJ / CPF</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone / WhatsApp</FormLabel>
+                    <FormControl>
+                      <Input placeholder="(00) 00000-0000" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-mail</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observações</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Prazo de entrega, condições de pagamento..." rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border border-border p-3">
+                  <FormLabel>Fornecedor Ativo</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createSupplier.isPending || updateSupplier.isPending}>
+                {isEditing ? "Salvar" : "Cadastrar"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
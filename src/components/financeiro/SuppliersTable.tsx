@@ -0,0 +1,109 @@
+import { MoreVertical, Pencil, Trash2, Truck } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Supplier } from "@/hooks/useSuppliers";
+
+interface SuppliersTableProps {
+  suppliers: Supplier[];
+  isLoading: boolean;
+  onEdit: (supplier: Supplier) => void;
+  onDelete: (id: string) => void;
+}
+
+export function SuppliersTable({ suppliers, isLoading, onEdit, onDelete }: SuppliersTableProps) {
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (suppliers.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <Truck className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">Nenhum fornecedor cadastrado</p>
+        <p className="text-sm text-muted-foreground">Clique em "Novo Fornecedor" para começar</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            <TableHead>Fornecedor</TableHead>
+            <TableHead>Contato</TableHead>
+            <TableHead>Telefone</TableHead>
+            <TableHead>E-mail</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-[50px]"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {suppliers.map((supplier) => (
+            <TableRow key={supplier.id}>
+              <TableCell>
+                <p className="font-medium">{supplier.name}</p>
+                {supplier.document && <p className="text-xs text-muted-foreground">{supplier.document}</p>}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{supplier.contact_name || "-"}</TableCell>
+              <TableCell className="text-muted-foreground">{supplier.phone || "-"}</TableCell>
+              <TableCell className="text-muted-foreground">{supplier.email || "-"}</TableCell>
+              <TableCell>
+                {supplier.is_active ? (
+                  <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Ativo</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-muted-foreground">
+                    Inativo
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => onEdit(supplier)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Editar
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => onDelete(supplier.id)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Excluir
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
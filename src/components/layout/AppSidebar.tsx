@@ -47,17 +47,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useUnits } from "@/hooks/useUnits";
 import { useCurrentUnit } from "@/contexts/UnitContext";
+import { useTimeOffRequests, useTimeOffRequestNotification } from "@/hooks/useTimeOffRequests";
+import { useUserRole, ROLE_LABELS, type AppModule } from "@/hooks/useUserRole";
 
-const menuItems = [
-  { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard },
-  { title: "Agenda", url: "/agenda", icon: Calendar },
-  { title: "Clientes", url: "/clientes", icon: UserRound },
-  { title: "Profissionais", url: "/profissionais", icon: Users },
-  { title: "Serviços", url: "/servicos", icon: Scissors },
-  { title: "Financeiro", url: "/financeiro", icon: DollarSign },
-  { title: "Marketing", url: "/marketing", icon: Megaphone },
-  { title: "Relatórios", url: "/relatorios", icon: BarChart3 },
-  { title: "Configurações", url: "/configuracoes", icon: Settings },
+const menuItems: { title: string; url: string; icon: React.ElementType; module: AppModule }[] = [
+  { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard, module: "dashboard" },
+  { title: "Agenda", url: "/agenda", icon: Calendar, module: "agenda" },
+  { title: "Clientes", url: "/clientes", icon: UserRound, module: "clientes" },
+  { title: "Profissionais", url: "/profissionais", icon: Users, module: "profissionais" },
+  { title: "Serviços", url: "/servicos", icon: Scissors, module: "servicos" },
+  { title: "Financeiro", url: "/financeiro", icon: DollarSign, module: "financeiro" },
+  { title: "Marketing", url: "/marketing", icon: Megaphone, module: "marketing" },
+  { title: "Relatórios", url: "/relatorios", icon: BarChart3, module: "relatorios" },
+  { title: "Configurações", url: "/configuracoes", icon: Settings, module: "configuracoes" },
 ];
 
 interface AppSidebarProps {
@@ -76,11 +78,15 @@ export function AppSidebar({ onOpenChat, isChatOpen }: AppSidebarProps) {
   const { isSuperAdmin } = useSuperAdmin();
   const { planType, isTrialing, isSuperAdmin: isSuperAdminSubscription } = useSubscriptionContext();
   const { company } = useCompany();
+  const { role, staff, can } = useUserRole();
+  const { pendingCount: pendingTimeOffCount } = useTimeOffRequests(currentUnitId);
+  useTimeOffRequestNotification(can("profissionais"));
   const [user, setUser] = useState<User | null>(null);
 
   const selectedUnit = units.find((u) => u.id === currentUnitId) || units[0];
 
   const getPlanLabel = () => {
+    if (staff) return ROLE_LABELS[role];
     if (isSuperAdminSubscription) return "Vitalício";
     if (isTrialing) return "Trial";
     if (!planType) return null;
@@ -194,7 +200,7 @@ export function AppSidebar({ onOpenChat, isChatOpen }: AppSidebarProps) {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter((item) => can(item.module)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -209,6 +215,11 @@ export function AppSidebar({ onOpenChat, isChatOpen }: AppSidebarProps) {
                     <Link to={item.url}>
                       <item.icon className={`h-5 w-5 ${isActive(item.url) ? "text-primary" : ""}`} />
                       <span>{item.title}</span>
+                      {item.url === "/profissionais" && pendingTimeOffCount > 0 && (
+                        <Badge className="ml-auto h-5 min-w-5 justify-center px-1.5 text-[10px]">
+                          {pendingTimeOffCount}
+                        </Badge>
+                      )}
                     </Link>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { CalendarCheck, Clock, DollarSign, Send, TrendingUp, Zap, Megaphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DateRangePicker } from "@/components/financeiro/DateRangePicker";
+import { useUnits } from "@/hooks/useUnits";
+import { AUTOMATION_LABELS, useMarketingAttribution, type AttributionRow } from "@/hooks/useMarketingAttribution";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+const formatTimeToBook = (hours: number | null) => {
+  if (hours === null) return "-";
+  if (hours < 24) return `${Math.round(hours)}h`;
+  return `${(hours / 24).toFixed(1).replace(".", ",")} dias`;
+};
+
+const conversionRate = (row: AttributionRow) =>
+  row.messages_sent > 0 ? `${Math.round((row.bookings / row.messages_sent) * 100)}%` : "-";
+
+interface AttributionReportProps {
+  // When provided (Relatórios), the page's period filter is used instead of the local picker
+  dateRange?: { start: Date; end: Date };
+}
+
+function AttributionTable({ rows, kind }: { rows: AttributionRow[]; kind: "campaign" | "automation" }) {
+  if (rows.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        {kind === "campaign" ? "Nenhuma campanha enviada no período" : "Nenhuma automação enviada no período"}
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-muted/50">
+          <TableHead>{kind === "campaign" ? "Campanha" : "Automação"}</TableHead>
+          <TableHead className="text-right">Enviadas</TableHead>
+          <TableHead className="text-right">Agendamentos</TableHead>
+          <TableHead className="text-right">Conversão</TableHead>
+          <TableHead className="text-right">Concluídos</TableHead>
+          <TableHead className="text-right">Receita</TableHead>
+          <TableHead className="text-right">Tempo até agendar</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={`${row.source_type}-${row.source_key}`}>
+            <TableCell className="max-w-[280px]">
+              {kind === "campaign" ? (
+                <div>
+                  <p className="truncate text-sm">{row.label}</p>
+                  {row.started_at && (
+                    <p className="text-xs text-muted-foreground">{format(new Date(row.started_at), "dd/MM/yyyy HH:mm")}</p>
+                  )}
+                </div>
+              ) : (
+                AUTOMATION_LABELS[row.source_key] || row.source_key
+              )}
+            </TableCell>
+            <TableCell className="text-right">{row.messages_sent}</TableCell>
+            <TableCell className="text-right">{row.bookings}</TableCell>
+            <TableCell className="text-right">{conversionRate(row)}</TableCell>
+            <TableCell className="text-right">{row.completed_bookings}</TableCell>
+            <TableCell className="text-right font-medium">{formatCurrency(row.revenue)}</TableCell>
+            <TableCell className="text-right">{formatTimeToBook(row.avg_hours_to_book)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function AttributionReport({ dateRange }: AttributionReportProps) {
+  const { units } = useUnits();
+  const [localRange, setLocalRange] = useState({ start: startOfMonth(new Date()), end: endOfMonth(new Date()) });
+  const [unitId, setUnitId] = useState("all");
+  const [windowDays, setWindowDays] = useState("30");
+
+  const range = dateRange ?? localRange;
+  const { campaigns, automations, totals, isLoading } = useMarketingAttribution({
+    start: range.start,
+    end: range.end,
+    unitId: unitId === "all" ? null : unitId,
+    windowDays: Number(windowDays),
+  });
+
+  const summary = [
+    { label: "Mensagens enviadas", value: String(totals.messagesSent), icon: Send, color: "text-primary", bg: "bg-primary/10" },
+    { label: "Agendamentos gerados", value: String(totals.bookings), icon: CalendarCheck, color: "text-blue-500", bg: "bg-blue-500/10" },
+    { label: "Receita concluída", value: formatCurrency(totals.revenue), icon: DollarSign, color: "text-success", bg: "bg-success/10" },
+    { label: "Tempo médio até agendar", value: formatTimeToBook(totals.avgHoursToBook), icon: Clock, color: "text-gold", bg: "bg-gold/10" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Retorno de Campanhas e Automações
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Agendamentos feitos pelo mesmo telefone até {windowDays} dias após a mensagem (vale a última mensagem recebida)
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {!dateRange && <DateRangePicker dateRange={localRange} onDateRangeChange={setLocalRange} />}
+          <Select value={unitId} onValueChange={setUnitId}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as unidades</SelectItem>
+              {units.map((unit) => (
+                <SelectItem key={unit.id} value={unit.id}>
+                  {unit.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={windowDays} onValueChange={setWindowDays}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {["7", "15", "30", "60"].map((days) => (
+                <SelectItem key={days} value={days}>
+                  Janela {days} dias
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label} className="bg-card border-border">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className={`flex h-10 w-10 items-center justify-center rounded-lg ${item.bg}`}>
+                  <item.icon className={`h-5 w-5 ${item.color}`} />
+                </div>
+                <div>
+                  {isLoading ? (
+                    <Skeleton className="h-7 w-16" />
+                  ) : (
+                    <p className="text-2xl font-bold text-foreground">{item.value}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Zap className="h-4 w-4 text-primary" />
+            Por automação
+          </CardTitle>
+          <CardDescription>Aniversário, resgate e lembretes enviados no período</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <Skeleton className="h-32 w-full" /> : <AttributionTable rows={automations} kind="automation" />}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Megaphone className="h-4 w-4 text-primary" />
+            Por campanha
+          </CardTitle>
+          <CardDescription>Campanhas com mensagens enviadas no período</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <Skeleton className="h-32 w-full" /> : <AttributionTable rows={campaigns} kind="campaign" />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Cake, UserX, Save, Loader2, Clock, Bell } from "lucide-react";
+import { Cake, UserX, Save, Loader2, Clock, Bell, Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -7,8 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useMarketingSettings } from "@/hooks/useMarketingSettings";
+import { useClientSegments } from "@/hooks/useClientSegments";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WorkflowsSection } from "./WorkflowsSection";
 
 // Mensagens padrão
 const DEFAULT_BIRTHDAY_MESSAGE = `Salve {{nome}}! Hoje o dia é todo seu! 🥳
@@ -50,27 +52,47 @@ const FIXED_REMINDER_SUFFIX = `👇 Para o sistema reconhecer, responda apenas:
 
 📌 *CANCELAR* se não puder comparecer`;
 
+const DEFAULT_SURVEY_MESSAGE = `Fala {{nome}}! Valeu pela visita na {{unidade}}! 💈
+
+De 0 a 10, quanto você indicaria o atendimento com {{profissional}} pra um amigo?
+
+Responde aqui só com a nota (e um comentário, se quiser). Sua opinião ajuda demais! 🙏`;
+
+const DEFAULT_FOLLOWUP_MESSAGE = `{{nome}}, poxa, sentimos muito que a experiência não tenha sido das melhores. 😕
+
+Pode contar pra gente o que aconteceu? Queremos resolver e fazer melhor na próxima.`;
+
 export function AutomationsTab() {
   const { settings, isLoading, updateSettings } = useMarketingSettings();
+  const { segments } = useClientSegments();
   
   const [birthdayEnabled, setBirthdayEnabled] = useState(false);
   const [birthdayMessage, setBirthdayMessage] = useState(DEFAULT_BIRTHDAY_MESSAGE);
+  const [birthdaySegmentId, setBirthdaySegmentId] = useState<string | null>(null);
   const [rescueEnabled, setRescueEnabled] = useState(false);
   const [rescueDays, setRescueDays] = useState(30);
   const [rescueMessage, setRescueMessage] = useState(DEFAULT_RESCUE_MESSAGE);
+  const [rescueSegmentId, setRescueSegmentId] = useState<string | null>(null);
   const [sendHour, setSendHour] = useState(11);
   const [sendMinute, setSendMinute] = useState(30);
   const [reminderEnabled, setReminderEnabled] = useState(false);
   const [reminderMinutes, setReminderMinutes] = useState(30);
   const [reminderMessage, setReminderMessage] = useState(DEFAULT_REMINDER_MESSAGE);
+  const [surveyEnabled, setSurveyEnabled] = useState(false);
+  const [surveyDelayHours, setSurveyDelayHours] = useState(2);
+  const [surveyMessage, setSurveyMessage] = useState(DEFAULT_SURVEY_MESSAGE);
+  const [followupEnabled, setFollowupEnabled] = useState(false);
+  const [followupMessage, setFollowupMessage] = useState(DEFAULT_FOLLOWUP_MESSAGE);
 
   useEffect(() => {
     if (settings) {
       setBirthdayEnabled(settings.birthday_automation_enabled ?? false);
       setBirthdayMessage(settings.birthday_message_template || DEFAULT_BIRTHDAY_MESSAGE);
+      setBirthdaySegmentId(settings.birthday_segment_id ?? null);
       setRescueEnabled(settings.rescue_automation_enabled ?? false);
       setRescueDays(settings.rescue_days_threshold ?? 30);
       setRescueMessage(settings.rescue_message_template || DEFAULT_RESCUE_MESSAGE);
+      setRescueSegmentId(settings.rescue_segment_id ?? null);
       setSendHour(settings.automation_send_hour ?? 11);
       setSendMinute(settings.automation_send_minute ?? 30);
       setReminderEnabled(settings.appointment_reminder_enabled ?? false);
@@ -79,6 +101,11 @@ export function AutomationsTab() {
       const savedReminder = settings.appointment_reminder_template || DEFAULT_REMINDER_MESSAGE;
       const reminderWithoutSuffix = savedReminder.replace(FIXED_REMINDER_SUFFIX, '').trim();
       setReminderMessage(reminderWithoutSuffix || DEFAULT_REMINDER_MESSAGE);
+      setSurveyEnabled(settings.nps_survey_enabled ?? false);
+      setSurveyDelayHours(settings.nps_survey_delay_hours ?? 2);
+      setSurveyMessage(settings.nps_survey_template || DEFAULT_SURVEY_MESSAGE);
+      setFollowupEnabled(settings.nps_followup_enabled ?? false);
+      setFollowupMessage(settings.nps_followup_template || DEFAULT_FOLLOWUP_MESSAGE);
     }
   }, [settings]);
 
@@ -89,14 +116,21 @@ export function AutomationsTab() {
     updateSettings.mutate({
       birthday_automation_enabled: birthdayEnabled,
       birthday_message_template: birthdayMessage,
+      birthday_segment_id: birthdaySegmentId,
       rescue_automation_enabled: rescueEnabled,
       rescue_days_threshold: rescueDays,
       rescue_message_template: rescueMessage,
+      rescue_segment_id: rescueSegmentId,
       automation_send_hour: sendHour,
       automation_send_minute: sendMinute,
       appointment_reminder_enabled: reminderEnabled,
       appointment_reminder_minutes: reminderMinutes,
       appointment_reminder_template: fullReminderTemplate,
+      nps_survey_enabled: surveyEnabled,
+      nps_survey_delay_hours: surveyDelayHours,
+      nps_survey_template: surveyMessage,
+      nps_followup_enabled: followupEnabled,
+      nps_followup_template: followupMessage,
     });
   };
 
@@ -108,6 +142,9 @@ export function AutomationsTab() {
     { value: 60, label: "1 hora" },
   ];
 
+  // Survey delay options (hours after the service is completed)
+  const surveyDelayOptions = [1, 2, 4, 6, 12, 24];
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -117,6 +154,26 @@ export function AutomationsTab() {
     );
   }
 
+  // Optional saved segment restricting who receives the automation
+  const segmentSelect = (value: string | null, onChange: (value: string | null) => void, disabled: boolean) => (
+    <div className="flex items-center gap-4">
+      <Label className="whitespace-nowrap">Enviar para</Label>
+      <Select value={value || "all"} onValueChange={(v) => onChange(v === "all" ? null : v)} disabled={disabled}>
+        <SelectTrigger className="w-[260px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todos os clientes</SelectItem>
+          {segments.map((segment) => (
+            <SelectItem key={segment.id} value={segment.id}>
+              Segmento: {segment.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   // Generate hour options (business hours: 8-20)
   const hourOptions = Array.from({ length: 13 }, (_, i) => i + 8);
   // Generate minute options (0, 15, 30, 45)
@@ -197,6 +254,8 @@ export function AutomationsTab() {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {segmentSelect(birthdaySegmentId, setBirthdaySegmentId, !birthdayEnabled)}
+
           <div>
             <Label htmlFor="birthday-message">Mensagem de Parabéns</Label>
             <Textarea
@@ -252,6 +311,8 @@ export function AutomationsTab() {
             <span className="text-sm text-muted-foreground">dias sem vir</span>
           </div>
 
+          {segmentSelect(rescueSegmentId, setRescueSegmentId, !rescueEnabled)}
+
           <div>
             <Label htmlFor="rescue-message">Mensagem de Resgate</Label>
             <Textarea
@@ -348,6 +409,102 @@ export function AutomationsTab() {
         </CardContent>
       </Card>
 
+      {/* Satisfaction Survey (NPS) Automation */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gold/10">
+                <Star className="h-5 w-5 text-gold" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">Pesquisa de Satisfação (NPS)</CardTitle>
+                <CardDescription>
+                  Pede uma nota de 0 a 10 algumas horas depois que o atendimento é concluído
+                </CardDescription>
+              </div>
+            </div>
+            <Switch
+              checked={surveyEnabled}
+              onCheckedChange={setSurveyEnabled}
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-4">
+            <Label htmlFor="survey-delay" className="whitespace-nowrap">
+              Enviar
+            </Label>
+            <Select
+              value={surveyDelayHours.toString()}
+              onValueChange={(v) => setSurveyDelayHours(Number(v))}
+              disabled={!surveyEnabled}
+            >
+              <SelectTrigger id="survey-delay" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {surveyDelayOptions.map((hours) => (
+                  <SelectItem key={hours} value={hours.toString()}>
+                    {hours === 1 ? "1 hora" : `${hours} horas`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">após o atendimento ser concluído</span>
+          </div>
+
+          <div>
+            <Label htmlFor="survey-message">Mensagem da Pesquisa</Label>
+            <Textarea
+              id="survey-message"
+              placeholder="Digite a mensagem da pesquisa..."
+              value={surveyMessage}
+              onChange={(e) => setSurveyMessage(e.target.value)}
+              className="mt-2 min-h-[140px]"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Use: <code className="rounded bg-muted px-1">{"{{nome}}"}</code>, 
+              <code className="ml-1 rounded bg-muted px-1">{"{{profissional}}"}</code>, 
+              <code className="ml-1 rounded bg-muted px-1">{"{{unidade}}"}</code>
+            </p>
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="followup-enabled">Follow-up para detratores</Label>
+                <p className="text-xs text-muted-foreground">
+                  Mensagem automática para quem der nota de 0 a 6
+                </p>
+              </div>
+              <Switch
+                id="followup-enabled"
+                checked={followupEnabled}
+                onCheckedChange={setFollowupEnabled}
+                disabled={!surveyEnabled}
+              />
+            </div>
+            <Textarea
+              id="followup-message"
+              placeholder="Digite a mensagem de follow-up..."
+              value={followupMessage}
+              onChange={(e) => setFollowupMessage(e.target.value)}
+              className="min-h-[100px]"
+              disabled={!surveyEnabled || !followupEnabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use: <code className="rounded bg-muted px-1">{"{{nome}}"}</code>, 
+              <code className="ml-1 rounded bg-muted px-1">{"{{nota}}"}</code>
+            </p>
+          </div>
+
+          <div className="rounded-lg bg-green-500/10 p-3 text-sm text-green-700 dark:text-green-400">
+            <strong>✅ Proteção anti-spam:</strong> Cada atendimento recebe no máximo 1 pesquisa, enviada apenas entre 8h e 21h.
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button onClick={handleSave} disabled={updateSettings.isPending} size="lg">
@@ -359,6 +516,9 @@ export function AutomationsTab() {
           Salvar Configurações
         </Button>
       </div>
+
+      {/* Custom multi-step workflows (saved individually) */}
+      <WorkflowsSection />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { History, CheckCircle2, XCircle, Clock, Loader2, ChevronDown, ChevronUp, AlertCircle, Building2, Users, Image as ImageIcon, Ban } from "lucide-react";
+import { History, CheckCircle2, XCircle, Clock, Loader2, ChevronDown, ChevronUp, AlertCircle, Building2, Users, Image as ImageIcon, Ban, CalendarClock, Pause, Play, Gauge, Moon, FlaskConical, Trophy } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useCurrentUnit } from "@/contexts/UnitContext";
+import { getConversionRate, useCampaignVariantStats } from "@/hooks/useCampaignVariants";
 import { toast } from "sonner";
 
 interface Campaign {
@@ -34,6 +35,13 @@ interface Campaign {
   created_at: string;
   completed_at: string | null;
   unit_id: string | null;
+  scheduled_at: string | null;
+  paused_at: string | null;
+  hourly_limit: number | null;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  conversion_window_days: number;
+  campaign_variants?: { id: string }[];
 }
 
 interface MessageLog {
@@ -43,6 +51,73 @@ interface MessageLog {
   status: string;
   error_message: string | null;
   sent_at: string | null;
+  dispatched_at: string | null;
+}
+
+// Campaigns still able to send messages (legacy 'processing'/'pending' included)
+const ACTIVE_STATUSES = ["scheduled", "sending", "paused", "processing", "pending"];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}h`;
+
+function CampaignVariantResults({ campaign }: { campaign: Campaign }) {
+  const { variants, winnerId, isLoading } = useCampaignVariantStats(campaign.id);
+
+  if (isLoading) {
+    return <Skeleton className="h-20 w-full" />;
+  }
+  if (variants.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        <FlaskConical className="h-4 w-4" />
+        Teste A/B
+        <span className="text-xs font-normal text-muted-foreground">
+          conversão = agendou em até {campaign.conversion_window_days} dias após o envio
+        </span>
+      </h4>
+      <div className="space-y-2">
+        {variants.map((variant) => {
+          const isWinner = variant.variant_id === winnerId;
+          return (
+            <div
+              key={variant.variant_id}
+              className={`rounded-lg border p-3 text-sm ${isWinner ? "border-green-600/50 bg-green-600/5" : ""}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Variante {variant.label}</Badge>
+                  {isWinner && (
+                    <Badge className="bg-green-600">
+                      <Trophy className="mr-1 h-3 w-3" />
+                      Vencedora
+                    </Badge>
+                  )}
+                </div>
+                <span className="font-medium">{Math.round(getConversionRate(variant) * 100)}% de conversão</span>
+              </div>
+              <p className="mt-2 line-clamp-2 text-muted-foreground">{variant.message_template}</p>
+              <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                <span>{variant.recipients} destinatário(s)</span>
+                <span className="flex items-center gap-1">
+                  <CheckCircle2 className="h-3 w-3 text-green-600" />
+                  {variant.sent} enviada(s)
+                </span>
+                <span className="flex items-center gap-1 text-destructive">
+                  <XCircle className="h-3 w-3" />
+                  {variant.failed} falha(s)
+                </span>
+                <span className="flex items-center gap-1 font-medium text-foreground">
+                  <CalendarClock className="h-3 w-3" />
+                  {variant.converted} agendamento(s)
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
 }
 
 interface UnitInfo {
@@ -59,6 +134,7 @@ export function CampaignHistoryTab() {
   const [loadingLogs, setLoadingLogs] = useState<string | null>(null);
   const [cancelingCampaign, setCancelingCampaign] = useState<string | null>(null);
   const [confirmCancelId, setConfirmCancelId] = useState<string | null>(null);
+  const [togglingPause, setTogglingPause] = useState<string | null>(null);
   const { currentCompanyId } = useCurrentUnit();
 
   // Fetch campaigns
@@ -69,7 +145,7 @@ export function CampaignHistoryTab() {
       setIsLoading(true);
       const { data, error } = await supabase
         .from("marketing_campaigns")
-        .select("*")
+        .select("*, campaign_variants(id)")
         .eq("company_id", currentCompanyId)
         .order("created_at", { ascending: false })
         .limit(50);
@@ -117,7 +193,7 @@ export function CampaignHistoryTab() {
             setCampaigns((prev) => [payload.new as Campaign, ...prev]);
           } else if (payload.eventType === "UPDATE") {
             setCampaigns((prev) =>
-              prev.map((c) => (c.id === payload.new.id ? (payload.new as Campaign) : c))
+              prev.map((c) => (c.id === payload.new.id ? { ...c, ...(payload.new as Campaign) } : c))
             );
           } else if (payload.eventType === "DELETE") {
             setCampaigns((prev) => prev.filter((c) => c.id !== payload.old.id));
@@ -131,6 +207,39 @@ export function CampaignHistoryTab() {
     };
   }, [currentCompanyId]);
 
+  // Per-recipient progress of the expanded campaign
+  useEffect(() => {
+    if (!expandedCampaign) return;
+
+    const channel = supabase
+      .channel(`campaign-logs-${expandedCampaign}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "campaign_message_logs",
+          filter: `campaign_id=eq.${expandedCampaign}`,
+        },
+        (payload) => {
+          const updated = payload.new as MessageLog;
+          setCampaignLogs((prev) => {
+            const logs = prev.get(expandedCampaign);
+            if (!logs) return prev;
+            return new Map(prev).set(
+              expandedCampaign,
+              logs.map((l) => (l.id === updated.id ? updated : l))
+            );
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [expandedCampaign]);
+
   // Fetch logs for expanded campaign
   const fetchLogs = async (campaignId: string) => {
     if (campaignLogs.has(campaignId)) return;
@@ -193,12 +302,50 @@ export function CampaignHistoryTab() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+  const handleTogglePause = async (campaign: Campaign) => {
+    const action = campaign.status === "paused" ? "resume" : "pause";
+    setTogglingPause(campaign.id);
+    try {
+      const { data, error } = await supabase.functions.invoke("pause-campaign", {
+        body: { campaign_id: campaign.id, action },
+      });
+
+      if (error) {
+        console.error(`Error on ${action} campaign:`, error);
+        toast.error(action === "pause" ? "Erro ao pausar campanha" : "Erro ao retomar campanha");
+        return;
+      }
+
+      if (data?.error) {
+        toast.error(data.error);
+        return;
+      }
+
+      toast.success(action === "pause" ? "Campanha pausada" : "Campanha retomada");
+    } catch (err) {
+      console.error("Unexpected error:", err);
+      toast.error("Erro inesperado ao alterar campanha");
+    } finally {
+      setTogglingPause(null);
+    }
+  };
+
+  const getStatusBadge = (campaign: Campaign) => {
+    switch (campaign.status) {
       case "completed":
         return <Badge variant="default" className="bg-green-600"><CheckCircle2 className="mr-1 h-3 w-3" />Concluída</Badge>;
+      case "scheduled":
+        return (
+          <Badge variant="outline" className="border-violet-500 text-violet-600">
+            <CalendarClock className="mr-1 h-3 w-3" />
+            Agendada{campaign.scheduled_at && ` para ${format(new Date(campaign.scheduled_at), "dd/MM 'às' HH:mm")}`}
+          </Badge>
+        );
+      case "sending":
       case "processing":
-        return <Badge variant="secondary" className="bg-blue-600 text-white"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Em andamento</Badge>;
+        return <Badge variant="secondary" className="bg-blue-600 text-white"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Enviando</Badge>;
+      case "paused":
+        return <Badge variant="outline" className="border-slate-500 text-slate-600"><Pause className="mr-1 h-3 w-3" />Pausada</Badge>;
       case "failed":
         return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Falhou</Badge>;
       case "canceled":
@@ -221,9 +368,23 @@ export function CampaignHistoryTab() {
     }
   };
 
-  const getProgress = (campaign: Campaign) => {
+  // Logs are the source of truth once loaded; the campaign counters cover collapsed cards
+  const getCounts = (campaign: Campaign) => {
+    const logs = campaignLogs.get(campaign.id);
+    if (!logs) {
+      return { sent: campaign.sent_count, failed: campaign.failed_count, inFlight: 0, queued: 0 };
+    }
+    return {
+      sent: logs.filter((l) => l.status === "sent").length,
+      failed: logs.filter((l) => l.status === "failed").length,
+      inFlight: logs.filter((l) => l.status === "pending" && l.dispatched_at).length,
+      queued: logs.filter((l) => l.status === "pending" && !l.dispatched_at).length,
+    };
+  };
+
+  const getProgress = (campaign: Campaign, counts: { sent: number; failed: number }) => {
     if (campaign.total_recipients === 0) return 0;
-    return Math.round(((campaign.sent_count + campaign.failed_count) / campaign.total_recipients) * 100);
+    return Math.round(((counts.sent + counts.failed) / campaign.total_recipients) * 100);
   };
 
   if (isLoading) {
@@ -257,19 +418,21 @@ export function CampaignHistoryTab() {
       <ScrollArea className="h-[600px] pr-4">
         <div className="space-y-4">
           {campaigns.map((campaign) => {
-            const progress = getProgress(campaign);
+            const counts = getCounts(campaign);
+            const progress = getProgress(campaign, counts);
+            const isSending = campaign.status === "sending" || campaign.status === "processing";
             const unit = campaign.unit_id ? units.get(campaign.unit_id) : null;
             const logs = campaignLogs.get(campaign.id) || [];
             const isExpanded = expandedCampaign === campaign.id;
 
             return (
               <Collapsible key={campaign.id} open={isExpanded} onOpenChange={() => toggleExpand(campaign.id)}>
-                <Card className={campaign.status === "processing" ? "border-blue-500/50 bg-blue-500/5" : ""}>
+                <Card className={isSending ? "border-blue-500/50 bg-blue-500/5" : ""}>
                   <CardHeader className="pb-2">
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
-                          {getStatusBadge(campaign.status)}
+                          {getStatusBadge(campaign)}
                           {unit && (
                             <Badge variant="outline" className="text-xs">
                               <Building2 className="mr-1 h-3 w-3" />
@@ -282,6 +445,24 @@ export function CampaignHistoryTab() {
                               Com imagem
                             </Badge>
                           )}
+                          {!!campaign.campaign_variants?.length && (
+                            <Badge variant="outline" className="text-xs">
+                              <FlaskConical className="mr-1 h-3 w-3" />
+                              Teste A/B
+                            </Badge>
+                          )}
+                          {campaign.hourly_limit && (
+                            <Badge variant="outline" className="text-xs">
+                              <Gauge className="mr-1 h-3 w-3" />
+                              {campaign.hourly_limit}/hora
+                            </Badge>
+                          )}
+                          {campaign.quiet_hours_start !== null && campaign.quiet_hours_end !== null && (
+                            <Badge variant="outline" className="text-xs">
+                              <Moon className="mr-1 h-3 w-3" />
+                              Silêncio {formatHour(campaign.quiet_hours_start)}-{formatHour(campaign.quiet_hours_end)}
+                            </Badge>
+                          )}
                         </div>
                         <CardDescription className="mt-2">
                           {format(new Date(campaign.created_at), "dd 'de' MMMM 'às' HH:mm", { locale: ptBR })}
@@ -294,7 +475,32 @@ export function CampaignHistoryTab() {
                             <span>{campaign.total_recipients}</span>
                           </div>
                         </div>
-                        {(campaign.status === "processing" || campaign.status === "pending") && (
+                        {["scheduled", "sending", "processing", "paused"].includes(campaign.status) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleTogglePause(campaign);
+                            }}
+                            disabled={togglingPause === campaign.id}
+                          >
+                            {togglingPause === campaign.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : campaign.status === "paused" ? (
+                              <>
+                                <Play className="mr-1 h-4 w-4" />
+                                Retomar
+                              </>
+                            ) : (
+                              <>
+                                <Pause className="mr-1 h-4 w-4" />
+                                Pausar
+                              </>
+                            )}
+                          </Button>
+                        )}
+                        {ACTIVE_STATUSES.includes(campaign.status) && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -335,12 +541,24 @@ export function CampaignHistoryTab() {
                       <div className="flex items-center justify-between text-xs text-muted-foreground">
                         <span className="flex items-center gap-1">
                           <CheckCircle2 className="h-3 w-3 text-green-600" />
-                          {campaign.sent_count} enviada(s)
+                          {counts.sent} enviada(s)
                         </span>
-                        {campaign.failed_count > 0 && (
+                        {counts.inFlight > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            {counts.inFlight} em envio
+                          </span>
+                        )}
+                        {counts.queued > 0 && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {counts.queued} na fila
+                          </span>
+                        )}
+                        {counts.failed > 0 && (
                           <span className="flex items-center gap-1 text-destructive">
                             <XCircle className="h-3 w-3" />
-                            {campaign.failed_count} falha(s)
+                            {counts.failed} falha(s)
                           </span>
                         )}
                       </div>
@@ -355,6 +573,11 @@ export function CampaignHistoryTab() {
 
                     {/* Expanded content: message logs */}
                     <CollapsibleContent>
+                      {!!campaign.campaign_variants?.length && (
+                        <div className="mt-4 border-t pt-4">
+                          <CampaignVariantResults campaign={campaign} />
+                        </div>
+                      )}
                       <div className="mt-4 space-y-2 border-t pt-4">
                         <h4 className="text-sm font-medium">Detalhes de envio</h4>
                         
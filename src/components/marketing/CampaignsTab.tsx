@@ -1,5 +1,5 @@
 import { useState, useRef } from "react";
-import { Send, Users, Cake, UserX, Search, CheckSquare, Square, Building2, Settings, Save, Scissors, Loader2, ImagePlus, X, BellOff } from "lucide-react";
+import { Send, Users, Cake, UserX, Search, CheckSquare, Square, Building2, Settings, Save, Scissors, Loader2, ImagePlus, X, BellOff, Filter, CalendarClock, FlaskConical, Plus } from "lucide-react";
 import { MessageTemplatesModal } from "./MessageTemplatesModal";
 import { TemplateSelector } from "./TemplateSelector";
 import { useMessageTemplates } from "@/hooks/useMessageTemplates";
@@ -9,6 +9,8 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,6 +19,9 @@ import { toast } from "@/hooks/use-toast";
 import { useClients, type ClientFilter } from "@/hooks/useClients";
 import { useUnits } from "@/hooks/useUnits";
 import { useBarbers } from "@/hooks/useBarbers";
+import { useClientSegments, useSegmentClients } from "@/hooks/useClientSegments";
+import { usePlanEntitlements } from "@/hooks/usePlanEntitlements";
+import { UpgradePrompt } from "@/components/subscription/UpgradePrompt";
 import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 
@@ -28,6 +33,10 @@ interface Target {
   unit_id: string;
 }
 
+const hourOptions = Array.from({ length: 24 }, (_, hour) => hour);
+
+const VARIANT_LABELS = ["A", "B", "C", "D"];
+
 const filterOptions = [
   { value: "all", label: "Todos os Clientes", icon: Users },
   { value: "birthday_month", label: "Aniversariantes do Mês", icon: Cake },
@@ -39,6 +48,7 @@ export function CampaignsTab() {
   const [recipientType, setRecipientType] = useState<RecipientType>("clients");
   const [filter, setFilter] = useState<ClientFilter>("all");
   const [unitFilter, setUnitFilter] = useState<string>("all");
+  const [segmentId, setSegmentId] = useState<string>("none");
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectedBarberIds, setSelectedBarberIds] = useState<Set<string>>(new Set());
   const [message, setMessage] = useState("");
@@ -48,6 +58,17 @@ export function CampaignsTab() {
   const [mediaUrl, setMediaUrl] = useState<string>("");
   const [mediaType, setMediaType] = useState<string>("");
   const [isUploading, setIsUploading] = useState(false);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduleDate, setScheduleDate] = useState("");
+  const [scheduleTime, setScheduleTime] = useState("09:00");
+  const [hourlyLimit, setHourlyLimit] = useState("");
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietHoursStart, setQuietHoursStart] = useState(21);
+  const [quietHoursEnd, setQuietHoursEnd] = useState(8);
+  const [abTestEnabled, setAbTestEnabled] = useState(false);
+  // Variant A is the main message; these are B, C...
+  const [extraVariants, setExtraVariants] = useState<string[]>([""]);
+  const [conversionWindow, setConversionWindow] = useState("7");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const { createTemplate } = useMessageTemplates();
@@ -57,12 +78,22 @@ export function CampaignsTab() {
     unitIdFilter: unitFilter === "all" ? null : unitFilter,
   });
   const { barbers, isLoading: barbersLoading } = useBarbers(unitFilter === "all" ? null : unitFilter);
+  const { segments } = useClientSegments();
+  const { hasFeature, isLoading: planLoading } = usePlanEntitlements();
+  const canUseCampaigns = hasFeature("marketing_automations");
+  const selectedSegment = segments.find((s) => s.id === segmentId);
+  const { clientIds: segmentClientIds, isLoading: segmentLoading } = useSegmentClients(
+    selectedSegment?.rules,
+    selectedSegment?.unit_id
+  );
+  const segmentClientSet = new Set(segmentClientIds);
 
   // Filter out opted-out clients unless we're specifically viewing them
   const blockedCount = clients.filter((c) => c.marketing_opt_out).length;
-  const availableClients = filter === "opted_out" 
+  const availableClients = (filter === "opted_out" 
     ? clients 
-    : clients.filter((client) => !client.marketing_opt_out);
+    : clients.filter((client) => !client.marketing_opt_out)
+  ).filter((client) => !selectedSegment || segmentClientSet.has(client.id));
   
   const filteredClients = availableClients.filter((client) =>
     client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -77,7 +108,7 @@ export function CampaignsTab() {
     );
 
   const showUnitBadge = unitFilter === "all" && units.length > 1;
-  const isLoading = recipientType === "clients" ? clientsLoading : barbersLoading;
+  const isLoading = recipientType === "clients" ? clientsLoading || segmentLoading : barbersLoading;
 
   const toggleSelection = (id: string) => {
     const newSelected = new Set(selectedIds);
@@ -177,6 +208,10 @@ export function CampaignsTab() {
     const isClientsMode = recipientType === "clients";
     const selectedCount = isClientsMode ? selectedIds.size : selectedBarberIds.size;
 
+    if (!canUseCampaigns) {
+      toast({ title: "Campanhas não estão disponíveis no seu plano", variant: "destructive" });
+      return;
+    }
     if (selectedCount === 0) {
       toast({ title: "Selecione pelo menos um destinatário", variant: "destructive" });
       return;
@@ -185,6 +220,14 @@ export function CampaignsTab() {
       toast({ title: "Digite uma mensagem", variant: "destructive" });
       return;
     }
+    if (abTestEnabled && extraVariants.some((v) => !v.trim())) {
+      toast({ title: "Preencha a mensagem de todas as variantes", variant: "destructive" });
+      return;
+    }
+    if (scheduleEnabled && (!scheduleDate || !scheduleTime)) {
+      toast({ title: "Informe a data e o horário do agendamento", variant: "destructive" });
+      return;
+    }
 
     setIsSending(true);
     
@@ -243,6 +286,18 @@ export function CampaignsTab() {
             targets,
             media_url: mediaUrl || undefined,
             media_type: mediaType || undefined,
+            // Interpreted in the unit's timezone by the edge function
+            scheduled_for: scheduleEnabled ? `${scheduleDate}T${scheduleTime}` : undefined,
+            hourly_limit: Number(hourlyLimit) > 0 ? Number(hourlyLimit) : undefined,
+            quiet_hours_start: quietHoursEnabled ? quietHoursStart : undefined,
+            quiet_hours_end: quietHoursEnabled ? quietHoursEnd : undefined,
+            variants: abTestEnabled
+              ? [message, ...extraVariants].map((content, index) => ({
+                  label: VARIANT_LABELS[index],
+                  message_template: content,
+                }))
+              : undefined,
+            conversion_window_days: Number(conversionWindow),
           },
         });
 
@@ -284,9 +339,15 @@ export function CampaignsTab() {
       } else {
         // All success
         toast({
-          title: "Campanha iniciada!",
-          description: `${successCount} mensagem(ns) sendo enviadas em segundo plano. Intervalo de 15-25s entre cada envio para evitar bloqueio.`,
+          title: scheduleEnabled ? "Campanha agendada!" : "Campanha iniciada!",
+          description: scheduleEnabled
+            ? `${successCount} mensagem(ns) serão enviadas em ${format(new Date(`${scheduleDate}T${scheduleTime}`), "dd/MM/yyyy 'às' HH:mm")}. Acompanhe no Histórico.`
+            : `${successCount} mensagem(ns) sendo enviadas em segundo plano. Intervalo de 15-25s entre cada envio para evitar bloqueio.`,
         });
+        setScheduleEnabled(false);
+        setScheduleDate("");
+        setAbTestEnabled(false);
+        setExtraVariants([""]);
         if (isClientsMode) {
           setSelectedIds(new Set());
         } else {
@@ -357,6 +418,23 @@ export function CampaignsTab() {
               </SelectContent>
             </Select>
           )}
+
+          {recipientType === "clients" && segments.length > 0 && (
+            <Select value={segmentId} onValueChange={(v) => { setSegmentId(v); setSelectedIds(new Set()); }}>
+              <SelectTrigger className="w-full sm:w-[220px]">
+                <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
+                <SelectValue placeholder="Segmento" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sem segmento</SelectItem>
+                {segments.map((segment) => (
+                  <SelectItem key={segment.id} value={segment.id}>
+                    {segment.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         <div className="relative">
@@ -535,7 +613,7 @@ export function CampaignsTab() {
           <CardContent className="space-y-4">
             <div className="flex gap-2">
               <TemplateSelector onSelectTemplate={(content) => setMessage(content)} />
-              {message.trim() && (
+              {message.trim() && canUseCampaigns && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -559,6 +637,82 @@ export function CampaignsTab() {
               className="min-h-[160px] resize-none"
             />
 
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="flex items-center gap-2">
+                    <FlaskConical className="h-4 w-4" />
+                    Teste A/B
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    A mensagem acima é a variante A; os destinatários são divididos aleatoriamente
+                  </p>
+                </div>
+                <Switch checked={abTestEnabled} onCheckedChange={setAbTestEnabled} />
+              </div>
+              {abTestEnabled && (
+                <>
+                  {extraVariants.map((content, index) => (
+                    <div key={index} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Badge variant="secondary">Variante {VARIANT_LABELS[index + 1]}</Badge>
+                        <div className="flex gap-2">
+                          <TemplateSelector
+                            onSelectTemplate={(template) =>
+                              setExtraVariants((prev) => prev.map((v, i) => (i === index ? template : v)))
+                            }
+                          />
+                          {extraVariants.length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setExtraVariants((prev) => prev.filter((_, i) => i !== index))}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      <Textarea
+                        placeholder="Outra versão da mensagem para comparar..."
+                        value={content}
+                        onChange={(e) =>
+                          setExtraVariants((prev) => prev.map((v, i) => (i === index ? e.target.value : v)))
+                        }
+                        className="min-h-[100px] resize-none"
+                      />
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    {extraVariants.length < VARIANT_LABELS.length - 1 ? (
+                      <Button variant="outline" size="sm" onClick={() => setExtraVariants((prev) => [...prev, ""])}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Adicionar variante
+                      </Button>
+                    ) : (
+                      <span />
+                    )}
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Conversão em até</span>
+                      <Select value={conversionWindow} onValueChange={setConversionWindow}>
+                        <SelectTrigger className="w-[110px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {["3", "7", "14", "30"].map((days) => (
+                            <SelectItem key={days} value={days}>
+                              {days} dias
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
             {/* Image Upload Section */}
             <div className="space-y-2">
               <input
@@ -613,18 +767,102 @@ export function CampaignsTab() {
               </div>
             )}
 
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4" />
+                    Agendar envio
+                  </Label>
+                  <p className="text-xs text-muted-foreground">Horário no fuso da unidade</p>
+                </div>
+                <Switch checked={scheduleEnabled} onCheckedChange={setScheduleEnabled} />
+              </div>
+              {scheduleEnabled && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="date"
+                    value={scheduleDate}
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    onChange={(e) => setScheduleDate(e.target.value)}
+                  />
+                  <Input type="time" value={scheduleTime} onChange={(e) => setScheduleTime(e.target.value)} />
+                </div>
+              )}
+
+              <div className="grid gap-2 sm:grid-cols-2 sm:items-center">
+                <div className="space-y-0.5">
+                  <Label htmlFor="hourly-limit">Limite por hora</Label>
+                  <p className="text-xs text-muted-foreground">Vazio = sem limite</p>
+                </div>
+                <Input
+                  id="hourly-limit"
+                  type="number"
+                  min={1}
+                  placeholder="Ex.: 60"
+                  value={hourlyLimit}
+                  onChange={(e) => setHourlyLimit(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Horário de silêncio</Label>
+                  <p className="text-xs text-muted-foreground">Nenhuma mensagem é enviada nesse intervalo</p>
+                </div>
+                <Switch checked={quietHoursEnabled} onCheckedChange={setQuietHoursEnabled} />
+              </div>
+              {quietHoursEnabled && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Das</span>
+                  <Select value={String(quietHoursStart)} onValueChange={(v) => setQuietHoursStart(Number(v))}>
+                    <SelectTrigger className="w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {hourOptions.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {String(hour).padStart(2, "0")}h
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">às</span>
+                  <Select value={String(quietHoursEnd)} onValueChange={(v) => setQuietHoursEnd(Number(v))}>
+                    <SelectTrigger className="w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {hourOptions.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {String(hour).padStart(2, "0")}h
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {!planLoading && !canUseCampaigns ? (
+              <UpgradePrompt
+                title="Campanhas não disponíveis no seu plano"
+                description="O envio e o agendamento de campanhas pelo WhatsApp estão disponíveis a partir do plano Profissional."
+              />
+            ) : (
             <Button
               className="w-full"
               size="lg"
               onClick={handleSendCampaign}
-              disabled={isSending || totalSelected === 0 || !message.trim()}
+              disabled={isSending || planLoading || totalSelected === 0 || !message.trim()}
             >
               {isSending ? (
                 <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Processando...</>
               ) : (
-                <><Send className="mr-2 h-4 w-4" /> Enviar Campanha ({totalSelected} {recipientType === "clients" ? "cliente" : "profissional"}{totalSelected !== 1 ? "s" : ""})</>
+                <>{scheduleEnabled ? <CalendarClock className="mr-2 h-4 w-4" /> : <Send className="mr-2 h-4 w-4" />} {scheduleEnabled ? "Agendar" : "Enviar"} Campanha ({totalSelected} {recipientType === "clients" ? "cliente" : "profissional"}{totalSelected !== 1 ? "s" : ""})</>
               )}
             </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { MessageSquare, Smile, Frown, Star, Send, Building2, Scissors } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DateRangePicker } from "@/components/financeiro/DateRangePicker";
+import { useUnits } from "@/hooks/useUnits";
+import { getNpsCategory, useSatisfactionSurveys, type NpsSummary } from "@/hooks/useSatisfactionSurveys";
+
+const CATEGORY_STYLES = {
+  promoter: "bg-success/10 text-success border-success/20",
+  passive: "bg-gold/10 text-gold border-gold/20",
+  detractor: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+const formatNps = (nps: number | null) => (nps === null ? "-" : nps > 0 ? `+${nps}` : String(nps));
+
+const responseRate = (row: NpsSummary) =>
+  row.sent > 0 ? `${Math.round((row.answered / row.sent) * 100)}%` : "-";
+
+function NpsTable({ rows, label }: { rows: NpsSummary[]; label: string }) {
+  if (rows.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma pesquisa enviada no período</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow className="bg-muted/50">
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Enviadas</TableHead>
+          <TableHead className="text-right">Respostas</TableHead>
+          <TableHead className="text-right">Promotores</TableHead>
+          <TableHead className="text-right">Neutros</TableHead>
+          <TableHead className="text-right">Detratores</TableHead>
+          <TableHead className="text-right">NPS</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell>{row.name}</TableCell>
+            <TableCell className="text-right">{row.sent}</TableCell>
+            <TableCell className="text-right">
+              {row.answered} <span className="text-xs text-muted-foreground">({responseRate(row)})</span>
+            </TableCell>
+            <TableCell className="text-right">{row.promoters}</TableCell>
+            <TableCell className="text-right">{row.passives}</TableCell>
+            <TableCell className="text-right">{row.detractors}</TableCell>
+            <TableCell className="text-right font-semibold">{formatNps(row.nps)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function NpsDashboard() {
+  const { units } = useUnits();
+  const [range, setRange] = useState({ start: startOfMonth(new Date()), end: endOfMonth(new Date()) });
+  const [unitId, setUnitId] = useState("all");
+
+  const { overall, byUnit, byBarber, comments, isLoading } = useSatisfactionSurveys({
+    start: range.start,
+    end: range.end,
+    unitId: unitId === "all" ? null : unitId,
+  });
+
+  const summary = [
+    { label: "NPS", value: formatNps(overall.nps), icon: Star, color: "text-gold", bg: "bg-gold/10" },
+    { label: "Respostas", value: `${overall.answered}/${overall.sent} (${responseRate(overall)})`, icon: Send, color: "text-primary", bg: "bg-primary/10" },
+    { label: "Promotores (9-10)", value: String(overall.promoters), icon: Smile, color: "text-success", bg: "bg-success/10" },
+    { label: "Detratores (0-6)", value: String(overall.detractors), icon: Frown, color: "text-destructive", bg: "bg-destructive/10" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <Star className="h-5 w-5 text-gold" />
+            Satisfação dos Clientes
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            NPS = % de promotores − % de detratores, a partir das respostas à pesquisa pós-atendimento
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <DateRangePicker dateRange={range} onDateRangeChange={setRange} />
+          <Select value={unitId} onValueChange={setUnitId}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as unidades</SelectItem>
+              {units.map((unit) => (
+                <SelectItem key={unit.id} value={unit.id}>
+                  {unit.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label} className="bg-card border-border">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className={`flex h-10 w-10 items-center justify-center rounded-lg ${item.bg}`}>
+                  <item.icon className={`h-5 w-5 ${item.color}`} />
+                </div>
+                <div>
+                  {isLoading ? (
+                    <Skeleton className="h-7 w-16" />
+                  ) : (
+                    <p className="text-2xl font-bold text-foreground">{item.value}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {units.length > 1 && (
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Building2 className="h-4 w-4 text-primary" />
+              Por unidade
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? <Skeleton className="h-32 w-full" /> : <NpsTable rows={byUnit} label="Unidade" />}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Scissors className="h-4 w-4 text-primary" />
+            Por profissional
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? <Skeleton className="h-32 w-full" /> : <NpsTable rows={byBarber} label="Profissional" />}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <MessageSquare className="h-4 w-4 text-primary" />
+            Comentários recentes
+          </CardTitle>
+          <CardDescription>O que os clientes escreveram junto com a nota</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : comments.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Nenhum comentário no período</p>
+          ) : (
+            <div className="space-y-3">
+              {comments.slice(0, 20).map((survey) => (
+                <div key={survey.id} className="rounded-lg border p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={CATEGORY_STYLES[getNpsCategory(survey.score!)]}>
+                      Nota {survey.score}
+                    </Badge>
+                    <span className="text-sm font-medium">{survey.client_name}</span>
+                    {survey.barber && (
+                      <span className="text-xs text-muted-foreground">com {survey.barber.name}</span>
+                    )}
+                    {survey.follow_up_sent_at && (
+                      <Badge variant="secondary" className="text-xs">
+                        Follow-up enviado
+                      </Badge>
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {format(new Date(survey.answered_at || survey.sent_at), "dd/MM/yyyy HH:mm")}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm text-muted-foreground">{survey.comment}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Plus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { useUnits } from "@/hooks/useUnits";
+import { useBarbers } from "@/hooks/useBarbers";
+import { useServices } from "@/hooks/useServices";
+import { useClients } from "@/hooks/useClients";
+import {
+  useSegmentClients,
+  type ClientSegment,
+  type ClientSegmentFormData,
+  type SegmentRules,
+} from "@/hooks/useClientSegments";
+
+const PREDEFINED_TAGS = ["VIP", "Novo", "Frequente", "Sumido"];
+
+type NumericRule =
+  | "min_visits"
+  | "max_visits"
+  | "visited_within_days"
+  | "not_visited_days"
+  | "min_spent"
+  | "max_spent"
+  | "min_loyalty_cuts"
+  | "min_courtesies";
+
+interface SegmentBuilderModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segment?: ClientSegment | null;
+  onSubmit: (data: ClientSegmentFormData) => Promise<unknown>;
+  isLoading?: boolean;
+}
+
+export function SegmentBuilderModal({ open, onOpenChange, segment, onSubmit, isLoading }: SegmentBuilderModalProps) {
+  const { currentUnitId } = useCurrentUnit();
+  const { units } = useUnits();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [unitId, setUnitId] = useState<string | null>(null);
+  const [rules, setRules] = useState<SegmentRules>({});
+  const [newTag, setNewTag] = useState("");
+
+  const { barbers } = useBarbers(unitId);
+  const { services } = useServices(unitId || currentUnitId);
+  const { clients } = useClients({ filter: "all", unitIdFilter: unitId });
+  const { count, isFetching } = useSegmentClients(open ? rules : null, unitId);
+
+  useEffect(() => {
+    if (open) {
+      setName(segment?.name || "");
+      setDescription(segment?.description || "");
+      setUnitId(segment?.unit_id ?? null);
+      setRules(segment?.rules || {});
+      setNewTag("");
+    }
+  }, [open, segment]);
+
+  const knownTags = useMemo(() => {
+    const all = new Set(PREDEFINED_TAGS);
+    clients.forEach((client) => client.tags?.forEach((tag) => all.add(tag)));
+    (rules.tags || []).forEach((tag) => all.add(tag));
+    return Array.from(all);
+  }, [clients, rules.tags]);
+
+  const setRule = <K extends keyof SegmentRules>(key: K, value: SegmentRules[K] | undefined) => {
+    setRules((prev) => {
+      const next = { ...prev };
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  const numberInput = (key: NumericRule, placeholder: string, step = "1") => (
+    <Input
+      type="number"
+      min={0}
+      step={step}
+      placeholder={placeholder}
+      value={rules[key] ?? ""}
+      onChange={(e) => setRule(key, e.target.value === "" ? undefined : Number(e.target.value))}
+    />
+  );
+
+  const toggleTag = (tag: string) => {
+    const current = rules.tags || [];
+    setRule("tags", current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]);
+  };
+
+  const addCustomTag = () => {
+    const tag = newTag.trim();
+    if (tag && !(rules.tags || []).includes(tag)) {
+      setRule("tags", [...(rules.tags || []), tag]);
+    }
+    setNewTag("");
+  };
+
+  const toggleService = (serviceId: string) => {
+    const current = rules.service_ids || [];
+    setRule("service_ids", current.includes(serviceId) ? current.filter((id) => id !== serviceId) : [...current, serviceId]);
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+    await onSubmit({ name: name.trim(), description: description.trim() || undefined, unit_id: unitId, rules });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[620px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? "Editar Segmento" : "Novo Segmento"}</DialogTitle>
+          <DialogDescription>
+            Os clientes precisam atender a todas as condições preenchidas
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Nome *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: VIPs sumidos" maxLength={80} />
+            </div>
+            <div className="space-y-2">
+              <Label>Unidade</Label>
+              <Select value={unitId || "all"} onValueChange={(v) => setUnitId(v === "all" ? null : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as Unidades</SelectItem>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Descrição</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} maxLength={200} />
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2 rounded-lg border border-border p-3">
+            <div className="flex items-center justify-between">
+              <Label>Tags</Label>
+              {(rules.tags || []).length > 1 && (
+                <Select value={rules.tags_mode || "any"} onValueChange={(v) => setRule("tags_mode", v as "any" | "all")}>
+                  <SelectTrigger className="h-8 w-[190px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Qualquer uma das tags</SelectItem>
+                    <SelectItem value="all">Todas as tags</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {knownTags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={(rules.tags || []).includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer transition-colors"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Outra tag..."
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && (e.preventDefault(), addCustomTag())}
+                className="h-8"
+              />
+              <Button type="button" variant="outline" size="icon" className="h-8 w-8" onClick={addCustomTag}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Frequency */}
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <Label>Frequência</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Visitas (mín.)</span>
+                {numberInput("min_visits", "Ex: 5")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Visitas (máx.)</span>
+                {numberInput("max_visits", "Ex: 1")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Visitou nos últimos (dias)</span>
+                {numberInput("visited_within_days", "Ex: 30")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Sem visitar há (dias)</span>
+                {numberInput("not_visited_days", "Ex: 45")}
+              </div>
+            </div>
+          </div>
+
+          {/* Value and fidelity */}
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <Label>Valor e Fidelidade</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Total gasto mín. (R$)</span>
+                {numberInput("min_spent", "Ex: 500", "0.01")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Total gasto máx. (R$)</span>
+                {numberInput("max_spent", "Ex: 100", "0.01")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Cortes no cartão fidelidade (mín.)</span>
+                {numberInput("min_loyalty_cuts", "Ex: 8")}
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Cortesias disponíveis (mín.)</span>
+                {numberInput("min_courtesies", "Ex: 1")}
+              </div>
+            </div>
+          </div>
+
+          {/* Preferences */}
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <Label>Preferências</Label>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Profissional preferido</span>
+              <Select
+                value={rules.preferred_barber_id || "any"}
+                onValueChange={(v) => setRule("preferred_barber_id", v === "any" ? undefined : v)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Qualquer profissional</SelectItem>
+                  {barbers.map((barber) => (
+                    <SelectItem key={barber.id} value={barber.id}>
+                      {barber.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {services.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Já fez algum destes serviços</span>
+                <div className="grid grid-cols-2 gap-2 max-h-[140px] overflow-y-auto">
+                  {services.map((service) => (
+                    <label key={service.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={(rules.service_ids || []).includes(service.id)}
+                        onCheckedChange={() => toggleService(service.id)}
+                      />
+                      {service.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Agenda */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Agendamento futuro</Label>
+              <Select
+                value={rules.has_upcoming_appointment === undefined ? "any" : String(rules.has_upcoming_appointment)}
+                onValueChange={(v) => setRule("has_upcoming_appointment", v === "any" ? undefined : v === "true")}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Indiferente</SelectItem>
+                  <SelectItem value="true">Com horário marcado</SelectItem>
+                  <SelectItem value="false">Sem horário marcado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border border-border px-3">
+              <Label htmlFor="segment-birthday">Aniversariantes do mês</Label>
+              <Switch
+                id="segment-birthday"
+                checked={!!rules.birthday_month}
+                onCheckedChange={(checked) => setRule("birthday_month", checked || undefined)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Users className="h-4 w-4 text-primary" />
+            {isFetching ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <span className="font-medium">{count} cliente(s)</span>
+            )}
+            <span className="text-xs text-muted-foreground">• bloqueados (SAIR) nunca entram</span>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={!name.trim() || isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar Segmento
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
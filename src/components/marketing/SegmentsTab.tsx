@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Building2, Filter, Loader2, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useUnits } from "@/hooks/useUnits";
+import { useBarbers } from "@/hooks/useBarbers";
+import { useClientSegments, useSegmentClients, type ClientSegment, type SegmentRules } from "@/hooks/useClientSegments";
+import { SegmentBuilderModal } from "./SegmentBuilderModal";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
+function describeRules(rules: SegmentRules, barberName: (id: string) => string | undefined): string[] {
+  const parts: string[] = [];
+  if (rules.tags?.length) {
+    parts.push(`Tags: ${rules.tags.join(rules.tags_mode === "all" ? " e " : " ou ")}`);
+  }
+  if (rules.min_visits !== undefined) parts.push(`${rules.min_visits}+ visitas`);
+  if (rules.max_visits !== undefined) parts.push(`Até ${rules.max_visits} visitas`);
+  if (rules.visited_within_days !== undefined) parts.push(`Visitou nos últimos ${rules.visited_within_days} dias`);
+  if (rules.not_visited_days !== undefined) parts.push(`Sem visitar há ${rules.not_visited_days}+ dias`);
+  if (rules.min_spent !== undefined) parts.push(`Gastou ${formatCurrency(rules.min_spent)}+`);
+  if (rules.max_spent !== undefined) parts.push(`Gastou até ${formatCurrency(rules.max_spent)}`);
+  if (rules.preferred_barber_id) parts.push(`Prefere ${barberName(rules.preferred_barber_id) || "profissional"}`);
+  if (rules.service_ids?.length) parts.push(`${rules.service_ids.length} serviço(s) específico(s)`);
+  if (rules.min_loyalty_cuts !== undefined) parts.push(`${rules.min_loyalty_cuts}+ cortes no fidelidade`);
+  if (rules.min_courtesies !== undefined) parts.push(`${rules.min_courtesies}+ cortesias disponíveis`);
+  if (rules.has_upcoming_appointment !== undefined) {
+    parts.push(rules.has_upcoming_appointment ? "Com horário marcado" : "Sem horário marcado");
+  }
+  if (rules.birthday_month) parts.push("Aniversariantes do mês");
+  return parts;
+}
+
+interface SegmentCardProps {
+  segment: ClientSegment;
+  unitName?: string;
+  barberName: (id: string) => string | undefined;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function SegmentCard({ segment, unitName, barberName, onEdit, onDelete }: SegmentCardProps) {
+  const { count, isLoading } = useSegmentClients(segment.rules, segment.unit_id);
+  const conditions = describeRules(segment.rules, barberName);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-base truncate">{segment.name}</CardTitle>
+            {segment.description && <CardDescription>{segment.description}</CardDescription>}
+          </div>
+          <div className="flex shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDelete}>
+              <Trash2 className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-1.5">
+          {conditions.length === 0 ? (
+            <Badge variant="outline">Todos os clientes</Badge>
+          ) : (
+            conditions.map((condition) => (
+              <Badge key={condition} variant="secondary" className="font-normal">
+                {condition}
+              </Badge>
+            ))
+          )}
+        </div>
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Building2 className="h-3.5 w-3.5" />
+            {unitName || "Todas as unidades"}
+          </span>
+          <span className="flex items-center gap-1 font-medium text-foreground">
+            <Users className="h-3.5 w-3.5" />
+            {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : `${count} cliente(s)`}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SegmentsTab() {
+  const { units } = useUnits();
+  const { barbers } = useBarbers(null);
+  const { segments, isLoading, createSegment, updateSegment, deleteSegment } = useClientSegments();
+  const [editing, setEditing] = useState<ClientSegment | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const barberName = (id: string) => barbers.find((b) => b.id === id)?.name;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Segmentos de Clientes</h3>
+          <p className="text-sm text-muted-foreground">
+            Públicos salvos para usar em campanhas e automações. Clientes bloqueados (SAIR) nunca entram.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditing(null);
+            setIsFormOpen(true);
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Novo Segmento
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="py-12 text-center text-muted-foreground">
+          <Filter className="mx-auto h-12 w-12 opacity-30" />
+          <p className="mt-2">Nenhum segmento criado</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {segments.map((segment) => (
+            <SegmentCard
+              key={segment.id}
+              segment={segment}
+              unitName={units.find((u) => u.id === segment.unit_id)?.name}
+              barberName={barberName}
+              onEdit={() => {
+                setEditing(segment);
+                setIsFormOpen(true);
+              }}
+              onDelete={() => setDeletingId(segment.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <SegmentBuilderModal
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        segment={editing}
+        onSubmit={(data) =>
+          editing ? updateSegment.mutateAsync({ id: editing.id, ...data }) : createSegment.mutateAsync(data)
+        }
+        isLoading={createSegment.isPending || updateSegment.isPending}
+      />
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir segmento?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Automações que usam este segmento voltarão a considerar todos os clientes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingId) deleteSegment.mutate(deletingId);
+                setDeletingId(null);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
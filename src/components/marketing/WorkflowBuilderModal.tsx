@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUnits } from "@/hooks/useUnits";
+import { useClientSegments } from "@/hooks/useClientSegments";
+import {
+  WORKFLOW_TRIGGER_LABELS,
+  type AutomationWorkflow,
+  type AutomationWorkflowFormData,
+  type WorkflowStep,
+  type WorkflowTriggerConfig,
+  type WorkflowTriggerType,
+} from "@/hooks/useAutomationWorkflows";
+
+const MAX_STEPS = 5;
+
+const newStep = (delayHours: number): WorkflowStep => ({
+  delay_hours: delayHours,
+  message_template: "",
+  conditions: { stop_if_booked: true },
+});
+
+// Delays are stored in hours but edited in hours or days
+type DelayUnit = "hours" | "days";
+
+const toDelayInput = (hours: number): { value: number; unit: DelayUnit } =>
+  hours > 0 && hours % 24 === 0 ? { value: hours / 24, unit: "days" } : { value: hours, unit: "hours" };
+
+interface WorkflowBuilderModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflow?: AutomationWorkflow | null;
+  onSubmit: (data: AutomationWorkflowFormData) => Promise<unknown>;
+  isLoading?: boolean;
+}
+
+export function WorkflowBuilderModal({ open, onOpenChange, workflow, onSubmit, isLoading }: WorkflowBuilderModalProps) {
+  const { units } = useUnits();
+  const { segments } = useClientSegments();
+  const [name, setName] = useState("");
+  const [unitId, setUnitId] = useState<string | null>(null);
+  const [triggerType, setTriggerType] = useState<WorkflowTriggerType>("first_visit");
+  const [triggerConfig, setTriggerConfig] = useState<WorkflowTriggerConfig>({});
+  const [segmentId, setSegmentId] = useState<string | null>(null);
+  const [steps, setSteps] = useState<WorkflowStep[]>([newStep(2)]);
+  const [delayUnits, setDelayUnits] = useState<DelayUnit[]>(["hours"]);
+
+  useEffect(() => {
+    if (open) {
+      const initialSteps = workflow?.steps?.length ? workflow.steps : [newStep(2)];
+      setName(workflow?.name || "");
+      setUnitId(workflow?.unit_id ?? null);
+      setTriggerType(workflow?.trigger_type || "first_visit");
+      setTriggerConfig(workflow?.trigger_config || {});
+      setSegmentId(workflow?.segment_id ?? null);
+      setSteps(initialSteps);
+      setDelayUnits(initialSteps.map((step) => toDelayInput(step.delay_hours).unit));
+    }
+  }, [open, workflow]);
+
+  const updateStep = (index: number, changes: Partial<WorkflowStep>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const updateConditions = (index: number, changes: WorkflowStep["conditions"]) => {
+    setSteps((prev) =>
+      prev.map((step, i) => (i === index ? { ...step, conditions: { ...step.conditions, ...changes } } : step))
+    );
+  };
+
+  const addStep = () => {
+    setSteps((prev) => [...prev, newStep(72)]);
+    setDelayUnits((prev) => [...prev, "days"]);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps((prev) => prev.filter((_, i) => i !== index));
+    setDelayUnits((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const setDelay = (index: number, value: number, unit: DelayUnit) => {
+    setDelayUnits((prev) => prev.map((u, i) => (i === index ? unit : u)));
+    updateStep(index, { delay_hours: Math.max(0, Math.round(unit === "days" ? value * 24 : value)) });
+  };
+
+  const isValid = name.trim() !== "" && steps.length > 0 && steps.every((step) => step.message_template.trim() !== "");
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    // Only the config keys that belong to the chosen trigger are kept
+    const config: WorkflowTriggerConfig =
+      triggerType === "nth_visit"
+        ? { visit_count: Math.max(2, triggerConfig.visit_count ?? 2) }
+        : triggerType === "return_due"
+          ? { days_before: Math.max(0, triggerConfig.days_before ?? 0) }
+          : {};
+
+    await onSubmit({
+      name: name.trim(),
+      unit_id: unitId,
+      trigger_type: triggerType,
+      trigger_config: config,
+      segment_id: segmentId,
+      steps: steps.map((step) => ({ ...step, message_template: step.message_template.trim() })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{workflow ? "Editar Automação" : "Nova Automação"}</DialogTitle>
+          <DialogDescription>
+            Quando o gatilho acontece, o cliente recebe as mensagens abaixo em sequência
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Nome *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Boas-vindas" maxLength={80} />
+            </div>
+            <div className="space-y-2">
+              <Label>Unidade</Label>
+              <Select value={unitId || "all"} onValueChange={(v) => setUnitId(v === "all" ? null : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as unidades</SelectItem>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Gatilho */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Gatilho</Label>
+              <Select value={triggerType} onValueChange={(v) => setTriggerType(v as WorkflowTriggerType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WORKFLOW_TRIGGER_LABELS) as WorkflowTriggerType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {WORKFLOW_TRIGGER_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {triggerType === "nth_visit" && (
+              <div className="space-y-2">
+                <Label>Número da visita</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  value={triggerConfig.visit_count ?? 2}
+                  onChange={(e) => setTriggerConfig({ visit_count: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            {triggerType === "return_due" && (
+              <div className="space-y-2">
+                <Label>Dias antes do retorno</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={triggerConfig.days_before ?? 0}
+                  onChange={(e) => setTriggerConfig({ days_before: Number(e.target.value) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Retorno habitual = última visita + intervalo médio entre visitas (mín. 2 visitas, sem horário marcado)
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Enviar para</Label>
+            <Select value={segmentId || "all"} onValueChange={(v) => setSegmentId(v === "all" ? null : v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os clientes</SelectItem>
+                {segments.map((segment) => (
+                  <SelectItem key={segment.id} value={segment.id}>
+                    Segmento: {segment.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Passos */}
+          <div className="space-y-3">
+            <Label>Mensagens</Label>
+            {steps.map((step, index) => {
+              const delay = toDelayInput(step.delay_hours);
+              const unit = delayUnits[index] ?? delay.unit;
+              const value = unit === "days" ? step.delay_hours / 24 : step.delay_hours;
+
+              return (
+                <div key={index}>
+                  {index > 0 && <ArrowDown className="mx-auto mb-3 h-4 w-4 text-muted-foreground" />}
+                  <div className="space-y-3 rounded-lg border border-border p-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">Passo {index + 1}:</span>
+                      <span className="text-sm text-muted-foreground">enviar</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={value}
+                        onChange={(e) => setDelay(index, Number(e.target.value), unit)}
+                        className="h-8 w-20"
+                      />
+                      <Select value={unit} onValueChange={(v) => setDelay(index, value, v as DelayUnit)}>
+                        <SelectTrigger className="h-8 w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="hours">horas</SelectItem>
+                          <SelectItem value="days">dias</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <span className="text-sm text-muted-foreground">
+                        {index === 0 ? "após o gatilho" : "após o passo anterior"}
+                      </span>
+                      {steps.length > 1 && (
+                        <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={() => removeStep(index)}>
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      )}
+                    </div>
+
+                    <Textarea
+                      placeholder="Digite a mensagem..."
+                      value={step.message_template}
+                      onChange={(e) => updateStep(index, { message_template: e.target.value })}
+                      className="min-h-[100px]"
+                    />
+
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="flex items-center justify-between gap-2 rounded-lg border border-border px-3 py-2">
+                        <Label htmlFor={`step-${index}-booked`} className="text-xs font-normal">
+                          Encerrar se o cliente já agendou
+                        </Label>
+                        <Switch
+                          id={`step-${index}-booked`}
+                          checked={!!step.conditions?.stop_if_booked}
+                          onCheckedChange={(checked) => updateConditions(index, { stop_if_booked: checked || undefined })}
+                        />
+                      </div>
+                      <div className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+                        <span className="text-xs">Pular se visitou nos últimos</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="-"
+                          value={step.conditions?.skip_if_visited_within_days ?? ""}
+                          onChange={(e) =>
+                            updateConditions(index, {
+                              skip_if_visited_within_days: e.target.value === "" ? undefined : Number(e.target.value),
+                            })
+                          }
+                          className="h-7 w-16"
+                        />
+                        <span className="text-xs">dias</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {steps.length < MAX_STEPS && (
+              <Button type="button" variant="outline" size="sm" onClick={addStep}>
+                <Plus className="mr-2 h-4 w-4" />
+                Adicionar passo
+              </Button>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Use: <code className="rounded bg-muted px-1">{"{{nome}}"}</code>,
+              <code className="ml-1 rounded bg-muted px-1">{"{{unidade}}"}</code>,
+              <code className="ml-1 rounded bg-muted px-1">{"{{visitas}}"}</code>,
+              <code className="ml-1 rounded bg-muted px-1">{"{{cortesias}}"}</code>
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <span className="text-xs text-muted-foreground self-center">
+            Envios entre 8h e 21h • bloqueados (SAIR) nunca recebem
+          </span>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={!isValid || isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar Automação
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Building2, Filter, Pencil, Plus, Trash2, Workflow } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useUnits } from "@/hooks/useUnits";
+import { useClientSegments } from "@/hooks/useClientSegments";
+import { describeTrigger, useAutomationWorkflows, type AutomationWorkflow } from "@/hooks/useAutomationWorkflows";
+import { WorkflowBuilderModal } from "./WorkflowBuilderModal";
+
+const formatDelay = (hours: number) =>
+  hours === 0 ? "imediato" : hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+
+export function WorkflowsSection() {
+  const { units } = useUnits();
+  const { segments } = useClientSegments();
+  const { workflows, runStats, isLoading, createWorkflow, updateWorkflow, toggleWorkflow, deleteWorkflow } =
+    useAutomationWorkflows();
+  const [editing, setEditing] = useState<AutomationWorkflow | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-purple-500/10">
+              <Workflow className="h-5 w-5 text-purple-500" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Automações Personalizadas</CardTitle>
+              <CardDescription>
+                Sequências de mensagens disparadas por visitas, faltas, fidelidade ou retorno do cliente
+              </CardDescription>
+            </div>
+          </div>
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setIsFormOpen(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Automação
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : workflows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma automação personalizada criada</p>
+        ) : (
+          workflows.map((workflow) => {
+            const stats = runStats[workflow.id];
+            const segmentName = segments.find((s) => s.id === workflow.segment_id)?.name;
+            const unitName = units.find((u) => u.id === workflow.unit_id)?.name;
+
+            return (
+              <div key={workflow.id} className="rounded-lg border border-border p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-2">
+                    <p className="font-medium truncate">{workflow.name}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      <Badge variant="secondary" className="font-normal">
+                        {describeTrigger(workflow.trigger_type, workflow.trigger_config)}
+                      </Badge>
+                      <Badge variant="outline" className="font-normal">
+                        {workflow.steps.length} mensage{workflow.steps.length === 1 ? "m" : "ns"} (
+                        {workflow.steps.map((step) => formatDelay(step.delay_hours)).join(" → ")})
+                      </Badge>
+                      {segmentName && (
+                        <Badge variant="outline" className="font-normal">
+                          <Filter className="mr-1 h-3 w-3" />
+                          {segmentName}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="font-normal">
+                        <Building2 className="mr-1 h-3 w-3" />
+                        {unitName || "Todas as unidades"}
+                      </Badge>
+                    </div>
+                    {stats && (
+                      <p className="text-xs text-muted-foreground">
+                        {stats.active} em andamento • {stats.completed} concluído(s) • {stats.exited} saíram
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Switch
+                      checked={workflow.is_active}
+                      onCheckedChange={(checked) => toggleWorkflow.mutate({ id: workflow.id, is_active: checked })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setEditing(workflow);
+                        setIsFormOpen(true);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDeletingId(workflow.id)}>
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <WorkflowBuilderModal
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        workflow={editing}
+        onSubmit={(data) =>
+          editing ? updateWorkflow.mutateAsync({ id: editing.id, ...data }) : createWorkflow.mutateAsync(data)
+        }
+        isLoading={createWorkflow.isPending || updateWorkflow.isPending}
+      />
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir automação?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Clientes que estão no meio da sequência não receberão as próximas mensagens.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingId) deleteWorkflow.mutate(deletingId);
+                setDeletingId(null);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
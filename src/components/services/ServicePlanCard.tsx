@@ -0,0 +1,109 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Pencil, Trash2, Ticket, CalendarClock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { PLAN_TYPE_LABELS, type ServicePlan } from "@/hooks/useServicePlans";
+import type { Service } from "@/hooks/useServices";
+
+interface ServicePlanCardProps {
+  plan: ServicePlan;
+  services: Service[];
+  onEdit: (plan: ServicePlan) => void;
+  onDelete: (id: string) => void;
+}
+
+export function ServicePlanCard({ plan, services, onEdit, onDelete }: ServicePlanCardProps) {
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(price);
+  };
+
+  const serviceNames = plan.services
+    .map((s) => services.find((service) => service.id === s.service_id)?.name)
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <Card className="bg-card border-border hover:border-primary/50 transition-colors">
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-2 flex-wrap">
+              <h3 className="font-semibold text-foreground">{plan.name}</h3>
+              <Badge variant="outline">{PLAN_TYPE_LABELS[plan.plan_type]}</Badge>
+              <Badge
+                variant={plan.is_active ? "default" : "secondary"}
+                className={plan.is_active ? "bg-success text-success-foreground" : ""}
+              >
+                {plan.is_active ? "Ativo" : "Inativo"}
+              </Badge>
+            </div>
+
+            <div className="flex items-center gap-4 flex-wrap">
+              <span className="text-xl font-bold text-primary">{formatPrice(plan.price)}</span>
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Ticket className="h-4 w-4" />
+                <span>{plan.credits} crédito{plan.credits > 1 ? "s" : ""}</span>
+              </div>
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <CalendarClock className="h-4 w-4" />
+                <span>
+                  {plan.plan_type === "subscription" ? `a cada ${plan.period_days} dias` : `válido por ${plan.period_days} dias`}
+                </span>
+              </div>
+            </div>
+
+            {serviceNames && (
+              <p className="text-xs text-muted-foreground mt-2 truncate" title={serviceNames}>
+                Inclui: {serviceNames}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-1">
+            <Button size="icon" variant="ghost" onClick={() => onEdit(plan)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="icon" variant="ghost" className="text-destructive hover:text-destructive">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="bg-card border-border">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remover plano?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Planos já vendidos não podem ser removidos, apenas desativados.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => onDelete(plan.id)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Remover
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
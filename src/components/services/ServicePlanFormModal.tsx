@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Service } from "@/hooks/useServices";
+import type { ServicePlan, ServicePlanFormData, ServicePlanType } from "@/hooks/useServicePlans";
+
+interface ServicePlanFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan?: ServicePlan | null;
+  services: Service[];
+  onSubmit: (data: ServicePlanFormData) => void;
+  isLoading?: boolean;
+}
+
+export function ServicePlanFormModal({ open, onOpenChange, plan, services, onSubmit, isLoading }: ServicePlanFormModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [planType, setPlanType] = useState<ServicePlanType>("package");
+  const [price, setPrice] = useState(0);
+  const [credits, setCredits] = useState(4);
+  const [periodDays, setPeriodDays] = useState(30);
+  const [isActive, setIsActive] = useState(true);
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setName(plan?.name || "");
+      setDescription(plan?.description || "");
+      setPlanType(plan?.plan_type || "package");
+      setPrice(plan?.price ?? 0);
+      setCredits(plan?.credits ?? 4);
+      setPeriodDays(plan?.period_days ?? 30);
+      setIsActive(plan?.is_active ?? true);
+      setServiceIds(plan?.services.map((s) => s.service_id) || []);
+    }
+  }, [open, plan]);
+
+  const toggleService = (serviceId: string) => {
+    setServiceIds((prev) =>
+      prev.includes(serviceId) ? prev.filter((id) => id !== serviceId) : [...prev, serviceId]
+    );
+  };
+
+  const isValid = name.trim().length >= 2 && credits > 0 && periodDays > 0 && price >= 0 && serviceIds.length > 0;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || null,
+      plan_type: planType,
+      price,
+      credits,
+      period_days: periodDays,
+      is_active: isActive,
+      service_ids: serviceIds,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{plan ? "Editar Plano" : "Novo Plano"}</DialogTitle>
+          <DialogDescription>
+            Créditos são descontados automaticamente ao finalizar atendimentos com os serviços incluídos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Clube 4 cortes" />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={planType} onValueChange={(v) => setPlanType(v as ServicePlanType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="package">Pacote pré-pago</SelectItem>
+                  <SelectItem value="subscription">Assinatura mensal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Preço (R$)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Créditos</Label>
+              <Input
+                type="number"
+                min={1}
+                value={credits}
+                onChange={(e) => setCredits(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{planType === "subscription" ? "Ciclo (dias)" : "Validade (dias)"}</Label>
+              <Input
+                type="number"
+                min={1}
+                value={periodDays}
+                onChange={(e) => setPeriodDays(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Serviços incluídos</Label>
+            <div className="grid grid-cols-2 gap-2 rounded-lg border border-border p-3 max-h-[180px] overflow-y-auto">
+              {services.filter((s) => s.is_active || serviceIds.includes(s.id)).map((service) => (
+                <label key={service.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={serviceIds.includes(service.id)}
+                    onCheckedChange={() => toggleService(service.id)}
+                  />
+                  {service.name}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Cada serviço incluído no atendimento consome 1 crédito.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Descrição</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border border-border p-3">
+            <Label>Disponível para venda</Label>
+            <Switch checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={!isValid || isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {plan ? "Salvar" : "Criar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Loader2, Plus, Ticket } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useServicePlans, type ServicePlan, type ServicePlanFormData } from "@/hooks/useServicePlans";
+import type { Service } from "@/hooks/useServices";
+import { ServicePlanCard } from "./ServicePlanCard";
+import { ServicePlanFormModal } from "./ServicePlanFormModal";
+
+interface ServicePlansTabProps {
+  unitId: string | null;
+  services: Service[];
+}
+
+export function ServicePlansTab({ unitId, services }: ServicePlansTabProps) {
+  const { plans, isLoading, createPlan, updatePlan, deletePlan } = useServicePlans(unitId);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<ServicePlan | null>(null);
+
+  const handleOpenModal = (plan?: ServicePlan) => {
+    setEditingPlan(plan || null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPlan(null);
+  };
+
+  const handleSubmit = (data: ServicePlanFormData) => {
+    if (editingPlan) {
+      updatePlan.mutate({ id: editingPlan.id, ...data }, { onSuccess: handleCloseModal });
+    } else {
+      createPlan.mutate(data, { onSuccess: handleCloseModal });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Venda pacotes pré-pagos e assinaturas na ficha do cliente. Atendimentos cobertos são finalizados com a forma de pagamento "Pacote".
+        </p>
+        <Button onClick={() => handleOpenModal()} className="gap-2 shrink-0">
+          <Plus className="h-4 w-4" />
+          Novo Plano
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : plans.length === 0 ? (
+        <div className="text-center py-12">
+          <Ticket className="mx-auto h-12 w-12 text-muted-foreground/50" />
+          <h3 className="mt-4 text-lg font-medium text-foreground">Nenhum plano cadastrado</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Crie pacotes como "4 cortes por mês" para fidelizar seus clientes
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {plans.map((plan) => (
+            <ServicePlanCard
+              key={plan.id}
+              plan={plan}
+              services={services}
+              onEdit={handleOpenModal}
+              onDelete={(id) => deletePlan.mutate(id)}
+            />
+          ))}
+        </div>
+      )}
+
+      <ServicePlanFormModal
+        open={isModalOpen}
+        onOpenChange={(open) => (open ? setIsModalOpen(true) : handleCloseModal())}
+        plan={editingPlan}
+        services={services}
+        onSubmit={handleSubmit}
+        isLoading={createPlan.isPending || updatePlan.isPending}
+      />
+    </div>
+  );
+}
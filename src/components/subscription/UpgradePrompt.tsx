@@ -0,0 +1,42 @@
+import { useNavigate } from "react-router-dom";
+import { Crown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUserRole } from "@/hooks/useUserRole";
+import { usePlanEntitlements } from "@/hooks/usePlanEntitlements";
+
+interface UpgradePromptProps {
+  title: string;
+  description: string;
+  className?: string;
+}
+
+export function UpgradePrompt({ title, description, className = "" }: UpgradePromptProps) {
+  const navigate = useNavigate();
+  const { isOwner } = useUserRole();
+  const { planLabel } = usePlanEntitlements();
+
+  return (
+    <div className={`flex flex-col items-center gap-3 rounded-lg border border-primary/30 bg-primary/5 p-6 text-center ${className}`}>
+      <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+        <Crown className="h-6 w-6 text-primary" />
+      </div>
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold text-foreground">{title}</h3>
+        <p className="text-sm text-muted-foreground">{description}</p>
+        {planLabel && (
+          <p className="text-xs text-muted-foreground">
+            Plano atual: <span className="font-medium text-foreground">{planLabel}</span>
+          </p>
+        )}
+      </div>
+      {isOwner ? (
+        <Button onClick={() => navigate("/assinatura")} className="gap-2">
+          <Crown className="h-4 w-4" />
+          Ver planos
+        </Button>
+      ) : (
+        <p className="text-xs text-muted-foreground">Peça ao proprietário para fazer o upgrade do plano.</p>
+      )}
+    </div>
+  );
+}
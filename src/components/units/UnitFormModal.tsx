@@ -26,7 +26,10 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Unit } from "@/hooks/useUnits";
+import { Unit, useUnits } from "@/hooks/useUnits";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { usePlanEntitlements } from "@/hooks/usePlanEntitlements";
+import { UpgradePrompt } from "@/components/subscription/UpgradePrompt";
 import { Separator } from "@/components/ui/separator";
 import { MessageCircle, Globe } from "lucide-react";
 
@@ -68,6 +71,10 @@ interface UnitFormModalProps {
 }
 
 export function UnitFormModal({ open, onClose, onSubmit, unit, isLoading }: UnitFormModalProps) {
+  const { currentCompanyId } = useCurrentUnit();
+  const { units } = useUnits(currentCompanyId);
+  const { isWithinLimit, getLimit } = usePlanEntitlements();
+  const isAtUnitLimit = !unit && !isWithinLimit("max_units", units.length);
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -120,6 +127,12 @@ export function UnitFormModal({ open, onClose, onSubmit, unit, isLoading }: Unit
           <DialogTitle>{unit ? "Editar Unidade" : "Nova Unidade"}</DialogTitle>
         </DialogHeader>
 
+        {isAtUnitLimit ? (
+          <UpgradePrompt
+            title="Limite de unidades atingido"
+            description={`Seu plano permite até ${getLimit("max_units")} unidade(s). Faça upgrade para abrir novas filiais.`}
+          />
+        ) : (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
             <FormField
@@ -251,6 +264,7 @@ export function UnitFormModal({ open, onClose, onSubmit, unit, isLoading }: Unit
             </div>
           </form>
         </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Gift, Info } from "lucide-react";
+import { Gift, Info, CalendarCheck, Copy, ListPlus } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -12,6 +12,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
 import { Unit } from "@/hooks/useUnits";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -31,6 +32,12 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
   const [fidelityEnabled, setFidelityEnabled] = useState(false);
   const [cutsThreshold, setCutsThreshold] = useState(10);
   const [minValue, setMinValue] = useState(30);
+  const [onlineBookingEnabled, setOnlineBookingEnabled] = useState(false);
+  const [bookingSlug, setBookingSlug] = useState("");
+  const [waitlistEnabled, setWaitlistEnabled] = useState(true);
+  const [waitlistHoldMinutes, setWaitlistHoldMinutes] = useState(30);
+
+  const bookingUrl = `${window.location.origin}/agendar/${bookingSlug}`;
 
   useEffect(() => {
     if (unit) {
@@ -43,7 +50,7 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
     
     const { data, error } = await supabase
       .from("units")
-      .select("fidelity_program_enabled, fidelity_cuts_threshold, fidelity_min_value")
+      .select("fidelity_program_enabled, fidelity_cuts_threshold, fidelity_min_value, online_booking_enabled, booking_slug, waitlist_enabled, waitlist_hold_minutes")
       .eq("id", unit.id)
       .single();
 
@@ -55,10 +62,51 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
     setFidelityEnabled(data.fidelity_program_enabled ?? false);
     setCutsThreshold(data.fidelity_cuts_threshold ?? 10);
     setMinValue(data.fidelity_min_value ?? 30);
+    setOnlineBookingEnabled(data.online_booking_enabled ?? false);
+    setBookingSlug(data.booking_slug ?? "");
+    setWaitlistEnabled(data.waitlist_enabled ?? true);
+    setWaitlistHoldMinutes(data.waitlist_hold_minutes ?? 30);
+  };
+
+  const handleSlugChange = (value: string) => {
+    setBookingSlug(
+      value
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9-]+/g, "-")
+    );
+  };
+
+  const handleCopyBookingUrl = async () => {
+    await navigator.clipboard.writeText(bookingUrl);
+    toast({
+      title: "Link copiado!",
+      description: "Divulgue o link no Instagram, Google ou WhatsApp da barbearia.",
+    });
   };
 
   const handleSave = async () => {
     if (!unit) return;
+
+    const slug = bookingSlug.replace(/^-+|-+$/g, "");
+    if (onlineBookingEnabled && !slug) {
+      toast({
+        title: "Link inválido",
+        description: "Informe o endereço da página de agendamento.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (waitlistHoldMinutes < 5 || waitlistHoldMinutes > 1440) {
+      toast({
+        title: "Tempo de reserva inválido",
+        description: "A reserva da lista de espera deve ficar entre 5 e 1440 minutos.",
+        variant: "destructive",
+      });
+      return;
+    }
     
     setIsLoading(true);
     try {
@@ -68,10 +116,19 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
           fidelity_program_enabled: fidelityEnabled,
           fidelity_cuts_threshold: cutsThreshold,
           fidelity_min_value: minValue,
+          online_booking_enabled: onlineBookingEnabled,
+          booking_slug: slug || null,
+          waitlist_enabled: waitlistEnabled,
+          waitlist_hold_minutes: waitlistHoldMinutes,
         })
         .eq("id", unit.id);
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("Esse link de agendamento já está sendo usado por outra unidade");
+        }
+        throw error;
+      }
 
       toast({
         title: "Configurações salvas!",
@@ -93,7 +150,7 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Gift className="h-5 w-5 text-primary" />
@@ -167,6 +224,89 @@ export function UnitSettingsModal({ open, onClose, unit }: UnitSettingsModalProp
               </CardContent>
             </Card>
           </div>
+
+          <Separator />
+
+          {/* Online Booking Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <CalendarCheck className="h-4 w-4 text-primary" />
+                  Agendamento Online
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Página pública para clientes agendarem sozinhos
+                </p>
+              </div>
+              <Switch
+                checked={onlineBookingEnabled}
+                onCheckedChange={setOnlineBookingEnabled}
+              />
+            </div>
+
+            <div className={`space-y-2 ${!onlineBookingEnabled ? 'opacity-50' : ''}`}>
+              <Label>Endereço da página</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground whitespace-nowrap">/agendar/</span>
+                <Input
+                  value={bookingSlug}
+                  onChange={(e) => handleSlugChange(e.target.value)}
+                  placeholder="minha-barbearia"
+                  maxLength={60}
+                  disabled={!onlineBookingEnabled}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleCopyBookingUrl}
+                  disabled={!onlineBookingEnabled || !bookingSlug}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Os horários seguem o expediente, feriados, intervalos e agendamentos da unidade — os mesmos oferecidos pelo WhatsApp.
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Waitlist Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <ListPlus className="h-4 w-4 text-primary" />
+                  Lista de Espera
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Oferecer horários cancelados pelo WhatsApp
+                </p>
+              </div>
+              <Switch
+                checked={waitlistEnabled}
+                onCheckedChange={setWaitlistEnabled}
+              />
+            </div>
+
+            <div className={`space-y-2 ${!waitlistEnabled ? 'opacity-50' : ''}`}>
+              <Label>Tempo de reserva (minutos)</Label>
+              <Input
+                type="number"
+                min={5}
+                max={1440}
+                value={waitlistHoldMinutes}
+                onChange={(e) => setWaitlistHoldMinutes(parseInt(e.target.value) || 0)}
+                disabled={!waitlistEnabled}
+              />
+              <p className="text-xs text-muted-foreground">
+                O horário fica reservado para o cliente que recebeu a oferta. Sem resposta nesse prazo, vai para o próximo da lista.
+              </p>
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
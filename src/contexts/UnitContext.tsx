@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
 import { useUnits } from "@/hooks/useUnits";
 import { useCompany } from "@/hooks/useCompany";
+import { useUserRole } from "@/hooks/useUserRole";
 import { supabase } from "@/integrations/supabase/client";
 
 interface UnitContextType {
@@ -15,17 +16,28 @@ const UnitContext = createContext<UnitContextType | null>(null);
 export function UnitProvider({ children }: { children: ReactNode }) {
   const [currentUnitId, setCurrentUnitId] = useState<string | null>(null);
   const { company, isLoading: companyLoading, isFetched: companyFetched, isError: companyError, createCompany } = useCompany();
-  const { units, isLoading: unitsLoading, createUnit } = useUnits(company?.id || null);
+  const { staff, isLoading: roleLoading, isError: roleError } = useUserRole();
+  const companyId = company?.id || staff?.company_id || null;
+  const { units, isLoading: unitsLoading, createUnit } = useUnits(companyId);
   const companyCreatingRef = useRef(false);
   const unitCreatingRef = useRef(false);
 
-  const isLoading = companyLoading || unitsLoading;
+  const isLoading = companyLoading || roleLoading || unitsLoading;
 
   // Auto-create company and default unit if none exists
   useEffect(() => {
     const initCompanyAndUnit = async () => {
       // Wait for company query to complete
-      if (!companyFetched || companyLoading) return;
+      // Never auto-create a company while the role is unknown (it could be a staff member)
+      if (!companyFetched || companyLoading || roleLoading || roleError) return;
+
+      // Staff members work inside the owner's company; they only see their assigned units
+      if (staff) {
+        if (!unitsLoading && units.length > 0 && !currentUnitId) {
+          setCurrentUnitId(units[0].id);
+        }
+        return;
+      }
       
       // Don't create if there was an error fetching
       if (companyError) return;
@@ -61,7 +73,7 @@ export function UnitProvider({ children }: { children: ReactNode }) {
       }
     };
     initCompanyAndUnit();
-  }, [company, companyLoading, companyFetched, companyError, units, unitsLoading, currentUnitId]);
+  }, [company, companyLoading, companyFetched, companyError, staff, roleLoading, roleError, units, unitsLoading, currentUnitId]);
 
   // Update currentUnitId when units change and we have a new default unit
   useEffect(() => {
@@ -74,7 +86,7 @@ export function UnitProvider({ children }: { children: ReactNode }) {
     <UnitContext.Provider value={{ 
       currentUnitId, 
       setCurrentUnitId, 
-      currentCompanyId: company?.id || null,
+      currentCompanyId: companyId,
       isLoading 
     }}>
       {children}
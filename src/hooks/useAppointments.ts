@@ -1,9 +1,12 @@
 import { useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addWeeks, format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { toast } from "@/hooks/use-toast";
 import type { Database } from "@/integrations/supabase/types";
+import { TIME_OFF_REASON_LABELS, type TimeOffReason } from "@/hooks/useBarberSchedules";
+import { isSameClientPhone, offerSlotToWaitlist } from "@/hooks/useWaitlist";
 
 type AppointmentStatus = Database["public"]["Enums"]["appointment_status"];
 
@@ -23,6 +26,8 @@ export interface Appointment {
   notes: string | null;
   created_at: string;
   payment_method: string | null;
+  started_at?: string | null;
+  series_id?: string | null;
   barber?: {
     id: string;
     name: string;
@@ -34,6 +39,45 @@ export interface Appointment {
     duration_minutes: number;
     price: number;
   } | null;
+  services?: AppointmentServiceItem[];
+}
+
+// Snapshot of a service performed in an appointment (price/duration as booked)
+export interface AppointmentServiceItem {
+  id: string;
+  service_id: string | null;
+  service_name: string;
+  price: number;
+  duration_minutes: number;
+  position: number;
+}
+
+// "this" = only the selected occurrence, "following" = it and the later ones, "all" = the whole series
+export type RecurrenceScope = "this" | "following" | "all";
+
+export interface RecurrenceRule {
+  interval_weeks: number;
+  end_type: "count" | "until";
+  occurrences?: number;
+  until_date?: string;
+}
+
+export const MAX_RECURRENCE_OCCURRENCES = 52;
+
+// Start of every occurrence of a series, the first one included
+export function buildRecurrenceDates(start: Date, rule: RecurrenceRule): Date[] {
+  const until = rule.end_type === "until" && rule.until_date ? new Date(`${rule.until_date}T23:59:59`) : null;
+  const limit = rule.end_type === "count"
+    ? Math.min(Math.max(rule.occurrences || 1, 1), MAX_RECURRENCE_OCCURRENCES)
+    : MAX_RECURRENCE_OCCURRENCES;
+  const dates: Date[] = [];
+
+  let current = new Date(start);
+  while (dates.length < limit && (!until || current <= until)) {
+    dates.push(current);
+    current = addWeeks(current, rule.interval_weeks);
+  }
+  return dates;
 }
 
 export interface AppointmentFormData {
@@ -41,11 +85,13 @@ export interface AppointmentFormData {
   client_phone?: string;
   client_birth_date?: string;
   barber_id: string;
-  service_id: string;
+  service_ids: string[];
   start_time: Date;
   notes?: string;
   is_dependent?: boolean;
   dependent_id?: string | null;
+  recurrence?: RecurrenceRule | null;
+  series_scope?: RecurrenceScope;
 }
 
 export interface QuickServiceFormData {
@@ -53,8 +99,7 @@ export interface QuickServiceFormData {
   client_phone?: string;
   client_birth_date?: string;
   barber_id: string;
-  service_id: string;
-  total_price: number;
+  services: { service_id: string; price: number }[];
   notes?: string;
   schedule_later?: boolean;
   scheduled_date?: string;
@@ -62,6 +107,166 @@ export interface QuickServiceFormData {
   payment_method?: string;
 }
 
+export const APPOINTMENT_SELECT = `
+  *,
+  barber:barbers(id, name, calendar_color),
+  service:services(id, name, duration_minutes, price),
+  services:appointment_services(id, service_id, service_name, price, duration_minutes, position)
+`;
+
+// Services of an appointment in booking order; appointments without items fall back to the single service
+export function getAppointmentServices(appointment: Pick<Appointment, "service" | "services" | "total_price">): AppointmentServiceItem[] {
+  if (appointment.services && appointment.services.length > 0) {
+    return [...appointment.services].sort((a, b) => a.position - b.position);
+  }
+  if (appointment.service) {
+    return [{
+      id: appointment.service.id,
+      service_id: appointment.service.id,
+      service_name: appointment.service.name,
+      price: appointment.total_price,
+      duration_minutes: appointment.service.duration_minutes,
+      position: 0,
+    }];
+  }
+  return [];
+}
+
+export function getAppointmentServicesLabel(appointment: Pick<Appointment, "service" | "services" | "total_price">): string {
+  return getAppointmentServices(appointment).map((item) => item.service_name).join(" + ");
+}
+
+interface SelectedService {
+  id: string;
+  name: string;
+  duration_minutes: number;
+  price: number;
+}
+
+// Load the selected services keeping the order the user picked them
+async function fetchSelectedServices(serviceIds: string[]): Promise<SelectedService[]> {
+  if (serviceIds.length === 0) throw new Error("Selecione pelo menos um serviço");
+
+  const { data, error } = await supabase
+    .from("services")
+    .select("id, name, duration_minutes, price")
+    .in("id", serviceIds);
+
+  if (error) throw error;
+
+  return serviceIds.map((serviceId) => {
+    const service = data?.find((s) => s.id === serviceId);
+    if (!service) throw new Error("Serviço não encontrado");
+    return service;
+  });
+}
+
+async function replaceAppointmentServices(
+  appointmentId: string,
+  items: { service: SelectedService; price: number }[]
+) {
+  const { error } = await supabase.rpc("replace_appointment_services", {
+    p_appointment_id: appointmentId,
+    p_services: items.map(({ service, price }) => ({
+      service_id: service.id,
+      service_name: service.name,
+      price,
+      duration_minutes: service.duration_minutes,
+    })),
+  });
+
+  if (error) throw error;
+}
+
+// Pending/confirmed occurrences of the series affected by an edit or cancellation
+async function fetchSeriesTargets(appointment: Appointment, scope: RecurrenceScope): Promise<Appointment[]> {
+  if (scope === "this" || !appointment.series_id) return [appointment];
+
+  let queryBuilder = supabase
+    .from("appointments")
+    .select(APPOINTMENT_SELECT)
+    .eq("series_id", appointment.series_id)
+    .in("status", ["pending", "confirmed"])
+    .order("start_time");
+
+  if (scope === "following") {
+    queryBuilder = queryBuilder.gte("start_time", appointment.start_time);
+  }
+
+  const { data, error } = await queryBuilder;
+  if (error) throw error;
+
+  const targets = (data || []) as Appointment[];
+  return targets.some((apt) => apt.id === appointment.id) ? targets : [appointment, ...targets];
+}
+
+// Helper to record cancellation in history
+export async function recordCancellationHistory(
+  appointment: Appointment,
+  isNoShow: boolean = false,
+  source: string = "manual"
+) {
+  const now = new Date();
+  const scheduledTime = new Date(appointment.start_time);
+  const minutesBefore = Math.round((scheduledTime.getTime() - now.getTime()) / 60000);
+
+  // is_late_cancellation and the resulting client fee are applied by database triggers
+  // using the unit owner's cancellation policy
+  const { error } = await supabase
+    .from("cancellation_history")
+    .insert({
+      unit_id: appointment.unit_id,
+      company_id: appointment.company_id,
+      appointment_id: appointment.id,
+      client_name: appointment.client_name,
+      client_phone: appointment.client_phone,
+      barber_name: appointment.barber?.name || "Desconhecido",
+      service_name: getAppointmentServicesLabel(appointment) || "Serviço",
+      scheduled_time: appointment.start_time,
+      cancelled_at: now.toISOString(),
+      minutes_before: minutesBefore,
+      is_no_show: isNoShow,
+      total_price: appointment.total_price,
+      cancellation_source: isNoShow ? "no_show" : source,
+    });
+
+  if (error) {
+    console.error("Error recording cancellation history:", error);
+  }
+}
+
+// Payment fields written when an appointment is completed
+export async function buildPaymentUpdate(id: string, paymentMethod: string, courtesyReason?: string) {
+  const updateData: Record<string, unknown> = { payment_method: paymentMethod };
+
+  // If courtesy, set total_price to 0 and add reason to notes
+  if (paymentMethod === "courtesy") {
+    updateData.total_price = 0;
+
+    // Append courtesy reason to notes
+    if (courtesyReason) {
+      // Get current appointment to check existing notes
+      const { data: currentApt } = await supabase
+        .from("appointments")
+        .select("notes")
+        .eq("id", id)
+        .single();
+
+      const courtesyNote = `[Cortesia] ${courtesyReason}`;
+      updateData.notes = currentApt?.notes
+        ? `${currentApt.notes}\n\n${courtesyNote}`
+        : courtesyNote;
+    }
+  }
+
+  // Package credits were paid when the plan was sold; the consume_client_plan_credit trigger debits them
+  if (paymentMethod === "package") {
+    updateData.total_price = 0;
+  }
+
+  return updateData;
+}
+
 export function useAppointments(startDate?: Date, endDate?: Date, barberId?: string | null) {
   const { currentUnitId, currentCompanyId } = useCurrentUnit();
   const queryClient = useQueryClient();
@@ -100,11 +305,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
 
       let queryBuilder = supabase
         .from("appointments")
-        .select(`
-          *,
-          barber:barbers(id, name, calendar_color),
-          service:services(id, name, duration_minutes, price)
-        `)
+        .select(APPOINTMENT_SELECT)
         .eq("unit_id", currentUnitId)
         .order("start_time", { ascending: true });
 
@@ -127,9 +328,62 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
   });
 
   // Check for conflicts before creating/updating
-  const checkConflict = async (barberId: string, startTime: Date, endTime: Date, excludeAppointmentId?: string) => {
+  const checkConflict = async (barberId: string, startTime: Date, endTime: Date, excludeAppointmentId?: string, clientPhone?: string) => {
     if (!currentUnitId) return false;
 
+    // Check for barber absences (vacation, sick leave...) and the barber's weekly schedule
+    const dateStr = `${startTime.getFullYear()}-${String(startTime.getMonth() + 1).padStart(2, "0")}-${String(startTime.getDate()).padStart(2, "0")}`;
+    const { data: absence } = await supabase
+      .from("barber_time_off")
+      .select("reason")
+      .eq("barber_id", barberId)
+      .eq("status", "approved")
+      .lte("start_date", dateStr)
+      .gte("end_date", dateStr)
+      .limit(1)
+      .maybeSingle();
+
+    if (absence) {
+      return {
+        id: "time_off",
+        client_name: `Profissional ausente (${TIME_OFF_REASON_LABELS[absence.reason as TimeOffReason] || "Ausência"})`,
+        start_time: "",
+        end_time: ""
+      };
+    }
+
+    const { data: scheduleDay } = await supabase
+      .from("barber_schedules")
+      .select("is_working, start_time, end_time")
+      .eq("barber_id", barberId)
+      .eq("day_of_week", startTime.getDay())
+      .maybeSingle();
+
+    if (scheduleDay) {
+      const aptStartMinutes = startTime.getHours() * 60 + startTime.getMinutes();
+      const aptEndMinutes = endTime.getHours() * 60 + endTime.getMinutes();
+      const toMinutes = (time: string | null) => {
+        if (!time) return null;
+        const [h, m] = time.split(":").map(Number);
+        return h * 60 + m;
+      };
+      const shiftStart = toMinutes(scheduleDay.start_time);
+      const shiftEnd = toMinutes(scheduleDay.end_time);
+
+      if (!scheduleDay.is_working) {
+        return { id: "schedule", client_name: "Folga do profissional", start_time: "", end_time: "" };
+      }
+
+      if ((shiftStart !== null && aptStartMinutes < shiftStart) || (shiftEnd !== null && aptEndMinutes > shiftEnd)) {
+        return {
+          id: "schedule",
+          client_name: `Fora da jornada do profissional (${scheduleDay.start_time?.slice(0, 5)} - ${scheduleDay.end_time?.slice(0, 5)})`,
+          start_time: "",
+          end_time: ""
+        };
+      }
+    }
+
     // Check for lunch break conflict
     const { data: barber } = await supabase
       .from("barbers")
@@ -157,6 +411,46 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
       }
     }
 
+    // Time blocks set by the barber (dentist, bank...) or by the owner
+    const { data: block } = await supabase
+      .from("barber_time_blocks")
+      .select("reason, start_time, end_time")
+      .eq("barber_id", barberId)
+      .lt("start_time", endTime.toISOString())
+      .gt("end_time", startTime.toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (block) {
+      return {
+        id: "time_block",
+        client_name: `Horário bloqueado pelo profissional${block.reason ? ` (${block.reason})` : ""}`,
+        start_time: block.start_time,
+        end_time: block.end_time
+      };
+    }
+
+    // Slots offered to the waitlist are held for that client until the offer expires
+    const { data: holds } = await supabase
+      .from("waitlist_entries")
+      .select("client_name, client_phone, offered_slot_start, offered_slot_end")
+      .eq("unit_id", currentUnitId)
+      .eq("offered_barber_id", barberId)
+      .eq("status", "offered")
+      .gt("offer_expires_at", new Date().toISOString())
+      .lt("offered_slot_start", endTime.toISOString())
+      .gt("offered_slot_end", startTime.toISOString());
+
+    const hold = holds?.find((h) => !clientPhone || !isSameClientPhone(h.client_phone, clientPhone));
+    if (hold) {
+      return {
+        id: "waitlist_hold",
+        client_name: `Reservado para ${hold.client_name} (lista de espera)`,
+        start_time: hold.offered_slot_start || "",
+        end_time: hold.offered_slot_end || ""
+      };
+    }
+
     let queryBuilder = supabase
       .from("appointments")
       .select("id, start_time, end_time, client_name")
@@ -179,51 +473,105 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
     mutationFn: async (data: AppointmentFormData) => {
       if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
 
-      // Get service to calculate end time and price
-      const { data: service, error: serviceError } = await supabase
-        .from("services")
-        .select("duration_minutes, price")
-        .eq("id", data.service_id)
-        .single();
-
-      if (serviceError) throw serviceError;
+      // End time and price are the sum of the selected services
+      const services = await fetchSelectedServices(data.service_ids);
+      const totalDuration = services.reduce((sum, s) => sum + s.duration_minutes, 0);
+      const totalPrice = services.reduce((sum, s) => sum + Number(s.price), 0);
 
       const startTime = new Date(data.start_time);
-      const endTime = new Date(startTime.getTime() + service.duration_minutes * 60000);
+      const occurrenceStarts = data.recurrence ? buildRecurrenceDates(startTime, data.recurrence) : [startTime];
+
+      // Check for conflicts per occurrence: the chosen date must be free, later ones that clash are skipped
+      const occurrences: { start: Date; end: Date }[] = [];
+      const skippedDates: Date[] = [];
 
-      // Check for conflicts with active appointments
-      const conflict = await checkConflict(data.barber_id, startTime, endTime);
-      if (conflict) {
-        throw new Error(`Horário ocupado! ${conflict.client_name} já tem agendamento nesse horário.`);
+      for (const occurrenceStart of occurrenceStarts) {
+        const occurrenceEnd = new Date(occurrenceStart.getTime() + totalDuration * 60000);
+        const conflict = await checkConflict(data.barber_id, occurrenceStart, occurrenceEnd, undefined, data.client_phone);
+
+        if (conflict) {
+          if (occurrences.length === 0 && skippedDates.length === 0) {
+            throw new Error(`Horário ocupado! ${conflict.client_name} já tem agendamento nesse horário.`);
+          }
+          skippedDates.push(occurrenceStart);
+          continue;
+        }
+        occurrences.push({ start: occurrenceStart, end: occurrenceEnd });
       }
 
-      const { data: appointment, error } = await supabase
-        .from("appointments")
-        .insert({
+      // Series, appointments and their services are saved in a single transaction
+      const { data: appointments, error } = await supabase.rpc("create_appointments", {
+        p_series: data.recurrence
+          ? {
+              unit_id: currentUnitId,
+              company_id: currentCompanyId,
+              barber_id: data.barber_id,
+              client_name: data.client_name,
+              client_phone: data.client_phone || null,
+              interval_weeks: data.recurrence.interval_weeks,
+              occurrences: data.recurrence.end_type === "count" ? data.recurrence.occurrences || null : null,
+              until_date: data.recurrence.end_type === "until" ? data.recurrence.until_date || null : null,
+            }
+          : null,
+        p_appointments: occurrences.map(({ start, end }) => ({
           unit_id: currentUnitId,
           company_id: currentCompanyId,
           barber_id: data.barber_id,
-          service_id: data.service_id,
+          service_id: services[0].id,
           client_name: data.client_name,
           client_phone: data.client_phone || null,
           client_birth_date: data.client_birth_date || null,
-          start_time: startTime.toISOString(),
-          end_time: endTime.toISOString(),
-          total_price: service.price,
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          total_price: totalPrice,
           notes: data.notes || null,
           status: "pending",
           is_dependent: data.is_dependent || false,
           dependent_id: data.dependent_id || null,
-        })
-        .select()
-        .single();
+        })),
+        p_services: services.map((service) => ({
+          service_id: service.id,
+          service_name: service.name,
+          price: Number(service.price),
+          duration_minutes: service.duration_minutes,
+        })),
+      });
 
       if (error) throw error;
-      return appointment;
+
+      // Booking the client a held slot was offered to closes their waitlist entry
+      if (data.client_phone) {
+        const { data: offers } = await supabase
+          .from("waitlist_entries")
+          .select("id, client_phone")
+          .eq("unit_id", currentUnitId)
+          .eq("offered_barber_id", data.barber_id)
+          .eq("status", "offered")
+          .eq("offered_slot_start", appointments[0].start_time);
+
+        const offer = offers?.find((o) => isSameClientPhone(o.client_phone, data.client_phone));
+        if (offer) {
+          await supabase
+            .from("waitlist_entries")
+            .update({ status: "booked", appointment_id: appointments[0].id, offer_expires_at: null })
+            .eq("id", offer.id);
+        }
+      }
+
+      return { appointment: appointments[0], createdCount: appointments.length, skippedDates };
     },
-    onSuccess: () => {
+    onSuccess: ({ createdCount, skippedDates }) => {
       queryClient.invalidateQueries({ queryKey: ["appointments"] });
-      toast({ title: "Agendamento criado com sucesso!" });
+      if (createdCount > 1 || skippedDates.length > 0) {
+        toast({
+          title: `${createdCount} agendamentos criados na série!`,
+          description: skippedDates.length > 0
+            ? `Não criados por conflito: ${skippedDates.map((date) => format(date, "dd/MM")).join(", ")}`
+            : undefined,
+        });
+      } else {
+        toast({ title: "Agendamento criado com sucesso!" });
+      }
     },
     onError: (error) => {
       toast({ title: "Erro ao criar agendamento", description: error.message, variant: "destructive" });
@@ -231,7 +579,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
   });
 
   const updateAppointment = useMutation({
-    mutationFn: async ({ id, ...data }: Partial<AppointmentFormData> & { id: string }) => {
+    mutationFn: async ({ id, series_scope = "this", ...data }: Partial<AppointmentFormData> & { id: string }) => {
       const updateData: Record<string, unknown> = {};
       
       if (data.client_name) updateData.client_name = data.client_name;
@@ -240,59 +588,81 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
       if (data.barber_id) updateData.barber_id = data.barber_id;
       if (data.notes !== undefined) updateData.notes = data.notes || null;
       
-      if (data.service_id) {
-        updateData.service_id = data.service_id;
-        
-        // Recalculate end time if service or start_time changed
-        const { data: service } = await supabase
-          .from("services")
-          .select("duration_minutes, price")
-          .eq("id", data.service_id)
-          .single();
+      let services: SelectedService[] | null = null;
+
+      if (data.service_ids && data.service_ids.length > 0) {
+        services = await fetchSelectedServices(data.service_ids);
+        updateData.service_id = services[0].id;
+        updateData.total_price = services.reduce((sum, s) => sum + Number(s.price), 0);
+      }
+
+      const { data: currentAppointment, error: fetchError } = await supabase
+        .from("appointments")
+        .select(APPOINTMENT_SELECT)
+        .eq("id", id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      // Series edits move every occurrence by the same offset as the edited one
+      const targets = await fetchSeriesTargets(currentAppointment as Appointment, series_scope);
+      const shiftMs = data.start_time
+        ? new Date(data.start_time).getTime() - new Date(currentAppointment.start_time).getTime()
+        : 0;
+
+      const updates = targets.map((target) => {
+        const targetUpdate: Record<string, unknown> = { ...updateData };
+
+        // Recalculate end time whenever the services or the start time change
+        if (services || data.start_time) {
+          const durationItems = services ? services : getAppointmentServices(target);
+          const totalDuration = durationItems.reduce((sum, s) => sum + s.duration_minutes, 0);
+          const startTime = new Date(new Date(target.start_time).getTime() + shiftMs);
 
-        if (service) {
-          updateData.total_price = service.price;
-          
-          if (data.start_time) {
-            const startTime = new Date(data.start_time);
-            const endTime = new Date(startTime.getTime() + service.duration_minutes * 60000);
-            updateData.start_time = startTime.toISOString();
-            updateData.end_time = endTime.toISOString();
+          if (totalDuration > 0) {
+            targetUpdate.start_time = startTime.toISOString();
+            targetUpdate.end_time = new Date(startTime.getTime() + totalDuration * 60000).toISOString();
           }
         }
-      } else if (data.start_time) {
-        // Get current appointment to get service duration
-        const { data: currentAppointment } = await supabase
-          .from("appointments")
-          .select("service_id")
-          .eq("id", id)
-          .single();
+        return { target, targetUpdate };
+      });
 
-        if (currentAppointment?.service_id) {
-          const { data: service } = await supabase
-            .from("services")
-            .select("duration_minutes")
-            .eq("id", currentAppointment.service_id)
-            .single();
-
-          if (service) {
-            const startTime = new Date(data.start_time);
-            const endTime = new Date(startTime.getTime() + service.duration_minutes * 60000);
-            updateData.start_time = startTime.toISOString();
-            updateData.end_time = endTime.toISOString();
-          }
+      if (targets.length > 1 && (services || shiftMs !== 0 || data.barber_id)) {
+        const conflictDates: string[] = [];
+
+        for (const { target, targetUpdate } of updates) {
+          const startTime = new Date((targetUpdate.start_time as string) || target.start_time);
+          const endTime = new Date((targetUpdate.end_time as string) || target.end_time);
+          const barberId = data.barber_id || target.barber_id;
+          if (!barberId) continue;
+
+          const conflict = await checkConflict(barberId, startTime, endTime, target.id);
+          if (conflict) conflictDates.push(format(startTime, "dd/MM"));
+        }
+
+        if (conflictDates.length > 0) {
+          throw new Error(`Horário ocupado nas datas: ${conflictDates.join(", ")}. Nenhuma ocorrência foi alterada.`);
         }
       }
 
-      const { data: appointment, error } = await supabase
-        .from("appointments")
-        .update(updateData)
-        .eq("id", id)
-        .select()
-        .single();
+      let updatedAppointment = null;
 
-      if (error) throw error;
-      return appointment;
+      for (const { target, targetUpdate } of updates) {
+        const { data: appointment, error } = await supabase
+          .from("appointments")
+          .update(targetUpdate)
+          .eq("id", target.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        if (services) {
+          await replaceAppointmentServices(appointment.id, services.map((service) => ({ service, price: Number(service.price) })));
+        }
+        if (appointment.id === id) updatedAppointment = appointment;
+      }
+      return updatedAppointment;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["appointments"] });
@@ -303,85 +673,44 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
     },
   });
 
-  // Helper to record cancellation in history
-  const recordCancellationHistory = async (
-    appointment: Appointment,
-    isNoShow: boolean = false,
-    source: string = "manual"
-  ) => {
-    const now = new Date();
-    const scheduledTime = new Date(appointment.start_time);
-    const minutesBefore = Math.round((scheduledTime.getTime() - now.getTime()) / 60000);
-    const isLateCancellation = minutesBefore < 10;
-
-    const { error } = await supabase
-      .from("cancellation_history")
-      .insert({
-        unit_id: appointment.unit_id,
-        company_id: appointment.company_id,
-        appointment_id: appointment.id,
-        client_name: appointment.client_name,
-        client_phone: appointment.client_phone,
-        barber_name: appointment.barber?.name || "Desconhecido",
-        service_name: appointment.service?.name || "Serviço",
-        scheduled_time: appointment.start_time,
-        cancelled_at: now.toISOString(),
-        minutes_before: minutesBefore,
-        is_late_cancellation: isLateCancellation,
-        is_no_show: isNoShow,
-        total_price: appointment.total_price,
-        cancellation_source: isNoShow ? "no_show" : source,
-      });
-
-    if (error) {
-      console.error("Error recording cancellation history:", error);
-    }
-  };
-
   const updateStatus = useMutation({
-    mutationFn: async ({ id, status, isNoShow = false, paymentMethod, courtesyReason }: { id: string; status: AppointmentStatus; isNoShow?: boolean; paymentMethod?: string; courtesyReason?: string }) => {
+    mutationFn: async ({ id, status, isNoShow = false, paymentMethod, courtesyReason, seriesScope = "this" }: { id: string; status: AppointmentStatus; isNoShow?: boolean; paymentMethod?: string; courtesyReason?: string; seriesScope?: RecurrenceScope }) => {
       // Fetch full appointment data first for cancellation history
       if (status === "cancelled") {
         const { data: fullAppointment } = await supabase
           .from("appointments")
-          .select(`
-            *,
-            barber:barbers(id, name, calendar_color),
-            service:services(id, name, duration_minutes, price)
-          `)
+          .select(APPOINTMENT_SELECT)
           .eq("id", id)
           .single();
 
+        if (fullAppointment && seriesScope !== "this") {
+          const targets = await fetchSeriesTargets(fullAppointment as Appointment, seriesScope);
+
+          for (const target of targets) {
+            await recordCancellationHistory(target, isNoShow, "manual");
+          }
+
+          const { data, error } = await supabase
+            .from("appointments")
+            .update({ status })
+            .in("id", targets.map((target) => target.id))
+            .select();
+
+          if (error) throw error;
+          await Promise.all(data.map((appointment) => offerSlotToWaitlist(appointment)));
+          return data[0];
+        }
+
         if (fullAppointment) {
           await recordCancellationHistory(fullAppointment as Appointment, isNoShow, "manual");
         }
       }
 
       const updateData: Record<string, unknown> = { status };
-      
+
       // Add payment_method when completing
       if (status === "completed" && paymentMethod) {
-        updateData.payment_method = paymentMethod;
-        
-        // If courtesy, set total_price to 0 and add reason to notes
-        if (paymentMethod === "courtesy") {
-          updateData.total_price = 0;
-          
-          // Append courtesy reason to notes
-          if (courtesyReason) {
-            // Get current appointment to check existing notes
-            const { data: currentApt } = await supabase
-              .from("appointments")
-              .select("notes")
-              .eq("id", id)
-              .single();
-            
-            const courtesyNote = `[Cortesia] ${courtesyReason}`;
-            updateData.notes = currentApt?.notes 
-              ? `${currentApt.notes}\n\n${courtesyNote}`
-              : courtesyNote;
-          }
-        }
+        Object.assign(updateData, await buildPaymentUpdate(id, paymentMethod, courtesyReason));
       }
 
       const { data, error } = await supabase
@@ -392,12 +721,18 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
         .single();
 
       if (error) throw error;
+
+      if (status === "cancelled") {
+        await offerSlotToWaitlist(data);
+      }
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
       queryClient.invalidateQueries({ queryKey: ["cancellation-history"] });
       queryClient.invalidateQueries({ queryKey: ["financial-appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["client-plans"] });
       toast({ title: "Status atualizado!" });
     },
     onError: (error) => {
@@ -410,11 +745,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
       // Fetch full appointment data first
       const { data: appointment, error: fetchError } = await supabase
         .from("appointments")
-        .select(`
-          *,
-          barber:barbers(id, name, calendar_color),
-          service:services(id, name, duration_minutes, price)
-        `)
+        .select(APPOINTMENT_SELECT)
         .eq("id", id)
         .single();
 
@@ -431,7 +762,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
           client_name: appointment.client_name,
           client_phone: appointment.client_phone,
           barber_name: appointment.barber?.name || "Desconhecido",
-          service_name: appointment.service?.name || "Serviço",
+          service_name: getAppointmentServicesLabel(appointment as Appointment) || "Serviço",
           scheduled_time: appointment.start_time,
           total_price: appointment.total_price,
           original_status: appointment.status,
@@ -447,9 +778,14 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
 
       const { error } = await supabase.from("appointments").delete().eq("id", id);
       if (error) throw error;
+
+      if (appointment.status === "pending" || appointment.status === "confirmed") {
+        await offerSlotToWaitlist(appointment);
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
       queryClient.invalidateQueries({ queryKey: ["deletion-history"] });
       toast({ title: "Agendamento excluído!" });
     },
@@ -464,14 +800,11 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
     mutationFn: async (data: QuickServiceFormData) => {
       if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
 
-      // Get service to calculate end time
-      const { data: service, error: serviceError } = await supabase
-        .from("services")
-        .select("duration_minutes")
-        .eq("id", data.service_id)
-        .single();
-
-      if (serviceError) throw serviceError;
+      // End time comes from the sum of the service durations, price from the (editable) item prices
+      const services = await fetchSelectedServices(data.services.map((item) => item.service_id));
+      const totalDuration = services.reduce((sum, s) => sum + s.duration_minutes, 0);
+      const items = services.map((service, index) => ({ service, price: data.services[index].price }));
+      const totalPrice = items.reduce((sum, item) => sum + item.price, 0);
 
       let startTime: Date;
       let status: AppointmentStatus;
@@ -482,7 +815,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
         status = "pending";
 
         // Check for conflicts
-        const endTime = new Date(startTime.getTime() + service.duration_minutes * 60000);
+        const endTime = new Date(startTime.getTime() + totalDuration * 60000);
         const conflict = await checkConflict(data.barber_id, startTime, endTime);
         if (conflict) {
           throw new Error(`Horário ocupado! ${conflict.client_name} já tem agendamento nesse horário.`);
@@ -493,7 +826,7 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
         status = "completed";
       }
 
-      const endTime = new Date(startTime.getTime() + service.duration_minutes * 60000);
+      const endTime = new Date(startTime.getTime() + totalDuration * 60000);
 
       const { data: appointment, error } = await supabase
         .from("appointments")
@@ -501,13 +834,13 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
           unit_id: currentUnitId,
           company_id: currentCompanyId,
           barber_id: data.barber_id,
-          service_id: data.service_id,
+          service_id: services[0].id,
           client_name: data.client_name,
           client_phone: data.client_phone || null,
           client_birth_date: data.client_birth_date || null,
           start_time: startTime.toISOString(),
           end_time: endTime.toISOString(),
-          total_price: data.total_price,
+          total_price: totalPrice,
           notes: data.notes || null,
           status,
           payment_method: status === "completed" ? (data.payment_method || null) : null,
@@ -516,6 +849,8 @@ export function useAppointments(startDate?: Date, endDate?: Date, barberId?: str
         .single();
 
       if (error) throw error;
+
+      await replaceAppointmentServices(appointment.id, items);
       return appointment;
     },
     onSuccess: (_, variables) => {
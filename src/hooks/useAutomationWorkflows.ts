@@ -0,0 +1,210 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type WorkflowTriggerType = "first_visit" | "nth_visit" | "no_show" | "courtesy_earned" | "return_due";
+
+export interface WorkflowTriggerConfig {
+  // nth_visit
+  visit_count?: number;
+  // return_due: days before the client's usual return date
+  days_before?: number;
+}
+
+export const WORKFLOW_TRIGGER_LABELS: Record<WorkflowTriggerType, string> = {
+  first_visit: "Primeira visita concluída",
+  nth_visit: "N-ésima visita concluída",
+  no_show: "Falta (no-show)",
+  courtesy_earned: "Cortesia do fidelidade conquistada",
+  return_due: "Perto do retorno habitual",
+};
+
+export function describeTrigger(type: WorkflowTriggerType, config: WorkflowTriggerConfig): string {
+  if (type === "nth_visit") return `${config.visit_count ?? 2}ª visita concluída`;
+  if (type === "return_due") {
+    const days = config.days_before ?? 0;
+    return days > 0 ? `${days} dia(s) antes do retorno habitual` : "No dia do retorno habitual";
+  }
+  return WORKFLOW_TRIGGER_LABELS[type];
+}
+
+export interface WorkflowStepConditions {
+  stop_if_booked?: boolean;
+  skip_if_visited_within_days?: number;
+}
+
+// Steps run in order; delay_hours counts from the trigger (first step) or the previous step.
+// Executed by the marketing-automations edge function.
+export interface WorkflowStep {
+  delay_hours: number;
+  message_template: string;
+  conditions?: WorkflowStepConditions;
+}
+
+export interface AutomationWorkflow {
+  id: string;
+  company_id: string;
+  unit_id: string | null;
+  name: string;
+  trigger_type: WorkflowTriggerType;
+  trigger_config: WorkflowTriggerConfig;
+  segment_id: string | null;
+  steps: WorkflowStep[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationWorkflowFormData {
+  name: string;
+  unit_id: string | null;
+  trigger_type: WorkflowTriggerType;
+  trigger_config: WorkflowTriggerConfig;
+  segment_id: string | null;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowRunStats {
+  active: number;
+  completed: number;
+  exited: number;
+}
+
+export function useAutomationWorkflows() {
+  const { currentCompanyId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: workflows = [], isLoading } = useQuery({
+    queryKey: ["automation-workflows", currentCompanyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("automation_workflows")
+        .select("*")
+        .eq("company_id", currentCompanyId!)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as AutomationWorkflow[];
+    },
+    enabled: !!currentCompanyId,
+  });
+
+  // Clients currently in / done with / removed from each workflow
+  const { data: runStats = {} } = useQuery({
+    queryKey: ["automation-workflow-runs", currentCompanyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("automation_workflow_runs")
+        .select("workflow_id, status")
+        .eq("company_id", currentCompanyId!);
+
+      if (error) throw error;
+
+      const stats: Record<string, WorkflowRunStats> = {};
+      (data || []).forEach((run) => {
+        const current = stats[run.workflow_id] ?? { active: 0, completed: 0, exited: 0 };
+        if (run.status === "active" || run.status === "completed" || run.status === "exited") {
+          current[run.status]++;
+        }
+        stats[run.workflow_id] = current;
+      });
+      return stats;
+    },
+    enabled: !!currentCompanyId,
+  });
+
+  const createWorkflow = useMutation({
+    mutationFn: async (workflow: AutomationWorkflowFormData) => {
+      if (!currentCompanyId) throw new Error("Empresa não encontrada");
+
+      const { error } = await supabase.from("automation_workflows").insert({
+        company_id: currentCompanyId,
+        unit_id: workflow.unit_id,
+        name: workflow.name,
+        trigger_type: workflow.trigger_type,
+        trigger_config: workflow.trigger_config as Json,
+        segment_id: workflow.segment_id,
+        steps: workflow.steps as unknown as Json,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["automation-workflows"] });
+      toast.success("Automação criada!");
+    },
+    onError: (error) => {
+      console.error("Erro ao criar automação:", error);
+      toast.error("Erro ao criar automação");
+    },
+  });
+
+  const updateWorkflow = useMutation({
+    mutationFn: async ({ id, ...workflow }: AutomationWorkflowFormData & { id: string }) => {
+      const { error } = await supabase
+        .from("automation_workflows")
+        .update({
+          unit_id: workflow.unit_id,
+          name: workflow.name,
+          trigger_type: workflow.trigger_type,
+          trigger_config: workflow.trigger_config as Json,
+          segment_id: workflow.segment_id,
+          steps: workflow.steps as unknown as Json,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["automation-workflows"] });
+      toast.success("Automação atualizada!");
+    },
+    onError: (error) => {
+      console.error("Erro ao atualizar automação:", error);
+      toast.error("Erro ao atualizar automação");
+    },
+  });
+
+  const toggleWorkflow = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("automation_workflows").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { is_active }) => {
+      queryClient.invalidateQueries({ queryKey: ["automation-workflows"] });
+      toast.success(is_active ? "Automação ativada!" : "Automação pausada!");
+    },
+    onError: (error) => {
+      console.error("Erro ao alterar automação:", error);
+      toast.error("Erro ao alterar automação");
+    },
+  });
+
+  const deleteWorkflow = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("automation_workflows").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["automation-workflows"] });
+      queryClient.invalidateQueries({ queryKey: ["automation-workflow-runs"] });
+      toast.success("Automação excluída!");
+    },
+    onError: (error) => {
+      console.error("Erro ao excluir automação:", error);
+      toast.error("Erro ao excluir automação");
+    },
+  });
+
+  return {
+    workflows,
+    runStats: runStats as Record<string, WorkflowRunStats>,
+    isLoading,
+    createWorkflow,
+    updateWorkflow,
+    toggleWorkflow,
+    deleteWorkflow,
+  };
+}
@@ -0,0 +1,141 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  APPOINTMENT_SELECT,
+  buildPaymentUpdate,
+  recordCancellationHistory,
+  type Appointment,
+} from "@/hooks/useAppointments";
+
+// Agenda of the logged-in barber (/barbeiro). RLS only returns the barber's own appointments.
+export function useBarberAppointments(barberId: string | null | undefined, startDate: Date, endDate: Date) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!barberId) return;
+
+    const channel = supabase
+      .channel(`barber-appointments-${barberId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "appointments",
+          filter: `barber_id=eq.${barberId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["barber-appointments"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [barberId, queryClient]);
+
+  const query = useQuery({
+    queryKey: ["barber-appointments", barberId, startDate.toISOString(), endDate.toISOString()],
+    queryFn: async () => {
+      if (!barberId) return [];
+
+      const { data, error } = await supabase
+        .from("appointments")
+        .select(APPOINTMENT_SELECT)
+        .eq("barber_id", barberId)
+        .gte("start_time", startDate.toISOString())
+        .lte("start_time", endDate.toISOString())
+        .order("start_time", { ascending: true });
+
+      if (error) throw error;
+      return data as Appointment[];
+    },
+    enabled: !!barberId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["barber-appointments"] });
+    queryClient.invalidateQueries({ queryKey: ["appointments"] });
+  };
+
+  const confirmAppointment = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("appointments").update({ status: "confirmed" }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Agendamento confirmado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao confirmar agendamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startAppointment = useMutation({
+    mutationFn: async (appointment: Appointment) => {
+      const { error } = await supabase
+        .from("appointments")
+        .update({
+          started_at: new Date().toISOString(),
+          // Starting a pending appointment confirms it as well
+          status: appointment.status === "pending" ? "confirmed" : appointment.status,
+        })
+        .eq("id", appointment.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Atendimento iniciado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao iniciar atendimento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const completeAppointment = useMutation({
+    mutationFn: async ({ id, paymentMethod, courtesyReason }: { id: string; paymentMethod: string; courtesyReason?: string }) => {
+      const { error } = await supabase
+        .from("appointments")
+        .update({ status: "completed", ...(await buildPaymentUpdate(id, paymentMethod, courtesyReason)) })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Atendimento finalizado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao finalizar atendimento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const markNoShow = useMutation({
+    mutationFn: async (appointment: Appointment) => {
+      await recordCancellationHistory(appointment, true);
+
+      const { error } = await supabase.from("appointments").update({ status: "cancelled" }).eq("id", appointment.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["cancellation-history"] });
+      toast({ title: "Falta registrada" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao registrar falta", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    appointments: query.data || [],
+    isLoading: query.isLoading,
+    confirmAppointment,
+    startAppointment,
+    completeAppointment,
+    markNoShow,
+  };
+}
@@ -8,6 +8,10 @@ export interface BarberProfile {
   email: string | null;
   photo_url: string | null;
   commission_rate: number;
+  product_commission_rate?: number | null;
+  debit_card_fee_percent?: number | null;
+  credit_card_fee_percent?: number | null;
+  monthly_goal?: number | null;
   unit_id: string;
   company_id: string | null;
   is_active: boolean;
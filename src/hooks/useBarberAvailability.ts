@@ -0,0 +1,171 @@
+import { format } from "date-fns";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { BarberProfile } from "@/hooks/useBarberAuth";
+import type { BarberTimeBlock, BarberTimeOff, TimeOffReason } from "@/hooks/useBarberSchedules";
+
+export interface TimeBlockInput {
+  start_time: Date;
+  end_time: Date;
+  reason: string | null;
+}
+
+export interface TimeOffRequestInput {
+  start_date: string;
+  end_date: string;
+  reason: TimeOffReason;
+  notes: string | null;
+}
+
+// Time blocks and absence requests of the logged-in barber (/barbeiro)
+export function useBarberAvailability(barber: BarberProfile | null) {
+  const queryClient = useQueryClient();
+  const barberId = barber?.id;
+
+  const { data: timeBlocks = [], isLoading: isLoadingBlocks } = useQuery({
+    queryKey: ["barber-time-blocks", "own", barberId],
+    queryFn: async () => {
+      if (!barberId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_time_blocks")
+        .select("*")
+        .eq("barber_id", barberId)
+        .gte("end_time", new Date().toISOString())
+        .order("start_time");
+
+      if (error) throw error;
+      return data as BarberTimeBlock[];
+    },
+    enabled: !!barberId,
+  });
+
+  const { data: timeOff = [], isLoading: isLoadingTimeOff } = useQuery({
+    queryKey: ["barber-time-off", "own", barberId],
+    queryFn: async () => {
+      if (!barberId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_time_off")
+        .select("*")
+        .eq("barber_id", barberId)
+        .gte("end_date", format(new Date(), "yyyy-MM-dd"))
+        .order("start_date");
+
+      if (error) throw error;
+      return data as BarberTimeOff[];
+    },
+    enabled: !!barberId,
+  });
+
+  const addTimeBlock = useMutation({
+    mutationFn: async (data: TimeBlockInput) => {
+      if (!barber) throw new Error("Profissional não encontrado");
+      if (data.end_time <= data.start_time) {
+        throw new Error("O horário final deve ser posterior ao inicial");
+      }
+
+      // Blocking over a booked client would leave the appointment orphaned
+      const { data: conflicts, error: conflictError } = await supabase
+        .from("appointments")
+        .select("id")
+        .eq("barber_id", barber.id)
+        .neq("status", "cancelled")
+        .lt("start_time", data.end_time.toISOString())
+        .gt("end_time", data.start_time.toISOString())
+        .limit(1);
+
+      if (conflictError) throw conflictError;
+      if (conflicts && conflicts.length > 0) {
+        throw new Error("Você tem agendamento neste horário. Peça à recepção para remarcar antes de bloquear.");
+      }
+
+      const { error } = await supabase.from("barber_time_blocks").insert({
+        barber_id: barber.id,
+        unit_id: barber.unit_id,
+        company_id: barber.company_id,
+        start_time: data.start_time.toISOString(),
+        end_time: data.end_time.toISOString(),
+        reason: data.reason,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-blocks"] });
+      toast({ title: "Horário bloqueado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao bloquear horário", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeTimeBlock = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("barber_time_blocks").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-blocks"] });
+      toast({ title: "Bloqueio removido" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover bloqueio", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Goes to the owner as a pending request; only approved absences block the agenda
+  const requestTimeOff = useMutation({
+    mutationFn: async (data: TimeOffRequestInput) => {
+      if (!barber) throw new Error("Profissional não encontrado");
+      if (data.end_date < data.start_date) {
+        throw new Error("A data final deve ser igual ou posterior à data inicial");
+      }
+
+      const { error } = await supabase.from("barber_time_off").insert({
+        barber_id: barber.id,
+        unit_id: barber.unit_id,
+        company_id: barber.company_id,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        reason: data.reason,
+        notes: data.notes,
+        status: "pending",
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+      toast({ title: "Solicitação enviada!", description: "O gestor foi notificado e vai analisar o pedido." });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao solicitar ausência", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelTimeOffRequest = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("barber_time_off").delete().eq("id", id).eq("status", "pending");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+      toast({ title: "Solicitação cancelada" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao cancelar solicitação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    timeBlocks,
+    timeOff,
+    isLoading: isLoadingBlocks || isLoadingTimeOff,
+    addTimeBlock,
+    removeTimeBlock,
+    requestTimeOff,
+    cancelTimeOffRequest,
+  };
+}
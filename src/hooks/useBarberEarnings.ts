@@ -0,0 +1,218 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  calculateAppointmentCommission,
+  calculateCardFee,
+  calculateNetValue,
+  getDateRanges,
+  type DateRange,
+  type FinancialAppointment,
+} from "@/hooks/useFinancialData";
+import type { BarberProfile } from "@/hooks/useBarberAuth";
+
+type EarningsAppointment = Pick<FinancialAppointment, "id" | "start_time" | "total_price" | "payment_method" | "service" | "services">;
+
+interface EarningsSale {
+  id: string;
+  sale_date: string;
+  total_price: number;
+}
+
+export interface PaymentMethodEarnings {
+  count: number;
+  total: number;
+  commission: number;
+}
+
+export interface EarningsSummary {
+  count: number;
+  gross: number;
+  cardFees: number;
+  net: number;
+  serviceCommission: number;
+  productsTotal: number;
+  productCommission: number;
+  commission: number;
+  byPaymentMethod: Record<string, PaymentMethodEarnings>;
+}
+
+export interface BarberCommissionSettings {
+  debitFeePercent: number;
+  creditFeePercent: number;
+  calculationBase: "gross" | "net";
+}
+
+const inRange = (date: string, range: DateRange) => {
+  const value = new Date(date);
+  return value >= range.start && value <= range.end;
+};
+
+// Same math as the commission report and the statements: per-service commission over gross or net
+export function summarizeEarnings(
+  appointments: EarningsAppointment[],
+  sales: EarningsSale[],
+  barber: Pick<BarberProfile, "commission_rate" | "product_commission_rate" | "debit_card_fee_percent" | "credit_card_fee_percent">,
+  settings: BarberCommissionSettings
+): EarningsSummary {
+  const summary: EarningsSummary = {
+    count: appointments.length,
+    gross: 0,
+    cardFees: 0,
+    net: 0,
+    serviceCommission: 0,
+    productsTotal: 0,
+    productCommission: 0,
+    commission: 0,
+    byPaymentMethod: {},
+  };
+
+  appointments.forEach((apt) => {
+    const total = Number(apt.total_price);
+    const cardFee = calculateCardFee(
+      total,
+      apt.payment_method,
+      settings.debitFeePercent,
+      settings.creditFeePercent,
+      barber.debit_card_fee_percent,
+      barber.credit_card_fee_percent
+    );
+    const net = calculateNetValue(
+      total,
+      apt.payment_method,
+      settings.debitFeePercent,
+      settings.creditFeePercent,
+      barber.debit_card_fee_percent,
+      barber.credit_card_fee_percent
+    );
+    const commission = calculateAppointmentCommission(
+      { ...apt, total_price: total },
+      barber.commission_rate,
+      settings.debitFeePercent,
+      settings.creditFeePercent,
+      settings.calculationBase,
+      barber.debit_card_fee_percent,
+      barber.credit_card_fee_percent
+    );
+
+    summary.gross += total;
+    summary.cardFees += cardFee;
+    summary.net += net;
+    summary.serviceCommission += commission;
+
+    const method = apt.payment_method || "cash";
+    const entry = summary.byPaymentMethod[method] || { count: 0, total: 0, commission: 0 };
+    summary.byPaymentMethod[method] = {
+      count: entry.count + 1,
+      total: entry.total + total,
+      commission: entry.commission + commission,
+    };
+  });
+
+  const productRate = barber.product_commission_rate ?? 0;
+  summary.productsTotal = sales.reduce((sum, sale) => sum + Number(sale.total_price), 0);
+  summary.productCommission = summary.productsTotal * (productRate / 100);
+  summary.commission = summary.serviceCommission + summary.productCommission;
+
+  return summary;
+}
+
+// Earnings of the logged-in barber for today, this week and this month
+export function useBarberEarnings(barber: BarberProfile | null) {
+  const ranges = useMemo(() => getDateRanges(), []);
+  // The week can start in the previous month and end in the next one
+  const fetchRange = useMemo(
+    () => ({
+      start: ranges.week.start < ranges.month.start ? ranges.week.start : ranges.month.start,
+      end: ranges.week.end > ranges.month.end ? ranges.week.end : ranges.month.end,
+    }),
+    [ranges]
+  );
+
+  const { data: settings } = useQuery({
+    queryKey: ["barber-commission-settings", barber?.id],
+    queryFn: async (): Promise<BarberCommissionSettings> => {
+      const { data, error } = await supabase.rpc("get_barber_commission_settings");
+      if (error) throw error;
+
+      const row = data?.[0];
+      return {
+        debitFeePercent: row?.debit_card_fee_percent ?? 1.5,
+        creditFeePercent: row?.credit_card_fee_percent ?? 3.0,
+        calculationBase: (row?.commission_calculation_base as "gross" | "net") ?? "gross",
+      };
+    },
+    enabled: !!barber,
+  });
+
+  // Lives under "barber-appointments" so the agenda realtime channel refreshes it too
+  const { data, isLoading } = useQuery({
+    queryKey: ["barber-appointments", "earnings", barber?.id, fetchRange.start.toISOString()],
+    queryFn: async () => {
+      if (!barber) return { appointments: [], sales: [] };
+
+      const from = fetchRange.start.toISOString();
+      const to = fetchRange.end.toISOString();
+
+      const [appointmentsRes, salesRes] = await Promise.all([
+        supabase
+          .from("appointments")
+          .select(`
+            id,
+            start_time,
+            total_price,
+            payment_method,
+            service:services(id, name, price),
+            services:appointment_services(id, service_id, service_name, price, duration_minutes, position)
+          `)
+          .eq("barber_id", barber.id)
+          .eq("status", "completed")
+          .gte("start_time", from)
+          .lte("start_time", to),
+        supabase
+          .from("product_sales")
+          .select("id, sale_date, total_price")
+          .eq("barber_id", barber.id)
+          .gte("sale_date", from)
+          .lte("sale_date", to),
+      ]);
+
+      const error = appointmentsRes.error || salesRes.error;
+      if (error) throw error;
+
+      return {
+        appointments: (appointmentsRes.data || []).map((apt) => ({
+          ...apt,
+          service: Array.isArray(apt.service) ? apt.service[0] : apt.service,
+          services: apt.services || [],
+        })) as EarningsAppointment[],
+        sales: (salesRes.data || []) as EarningsSale[],
+      };
+    },
+    enabled: !!barber,
+  });
+
+  const summaries = useMemo(() => {
+    if (!barber || !settings || !data) return null;
+
+    const summarize = (range: DateRange) =>
+      summarizeEarnings(
+        data.appointments.filter((apt) => inRange(apt.start_time, range)),
+        data.sales.filter((sale) => inRange(sale.sale_date, range)),
+        barber,
+        settings
+      );
+
+    return {
+      today: summarize(ranges.today),
+      week: summarize(ranges.week),
+      month: summarize(ranges.month),
+    };
+  }, [barber, settings, data, ranges]);
+
+  return {
+    summaries,
+    settings,
+    isLoading: isLoading || !settings,
+  };
+}
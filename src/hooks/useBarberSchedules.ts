@@ -0,0 +1,283 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { addHours, format, getDay, setHours, setMinutes, startOfDay, subDays } from "date-fns";
+
+export interface BarberScheduleDay {
+  day_of_week: number;
+  is_working: boolean;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface BarberSchedule extends BarberScheduleDay {
+  id: string;
+  barber_id: string;
+  unit_id: string;
+}
+
+export type TimeOffReason = "vacation" | "sick" | "course" | "other";
+
+export type TimeOffStatus = "pending" | "approved" | "rejected";
+
+export interface BarberTimeOff {
+  id: string;
+  barber_id: string;
+  unit_id: string;
+  company_id: string | null;
+  start_date: string;
+  end_date: string;
+  reason: TimeOffReason;
+  notes: string | null;
+  status: TimeOffStatus;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface BarberTimeBlock {
+  id: string;
+  barber_id: string;
+  unit_id: string;
+  company_id: string | null;
+  start_time: string;
+  end_time: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface BarberDayStatus {
+  off: boolean;
+  reason: string | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export const TIME_OFF_REASON_LABELS: Record<TimeOffReason, string> = {
+  vacation: "Férias",
+  sick: "Atestado",
+  course: "Curso",
+  other: "Ausência",
+};
+
+export const TIME_OFF_STATUS_LABELS: Record<TimeOffStatus, string> = {
+  pending: "Aguardando aprovação",
+  approved: "Aprovada",
+  rejected: "Recusada",
+};
+
+export const DEFAULT_BARBER_SCHEDULE: BarberScheduleDay[] = [
+  { day_of_week: 0, is_working: false, start_time: null, end_time: null },
+  { day_of_week: 1, is_working: true, start_time: "10:00", end_time: "21:00" },
+  { day_of_week: 2, is_working: true, start_time: "10:00", end_time: "21:00" },
+  { day_of_week: 3, is_working: true, start_time: "10:00", end_time: "21:00" },
+  { day_of_week: 4, is_working: true, start_time: "10:00", end_time: "21:00" },
+  { day_of_week: 5, is_working: true, start_time: "10:00", end_time: "21:00" },
+  { day_of_week: 6, is_working: true, start_time: "10:00", end_time: "18:00" },
+];
+
+// Whether an hour row of the agenda falls outside the barber's day (absent or outside the shift)
+export function isHourOutsideBarberDay(status: BarberDayStatus | null, hour: number): boolean {
+  if (!status) return false;
+  if (status.off) return true;
+  if (!status.start_time || !status.end_time) return false;
+
+  const [startHour, startMin] = status.start_time.split(":").map(Number);
+  const [endHour, endMin] = status.end_time.split(":").map(Number);
+  return (hour + 1) * 60 <= startHour * 60 + startMin || hour * 60 >= endHour * 60 + endMin;
+}
+
+// Replace the weekly schedule of a barber. null removes it so the barber follows the unit business hours.
+export async function saveBarberSchedule(
+  barberId: string,
+  unitId: string,
+  companyId: string | null,
+  schedule: BarberScheduleDay[] | null
+) {
+  if (!schedule) {
+    const { error } = await supabase
+      .from("barber_schedules")
+      .delete()
+      .eq("barber_id", barberId);
+
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from("barber_schedules")
+    .upsert(
+      schedule.map((day) => ({
+        barber_id: barberId,
+        unit_id: unitId,
+        company_id: companyId,
+        day_of_week: day.day_of_week,
+        is_working: day.is_working,
+        start_time: day.is_working ? day.start_time : null,
+        end_time: day.is_working ? day.end_time : null,
+      })),
+      { onConflict: "barber_id,day_of_week" }
+    );
+
+  if (error) throw error;
+}
+
+export function useBarberSchedules(unitId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: schedules = [], isLoading: isLoadingSchedules } = useQuery({
+    queryKey: ["barber-schedules", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_schedules")
+        .select("id, barber_id, unit_id, day_of_week, is_working, start_time, end_time")
+        .eq("unit_id", unitId)
+        .order("day_of_week");
+
+      if (error) throw error;
+      return data as BarberSchedule[];
+    },
+    enabled: !!unitId,
+  });
+
+  // Only recent and future absences matter for the agenda
+  const { data: timeOff = [], isLoading: isLoadingTimeOff } = useQuery({
+    queryKey: ["barber-time-off", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_time_off")
+        .select("*")
+        .eq("unit_id", unitId)
+        .gte("end_date", format(subDays(new Date(), 90), "yyyy-MM-dd"))
+        .order("start_date");
+
+      if (error) throw error;
+      return data as BarberTimeOff[];
+    },
+    enabled: !!unitId,
+  });
+
+  const { data: timeBlocks = [], isLoading: isLoadingTimeBlocks } = useQuery({
+    queryKey: ["barber-time-blocks", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_time_blocks")
+        .select("*")
+        .eq("unit_id", unitId)
+        .gte("end_time", subDays(new Date(), 90).toISOString())
+        .order("start_time");
+
+      if (error) throw error;
+      return data as BarberTimeBlock[];
+    },
+    enabled: !!unitId,
+  });
+
+  const addTimeOff = useMutation({
+    mutationFn: async (data: Omit<BarberTimeOff, "id" | "created_at" | "status" | "reviewed_at">) => {
+      if (data.end_date < data.start_date) {
+        throw new Error("A data final deve ser igual ou posterior à data inicial");
+      }
+
+      const { error } = await supabase
+        .from("barber_time_off")
+        .insert(data);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+      toast.success("Ausência registrada com sucesso");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao registrar ausência");
+    },
+  });
+
+  const removeTimeOff = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("barber_time_off")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+      toast.success("Ausência removida com sucesso");
+    },
+    onError: (error) => {
+      toast.error("Erro ao remover ausência");
+      console.error(error);
+    },
+  });
+
+  // Helper functions
+  const getBarberSchedule = (barberId: string): BarberSchedule[] => {
+    return schedules.filter(s => s.barber_id === barberId);
+  };
+
+  // Rejected requests are kept for the barber's history but are not absences
+  const getBarberTimeOff = (barberId: string): BarberTimeOff[] => {
+    return timeOff.filter(t => t.barber_id === barberId && t.status !== "rejected");
+  };
+
+  // Only approved absences block the agenda
+  const getTimeOffOnDate = (barberId: string, date: Date): BarberTimeOff | undefined => {
+    const dateStr = format(date, "yyyy-MM-dd");
+    return timeOff.find(
+      t => t.barber_id === barberId && t.status === "approved" && t.start_date <= dateStr && t.end_date >= dateStr
+    );
+  };
+
+  // First time block of a barber overlapping an hour row of the agenda
+  const getTimeBlockInHour = (barberId: string, date: Date, hour: number): BarberTimeBlock | undefined => {
+    const hourStart = setMinutes(setHours(startOfDay(date), hour), 0);
+    const hourEnd = addHours(hourStart, 1);
+    return timeBlocks.find(
+      b => b.barber_id === barberId && new Date(b.start_time) < hourEnd && new Date(b.end_time) > hourStart
+    );
+  };
+
+  // Working status of a barber on a date: absence > weekly schedule. null = follows the unit hours.
+  const getBarberDayStatus = (barberId: string, date: Date): BarberDayStatus | null => {
+    const absence = getTimeOffOnDate(barberId, date);
+    if (absence) {
+      return { off: true, reason: TIME_OFF_REASON_LABELS[absence.reason], start_time: null, end_time: null };
+    }
+
+    const day = schedules.find(s => s.barber_id === barberId && s.day_of_week === getDay(date));
+    if (!day) return null;
+
+    if (!day.is_working) {
+      return { off: true, reason: "Folga", start_time: null, end_time: null };
+    }
+
+    return {
+      off: false,
+      reason: null,
+      start_time: day.start_time?.slice(0, 5) || null,
+      end_time: day.end_time?.slice(0, 5) || null,
+    };
+  };
+
+  return {
+    schedules,
+    timeOff,
+    timeBlocks,
+    isLoading: isLoadingSchedules || isLoadingTimeOff || isLoadingTimeBlocks,
+    addTimeOff,
+    removeTimeOff,
+    getBarberSchedule,
+    getBarberTimeOff,
+    getTimeOffOnDate,
+    getTimeBlockInHour,
+    getBarberDayStatus,
+  };
+}
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { saveBarberSchedule, type BarberScheduleDay } from "@/hooks/useBarberSchedules";
 
 export interface Barber {
   id: string;
@@ -13,6 +14,8 @@ export interface Barber {
   user_id: string | null;
   calendar_color: string;
   commission_rate: number;
+  product_commission_rate?: number;
+  monthly_goal?: number | null;
   is_active: boolean;
   created_at: string;
   unit_name?: string;
@@ -26,6 +29,8 @@ export interface Barber {
 
 export type BarberFormData = Omit<Barber, "id" | "created_at" | "company_id" | "unit_name"> & {
   unit_id?: string;
+  // undefined = keep as is, null = follow the unit business hours
+  schedule?: BarberScheduleDay[] | null;
 };
 
 export function useBarbers(unitId: string | null | undefined) {
@@ -35,23 +40,24 @@ export function useBarbers(unitId: string | null | undefined) {
   const { data: barbers = [], isLoading, refetch } = useQuery({
     queryKey: ["barbers", unitId],
     queryFn: async () => {
+      // Staff have no direct access to the units table, so names come from the RPC
+      const { data: userUnits } = await supabase
+        .rpc("get_accessible_units")
+        .select("id, name");
+      const unitNames = new Map((userUnits || []).map(u => [u.id, u.name]));
+
       let query = supabase
         .from("barbers")
-        .select("*, units!inner(name)")
+        .select("*")
         .order("name");
 
       if (unitId) {
         query = query.eq("unit_id", unitId);
       } else if (unitId === null) {
         // Get all units owned by the user
-        const { data: userUnits } = await supabase
-          .from("units")
-          .select("id");
-        
-        if (!userUnits || userUnits.length === 0) return [];
-        
-        const unitIds = userUnits.map(u => u.id);
-        query = query.in("unit_id", unitIds);
+        if (unitNames.size === 0) return [];
+
+        query = query.in("unit_id", [...unitNames.keys()]);
       } else {
         return [];
       }
@@ -60,10 +66,9 @@ export function useBarbers(unitId: string | null | undefined) {
 
       if (error) throw error;
       
-      return (data || []).map((item: any) => ({
+      return (data || []).map((item) => ({
         ...item,
-        unit_name: item.units?.name || "Unidade desconhecida",
-        units: undefined,
+        unit_name: unitNames.get(item.unit_id) || "Unidade desconhecida",
       })) as Barber[];
     },
     enabled: unitId !== undefined,
@@ -76,7 +81,7 @@ export function useBarbers(unitId: string | null | undefined) {
 
       // Get company_id from the unit
       const { data: unit } = await supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("company_id")
         .eq("id", targetUnitId)
         .single();
@@ -90,6 +95,8 @@ export function useBarbers(unitId: string | null | undefined) {
           photo_url: barber.photo_url,
           calendar_color: barber.calendar_color,
           commission_rate: barber.commission_rate,
+          product_commission_rate: barber.product_commission_rate ?? 0,
+          monthly_goal: barber.monthly_goal ?? null,
           is_active: barber.is_active,
           unit_id: targetUnitId,
           company_id: unit?.company_id || null,
@@ -103,10 +110,16 @@ export function useBarbers(unitId: string | null | undefined) {
         .single();
 
       if (error) throw error;
+
+      if (barber.schedule !== undefined) {
+        await saveBarberSchedule(data.id, targetUnitId, unit?.company_id || null, barber.schedule);
+      }
+
       return { barber: data, email: barber.email };
     },
     onSuccess: async (result) => {
       queryClient.invalidateQueries({ queryKey: ["barbers"] });
+      queryClient.invalidateQueries({ queryKey: ["barber-schedules"] });
       
       // If email provided, send invite
       if (result.email && result.barber) {
@@ -148,7 +161,7 @@ export function useBarbers(unitId: string | null | undefined) {
   });
 
   const updateBarber = useMutation({
-    mutationFn: async ({ id, ...barber }: Partial<Barber> & { id: string }) => {
+    mutationFn: async ({ id, schedule, ...barber }: Partial<Barber> & { id: string; schedule?: BarberScheduleDay[] | null }) => {
       // Check if barber has user_id to determine if email can be updated
       const { data: currentBarber } = await supabase
         .from("barbers")
@@ -162,6 +175,8 @@ export function useBarbers(unitId: string | null | undefined) {
         photo_url: barber.photo_url,
         calendar_color: barber.calendar_color,
         commission_rate: barber.commission_rate,
+        product_commission_rate: barber.product_commission_rate ?? 0,
+        monthly_goal: barber.monthly_goal ?? null,
         is_active: barber.is_active,
         debit_card_fee_percent: barber.debit_card_fee_percent ?? null,
         credit_card_fee_percent: barber.credit_card_fee_percent ?? null,
@@ -183,10 +198,16 @@ export function useBarbers(unitId: string | null | undefined) {
         .single();
 
       if (error) throw error;
+
+      if (schedule !== undefined) {
+        await saveBarberSchedule(id, data.unit_id, data.company_id, schedule);
+      }
+
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["barbers"] });
+      queryClient.invalidateQueries({ queryKey: ["barber-schedules"] });
       toast({ title: "Profissional atualizado com sucesso!" });
     },
     onError: (error: Error) => {
@@ -197,6 +218,11 @@ export function useBarbers(unitId: string | null | undefined) {
   const deleteBarber = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await supabase.from("barbers").delete().eq("id", id);
+
+      // 23503: foreign key violation - commission statements or advances keep the barber's history
+      if (error?.code === "23503") {
+        throw new Error("Este profissional possui acertos de comissão ou vales. Desative-o em vez de excluir.");
+      }
       if (error) throw error;
     },
     onSuccess: () => {
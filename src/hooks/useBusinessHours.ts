@@ -1,11 +1,14 @@
+import { useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { resolveDataOwnerId } from "@/hooks/useUserRole";
 import { toast } from "sonner";
 import { format, getDay, parseISO } from "date-fns";
 
 export interface BusinessHour {
   id: string;
   user_id: string;
+  unit_id: string | null;
   day_of_week: number;
   is_open: boolean;
   opening_time: string | null;
@@ -17,6 +20,7 @@ export interface BusinessHour {
 export interface Holiday {
   id: string;
   user_id: string;
+  unit_id: string | null;
   date: string;
   name: string;
   created_at: string;
@@ -42,46 +46,68 @@ const DEFAULT_HOURS = [
   { day_of_week: 6, is_open: true, opening_time: "10:00", closing_time: "18:00" }, // Sábado
 ];
 
-export function useBusinessHours() {
+// unitId = null works on the company default (rows without unit_id).
+// With a unit, its own week replaces the default one and holidays are the company's plus the unit's.
+export function useBusinessHours(unitId: string | null = null) {
   const queryClient = useQueryClient();
 
-  // Fetch business hours
-  const { data: businessHours = [], isLoading: isLoadingHours } = useQuery({
-    queryKey: ["business-hours"],
+  // Fetch company default and unit business hours
+  const { data: allHours = [], isLoading: isLoadingHours } = useQuery({
+    queryKey: ["business-hours", unitId],
     queryFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Usuário não autenticado");
 
-      const { data, error } = await supabase
+      let query = supabase
         .from("business_hours")
         .select("*")
-        .eq("user_id", user.id)
-        .order("day_of_week");
+        .eq("user_id", await resolveDataOwnerId(user.id));
+
+      query = unitId
+        ? query.or(`unit_id.is.null,unit_id.eq.${unitId}`)
+        : query.is("unit_id", null);
+
+      const { data, error } = await query.order("day_of_week");
 
       if (error) throw error;
       return data as BusinessHour[];
     },
   });
 
-  // Fetch holidays
+  // Fetch company and unit holidays
   const { data: holidays = [], isLoading: isLoadingHolidays } = useQuery({
-    queryKey: ["holidays"],
+    queryKey: ["holidays", unitId],
     queryFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Usuário não autenticado");
 
-      const { data, error } = await supabase
+      let query = supabase
         .from("holidays")
         .select("*")
-        .eq("user_id", user.id)
-        .order("date");
+        .eq("user_id", await resolveDataOwnerId(user.id));
+
+      query = unitId
+        ? query.or(`unit_id.is.null,unit_id.eq.${unitId}`)
+        : query.is("unit_id", null);
+
+      const { data, error } = await query.order("date");
 
       if (error) throw error;
       return data as Holiday[];
     },
   });
 
-  // Initialize default hours if none exist
+  const { companyHours, hasUnitHours, businessHours } = useMemo(() => {
+    const company = allHours.filter(h => !h.unit_id);
+    const unit = unitId ? allHours.filter(h => h.unit_id === unitId) : [];
+    return {
+      companyHours: company,
+      hasUnitHours: unit.length > 0,
+      businessHours: unit.length > 0 ? unit : company,
+    };
+  }, [allHours, unitId]);
+
+  // Initialize company default hours if none exist
   const initializeDefaultHours = useMutation({
     mutationFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -90,6 +116,7 @@ export function useBusinessHours() {
       const hoursToInsert = DEFAULT_HOURS.map(h => ({
         ...h,
         user_id: user.id,
+        unit_id: null,
       }));
 
       const { error } = await supabase
@@ -106,7 +133,7 @@ export function useBusinessHours() {
     },
   });
 
-  // Update business hour
+  // Update business hour of the current scope (company default or unit)
   const updateBusinessHour = useMutation({
     mutationFn: async (hour: Partial<BusinessHour> & { day_of_week: number }) => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -116,12 +143,13 @@ export function useBusinessHours() {
         .from("business_hours")
         .upsert({
           user_id: user.id,
+          unit_id: unitId,
           day_of_week: hour.day_of_week,
           is_open: hour.is_open,
           opening_time: hour.opening_time,
           closing_time: hour.closing_time,
         }, {
-          onConflict: "user_id,day_of_week",
+          onConflict: "user_id,unit_id,day_of_week",
         });
 
       if (error) throw error;
@@ -136,7 +164,29 @@ export function useBusinessHours() {
     },
   });
 
-  // Add holiday
+  // Remove the unit's own week so it follows the company default again
+  const resetUnitHours = useMutation({
+    mutationFn: async () => {
+      if (!unitId) return;
+
+      const { error } = await supabase
+        .from("business_hours")
+        .delete()
+        .eq("unit_id", unitId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["business-hours"] });
+      toast.success("A unidade voltou a seguir o horário padrão");
+    },
+    onError: (error) => {
+      toast.error("Erro ao restaurar horário padrão");
+      console.error(error);
+    },
+  });
+
+  // Add holiday to the current scope (company-wide or unit only)
   const addHoliday = useMutation({
     mutationFn: async ({ date, name }: { date: string; name: string }) => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -146,6 +196,7 @@ export function useBusinessHours() {
         .from("holidays")
         .insert({
           user_id: user.id,
+          unit_id: unitId,
           date,
           name,
         });
@@ -248,10 +299,13 @@ export function useBusinessHours() {
 
   return {
     businessHours,
+    companyHours,
+    hasUnitHours,
     holidays,
     isLoading: isLoadingHours || isLoadingHolidays,
     initializeDefaultHours,
     updateBusinessHour,
+    resetUnitHours,
     addHoliday,
     removeHoliday,
     getHoursForDay,
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { resolveDataOwnerId } from "@/hooks/useUserRole";
 import { useToast } from "@/hooks/use-toast";
 
 export interface BusinessSettings {
@@ -66,7 +67,7 @@ export function useBusinessSettings() {
       const { data, error } = await supabase
         .from("business_settings")
         .select("*")
-        .eq("user_id", user.id)
+        .eq("user_id", await resolveDataOwnerId(user.id))
         .maybeSingle();
 
       if (error) throw error;
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CampaignVariantStats {
+  variant_id: string;
+  label: string;
+  message_template: string;
+  recipients: number;
+  sent: number;
+  failed: number;
+  converted: number;
+}
+
+export const getConversionRate = (variant: CampaignVariantStats) =>
+  variant.sent > 0 ? variant.converted / variant.sent : 0;
+
+// Highest conversion rate wins; no winner while nobody converted or on a tie
+export function pickWinningVariant(variants: CampaignVariantStats[]): string | null {
+  const ranked = [...variants].sort((a, b) => getConversionRate(b) - getConversionRate(a));
+  if (ranked.length < 2 || ranked[0].converted === 0) return null;
+  if (getConversionRate(ranked[0]) === getConversionRate(ranked[1])) return null;
+  return ranked[0].variant_id;
+}
+
+// Sent/failed/converted per A/B variant (empty for campaigns without variants)
+export function useCampaignVariantStats(campaignId: string | null) {
+  const { data: variants = [], isLoading } = useQuery({
+    queryKey: ["campaign-variant-stats", campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_campaign_variant_stats", {
+        p_campaign_id: campaignId!,
+      });
+
+      if (error) throw error;
+      return (data || []) as CampaignVariantStats[];
+    },
+    enabled: !!campaignId,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    variants,
+    winnerId: pickWinningVariant(variants),
+    isLoading,
+  };
+}
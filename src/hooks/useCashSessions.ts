@@ -0,0 +1,315 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { toast } from "sonner";
+
+export type CashMethod = "cash" | "pix" | "debit_card" | "credit_card";
+export type CashAmounts = Record<CashMethod, number>;
+
+export const CASH_METHODS: { key: CashMethod; label: string }[] = [
+  { key: "cash", label: "Dinheiro" },
+  { key: "pix", label: "PIX" },
+  { key: "debit_card", label: "Débito" },
+  { key: "credit_card", label: "Crédito" },
+];
+
+export interface CashMovement {
+  id: string;
+  session_id: string;
+  movement_type: "withdrawal" | "supply";
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+export interface CashSession {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  status: "open" | "closed";
+  opened_at: string;
+  opening_balance: number;
+  closed_at: string | null;
+  expected_amounts: CashAmounts | null;
+  counted_amounts: CashAmounts | null;
+  discrepancy: number | null;
+  notes: string | null;
+  movements: CashMovement[];
+}
+
+export interface CashSessionSummary {
+  receipts: CashAmounts;
+  sources: { appointments: number; products: number; fees: number; plans: number };
+  // Received without a payment method; shown apart so it doesn't inflate the drawer
+  unassigned: number;
+  supplies: number;
+  withdrawals: number;
+  expected: CashAmounts;
+}
+
+const emptyAmounts = (): CashAmounts => ({ cash: 0, pix: 0, debit_card: 0, credit_card: 0 });
+
+export function sumAmounts(amounts: CashAmounts | null): number {
+  if (!amounts) return 0;
+  return CASH_METHODS.reduce((sum, method) => sum + Number(amounts[method.key] || 0), 0);
+}
+
+// Everything received while the register was open: appointments completed, product sales,
+// collected client fees and packages sold. Courtesies and package credits carry no money.
+export async function fetchCashSessionSummary(session: CashSession, until: Date): Promise<CashSessionSummary> {
+  const from = session.opened_at;
+  const to = until.toISOString();
+
+  const [appointmentsRes, salesRes, feesRes, plansRes] = await Promise.all([
+    supabase
+      .from("appointments")
+      .select("total_price, payment_method")
+      .eq("unit_id", session.unit_id)
+      .eq("status", "completed")
+      .gte("completed_at", from)
+      .lte("completed_at", to),
+    supabase
+      .from("product_sales")
+      .select("total_price, payment_method")
+      .eq("unit_id", session.unit_id)
+      .gte("sale_date", from)
+      .lte("sale_date", to),
+    supabase
+      .from("client_fees")
+      .select("amount, payment_method")
+      .eq("unit_id", session.unit_id)
+      .eq("status", "paid")
+      .gte("paid_at", from)
+      .lte("paid_at", to),
+    supabase
+      .from("client_plans")
+      .select("price_paid, payment_method")
+      .eq("unit_id", session.unit_id)
+      .gte("created_at", from)
+      .lte("created_at", to),
+  ]);
+
+  const error = appointmentsRes.error || salesRes.error || feesRes.error || plansRes.error;
+  if (error) throw error;
+
+  const receipts = emptyAmounts();
+  let unassigned = 0;
+  const add = (value: number, method: string | null) => {
+    if (!method) {
+      unassigned += Number(value);
+      return 0;
+    }
+    const key = method as CashMethod;
+    if (key in receipts) {
+      receipts[key] += Number(value);
+      return Number(value);
+    }
+    return 0;
+  };
+
+  const sources = {
+    appointments: (appointmentsRes.data || []).reduce((sum, row) => sum + add(row.total_price, row.payment_method), 0),
+    products: (salesRes.data || []).reduce((sum, row) => sum + add(row.total_price, row.payment_method), 0),
+    fees: (feesRes.data || []).reduce((sum, row) => sum + add(row.amount, row.payment_method), 0),
+    plans: (plansRes.data || []).reduce((sum, row) => sum + add(row.price_paid, row.payment_method), 0),
+  };
+
+  const supplies = session.movements
+    .filter((m) => m.movement_type === "supply")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const withdrawals = session.movements
+    .filter((m) => m.movement_type === "withdrawal")
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+
+  return {
+    receipts,
+    sources,
+    unassigned,
+    supplies,
+    withdrawals,
+    expected: {
+      ...receipts,
+      cash: Number(session.opening_balance) + receipts.cash + supplies - withdrawals,
+    },
+  };
+}
+
+const SESSION_SELECT = "*, movements:cash_movements(id, session_id, movement_type, amount, reason, created_at)";
+
+export function useCashSessions() {
+  const { currentUnitId, currentCompanyId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: openSession = null, isLoading } = useQuery({
+    queryKey: ["cash-sessions", "open", currentUnitId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cash_sessions")
+        .select(SESSION_SELECT)
+        .eq("unit_id", currentUnitId!)
+        .eq("status", "open")
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as CashSession | null;
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const { data: closedSessions = [], isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["cash-sessions", "history", currentUnitId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cash_sessions")
+        .select(SESSION_SELECT)
+        .eq("unit_id", currentUnitId!)
+        .eq("status", "closed")
+        .order("opened_at", { ascending: false })
+        .limit(30);
+
+      if (error) throw error;
+      return data as unknown as CashSession[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const { data: summary = null, isLoading: isLoadingSummary } = useQuery({
+    queryKey: ["cash-sessions", "summary", openSession?.id, openSession?.movements.length],
+    queryFn: () => fetchCashSessionSummary(openSession!, new Date()),
+    enabled: !!openSession,
+  });
+
+  // Appointments completed or paid at the front desk change the expected amounts
+  const openSessionId = openSession?.id;
+  useEffect(() => {
+    if (!currentUnitId || !openSessionId) return;
+
+    const channel = supabase
+      .channel(`cash-session-appointments-${currentUnitId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "appointments",
+          filter: `unit_id=eq.${currentUnitId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["cash-sessions", "summary"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUnitId, openSessionId, queryClient]);
+
+  const openRegister = useMutation({
+    mutationFn: async ({ openingBalance, notes }: { openingBalance: number; notes?: string }) => {
+      if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from("cash_sessions")
+        .insert({
+          unit_id: currentUnitId,
+          company_id: currentCompanyId,
+          opening_balance: openingBalance,
+          opened_by: user?.id || null,
+          notes: notes || null,
+        });
+
+      // 23505: unique violation - another register is already open for this unit
+      if (error?.code === "23505") throw new Error("Já existe um caixa aberto nesta unidade");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cash-sessions"] });
+      toast.success("Caixa aberto!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao abrir caixa");
+    },
+  });
+
+  const addMovement = useMutation({
+    mutationFn: async ({ type, amount, reason }: { type: CashMovement["movement_type"]; amount: number; reason: string }) => {
+      if (!openSession) throw new Error("Nenhum caixa aberto");
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from("cash_movements")
+        .insert({
+          session_id: openSession.id,
+          unit_id: openSession.unit_id,
+          movement_type: type,
+          amount,
+          reason,
+          created_by: user?.id || null,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ["cash-sessions"] });
+      toast.success(type === "withdrawal" ? "Sangria registrada" : "Suprimento registrado");
+    },
+    onError: (error) => {
+      toast.error("Erro ao registrar movimentação");
+      console.error(error);
+    },
+  });
+
+  // Expected amounts are recalculated at the moment of closing and stored with the count
+  const closeRegister = useMutation({
+    mutationFn: async ({ counted, notes }: { counted: CashAmounts; notes?: string }) => {
+      if (!openSession) throw new Error("Nenhum caixa aberto");
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const closedAt = new Date();
+      const { expected } = await fetchCashSessionSummary(openSession, closedAt);
+      const discrepancy = Math.round((sumAmounts(counted) - sumAmounts(expected)) * 100) / 100;
+
+      const { data, error } = await supabase
+        .from("cash_sessions")
+        .update({
+          status: "closed",
+          closed_at: closedAt.toISOString(),
+          closed_by: user?.id || null,
+          expected_amounts: expected,
+          counted_amounts: counted,
+          discrepancy,
+          notes: notes || openSession.notes,
+        })
+        .eq("id", openSession.id)
+        .eq("status", "open")
+        .select(SESSION_SELECT)
+        .single();
+
+      if (error) throw error;
+      return data as unknown as CashSession;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cash-sessions"] });
+      toast.success("Caixa fechado!");
+    },
+    onError: (error) => {
+      toast.error("Erro ao fechar caixa");
+      console.error(error);
+    },
+  });
+
+  return {
+    openSession,
+    closedSessions,
+    summary,
+    isLoading,
+    isLoadingHistory,
+    isLoadingSummary,
+    openRegister,
+    addMovement,
+    closeRegister,
+  };
+}
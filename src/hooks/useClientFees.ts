@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { DateRange } from "@/hooks/useFinancialData";
+
+export type ClientFeeType = "late_cancellation" | "no_show";
+export type ClientFeeStatus = "pending" | "paid" | "waived";
+
+export interface ClientFee {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  client_id: string | null;
+  client_name: string;
+  client_phone: string | null;
+  appointment_id: string | null;
+  cancellation_id: string | null;
+  fee_type: ClientFeeType;
+  fee_percent: number;
+  base_amount: number;
+  amount: number;
+  scheduled_time: string;
+  status: ClientFeeStatus;
+  paid_at: string | null;
+  payment_method: string | null;
+  paid_appointment_id: string | null;
+  waived_reason: string | null;
+  created_at: string;
+}
+
+export const FEE_TYPE_LABELS: Record<ClientFeeType, string> = {
+  late_cancellation: "Cancelamento tardio",
+  no_show: "Falta",
+};
+
+export const FEE_STATUS_LABELS: Record<ClientFeeStatus, string> = {
+  pending: "Pendente",
+  paid: "Pago",
+  waived: "Dispensado",
+};
+
+export function sumFees(fees: ClientFee[]): number {
+  return fees.reduce((sum, fee) => sum + Number(fee.amount), 0);
+}
+
+// Fees are created by a database trigger when a late cancellation or no-show is recorded.
+// A registered client is matched by client_id; the agenda only knows the phone.
+export function usePendingClientFees({
+  unitId,
+  clientId,
+  clientPhone,
+}: {
+  unitId: string | null | undefined;
+  clientId?: string | null;
+  clientPhone?: string | null;
+}) {
+  const { data: fees = [], isLoading } = useQuery({
+    queryKey: ["client-fees", "pending", unitId, clientId, clientPhone],
+    queryFn: async () => {
+      let query = supabase
+        .from("client_fees")
+        .select("*")
+        .eq("unit_id", unitId!)
+        .eq("status", "pending")
+        .order("scheduled_time", { ascending: true });
+
+      query = clientId ? query.eq("client_id", clientId) : query.eq("client_phone", clientPhone!);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as ClientFee[];
+    },
+    enabled: !!unitId && (!!clientId || !!clientPhone),
+  });
+
+  return { fees, totalPending: sumFees(fees), isLoading };
+}
+
+export function useClientFeesReport(unitId: string | null | undefined, dateRange: DateRange) {
+  const { data: fees = [], isLoading } = useQuery({
+    queryKey: ["client-fees", "report", unitId, dateRange.start.toISOString(), dateRange.end.toISOString()],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("client_fees")
+        .select("*")
+        .eq("unit_id", unitId!)
+        .gte("created_at", dateRange.start.toISOString())
+        .lte("created_at", dateRange.end.toISOString())
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as ClientFee[];
+    },
+    enabled: !!unitId,
+  });
+
+  return { fees, isLoading };
+}
+
+export function useClientFeeActions() {
+  const queryClient = useQueryClient();
+
+  // Collected together with the service of the client's next completed appointment
+  const payFees = useMutation({
+    mutationFn: async ({ feeIds, paymentMethod, appointmentId }: { feeIds: string[]; paymentMethod: string; appointmentId?: string }) => {
+      if (feeIds.length === 0) return;
+
+      const { error } = await supabase
+        .from("client_fees")
+        .update({
+          status: "paid",
+          paid_at: new Date().toISOString(),
+          payment_method: paymentMethod,
+          paid_appointment_id: appointmentId || null,
+        })
+        .in("id", feeIds)
+        .eq("status", "pending");
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-fees"] });
+      toast.success("Taxas pendentes recebidas");
+    },
+    onError: (error) => {
+      toast.error("Erro ao registrar pagamento das taxas");
+      console.error(error);
+    },
+  });
+
+  const waiveFee = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const { error } = await supabase
+        .from("client_fees")
+        .update({ status: "waived", waived_reason: reason })
+        .eq("id", id)
+        .eq("status", "pending");
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-fees"] });
+      toast.success("Taxa dispensada");
+    },
+    onError: (error) => {
+      toast.error("Erro ao dispensar taxa");
+      console.error(error);
+    },
+  });
+
+  return { payFees, waiveFee };
+}
@@ -0,0 +1,233 @@
+import { useQuery } from "@tanstack/react-query";
+import { differenceInDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getPhoneVariations } from "@/lib/phone";
+
+type AppointmentStatus = Database["public"]["Enums"]["appointment_status"];
+
+export type ClientTimelineEvent =
+  | {
+      kind: "appointment";
+      id: string;
+      date: string;
+      status: AppointmentStatus;
+      services: string[];
+      barberName: string | null;
+      price: number;
+      paymentMethod: string | null;
+      dependentName: string | null;
+    }
+  | {
+      kind: "product";
+      id: string;
+      date: string;
+      productName: string;
+      quantity: number;
+      price: number;
+      paymentMethod: string | null;
+    }
+  | {
+      kind: "cancellation";
+      id: string;
+      date: string;
+      scheduledTime: string;
+      isNoShow: boolean;
+      isLate: boolean;
+      serviceName: string;
+      barberName: string;
+    }
+  | {
+      kind: "message";
+      id: string;
+      date: string;
+      source: "automation" | "campaign";
+      // automation_type for automations, message preview for campaigns
+      label: string;
+      status: string;
+    };
+
+export interface ClientHistoryMetrics {
+  // Completed appointments + product purchases
+  lifetimeValue: number;
+  appointmentsRevenue: number;
+  productsRevenue: number;
+  completedVisits: number;
+  averageTicket: number;
+  // Average days between completed visits (null with fewer than 2 visits)
+  averageReturnDays: number | null;
+  favoriteBarber: { name: string; visits: number } | null;
+  noShows: number;
+  cancellations: number;
+}
+
+export interface ClientHistoryClient {
+  id: string;
+  unit_id: string;
+  name: string;
+  phone: string;
+}
+
+export function summarizeClientHistory(events: ClientTimelineEvent[]): ClientHistoryMetrics {
+  const completed = events
+    .filter((e): e is Extract<ClientTimelineEvent, { kind: "appointment" }> =>
+      e.kind === "appointment" && e.status === "completed"
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const products = events.filter(
+    (e): e is Extract<ClientTimelineEvent, { kind: "product" }> => e.kind === "product"
+  );
+  const cancellations = events.filter(
+    (e): e is Extract<ClientTimelineEvent, { kind: "cancellation" }> => e.kind === "cancellation"
+  );
+
+  const appointmentsRevenue = completed.reduce((sum, a) => sum + Number(a.price || 0), 0);
+  const productsRevenue = products.reduce((sum, p) => sum + p.price, 0);
+
+  const barberVisits = new Map<string, number>();
+  completed.forEach((a) => {
+    if (a.barberName) barberVisits.set(a.barberName, (barberVisits.get(a.barberName) || 0) + 1);
+  });
+  const favorite = Array.from(barberVisits.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    lifetimeValue: appointmentsRevenue + productsRevenue,
+    appointmentsRevenue,
+    productsRevenue,
+    completedVisits: completed.length,
+    averageTicket: completed.length > 0 ? appointmentsRevenue / completed.length : 0,
+    averageReturnDays:
+      completed.length > 1
+        ? differenceInDays(new Date(completed[completed.length - 1].date), new Date(completed[0].date)) /
+          (completed.length - 1)
+        : null,
+    favoriteBarber: favorite ? { name: favorite[0], visits: favorite[1] } : null,
+    noShows: cancellations.filter((c) => c.isNoShow).length,
+    cancellations: cancellations.filter((c) => !c.isNoShow).length,
+  };
+}
+
+// Everything the client did or received, newest first. Appointments, sales and cancellations
+// are linked by unit + phone (with and without the 9th digit); messages by client id / phone.
+export function useClientHistory(client: ClientHistoryClient | null) {
+  return useQuery({
+    queryKey: ["client-history", client?.id, client?.phone],
+    queryFn: async () => {
+      const phones = [client!.phone, ...getPhoneVariations(client!.phone)];
+
+      const [appointmentsRes, salesRes, cancellationsRes, automationRes, campaignRes] = await Promise.all([
+        supabase
+          .from("appointments")
+          .select(`
+            id,
+            start_time,
+            status,
+            total_price,
+            payment_method,
+            client_name,
+            is_dependent,
+            barber:barbers(name),
+            service:services(name),
+            appointment_services(service_name, position)
+          `)
+          .eq("unit_id", client!.unit_id)
+          .in("client_phone", phones)
+          .order("start_time", { ascending: false }),
+        supabase
+          .from("product_sales")
+          .select("id, sale_date, quantity, total_price, payment_method, product:products(name)")
+          .eq("unit_id", client!.unit_id)
+          .in("client_phone", phones)
+          .order("sale_date", { ascending: false }),
+        supabase
+          .from("cancellation_history")
+          .select("id, cancelled_at, scheduled_time, is_no_show, is_late_cancellation, service_name, barber_name")
+          .eq("unit_id", client!.unit_id)
+          .in("client_phone", phones)
+          .order("cancelled_at", { ascending: false }),
+        supabase
+          .from("automation_logs")
+          .select("id, automation_type, sent_at, status")
+          .eq("client_id", client!.id)
+          .order("sent_at", { ascending: false }),
+        supabase
+          .from("campaign_message_logs")
+          .select("id, created_at, sent_at, status, campaign:marketing_campaigns(message_template)")
+          .in("recipient_phone", phones)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (appointmentsRes.error) throw appointmentsRes.error;
+      if (salesRes.error) throw salesRes.error;
+      if (cancellationsRes.error) throw cancellationsRes.error;
+      if (automationRes.error) throw automationRes.error;
+      if (campaignRes.error) throw campaignRes.error;
+
+      const events: ClientTimelineEvent[] = [
+        ...(appointmentsRes.data || []).map((a): ClientTimelineEvent => {
+          const services = [...(a.appointment_services || [])]
+            .sort((x, y) => x.position - y.position)
+            .map((s) => s.service_name);
+          return {
+            kind: "appointment",
+            id: a.id,
+            date: a.start_time,
+            status: a.status,
+            services: services.length > 0 ? services : a.service?.name ? [a.service.name] : [],
+            barberName: a.barber?.name ?? null,
+            price: Number(a.total_price || 0),
+            paymentMethod: a.payment_method,
+            dependentName: a.is_dependent ? a.client_name : null,
+          };
+        }),
+        ...(salesRes.data || []).map(
+          (s): ClientTimelineEvent => ({
+            kind: "product",
+            id: s.id,
+            date: s.sale_date,
+            productName: s.product?.name ?? "Produto",
+            quantity: s.quantity,
+            price: Number(s.total_price || 0),
+            paymentMethod: s.payment_method,
+          })
+        ),
+        ...(cancellationsRes.data || []).map(
+          (c): ClientTimelineEvent => ({
+            kind: "cancellation",
+            id: c.id,
+            date: c.cancelled_at,
+            scheduledTime: c.scheduled_time,
+            isNoShow: c.is_no_show,
+            isLate: c.is_late_cancellation,
+            serviceName: c.service_name,
+            barberName: c.barber_name,
+          })
+        ),
+        ...(automationRes.data || []).map(
+          (m): ClientTimelineEvent => ({
+            kind: "message",
+            id: m.id,
+            date: m.sent_at,
+            source: "automation",
+            label: m.automation_type,
+            status: m.status,
+          })
+        ),
+        ...(campaignRes.data || []).map(
+          (m): ClientTimelineEvent => ({
+            kind: "message",
+            id: m.id,
+            date: m.sent_at || m.created_at,
+            source: "campaign",
+            label: m.campaign?.message_template ?? "",
+            status: m.status,
+          })
+        ),
+      ];
+
+      events.sort((a, b) => b.date.localeCompare(a.date));
+      return { events, metrics: summarizeClientHistory(events) };
+    },
+    enabled: !!client,
+  });
+}
@@ -0,0 +1,170 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { ExistingClientRef, ParsedImportRow } from "@/lib/clientImport";
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 200;
+
+// "skip" keeps existing clients untouched; "update" only fills what is missing and adds tags/visits
+export type DuplicateMode = "skip" | "update";
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// Every client of the unit (paged past the 1000-row API limit) to detect duplicates
+export function useImportExistingClients(unitId: string | null) {
+  return useQuery({
+    queryKey: ["import-existing-clients", unitId],
+    queryFn: async () => {
+      const all: ExistingClientRef[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("clients")
+          .select("id, name, phone")
+          .eq("unit_id", unitId!)
+          .order("created_at", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        all.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return all;
+    },
+    enabled: !!unitId,
+  });
+}
+
+export function useClientImport() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const importClients = useMutation({
+    mutationFn: async ({
+      unitId,
+      rows,
+      duplicateMode,
+    }: {
+      unitId: string;
+      rows: ParsedImportRow[];
+      duplicateMode: DuplicateMode;
+    }): Promise<ImportResult> => {
+      const { data: unit, error: unitError } = await supabase
+        .rpc("get_accessible_units")
+        .select("company_id")
+        .eq("id", unitId)
+        .single();
+
+      if (unitError || !unit) throw new Error("Unidade não encontrada");
+
+      const result: ImportResult = { created: 0, updated: 0, skipped: 0, failed: 0 };
+      const valid = rows.filter((row) => row.errors.length === 0);
+      result.skipped = rows.length - valid.length;
+
+      // New clients, in batches
+      const newRows = valid.filter((row) => row.duplicateOf === null);
+      for (let i = 0; i < newRows.length; i += INSERT_BATCH_SIZE) {
+        const batch = newRows.slice(i, i + INSERT_BATCH_SIZE);
+        const { error } = await supabase.from("clients").insert(
+          batch.map((row) => ({
+            unit_id: unitId,
+            company_id: unit.company_id,
+            name: row.name,
+            phone: row.phone,
+            birth_date: row.birth_date,
+            notes: row.notes,
+            tags: row.tags,
+            total_visits: row.visits,
+            imported_visits: row.visits,
+            last_visit_at: row.last_visit_at,
+          }))
+        );
+
+        if (error) {
+          console.error("Erro ao importar lote de clientes:", error);
+          result.failed += batch.length;
+        } else {
+          result.created += batch.length;
+        }
+      }
+
+      // Repeated rows of the same file: the first one wins
+      const fileDuplicates = valid.filter((row) => row.duplicateOf === "file").length;
+      const existingRows = valid.filter(
+        (row): row is ParsedImportRow & { duplicateOf: { id: string; name: string } } =>
+          row.duplicateOf !== null && row.duplicateOf !== "file"
+      );
+
+      if (duplicateMode === "skip") {
+        result.skipped += fileDuplicates + existingRows.length;
+        return result;
+      }
+      result.skipped += fileDuplicates;
+
+      for (const row of existingRows) {
+        const { data: current } = await supabase
+          .from("clients")
+          .select("birth_date, notes, tags, total_visits, imported_visits, last_visit_at")
+          .eq("id", row.duplicateOf.id)
+          .single();
+
+        if (!current) {
+          result.failed++;
+          continue;
+        }
+
+        const importedVisits = Math.max(current.imported_visits, row.visits);
+        const lastVisit =
+          row.last_visit_at && (!current.last_visit_at || row.last_visit_at > current.last_visit_at)
+            ? row.last_visit_at
+            : current.last_visit_at;
+
+        const { error } = await supabase
+          .from("clients")
+          .update({
+            birth_date: current.birth_date || row.birth_date,
+            notes: current.notes || row.notes,
+            tags: Array.from(new Set([...(current.tags || []), ...row.tags])),
+            imported_visits: importedVisits,
+            total_visits: (current.total_visits || 0) + (importedVisits - current.imported_visits),
+            last_visit_at: lastVisit,
+          })
+          .eq("id", row.duplicateOf.id);
+
+        if (error) {
+          console.error("Erro ao atualizar cliente importado:", error);
+          result.failed++;
+        } else {
+          result.updated++;
+        }
+      }
+
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["clients"] });
+      queryClient.invalidateQueries({ queryKey: ["import-existing-clients"] });
+      toast({
+        title: "Importação concluída!",
+        description: `${result.created} novo(s), ${result.updated} atualizado(s), ${result.skipped} ignorado(s)${
+          result.failed > 0 ? `, ${result.failed} com erro` : ""
+        }`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao importar clientes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return { importClients };
+}
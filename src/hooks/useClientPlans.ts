@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { ServicePlan } from "@/hooks/useServicePlans";
+
+export interface ClientPlan {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  client_id: string;
+  plan_id: string;
+  plan_name: string;
+  credits_total: number;
+  starts_at: string;
+  expires_at: string;
+  price_paid: number;
+  payment_method: string | null;
+  status: "active" | "cancelled";
+  created_at: string;
+  usages: { credits: number }[];
+  plan: { plan_type: ServicePlan["plan_type"]; period_days: number } | null;
+}
+
+export interface PlanForAppointment {
+  id: string;
+  plan_name: string;
+  remaining: number;
+}
+
+export function getRemainingCredits(clientPlan: Pick<ClientPlan, "credits_total" | "usages">): number {
+  const used = (clientPlan.usages || []).reduce((sum, usage) => sum + usage.credits, 0);
+  return Math.max(clientPlan.credits_total - used, 0);
+}
+
+export function isClientPlanUsable(clientPlan: ClientPlan): boolean {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return clientPlan.status === "active" && clientPlan.expires_at >= today && getRemainingCredits(clientPlan) > 0;
+}
+
+// The database picks the plan (see find_client_plan_for_appointment) and consumes it on completion
+export async function getClientPlanForAppointment(appointmentId: string): Promise<PlanForAppointment | null> {
+  const { data: clientPlanId, error } = await supabase.rpc("find_client_plan_for_appointment", {
+    p_appointment_id: appointmentId,
+  });
+
+  if (error || !clientPlanId) {
+    if (error) console.error("Error finding client plan:", error);
+    return null;
+  }
+
+  const { data } = await supabase
+    .from("client_plans")
+    .select("id, plan_name, credits_total, usages:client_plan_usages(credits)")
+    .eq("id", clientPlanId)
+    .maybeSingle();
+
+  if (!data) return null;
+  return { id: data.id, plan_name: data.plan_name, remaining: getRemainingCredits(data) };
+}
+
+export function useClientPlans(clientId: string | null | undefined, unitId: string | null | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: clientPlans = [], isLoading } = useQuery({
+    queryKey: ["client-plans", clientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("client_plans")
+        .select(`
+          *,
+          usages:client_plan_usages(credits),
+          plan:service_plans(plan_type, period_days)
+        `)
+        .eq("client_id", clientId!)
+        .order("expires_at", { ascending: false });
+
+      if (error) throw error;
+      return data as ClientPlan[];
+    },
+    enabled: !!clientId,
+  });
+
+  // Subscriptions are renewed by selling the next period, starting the day after the current one ends
+  const sellPlan = useMutation({
+    mutationFn: async ({ plan, paymentMethod, startsAt }: { plan: ServicePlan; paymentMethod: string; startsAt: string }) => {
+      if (!clientId || !unitId) throw new Error("Cliente não selecionado");
+
+      const { error } = await supabase
+        .from("client_plans")
+        .insert({
+          unit_id: unitId,
+          company_id: plan.company_id,
+          client_id: clientId,
+          plan_id: plan.id,
+          plan_name: plan.name,
+          credits_total: plan.credits,
+          starts_at: startsAt,
+          expires_at: format(addDays(parseISO(startsAt), plan.period_days - 1), "yyyy-MM-dd"),
+          price_paid: plan.price,
+          payment_method: paymentMethod,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-plans"] });
+      toast({ title: "Plano vendido!", description: "Os créditos já estão disponíveis para o cliente." });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao vender plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelPlan = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("client_plans")
+        .update({ status: "cancelled" })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-plans"] });
+      toast({ title: "Plano cancelado" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao cancelar plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    clientPlans,
+    usablePlans: clientPlans.filter(isClientPlanUsable),
+    isLoading,
+    sellPlan,
+    cancelPlan,
+  };
+}
@@ -0,0 +1,195 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 1000;
+
+// Every condition is optional; the ones present are combined with AND.
+// Evaluated by the get_segment_client_ids database function.
+export interface SegmentRules {
+  tags?: string[];
+  tags_mode?: "any" | "all";
+  min_visits?: number;
+  max_visits?: number;
+  visited_within_days?: number;
+  not_visited_days?: number;
+  min_spent?: number;
+  max_spent?: number;
+  preferred_barber_id?: string;
+  service_ids?: string[];
+  min_loyalty_cuts?: number;
+  min_courtesies?: number;
+  has_upcoming_appointment?: boolean;
+  birthday_month?: boolean;
+}
+
+export interface ClientSegment {
+  id: string;
+  company_id: string;
+  unit_id: string | null;
+  name: string;
+  description: string | null;
+  rules: SegmentRules;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientSegmentFormData {
+  name: string;
+  description?: string;
+  unit_id: string | null;
+  rules: SegmentRules;
+}
+
+// Drops empty values so the stored rules only hold real conditions
+export function cleanSegmentRules(rules: SegmentRules): SegmentRules {
+  const cleaned: SegmentRules = {};
+  (Object.keys(rules) as (keyof SegmentRules)[]).forEach((key) => {
+    const value = rules[key];
+    if (value === undefined || value === null || value === "") return;
+    if (Array.isArray(value) && value.length === 0) return;
+    if (typeof value === "number" && Number.isNaN(value)) return;
+    (cleaned as Record<string, unknown>)[key] = value;
+  });
+  if (!cleaned.tags) delete cleaned.tags_mode;
+  if (cleaned.birthday_month === false) delete cleaned.birthday_month;
+  return cleaned;
+}
+
+export async function fetchSegmentClientIds(
+  companyId: string,
+  rules: SegmentRules,
+  unitId?: string | null
+): Promise<string[]> {
+  const ids: string[] = [];
+  // Paged past the 1000-row API limit
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("get_segment_client_ids", {
+        p_company_id: companyId,
+        p_rules: cleanSegmentRules(rules) as Json,
+        ...(unitId ? { p_unit_id: unitId } : {}),
+      })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    ids.push(...((data || []) as string[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return ids;
+}
+
+export function useClientSegments() {
+  const { currentCompanyId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: segments = [], isLoading } = useQuery({
+    queryKey: ["client-segments", currentCompanyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("client_segments")
+        .select("*")
+        .eq("company_id", currentCompanyId!)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as ClientSegment[];
+    },
+    enabled: !!currentCompanyId,
+  });
+
+  const createSegment = useMutation({
+    mutationFn: async (segment: ClientSegmentFormData) => {
+      if (!currentCompanyId) throw new Error("Empresa não encontrada");
+
+      const { data, error } = await supabase
+        .from("client_segments")
+        .insert({
+          company_id: currentCompanyId,
+          unit_id: segment.unit_id,
+          name: segment.name,
+          description: segment.description || null,
+          rules: cleanSegmentRules(segment.rules) as Json,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-segments"] });
+      toast.success("Segmento criado!");
+    },
+    onError: (error) => {
+      console.error("Erro ao criar segmento:", error);
+      toast.error("Erro ao criar segmento");
+    },
+  });
+
+  const updateSegment = useMutation({
+    mutationFn: async ({ id, ...segment }: ClientSegmentFormData & { id: string }) => {
+      const { error } = await supabase
+        .from("client_segments")
+        .update({
+          unit_id: segment.unit_id,
+          name: segment.name,
+          description: segment.description || null,
+          rules: cleanSegmentRules(segment.rules) as Json,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-segments"] });
+      queryClient.invalidateQueries({ queryKey: ["segment-clients"] });
+      toast.success("Segmento atualizado!");
+    },
+    onError: (error) => {
+      console.error("Erro ao atualizar segmento:", error);
+      toast.error("Erro ao atualizar segmento");
+    },
+  });
+
+  const deleteSegment = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("client_segments").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-segments"] });
+      queryClient.invalidateQueries({ queryKey: ["marketing-settings"] });
+      toast.success("Segmento excluído!");
+    },
+    onError: (error) => {
+      console.error("Erro ao excluir segmento:", error);
+      toast.error("Erro ao excluir segmento");
+    },
+  });
+
+  return {
+    segments,
+    isLoading,
+    createSegment,
+    updateSegment,
+    deleteSegment,
+  };
+}
+
+// Live list of client ids matching the rules (opted-out clients are always excluded)
+export function useSegmentClients(rules: SegmentRules | null | undefined, unitId?: string | null) {
+  const { currentCompanyId } = useCurrentUnit();
+  const cleaned = rules ? cleanSegmentRules(rules) : null;
+
+  const { data: clientIds = [], isLoading, isFetching } = useQuery({
+    queryKey: ["segment-clients", currentCompanyId, unitId ?? null, JSON.stringify(cleaned)],
+    queryFn: () => fetchSegmentClientIds(currentCompanyId!, cleaned!, unitId),
+    enabled: !!currentCompanyId && !!cleaned,
+    staleTime: 30 * 1000,
+  });
+
+  return { clientIds, count: clientIds.length, isLoading: !!cleaned && isLoading, isFetching };
+}
@@ -41,6 +41,27 @@ interface UseClientsOptions {
   unitIdFilter?: string | null; // null = all units, string = specific unit
 }
 
+const CLIENT_SELECT = "*, client_dependents(count)";
+const PAGE_SIZE = 1000;
+
+// Units the user can see (staff have no direct access to the units table), by id
+async function fetchUserUnitNames(): Promise<Map<string, string>> {
+  const { data: userUnits } = await supabase
+    .rpc("get_accessible_units")
+    .select("id, name");
+
+  return new Map((userUnits || []).map(u => [u.id, u.name]));
+}
+
+function mapClientRows(data: unknown[] | null, unitNames: Map<string, string>): Client[] {
+  return (data || []).map((item: any) => ({
+    ...item,
+    unit_name: unitNames.get(item.unit_id) || "Unidade desconhecida",
+    dependents_count: item.client_dependents?.[0]?.count || 0,
+    client_dependents: undefined,
+  })) as Client[];
+}
+
 export function useClients(filterOrOptions: ClientFilter | UseClientsOptions = "all") {
   const { currentUnitId } = useCurrentUnit();
   const queryClient = useQueryClient();
@@ -57,37 +78,27 @@ export function useClients(filterOrOptions: ClientFilter | UseClientsOptions = "
   const query = useQuery({
     queryKey: ["clients", unitIdFilter, filter],
     queryFn: async () => {
+      const unitNames = await fetchUserUnitNames();
+
       let query = supabase
         .from("clients")
-        .select("*, units!inner(name), client_dependents(count)")
+        .select(CLIENT_SELECT)
         .order("name", { ascending: true });
 
       // Filter by unit
       if (unitIdFilter) {
         query = query.eq("unit_id", unitIdFilter);
       } else {
-        // Get all units owned by the user first
-        const { data: userUnits } = await supabase
-          .from("units")
-          .select("id");
-        
-        if (!userUnits || userUnits.length === 0) return [];
-        
-        const unitIds = userUnits.map(u => u.id);
-        query = query.in("unit_id", unitIds);
+        if (unitNames.size === 0) return [];
+
+        query = query.in("unit_id", [...unitNames.keys()]);
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
 
-      let clients = (data || []).map((item: any) => ({
-        ...item,
-        unit_name: item.units?.name || "Unidade desconhecida",
-        dependents_count: item.client_dependents?.[0]?.count || 0,
-        units: undefined,
-        client_dependents: undefined,
-      })) as Client[];
+      let clients = mapClientRows(data, unitNames);
 
       // Apply filters
       if (filter === "birthday_month") {
@@ -119,7 +130,7 @@ export function useClients(filterOrOptions: ClientFilter | UseClientsOptions = "
       if (!targetUnitId) throw new Error("Unidade não selecionada");
 
       const { data: unit } = await supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("company_id")
         .eq("id", targetUnitId)
         .single();
@@ -228,6 +239,29 @@ export function useClients(filterOrOptions: ClientFilter | UseClientsOptions = "
     },
   });
 
+  // Keeps targetId and folds sourceId into it (history, dependents and fidelity counters)
+  const mergeClients = useMutation({
+    mutationFn: async ({ targetId, sourceId }: { targetId: string; sourceId: string }) => {
+      const { error } = await supabase.rpc("merge_clients", {
+        p_target_id: targetId,
+        p_source_id: sourceId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["clients"] });
+      queryClient.invalidateQueries({ queryKey: ["client-dependents"] });
+      toast({ title: "Clientes mesclados com sucesso!" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao mesclar clientes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
     clients: query.data || [],
     isLoading: query.isLoading,
@@ -235,5 +269,36 @@ export function useClients(filterOrOptions: ClientFilter | UseClientsOptions = "
     updateClient,
     deleteClient,
     toggleMarketingOptOut,
+    mergeClients,
   };
 }
+
+// Every client of the unit (or of all units), paged past the 1000-row API limit,
+// so duplicate detection sees the whole base
+export function useAllClients(unitIdFilter: string | null, enabled = true) {
+  return useQuery({
+    queryKey: ["clients", "all-pages", unitIdFilter],
+    queryFn: async () => {
+      const unitNames = await fetchUserUnitNames();
+      const unitIds = unitIdFilter ? [unitIdFilter] : [...unitNames.keys()];
+      if (unitIds.length === 0) return [];
+
+      const all: Client[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("clients")
+          .select(CLIENT_SELECT)
+          .in("unit_id", unitIds)
+          .order("name", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        all.push(...mapClientRows(data, unitNames));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return all;
+    },
+    enabled,
+  });
+}
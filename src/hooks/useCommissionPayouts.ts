@@ -0,0 +1,450 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { calculateAppointmentCommission, type FinancialAppointment } from "@/hooks/useFinancialData";
+import { toast } from "sonner";
+
+export interface CommissionPayoutItem {
+  id: string;
+  payout_id: string;
+  item_type: "appointment" | "product_sale";
+  appointment_id: string | null;
+  product_sale_id: string | null;
+  description: string;
+  item_date: string;
+  amount: number;
+  commission: number;
+}
+
+export interface BarberAdvance {
+  id: string;
+  unit_id: string;
+  barber_id: string;
+  amount: number;
+  description: string | null;
+  advance_date: string;
+  payout_id: string | null;
+  created_at: string;
+  barber?: { id: string; name: string } | null;
+}
+
+export interface CommissionPayout {
+  id: string;
+  unit_id: string;
+  barber_id: string;
+  period_start: string;
+  period_end: string;
+  services_total: number;
+  service_commission: number;
+  products_total: number;
+  product_commission: number;
+  advances_total: number;
+  net_amount: number;
+  status: "pending" | "paid";
+  paid_at: string | null;
+  payment_method: string | null;
+  notes: string | null;
+  created_at: string;
+  barber?: { id: string; name: string } | null;
+  items?: CommissionPayoutItem[];
+  advances?: BarberAdvance[];
+}
+
+export interface StatementBarber {
+  id: string;
+  name: string;
+  commission_rate: number | null;
+  product_commission_rate?: number | null;
+  debit_card_fee_percent?: number | null;
+  credit_card_fee_percent?: number | null;
+}
+
+export interface CommissionSettings {
+  debitFeePercent: number;
+  creditFeePercent: number;
+  calculationBase: "gross" | "net";
+}
+
+export type StatementItem = Omit<CommissionPayoutItem, "id" | "payout_id">;
+
+export interface CommissionStatementPreview {
+  items: StatementItem[];
+  advances: BarberAdvance[];
+  servicesTotal: number;
+  serviceCommission: number;
+  productsTotal: number;
+  productCommission: number;
+  advancesTotal: number;
+  netAmount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Appointments and product sales of the period that were not settled yet, plus every open advance
+// up to the end of the period. Values are snapshotted into the statement when it is generated.
+export async function buildCommissionStatement(
+  unitId: string,
+  barber: StatementBarber,
+  period: { start: Date; end: Date },
+  settings: CommissionSettings
+): Promise<CommissionStatementPreview> {
+  const from = period.start.toISOString();
+  const to = period.end.toISOString();
+
+  const [appointmentsRes, salesRes, advancesRes] = await Promise.all([
+    supabase
+      .from("appointments")
+      .select(`
+        id,
+        client_name,
+        start_time,
+        total_price,
+        payment_method,
+        service:services(id, name, price),
+        services:appointment_services(id, service_id, service_name, price, duration_minutes, position)
+      `)
+      .eq("unit_id", unitId)
+      .eq("barber_id", barber.id)
+      .eq("status", "completed")
+      .gte("start_time", from)
+      .lte("start_time", to)
+      .order("start_time", { ascending: true }),
+    supabase
+      .from("product_sales")
+      .select("id, sale_date, total_price, quantity, product:products(name)")
+      .eq("unit_id", unitId)
+      .eq("barber_id", barber.id)
+      .gte("sale_date", from)
+      .lte("sale_date", to)
+      .order("sale_date", { ascending: true }),
+    supabase
+      .from("barber_advances")
+      .select("*")
+      .eq("unit_id", unitId)
+      .eq("barber_id", barber.id)
+      .is("payout_id", null)
+      .lte("advance_date", format(period.end, "yyyy-MM-dd"))
+      .order("advance_date", { ascending: true }),
+  ]);
+
+  const error = appointmentsRes.error || salesRes.error || advancesRes.error;
+  if (error) throw error;
+
+  const appointments = appointmentsRes.data || [];
+  const sales = salesRes.data || [];
+
+  // Skip anything already included in another statement
+  const settledAppointments = new Set<string>();
+  const settledSales = new Set<string>();
+  if (appointments.length > 0) {
+    const { data, error } = await supabase
+      .from("commission_payout_items")
+      .select("appointment_id")
+      .in("appointment_id", appointments.map((a) => a.id));
+    if (error) throw error;
+    (data || []).forEach((row) => row.appointment_id && settledAppointments.add(row.appointment_id));
+  }
+  if (sales.length > 0) {
+    const { data, error } = await supabase
+      .from("commission_payout_items")
+      .select("product_sale_id")
+      .in("product_sale_id", sales.map((s) => s.id));
+    if (error) throw error;
+    (data || []).forEach((row) => row.product_sale_id && settledSales.add(row.product_sale_id));
+  }
+
+  const items: StatementItem[] = [];
+
+  appointments
+    .filter((apt) => !settledAppointments.has(apt.id))
+    .forEach((apt) => {
+      const appointment = {
+        ...apt,
+        service: Array.isArray(apt.service) ? apt.service[0] : apt.service,
+        services: apt.services || [],
+      } as Pick<FinancialAppointment, "total_price" | "payment_method" | "service" | "services">;
+      const commission = calculateAppointmentCommission(
+        appointment,
+        barber.commission_rate,
+        settings.debitFeePercent,
+        settings.creditFeePercent,
+        settings.calculationBase,
+        barber.debit_card_fee_percent,
+        barber.credit_card_fee_percent
+      );
+      const serviceNames = appointment.services.length > 0
+        ? [...appointment.services].sort((a, b) => a.position - b.position).map((s) => s.service_name).join(" + ")
+        : appointment.service?.name || "Serviço";
+
+      items.push({
+        item_type: "appointment",
+        appointment_id: apt.id,
+        product_sale_id: null,
+        description: `${serviceNames} - ${apt.client_name}`,
+        item_date: apt.start_time,
+        amount: Number(apt.total_price),
+        commission: round(commission),
+      });
+    });
+
+  const productRate = barber.product_commission_rate ?? 0;
+  sales
+    .filter((sale) => !settledSales.has(sale.id))
+    .forEach((sale) => {
+      const product = Array.isArray(sale.product) ? sale.product[0] : sale.product;
+      items.push({
+        item_type: "product_sale",
+        appointment_id: null,
+        product_sale_id: sale.id,
+        description: `${sale.quantity}x ${product?.name || "Produto"}`,
+        item_date: sale.sale_date,
+        amount: Number(sale.total_price),
+        commission: round(Number(sale.total_price) * (productRate / 100)),
+      });
+    });
+
+  const advances = (advancesRes.data || []) as BarberAdvance[];
+  const sum = <T,>(list: T[], pick: (item: T) => number) => list.reduce((acc, item) => acc + pick(item), 0);
+  const serviceItems = items.filter((i) => i.item_type === "appointment");
+  const productItems = items.filter((i) => i.item_type === "product_sale");
+
+  const serviceCommission = round(sum(serviceItems, (i) => i.commission));
+  const productCommission = round(sum(productItems, (i) => i.commission));
+  const advancesTotal = round(sum(advances, (a) => Number(a.amount)));
+
+  return {
+    items,
+    advances,
+    servicesTotal: round(sum(serviceItems, (i) => i.amount)),
+    serviceCommission,
+    productsTotal: round(sum(productItems, (i) => i.amount)),
+    productCommission,
+    advancesTotal,
+    netAmount: round(serviceCommission + productCommission - advancesTotal),
+  };
+}
+
+const PAYOUT_SELECT = `
+  *,
+  barber:barbers(id, name),
+  items:commission_payout_items(*),
+  advances:barber_advances(*)
+`;
+
+export function useCommissionPayouts(barberId?: string | null) {
+  const { currentUnitId, currentCompanyId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: payouts = [], isLoading } = useQuery({
+    queryKey: ["commission-payouts", currentUnitId, barberId],
+    queryFn: async () => {
+      if (!currentUnitId) return [];
+
+      let query = supabase
+        .from("commission_payouts")
+        .select(PAYOUT_SELECT)
+        .eq("unit_id", currentUnitId)
+        .order("period_end", { ascending: false })
+        .limit(50);
+
+      if (barberId) {
+        query = query.eq("barber_id", barberId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as unknown as CommissionPayout[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const { data: openAdvances = [], isLoading: isLoadingAdvances } = useQuery({
+    queryKey: ["barber-advances", currentUnitId, barberId],
+    queryFn: async () => {
+      if (!currentUnitId) return [];
+
+      let query = supabase
+        .from("barber_advances")
+        .select("*, barber:barbers(id, name)")
+        .eq("unit_id", currentUnitId)
+        .is("payout_id", null)
+        .order("advance_date", { ascending: false });
+
+      if (barberId) {
+        query = query.eq("barber_id", barberId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as BarberAdvance[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["commission-payouts"] });
+    queryClient.invalidateQueries({ queryKey: ["barber-advances"] });
+  };
+
+  const createAdvance = useMutation({
+    mutationFn: async (data: { barberId: string; amount: number; description?: string; advanceDate: string }) => {
+      if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from("barber_advances").insert({
+        unit_id: currentUnitId,
+        company_id: currentCompanyId,
+        barber_id: data.barberId,
+        amount: data.amount,
+        description: data.description || null,
+        advance_date: data.advanceDate,
+        created_by: user?.id || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Vale registrado!");
+    },
+    onError: (error) => {
+      toast.error("Erro ao registrar vale");
+      console.error(error);
+    },
+  });
+
+  const deleteAdvance = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("barber_advances").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Vale excluído!");
+    },
+    onError: (error) => {
+      toast.error("Erro ao excluir vale");
+      console.error(error);
+    },
+  });
+
+  const createPayout = useMutation({
+    mutationFn: async ({
+      barberId,
+      period,
+      preview,
+      notes,
+    }: {
+      barberId: string;
+      period: { start: Date; end: Date };
+      preview: CommissionStatementPreview;
+      notes?: string;
+    }) => {
+      if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
+      if (preview.items.length === 0 && preview.advances.length === 0) {
+        throw new Error("Nada a acertar no período selecionado");
+      }
+      // The RPC recomputes every item from the ids, inserts the statement and claims the advances in
+      // one transaction; anything settled by another statement in the meantime aborts the whole generation
+      const { data: payoutId, error } = await supabase.rpc("create_commission_payout", {
+        p_unit_id: currentUnitId,
+        p_barber_id: barberId,
+        p_period_start: format(period.start, "yyyy-MM-dd"),
+        p_period_end: format(period.end, "yyyy-MM-dd"),
+        p_notes: notes || "",
+        p_appointment_ids: preview.items.flatMap((i) => (i.appointment_id ? [i.appointment_id] : [])),
+        p_product_sale_ids: preview.items.flatMap((i) => (i.product_sale_id ? [i.product_sale_id] : [])),
+        p_advance_ids: preview.advances.map((a) => a.id),
+      });
+      if (error) throw error;
+
+      return payoutId;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Extrato de comissão gerado!");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao gerar extrato");
+    },
+  });
+
+  const markPaid = useMutation({
+    mutationFn: async ({ id, paymentMethod }: { id: string; paymentMethod: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from("commission_payouts")
+        .update({
+          status: "paid",
+          paid_at: new Date().toISOString(),
+          paid_by: user?.id || null,
+          payment_method: paymentMethod,
+        })
+        .eq("id", id)
+        .eq("status", "pending");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Acerto marcado como pago!");
+    },
+    onError: (error) => {
+      toast.error("Erro ao registrar pagamento");
+      console.error(error);
+    },
+  });
+
+  // Only pending statements can be removed; their appointments, sales and advances are released
+  const deletePayout = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("commission_payouts")
+        .delete()
+        .eq("id", id)
+        .eq("status", "pending");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Extrato excluído!");
+    },
+    onError: (error) => {
+      toast.error("Erro ao excluir extrato");
+      console.error(error);
+    },
+  });
+
+  return {
+    payouts,
+    openAdvances,
+    isLoading,
+    isLoadingAdvances,
+    createAdvance,
+    deleteAdvance,
+    createPayout,
+    markPaid,
+    deletePayout,
+  };
+}
+
+// Statements of the logged-in barber (read-only, via the barber RLS policies)
+export function useBarberStatements(barberId: string | null | undefined) {
+  const { data: statements = [], isLoading } = useQuery({
+    queryKey: ["commission-payouts", "barber", barberId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("commission_payouts")
+        .select(PAYOUT_SELECT)
+        .eq("barber_id", barberId!)
+        .order("period_end", { ascending: false })
+        .limit(24);
+
+      if (error) throw error;
+      return (data || []) as unknown as CommissionPayout[];
+    },
+    enabled: !!barberId,
+  });
+
+  return { statements, isLoading };
+}
@@ -91,7 +91,7 @@ export function useFidelityCourtesy() {
     try {
       // Get fidelity settings from unit (not business_settings anymore)
       const { data: unitSettings } = await supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("fidelity_program_enabled, fidelity_cuts_threshold, fidelity_min_value")
         .eq("id", unitId)
         .maybeSingle();
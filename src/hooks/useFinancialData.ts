@@ -26,6 +26,14 @@ export interface FinancialAppointment {
     name: string;
     price: number;
   } | null;
+  services: {
+    id: string;
+    service_id: string | null;
+    service_name: string;
+    price: number;
+    duration_minutes: number;
+    position: number;
+  }[];
 }
 
 export interface DateRange {
@@ -54,7 +62,8 @@ export function useFinancialData(dateRange?: DateRange, barberId?: string | null
           payment_method,
           notes,
           barber:barbers(id, name, commission_rate, debit_card_fee_percent, credit_card_fee_percent, calendar_color),
-          service:services(id, name, price)
+          service:services(id, name, price),
+          services:appointment_services(id, service_id, service_name, price, duration_minutes, position)
         `)
         .eq("unit_id", currentUnitId)
         .eq("status", "completed")
@@ -78,6 +87,7 @@ export function useFinancialData(dateRange?: DateRange, barberId?: string | null
         ...item,
         barber: Array.isArray(item.barber) ? item.barber[0] : item.barber,
         service: Array.isArray(item.service) ? item.service[0] : item.service,
+        services: item.services || [],
       })) as FinancialAppointment[];
     },
     enabled: !!currentUnitId,
@@ -172,6 +182,57 @@ export function calculateCommissionWithFees(
   return totalPrice * (rate / 100);
 }
 
+// Charged value of each service in the appointment. The amount actually charged (total_price)
+// is split proportionally to the booked prices, so discounts and courtesies reach every service.
+export function getAppointmentServiceValues(
+  appointment: Pick<FinancialAppointment, "total_price" | "service" | "services">
+): { name: string; listPrice: number; value: number }[] {
+  const items = [...(appointment.services || [])].sort((a, b) => a.position - b.position);
+
+  if (items.length === 0) {
+    return [{
+      name: appointment.service?.name || "Serviço",
+      listPrice: appointment.service?.price ?? appointment.total_price,
+      value: appointment.total_price,
+    }];
+  }
+
+  const listTotal = items.reduce((sum, item) => sum + Number(item.price), 0);
+
+  return items.map((item) => ({
+    name: item.service_name,
+    listPrice: Number(item.price),
+    value: listTotal > 0
+      ? appointment.total_price * (Number(item.price) / listTotal)
+      : appointment.total_price / items.length,
+  }));
+}
+
+// Commission of an appointment summed service by service
+export function calculateAppointmentCommission(
+  appointment: Pick<FinancialAppointment, "total_price" | "payment_method" | "service" | "services">,
+  commissionRate: number | null,
+  debitFeePercent: number,
+  creditFeePercent: number,
+  calculationBase: 'gross' | 'net',
+  barberDebitFee?: number | null,
+  barberCreditFee?: number | null
+): number {
+  return getAppointmentServiceValues(appointment).reduce(
+    (sum, item) => sum + calculateCommissionWithFees(
+      item.value,
+      appointment.payment_method,
+      commissionRate,
+      debitFeePercent,
+      creditFeePercent,
+      calculationBase,
+      barberDebitFee,
+      barberCreditFee
+    ),
+    0
+  );
+}
+
 // Calculate profit considering card fees and commission base
 export function calculateProfitWithFees(
   totalPrice: number,
@@ -196,3 +257,26 @@ export function calculateProfitWithFees(
   );
   return totalPrice - cardFee - commission;
 }
+
+// Profit of an appointment using the per-service commission
+export function calculateAppointmentProfit(
+  appointment: Pick<FinancialAppointment, "total_price" | "payment_method" | "service" | "services">,
+  commissionRate: number | null,
+  debitFeePercent: number,
+  creditFeePercent: number,
+  calculationBase: 'gross' | 'net',
+  barberDebitFee?: number | null,
+  barberCreditFee?: number | null
+): number {
+  const cardFee = calculateCardFee(appointment.total_price, appointment.payment_method, debitFeePercent, creditFeePercent, barberDebitFee, barberCreditFee);
+  const commission = calculateAppointmentCommission(
+    appointment,
+    commissionRate,
+    debitFeePercent,
+    creditFeePercent,
+    calculationBase,
+    barberDebitFee,
+    barberCreditFee
+  );
+  return appointment.total_price - cardFee - commission;
+}
@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+
+// automation_logs.automation_type -> label
+export const AUTOMATION_LABELS: Record<string, string> = {
+  birthday: "Aniversário",
+  rescue: "Resgate de clientes",
+  appointment_reminder: "Lembrete de agendamento",
+  nps_survey: "Pesquisa de satisfação",
+  workflow: "Automações personalizadas",
+};
+
+export type AttributionSourceType = "campaign" | "automation";
+
+export interface AttributionRow {
+  source_type: AttributionSourceType;
+  // Campaign id or automation_type (birthday, rescue, appointment_reminder)
+  source_key: string;
+  label: string;
+  started_at: string | null;
+  messages_sent: number;
+  bookings: number;
+  completed_bookings: number;
+  revenue: number;
+  avg_hours_to_book: number | null;
+}
+
+export interface AttributionFilters {
+  start: Date;
+  end: Date;
+  unitId: string | null;
+  windowDays: number;
+}
+
+// Bookings and completed revenue attributed to campaigns and automations (last touch by phone)
+export function useMarketingAttribution({ start, end, unitId, windowDays }: AttributionFilters) {
+  const { currentCompanyId } = useCurrentUnit();
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["marketing-attribution", currentCompanyId, start.toISOString(), end.toISOString(), unitId, windowDays],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_marketing_attribution", {
+        p_company_id: currentCompanyId!,
+        p_start: start.toISOString(),
+        p_end: end.toISOString(),
+        p_window_days: windowDays,
+        ...(unitId ? { p_unit_id: unitId } : {}),
+      });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        revenue: Number(row.revenue),
+        avg_hours_to_book: row.avg_hours_to_book === null ? null : Number(row.avg_hours_to_book),
+      })) as AttributionRow[];
+    },
+    enabled: !!currentCompanyId,
+  });
+
+  const campaigns = rows.filter((r) => r.source_type === "campaign");
+  const automations = rows.filter((r) => r.source_type === "automation");
+
+  const totals = rows.reduce(
+    (acc, r) => ({
+      messagesSent: acc.messagesSent + r.messages_sent,
+      bookings: acc.bookings + r.bookings,
+      completedBookings: acc.completedBookings + r.completed_bookings,
+      revenue: acc.revenue + r.revenue,
+    }),
+    { messagesSent: 0, bookings: 0, completedBookings: 0, revenue: 0 }
+  );
+
+  // Average time-to-book across every attributed booking
+  const bookedRows = rows.filter((r) => r.avg_hours_to_book !== null && r.bookings > 0);
+  const avgHoursToBook =
+    bookedRows.length > 0
+      ? bookedRows.reduce((sum, r) => sum + r.avg_hours_to_book! * r.bookings, 0) /
+        bookedRows.reduce((sum, r) => sum + r.bookings, 0)
+      : null;
+
+  return { campaigns, automations, totals: { ...totals, avgHoursToBook }, isLoading };
+}
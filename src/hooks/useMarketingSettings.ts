@@ -8,6 +8,8 @@ export interface MarketingSettings {
   rescue_automation_enabled: boolean;
   rescue_days_threshold: number;
   rescue_message_template: string;
+  birthday_segment_id: string | null;
+  rescue_segment_id: string | null;
   automation_send_hour: number;
   automation_send_minute: number;
   appointment_reminder_enabled: boolean;
@@ -16,6 +18,11 @@ export interface MarketingSettings {
   vocal_notification_enabled: boolean;
   vocal_cancellation_enabled: boolean;
   vocal_confirmation_enabled: boolean;
+  nps_survey_enabled: boolean;
+  nps_survey_delay_hours: number;
+  nps_survey_template: string | null;
+  nps_followup_enabled: boolean;
+  nps_followup_template: string | null;
 }
 
 export function useMarketingSettings() {
@@ -29,7 +36,7 @@ export function useMarketingSettings() {
 
       const { data, error } = await supabase
         .from("business_settings")
-        .select("birthday_automation_enabled, birthday_message_template, rescue_automation_enabled, rescue_days_threshold, rescue_message_template, automation_send_hour, automation_send_minute, appointment_reminder_enabled, appointment_reminder_minutes, appointment_reminder_template, vocal_notification_enabled, vocal_cancellation_enabled, vocal_confirmation_enabled")
+        .select("birthday_automation_enabled, birthday_message_template, rescue_automation_enabled, rescue_days_threshold, rescue_message_template, birthday_segment_id, rescue_segment_id, automation_send_hour, automation_send_minute, appointment_reminder_enabled, appointment_reminder_minutes, appointment_reminder_template, vocal_notification_enabled, vocal_cancellation_enabled, vocal_confirmation_enabled, nps_survey_enabled, nps_survey_delay_hours, nps_survey_template, nps_followup_enabled, nps_followup_template")
         .eq("user_id", user.id)
         .maybeSingle();
 
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCompany } from "@/hooks/useCompany";
+import { useUserRole } from "@/hooks/useUserRole";
+
+export type PlanTier = "inicial" | "profissional" | "franquias";
+
+export const PLAN_TIER_LABELS: Record<PlanTier, string> = {
+  inicial: "Inicial",
+  profissional: "Profissional",
+  franquias: "Franquias",
+};
+
+export interface PlanEntitlement {
+  feature_key: string;
+  feature_name: string;
+  feature_type: string;
+  value: string | null;
+}
+
+// Reads plan_features resolved for the current company (see get_company_entitlements).
+// The same values are enforced by database triggers and edge functions; this hook only drives the UI.
+export function usePlanEntitlements() {
+  const { company, isLoading: isLoadingCompany } = useCompany();
+  const { staff, isLoading: isLoadingRole } = useUserRole();
+  const companyId = company?.id || staff?.company_id || null;
+
+  const { data, isLoading: isLoadingEntitlements } = useQuery({
+    queryKey: ["plan-entitlements", companyId],
+    queryFn: async () => {
+      if (!companyId) return { tier: null, entitlements: [] as PlanEntitlement[] };
+
+      const { data, error } = await supabase.rpc("get_company_entitlements", { p_company_id: companyId });
+
+      if (error) throw error;
+      return {
+        tier: (data?.[0]?.plan_tier as PlanTier | undefined) ?? null,
+        entitlements: (data || []) as PlanEntitlement[],
+      };
+    },
+    enabled: !!companyId,
+  });
+
+  const entitlements = data?.entitlements ?? [];
+  const planTier = data?.tier ?? null;
+
+  const findEntitlement = (key: string) => entitlements.find((e) => e.feature_key === key);
+
+  // Still resolving the company or its plan; callers should wait before showing a lock
+  const isLoading = isLoadingCompany || isLoadingRole || isLoadingEntitlements;
+
+  // Fails closed: unknown features and the loading state are not allowed
+  const hasFeature = (key: string) => findEntitlement(key)?.value === "true";
+
+  // null = unlimited
+  const getLimit = (key: string): number | null => {
+    const value = findEntitlement(key)?.value;
+    if (!value || !/^\d+$/.test(value)) return null;
+    return Number(value);
+  };
+
+  const isWithinLimit = (key: string, currentCount: number) => {
+    const limit = getLimit(key);
+    return limit === null || currentCount < limit;
+  };
+
+  return {
+    entitlements,
+    planTier,
+    planLabel: planTier ? PLAN_TIER_LABELS[planTier] : null,
+    isLoading,
+    hasFeature,
+    getLimit,
+    isWithinLimit,
+  };
+}
@@ -105,6 +105,7 @@ export function useProductSales(dateRange?: DateRange) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["product-sales"] });
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       toast.success("Venda registrada com sucesso!");
     },
     onError: (error) => {
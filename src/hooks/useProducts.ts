@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { toast } from "sonner";
+import type { ManualStockMovementType } from "@/hooks/useStockMovements";
 
 export interface Product {
   id: string;
@@ -70,6 +71,7 @@ export function useProducts() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       toast.success("Produto cadastrado com sucesso!");
     },
     onError: (error) => {
@@ -79,7 +81,8 @@ export function useProducts() {
   });
 
   const updateProduct = useMutation({
-    mutationFn: async ({ id, ...formData }: ProductFormData & { id: string }) => {
+    // Stock is changed only through adjustStock / purchases / sales
+    mutationFn: async ({ id, ...formData }: Omit<ProductFormData, "stock_quantity"> & { id: string }) => {
       const { data, error } = await supabase
         .from("products")
         .update(formData)
@@ -115,20 +118,33 @@ export function useProducts() {
     },
   });
 
+  // Registers a movement in the stock ledger (adjust_product_stock); the database applies it to stock_quantity
   const adjustStock = useMutation({
-    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
-      const { data, error } = await supabase
-        .from("products")
-        .update({ stock_quantity: quantity })
-        .eq("id", id)
-        .select()
-        .single();
+    mutationFn: async ({
+      product,
+      movementType,
+      quantity,
+      reason,
+    }: {
+      product: Product;
+      movementType: ManualStockMovementType;
+      quantity: number;
+      reason: string;
+    }) => {
+      if (quantity === 0) throw new Error("Quantidade deve ser diferente de zero");
+
+      const { error } = await supabase.rpc("adjust_product_stock", {
+        p_product_id: product.id,
+        p_movement_type: movementType,
+        p_quantity: quantity,
+        p_reason: reason.trim() || null,
+      });
 
       if (error) throw error;
-      return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       toast.success("Estoque ajustado com sucesso!");
     },
     onError: (error) => {
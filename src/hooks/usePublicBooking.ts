@@ -0,0 +1,144 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useRecaptcha } from "@/hooks/useRecaptcha";
+
+export interface PublicBookingUnit {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  timezone: string;
+  picture_url: string | null;
+}
+
+export interface PublicBookingService {
+  id: string;
+  name: string;
+  price: number;
+  duration_minutes: number;
+}
+
+export interface PublicBookingBarber {
+  id: string;
+  name: string;
+  photo_url: string | null;
+}
+
+export interface PublicBookingSlot {
+  time: string;
+  barber_id: string;
+  barber_name: string;
+}
+
+export interface PublicBookingFormData {
+  service_id: string;
+  barber_id: string | null;
+  date: string;
+  time: string;
+  client_name: string;
+  client_phone: string;
+}
+
+export interface PublicBookingConfirmation {
+  id: string;
+  date: string;
+  time: string;
+  barber: string;
+  service: string;
+  total_price: number;
+  status: string;
+}
+
+// Edge function errors come back as a Response in error.context; surface the API message when present
+async function invokePublicBooking<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("public-booking", { body });
+
+  if (error) {
+    let message = "Erro ao processar agendamento";
+    const context = (error as { context?: Response }).context;
+    if (context && typeof context.json === "function") {
+      try {
+        const payload = await context.json();
+        if (payload?.error) message = payload.error;
+      } catch {
+        // Resposta sem corpo JSON - manter mensagem genérica
+      }
+    }
+    throw new Error(message);
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || "Erro ao processar agendamento");
+  }
+
+  return data as T;
+}
+
+export function usePublicBooking(slug: string | undefined) {
+  const { executeRecaptcha } = useRecaptcha();
+
+  const unitQuery = useQuery({
+    queryKey: ["public-booking-unit", slug],
+    queryFn: () =>
+      invokePublicBooking<{
+        unit: PublicBookingUnit;
+        services: PublicBookingService[];
+        barbers: PublicBookingBarber[];
+        max_days_ahead: number;
+      }>({ action: "get_unit", slug }),
+    enabled: !!slug,
+    retry: false,
+  });
+
+  const book = useMutation({
+    mutationFn: async (data: PublicBookingFormData) => {
+      // The edge function rejects bookings without a valid token
+      const recaptchaToken = await executeRecaptcha("public_booking");
+      if (!recaptchaToken) {
+        throw new Error("Não foi possível verificar sua solicitação. Recarregue a página e tente novamente.");
+      }
+
+      const response = await invokePublicBooking<{ appointment: PublicBookingConfirmation }>({
+        action: "book",
+        slug,
+        ...data,
+        recaptcha_token: recaptchaToken,
+      });
+      return response.appointment;
+    },
+  });
+
+  return {
+    unit: unitQuery.data?.unit || null,
+    services: unitQuery.data?.services || [],
+    barbers: unitQuery.data?.barbers || [],
+    maxDaysAhead: unitQuery.data?.max_days_ahead || 60,
+    isLoading: unitQuery.isLoading,
+    error: unitQuery.error,
+    book,
+  };
+}
+
+export function usePublicBookingSlots(
+  slug: string | undefined,
+  date: string | null,
+  serviceId: string | null,
+  barberId: string | null
+) {
+  return useQuery({
+    queryKey: ["public-booking-slots", slug, date, serviceId, barberId],
+    queryFn: () =>
+      invokePublicBooking<{
+        closed: boolean;
+        message: string | null;
+        slots: PublicBookingSlot[];
+      }>({
+        action: "check_availability",
+        slug,
+        date,
+        service_id: serviceId,
+        barber_id: barberId,
+      }),
+    enabled: !!slug && !!date && !!serviceId,
+    retry: false,
+  });
+}
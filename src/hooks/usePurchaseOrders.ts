@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { toast } from "sonner";
+
+export type PurchaseOrderStatus = "draft" | "ordered" | "received" | "cancelled";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Rascunho",
+  ordered: "Pedido enviado",
+  received: "Recebido",
+  cancelled: "Cancelado",
+};
+
+export interface PurchaseOrderItem {
+  id: string;
+  product_id: string | null;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  unit_id: string;
+  supplier_id: string | null;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  total_amount: number;
+  notes: string | null;
+  received_at: string | null;
+  expense_id: string | null;
+  created_at: string;
+  supplier: { name: string } | null;
+  items: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderFormData {
+  supplier_id: string | null;
+  status: Extract<PurchaseOrderStatus, "draft" | "ordered">;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  items: { product_id: string; product_name: string; quantity: number; unit_cost: number }[];
+}
+
+// Low-stock products are reordered up to twice their minimum
+export const suggestedReorderQuantity = (product: { stock_quantity: number; min_stock_alert: number | null }) => {
+  const minimum = product.min_stock_alert || 5;
+  return Math.max(minimum * 2 - product.stock_quantity, 1);
+};
+
+export const purchaseOrderTotal = (items: { quantity: number; unit_cost: number }[]) =>
+  items.reduce((sum, item) => sum + item.quantity * Number(item.unit_cost), 0);
+
+export function usePurchaseOrders() {
+  const { currentUnitId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["purchase-orders", currentUnitId],
+    queryFn: async () => {
+      if (!currentUnitId) return [];
+
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select(
+          "*, supplier:suppliers(name), items:purchase_order_items(id, product_id, product_name, quantity, unit_cost)"
+        )
+        .eq("unit_id", currentUnitId)
+        .order("order_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as PurchaseOrder[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const createOrder = useMutation({
+    // Order and items are created in one transaction by create_purchase_order
+    mutationFn: async ({ items, ...formData }: PurchaseOrderFormData) => {
+      if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
+      if (items.length === 0) throw new Error("Adicione pelo menos um produto");
+
+      const { data: orderId, error } = await supabase.rpc("create_purchase_order", {
+        p_unit_id: currentUnitId,
+        p_supplier_id: formData.supplier_id,
+        p_status: formData.status,
+        p_order_date: formData.order_date,
+        p_expected_date: formData.expected_date,
+        p_notes: formData.notes,
+        p_items: items,
+      });
+
+      if (error) throw error;
+      return { id: orderId };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast.success("Pedido de compra criado com sucesso!");
+    },
+    onError: (error) => {
+      console.error("Error creating purchase order:", error);
+      toast.error("Erro ao criar pedido de compra");
+    },
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: Extract<PurchaseOrderStatus, "ordered" | "cancelled"> }) => {
+      const { error } = await supabase.from("purchase_orders").update({ status }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast.success(status === "cancelled" ? "Pedido cancelado" : "Pedido marcado como enviado");
+    },
+    onError: (error) => {
+      console.error("Error updating purchase order:", error);
+      toast.error("Erro ao atualizar pedido de compra");
+    },
+  });
+
+  // Adds the items to stock and records the expense
+  const receiveOrder = useMutation({
+    mutationFn: async ({ id, paymentMethod }: { id: string; paymentMethod?: string }) => {
+      const { error } = await supabase.rpc("receive_purchase_order", {
+        p_order_id: id,
+        p_payment_method: paymentMethod,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.success("Pedido recebido! Estoque e despesa atualizados.");
+    },
+    onError: (error) => {
+      console.error("Error receiving purchase order:", error);
+      toast.error(error.message || "Erro ao receber pedido de compra");
+    },
+  });
+
+  const deleteOrder = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("purchase_orders").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast.success("Pedido removido com sucesso!");
+    },
+    onError: (error) => {
+      console.error("Error deleting purchase order:", error);
+      toast.error("Erro ao remover pedido de compra");
+    },
+  });
+
+  return {
+    orders,
+    isLoading,
+    createOrder,
+    updateStatus,
+    receiveOrder,
+    deleteOrder,
+  };
+}
@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+
+export type NpsCategory = "promoter" | "passive" | "detractor";
+
+export interface SatisfactionSurvey {
+  id: string;
+  unit_id: string;
+  barber_id: string | null;
+  client_name: string;
+  client_phone: string;
+  status: "sent" | "answered" | "failed";
+  score: number | null;
+  comment: string | null;
+  sent_at: string;
+  answered_at: string | null;
+  follow_up_sent_at: string | null;
+  unit: { name: string } | null;
+  barber: { name: string } | null;
+}
+
+export interface NpsSummary {
+  key: string;
+  name: string;
+  sent: number;
+  answered: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  // -100..100, null while nobody answered
+  nps: number | null;
+}
+
+export interface SurveyFilters {
+  start: Date;
+  end: Date;
+  unitId: string | null;
+}
+
+// 9-10 promotores, 7-8 neutros, 0-6 detratores
+export const getNpsCategory = (score: number): NpsCategory =>
+  score >= 9 ? "promoter" : score >= 7 ? "passive" : "detractor";
+
+function summarize(key: string, name: string, surveys: SatisfactionSurvey[]): NpsSummary {
+  const delivered = surveys.filter((s) => s.status !== "failed");
+  const scores = delivered.filter((s) => s.score !== null).map((s) => s.score!);
+  const promoters = scores.filter((score) => getNpsCategory(score) === "promoter").length;
+  const detractors = scores.filter((score) => getNpsCategory(score) === "detractor").length;
+
+  return {
+    key,
+    name,
+    sent: delivered.length,
+    answered: scores.length,
+    promoters,
+    passives: scores.length - promoters - detractors,
+    detractors,
+    nps: scores.length > 0 ? Math.round(((promoters - detractors) / scores.length) * 100) : null,
+  };
+}
+
+function groupBy(surveys: SatisfactionSurvey[], getKey: (s: SatisfactionSurvey) => [string, string]) {
+  const groups = new Map<string, { name: string; surveys: SatisfactionSurvey[] }>();
+  for (const survey of surveys) {
+    const [key, name] = getKey(survey);
+    const group = groups.get(key) ?? { name, surveys: [] };
+    group.surveys.push(survey);
+    groups.set(key, group);
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarize(key, group.name, group.surveys))
+    .sort((a, b) => (b.nps ?? -101) - (a.nps ?? -101));
+}
+
+// Post-visit satisfaction surveys sent in the period, with NPS overall, per unit and per barber
+export function useSatisfactionSurveys({ start, end, unitId }: SurveyFilters) {
+  const { currentCompanyId } = useCurrentUnit();
+
+  const { data: surveys = [], isLoading } = useQuery({
+    queryKey: ["satisfaction-surveys", currentCompanyId, start.toISOString(), end.toISOString(), unitId],
+    queryFn: async () => {
+      let query = supabase
+        .from("satisfaction_surveys")
+        .select("id, unit_id, barber_id, client_name, client_phone, status, score, comment, sent_at, answered_at, follow_up_sent_at, unit:units(name), barber:barbers(name)")
+        .eq("company_id", currentCompanyId!)
+        .gte("sent_at", start.toISOString())
+        .lte("sent_at", end.toISOString())
+        .order("sent_at", { ascending: false });
+
+      if (unitId) {
+        query = query.eq("unit_id", unitId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as unknown as SatisfactionSurvey[];
+    },
+    enabled: !!currentCompanyId,
+  });
+
+  const overall = summarize("all", "Geral", surveys);
+  const byUnit = groupBy(surveys, (s) => [s.unit_id, s.unit?.name || "Unidade"]);
+  const byBarber = groupBy(surveys, (s) => [s.barber_id || "none", s.barber?.name || "Sem profissional"]);
+  const comments = surveys.filter((s) => s.status === "answered" && s.comment);
+
+  return { surveys, overall, byUnit, byBarber, comments, isLoading };
+}
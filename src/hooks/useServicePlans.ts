@@ -0,0 +1,162 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export type ServicePlanType = "package" | "subscription";
+
+export interface ServicePlan {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  name: string;
+  description: string | null;
+  plan_type: ServicePlanType;
+  price: number;
+  credits: number;
+  period_days: number;
+  is_active: boolean;
+  created_at: string;
+  services: { service_id: string }[];
+}
+
+export interface ServicePlanFormData {
+  name: string;
+  description: string | null;
+  plan_type: ServicePlanType;
+  price: number;
+  credits: number;
+  period_days: number;
+  is_active: boolean;
+  service_ids: string[];
+}
+
+export const PLAN_TYPE_LABELS: Record<ServicePlanType, string> = {
+  package: "Pacote",
+  subscription: "Assinatura",
+};
+
+export function useServicePlans(unitId: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: plans = [], isLoading } = useQuery({
+    queryKey: ["service-plans", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const { data, error } = await supabase
+        .from("service_plans")
+        .select("*, services:service_plan_services(service_id)")
+        .eq("unit_id", unitId)
+        .order("name");
+
+      if (error) throw error;
+      return data as ServicePlan[];
+    },
+    enabled: !!unitId,
+  });
+
+  const replacePlanServices = async (planId: string, serviceIds: string[]) => {
+    const { error: deleteError } = await supabase
+      .from("service_plan_services")
+      .delete()
+      .eq("plan_id", planId);
+
+    if (deleteError) throw deleteError;
+    if (serviceIds.length === 0) return;
+
+    const { error } = await supabase
+      .from("service_plan_services")
+      .insert(serviceIds.map((serviceId) => ({ plan_id: planId, service_id: serviceId, unit_id: unitId! })));
+
+    if (error) throw error;
+  };
+
+  const createPlan = useMutation({
+    mutationFn: async ({ service_ids, ...plan }: ServicePlanFormData) => {
+      if (!unitId) throw new Error("Nenhuma unidade selecionada");
+      if (service_ids.length === 0) throw new Error("Selecione ao menos um serviço incluído");
+
+      const { data: unit } = await supabase
+        .rpc("get_accessible_units")
+        .select("company_id")
+        .eq("id", unitId)
+        .single();
+
+      const { data, error } = await supabase
+        .from("service_plans")
+        .insert({
+          ...plan,
+          unit_id: unitId,
+          company_id: unit?.company_id || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await replacePlanServices(data.id, service_ids);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["service-plans"] });
+      toast({ title: "Plano criado com sucesso!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao criar plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updatePlan = useMutation({
+    mutationFn: async ({ id, service_ids, ...plan }: ServicePlanFormData & { id: string }) => {
+      if (service_ids.length === 0) throw new Error("Selecione ao menos um serviço incluído");
+
+      const { error } = await supabase
+        .from("service_plans")
+        .update(plan)
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await replacePlanServices(id, service_ids);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["service-plans"] });
+      toast({ title: "Plano atualizado!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao atualizar plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deletePlan = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("service_plans")
+        .delete()
+        .eq("id", id);
+
+      // 23503: foreign key violation - the plan was already sold to a client
+      if (error?.code === "23503") {
+        throw new Error("Este plano já foi vendido. Desative-o em vez de excluir.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["service-plans"] });
+      toast({ title: "Plano removido!" });
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao remover plano", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    plans,
+    activePlans: plans.filter((plan) => plan.is_active),
+    isLoading,
+    createPlan,
+    updatePlan,
+    deletePlan,
+  };
+}
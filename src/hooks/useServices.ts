@@ -42,7 +42,7 @@ export function useServices(unitId: string | null) {
 
       // Get company_id from the unit
       const { data: unit } = await supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("company_id")
         .eq("id", unitId)
         .single();
@@ -0,0 +1,159 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { StaffRole } from "@/hooks/useUserRole";
+
+export interface StaffMember {
+  id: string;
+  company_id: string;
+  user_id: string | null;
+  name: string;
+  email: string | null;
+  role: StaffRole;
+  unit_ids: string[];
+  is_active: boolean;
+  invite_token: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StaffMemberFormData {
+  name: string;
+  email?: string | null;
+  role: StaffRole;
+  unit_ids: string[];
+}
+
+export function useStaffMembers(companyId: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: staffMembers = [], isLoading } = useQuery({
+    queryKey: ["staff-members", companyId],
+    queryFn: async () => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from("staff_members")
+        .select("*")
+        .eq("company_id", companyId)
+        .order("name");
+
+      if (error) throw error;
+      return data as StaffMember[];
+    },
+    enabled: !!companyId,
+  });
+
+  const createStaffMember = useMutation({
+    mutationFn: async (member: StaffMemberFormData) => {
+      if (!companyId) throw new Error("Empresa não encontrada");
+      if (member.unit_ids.length === 0) throw new Error("Selecione ao menos uma unidade");
+
+      const { data, error } = await supabase
+        .from("staff_members")
+        .insert({
+          company_id: companyId,
+          name: member.name,
+          email: member.email || null,
+          role: member.role,
+          unit_ids: member.unit_ids,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as StaffMember;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff-members"] });
+      toast({ title: "Membro adicionado!", description: "Envie o link de convite para ele criar o acesso." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao adicionar membro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateStaffMember = useMutation({
+    mutationFn: async ({ id, ...member }: StaffMemberFormData & { id: string }) => {
+      if (member.unit_ids.length === 0) throw new Error("Selecione ao menos uma unidade");
+
+      const { error } = await supabase
+        .from("staff_members")
+        .update({
+          name: member.name,
+          email: member.email || null,
+          role: member.role,
+          unit_ids: member.unit_ids,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff-members"] });
+      toast({ title: "Membro atualizado!" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar membro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase
+        .from("staff_members")
+        .update({ is_active })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { is_active }) => {
+      queryClient.invalidateQueries({ queryKey: ["staff-members"] });
+      toast({ title: is_active ? "Acesso reativado" : "Acesso desativado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao alterar acesso", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteStaffMember = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("staff_members").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff-members"] });
+      toast({ title: "Membro removido!" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover membro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Tokens are generated by the database; the invite token can't be written from the app
+  const generateInviteToken = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("regenerate_staff_invite_token", { p_staff_member_id: id });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff-members"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao gerar link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    staffMembers,
+    isLoading,
+    createStaffMember,
+    updateStaffMember,
+    toggleActive,
+    deleteStaffMember,
+    generateInviteToken,
+  };
+}
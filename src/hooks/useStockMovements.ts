@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+
+export type StockMovementType = "sale" | "purchase" | "adjustment" | "loss" | "internal_use";
+
+// Types that can be registered by hand; sales and purchases come from their own flows
+export type ManualStockMovementType = Extract<StockMovementType, "adjustment" | "loss" | "internal_use">;
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: "Venda",
+  purchase: "Compra",
+  adjustment: "Ajuste",
+  loss: "Perda",
+  internal_use: "Uso interno",
+};
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  stock_after: number | null;
+  reason: string | null;
+  product_sale_id: string | null;
+  purchase_order_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  product: { name: string } | null;
+  // "Você", the barber's name, or a generic label when the user can't be identified
+  created_by_label: string;
+}
+
+interface UseStockMovementsOptions {
+  productId?: string | null;
+  type?: StockMovementType | null;
+  limit?: number;
+}
+
+// Stock ledger of the current unit, newest first
+export function useStockMovements({ productId, type, limit = 200 }: UseStockMovementsOptions = {}) {
+  const { currentUnitId } = useCurrentUnit();
+
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ["stock-movements", currentUnitId, productId, type, limit],
+    queryFn: async () => {
+      if (!currentUnitId) return [];
+
+      let query = supabase
+        .from("stock_movements")
+        .select("*, product:products(name)")
+        .eq("unit_id", currentUnitId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (productId) query = query.eq("product_id", productId);
+      if (type) query = query.eq("movement_type", type);
+
+      const [{ data, error }, { data: authData }, { data: barbers }] = await Promise.all([
+        query,
+        supabase.auth.getUser(),
+        supabase.from("barbers").select("user_id, name").eq("unit_id", currentUnitId).not("user_id", "is", null),
+      ]);
+      if (error) throw error;
+
+      const barberNames = new Map((barbers || []).map((b) => [b.user_id, b.name]));
+      const currentUserId = authData.user?.id;
+
+      return (data || []).map((movement) => ({
+        ...movement,
+        created_by_label: !movement.created_by
+          ? "Sistema"
+          : movement.created_by === currentUserId
+            ? "Você"
+            : barberNames.get(movement.created_by) || "Equipe",
+      })) as StockMovement[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  return { movements, isLoading };
+}
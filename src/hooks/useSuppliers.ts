@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import { toast } from "sonner";
+
+export interface Supplier {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  document: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupplierFormData {
+  name: string;
+  contact_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  document?: string | null;
+  notes?: string | null;
+  is_active?: boolean;
+}
+
+export function useSuppliers() {
+  const { currentUnitId, currentCompanyId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  const { data: suppliers = [], isLoading } = useQuery({
+    queryKey: ["suppliers", currentUnitId],
+    queryFn: async () => {
+      if (!currentUnitId) return [];
+
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("*")
+        .eq("unit_id", currentUnitId)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return data as Supplier[];
+    },
+    enabled: !!currentUnitId,
+  });
+
+  const createSupplier = useMutation({
+    mutationFn: async (formData: SupplierFormData) => {
+      if (!currentUnitId) throw new Error("Nenhuma unidade selecionada");
+
+      const { data, error } = await supabase
+        .from("suppliers")
+        .insert({
+          unit_id: currentUnitId,
+          company_id: currentCompanyId,
+          ...formData,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Supplier;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      toast.success("Fornecedor cadastrado com sucesso!");
+    },
+    onError: (error) => {
+      console.error("Error creating supplier:", error);
+      toast.error("Erro ao cadastrar fornecedor");
+    },
+  });
+
+  const updateSupplier = useMutation({
+    mutationFn: async ({ id, ...formData }: SupplierFormData & { id: string }) => {
+      const { error } = await supabase.from("suppliers").update(formData).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      toast.success("Fornecedor atualizado com sucesso!");
+    },
+    onError: (error) => {
+      console.error("Error updating supplier:", error);
+      toast.error("Erro ao atualizar fornecedor");
+    },
+  });
+
+  const deleteSupplier = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("suppliers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast.success("Fornecedor removido com sucesso!");
+    },
+    onError: (error) => {
+      console.error("Error deleting supplier:", error);
+      toast.error("Erro ao remover fornecedor");
+    },
+  });
+
+  return {
+    suppliers,
+    activeSuppliers: suppliers.filter((s) => s.is_active),
+    isLoading,
+    createSupplier,
+    updateSupplier,
+    deleteSupplier,
+  };
+}
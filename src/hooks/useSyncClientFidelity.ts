@@ -12,14 +12,14 @@ export function useSyncClientFidelity() {
       // 1. Get client info and unit fidelity settings
       const { data: client, error: clientError } = await supabase
         .from("clients")
-        .select("id, unit_id, phone, name, available_courtesies")
+        .select("id, unit_id, phone, name, available_courtesies, imported_visits, last_visit_at")
         .eq("id", clientId)
         .single();
 
       if (clientError || !client) throw new Error("Cliente não encontrado");
 
       const { data: unit, error: unitError } = await supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("fidelity_program_enabled, fidelity_min_value, fidelity_cuts_threshold")
         .eq("id", client.unit_id)
         .single();
@@ -44,7 +44,8 @@ export function useSyncClientFidelity() {
 
       // Count cuts - excluding courtesy payments since those redeem the counter
       let loyaltyCuts = 0;
-      let totalVisits = 0;
+      // Visits from before the system (client import) are kept
+      let totalVisits = client.imported_visits ?? 0;
       let lastVisit: string | null = null;
 
       for (const appt of appointments || []) {
@@ -75,7 +76,7 @@ export function useSyncClientFidelity() {
           loyalty_cuts: currentCuts,
           total_visits: totalVisits,
           total_courtesies_earned: earnedCourtesies,
-          last_visit_at: lastVisit,
+          last_visit_at: lastVisit ?? client.last_visit_at,
           updated_at: new Date().toISOString(),
         })
         .eq("id", clientId);
@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useCurrentUnit } from "@/contexts/UnitContext";
+import type { BarberTimeOff } from "@/hooks/useBarberSchedules";
+
+export interface TimeOffRequest extends BarberTimeOff {
+  barber: { id: string; name: string; photo_url: string | null } | null;
+}
+
+// Absence requests sent by barbers from their portal, waiting for the owner
+export function useTimeOffRequests(unitId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ["barber-time-off", "pending", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const { data, error } = await supabase
+        .from("barber_time_off")
+        .select("*, barber:barbers(id, name, photo_url)")
+        .eq("unit_id", unitId)
+        .eq("status", "pending")
+        .order("start_date");
+
+      if (error) throw error;
+      return data as TimeOffRequest[];
+    },
+    enabled: !!unitId,
+  });
+
+  const reviewRequest = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "rejected" }) => {
+      const { error } = await supabase
+        .from("barber_time_off")
+        .update({ status, reviewed_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+      toast.success(status === "approved" ? "Ausência aprovada" : "Solicitação recusada");
+    },
+    onError: (error) => {
+      toast.error("Erro ao responder solicitação");
+      console.error(error);
+    },
+  });
+
+  return {
+    requests,
+    pendingCount: requests.length,
+    isLoading,
+    reviewRequest,
+  };
+}
+
+// Notifies the owner as soon as a barber sends an absence request for the current unit
+export function useTimeOffRequestNotification(enabled = true) {
+  const { currentUnitId } = useCurrentUnit();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!currentUnitId || !enabled) return;
+
+    const channel = supabase
+      .channel(`time-off-requests-${currentUnitId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "barber_time_off",
+          filter: `unit_id=eq.${currentUnitId}`,
+        },
+        async (payload) => {
+          const request = payload.new as { barber_id: string; status: string };
+          queryClient.invalidateQueries({ queryKey: ["barber-time-off"] });
+
+          if (request.status !== "pending") return;
+
+          const { data: barber } = await supabase
+            .from("barbers")
+            .select("name")
+            .eq("id", request.barber_id)
+            .maybeSingle();
+
+          toast.info("Nova solicitação de ausência", {
+            description: `${barber?.name || "Um profissional"} pediu uma ausência. Veja em Profissionais.`,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUnitId, enabled, queryClient]);
+}
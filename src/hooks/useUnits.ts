@@ -9,7 +9,6 @@ export interface Unit {
   phone: string | null;
   manager_name: string | null;
   evolution_instance_name: string | null;
-  evolution_api_key: string | null;
   user_id: string;
   company_id: string | null;
   created_at: string;
@@ -21,6 +20,8 @@ export interface Unit {
   fidelity_program_enabled: boolean | null;
   fidelity_cuts_threshold: number | null;
   fidelity_min_value: number | null;
+  booking_slug: string | null;
+  online_booking_enabled: boolean | null;
 }
 
 interface UnitFormData {
@@ -40,8 +41,9 @@ export function useUnits(companyId: string | null = null) {
 const { data: units = [], isLoading, refetch } = useQuery({
     queryKey: ["units", companyId],
     queryFn: async () => {
+      // Staff can't read the units table (integration keys); the RPC returns the shared fields
       let query = supabase
-        .from("units")
+        .rpc("get_accessible_units")
         .select("*")
         .order("is_headquarters", { ascending: false })
         .order("created_at", { ascending: true });
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type StaffRole = "receptionist" | "unit_manager";
+export type UserRole = "owner" | StaffRole;
+
+export type AppModule =
+  | "dashboard"
+  | "agenda"
+  | "clientes"
+  | "profissionais"
+  | "servicos"
+  | "financeiro"
+  | "marketing"
+  | "relatorios"
+  | "unidades"
+  | "configuracoes"
+  | "assinatura";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Proprietário",
+  unit_manager: "Gerente de Unidade",
+  receptionist: "Recepção",
+};
+
+// Permission matrix. Row level security enforces the same split on the database side:
+// managers pass user_owns_unit for their units, receptionists only reach agenda and client tables.
+// Marketing stays with the owner: segments, workflows and surveys are company-wide (user_owns_company).
+export const ROLE_PERMISSIONS: Record<UserRole, AppModule[]> = {
+  owner: [
+    "dashboard",
+    "agenda",
+    "clientes",
+    "profissionais",
+    "servicos",
+    "financeiro",
+    "marketing",
+    "relatorios",
+    "unidades",
+    "configuracoes",
+    "assinatura",
+  ],
+  unit_manager: ["dashboard", "agenda", "clientes", "profissionais", "servicos", "financeiro", "relatorios"],
+  receptionist: ["agenda", "clientes"],
+};
+
+export interface StaffMembership {
+  id: string;
+  company_id: string;
+  role: StaffRole;
+  unit_ids: string[];
+  owner_user_id: string | null;
+}
+
+export function canAccess(role: UserRole, module: AppModule): boolean {
+  return ROLE_PERMISSIONS[role].includes(module);
+}
+
+// Company-wide settings (business settings, hours, holidays) are stored under the owner's user_id
+export async function resolveDataOwnerId(userId: string): Promise<string> {
+  const { data } = await supabase.rpc("get_staff_owner_id");
+  return data || userId;
+}
+
+// Least-privileged role, used while the role is loading or could not be resolved
+const FALLBACK_ROLE: UserRole = "receptionist";
+
+export function useUserRole() {
+  // undefined = session not resolved yet
+  const [userId, setUserId] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["user-role", userId],
+    queryFn: async (): Promise<{ role: UserRole; staff: StaffMembership | null }> => {
+      if (!userId) throw new Error("User not authenticated");
+
+      const { data: company, error: companyError } = await supabase
+        .from("companies")
+        .select("id")
+        .eq("owner_user_id", userId)
+        .limit(1)
+        .maybeSingle();
+
+      if (companyError) throw companyError;
+      if (company) return { role: "owner", staff: null };
+
+      const { data: membership, error } = await supabase
+        .from("staff_members")
+        .select("id, company_id, role, unit_ids")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      // Without company or membership this is a new owner; UnitProvider creates the company
+      if (!membership) return { role: "owner", staff: null };
+
+      const { data: ownerUserId } = await supabase.rpc("get_staff_owner_id");
+
+      return {
+        role: membership.role as StaffRole,
+        staff: { ...membership, role: membership.role as StaffRole, owner_user_id: ownerUserId || null },
+      };
+    },
+    enabled: !!userId,
+  });
+
+  const role = data?.role && data.role in ROLE_PERMISSIONS ? data.role : FALLBACK_ROLE;
+
+  return {
+    role,
+    staff: data?.staff ?? null,
+    isOwner: data?.role === "owner",
+    isLoading: userId === undefined || isLoading,
+    isError,
+    can: (module: AppModule) => canAccess(role, module),
+  };
+}
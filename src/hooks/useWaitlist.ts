@@ -0,0 +1,190 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "cancelled";
+
+export interface WaitlistEntry {
+  id: string;
+  unit_id: string;
+  company_id: string | null;
+  client_name: string;
+  client_phone: string;
+  barber_id: string | null;
+  service_id: string | null;
+  desired_start_date: string;
+  desired_end_date: string;
+  notes: string | null;
+  status: WaitlistStatus;
+  source: "manual" | "whatsapp";
+  offered_barber_id: string | null;
+  offered_slot_start: string | null;
+  offered_slot_end: string | null;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  appointment_id: string | null;
+  created_at: string;
+  barber?: { name: string } | null;
+  service?: { name: string; duration_minutes: number } | null;
+}
+
+export interface WaitlistFormData {
+  client_name: string;
+  client_phone: string;
+  barber_id: string | null;
+  service_id: string;
+  desired_start_date: string;
+  desired_end_date: string;
+  notes?: string;
+}
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Aguardando",
+  offered: "Horário oferecido",
+  booked: "Agendado",
+  cancelled: "Cancelado",
+};
+
+// Brazilian numbers are stored with and without country code / ninth digit; the last 8 digits identify the line
+export function isSameClientPhone(a: string | null | undefined, b: string | null | undefined): boolean {
+  const digitsA = (a || "").replace(/\D/g, "");
+  const digitsB = (b || "").replace(/\D/g, "");
+  if (digitsA.length < 8 || digitsB.length < 8) return false;
+  return digitsA.slice(-8) === digitsB.slice(-8);
+}
+
+// A freed slot is offered by the waitlist-offer edge function; failures never block the agenda
+export async function offerSlotToWaitlist(slot: { unit_id: string; barber_id: string | null; start_time: string; end_time: string }) {
+  if (!slot.barber_id || new Date(slot.start_time) <= new Date()) return;
+
+  const { error } = await supabase.functions.invoke("waitlist-offer", {
+    body: {
+      unit_id: slot.unit_id,
+      barber_id: slot.barber_id,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+    },
+  });
+
+  if (error) {
+    console.error("Error offering slot to waitlist:", error);
+  }
+}
+
+export function useWaitlist(unitId: string | null | undefined, companyId?: string | null) {
+  const queryClient = useQueryClient();
+
+  // Closed entries (booked/cancelled) are kept for a week so the receptionist sees recent outcomes
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["waitlist", unitId],
+    queryFn: async () => {
+      if (!unitId) return [];
+
+      const recent = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from("waitlist_entries")
+        .select(`
+          *,
+          barber:barbers!waitlist_entries_barber_id_fkey(name),
+          service:services(name, duration_minutes)
+        `)
+        .eq("unit_id", unitId)
+        .or(`status.in.(waiting,offered),updated_at.gte.${recent}`)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as WaitlistEntry[];
+    },
+    enabled: !!unitId,
+  });
+
+  const addEntry = useMutation({
+    mutationFn: async (data: WaitlistFormData) => {
+      if (!unitId) throw new Error("Nenhuma unidade selecionada");
+      if (data.desired_end_date < data.desired_start_date) {
+        throw new Error("A data final deve ser igual ou posterior à data inicial");
+      }
+
+      const { error } = await supabase
+        .from("waitlist_entries")
+        .insert({
+          unit_id: unitId,
+          company_id: companyId || null,
+          client_name: data.client_name,
+          client_phone: data.client_phone.replace(/\D/g, ""),
+          barber_id: data.barber_id,
+          service_id: data.service_id,
+          desired_start_date: data.desired_start_date,
+          desired_end_date: data.desired_end_date,
+          notes: data.notes || null,
+          source: "manual",
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      toast.success("Cliente incluído na lista de espera");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Erro ao incluir na lista de espera");
+    },
+  });
+
+  // Cancelling an entry with a pending offer releases the held slot to the next client
+  const cancelEntry = useMutation({
+    mutationFn: async (entry: WaitlistEntry) => {
+      const { error } = await supabase
+        .from("waitlist_entries")
+        .update({ status: "cancelled", offer_expires_at: null })
+        .eq("id", entry.id);
+
+      if (error) throw error;
+
+      if (entry.status === "offered" && entry.offered_slot_start && entry.offered_slot_end) {
+        await offerSlotToWaitlist({
+          unit_id: entry.unit_id,
+          barber_id: entry.offered_barber_id,
+          start_time: entry.offered_slot_start,
+          end_time: entry.offered_slot_end,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      toast.success("Cliente removido da lista de espera");
+    },
+    onError: (error) => {
+      toast.error("Erro ao remover da lista de espera");
+      console.error(error);
+    },
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("waitlist_entries")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      toast.success("Registro excluído");
+    },
+    onError: (error) => {
+      toast.error("Erro ao excluir registro");
+      console.error(error);
+    },
+  });
+
+  return {
+    entries,
+    activeEntries: entries.filter((e) => e.status === "waiting" || e.status === "offered"),
+    isLoading,
+    addEntry,
+    cancelEntry,
+    deleteEntry,
+  };
+}
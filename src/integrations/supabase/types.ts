@@ -86,6 +86,135 @@ export type Database = {
           },
         ]
       }
+      appointment_series: {
+        Row: {
+          barber_id: string | null
+          client_name: string
+          client_phone: string | null
+          company_id: string | null
+          created_at: string
+          id: string
+          interval_weeks: number
+          occurrences: number | null
+          unit_id: string
+          until_date: string | null
+        }
+        Insert: {
+          barber_id?: string | null
+          client_name: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          interval_weeks?: number
+          occurrences?: number | null
+          unit_id: string
+          until_date?: string | null
+        }
+        Update: {
+          barber_id?: string | null
+          client_name?: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          interval_weeks?: number
+          occurrences?: number | null
+          unit_id?: string
+          until_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_series_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_series_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_services: {
+        Row: {
+          appointment_id: string
+          company_id: string | null
+          created_at: string
+          duration_minutes: number
+          id: string
+          position: number
+          price: number
+          service_id: string | null
+          service_name: string
+          unit_id: string
+        }
+        Insert: {
+          appointment_id: string
+          company_id?: string | null
+          created_at?: string
+          duration_minutes?: number
+          id?: string
+          position?: number
+          price?: number
+          service_id?: string | null
+          service_name: string
+          unit_id: string
+        }
+        Update: {
+          appointment_id?: string
+          company_id?: string | null
+          created_at?: string
+          duration_minutes?: number
+          id?: string
+          position?: number
+          price?: number
+          service_id?: string | null
+          service_name?: string
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_services_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_services_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_services_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_services_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           barber_id: string | null
@@ -93,6 +222,7 @@ export type Database = {
           client_name: string
           client_phone: string | null
           company_id: string | null
+          completed_at: string | null
           created_at: string
           dependent_id: string | null
           end_time: string
@@ -100,9 +230,11 @@ export type Database = {
           is_dependent: boolean | null
           notes: string | null
           payment_method: string | null
+          series_id: string | null
           service_id: string | null
           source: string | null
           start_time: string
+          started_at: string | null
           status: Database["public"]["Enums"]["appointment_status"]
           total_price: number
           unit_id: string
@@ -113,6 +245,7 @@ export type Database = {
           client_name: string
           client_phone?: string | null
           company_id?: string | null
+          completed_at?: string | null
           created_at?: string
           dependent_id?: string | null
           end_time: string
@@ -120,9 +253,11 @@ export type Database = {
           is_dependent?: boolean | null
           notes?: string | null
           payment_method?: string | null
+          series_id?: string | null
           service_id?: string | null
           source?: string | null
           start_time: string
+          started_at?: string | null
           status?: Database["public"]["Enums"]["appointment_status"]
           total_price: number
           unit_id: string
@@ -133,6 +268,7 @@ export type Database = {
           client_name?: string
           client_phone?: string | null
           company_id?: string | null
+          completed_at?: string | null
           created_at?: string
           dependent_id?: string | null
           end_time?: string
@@ -140,9 +276,11 @@ export type Database = {
           is_dependent?: boolean | null
           notes?: string | null
           payment_method?: string | null
+          series_id?: string | null
           service_id?: string | null
           source?: string | null
           start_time?: string
+          started_at?: string | null
           status?: Database["public"]["Enums"]["appointment_status"]
           total_price?: number
           unit_id?: string
@@ -169,6 +307,13 @@ export type Database = {
             referencedRelation: "client_dependents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "appointments_service_id_fkey"
             columns: ["service_id"]
@@ -196,6 +341,7 @@ export type Database = {
           id: string
           sent_at: string
           status: string
+          workflow_id: string | null
         }
         Insert: {
           appointment_id?: string | null
@@ -207,6 +353,7 @@ export type Database = {
           id?: string
           sent_at?: string
           status?: string
+          workflow_id?: string | null
         }
         Update: {
           appointment_id?: string | null
@@ -218,6 +365,7 @@ export type Database = {
           id?: string
           sent_at?: string
           status?: string
+          workflow_id?: string | null
         }
         Relationships: [
           {
@@ -241,79 +389,136 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "automation_logs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "automation_workflows"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      barbers: {
+      automation_workflow_runs: {
         Row: {
-          calendar_color: string | null
-          commission_rate: number | null
-          company_id: string | null
+          client_id: string
+          company_id: string
+          current_step: number
+          enrolled_at: string
+          exit_reason: string | null
+          id: string
+          next_run_at: string
+          status: string
+          trigger_key: string
+          updated_at: string
+          workflow_id: string
+        }
+        Insert: {
+          client_id: string
+          company_id: string
+          current_step?: number
+          enrolled_at?: string
+          exit_reason?: string | null
+          id?: string
+          next_run_at: string
+          status?: string
+          trigger_key: string
+          updated_at?: string
+          workflow_id: string
+        }
+        Update: {
+          client_id?: string
+          company_id?: string
+          current_step?: number
+          enrolled_at?: string
+          exit_reason?: string | null
+          id?: string
+          next_run_at?: string
+          status?: string
+          trigger_key?: string
+          updated_at?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "automation_workflow_runs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_workflow_runs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_workflow_runs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "automation_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      automation_workflows: {
+        Row: {
+          company_id: string
           created_at: string
-          credit_card_fee_percent: number | null
-          debit_card_fee_percent: number | null
-          email: string | null
           id: string
-          invite_token: string | null
-          is_active: boolean | null
-          lunch_break_enabled: boolean | null
-          lunch_break_end: string | null
-          lunch_break_start: string | null
+          is_active: boolean
           name: string
-          phone: string | null
-          photo_url: string | null
-          unit_id: string
-          user_id: string | null
+          segment_id: string | null
+          steps: Json
+          trigger_config: Json
+          trigger_type: string
+          unit_id: string | null
+          updated_at: string
         }
         Insert: {
-          calendar_color?: string | null
-          commission_rate?: number | null
-          company_id?: string | null
+          company_id: string
           created_at?: string
-          credit_card_fee_percent?: number | null
-          debit_card_fee_percent?: number | null
-          email?: string | null
           id?: string
-          invite_token?: string | null
-          is_active?: boolean | null
-          lunch_break_enabled?: boolean | null
-          lunch_break_end?: string | null
-          lunch_break_start?: string | null
+          is_active?: boolean
           name: string
-          phone?: string | null
-          photo_url?: string | null
-          unit_id: string
-          user_id?: string | null
+          segment_id?: string | null
+          steps?: Json
+          trigger_config?: Json
+          trigger_type: string
+          unit_id?: string | null
+          updated_at?: string
         }
         Update: {
-          calendar_color?: string | null
-          commission_rate?: number | null
-          company_id?: string | null
+          company_id?: string
           created_at?: string
-          credit_card_fee_percent?: number | null
-          debit_card_fee_percent?: number | null
-          email?: string | null
           id?: string
-          invite_token?: string | null
-          is_active?: boolean | null
-          lunch_break_enabled?: boolean | null
-          lunch_break_end?: string | null
-          lunch_break_start?: string | null
+          is_active?: boolean
           name?: string
-          phone?: string | null
-          photo_url?: string | null
-          unit_id?: string
-          user_id?: string | null
+          segment_id?: string | null
+          steps?: Json
+          trigger_config?: Json
+          trigger_type?: string
+          unit_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "barbers_company_id_fkey"
+            foreignKeyName: "automation_workflows_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "barbers_unit_id_fkey"
+            foreignKeyName: "automation_workflows_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "client_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_workflows_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -321,512 +526,1888 @@ export type Database = {
           },
         ]
       }
-      business_hours: {
+      barber_advances: {
         Row: {
-          closing_time: string | null
-          created_at: string | null
-          day_of_week: number
+          advance_date: string
+          amount: number
+          barber_id: string
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
           id: string
-          is_open: boolean | null
-          opening_time: string | null
-          updated_at: string | null
-          user_id: string
+          payout_id: string | null
+          unit_id: string
         }
         Insert: {
-          closing_time?: string | null
-          created_at?: string | null
-          day_of_week: number
+          advance_date?: string
+          amount: number
+          barber_id: string
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
           id?: string
-          is_open?: boolean | null
-          opening_time?: string | null
-          updated_at?: string | null
-          user_id: string
+          payout_id?: string | null
+          unit_id: string
         }
         Update: {
-          closing_time?: string | null
-          created_at?: string | null
-          day_of_week?: number
-          id?: string
-          is_open?: boolean | null
-          opening_time?: string | null
-          updated_at?: string | null
+          advance_date?: string
+          amount?: number
+          barber_id?: string
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          payout_id?: string | null
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_advances_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_advances_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_advances_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "commission_payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_advances_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_schedules: {
+        Row: {
+          barber_id: string
+          company_id: string | null
+          created_at: string | null
+          day_of_week: number
+          end_time: string | null
+          id: string
+          is_working: boolean
+          start_time: string | null
+          unit_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          barber_id: string
+          company_id?: string | null
+          created_at?: string | null
+          day_of_week: number
+          end_time?: string | null
+          id?: string
+          is_working?: boolean
+          start_time?: string | null
+          unit_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          barber_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          day_of_week?: number
+          end_time?: string | null
+          id?: string
+          is_working?: boolean
+          start_time?: string | null
+          unit_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_schedules_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_schedules_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_schedules_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_time_blocks: {
+        Row: {
+          barber_id: string
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          end_time: string
+          id: string
+          reason: string | null
+          start_time: string
+          unit_id: string
+        }
+        Insert: {
+          barber_id: string
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          end_time: string
+          id?: string
+          reason?: string | null
+          start_time: string
+          unit_id: string
+        }
+        Update: {
+          barber_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          end_time?: string
+          id?: string
+          reason?: string | null
+          start_time?: string
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_time_blocks_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_time_blocks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_time_blocks_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_time_off: {
+        Row: {
+          barber_id: string
+          company_id: string | null
+          created_at: string | null
+          end_date: string
+          id: string
+          notes: string | null
+          reason: string
+          reviewed_at: string | null
+          start_date: string
+          status: string
+          unit_id: string
+        }
+        Insert: {
+          barber_id: string
+          company_id?: string | null
+          created_at?: string | null
+          end_date: string
+          id?: string
+          notes?: string | null
+          reason?: string
+          reviewed_at?: string | null
+          start_date: string
+          status?: string
+          unit_id: string
+        }
+        Update: {
+          barber_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          end_date?: string
+          id?: string
+          notes?: string | null
+          reason?: string
+          reviewed_at?: string | null
+          start_date?: string
+          status?: string
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_time_off_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_time_off_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_time_off_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barbers: {
+        Row: {
+          calendar_color: string | null
+          commission_rate: number | null
+          company_id: string | null
+          created_at: string
+          credit_card_fee_percent: number | null
+          debit_card_fee_percent: number | null
+          email: string | null
+          id: string
+          invite_token: string | null
+          is_active: boolean | null
+          lunch_break_enabled: boolean | null
+          lunch_break_end: string | null
+          lunch_break_start: string | null
+          monthly_goal: number | null
+          name: string
+          phone: string | null
+          photo_url: string | null
+          product_commission_rate: number
+          unit_id: string
+          user_id: string | null
+        }
+        Insert: {
+          calendar_color?: string | null
+          commission_rate?: number | null
+          company_id?: string | null
+          created_at?: string
+          credit_card_fee_percent?: number | null
+          debit_card_fee_percent?: number | null
+          email?: string | null
+          id?: string
+          invite_token?: string | null
+          is_active?: boolean | null
+          lunch_break_enabled?: boolean | null
+          lunch_break_end?: string | null
+          lunch_break_start?: string | null
+          monthly_goal?: number | null
+          name: string
+          phone?: string | null
+          photo_url?: string | null
+          product_commission_rate?: number
+          unit_id: string
+          user_id?: string | null
+        }
+        Update: {
+          calendar_color?: string | null
+          commission_rate?: number | null
+          company_id?: string | null
+          created_at?: string
+          credit_card_fee_percent?: number | null
+          debit_card_fee_percent?: number | null
+          email?: string | null
+          id?: string
+          invite_token?: string | null
+          is_active?: boolean | null
+          lunch_break_enabled?: boolean | null
+          lunch_break_end?: string | null
+          lunch_break_start?: string | null
+          monthly_goal?: number | null
+          name?: string
+          phone?: string | null
+          photo_url?: string | null
+          product_commission_rate?: number
+          unit_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barbers_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barbers_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_hours: {
+        Row: {
+          closing_time: string | null
+          created_at: string | null
+          day_of_week: number
+          id: string
+          is_open: boolean | null
+          opening_time: string | null
+          unit_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          closing_time?: string | null
+          created_at?: string | null
+          day_of_week: number
+          id?: string
+          is_open?: boolean | null
+          opening_time?: string | null
+          unit_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          closing_time?: string | null
+          created_at?: string | null
+          day_of_week?: number
+          id?: string
+          is_open?: boolean | null
+          opening_time?: string | null
+          unit_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_hours_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_settings: {
+        Row: {
+          appointment_reminder_enabled: boolean | null
+          appointment_reminder_minutes: number | null
+          appointment_reminder_template: string | null
+          automation_send_hour: number | null
+          automation_send_minute: number | null
+          birthday_automation_enabled: boolean | null
+          birthday_message_template: string | null
+          birthday_segment_id: string | null
+          business_name: string | null
+          cancellation_time_limit_minutes: number | null
+          closing_time: string | null
+          commission_calculation_base: string | null
+          created_at: string | null
+          credit_card_fee_percent: number | null
+          debit_card_fee_percent: number | null
+          deletion_password_enabled: boolean | null
+          deletion_password_hash: string | null
+          deletion_password_reset_expires: string | null
+          deletion_password_reset_token: string | null
+          fidelity_cuts_threshold: number | null
+          fidelity_min_value: number | null
+          fidelity_program_enabled: boolean | null
+          id: string
+          late_cancellation_fee_percent: number | null
+          logo_url: string | null
+          no_show_fee_percent: number | null
+          nps_followup_enabled: boolean
+          nps_followup_template: string | null
+          nps_survey_delay_hours: number
+          nps_survey_enabled: boolean
+          nps_survey_template: string | null
+          opening_time: string | null
+          rescue_automation_enabled: boolean | null
+          rescue_days_threshold: number | null
+          rescue_message_template: string | null
+          rescue_segment_id: string | null
+          updated_at: string | null
+          user_id: string
+          vocal_cancellation_enabled: boolean | null
+          vocal_confirmation_enabled: boolean | null
+          vocal_notification_enabled: boolean | null
+          webhook_url: string | null
+        }
+        Insert: {
+          appointment_reminder_enabled?: boolean | null
+          appointment_reminder_minutes?: number | null
+          appointment_reminder_template?: string | null
+          automation_send_hour?: number | null
+          automation_send_minute?: number | null
+          birthday_automation_enabled?: boolean | null
+          birthday_message_template?: string | null
+          birthday_segment_id?: string | null
+          business_name?: string | null
+          cancellation_time_limit_minutes?: number | null
+          closing_time?: string | null
+          commission_calculation_base?: string | null
+          created_at?: string | null
+          credit_card_fee_percent?: number | null
+          debit_card_fee_percent?: number | null
+          deletion_password_enabled?: boolean | null
+          deletion_password_hash?: string | null
+          deletion_password_reset_expires?: string | null
+          deletion_password_reset_token?: string | null
+          fidelity_cuts_threshold?: number | null
+          fidelity_min_value?: number | null
+          fidelity_program_enabled?: boolean | null
+          id?: string
+          late_cancellation_fee_percent?: number | null
+          logo_url?: string | null
+          no_show_fee_percent?: number | null
+          nps_followup_enabled?: boolean
+          nps_followup_template?: string | null
+          nps_survey_delay_hours?: number
+          nps_survey_enabled?: boolean
+          nps_survey_template?: string | null
+          opening_time?: string | null
+          rescue_automation_enabled?: boolean | null
+          rescue_days_threshold?: number | null
+          rescue_message_template?: string | null
+          rescue_segment_id?: string | null
+          updated_at?: string | null
+          user_id: string
+          vocal_cancellation_enabled?: boolean | null
+          vocal_confirmation_enabled?: boolean | null
+          vocal_notification_enabled?: boolean | null
+          webhook_url?: string | null
+        }
+        Update: {
+          appointment_reminder_enabled?: boolean | null
+          appointment_reminder_minutes?: number | null
+          appointment_reminder_template?: string | null
+          automation_send_hour?: number | null
+          automation_send_minute?: number | null
+          birthday_automation_enabled?: boolean | null
+          birthday_message_template?: string | null
+          birthday_segment_id?: string | null
+          business_name?: string | null
+          cancellation_time_limit_minutes?: number | null
+          closing_time?: string | null
+          commission_calculation_base?: string | null
+          created_at?: string | null
+          credit_card_fee_percent?: number | null
+          debit_card_fee_percent?: number | null
+          deletion_password_enabled?: boolean | null
+          deletion_password_hash?: string | null
+          deletion_password_reset_expires?: string | null
+          deletion_password_reset_token?: string | null
+          fidelity_cuts_threshold?: number | null
+          fidelity_min_value?: number | null
+          fidelity_program_enabled?: boolean | null
+          id?: string
+          late_cancellation_fee_percent?: number | null
+          logo_url?: string | null
+          no_show_fee_percent?: number | null
+          nps_followup_enabled?: boolean
+          nps_followup_template?: string | null
+          nps_survey_delay_hours?: number
+          nps_survey_enabled?: boolean
+          nps_survey_template?: string | null
+          opening_time?: string | null
+          rescue_automation_enabled?: boolean | null
+          rescue_days_threshold?: number | null
+          rescue_message_template?: string | null
+          rescue_segment_id?: string | null
+          updated_at?: string | null
           user_id?: string
+          vocal_cancellation_enabled?: boolean | null
+          vocal_confirmation_enabled?: boolean | null
+          vocal_notification_enabled?: boolean | null
+          webhook_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_settings_birthday_segment_id_fkey"
+            columns: ["birthday_segment_id"]
+            isOneToOne: false
+            referencedRelation: "client_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "business_settings_rescue_segment_id_fkey"
+            columns: ["rescue_segment_id"]
+            isOneToOne: false
+            referencedRelation: "client_segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_message_logs: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          dispatched_at: string | null
+          error_message: string | null
+          id: string
+          recipient_name: string | null
+          recipient_phone: string
+          recipient_type: string
+          sent_at: string | null
+          status: string
+          variant_id: string | null
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          dispatched_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipient_name?: string | null
+          recipient_phone: string
+          recipient_type?: string
+          sent_at?: string | null
+          status?: string
+          variant_id?: string | null
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          dispatched_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipient_name?: string | null
+          recipient_phone?: string
+          recipient_type?: string
+          sent_at?: string | null
+          status?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_message_logs_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "marketing_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_message_logs_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_variants: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          id: string
+          label: string
+          message_template: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          id?: string
+          label: string
+          message_template: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          message_template?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_variants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "marketing_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_history: {
+        Row: {
+          appointment_id: string | null
+          barber_name: string
+          cancellation_source: string
+          cancelled_at: string
+          client_name: string
+          client_phone: string | null
+          company_id: string | null
+          created_at: string
+          id: string
+          is_late_cancellation: boolean
+          is_no_show: boolean
+          minutes_before: number
+          notes: string | null
+          scheduled_time: string
+          service_name: string
+          total_price: number
+          unit_id: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          barber_name: string
+          cancellation_source?: string
+          cancelled_at?: string
+          client_name: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_late_cancellation?: boolean
+          is_no_show?: boolean
+          minutes_before?: number
+          notes?: string | null
+          scheduled_time: string
+          service_name: string
+          total_price?: number
+          unit_id: string
+        }
+        Update: {
+          appointment_id?: string | null
+          barber_name?: string
+          cancellation_source?: string
+          cancelled_at?: string
+          client_name?: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          id?: string
+          is_late_cancellation?: boolean
+          is_no_show?: boolean
+          minutes_before?: number
+          notes?: string | null
+          scheduled_time?: string
+          service_name?: string
+          total_price?: number
+          unit_id?: string
+        }
+        Relationships: []
+      }
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          reason: string
+          session_id: string
+          unit_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          reason: string
+          session_id: string
+          unit_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          reason?: string
+          session_id?: string
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_movements_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_sessions: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          company_id: string | null
+          counted_amounts: Json | null
+          created_at: string
+          discrepancy: number | null
+          expected_amounts: Json | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string | null
+          opening_balance: number
+          status: string
+          unit_id: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          company_id?: string | null
+          counted_amounts?: Json | null
+          created_at?: string
+          discrepancy?: number | null
+          expected_amounts?: Json | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opening_balance?: number
+          status?: string
+          unit_id: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          company_id?: string | null
+          counted_amounts?: Json | null
+          created_at?: string
+          discrepancy?: number | null
+          expected_amounts?: Json | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opening_balance?: number
+          status?: string
+          unit_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_sessions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_sessions_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_dependents: {
+        Row: {
+          birth_date: string | null
+          client_id: string
+          company_id: string | null
+          created_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          relationship: string | null
+          unit_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          birth_date?: string | null
+          client_id: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          relationship?: string | null
+          unit_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          birth_date?: string | null
+          client_id?: string
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          relationship?: string | null
+          unit_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_dependents_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_dependents_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_dependents_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_fees: {
+        Row: {
+          amount: number
+          appointment_id: string | null
+          base_amount: number
+          cancellation_id: string | null
+          client_id: string | null
+          client_name: string
+          client_phone: string | null
+          company_id: string | null
+          created_at: string
+          fee_percent: number
+          fee_type: string
+          id: string
+          paid_appointment_id: string | null
+          paid_at: string | null
+          payment_method: string | null
+          scheduled_time: string
+          status: string
+          unit_id: string
+          updated_at: string
+          waived_reason: string | null
+        }
+        Insert: {
+          amount: number
+          appointment_id?: string | null
+          base_amount: number
+          cancellation_id?: string | null
+          client_id?: string | null
+          client_name: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          fee_percent: number
+          fee_type: string
+          id?: string
+          paid_appointment_id?: string | null
+          paid_at?: string | null
+          payment_method?: string | null
+          scheduled_time: string
+          status?: string
+          unit_id: string
+          updated_at?: string
+          waived_reason?: string | null
+        }
+        Update: {
+          amount?: number
+          appointment_id?: string | null
+          base_amount?: number
+          cancellation_id?: string | null
+          client_id?: string | null
+          client_name?: string
+          client_phone?: string | null
+          company_id?: string | null
+          created_at?: string
+          fee_percent?: number
+          fee_type?: string
+          id?: string
+          paid_appointment_id?: string | null
+          paid_at?: string | null
+          payment_method?: string | null
+          scheduled_time?: string
+          status?: string
+          unit_id?: string
+          updated_at?: string
+          waived_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_fees_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_fees_cancellation_id_fkey"
+            columns: ["cancellation_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_fees_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_fees_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_fees_paid_appointment_id_fkey"
+            columns: ["paid_appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_fees_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_plan_usages: {
+        Row: {
+          appointment_id: string
+          client_plan_id: string
+          created_at: string
+          credits: number
+          id: string
+          unit_id: string
+        }
+        Insert: {
+          appointment_id: string
+          client_plan_id: string
+          created_at?: string
+          credits?: number
+          id?: string
+          unit_id: string
+        }
+        Update: {
+          appointment_id?: string
+          client_plan_id?: string
+          created_at?: string
+          credits?: number
+          id?: string
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_plan_usages_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_plan_usages_client_plan_id_fkey"
+            columns: ["client_plan_id"]
+            isOneToOne: false
+            referencedRelation: "client_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_plan_usages_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_plans: {
+        Row: {
+          client_id: string
+          company_id: string | null
+          created_at: string
+          credits_total: number
+          expires_at: string
+          id: string
+          payment_method: string | null
+          plan_id: string
+          plan_name: string
+          price_paid: number
+          starts_at: string
+          status: string
+          unit_id: string
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          company_id?: string | null
+          created_at?: string
+          credits_total: number
+          expires_at: string
+          id?: string
+          payment_method?: string | null
+          plan_id: string
+          plan_name: string
+          price_paid?: number
+          starts_at?: string
+          status?: string
+          unit_id: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          company_id?: string | null
+          created_at?: string
+          credits_total?: number
+          expires_at?: string
+          id?: string
+          payment_method?: string | null
+          plan_id?: string
+          plan_name?: string
+          price_paid?: number
+          starts_at?: string
+          status?: string
+          unit_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_plans_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_plans_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_plans_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "service_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_plans_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_segments: {
+        Row: {
+          company_id: string
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          rules: Json
+          unit_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          rules?: Json
+          unit_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          rules?: Json
+          unit_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_segments_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_segments_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          available_courtesies: number | null
+          birth_date: string | null
+          company_id: string | null
+          created_at: string | null
+          id: string
+          imported_visits: number
+          last_visit_at: string | null
+          loyalty_cuts: number | null
+          marketing_opt_out: boolean | null
+          name: string
+          notes: string | null
+          opted_out_at: string | null
+          phone: string
+          tags: string[] | null
+          total_courtesies_earned: number | null
+          total_visits: number | null
+          unit_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          available_courtesies?: number | null
+          birth_date?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          imported_visits?: number
+          last_visit_at?: string | null
+          loyalty_cuts?: number | null
+          marketing_opt_out?: boolean | null
+          name: string
+          notes?: string | null
+          opted_out_at?: string | null
+          phone: string
+          tags?: string[] | null
+          total_courtesies_earned?: number | null
+          total_visits?: number | null
+          unit_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          available_courtesies?: number | null
+          birth_date?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          id?: string
+          imported_visits?: number
+          last_visit_at?: string | null
+          loyalty_cuts?: number | null
+          marketing_opt_out?: boolean | null
+          name?: string
+          notes?: string | null
+          opted_out_at?: string | null
+          phone?: string
+          tags?: string[] | null
+          total_courtesies_earned?: number | null
+          total_visits?: number | null
+          unit_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clients_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_payout_items: {
+        Row: {
+          amount: number
+          appointment_id: string | null
+          commission: number
+          created_at: string
+          description: string
+          id: string
+          item_date: string
+          item_type: string
+          payout_id: string
+          product_sale_id: string | null
+          unit_id: string
+        }
+        Insert: {
+          amount: number
+          appointment_id?: string | null
+          commission: number
+          created_at?: string
+          description: string
+          id?: string
+          item_date: string
+          item_type: string
+          payout_id: string
+          product_sale_id?: string | null
+          unit_id: string
+        }
+        Update: {
+          amount?: number
+          appointment_id?: string | null
+          commission?: number
+          created_at?: string
+          description?: string
+          id?: string
+          item_date?: string
+          item_type?: string
+          payout_id?: string
+          product_sale_id?: string | null
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_payout_items_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_payout_items_payout_id_fkey"
+            columns: ["payout_id"]
+            isOneToOne: false
+            referencedRelation: "commission_payouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_payout_items_product_sale_id_fkey"
+            columns: ["product_sale_id"]
+            isOneToOne: true
+            referencedRelation: "product_sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_payout_items_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_payouts: {
+        Row: {
+          advances_total: number
+          barber_id: string
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          net_amount: number
+          notes: string | null
+          paid_at: string | null
+          paid_by: string | null
+          payment_method: string | null
+          period_end: string
+          period_start: string
+          product_commission: number
+          products_total: number
+          service_commission: number
+          services_total: number
+          status: string
+          unit_id: string
+          updated_at: string
+        }
+        Insert: {
+          advances_total?: number
+          barber_id: string
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          net_amount?: number
+          notes?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_method?: string | null
+          period_end: string
+          period_start: string
+          product_commission?: number
+          products_total?: number
+          service_commission?: number
+          services_total?: number
+          status?: string
+          unit_id: string
+          updated_at?: string
+        }
+        Update: {
+          advances_total?: number
+          barber_id?: string
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          net_amount?: number
+          notes?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_method?: string | null
+          period_end?: string
+          period_start?: string
+          product_commission?: number
+          products_total?: number
+          service_commission?: number
+          services_total?: number
+          status?: string
+          unit_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_payouts_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_payouts_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_payouts_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      companies: {
+        Row: {
+          created_at: string | null
+          evolution_api_key: string | null
+          evolution_instance_name: string | null
+          id: string
+          is_blocked: boolean | null
+          is_partner: boolean | null
+          last_login_at: string | null
+          monthly_price: number | null
+          name: string
+          owner_user_id: string
+          partner_ends_at: string | null
+          partner_notes: string | null
+          partner_renewed_count: number | null
+          partner_started_at: string | null
+          plan_status: string | null
+          plan_type: string | null
+          signup_source: string | null
+          stripe_customer_id: string | null
+          stripe_subscription_id: string | null
+          trial_ends_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          evolution_api_key?: string | null
+          evolution_instance_name?: string | null
+          id?: string
+          is_blocked?: boolean | null
+          is_partner?: boolean | null
+          last_login_at?: string | null
+          monthly_price?: number | null
+          name: string
+          owner_user_id: string
+          partner_ends_at?: string | null
+          partner_notes?: string | null
+          partner_renewed_count?: number | null
+          partner_started_at?: string | null
+          plan_status?: string | null
+          plan_type?: string | null
+          signup_source?: string | null
+          stripe_customer_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_ends_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          evolution_api_key?: string | null
+          evolution_instance_name?: string | null
+          id?: string
+          is_blocked?: boolean | null
+          is_partner?: boolean | null
+          last_login_at?: string | null
+          monthly_price?: number | null
+          name?: string
+          owner_user_id?: string
+          partner_ends_at?: string | null
+          partner_notes?: string | null
+          partner_renewed_count?: number | null
+          partner_started_at?: string | null
+          plan_status?: string | null
+          plan_type?: string | null
+          signup_source?: string | null
+          stripe_customer_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_ends_at?: string | null
+          updated_at?: string | null
         }
         Relationships: []
       }
-      business_settings: {
+      expenses: {
         Row: {
-          appointment_reminder_enabled: boolean | null
-          appointment_reminder_minutes: number | null
-          appointment_reminder_template: string | null
-          automation_send_hour: number | null
-          automation_send_minute: number | null
-          birthday_automation_enabled: boolean | null
-          birthday_message_template: string | null
-          business_name: string | null
-          cancellation_time_limit_minutes: number | null
-          closing_time: string | null
-          commission_calculation_base: string | null
+          amount: number
+          category: string
+          company_id: string | null
+          created_at: string
+          description: string | null
+          expense_date: string
+          id: string
+          is_recurring: boolean | null
+          payment_method: string | null
+          unit_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          company_id?: string | null
+          created_at?: string
+          description?: string | null
+          expense_date?: string
+          id?: string
+          is_recurring?: boolean | null
+          payment_method?: string | null
+          unit_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          company_id?: string | null
+          created_at?: string
+          description?: string | null
+          expense_date?: string
+          id?: string
+          is_recurring?: boolean | null
+          payment_method?: string | null
+          unit_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedbacks: {
+        Row: {
+          admin_notes: string | null
+          company_id: string | null
           created_at: string | null
-          credit_card_fee_percent: number | null
-          debit_card_fee_percent: number | null
-          deletion_password_enabled: boolean | null
-          deletion_password_hash: string | null
-          deletion_password_reset_expires: string | null
-          deletion_password_reset_token: string | null
-          fidelity_cuts_threshold: number | null
-          fidelity_min_value: number | null
-          fidelity_program_enabled: boolean | null
           id: string
-          late_cancellation_fee_percent: number | null
-          logo_url: string | null
-          no_show_fee_percent: number | null
-          opening_time: string | null
-          rescue_automation_enabled: boolean | null
-          rescue_days_threshold: number | null
-          rescue_message_template: string | null
-          updated_at: string | null
+          message: string
+          priority: string | null
+          resolved_at: string | null
+          status: string
+          type: string
           user_id: string
-          vocal_cancellation_enabled: boolean | null
-          vocal_confirmation_enabled: boolean | null
-          vocal_notification_enabled: boolean | null
-          webhook_url: string | null
         }
         Insert: {
-          appointment_reminder_enabled?: boolean | null
-          appointment_reminder_minutes?: number | null
-          appointment_reminder_template?: string | null
-          automation_send_hour?: number | null
-          automation_send_minute?: number | null
-          birthday_automation_enabled?: boolean | null
-          birthday_message_template?: string | null
-          business_name?: string | null
-          cancellation_time_limit_minutes?: number | null
-          closing_time?: string | null
-          commission_calculation_base?: string | null
+          admin_notes?: string | null
+          company_id?: string | null
           created_at?: string | null
-          credit_card_fee_percent?: number | null
-          debit_card_fee_percent?: number | null
-          deletion_password_enabled?: boolean | null
-          deletion_password_hash?: string | null
-          deletion_password_reset_expires?: string | null
-          deletion_password_reset_token?: string | null
-          fidelity_cuts_threshold?: number | null
-          fidelity_min_value?: number | null
-          fidelity_program_enabled?: boolean | null
           id?: string
-          late_cancellation_fee_percent?: number | null
-          logo_url?: string | null
-          no_show_fee_percent?: number | null
-          opening_time?: string | null
-          rescue_automation_enabled?: boolean | null
-          rescue_days_threshold?: number | null
-          rescue_message_template?: string | null
-          updated_at?: string | null
+          message: string
+          priority?: string | null
+          resolved_at?: string | null
+          status?: string
+          type?: string
           user_id: string
-          vocal_cancellation_enabled?: boolean | null
-          vocal_confirmation_enabled?: boolean | null
-          vocal_notification_enabled?: boolean | null
-          webhook_url?: string | null
         }
         Update: {
-          appointment_reminder_enabled?: boolean | null
-          appointment_reminder_minutes?: number | null
-          appointment_reminder_template?: string | null
-          automation_send_hour?: number | null
-          automation_send_minute?: number | null
-          birthday_automation_enabled?: boolean | null
-          birthday_message_template?: string | null
-          business_name?: string | null
-          cancellation_time_limit_minutes?: number | null
-          closing_time?: string | null
-          commission_calculation_base?: string | null
+          admin_notes?: string | null
+          company_id?: string | null
           created_at?: string | null
-          credit_card_fee_percent?: number | null
-          debit_card_fee_percent?: number | null
-          deletion_password_enabled?: boolean | null
-          deletion_password_hash?: string | null
-          deletion_password_reset_expires?: string | null
-          deletion_password_reset_token?: string | null
-          fidelity_cuts_threshold?: number | null
-          fidelity_min_value?: number | null
-          fidelity_program_enabled?: boolean | null
           id?: string
-          late_cancellation_fee_percent?: number | null
-          logo_url?: string | null
-          no_show_fee_percent?: number | null
-          opening_time?: string | null
-          rescue_automation_enabled?: boolean | null
-          rescue_days_threshold?: number | null
-          rescue_message_template?: string | null
-          updated_at?: string | null
+          message?: string
+          priority?: string | null
+          resolved_at?: string | null
+          status?: string
+          type?: string
           user_id?: string
-          vocal_cancellation_enabled?: boolean | null
-          vocal_confirmation_enabled?: boolean | null
-          vocal_notification_enabled?: boolean | null
-          webhook_url?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "feedbacks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      campaign_message_logs: {
+      holidays: {
         Row: {
-          campaign_id: string
+          created_at: string | null
+          date: string
+          id: string
+          name: string
+          unit_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          id?: string
+          name: string
+          unit_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          id?: string
+          name?: string
+          unit_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      marketing_campaigns: {
+        Row: {
+          company_id: string
+          completed_at: string | null
+          conversion_window_days: number
           created_at: string
-          error_message: string | null
+          created_by: string | null
+          failed_count: number
+          hourly_limit: number | null
           id: string
-          recipient_name: string | null
-          recipient_phone: string
-          recipient_type: string
-          sent_at: string | null
+          media_type: string | null
+          media_url: string | null
+          message_template: string
+          paused_at: string | null
+          quiet_hours_end: number | null
+          quiet_hours_start: number | null
+          scheduled_at: string | null
+          sent_count: number
+          started_at: string | null
           status: string
+          total_recipients: number
+          unit_id: string | null
         }
         Insert: {
-          campaign_id: string
+          company_id: string
+          completed_at?: string | null
+          conversion_window_days?: number
           created_at?: string
-          error_message?: string | null
+          created_by?: string | null
+          failed_count?: number
+          hourly_limit?: number | null
           id?: string
-          recipient_name?: string | null
-          recipient_phone: string
-          recipient_type?: string
-          sent_at?: string | null
+          media_type?: string | null
+          media_url?: string | null
+          message_template: string
+          paused_at?: string | null
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          scheduled_at?: string | null
+          sent_count?: number
+          started_at?: string | null
           status?: string
+          total_recipients?: number
+          unit_id?: string | null
         }
         Update: {
-          campaign_id?: string
+          company_id?: string
+          completed_at?: string | null
+          conversion_window_days?: number
           created_at?: string
-          error_message?: string | null
+          created_by?: string | null
+          failed_count?: number
+          hourly_limit?: number | null
           id?: string
-          recipient_name?: string | null
-          recipient_phone?: string
-          recipient_type?: string
-          sent_at?: string | null
+          media_type?: string | null
+          media_url?: string | null
+          message_template?: string
+          paused_at?: string | null
+          quiet_hours_end?: number | null
+          quiet_hours_start?: number | null
+          scheduled_at?: string | null
+          sent_count?: number
+          started_at?: string | null
           status?: string
+          total_recipients?: number
+          unit_id?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "campaign_message_logs_campaign_id_fkey"
-            columns: ["campaign_id"]
-            isOneToOne: false
-            referencedRelation: "marketing_campaigns"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      cancellation_history: {
+      message_templates: {
         Row: {
-          appointment_id: string | null
-          barber_name: string
-          cancellation_source: string
-          cancelled_at: string
-          client_name: string
-          client_phone: string | null
-          company_id: string | null
+          category: string | null
+          content: string
           created_at: string
           id: string
-          is_late_cancellation: boolean
-          is_no_show: boolean
-          minutes_before: number
-          notes: string | null
-          scheduled_time: string
-          service_name: string
-          total_price: number
-          unit_id: string
+          name: string
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          appointment_id?: string | null
-          barber_name: string
-          cancellation_source?: string
-          cancelled_at?: string
-          client_name: string
-          client_phone?: string | null
-          company_id?: string | null
+          category?: string | null
+          content: string
           created_at?: string
           id?: string
-          is_late_cancellation?: boolean
-          is_no_show?: boolean
-          minutes_before?: number
-          notes?: string | null
-          scheduled_time: string
-          service_name: string
-          total_price?: number
-          unit_id: string
+          name: string
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          appointment_id?: string | null
-          barber_name?: string
-          cancellation_source?: string
-          cancelled_at?: string
-          client_name?: string
-          client_phone?: string | null
-          company_id?: string | null
+          category?: string | null
+          content?: string
           created_at?: string
           id?: string
-          is_late_cancellation?: boolean
-          is_no_show?: boolean
-          minutes_before?: number
-          notes?: string | null
-          scheduled_time?: string
-          service_name?: string
-          total_price?: number
-          unit_id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
-      client_dependents: {
+      page_visits: {
         Row: {
-          birth_date: string | null
-          client_id: string
-          company_id: string | null
-          created_at: string | null
           id: string
-          name: string
-          notes: string | null
-          relationship: string | null
-          unit_id: string
-          updated_at: string | null
+          ip_hash: string | null
+          page_path: string
+          referrer: string | null
+          session_id: string | null
+          user_agent: string | null
+          visited_at: string | null
         }
         Insert: {
-          birth_date?: string | null
-          client_id: string
-          company_id?: string | null
-          created_at?: string | null
           id?: string
-          name: string
-          notes?: string | null
-          relationship?: string | null
-          unit_id: string
-          updated_at?: string | null
+          ip_hash?: string | null
+          page_path: string
+          referrer?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          visited_at?: string | null
         }
         Update: {
-          birth_date?: string | null
-          client_id?: string
-          company_id?: string | null
-          created_at?: string | null
           id?: string
-          name?: string
-          notes?: string | null
-          relationship?: string | null
-          unit_id?: string
-          updated_at?: string | null
+          ip_hash?: string | null
+          page_path?: string
+          referrer?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          visited_at?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "client_dependents_client_id_fkey"
-            columns: ["client_id"]
-            isOneToOne: false
-            referencedRelation: "clients"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "client_dependents_company_id_fkey"
-            columns: ["company_id"]
-            isOneToOne: false
-            referencedRelation: "companies"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "client_dependents_unit_id_fkey"
-            columns: ["unit_id"]
-            isOneToOne: false
-            referencedRelation: "units"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      clients: {
+      partnership_terms: {
         Row: {
-          available_courtesies: number | null
-          birth_date: string | null
-          company_id: string | null
-          created_at: string | null
+          company_id: string
+          content: string
+          created_at: string
+          created_by: string | null
           id: string
-          last_visit_at: string | null
-          loyalty_cuts: number | null
-          marketing_opt_out: boolean | null
-          name: string
-          notes: string | null
-          opted_out_at: string | null
-          phone: string
-          tags: string[] | null
-          total_courtesies_earned: number | null
-          total_visits: number | null
-          unit_id: string
-          updated_at: string | null
+          is_active: boolean | null
+          title: string
+          version: string
         }
         Insert: {
-          available_courtesies?: number | null
-          birth_date?: string | null
-          company_id?: string | null
-          created_at?: string | null
+          company_id: string
+          content: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          last_visit_at?: string | null
-          loyalty_cuts?: number | null
-          marketing_opt_out?: boolean | null
-          name: string
-          notes?: string | null
-          opted_out_at?: string | null
-          phone: string
-          tags?: string[] | null
-          total_courtesies_earned?: number | null
-          total_visits?: number | null
-          unit_id: string
-          updated_at?: string | null
+          is_active?: boolean | null
+          title: string
+          version: string
         }
         Update: {
-          available_courtesies?: number | null
-          birth_date?: string | null
-          company_id?: string | null
-          created_at?: string | null
+          company_id?: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          last_visit_at?: string | null
-          loyalty_cuts?: number | null
-          marketing_opt_out?: boolean | null
-          name?: string
-          notes?: string | null
-          opted_out_at?: string | null
-          phone?: string
-          tags?: string[] | null
-          total_courtesies_earned?: number | null
-          total_visits?: number | null
-          unit_id?: string
-          updated_at?: string | null
+          is_active?: boolean | null
+          title?: string
+          version?: string
         }
         Relationships: [
           {
-            foreignKeyName: "clients_company_id_fkey"
+            foreignKeyName: "partnership_terms_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "clients_unit_id_fkey"
-            columns: ["unit_id"]
-            isOneToOne: false
-            referencedRelation: "units"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      companies: {
+      plan_features: {
         Row: {
           created_at: string | null
-          evolution_api_key: string | null
-          evolution_instance_name: string | null
+          display_order: number | null
+          feature_key: string
+          feature_name: string
+          feature_type: string
+          franquias_value: string | null
           id: string
-          is_blocked: boolean | null
-          is_partner: boolean | null
-          last_login_at: string | null
-          monthly_price: number | null
-          name: string
-          owner_user_id: string
-          partner_ends_at: string | null
-          partner_notes: string | null
-          partner_renewed_count: number | null
-          partner_started_at: string | null
-          plan_status: string | null
-          plan_type: string | null
-          signup_source: string | null
-          stripe_customer_id: string | null
-          stripe_subscription_id: string | null
-          trial_ends_at: string | null
+          inicial_value: string | null
+          profissional_value: string | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
-          evolution_api_key?: string | null
-          evolution_instance_name?: string | null
+          display_order?: number | null
+          feature_key: string
+          feature_name: string
+          feature_type: string
+          franquias_value?: string | null
           id?: string
-          is_blocked?: boolean | null
-          is_partner?: boolean | null
-          last_login_at?: string | null
-          monthly_price?: number | null
-          name: string
-          owner_user_id: string
-          partner_ends_at?: string | null
-          partner_notes?: string | null
-          partner_renewed_count?: number | null
-          partner_started_at?: string | null
-          plan_status?: string | null
-          plan_type?: string | null
-          signup_source?: string | null
-          stripe_customer_id?: string | null
-          stripe_subscription_id?: string | null
-          trial_ends_at?: string | null
+          inicial_value?: string | null
+          profissional_value?: string | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
-          evolution_api_key?: string | null
-          evolution_instance_name?: string | null
+          display_order?: number | null
+          feature_key?: string
+          feature_name?: string
+          feature_type?: string
+          franquias_value?: string | null
           id?: string
-          is_blocked?: boolean | null
-          is_partner?: boolean | null
-          last_login_at?: string | null
-          monthly_price?: number | null
-          name?: string
-          owner_user_id?: string
-          partner_ends_at?: string | null
-          partner_notes?: string | null
-          partner_renewed_count?: number | null
-          partner_started_at?: string | null
-          plan_status?: string | null
-          plan_type?: string | null
-          signup_source?: string | null
-          stripe_customer_id?: string | null
-          stripe_subscription_id?: string | null
-          trial_ends_at?: string | null
+          inicial_value?: string | null
+          profissional_value?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
-      expenses: {
+      product_sales: {
         Row: {
-          amount: number
-          category: string
+          appointment_id: string | null
+          barber_id: string | null
+          client_name: string | null
+          client_phone: string | null
           company_id: string | null
           created_at: string
-          description: string | null
-          expense_date: string
           id: string
-          is_recurring: boolean | null
           payment_method: string | null
+          product_id: string
+          quantity: number
+          sale_date: string
+          total_price: number
           unit_id: string
+          unit_price: number
         }
         Insert: {
-          amount: number
-          category: string
+          appointment_id?: string | null
+          barber_id?: string | null
+          client_name?: string | null
+          client_phone?: string | null
           company_id?: string | null
           created_at?: string
-          description?: string | null
-          expense_date?: string
           id?: string
-          is_recurring?: boolean | null
           payment_method?: string | null
+          product_id: string
+          quantity?: number
+          sale_date?: string
+          total_price: number
           unit_id: string
+          unit_price: number
         }
         Update: {
-          amount?: number
-          category?: string
+          appointment_id?: string | null
+          barber_id?: string | null
+          client_name?: string | null
+          client_phone?: string | null
           company_id?: string | null
           created_at?: string
-          description?: string | null
-          expense_date?: string
           id?: string
-          is_recurring?: boolean | null
           payment_method?: string | null
+          product_id?: string
+          quantity?: number
+          sale_date?: string
+          total_price?: number
           unit_id?: string
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "expenses_company_id_fkey"
+            foreignKeyName: "product_sales_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_sales_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_sales_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "expenses_unit_id_fkey"
+            foreignKeyName: "product_sales_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_sales_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -834,345 +2415,518 @@ export type Database = {
           },
         ]
       }
-      feedbacks: {
+      products: {
         Row: {
-          admin_notes: string | null
           company_id: string | null
-          created_at: string | null
+          cost_price: number
+          created_at: string
+          description: string | null
           id: string
-          message: string
-          priority: string | null
-          resolved_at: string | null
-          status: string
-          type: string
-          user_id: string
+          is_active: boolean | null
+          min_stock_alert: number | null
+          name: string
+          sale_price: number
+          sku: string | null
+          stock_quantity: number
+          unit_id: string
+          updated_at: string
         }
         Insert: {
-          admin_notes?: string | null
           company_id?: string | null
-          created_at?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
           id?: string
-          message: string
-          priority?: string | null
-          resolved_at?: string | null
-          status?: string
-          type?: string
-          user_id: string
+          is_active?: boolean | null
+          min_stock_alert?: number | null
+          name: string
+          sale_price: number
+          sku?: string | null
+          stock_quantity?: number
+          unit_id: string
+          updated_at?: string
         }
         Update: {
-          admin_notes?: string | null
           company_id?: string | null
-          created_at?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
           id?: string
-          message?: string
-          priority?: string | null
-          resolved_at?: string | null
-          status?: string
-          type?: string
-          user_id?: string
+          is_active?: boolean | null
+          min_stock_alert?: number | null
+          name?: string
+          sale_price?: number
+          sku?: string | null
+          stock_quantity?: number
+          unit_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "feedbacks_company_id_fkey"
+            foreignKeyName: "products_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "products_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      holidays: {
+      public_booking_attempts: {
         Row: {
-          created_at: string | null
-          date: string
+          created_at: string
           id: string
-          name: string
-          user_id: string
+          ip_address: string
+          phone: string
+          unit_id: string
         }
         Insert: {
-          created_at?: string | null
-          date: string
+          created_at?: string
           id?: string
-          name: string
-          user_id: string
+          ip_address: string
+          phone: string
+          unit_id: string
         }
         Update: {
-          created_at?: string | null
-          date?: string
+          created_at?: string
           id?: string
-          name?: string
-          user_id?: string
+          ip_address?: string
+          phone?: string
+          unit_id?: string
         }
-        Relationships: []
-      }
-      marketing_campaigns: {
-        Row: {
-          company_id: string
-          completed_at: string | null
-          created_at: string
-          created_by: string | null
-          failed_count: number
-          id: string
-          media_type: string | null
-          media_url: string | null
-          message_template: string
-          sent_count: number
-          status: string
-          total_recipients: number
-          unit_id: string | null
+        Relationships: [
+          {
+            foreignKeyName: "public_booking_attempts_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity: number
+          unit_cost: number
+          unit_id: string
         }
         Insert: {
-          company_id: string
-          completed_at?: string | null
           created_at?: string
-          created_by?: string | null
-          failed_count?: number
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          message_template: string
-          sent_count?: number
-          status?: string
-          total_recipients?: number
-          unit_id?: string | null
+          product_id?: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity: number
+          unit_cost?: number
+          unit_id: string
         }
         Update: {
-          company_id?: string
-          completed_at?: string | null
           created_at?: string
-          created_by?: string | null
-          failed_count?: number
           id?: string
-          media_type?: string | null
-          media_url?: string | null
-          message_template?: string
-          sent_count?: number
-          status?: string
-          total_recipients?: number
-          unit_id?: string | null
+          product_id?: string | null
+          product_name?: string
+          purchase_order_id?: string
+          quantity?: number
+          unit_cost?: number
+          unit_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      message_templates: {
+      purchase_orders: {
         Row: {
-          category: string | null
-          content: string
+          company_id: string | null
           created_at: string
+          created_by: string | null
+          expected_date: string | null
+          expense_id: string | null
           id: string
-          name: string
+          notes: string | null
+          order_date: string
+          received_at: string | null
+          received_by: string | null
+          status: string
+          supplier_id: string | null
+          total_amount: number
+          unit_id: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          category?: string | null
-          content: string
+          company_id?: string | null
           created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          expense_id?: string | null
           id?: string
-          name: string
+          notes?: string | null
+          order_date?: string
+          received_at?: string | null
+          received_by?: string | null
+          status?: string
+          supplier_id?: string | null
+          total_amount?: number
+          unit_id: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          category?: string | null
-          content?: string
+          company_id?: string | null
           created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          expense_id?: string | null
           id?: string
-          name?: string
+          notes?: string | null
+          order_date?: string
+          received_at?: string | null
+          received_by?: string | null
+          status?: string
+          supplier_id?: string | null
+          total_amount?: number
+          unit_id?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      page_visits: {
+      saas_settings: {
         Row: {
+          annual_discount_percent: number | null
+          default_trial_days: number | null
+          elite_plan_price: number | null
+          empire_plan_price: number | null
+          franquias_plan_annual_price: number | null
+          franquias_plan_price: number | null
+          google_conversion_id: string | null
+          google_tag_id: string | null
           id: string
-          ip_hash: string | null
-          page_path: string
-          referrer: string | null
-          session_id: string | null
-          user_agent: string | null
-          visited_at: string | null
+          inicial_plan_annual_price: number | null
+          inicial_plan_price: number | null
+          maintenance_message: string | null
+          maintenance_mode: boolean | null
+          meta_access_token: string | null
+          meta_pixel_id: string | null
+          professional_plan_price: number | null
+          profissional_plan_annual_price: number | null
+          profissional_plan_price: number | null
+          stripe_live_publishable_key: string | null
+          stripe_live_secret_key: string | null
+          stripe_mode: string | null
+          stripe_test_publishable_key: string | null
+          stripe_test_secret_key: string | null
+          stripe_webhook_secret: string | null
+          tiktok_pixel_id: string | null
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
+          annual_discount_percent?: number | null
+          default_trial_days?: number | null
+          elite_plan_price?: number | null
+          empire_plan_price?: number | null
+          franquias_plan_annual_price?: number | null
+          franquias_plan_price?: number | null
+          google_conversion_id?: string | null
+          google_tag_id?: string | null
           id?: string
-          ip_hash?: string | null
-          page_path: string
-          referrer?: string | null
-          session_id?: string | null
-          user_agent?: string | null
-          visited_at?: string | null
+          inicial_plan_annual_price?: number | null
+          inicial_plan_price?: number | null
+          maintenance_message?: string | null
+          maintenance_mode?: boolean | null
+          meta_access_token?: string | null
+          meta_pixel_id?: string | null
+          professional_plan_price?: number | null
+          profissional_plan_annual_price?: number | null
+          profissional_plan_price?: number | null
+          stripe_live_publishable_key?: string | null
+          stripe_live_secret_key?: string | null
+          stripe_mode?: string | null
+          stripe_test_publishable_key?: string | null
+          stripe_test_secret_key?: string | null
+          stripe_webhook_secret?: string | null
+          tiktok_pixel_id?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Update: {
+          annual_discount_percent?: number | null
+          default_trial_days?: number | null
+          elite_plan_price?: number | null
+          empire_plan_price?: number | null
+          franquias_plan_annual_price?: number | null
+          franquias_plan_price?: number | null
+          google_conversion_id?: string | null
+          google_tag_id?: string | null
           id?: string
-          ip_hash?: string | null
-          page_path?: string
-          referrer?: string | null
-          session_id?: string | null
-          user_agent?: string | null
-          visited_at?: string | null
+          inicial_plan_annual_price?: number | null
+          inicial_plan_price?: number | null
+          maintenance_message?: string | null
+          maintenance_mode?: boolean | null
+          meta_access_token?: string | null
+          meta_pixel_id?: string | null
+          professional_plan_price?: number | null
+          profissional_plan_annual_price?: number | null
+          profissional_plan_price?: number | null
+          stripe_live_publishable_key?: string | null
+          stripe_live_secret_key?: string | null
+          stripe_mode?: string | null
+          stripe_test_publishable_key?: string | null
+          stripe_test_secret_key?: string | null
+          stripe_webhook_secret?: string | null
+          tiktok_pixel_id?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Relationships: []
       }
-      partnership_terms: {
+      satisfaction_surveys: {
         Row: {
+          answered_at: string | null
+          appointment_id: string
+          barber_id: string | null
+          client_id: string | null
+          client_name: string
+          client_phone: string
+          comment: string | null
           company_id: string
-          content: string
           created_at: string
-          created_by: string | null
+          follow_up_sent_at: string | null
           id: string
-          is_active: boolean | null
-          title: string
-          version: string
+          score: number | null
+          sent_at: string
+          status: string
+          unit_id: string
         }
         Insert: {
+          answered_at?: string | null
+          appointment_id: string
+          barber_id?: string | null
+          client_id?: string | null
+          client_name: string
+          client_phone: string
+          comment?: string | null
           company_id: string
-          content: string
           created_at?: string
-          created_by?: string | null
+          follow_up_sent_at?: string | null
           id?: string
-          is_active?: boolean | null
-          title: string
-          version: string
+          score?: number | null
+          sent_at?: string
+          status?: string
+          unit_id: string
         }
         Update: {
+          answered_at?: string | null
+          appointment_id?: string
+          barber_id?: string | null
+          client_id?: string | null
+          client_name?: string
+          client_phone?: string
+          comment?: string | null
           company_id?: string
-          content?: string
           created_at?: string
-          created_by?: string | null
+          follow_up_sent_at?: string | null
           id?: string
-          is_active?: boolean | null
-          title?: string
-          version?: string
+          score?: number | null
+          sent_at?: string
+          status?: string
+          unit_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "partnership_terms_company_id_fkey"
+            foreignKeyName: "satisfaction_surveys_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "satisfaction_surveys_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "satisfaction_surveys_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "satisfaction_surveys_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "satisfaction_surveys_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      plan_features: {
+      service_plan_services: {
         Row: {
-          created_at: string | null
-          display_order: number | null
-          feature_key: string
-          feature_name: string
-          feature_type: string
-          franquias_value: string | null
+          created_at: string
           id: string
-          inicial_value: string | null
-          profissional_value: string | null
-          updated_at: string | null
+          plan_id: string
+          service_id: string
+          unit_id: string
         }
         Insert: {
-          created_at?: string | null
-          display_order?: number | null
-          feature_key: string
-          feature_name: string
-          feature_type: string
-          franquias_value?: string | null
+          created_at?: string
           id?: string
-          inicial_value?: string | null
-          profissional_value?: string | null
-          updated_at?: string | null
+          plan_id: string
+          service_id: string
+          unit_id: string
         }
         Update: {
-          created_at?: string | null
-          display_order?: number | null
-          feature_key?: string
-          feature_name?: string
-          feature_type?: string
-          franquias_value?: string | null
+          created_at?: string
           id?: string
-          inicial_value?: string | null
-          profissional_value?: string | null
-          updated_at?: string | null
+          plan_id?: string
+          service_id?: string
+          unit_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "service_plan_services_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "service_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_services_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_services_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      product_sales: {
+      service_plans: {
         Row: {
-          appointment_id: string | null
-          barber_id: string | null
-          client_name: string | null
-          client_phone: string | null
           company_id: string | null
           created_at: string
+          credits: number
+          description: string | null
           id: string
-          payment_method: string | null
-          product_id: string
-          quantity: number
-          sale_date: string
-          total_price: number
+          is_active: boolean
+          name: string
+          period_days: number
+          plan_type: string
+          price: number
           unit_id: string
-          unit_price: number
+          updated_at: string
         }
         Insert: {
-          appointment_id?: string | null
-          barber_id?: string | null
-          client_name?: string | null
-          client_phone?: string | null
           company_id?: string | null
           created_at?: string
+          credits: number
+          description?: string | null
           id?: string
-          payment_method?: string | null
-          product_id: string
-          quantity?: number
-          sale_date?: string
-          total_price: number
+          is_active?: boolean
+          name: string
+          period_days?: number
+          plan_type?: string
+          price?: number
           unit_id: string
-          unit_price: number
+          updated_at?: string
         }
         Update: {
-          appointment_id?: string | null
-          barber_id?: string | null
-          client_name?: string | null
-          client_phone?: string | null
           company_id?: string | null
           created_at?: string
+          credits?: number
+          description?: string | null
           id?: string
-          payment_method?: string | null
-          product_id?: string
-          quantity?: number
-          sale_date?: string
-          total_price?: number
+          is_active?: boolean
+          name?: string
+          period_days?: number
+          plan_type?: string
+          price?: number
           unit_id?: string
-          unit_price?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "product_sales_appointment_id_fkey"
-            columns: ["appointment_id"]
-            isOneToOne: false
-            referencedRelation: "appointments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "product_sales_barber_id_fkey"
-            columns: ["barber_id"]
-            isOneToOne: false
-            referencedRelation: "barbers"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "product_sales_company_id_fkey"
+            foreignKeyName: "service_plans_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "product_sales_product_id_fkey"
-            columns: ["product_id"]
-            isOneToOne: false
-            referencedRelation: "products"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "product_sales_unit_id_fkey"
+            foreignKeyName: "service_plans_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -1180,62 +2934,47 @@ export type Database = {
           },
         ]
       }
-      products: {
+      services: {
         Row: {
           company_id: string | null
-          cost_price: number
           created_at: string
-          description: string | null
+          duration_minutes: number
           id: string
           is_active: boolean | null
-          min_stock_alert: number | null
           name: string
-          sale_price: number
-          sku: string | null
-          stock_quantity: number
+          price: number
           unit_id: string
-          updated_at: string
         }
         Insert: {
           company_id?: string | null
-          cost_price?: number
           created_at?: string
-          description?: string | null
+          duration_minutes: number
           id?: string
           is_active?: boolean | null
-          min_stock_alert?: number | null
           name: string
-          sale_price: number
-          sku?: string | null
-          stock_quantity?: number
+          price: number
           unit_id: string
-          updated_at?: string
         }
         Update: {
           company_id?: string | null
-          cost_price?: number
           created_at?: string
-          description?: string | null
+          duration_minutes?: number
           id?: string
           is_active?: boolean | null
-          min_stock_alert?: number | null
           name?: string
-          sale_price?: number
-          sku?: string | null
-          stock_quantity?: number
+          price?: number
           unit_id?: string
-          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_company_id_fkey"
+            foreignKeyName: "services_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "products_unit_id_fkey"
+            foreignKeyName: "services_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -1243,137 +2982,190 @@ export type Database = {
           },
         ]
       }
-      saas_settings: {
+      staff_members: {
         Row: {
-          annual_discount_percent: number | null
-          default_trial_days: number | null
-          elite_plan_price: number | null
-          empire_plan_price: number | null
-          franquias_plan_annual_price: number | null
-          franquias_plan_price: number | null
-          google_conversion_id: string | null
-          google_tag_id: string | null
+          company_id: string
+          created_at: string
+          email: string | null
           id: string
-          inicial_plan_annual_price: number | null
-          inicial_plan_price: number | null
-          maintenance_message: string | null
-          maintenance_mode: boolean | null
-          meta_access_token: string | null
-          meta_pixel_id: string | null
-          professional_plan_price: number | null
-          profissional_plan_annual_price: number | null
-          profissional_plan_price: number | null
-          stripe_live_publishable_key: string | null
-          stripe_live_secret_key: string | null
-          stripe_mode: string | null
-          stripe_test_publishable_key: string | null
-          stripe_test_secret_key: string | null
-          stripe_webhook_secret: string | null
-          tiktok_pixel_id: string | null
-          updated_at: string | null
-          updated_by: string | null
+          invite_token: string | null
+          is_active: boolean
+          name: string
+          role: Database["public"]["Enums"]["app_role"]
+          unit_ids: string[]
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
-          annual_discount_percent?: number | null
-          default_trial_days?: number | null
-          elite_plan_price?: number | null
-          empire_plan_price?: number | null
-          franquias_plan_annual_price?: number | null
-          franquias_plan_price?: number | null
-          google_conversion_id?: string | null
-          google_tag_id?: string | null
+          company_id: string
+          created_at?: string
+          email?: string | null
           id?: string
-          inicial_plan_annual_price?: number | null
-          inicial_plan_price?: number | null
-          maintenance_message?: string | null
-          maintenance_mode?: boolean | null
-          meta_access_token?: string | null
-          meta_pixel_id?: string | null
-          professional_plan_price?: number | null
-          profissional_plan_annual_price?: number | null
-          profissional_plan_price?: number | null
-          stripe_live_publishable_key?: string | null
-          stripe_live_secret_key?: string | null
-          stripe_mode?: string | null
-          stripe_test_publishable_key?: string | null
-          stripe_test_secret_key?: string | null
-          stripe_webhook_secret?: string | null
-          tiktok_pixel_id?: string | null
-          updated_at?: string | null
-          updated_by?: string | null
+          invite_token?: string | null
+          is_active?: boolean
+          name: string
+          role: Database["public"]["Enums"]["app_role"]
+          unit_ids?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          invite_token?: string | null
+          is_active?: boolean
+          name?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          unit_ids?: string[]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_members_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          product_id: string
+          product_sale_id: string | null
+          purchase_order_id: string | null
+          quantity: number
+          reason: string | null
+          stock_after: number | null
+          unit_id: string
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          product_id: string
+          product_sale_id?: string | null
+          purchase_order_id?: string | null
+          quantity: number
+          reason?: string | null
+          stock_after?: number | null
+          unit_id: string
         }
         Update: {
-          annual_discount_percent?: number | null
-          default_trial_days?: number | null
-          elite_plan_price?: number | null
-          empire_plan_price?: number | null
-          franquias_plan_annual_price?: number | null
-          franquias_plan_price?: number | null
-          google_conversion_id?: string | null
-          google_tag_id?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          inicial_plan_annual_price?: number | null
-          inicial_plan_price?: number | null
-          maintenance_message?: string | null
-          maintenance_mode?: boolean | null
-          meta_access_token?: string | null
-          meta_pixel_id?: string | null
-          professional_plan_price?: number | null
-          profissional_plan_annual_price?: number | null
-          profissional_plan_price?: number | null
-          stripe_live_publishable_key?: string | null
-          stripe_live_secret_key?: string | null
-          stripe_mode?: string | null
-          stripe_test_publishable_key?: string | null
-          stripe_test_secret_key?: string | null
-          stripe_webhook_secret?: string | null
-          tiktok_pixel_id?: string | null
-          updated_at?: string | null
-          updated_by?: string | null
+          movement_type?: string
+          product_id?: string
+          product_sale_id?: string | null
+          purchase_order_id?: string | null
+          quantity?: number
+          reason?: string | null
+          stock_after?: number | null
+          unit_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_sale_id_fkey"
+            columns: ["product_sale_id"]
+            isOneToOne: false
+            referencedRelation: "product_sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      services: {
+      suppliers: {
         Row: {
           company_id: string | null
+          contact_name: string | null
           created_at: string
-          duration_minutes: number
+          document: string | null
+          email: string | null
           id: string
-          is_active: boolean | null
+          is_active: boolean
           name: string
-          price: number
+          notes: string | null
+          phone: string | null
           unit_id: string
+          updated_at: string
         }
         Insert: {
           company_id?: string | null
+          contact_name?: string | null
           created_at?: string
-          duration_minutes: number
+          document?: string | null
+          email?: string | null
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           name: string
-          price: number
+          notes?: string | null
+          phone?: string | null
           unit_id: string
+          updated_at?: string
         }
         Update: {
           company_id?: string | null
+          contact_name?: string | null
           created_at?: string
-          duration_minutes?: number
+          document?: string | null
+          email?: string | null
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           name?: string
-          price?: number
+          notes?: string | null
+          phone?: string | null
           unit_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "services_company_id_fkey"
+            foreignKeyName: "suppliers_company_id_fkey"
             columns: ["company_id"]
             isOneToOne: false
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "services_unit_id_fkey"
+            foreignKeyName: "suppliers_unit_id_fkey"
             columns: ["unit_id"]
             isOneToOne: false
             referencedRelation: "units"
@@ -1436,6 +3228,7 @@ export type Database = {
         Row: {
           address: string | null
           agenda_api_key: string | null
+          booking_slug: string | null
           company_id: string | null
           created_at: string
           evolution_api_key: string | null
@@ -1447,9 +3240,12 @@ export type Database = {
           is_headquarters: boolean | null
           manager_name: string | null
           name: string
+          online_booking_enabled: boolean | null
           phone: string | null
           timezone: string | null
           user_id: string
+          waitlist_enabled: boolean
+          waitlist_hold_minutes: number
           whatsapp_name: string | null
           whatsapp_phone: string | null
           whatsapp_picture_url: string | null
@@ -1457,6 +3253,7 @@ export type Database = {
         Insert: {
           address?: string | null
           agenda_api_key?: string | null
+          booking_slug?: string | null
           company_id?: string | null
           created_at?: string
           evolution_api_key?: string | null
@@ -1468,9 +3265,12 @@ export type Database = {
           is_headquarters?: boolean | null
           manager_name?: string | null
           name: string
+          online_booking_enabled?: boolean | null
           phone?: string | null
           timezone?: string | null
           user_id: string
+          waitlist_enabled?: boolean
+          waitlist_hold_minutes?: number
           whatsapp_name?: string | null
           whatsapp_phone?: string | null
           whatsapp_picture_url?: string | null
@@ -1478,6 +3278,7 @@ export type Database = {
         Update: {
           address?: string | null
           agenda_api_key?: string | null
+          booking_slug?: string | null
           company_id?: string | null
           created_at?: string
           evolution_api_key?: string | null
@@ -1489,9 +3290,12 @@ export type Database = {
           is_headquarters?: boolean | null
           manager_name?: string | null
           name?: string
+          online_booking_enabled?: boolean | null
           phone?: string | null
           timezone?: string | null
           user_id?: string
+          waitlist_enabled?: boolean
+          waitlist_hold_minutes?: number
           whatsapp_name?: string | null
           whatsapp_phone?: string | null
           whatsapp_picture_url?: string | null
@@ -1527,16 +3331,228 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_entries: {
+        Row: {
+          appointment_id: string | null
+          barber_id: string | null
+          client_name: string
+          client_phone: string
+          company_id: string | null
+          created_at: string
+          desired_end_date: string
+          desired_start_date: string
+          id: string
+          notes: string | null
+          offer_expires_at: string | null
+          offered_at: string | null
+          offered_barber_id: string | null
+          offered_slot_end: string | null
+          offered_slot_start: string | null
+          service_id: string | null
+          source: string
+          status: string
+          unit_id: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          barber_id?: string | null
+          client_name: string
+          client_phone: string
+          company_id?: string | null
+          created_at?: string
+          desired_end_date: string
+          desired_start_date: string
+          id?: string
+          notes?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_barber_id?: string | null
+          offered_slot_end?: string | null
+          offered_slot_start?: string | null
+          service_id?: string | null
+          source?: string
+          status?: string
+          unit_id: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string | null
+          barber_id?: string | null
+          client_name?: string
+          client_phone?: string
+          company_id?: string | null
+          created_at?: string
+          desired_end_date?: string
+          desired_start_date?: string
+          id?: string
+          notes?: string | null
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_barber_id?: string | null
+          offered_slot_end?: string | null
+          offered_slot_start?: string | null
+          service_id?: string | null
+          source?: string
+          status?: string
+          unit_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_offered_barber_id_fkey"
+            columns: ["offered_barber_id"]
+            isOneToOne: false
+            referencedRelation: "barbers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_product_stock: {
+        Args: {
+          p_movement_type: string
+          p_product_id: string
+          p_quantity: number
+          p_reason?: string
+        }
+        Returns: number
+      }
       barber_has_pending_term: {
         Args: { _barber_id: string }
         Returns: boolean
       }
+      check_public_booking_rate_limit: {
+        Args: { p_ip_address: string; p_phone: string; p_unit_id: string }
+        Returns: boolean
+      }
+      claim_campaign_messages: {
+        Args: { p_campaign_id: string; p_limit: number }
+        Returns: {
+          id: string
+          recipient_name: string
+          recipient_phone: string
+          variant_id: string
+        }[]
+      }
+      create_appointments: {
+        Args: { p_appointments: Json; p_series: Json; p_services: Json }
+        Returns: {
+          id: string
+          start_time: string
+        }[]
+      }
+      create_commission_payout: {
+        Args: {
+          p_advance_ids: string[]
+          p_appointment_ids: string[]
+          p_barber_id: string
+          p_notes: string
+          p_period_end: string
+          p_period_start: string
+          p_product_sale_ids: string[]
+          p_unit_id: string
+        }
+        Returns: string
+      }
+      create_online_appointment: {
+        Args: {
+          p_barber_id: string
+          p_client_name: string
+          p_client_phone: string
+          p_phone_variations: string[]
+          p_service_id: string
+          p_start_time: string
+          p_unit_id: string
+        }
+        Returns: string
+      }
+      create_purchase_order: {
+        Args: {
+          p_expected_date: string
+          p_items: Json
+          p_notes: string
+          p_order_date: string
+          p_status: string
+          p_supplier_id: string
+          p_unit_id: string
+        }
+        Returns: string
+      }
+      find_client_plan_for_appointment: {
+        Args: { p_appointment_id: string }
+        Returns: string
+      }
       generate_agenda_api_key: { Args: never; Returns: string }
+      generate_unit_booking_slug: {
+        Args: { p_name: string; p_unit_id: string }
+        Returns: string
+      }
+      get_accessible_units: {
+        Args: never
+        Returns: {
+          address: string
+          booking_slug: string
+          company_id: string
+          created_at: string
+          evolution_instance_name: string
+          fidelity_cuts_threshold: number
+          fidelity_min_value: number
+          fidelity_program_enabled: boolean
+          id: string
+          is_headquarters: boolean
+          manager_name: string
+          name: string
+          online_booking_enabled: boolean
+          phone: string
+          timezone: string
+          user_id: string
+          waitlist_enabled: boolean
+          waitlist_hold_minutes: number
+          whatsapp_name: string
+          whatsapp_phone: string
+          whatsapp_picture_url: string
+        }[]
+      }
       get_barber_by_user_id: {
         Args: { _user_id: string }
         Returns: {
@@ -1566,6 +3582,94 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      get_barber_commission_settings: {
+        Args: never
+        Returns: {
+          commission_calculation_base: string
+          credit_card_fee_percent: number
+          debit_card_fee_percent: number
+        }[]
+      }
+      get_campaign_variant_stats: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          converted: number
+          failed: number
+          label: string
+          message_template: string
+          recipients: number
+          sent: number
+          variant_id: string
+        }[]
+      }
+      get_company_entitlements: {
+        Args: { p_company_id: string }
+        Returns: {
+          feature_key: string
+          feature_name: string
+          feature_type: string
+          plan_tier: string
+          value: string
+        }[]
+      }
+      get_company_plan_tier: {
+        Args: { p_company_id: string }
+        Returns: string
+      }
+      get_marketing_attribution: {
+        Args: {
+          p_company_id: string
+          p_end: string
+          p_start: string
+          p_unit_id?: string
+          p_window_days?: number
+        }
+        Returns: {
+          avg_hours_to_book: number
+          bookings: number
+          completed_bookings: number
+          label: string
+          messages_sent: number
+          revenue: number
+          source_key: string
+          source_type: string
+          started_at: string
+        }[]
+      }
+      get_plan_entitlement: {
+        Args: { p_company_id: string; p_feature_key: string }
+        Returns: string
+      }
+      get_plan_limit: {
+        Args: { p_company_id: string; p_feature_key: string }
+        Returns: number
+      }
+      get_segment_client_ids: {
+        Args: { p_company_id: string; p_rules: Json; p_unit_id?: string }
+        Returns: string[]
+      }
+      get_staff_company_status: {
+        Args: never
+        Returns: {
+          is_blocked: boolean
+          is_partner: boolean
+          partner_ends_at: string
+          plan_status: string
+          trial_ends_at: string
+        }[]
+      }
+      get_staff_owner_id: {
+        Args: never
+        Returns: string
+      }
+      get_workflow_trigger_events: {
+        Args: { p_company_id: string; p_since: string }
+        Returns: {
+          client_id: string
+          trigger_key: string
+          workflow_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1576,6 +3680,10 @@ export type Database = {
       increment_campaign_failed: { Args: { cid: string }; Returns: undefined }
       increment_campaign_sent: { Args: { cid: string }; Returns: undefined }
       is_super_admin: { Args: never; Returns: boolean }
+      merge_clients: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: string
+      }
       recalculate_all_client_fidelity: {
         Args: never
         Returns: {
@@ -1583,15 +3691,33 @@ export type Database = {
           updated_clients: number
         }[]
       }
+      receive_purchase_order: {
+        Args: { p_order_id: string; p_payment_method?: string }
+        Returns: string
+      }
+      regenerate_staff_invite_token: {
+        Args: { p_staff_member_id: string }
+        Returns: string
+      }
+      replace_appointment_services: {
+        Args: { p_appointment_id: string; p_services: Json }
+        Returns: undefined
+      }
       sanitize_brazilian_phone: {
         Args: { p_unit_id?: string; raw_phone: string }
         Returns: string
       }
+      user_is_unit_staff: { Args: { p_unit_id: string }; Returns: boolean }
       user_owns_company: { Args: { p_company_id: string }; Returns: boolean }
       user_owns_unit: { Args: { unit_id: string }; Returns: boolean }
     }
     Enums: {
-      app_role: "owner" | "barber" | "super_admin"
+      app_role:
+        | "owner"
+        | "barber"
+        | "super_admin"
+        | "receptionist"
+        | "unit_manager"
       appointment_status: "pending" | "confirmed" | "completed" | "cancelled"
     }
     CompositeTypes: {
@@ -1720,7 +3846,13 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["owner", "barber", "super_admin"],
+      app_role: [
+        "owner",
+        "barber",
+        "super_admin",
+        "receptionist",
+        "unit_manager",
+      ],
       appointment_status: ["pending", "confirmed", "completed", "cancelled"],
     },
   },
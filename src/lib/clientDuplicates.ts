@@ -0,0 +1,123 @@
+import { getPhoneVariations } from "@/lib/phone";
+
+export type DuplicateReason = "phone" | "name";
+
+export interface DuplicateCandidate {
+  id: string;
+  unit_id: string;
+  name: string;
+  phone: string;
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate> {
+  key: string;
+  a: T;
+  b: T;
+  reasons: DuplicateReason[];
+  // 0-1 name similarity, shown to help decide which record to keep
+  nameSimilarity: number;
+}
+
+// Names below this similarity only count as duplicates when first and last names match
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export const normalizeClientName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeClientName(a);
+  const right = normalizeClientName(b);
+  const maxLength = Math.max(left.length, right.length);
+  if (maxLength === 0) return 0;
+  return 1 - levenshtein(left, right) / maxLength;
+}
+
+function namesLookAlike(a: string, b: string, similarity: number): boolean {
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) return true;
+
+  // "João Pedro Silva" x "João Silva": same first and last name
+  const left = normalizeClientName(a).split(" ");
+  const right = normalizeClientName(b).split(" ");
+  return left.length > 1 && right.length > 1 && left[0] === right[0] && left[left.length - 1] === right[right.length - 1];
+}
+
+// Suspected duplicates inside the same unit: the same phone with or without the 9th digit,
+// or look-alike names. Names are only compared within the same first name to keep it fast
+// on large client lists.
+export function findDuplicateClients<T extends DuplicateCandidate>(clients: T[]): DuplicatePair<T>[] {
+  const pairs = new Map<string, DuplicatePair<T>>();
+
+  const addPair = (a: T, b: T, reason: DuplicateReason) => {
+    const [first, second] = a.id < b.id ? [a, b] : [b, a];
+    const key = `${first.id}:${second.id}`;
+    const existing = pairs.get(key);
+
+    if (existing) {
+      if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+      return;
+    }
+    pairs.set(key, { key, a: first, b: second, reasons: [reason], nameSimilarity: nameSimilarity(a.name, b.name) });
+  };
+
+  const byPhone = new Map<string, T[]>();
+  const byFirstName = new Map<string, T[]>();
+
+  clients.forEach((client) => {
+    const digits = (client.phone || "").replace(/\D/g, "");
+    if (digits) {
+      [digits, ...getPhoneVariations(digits)].forEach((phone) => {
+        const bucket = byPhone.get(`${client.unit_id}:${phone}`);
+        bucket?.forEach((other) => other.id !== client.id && addPair(other, client, "phone"));
+      });
+      const own = `${client.unit_id}:${digits}`;
+      if (byPhone.has(own)) byPhone.get(own)!.push(client);
+      else byPhone.set(own, [client]);
+    }
+
+    const firstName = normalizeClientName(client.name).split(" ")[0];
+    if (firstName) {
+      const key = `${client.unit_id}:${firstName}`;
+      const bucket = byFirstName.get(key) || [];
+      bucket.forEach((other) => {
+        if (namesLookAlike(other.name, client.name, nameSimilarity(other.name, client.name))) {
+          addPair(other, client, "name");
+        }
+      });
+      bucket.push(client);
+      byFirstName.set(key, bucket);
+    }
+  });
+
+  // Phone matches first, then the most similar names
+  return Array.from(pairs.values()).sort(
+    (x, y) =>
+      Number(y.reasons.includes("phone")) - Number(x.reasons.includes("phone")) ||
+      y.reasons.length - x.reasons.length ||
+      y.nameSimilarity - x.nameSimilarity
+  );
+}
@@ -0,0 +1,228 @@
+import readXlsxFile from "read-excel-file";
+import { format, isValid, parse } from "date-fns";
+import { isValidBrazilianPhone, normalizePhoneToStandard, sanitizeBrazilianPhone } from "@/lib/phone";
+
+export type ImportField = "name" | "phone" | "birth_date" | "tags" | "visits" | "last_visit" | "notes";
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: "Nome",
+  phone: "Telefone",
+  birth_date: "Data de nascimento",
+  tags: "Tags",
+  visits: "Visitas anteriores",
+  last_visit: "Última visita",
+  notes: "Observações",
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["name", "phone"];
+
+// Column index per field (undefined = not imported)
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportSheet {
+  headers: string[];
+  // line = row number in the spreadsheet (header is line 1), kept for error messages
+  rows: { line: number; cells: ImportCell[] }[];
+}
+
+export interface ParsedImportRow {
+  line: number;
+  name: string;
+  phone: string;
+  // Dedup key shared by the variants with and without the 9th digit
+  phoneKey: string;
+  birth_date: string | null;
+  tags: string[];
+  visits: number;
+  last_visit_at: string | null;
+  notes: string | null;
+  errors: string[];
+  // Existing client with the same phone (or an earlier row of the same file)
+  duplicateOf: { id: string; name: string } | "file" | null;
+}
+
+export interface ExistingClientRef {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+// Header names recognised when guessing the mapping (lowercase, without accents)
+const HEADER_GUESSES: Record<ImportField, string[]> = {
+  name: ["nome", "name", "cliente", "nome completo"],
+  phone: ["telefone", "celular", "whatsapp", "phone", "fone", "tel"],
+  birth_date: ["nascimento", "data de nascimento", "aniversario", "birth_date", "birthday"],
+  tags: ["tags", "etiquetas", "categoria", "grupo"],
+  visits: ["visitas", "total de visitas", "atendimentos", "visits"],
+  last_visit: ["ultima visita", "ultimo atendimento", "last_visit"],
+  notes: ["observacoes", "observacao", "obs", "notas", "notes"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(HEADER_GUESSES) as ImportField[]).forEach((field) => {
+    const index = normalized.findIndex((header) => HEADER_GUESSES[field].includes(header));
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+// Minimal RFC 4180 parser; the delimiter (; or ,) is detected from the header line
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const raw = (isExcel ? await readXlsxFile(file) : parseCsv(await file.text())) as ImportCell[][];
+
+  const nonEmpty = raw
+    .map((cells, index) => ({ line: index + 1, cells }))
+    .filter((row) => row.cells.some((cell) => cell !== null && String(cell).trim() !== ""));
+  if (nonEmpty.length < 2) {
+    throw new Error("O arquivo precisa de uma linha de cabeçalho e pelo menos um cliente");
+  }
+
+  const [headerRow, ...rows] = nonEmpty;
+  return {
+    headers: headerRow.cells.map((cell, index) => String(cell ?? "").trim() || `Coluna ${index + 1}`),
+    rows,
+  };
+}
+
+const cellText = (cell: ImportCell | undefined) =>
+  cell === null || cell === undefined ? "" : cell instanceof Date ? format(cell, "dd/MM/yyyy") : String(cell).trim();
+
+// Accepts dd/mm/aaaa, dd-mm-aaaa, aaaa-mm-dd and Excel dates; returns yyyy-MM-dd
+function parseImportDate(cell: ImportCell | undefined): string | null | "invalid" {
+  if (cell instanceof Date) return isValid(cell) ? format(cell, "yyyy-MM-dd") : "invalid";
+
+  const text = cellText(cell);
+  if (!text) return null;
+
+  for (const pattern of ["dd/MM/yyyy", "dd-MM-yyyy", "yyyy-MM-dd", "dd/MM/yy"]) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900 && date <= new Date()) {
+      return format(date, "yyyy-MM-dd");
+    }
+  }
+  return "invalid";
+}
+
+export function parseImportRows(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existingClients: ExistingClientRef[],
+  unitPhone: string | null
+): ParsedImportRow[] {
+  const existingByPhone = new Map(existingClients.map((c) => [normalizePhoneToStandard(c.phone), c]));
+  const seenInFile = new Set<string>();
+  const get = (row: ImportCell[], field: ImportField) =>
+    mapping[field] === undefined ? undefined : row[mapping[field]!];
+
+  return sheet.rows.map(({ line, cells: row }) => {
+    const errors: string[] = [];
+
+    const name = cellText(get(row, "name"));
+    if (!name) errors.push("Nome vazio");
+    if (name.length > 200) errors.push("Nome muito longo");
+
+    const sanitized = sanitizeBrazilianPhone(cellText(get(row, "phone")), unitPhone);
+    if (!isValidBrazilianPhone(sanitized)) errors.push("Telefone inválido");
+    const phone = sanitized || "";
+    const phoneKey = normalizePhoneToStandard(phone);
+
+    const birthDate = parseImportDate(get(row, "birth_date"));
+    if (birthDate === "invalid") errors.push("Data de nascimento inválida");
+
+    const lastVisit = parseImportDate(get(row, "last_visit"));
+    if (lastVisit === "invalid") errors.push("Data da última visita inválida");
+
+    const visitsText = cellText(get(row, "visits"));
+    const visits = visitsText ? Number(visitsText.replace(",", ".")) : 0;
+    if (!Number.isInteger(visits) || visits < 0) errors.push("Visitas deve ser um número inteiro");
+
+    const tags = cellText(get(row, "tags"))
+      .split(/[,;|]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean)
+      .slice(0, 10);
+
+    let duplicateOf: ParsedImportRow["duplicateOf"] = null;
+    if (errors.length === 0) {
+      const existing = existingByPhone.get(phoneKey);
+      if (existing) {
+        duplicateOf = { id: existing.id, name: existing.name };
+      } else if (seenInFile.has(phoneKey)) {
+        duplicateOf = "file";
+      }
+      seenInFile.add(phoneKey);
+    }
+
+    return {
+      line,
+      name,
+      phone,
+      phoneKey,
+      birth_date: birthDate === "invalid" ? null : birthDate,
+      tags,
+      visits: Number.isInteger(visits) && visits > 0 ? visits : 0,
+      last_visit_at: lastVisit === "invalid" || !lastVisit ? null : new Date(`${lastVisit}T12:00:00`).toISOString(),
+      notes: cellText(get(row, "notes")).slice(0, 1000) || null,
+      errors,
+      duplicateOf,
+    };
+  });
+}
@@ -0,0 +1,60 @@
+// Browser counterpart of the phone rules used by the database (sanitize_brazilian_phone)
+// and the edge functions (_shared/phone.ts), so imports dedupe the same way the bot does.
+
+// Same result the clients/appointments trigger stores: DDI 55 added, 8-9 digit numbers
+// completed with the unit's DDD when it is known
+export function sanitizeBrazilianPhone(raw: string, unitPhone?: string | null): string | null {
+  const digits = (raw || "").replace(/\D/g, "");
+  if (!digits) return null;
+
+  if (digits.length >= 12) return digits.startsWith("55") ? digits : `55${digits}`;
+  if (digits.length >= 10) return `55${digits}`;
+
+  if (digits.length >= 8 && unitPhone) {
+    const unitDigits = unitPhone.replace(/\D/g, "");
+    const ddd = unitDigits.startsWith("55") && unitDigits.length >= 4 ? unitDigits.slice(2, 4) : unitDigits.slice(0, 2);
+    if (ddd.length === 2) return `55${ddd}${digits}`;
+  }
+
+  return digits;
+}
+
+// Standard 13-digit form (55 + DDD + 9 digits); the 9th digit is added to 12-digit numbers,
+// so the same line with and without it maps to one key
+export function normalizePhoneToStandard(phone: string): string {
+  const digits = (phone || "").replace(/\D/g, "");
+  if (!digits) return digits;
+
+  const withCountry = !digits.startsWith("55") && digits.length <= 11 ? `55${digits}` : digits;
+
+  if (withCountry.length === 12 && withCountry.startsWith("55")) {
+    return `${withCountry.slice(0, 4)}9${withCountry.slice(4)}`;
+  }
+
+  return withCountry;
+}
+
+// A valid Brazilian mobile/landline once sanitized: 55 + DDD + 8 or 9 digits
+export const isValidBrazilianPhone = (sanitized: string | null): boolean =>
+  !!sanitized && /^55\d{10,11}$/.test(sanitized);
+
+// Same line written with and without the 9th digit (mirror of _shared/phone.ts getPhoneVariations)
+export function getPhoneVariations(phone: string): string[] {
+  const digits = (phone || "").replace(/\D/g, "");
+  if (!digits) return [];
+
+  const withCountry = !digits.startsWith("55") && digits.length <= 11 ? `55${digits}` : digits;
+  const variations = new Set<string>();
+
+  if (withCountry.length === 12 && withCountry.startsWith("55")) {
+    variations.add(`${withCountry.slice(0, 4)}9${withCountry.slice(4)}`);
+  }
+
+  if (withCountry.length === 13 && withCountry.startsWith("55") && withCountry.charAt(4) === "9") {
+    variations.add(`${withCountry.slice(0, 4)}${withCountry.slice(5)}`);
+  }
+
+  variations.delete(withCountry);
+  variations.delete(digits);
+  return Array.from(variations);
+}
@@ -8,20 +8,22 @@ import { CalendarMonthView } from "@/components/agenda/CalendarMonthView";
 import { CancellationHistoryTab } from "@/components/agenda/CancellationHistoryTab";
 import { AppointmentHistoryTab } from "@/components/agenda/AppointmentHistoryTab";
 import { DeletionHistoryTab } from "@/components/agenda/DeletionHistoryTab";
+import { WaitlistTab } from "@/components/agenda/WaitlistTab";
 import { AppointmentFormModal } from "@/components/agenda/AppointmentFormModal";
 import { AppointmentDetailsModal } from "@/components/agenda/AppointmentDetailsModal";
 import { QuickServiceModal } from "@/components/agenda/QuickServiceModal";
-import { useAppointments, type Appointment, type AppointmentFormData, type QuickServiceFormData } from "@/hooks/useAppointments";
+import { useAppointments, type Appointment, type AppointmentFormData, type QuickServiceFormData, type RecurrenceScope } from "@/hooks/useAppointments";
 import { useBarbers } from "@/hooks/useBarbers";
 import { useServices } from "@/hooks/useServices";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { useAppointmentNotification } from "@/hooks/useAppointmentNotification";
 import { useBusinessSettings } from "@/hooks/useBusinessSettings";
 import { useBusinessHours } from "@/hooks/useBusinessHours";
+import { useBarberSchedules } from "@/hooks/useBarberSchedules";
 import { useUnits } from "@/hooks/useUnits";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, History, CheckCircle2, XCircle, Trash2 } from "lucide-react";
+import { Calendar, History, CheckCircle2, XCircle, Trash2, ListPlus } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
 
 type AppointmentStatus = Database["public"]["Enums"]["appointment_status"];
@@ -34,7 +36,7 @@ export default function Agenda() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [view, setView] = useState<CalendarViewType>("week");
   const [selectedBarberId, setSelectedBarberId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<"calendar" | "history">("calendar");
+  const [activeTab, setActiveTab] = useState<"calendar" | "waitlist" | "history">("calendar");
   const [isCompactMode, setIsCompactMode] = useState(() => {
     const saved = localStorage.getItem("agenda-compact-mode");
     return saved === "true";
@@ -76,7 +78,8 @@ export default function Agenda() {
   const { barbers, isLoading: barbersLoading } = useBarbers(currentUnitId);
   const { services, isLoading: servicesLoading } = useServices(currentUnitId);
   const { settings: businessSettings } = useBusinessSettings();
-  const { businessHours, holidays, isOpenOnDate, getOpeningHours, isHoliday } = useBusinessHours();
+  const { businessHours, holidays, isOpenOnDate, getOpeningHours, isHoliday } = useBusinessHours(currentUnitId);
+  const { getBarberDayStatus, getTimeBlockInHour } = useBarberSchedules(currentUnitId);
   const { units } = useUnits();
   
   // Get current unit's timezone
@@ -151,6 +154,13 @@ export default function Agenda() {
     }
   };
 
+  const handleCancelSeries = async (seriesScope: RecurrenceScope) => {
+    if (selectedAppointment) {
+      await updateStatus.mutateAsync({ id: selectedAppointment.id, status: "cancelled", seriesScope });
+      setIsDetailsModalOpen(false);
+    }
+  };
+
   const handleNoShow = async () => {
     if (selectedAppointment) {
       await updateStatus.mutateAsync({ id: selectedAppointment.id, status: "cancelled", isNoShow: true });
@@ -185,13 +195,17 @@ export default function Agenda() {
     <DashboardLayout>
       {/* Special wrapper for Agenda - fixed height with internal scroll */}
       <div className="h-[calc(100vh-7rem)] flex flex-col overflow-hidden">
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "calendar" | "history")} className="flex flex-col h-full min-h-0 overflow-hidden">
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "calendar" | "waitlist" | "history")} className="flex flex-col h-full min-h-0 overflow-hidden">
           <div className="border-b border-border bg-card/50 px-4 pt-2 shrink-0">
-            <TabsList className="grid w-[300px] grid-cols-2">
+            <TabsList className="grid w-[450px] grid-cols-3">
               <TabsTrigger value="calendar" className="gap-2">
                 <Calendar className="h-4 w-4" />
                 Calendário
               </TabsTrigger>
+              <TabsTrigger value="waitlist" className="gap-2">
+                <ListPlus className="h-4 w-4" />
+                Lista de Espera
+              </TabsTrigger>
               <TabsTrigger value="history" className="gap-2">
                 <History className="h-4 w-4" />
                 Histórico
@@ -242,6 +256,8 @@ export default function Agenda() {
                     isOpenOnDate={isOpenOnDate}
                     getOpeningHours={getOpeningHours}
                     isHoliday={isHoliday}
+                    getBarberDayStatus={getBarberDayStatus}
+                    getTimeBlockInHour={getTimeBlockInHour}
                   />
                 )}
                 {view === "day" && (
@@ -261,6 +277,8 @@ export default function Agenda() {
                     isOpenOnDate={isOpenOnDate}
                     getOpeningHours={getOpeningHours}
                     isHoliday={isHoliday}
+                    getBarberDayStatus={getBarberDayStatus}
+                    getTimeBlockInHour={getTimeBlockInHour}
                   />
                 )}
                 {view === "month" && (
@@ -279,6 +297,12 @@ export default function Agenda() {
             )}
           </TabsContent>
           
+          <TabsContent value="waitlist" className="flex-1 mt-0 overflow-auto">
+            <div className="p-6">
+              <WaitlistTab barbers={barbers} services={services} />
+            </div>
+          </TabsContent>
+          
           <TabsContent value="history" className="flex-1 mt-0 overflow-auto">
             <div className="p-6">
               <Tabs defaultValue="appointments" className="space-y-4">
@@ -335,6 +359,7 @@ export default function Agenda() {
           onDelete={handleDelete}
           onStatusChange={handleStatusChange}
           onNoShow={handleNoShow}
+          onCancelSeries={handleCancelSeries}
           isLoading={updateStatus.isPending || deleteAppointment.isPending}
         />
 
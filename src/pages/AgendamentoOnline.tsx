@@ -0,0 +1,366 @@
+import { useState, useMemo } from "react";
+import { useParams } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { addDays, format, startOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, Scissors, AlertCircle, CheckCircle2, MapPin, Clock, User, ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  usePublicBooking,
+  usePublicBookingSlots,
+  PublicBookingConfirmation,
+} from "@/hooks/usePublicBooking";
+
+const ANY_BARBER = "any";
+
+type Step = "service" | "barber" | "datetime" | "confirm" | "done";
+
+const formatPhone = (value: string) => {
+  const digits = value.replace(/\D/g, "").slice(0, 11);
+  if (digits.length <= 2) return digits.length ? `(${digits}` : "";
+  if (digits.length <= 7) return `(${digits.slice(0, 2)}) ${digits.slice(2)}`;
+  return `(${digits.slice(0, 2)}) ${digits.slice(2, 7)}-${digits.slice(7)}`;
+};
+
+const formatPrice = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+export default function AgendamentoOnline() {
+  const { unitSlug } = useParams<{ unitSlug: string }>();
+  const { unit, services, barbers, maxDaysAhead, isLoading, error, book } = usePublicBooking(unitSlug);
+
+  const [step, setStep] = useState<Step>("service");
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [barberChoice, setBarberChoice] = useState<string>(ANY_BARBER);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [clientName, setClientName] = useState("");
+  const [clientPhone, setClientPhone] = useState("");
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<PublicBookingConfirmation | null>(null);
+
+  const barberId = barberChoice === ANY_BARBER ? null : barberChoice;
+  const dateStr = selectedDate ? format(selectedDate, "yyyy-MM-dd") : null;
+  const selectedService = services.find((s) => s.id === serviceId) || null;
+
+  const { data: availability, isFetching: isFetchingSlots } = usePublicBookingSlots(
+    unitSlug,
+    step === "datetime" ? dateStr : null,
+    serviceId,
+    barberId
+  );
+
+  // With "any barber" several barbers share a time; the client only needs to see each time once
+  const times = useMemo(() => {
+    const unique = new Set((availability?.slots || []).map((slot) => slot.time));
+    return Array.from(unique).sort();
+  }, [availability]);
+
+  const today = startOfDay(new Date());
+  const lastBookableDay = addDays(today, maxDaysAhead);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serviceId || !dateStr || !selectedTime) return;
+
+    setBookingError(null);
+    try {
+      const result = await book.mutateAsync({
+        service_id: serviceId,
+        barber_id: barberId,
+        date: dateStr,
+        time: selectedTime,
+        client_name: clientName.trim(),
+        client_phone: clientPhone,
+      });
+      setConfirmation(result);
+      setStep("done");
+    } catch (err) {
+      setBookingError(err instanceof Error ? err.message : "Erro ao processar agendamento");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Carregando agenda...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !unit) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <CardTitle>Agendamento indisponível</CardTitle>
+            <CardDescription>
+              {error instanceof Error ? error.message : "Página de agendamento não encontrada"}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex justify-center p-4">
+      <Helmet>
+        <title>Agendar horário - {unit.name}</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <Card className="w-full max-w-lg h-fit">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-primary/10 overflow-hidden">
+            {unit.picture_url ? (
+              <img src={unit.picture_url} alt={unit.name} className="h-full w-full object-cover" />
+            ) : (
+              <Scissors className="h-8 w-8 text-primary" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">{unit.name}</CardTitle>
+          {unit.address && (
+            <CardDescription className="flex items-center justify-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {unit.address}
+            </CardDescription>
+          )}
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {step !== "service" && step !== "done" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1 -ml-2"
+              onClick={() => {
+                setBookingError(null);
+                if (step === "barber") setStep("service");
+                if (step === "datetime") setStep("barber");
+                if (step === "confirm") setStep("datetime");
+              }}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Voltar
+            </Button>
+          )}
+
+          {step === "service" && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Escolha o serviço</h3>
+              {services.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum serviço disponível no momento.</p>
+              ) : (
+                services.map((service) => (
+                  <button
+                    key={service.id}
+                    type="button"
+                    onClick={() => {
+                      setServiceId(service.id);
+                      setSelectedTime(null);
+                      setStep("barber");
+                    }}
+                    className="w-full flex items-center justify-between rounded-lg border p-3 text-left hover:border-primary transition-colors"
+                  >
+                    <div>
+                      <p className="font-medium">{service.name}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {service.duration_minutes} min
+                      </p>
+                    </div>
+                    <span className="font-semibold text-primary">{formatPrice(service.price)}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+
+          {step === "barber" && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Escolha o profissional</h3>
+              {[{ id: ANY_BARBER, name: "Qualquer profissional", photo_url: null }, ...barbers].map((barber) => (
+                <button
+                  key={barber.id}
+                  type="button"
+                  onClick={() => {
+                    setBarberChoice(barber.id);
+                    setSelectedTime(null);
+                    setStep("datetime");
+                  }}
+                  className="w-full flex items-center gap-3 rounded-lg border p-3 text-left hover:border-primary transition-colors"
+                >
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-muted overflow-hidden">
+                    {barber.photo_url ? (
+                      <img src={barber.photo_url} alt={barber.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <User className="h-5 w-5 text-muted-foreground" />
+                    )}
+                  </div>
+                  <span className="font-medium">{barber.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === "datetime" && (
+            <div className="space-y-4">
+              <h3 className="font-medium">Escolha data e horário</h3>
+              <div className="flex justify-center">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(date) => {
+                    setSelectedDate(date);
+                    setSelectedTime(null);
+                  }}
+                  locale={ptBR}
+                  disabled={(date) => date < today || date > lastBookableDay}
+                  className="rounded-md border"
+                />
+              </div>
+
+              {selectedDate && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    {format(selectedDate, "EEEE, dd 'de' MMMM", { locale: ptBR })}
+                  </p>
+                  {isFetchingSlots ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </div>
+                  ) : times.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      {availability?.message || "Nenhum horário disponível nesta data."}
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-4 gap-2">
+                      {times.map((time) => (
+                        <Button
+                          key={time}
+                          type="button"
+                          variant={selectedTime === time ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSelectedTime(time)}
+                        >
+                          {time}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <Button className="w-full" disabled={!selectedTime} onClick={() => setStep("confirm")}>
+                Continuar
+              </Button>
+            </div>
+          )}
+
+          {step === "confirm" && selectedService && selectedDate && selectedTime && (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+                <p><strong>Serviço:</strong> {selectedService.name} ({formatPrice(selectedService.price)})</p>
+                <p>
+                  <strong>Profissional:</strong>{" "}
+                  {barbers.find((b) => b.id === barberId)?.name || "Qualquer profissional"}
+                </p>
+                <p>
+                  <strong>Data:</strong> {format(selectedDate, "dd/MM/yyyy")} às {selectedTime}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="client-name">Seu nome</Label>
+                <Input
+                  id="client-name"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  placeholder="Nome completo"
+                  maxLength={200}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="client-phone">WhatsApp</Label>
+                <Input
+                  id="client-phone"
+                  value={clientPhone}
+                  onChange={(e) => setClientPhone(formatPhone(e.target.value))}
+                  placeholder="(00) 00000-0000"
+                  inputMode="tel"
+                  required
+                />
+              </div>
+
+              {bookingError && (
+                <p className="text-sm text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4" />
+                  {bookingError}
+                </p>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={book.isPending || !clientName.trim() || clientPhone.replace(/\D/g, "").length < 10}
+              >
+                {book.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Agendando...
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Confirmar Agendamento
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
+
+          {step === "done" && confirmation && (
+            <div className="text-center space-y-4">
+              <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+              <div>
+                <h3 className="text-lg font-semibold">Agendamento realizado!</h3>
+                <p className="text-sm text-muted-foreground">Te esperamos no horário marcado.</p>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-1 text-left">
+                <p><strong>Serviço:</strong> {confirmation.service}</p>
+                <p><strong>Profissional:</strong> {confirmation.barber}</p>
+                <p>
+                  <strong>Data:</strong>{" "}
+                  {format(new Date(`${confirmation.date}T00:00:00`), "dd/MM/yyyy")} às {confirmation.time}
+                </p>
+                <p><strong>Valor:</strong> {formatPrice(confirmation.total_price)}</p>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  setConfirmation(null);
+                  setSelectedTime(null);
+                  setStep("service");
+                }}
+              >
+                Fazer outro agendamento
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
+import { endOfMonth, isToday, startOfMonth } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { useBarberAuth } from "@/hooks/useBarberAuth";
 import { TermAcceptanceModal } from "@/components/barbers/TermAcceptanceModal";
+import { BarberStatementsCard } from "@/components/barbers/BarberStatementsCard";
+import { BarberAgendaCard } from "@/components/barbers/BarberAgendaCard";
+import { BarberEarningsCard } from "@/components/barbers/BarberEarningsCard";
+import { BarberAvailabilityCard } from "@/components/barbers/BarberAvailabilityCard";
+import { useBarberAppointments } from "@/hooks/useBarberAppointments";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -21,6 +27,13 @@ export default function BarberDashboard() {
     signOut,
   } = useBarberAuth();
 
+  const monthRange = useMemo(() => ({ start: startOfMonth(new Date()), end: endOfMonth(new Date()) }), []);
+  const { appointments: monthAppointments } = useBarberAppointments(barberProfile?.id, monthRange.start, monthRange.end);
+  const todayCount = monthAppointments.filter(
+    (apt) => apt.status !== "cancelled" && isToday(new Date(apt.start_time))
+  ).length;
+  const monthCompletedCount = monthAppointments.filter((apt) => apt.status === "completed").length;
+
   // Redirect if not authenticated or not a barber
   useEffect(() => {
     if (!isLoading && (!user || !isBarber)) {
@@ -163,8 +176,7 @@ export default function BarberDashboard() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-3xl font-bold text-foreground">-</p>
-              <p className="text-xs text-muted-foreground">Em breve</p>
+              <p className="text-3xl font-bold text-foreground">{todayCount}</p>
             </CardContent>
           </Card>
 
@@ -176,22 +188,27 @@ export default function BarberDashboard() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-3xl font-bold text-foreground">-</p>
-              <p className="text-xs text-muted-foreground">Em breve</p>
+              <p className="text-3xl font-bold text-foreground">{monthCompletedCount}</p>
+              <p className="text-xs text-muted-foreground">atendimentos finalizados</p>
             </CardContent>
           </Card>
         </div>
 
-        {/* Info Card */}
-        <Card className="bg-primary/5 border-primary/20">
-          <CardContent className="p-6">
-            <h3 className="font-medium text-foreground mb-2">🚧 Em Desenvolvimento</h3>
-            <p className="text-sm text-muted-foreground">
-              Esta área está em desenvolvimento. Em breve você poderá visualizar 
-              seus agendamentos, comissões e muito mais diretamente por aqui.
-            </p>
-          </CardContent>
-        </Card>
+        <div className="mb-8">
+          <BarberEarningsCard barber={barberProfile} />
+        </div>
+
+        <div className="mb-8">
+          <BarberAgendaCard barberId={barberProfile.id} />
+        </div>
+
+        <div className="mb-8">
+          <BarberAvailabilityCard barber={barberProfile} />
+        </div>
+
+        <div className="mb-8">
+          <BarberStatementsCard barberId={barberProfile.id} />
+        </div>
       </main>
     </div>
   );
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { Search, Users, Cake, Clock, Plus, Building2, Loader2, BellOff, RefreshCw } from "lucide-react";
+import { Search, Users, Cake, Clock, Plus, Building2, Loader2, BellOff, RefreshCw, Upload, Copy } from "lucide-react";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ClientCard } from "@/components/clients/ClientCard";
 import { ClientFormModal } from "@/components/clients/ClientFormModal";
 import { ClientDetailsModal } from "@/components/clients/ClientDetailsModal";
+import { ClientImportModal } from "@/components/clients/ClientImportModal";
+import { ClientDuplicatesModal } from "@/components/clients/ClientDuplicatesModal";
 import { useClients, Client, ClientFilter, CreateClientData } from "@/hooks/useClients";
 import { useUnits } from "@/hooks/useUnits";
 import { useCurrentUnit } from "@/contexts/UnitContext";
@@ -32,6 +34,8 @@ export default function Clientes() {
   const [deletingClient, setDeletingClient] = useState<Client | null>(null);
   const [viewingClient, setViewingClient] = useState<Client | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isFindingDuplicates, setIsFindingDuplicates] = useState(false);
   const [unitFilter, setUnitFilter] = useState<string>("current");
 
   const { units } = useUnits();
@@ -123,6 +127,14 @@ export default function Clientes() {
                 </TooltipContent>
               </Tooltip>
             )}
+            <Button variant="outline" onClick={() => setIsFindingDuplicates(true)} className="gap-2">
+              <Copy className="h-4 w-4" />
+              <span className="hidden sm:inline">Duplicados</span>
+            </Button>
+            <Button variant="outline" onClick={() => setIsImporting(true)} className="gap-2">
+              <Upload className="h-4 w-4" />
+              <span className="hidden sm:inline">Importar</span>
+            </Button>
             <Button onClick={() => setIsCreating(true)} className="gap-2">
               <Plus className="h-4 w-4" />
               Novo Cliente
@@ -258,6 +270,22 @@ export default function Clientes() {
         defaultUnitId={effectiveUnitId || undefined}
       />
 
+      {/* Import Modal */}
+      <ClientImportModal
+        open={isImporting}
+        onOpenChange={setIsImporting}
+        units={units}
+        defaultUnitId={effectiveUnitId || undefined}
+      />
+
+      {/* Duplicates Modal */}
+      <ClientDuplicatesModal
+        open={isFindingDuplicates}
+        onOpenChange={setIsFindingDuplicates}
+        unitIdFilter={effectiveUnitId}
+        showUnit={showUnitBadge}
+      />
+
       {/* Edit Modal */}
       <ClientFormModal
         open={!!editingClient}
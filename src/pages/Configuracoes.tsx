@@ -1,6 +1,6 @@
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building2, Ban, FileText, Bell, Percent, Clock, UserCircle, Store } from "lucide-react";
+import { Building2, Ban, FileText, Bell, Percent, Clock, UserCircle, Store, UserCog } from "lucide-react";
 import { BusinessProfileTab } from "@/components/configuracoes/BusinessProfileTab";
 import { AccountTab } from "@/components/configuracoes/AccountTab";
 import { CancellationPolicyTab } from "@/components/configuracoes/CancellationPolicyTab";
@@ -9,6 +9,7 @@ import { NotificationsTab } from "@/components/configuracoes/NotificationsTab";
 import { FinancialFeesTab } from "@/components/configuracoes/FinancialFeesTab";
 import { BusinessHoursTab } from "@/components/configuracoes/BusinessHoursTab";
 import { UnitsTab } from "@/components/configuracoes/UnitsTab";
+import { StaffTab } from "@/components/configuracoes/StaffTab";
 
 export default function Configuracoes() {
   return (
@@ -20,7 +21,7 @@ export default function Configuracoes() {
         </div>
         
         <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full grid-cols-8 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-9 lg:w-auto lg:inline-grid">
             <TabsTrigger value="profile" className="gap-2">
               <Building2 className="h-4 w-4" />
               <span className="hidden sm:inline">Perfil</span>
@@ -29,6 +30,10 @@ export default function Configuracoes() {
               <Store className="h-4 w-4" />
               <span className="hidden sm:inline">Unidades</span>
             </TabsTrigger>
+            <TabsTrigger value="staff" className="gap-2">
+              <UserCog className="h-4 w-4" />
+              <span className="hidden sm:inline">Equipe</span>
+            </TabsTrigger>
             <TabsTrigger value="hours" className="gap-2">
               <Clock className="h-4 w-4" />
               <span className="hidden sm:inline">Horários</span>
@@ -62,6 +67,9 @@ export default function Configuracoes() {
             <TabsContent value="units">
               <UnitsTab />
             </TabsContent>
+            <TabsContent value="staff">
+              <StaffTab />
+            </TabsContent>
             <TabsContent value="hours">
               <BusinessHoursTab />
             </TabsContent>
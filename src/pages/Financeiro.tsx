@@ -5,7 +5,10 @@ import { CommissionReportTab } from "@/components/financeiro/CommissionReportTab
 import { ExpensesTab } from "@/components/financeiro/ExpensesTab";
 import { InventoryTab } from "@/components/financeiro/InventoryTab";
 import { CourtesyReportTab } from "@/components/financeiro/CourtesyReportTab";
-import { DollarSign, FileText, TrendingDown, Package, Gift } from "lucide-react";
+import { CancellationFeesTab } from "@/components/financeiro/CancellationFeesTab";
+import { CashRegisterTab } from "@/components/financeiro/CashRegisterTab";
+import { CommissionPayoutsTab } from "@/components/financeiro/CommissionPayoutsTab";
+import { DollarSign, FileText, TrendingDown, Package, Gift, AlertTriangle, Wallet, HandCoins } from "lucide-react";
 
 export default function Financeiro() {
   return (
@@ -22,6 +25,10 @@ export default function Financeiro() {
               <DollarSign className="h-4 w-4" />
               Fluxo de Caixa
             </TabsTrigger>
+            <TabsTrigger value="register" className="flex items-center gap-2">
+              <Wallet className="h-4 w-4" />
+              Caixa
+            </TabsTrigger>
             <TabsTrigger value="expenses" className="flex items-center gap-2">
               <TrendingDown className="h-4 w-4" />
               Despesas
@@ -34,16 +41,28 @@ export default function Financeiro() {
               <FileText className="h-4 w-4" />
               Comissões
             </TabsTrigger>
+            <TabsTrigger value="payouts" className="flex items-center gap-2">
+              <HandCoins className="h-4 w-4" />
+              Acertos
+            </TabsTrigger>
             <TabsTrigger value="courtesy" className="flex items-center gap-2">
               <Gift className="h-4 w-4" />
               Cortesias
             </TabsTrigger>
+            <TabsTrigger value="fees" className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Taxas
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="cash-flow" className="mt-6">
             <CashFlowTab />
           </TabsContent>
 
+          <TabsContent value="register" className="mt-6">
+            <CashRegisterTab />
+          </TabsContent>
+
           <TabsContent value="expenses" className="mt-6">
             <ExpensesTab />
           </TabsContent>
@@ -56,9 +75,17 @@ export default function Financeiro() {
             <CommissionReportTab />
           </TabsContent>
 
+          <TabsContent value="payouts" className="mt-6">
+            <CommissionPayoutsTab />
+          </TabsContent>
+
           <TabsContent value="courtesy" className="mt-6">
             <CourtesyReportTab />
           </TabsContent>
+
+          <TabsContent value="fees" className="mt-6">
+            <CancellationFeesTab />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
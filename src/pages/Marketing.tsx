@@ -1,9 +1,12 @@
-import { Megaphone, Zap, History } from "lucide-react";
+import { Megaphone, Zap, History, Filter, TrendingUp, Star } from "lucide-react";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CampaignsTab } from "@/components/marketing/CampaignsTab";
 import { CampaignHistoryTab } from "@/components/marketing/CampaignHistoryTab";
 import { AutomationsTab } from "@/components/marketing/AutomationsTab";
+import { SegmentsTab } from "@/components/marketing/SegmentsTab";
+import { AttributionReport } from "@/components/marketing/AttributionReport";
+import { NpsDashboard } from "@/components/marketing/NpsDashboard";
 
 export default function Marketing() {
   return (
@@ -17,7 +20,7 @@ export default function Marketing() {
         </div>
 
         <Tabs defaultValue="campaigns" className="w-full">
-          <TabsList className="grid w-full max-w-lg grid-cols-3">
+          <TabsList className="grid w-full max-w-4xl grid-cols-6">
             <TabsTrigger value="campaigns" className="flex items-center gap-2">
               <Megaphone className="h-4 w-4" />
               Campanhas
@@ -26,10 +29,22 @@ export default function Marketing() {
               <History className="h-4 w-4" />
               Histórico
             </TabsTrigger>
+            <TabsTrigger value="segments" className="flex items-center gap-2">
+              <Filter className="h-4 w-4" />
+              Segmentos
+            </TabsTrigger>
             <TabsTrigger value="automations" className="flex items-center gap-2">
               <Zap className="h-4 w-4" />
               Automações
             </TabsTrigger>
+            <TabsTrigger value="results" className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              Resultados
+            </TabsTrigger>
+            <TabsTrigger value="satisfaction" className="flex items-center gap-2">
+              <Star className="h-4 w-4" />
+              Satisfação
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="campaigns" className="mt-6">
@@ -40,9 +55,21 @@ export default function Marketing() {
             <CampaignHistoryTab />
           </TabsContent>
 
+          <TabsContent value="segments" className="mt-6">
+            <SegmentsTab />
+          </TabsContent>
+
           <TabsContent value="automations" className="mt-6">
             <AutomationsTab />
           </TabsContent>
+
+          <TabsContent value="results" className="mt-6">
+            <AttributionReport />
+          </TabsContent>
+
+          <TabsContent value="satisfaction" className="mt-6">
+            <NpsDashboard />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
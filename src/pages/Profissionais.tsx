@@ -7,6 +7,7 @@ import { useUnits } from "@/hooks/useUnits";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { BarberCard } from "@/components/barbers/BarberCard";
 import { BarberFormModal } from "@/components/barbers/BarberFormModal";
+import { TimeOffRequestsCard } from "@/components/barbers/TimeOffRequestsCard";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 export default function Profissionais() {
@@ -87,6 +88,8 @@ export default function Profissionais() {
           </Button>
         </div>
 
+        <TimeOffRequestsCard unitId={currentUnitId} />
+
         {/* Unit Filter */}
         {units.length > 1 && (
           <div className="flex items-center gap-3">
@@ -14,6 +14,7 @@ import { ClientDistributionChart } from "@/components/relatorios/ClientDistribut
 import { UnitMetricsTable } from "@/components/relatorios/UnitMetricsTable";
 import { VisitsPerUnitChart } from "@/components/relatorios/VisitsPerUnitChart";
 import { NewClientsChart } from "@/components/relatorios/NewClientsChart";
+import { AttributionReport } from "@/components/marketing/AttributionReport";
 
 interface UnitMetrics {
   unitId: string;
@@ -62,7 +63,7 @@ export default function Relatorios() {
   const { data: clientsData, isLoading: clientsLoading } = useQuery({
     queryKey: ["all-clients-report"],
     queryFn: async () => {
-      const { data: userUnits } = await supabase.from("units").select("id, name");
+      const { data: userUnits } = await supabase.rpc("get_accessible_units").select("id, name");
       if (!userUnits || userUnits.length === 0) return { clients: [], units: [] };
 
       const unitIds = userUnits.map((u) => u.id);
@@ -332,6 +333,9 @@ export default function Relatorios() {
             )}
           </CardContent>
         </Card>
+
+        {/* Marketing ROI */}
+        <AttributionReport dateRange={dateRange} />
       </div>
     </DashboardLayout>
   );
@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import { Button } from "@/components/ui/button";
-import { Plus, Scissors, Loader2, Clock, Check } from "lucide-react";
+import { Plus, Scissors, Loader2, Clock, Check, Ticket } from "lucide-react";
 import { useServices, Service } from "@/hooks/useServices";
 import { useCurrentUnit } from "@/contexts/UnitContext";
 import { ServiceCard } from "@/components/services/ServiceCard";
 import { ServiceFormModal } from "@/components/services/ServiceFormModal";
+import { ServicePlansTab } from "@/components/services/ServicePlansTab";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 
@@ -28,6 +30,7 @@ export default function Servicos() {
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [selectedExamples, setSelectedExamples] = useState<Set<string>>(new Set());
   const [isSavingExamples, setIsSavingExamples] = useState(false);
+  const [activeTab, setActiveTab] = useState<"services" | "plans">("services");
 
   const handleOpenModal = (service?: Service) => {
     setEditingService(service || null);
@@ -113,100 +116,121 @@ export default function Servicos() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold tracking-tight text-foreground">Serviços</h1>
-            <p className="mt-1 text-muted-foreground">Cadastre cortes e defina preços</p>
+            <p className="mt-1 text-muted-foreground">Cadastre cortes, defina preços e venda pacotes</p>
           </div>
-          <Button onClick={() => handleOpenModal()} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Novo Serviço
-          </Button>
+          {activeTab === "services" && (
+            <Button onClick={() => handleOpenModal()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Novo Serviço
+            </Button>
+          )}
         </div>
 
-        {isLoading ? (
-          <div className="flex items-center justify-center min-h-[300px]">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          </div>
-        ) : services.length === 0 ? (
-          <div className="space-y-6">
-            <div className="text-center">
-              <Scissors className="mx-auto h-12 w-12 text-muted-foreground/50" />
-              <h3 className="mt-4 text-lg font-medium text-foreground">Comece com exemplos ou crie do zero</h3>
-              <p className="mt-1 text-sm text-muted-foreground">
-                Selecione os serviços que deseja adicionar
-              </p>
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "services" | "plans")} className="space-y-6">
+          <TabsList className="bg-muted">
+            <TabsTrigger value="services" className="flex items-center gap-2">
+              <Scissors className="h-4 w-4" />
+              Serviços
+            </TabsTrigger>
+            <TabsTrigger value="plans" className="flex items-center gap-2">
+              <Ticket className="h-4 w-4" />
+              Pacotes e Assinaturas
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="plans" className="mt-6">
+            <ServicePlansTab unitId={currentUnitId} services={services} />
+          </TabsContent>
+
+          <TabsContent value="services" className="mt-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
+          ) : services.length === 0 ? (
+            <div className="space-y-6">
+              <div className="text-center">
+                <Scissors className="mx-auto h-12 w-12 text-muted-foreground/50" />
+                <h3 className="mt-4 text-lg font-medium text-foreground">Comece com exemplos ou crie do zero</h3>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Selecione os serviços que deseja adicionar
+                </p>
+              </div>
 
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-              {EXAMPLE_SERVICES.map((example) => {
-                const isSelected = selectedExamples.has(example.name);
-                return (
-                  <Card 
-                    key={example.name}
-                    className={cn(
-                      "border-2 transition-colors cursor-pointer group",
-                      isSelected 
-                        ? "border-primary bg-primary/10" 
-                        : "border-dashed hover:border-primary/50 hover:bg-accent/50"
-                    )}
-                    onClick={() => toggleExampleSelection(example.name)}
-                  >
-                    <CardContent className="p-4 flex flex-col items-center text-center gap-2 relative">
-                      <div className={cn(
-                        "w-10 h-10 rounded-full flex items-center justify-center transition-colors",
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {EXAMPLE_SERVICES.map((example) => {
+                  const isSelected = selectedExamples.has(example.name);
+                  return (
+                    <Card 
+                      key={example.name}
+                      className={cn(
+                        "border-2 transition-colors cursor-pointer group",
                         isSelected 
-                          ? "bg-primary text-primary-foreground" 
-                          : "bg-primary/10 group-hover:bg-primary/20"
-                      )}>
-                        {isSelected ? (
-                          <Check className="h-5 w-5" />
-                        ) : (
-                          <Plus className="h-5 w-5 text-primary" />
-                        )}
-                      </div>
-                      <h4 className="font-medium text-foreground">{example.name}</h4>
-                      <p className="text-lg font-semibold text-primary">{formatPrice(example.price)}</p>
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Clock className="h-3 w-3" />
-                        <span>{example.duration_minutes} min</span>
-                      </div>
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
+                          ? "border-primary bg-primary/10" 
+                          : "border-dashed hover:border-primary/50 hover:bg-accent/50"
+                      )}
+                      onClick={() => toggleExampleSelection(example.name)}
+                    >
+                      <CardContent className="p-4 flex flex-col items-center text-center gap-2 relative">
+                        <div className={cn(
+                          "w-10 h-10 rounded-full flex items-center justify-center transition-colors",
+                          isSelected 
+                            ? "bg-primary text-primary-foreground" 
+                            : "bg-primary/10 group-hover:bg-primary/20"
+                        )}>
+                          {isSelected ? (
+                            <Check className="h-5 w-5" />
+                          ) : (
+                            <Plus className="h-5 w-5 text-primary" />
+                          )}
+                        </div>
+                        <h4 className="font-medium text-foreground">{example.name}</h4>
+                        <p className="text-lg font-semibold text-primary">{formatPrice(example.price)}</p>
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          <span>{example.duration_minutes} min</span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
 
-            <div className="flex flex-col sm:flex-row justify-center gap-3">
-              {selectedExamples.size > 0 && (
-                <Button 
-                  onClick={handleSaveSelectedExamples} 
-                  disabled={isSavingExamples}
-                  className="gap-2"
-                >
-                  {isSavingExamples ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <Check className="h-4 w-4" />
-                  )}
-                  Salvar {selectedExamples.size} serviço{selectedExamples.size > 1 ? 's' : ''}
+              <div className="flex flex-col sm:flex-row justify-center gap-3">
+                {selectedExamples.size > 0 && (
+                  <Button 
+                    onClick={handleSaveSelectedExamples} 
+                    disabled={isSavingExamples}
+                    className="gap-2"
+                  >
+                    {isSavingExamples ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4" />
+                    )}
+                    Salvar {selectedExamples.size} serviço{selectedExamples.size > 1 ? 's' : ''}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => handleOpenModal()} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Criar serviço personalizado
                 </Button>
-              )}
-              <Button variant="outline" onClick={() => handleOpenModal()} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Criar serviço personalizado
-              </Button>
+              </div>
             </div>
-          </div>
-        ) : (
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {services.map((service) => (
-              <ServiceCard
-                key={service.id}
-                service={service}
-                onEdit={handleOpenModal}
-                onDelete={handleDelete}
-              />
-            ))}
-          </div>
-        )}
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {services.map((service) => (
+                <ServiceCard
+                  key={service.id}
+                  service={service}
+                  onEdit={handleOpenModal}
+                  onDelete={handleDelete}
+                />
+              ))}
+            </div>
+          )}
+          </TabsContent>
+        </Tabs>
       </div>
 
       <ServiceFormModal
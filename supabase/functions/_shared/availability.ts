@@ -0,0 +1,567 @@
+// Lógica de disponibilidade compartilhada entre agenda-api (bot do WhatsApp) e public-booking
+// (agendamento online). Qualquer regra nova de horário deve entrar aqui para que os dois
+// canais ofereçam sempre os mesmos horários.
+
+import { getActiveWaitlistHolds } from './waitlist.ts';
+
+const DEFAULT_OPENING_TIME = '08:00';
+const DEFAULT_CLOSING_TIME = '21:00';
+const SLOT_INTERVAL_MINUTES = 30;
+
+// Mapeamento de fusos horários brasileiros para offsets
+export function getTimezoneOffset(timezone: string): string {
+  const offsets: Record<string, string> = {
+    'America/Sao_Paulo': '-03:00',
+    'America/Cuiaba': '-04:00',
+    'America/Manaus': '-04:00',
+    'America/Fortaleza': '-03:00',
+    'America/Recife': '-03:00',
+    'America/Belem': '-03:00',
+    'America/Rio_Branco': '-05:00',
+    'America/Noronha': '-02:00',
+    'America/Porto_Velho': '-04:00',
+    'America/Boa_Vista': '-04:00',
+  };
+  return offsets[timezone] || '-03:00'; // Default: Brasília
+}
+
+// Normaliza input de datetime - SEMPRE trata como horário LOCAL (remove qualquer timezone)
+export function normalizeLocalDateTimeInput(dateTimeStr: string): string {
+  if (!dateTimeStr) return dateTimeStr;
+
+  // Remover timezone info (Z, +00:00, -03:00, etc.) para tratar como local
+  const normalized = dateTimeStr
+    .replace(/Z$/, '')
+    .replace(/[+-]\d{2}:\d{2}$/, '')
+    .replace(/\.\d{3}$/, ''); // Remover milissegundos
+
+  console.log(`normalizeLocalDateTimeInput: "${dateTimeStr}" -> "${normalized}"`);
+  return normalized;
+}
+
+// Converte uma data local (sem timezone) para UTC baseado no timezone da unidade
+export function convertLocalToUTC(dateTimeStr: string, timezone: string): Date {
+  // Primeiro normalizar para remover qualquer timezone
+  const normalizedDateTime = normalizeLocalDateTimeInput(dateTimeStr);
+
+  // Adicionar o offset do timezone da unidade
+  const offset = getTimezoneOffset(timezone);
+  const localDateTime = `${normalizedDateTime}${offset}`;
+
+  console.log(`convertLocalToUTC: "${dateTimeStr}" -> normalized: "${normalizedDateTime}" -> with offset ${offset}: "${localDateTime}"`);
+
+  const result = new Date(localDateTime);
+  console.log(`convertLocalToUTC result: ${result.toISOString()}`);
+
+  return result;
+}
+
+// Calcula início e fim do dia em UTC baseado no timezone local
+export function getDayBoundsInUTC(dateStr: string, timezone: string): { startUTC: string; endUTC: string } {
+  // dateStr pode ser "2026-01-05" ou "2026-01-05T10:00:00Z" etc.
+  const dateOnly = dateStr.split('T')[0]; // Pegar apenas YYYY-MM-DD
+
+  const startLocal = `${dateOnly}T00:00:00`;
+  const endLocal = `${dateOnly}T23:59:59`;
+
+  const startUTC = convertLocalToUTC(startLocal, timezone);
+  const endUTC = convertLocalToUTC(endLocal, timezone);
+
+  console.log(`getDayBoundsInUTC: ${dateOnly} (${timezone}) -> ${startUTC.toISOString()} to ${endUTC.toISOString()}`);
+
+  return {
+    startUTC: startUTC.toISOString(),
+    endUTC: endUTC.toISOString()
+  };
+}
+
+// Data e hora atuais no timezone da unidade
+export function getLocalNow(timezone: string): { date: string; hour: number; minute: number } {
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+  const parts = formatter.formatToParts(new Date());
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour') || '0'),
+    minute: parseInt(get('minute') || '0'),
+  };
+}
+
+// Data/hora local (YYYY-MM-DDTHH:MM:00) de um instante, no formato aceito pelos handlers
+export function toLocalDateTimeInput(date: Date, timezone: string): string {
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:00`;
+}
+
+function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + (minute || 0);
+}
+
+function minutesToTime(totalMinutes: number): string {
+  const hour = Math.floor(totalMinutes / 60);
+  const minute = totalMinutes % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+export interface AvailabilityBarber {
+  id: string;
+  name: string;
+  lunch_break_enabled?: boolean | null;
+  lunch_break_start?: string | null;
+  lunch_break_end?: string | null;
+}
+
+export interface AvailableSlot {
+  time: string;
+  datetime: string;
+  barber_id: string;
+  barber_name: string;
+  status: 'vago';
+}
+
+export interface DayAvailability {
+  closed: boolean;
+  reason: string | null;
+  opening_time: string | null;
+  closing_time: string | null;
+  slots: AvailableSlot[];
+  unavailable_barbers?: { barber_id: string; barber_name: string; reason: string }[];
+}
+
+export const TIME_OFF_REASON_LABELS: Record<string, string> = {
+  vacation: 'Férias',
+  sick: 'Atestado',
+  course: 'Curso',
+  other: 'Ausência',
+};
+
+// Jornada de um barbeiro em uma data específica
+export interface BarberDaySchedule {
+  off: boolean;
+  reason: string | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+// Helper para verificar se um horário está dentro do intervalo do barbeiro
+export function isWithinLunchBreak(barber: AvailabilityBarber, hour: number, minute: number): boolean {
+  if (!barber.lunch_break_enabled || !barber.lunch_break_start || !barber.lunch_break_end) {
+    return false;
+  }
+
+  const slotMinutes = hour * 60 + minute;
+  const lunchStartMinutes = timeToMinutes(barber.lunch_break_start);
+  const lunchEndMinutes = timeToMinutes(barber.lunch_break_end);
+
+  return slotMinutes >= lunchStartMinutes && slotMinutes < lunchEndMinutes;
+}
+
+// Versão por intervalo: o atendimento inteiro não pode invadir o intervalo do barbeiro
+export function overlapsLunchBreak(barber: AvailabilityBarber, startMinutes: number, endMinutes: number): boolean {
+  if (!barber.lunch_break_enabled || !barber.lunch_break_start || !barber.lunch_break_end) {
+    return false;
+  }
+
+  return startMinutes < timeToMinutes(barber.lunch_break_end) && endMinutes > timeToMinutes(barber.lunch_break_start);
+}
+
+// Jornada dos barbeiros na data: ausência cadastrada > escala semanal.
+// Barbeiros sem escala nem ausência ficam fora do mapa e seguem o expediente da unidade.
+export async function getBarberDaySchedules(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  barberIds: string[],
+  dateOnly: string
+): Promise<Record<string, BarberDaySchedule>> {
+  const result: Record<string, BarberDaySchedule> = {};
+  if (barberIds.length === 0) return result;
+
+  const dayOfWeek = new Date(`${dateOnly}T12:00:00Z`).getUTCDay();
+
+  const [{ data: timeOff, error: timeOffError }, { data: schedules, error: schedulesError }] = await Promise.all([
+    supabase
+      .from('barber_time_off')
+      .select('barber_id, reason')
+      .in('barber_id', barberIds)
+      .eq('status', 'approved')
+      .lte('start_date', dateOnly)
+      .gte('end_date', dateOnly),
+    supabase
+      .from('barber_schedules')
+      .select('barber_id, is_working, start_time, end_time')
+      .in('barber_id', barberIds)
+      .eq('day_of_week', dayOfWeek),
+  ]);
+
+  if (timeOffError) {
+    console.error('Error fetching barber time off:', timeOffError);
+  }
+  if (schedulesError) {
+    console.error('Error fetching barber schedules:', schedulesError);
+  }
+
+  for (const schedule of schedules || []) {
+    result[schedule.barber_id] = schedule.is_working
+      ? { off: false, reason: null, start_time: schedule.start_time?.slice(0, 5) || null, end_time: schedule.end_time?.slice(0, 5) || null }
+      : { off: true, reason: 'Não trabalha neste dia', start_time: null, end_time: null };
+  }
+
+  for (const absence of timeOff || []) {
+    result[absence.barber_id] = {
+      off: true,
+      reason: TIME_OFF_REASON_LABELS[absence.reason] || TIME_OFF_REASON_LABELS.other,
+      start_time: null,
+      end_time: null,
+    };
+  }
+
+  return result;
+}
+
+export interface BarberTimeBlock {
+  barber_id: string;
+  start_time: string;
+  end_time: string;
+  reason: string | null;
+}
+
+// Bloqueios pontuais de horário (dentista, banco...) que cruzam o período informado
+export async function getBarberTimeBlocks(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  barberIds: string[],
+  startUTC: string,
+  endUTC: string
+): Promise<BarberTimeBlock[]> {
+  if (barberIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('barber_time_blocks')
+    .select('barber_id, start_time, end_time, reason')
+    .in('barber_id', barberIds)
+    .lt('start_time', endUTC)
+    .gt('end_time', startUTC);
+
+  if (error) {
+    console.error('Error fetching barber time blocks:', error);
+  }
+
+  return data || [];
+}
+
+// Janela de atendimento do barbeiro no dia, limitada ao expediente da unidade
+function getBarberWindow(
+  schedule: BarberDaySchedule | undefined,
+  openingMinutes: number,
+  closingMinutes: number
+): { start: number; end: number } | null {
+  if (schedule?.off) return null;
+  const start = Math.max(openingMinutes, schedule?.start_time ? timeToMinutes(schedule.start_time) : openingMinutes);
+  const end = Math.min(closingMinutes, schedule?.end_time ? timeToMinutes(schedule.end_time) : closingMinutes);
+  return end > start ? { start, end } : null;
+}
+
+// Resolve o expediente da unidade na data: feriado (empresa ou unidade) > horário da unidade >
+// horário padrão da empresa > horário geral legado
+export async function getUnitOpeningHours(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  unitId: string,
+  dateOnly: string
+): Promise<{ closed: boolean; reason: string | null; opening_time: string | null; closing_time: string | null }> {
+  const { data: unitData, error: unitError } = await supabase
+    .from('units')
+    .select('user_id')
+    .eq('id', unitId)
+    .single();
+
+  if (unitError) {
+    console.error('Error fetching unit:', unitError);
+  }
+
+  const ownerId = unitData?.user_id;
+  if (!ownerId) {
+    return { closed: false, reason: null, opening_time: DEFAULT_OPENING_TIME, closing_time: DEFAULT_CLOSING_TIME };
+  }
+
+  const { data: holidays, error: holidayError } = await supabase
+    .from('holidays')
+    .select('name, unit_id')
+    .eq('user_id', ownerId)
+    .eq('date', dateOnly)
+    .or(`unit_id.is.null,unit_id.eq.${unitId}`);
+
+  if (holidayError) {
+    console.error('Error fetching holidays:', holidayError);
+  }
+
+  const holiday = holidays?.find((h: { unit_id: string | null }) => h.unit_id === unitId) || holidays?.[0];
+
+  if (holiday) {
+    console.log(`Date ${dateOnly} is a holiday: ${holiday.name}`);
+    return { closed: true, reason: `Fechado - ${holiday.name}`, opening_time: null, closing_time: null };
+  }
+
+  // Dia da semana calculado em UTC para não depender do fuso do servidor
+  const dayOfWeek = new Date(`${dateOnly}T12:00:00Z`).getUTCDay();
+
+  const { data: weekHours, error: hoursError } = await supabase
+    .from('business_hours')
+    .select('unit_id, is_open, opening_time, closing_time')
+    .eq('user_id', ownerId)
+    .eq('day_of_week', dayOfWeek)
+    .or(`unit_id.is.null,unit_id.eq.${unitId}`);
+
+  if (hoursError) {
+    console.error('Error fetching business hours:', hoursError);
+  }
+
+  // O horário próprio da unidade substitui o padrão da empresa
+  const dayHours = weekHours?.find((h: { unit_id: string | null }) => h.unit_id === unitId)
+    || weekHours?.find((h: { unit_id: string | null }) => !h.unit_id);
+
+  if (dayHours) {
+    if (!dayHours.is_open) {
+      return { closed: true, reason: 'Fechado neste dia da semana', opening_time: null, closing_time: null };
+    }
+    if (dayHours.opening_time && dayHours.closing_time) {
+      return { closed: false, reason: null, opening_time: dayHours.opening_time.slice(0, 5), closing_time: dayHours.closing_time.slice(0, 5) };
+    }
+  }
+
+  // Fallback: horário geral em business_settings
+  const { data: settings, error: settingsError } = await supabase
+    .from('business_settings')
+    .select('opening_time, closing_time')
+    .eq('user_id', ownerId)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Error fetching business settings:', settingsError);
+  }
+
+  return {
+    closed: false,
+    reason: null,
+    opening_time: settings?.opening_time?.slice(0, 5) || DEFAULT_OPENING_TIME,
+    closing_time: settings?.closing_time?.slice(0, 5) || DEFAULT_CLOSING_TIME,
+  };
+}
+
+// Gera os horários vagos de um dia para os barbeiros informados.
+// durationMinutes = 0 mantém o comportamento do bot (slot livre se o início não cair em um agendamento);
+// com duração, o serviço inteiro precisa caber antes do próximo agendamento e do fechamento.
+export async function getAvailableSlots(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  params: {
+    unitId: string;
+    date: string;
+    timezone: string;
+    barbers: AvailabilityBarber[];
+    durationMinutes?: number;
+  }
+): Promise<DayAvailability> {
+  const { unitId, date, timezone, barbers } = params;
+  const durationMinutes = params.durationMinutes || 0;
+  const dateOnly = date.split('T')[0];
+
+  const hours = await getUnitOpeningHours(supabase, unitId, dateOnly);
+  if (hours.closed || !hours.opening_time || !hours.closing_time) {
+    return { ...hours, slots: [] };
+  }
+
+  console.log(`Using configured hours: ${hours.opening_time} - ${hours.closing_time}`);
+
+  const now = getLocalNow(timezone);
+  const isToday = dateOnly === now.date;
+  const nowMinutes = now.hour * 60 + now.minute;
+
+  console.log(`Today in timezone ${timezone}: ${now.date}, current time: ${now.hour}:${now.minute}, requested date: ${dateOnly}, isToday: ${isToday}`);
+
+  // Buscar agendamentos do dia (exceto cancelados) - usar timezone correto
+  const { startUTC, endUTC } = getDayBoundsInUTC(dateOnly, timezone);
+
+  const { data: appointments, error: appointmentsError } = await supabase
+    .from('appointments')
+    .select('id, barber_id, start_time, end_time, status')
+    .eq('unit_id', unitId)
+    .gte('start_time', startUTC)
+    .lte('start_time', endUTC)
+    .neq('status', 'cancelled');
+
+  if (appointmentsError) {
+    console.error('Error fetching appointments:', appointmentsError);
+  }
+
+  console.log(`Found ${appointments?.length || 0} existing appointments`);
+
+  // Horários reservados para a lista de espera e bloqueios do profissional contam como ocupados
+  const [holds, timeBlocks] = await Promise.all([
+    getActiveWaitlistHolds(supabase, { unitId, startUTC, endUTC }),
+    getBarberTimeBlocks(supabase, barbers.map((b) => b.id), startUTC, endUTC),
+  ]);
+  const busyPeriods: { barber_id: string; start_time: string; end_time: string }[] = [
+    ...(appointments || []),
+    ...holds.map((hold) => ({
+      barber_id: hold.barber_id,
+      start_time: hold.start.toISOString(),
+      end_time: hold.end.toISOString(),
+    })),
+    ...timeBlocks,
+  ];
+
+  const openingMinutes = timeToMinutes(hours.opening_time);
+  const closingMinutes = timeToMinutes(hours.closing_time);
+  const slots: AvailableSlot[] = [];
+
+  // Escalas e ausências: barbeiros de folga não oferecem horários
+  const barberSchedules = await getBarberDaySchedules(supabase, barbers.map((b) => b.id), dateOnly);
+  const unavailableBarbers: { barber_id: string; barber_name: string; reason: string }[] = [];
+  const barberWindows = new Map<string, { start: number; end: number }>();
+
+  for (const barber of barbers) {
+    const barberWindow = getBarberWindow(barberSchedules[barber.id], openingMinutes, closingMinutes);
+    if (barberWindow) {
+      barberWindows.set(barber.id, barberWindow);
+    } else {
+      unavailableBarbers.push({
+        barber_id: barber.id,
+        barber_name: barber.name,
+        reason: barberSchedules[barber.id]?.reason || 'Fora da jornada de trabalho',
+      });
+    }
+  }
+
+  for (let slotMinutes = openingMinutes; slotMinutes < closingMinutes; slotMinutes += SLOT_INTERVAL_MINUTES) {
+    // Filtrar horários passados se for hoje
+    if (isToday && slotMinutes <= nowMinutes) continue;
+
+    // O serviço precisa terminar até o fechamento
+    if (durationMinutes > 0 && slotMinutes + durationMinutes > closingMinutes) continue;
+
+    const hour = Math.floor(slotMinutes / 60);
+    const minute = slotMinutes % 60;
+    const timeStr = minutesToTime(slotMinutes);
+    const slotStart = convertLocalToUTC(`${dateOnly}T${timeStr}:00`, timezone);
+    const slotEnd = new Date(slotStart.getTime() + durationMinutes * 60000);
+
+    for (const barber of barbers) {
+      // Verificar se está dentro da jornada do barbeiro
+      const barberWindow = barberWindows.get(barber.id);
+      if (!barberWindow || slotMinutes < barberWindow.start) continue;
+      if (durationMinutes > 0 ? slotMinutes + durationMinutes > barberWindow.end : slotMinutes >= barberWindow.end) continue;
+
+      // Verificar se está no intervalo do barbeiro
+      const isLunchBreak = durationMinutes > 0
+        ? overlapsLunchBreak(barber, slotMinutes, slotMinutes + durationMinutes)
+        : isWithinLunchBreak(barber, hour, minute);
+      if (isLunchBreak) continue;
+
+      // Verificar se o barbeiro está ocupado neste horário
+      const isOccupied = busyPeriods.some((apt) => {
+        if (apt.barber_id !== barber.id) return false;
+        const aptStart = new Date(apt.start_time);
+        const aptEnd = new Date(apt.end_time);
+        if (durationMinutes > 0) {
+          return slotStart < aptEnd && slotEnd > aptStart;
+        }
+        return slotStart >= aptStart && slotStart < aptEnd;
+      });
+
+      if (!isOccupied) {
+        slots.push({
+          time: timeStr,
+          datetime: slotStart.toISOString(),
+          barber_id: barber.id,
+          barber_name: barber.name,
+          status: 'vago'
+        });
+      }
+    }
+  }
+
+  console.log(`Generated ${slots.length} available slots`);
+
+  return { ...hours, slots, unavailable_barbers: unavailableBarbers };
+}
+
+// Verifica um horário específico de um barbeiro (expediente, jornada, ausências, intervalo e bloqueios).
+// Retorna o motivo da indisponibilidade ou null se o horário pode ser agendado.
+export async function getSlotUnavailabilityReason(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  params: {
+    unitId: string;
+    date: string;
+    time: string;
+    barber: AvailabilityBarber;
+    durationMinutes: number;
+    timezone?: string;
+  }
+): Promise<string | null> {
+  const { unitId, barber, durationMinutes } = params;
+  const timezone = params.timezone || 'America/Sao_Paulo';
+  const dateOnly = params.date.split('T')[0];
+
+  const hours = await getUnitOpeningHours(supabase, unitId, dateOnly);
+  if (hours.closed || !hours.opening_time || !hours.closing_time) {
+    return hours.reason || 'Fechado nesta data';
+  }
+
+  const startMinutes = timeToMinutes(params.time);
+  const endMinutes = startMinutes + durationMinutes;
+  const openingMinutes = timeToMinutes(hours.opening_time);
+  const closingMinutes = timeToMinutes(hours.closing_time);
+
+  if (startMinutes < openingMinutes || endMinutes > closingMinutes) {
+    return `Fora do horário de funcionamento (${hours.opening_time} - ${hours.closing_time})`;
+  }
+
+  const schedules = await getBarberDaySchedules(supabase, [barber.id], dateOnly);
+  const schedule = schedules[barber.id];
+  if (schedule?.off) {
+    return `${barber.name} não atende nesta data (${schedule.reason})`;
+  }
+
+  const barberWindow = getBarberWindow(schedule, openingMinutes, closingMinutes);
+  if (!barberWindow || startMinutes < barberWindow.start || endMinutes > barberWindow.end) {
+    return barberWindow
+      ? `${barber.name} atende das ${minutesToTime(barberWindow.start)} às ${minutesToTime(barberWindow.end)} nesta data`
+      : `${barber.name} não atende nesta data`;
+  }
+
+  if (overlapsLunchBreak(barber, startMinutes, endMinutes)) {
+    return `${barber.name} está em intervalo neste horário`;
+  }
+
+  const slotStart = convertLocalToUTC(`${dateOnly}T${params.time}:00`, timezone);
+  const slotEnd = new Date(slotStart.getTime() + durationMinutes * 60000);
+  const [block] = await getBarberTimeBlocks(supabase, [barber.id], slotStart.toISOString(), slotEnd.toISOString());
+  if (block) {
+    return `${barber.name} bloqueou este horário${block.reason ? ` (${block.reason})` : ''}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,219 @@
+// Envio de campanhas de marketing em lotes, compartilhado entre send-marketing-campaign (primeiro
+// lote), dispatch-campaigns (cron que agenda, respeita limite por hora e horário de silêncio) e
+// pause-campaign (retomada). Cada lote é entregue ao n8n no mesmo formato de sempre; as mensagens
+// ainda não entregues ficam em campaign_message_logs com dispatched_at nulo.
+
+import { getLocalNow } from './availability.ts';
+import { getCompanyEntitlements, hasFeature } from './entitlements.ts';
+
+// PostgREST devolve no máximo 1000 linhas por chamada; lotes maiores seguem na próxima execução
+const MAX_BATCH_SIZE = 1000;
+
+export interface DispatchResult {
+  dispatched: number;
+  reason?: 'not_sending' | 'not_entitled' | 'quiet_hours' | 'hourly_limit' | 'completed' | 'webhook_error' | 'error';
+}
+
+interface CampaignToDispatch {
+  id: string;
+  company_id: string;
+  status: string;
+  message_template: string;
+  media_url: string | null;
+  media_type: string | null;
+  hourly_limit: number | null;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  unit_id: string | null;
+}
+
+// Horário de silêncio pode atravessar a meia-noite (ex.: 21h às 8h)
+export function isWithinQuietHours(hour: number, start: number | null, end: number | null): boolean {
+  if (start === null || end === null || start === end) return false;
+  if (start < end) return hour >= start && hour < end;
+  return hour >= start || hour < end;
+}
+
+export async function dispatchCampaignBatch(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  campaignId: string
+): Promise<DispatchResult> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const n8nMarketingUrl = Deno.env.get('N8N_MARKETING_URL');
+  const callbackSecret = Deno.env.get('N8N_CALLBACK_SECRET');
+
+  if (!n8nMarketingUrl) {
+    console.error('N8N_MARKETING_URL not configured');
+    return { dispatched: 0, reason: 'error' };
+  }
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('marketing_campaigns')
+    .select('id, company_id, status, message_template, media_url, media_type, hourly_limit, quiet_hours_start, quiet_hours_end, unit_id')
+    .eq('id', campaignId)
+    .single();
+
+  if (campaignError || !campaign) {
+    console.error(`Campaign ${campaignId} not found:`, campaignError?.message);
+    return { dispatched: 0, reason: 'error' };
+  }
+
+  const current = campaign as CampaignToDispatch;
+  if (current.status !== 'sending') {
+    return { dispatched: 0, reason: 'not_sending' };
+  }
+
+  // Campanhas agendadas ou retomadas depois de um downgrade não seguem enviando
+  try {
+    const entitlements = await getCompanyEntitlements(supabase, current.company_id);
+    if (!hasFeature(entitlements, 'marketing_automations')) {
+      console.log(`Company ${current.company_id} plan (${entitlements.planTier}) does not include campaigns`);
+      return { dispatched: 0, reason: 'not_entitled' };
+    }
+  } catch {
+    return { dispatched: 0, reason: 'error' };
+  }
+
+  const { data: unit, error: unitError } = await supabase
+    .from('units')
+    .select('id, evolution_instance_name, evolution_api_key, timezone')
+    .eq('id', current.unit_id)
+    .single();
+
+  if (unitError || !unit?.evolution_instance_name || !unit?.evolution_api_key) {
+    console.error(`Unit of campaign ${campaignId} has no WhatsApp configured`);
+    return { dispatched: 0, reason: 'error' };
+  }
+
+  const { hour } = getLocalNow(unit.timezone || 'America/Sao_Paulo');
+  if (isWithinQuietHours(hour, current.quiet_hours_start, current.quiet_hours_end)) {
+    console.log(`Campaign ${campaignId} is within quiet hours (${hour}h)`);
+    return { dispatched: 0, reason: 'quiet_hours' };
+  }
+
+  let batchSize: number | null = null;
+  if (current.hourly_limit) {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { count: dispatchedLastHour } = await supabase
+      .from('campaign_message_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .gte('dispatched_at', oneHourAgo);
+
+    batchSize = current.hourly_limit - (dispatchedLastHour || 0);
+    if (batchSize <= 0) {
+      return { dispatched: 0, reason: 'hourly_limit' };
+    }
+  }
+
+  // Reserva as mensagens (dispatched_at) na mesma operação que as seleciona, então execuções
+  // simultâneas (cron, retomada, primeiro lote) nunca entregam a mesma mensagem duas vezes
+  const { data: logs, error: logsError } = await supabase.rpc('claim_campaign_messages', {
+    p_campaign_id: campaignId,
+    p_limit: batchSize !== null ? Math.min(batchSize, MAX_BATCH_SIZE) : MAX_BATCH_SIZE,
+  });
+
+  if (logsError) {
+    console.error(`Error claiming pending logs of campaign ${campaignId}:`, logsError.message);
+    return { dispatched: 0, reason: 'error' };
+  }
+
+  if (!logs || logs.length === 0) {
+    await completeCampaignIfDone(supabase, campaignId);
+    return { dispatched: 0, reason: 'completed' };
+  }
+
+  // A/B tests send each recipient the template of the variant it was assigned to
+  const { data: variants } = await supabase
+    .from('campaign_variants')
+    .select('id, message_template')
+    .eq('campaign_id', campaignId);
+
+  const templateByVariant = new Map<string, string>(
+    (variants || []).map((v: { id: string; message_template: string }) => [v.id, v.message_template])
+  );
+
+  const logIds = logs.map((l: { id: string }) => l.id);
+
+  const contacts = logs.map((l: { id: string; recipient_phone: string; recipient_name: string | null; variant_id: string | null }) => {
+    // Remove non-digits, remove leading 55 if present, then add 55 prefix
+    const cleanNumber = l.recipient_phone.replace(/\D/g, '').replace(/^55/, '');
+    const template = (l.variant_id && templateByVariant.get(l.variant_id)) || current.message_template;
+    return {
+      number: '55' + cleanNumber,
+      text: template.replace(/\{\{nome\}\}/g, l.recipient_name || ''),
+      log_id: l.id,
+    };
+  });
+
+  const n8nPayload = {
+    instanceName: unit.evolution_instance_name,
+    api_key: unit.evolution_api_key,
+    mediaUrl: current.media_url || '',
+    mediaType: current.media_type || '',
+    contacts,
+    campaign_id: campaignId,
+    callback_url: `${supabaseUrl}/functions/v1/campaign-callback`,
+    update_status_url: `${supabaseUrl}/functions/v1/update-campaign-status`,
+    check_status_url: `${supabaseUrl}/functions/v1/check-campaign-status`,
+    callback_secret: callbackSecret,
+  };
+
+  console.log(`Dispatching ${contacts.length} contacts of campaign ${campaignId} to n8n`);
+
+  const n8nResponse = await fetch(n8nMarketingUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(n8nPayload),
+  });
+
+  if (!n8nResponse.ok) {
+    const errorText = await n8nResponse.text();
+    console.error('n8n webhook error:', n8nResponse.status, errorText);
+    // Devolve o lote para a fila; a próxima execução tenta de novo
+    await supabase
+      .from('campaign_message_logs')
+      .update({ dispatched_at: null })
+      .in('id', logIds);
+    return { dispatched: 0, reason: 'webhook_error' };
+  }
+
+  return { dispatched: contacts.length };
+}
+
+// Conclui a campanha quando não há mais mensagens pendentes (entregues ou não ao n8n).
+// Os contadores vêm de campaign_message_logs, já que a campanha pode ter sido enviada em vários lotes.
+export async function completeCampaignIfDone(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  campaignId: string
+): Promise<boolean> {
+  const countByStatus = async (status: string) => {
+    const { count } = await supabase
+      .from('campaign_message_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .eq('status', status);
+    return count || 0;
+  };
+
+  const pending = await countByStatus('pending');
+  if (pending > 0) return false;
+
+  const [sent, failed] = await Promise.all([countByStatus('sent'), countByStatus('failed')]);
+
+  await supabase
+    .from('marketing_campaigns')
+    .update({
+      status: 'completed',
+      sent_count: sent,
+      failed_count: failed,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId)
+    .eq('status', 'sending');
+
+  console.log(`Campaign ${campaignId} completed (${sent} sent, ${failed} failed)`);
+  return true;
+}
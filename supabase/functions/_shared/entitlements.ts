@@ -0,0 +1,41 @@
+// Recursos do plano da empresa (plan_features), resolvidos no banco por get_company_entitlements.
+// É a mesma fonte usada pelo app (usePlanEntitlements) e pelos triggers de limite; qualquer edge
+// function que libere um recurso pago deve consultar aqui antes de executar.
+
+export interface CompanyEntitlements {
+  planTier: string | null;
+  values: Record<string, string | null>;
+}
+
+export async function getCompanyEntitlements(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  companyId: string
+): Promise<CompanyEntitlements> {
+  const { data, error } = await supabase.rpc('get_company_entitlements', { p_company_id: companyId });
+
+  if (error) {
+    console.error('Erro ao buscar recursos do plano:', error);
+    throw error;
+  }
+
+  const rows = (data || []) as { feature_key: string; value: string | null; plan_tier: string }[];
+
+  return {
+    planTier: rows[0]?.plan_tier ?? null,
+    values: Object.fromEntries(rows.map((row) => [row.feature_key, row.value])),
+  };
+}
+
+// Recursos não cadastrados em plan_features ficam liberados
+export function hasFeature(entitlements: CompanyEntitlements, featureKey: string): boolean {
+  if (!(featureKey in entitlements.values)) return true;
+  return entitlements.values[featureKey] === 'true';
+}
+
+// null = ilimitado
+export function getLimit(entitlements: CompanyEntitlements, featureKey: string): number | null {
+  const value = entitlements.values[featureKey];
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
@@ -0,0 +1,52 @@
+// ============= PHONE NORMALIZATION UTILITIES =============
+// Gera variações de telefone para busca flexível (9º dígito)
+export function getPhoneVariations(phone: string): string[] {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return [];
+
+  // Padronizar para a forma com DDI quando possível (sem inventar dígitos)
+  const withCountry = (!digits.startsWith('55') && digits.length <= 11)
+    ? `55${digits}`
+    : digits;
+
+  const variations = new Set<string>();
+
+  // 12 dígitos com DDI (55 + DDD + 8 dígitos) => inserir o 9 após o DDD
+  // Ex: 556599891722 -> 5565999891722
+  if (withCountry.length === 12 && withCountry.startsWith('55')) {
+    variations.add(`${withCountry.slice(0, 4)}9${withCountry.slice(4)}`);
+  }
+
+  // 13 dígitos com DDI (55 + DDD + 9 + 8 dígitos) => remover o 9 após o DDD
+  // Ex: 5565999891722 -> 556599891722
+  if (withCountry.length === 13 && withCountry.startsWith('55') && withCountry.charAt(4) === '9') {
+    variations.add(`${withCountry.slice(0, 4)}${withCountry.slice(5)}`);
+  }
+
+  // Retornar variações sem repetir o original
+  variations.delete(withCountry);
+  variations.delete(digits);
+  return Array.from(variations);
+}
+
+// Normaliza telefone para formato padrão brasileiro (13 dígitos)
+export function normalizePhoneToStandard(phone: string): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return digits;
+
+  const withCountry = (!digits.startsWith('55') && digits.length <= 11)
+    ? `55${digits}`
+    : digits;
+
+  // Já está no padrão esperado (55 + DDD + 9 dígitos)
+  if (withCountry.length === 13 && withCountry.startsWith('55')) {
+    return withCountry;
+  }
+
+  // 12 dígitos (55 + DDD + 8 dígitos) => inserir o 9 após o DDD
+  if (withCountry.length === 12 && withCountry.startsWith('55')) {
+    return `${withCountry.slice(0, 4)}9${withCountry.slice(4)}`;
+  }
+
+  return withCountry;
+}
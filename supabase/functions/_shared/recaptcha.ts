@@ -0,0 +1,61 @@
+// ============= RECAPTCHA VERIFICATION =============
+// Mesma checagem do verify-recaptcha, para funções públicas que validam o token no servidor
+
+const VERIFY_URL = "https://www.google.com/recaptcha/api/siteverify";
+const MIN_SCORE = 0.5;
+
+export interface RecaptchaResult {
+  success: boolean;
+  score?: number;
+  action?: string;
+  error?: string;
+  errorCodes?: string[];
+  misconfigured?: boolean;
+}
+
+export async function verifyRecaptchaToken(token: string, action?: string): Promise<RecaptchaResult> {
+  const secretKey = Deno.env.get("RECAPTCHA_SECRET_KEY");
+  if (!secretKey) {
+    console.error("RECAPTCHA_SECRET_KEY not configured");
+    return { success: false, error: "Configuração inválida", misconfigured: true };
+  }
+
+  const formData = new URLSearchParams();
+  formData.append("secret", secretKey);
+  formData.append("response", token);
+
+  const response = await fetch(VERIFY_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: formData.toString(),
+  });
+
+  const result = await response.json();
+
+  console.log(`reCAPTCHA verification for action '${action}':`, {
+    success: result.success,
+    score: result.score,
+    expectedAction: action,
+    receivedAction: result.action,
+    hostname: result.hostname,
+  });
+
+  if (!result.success) {
+    console.error("reCAPTCHA verification failed:", result["error-codes"]);
+    return { success: false, error: "Verificação falhou", errorCodes: result["error-codes"] };
+  }
+
+  // reCAPTCHA v3 returns a score from 0.0 to 1.0; >= 0.5 is generally considered safe
+  const score = result.score ?? 1.0;
+  if (score < MIN_SCORE) {
+    console.warn(`Low reCAPTCHA score for action '${action}': ${score}`);
+    return { success: false, error: "Verificação de segurança falhou", score };
+  }
+
+  if (action && result.action && result.action !== action) {
+    // Don't fail on action mismatch, just log it
+    console.warn(`Action mismatch: expected '${action}', got '${result.action}'`);
+  }
+
+  return { success: true, score, action: result.action };
+}
@@ -0,0 +1,329 @@
+// Lista de espera compartilhada entre agenda-api (bot do WhatsApp) e waitlist-offer (painel).
+// Quando um horário é liberado, o primeiro cliente elegível recebe a oferta pelo WhatsApp e o
+// horário fica reservado para ele por waitlist_hold_minutes (configurado na unidade).
+
+import { getPhoneVariations } from './phone.ts';
+
+export interface WaitlistHold {
+  id: string;
+  client_name: string;
+  client_phone: string;
+  barber_id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface WaitlistOfferResult {
+  offered: boolean;
+  entry_id?: string;
+  client_name?: string;
+  expires_at?: string;
+}
+
+interface FreedSlot {
+  unitId: string;
+  barberId: string;
+  startTime: string;
+  endTime: string;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Data local (YYYY-MM-DD) de um instante no timezone da unidade
+function getLocalDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+// Reservas ativas (ofertas ainda dentro do prazo) que se sobrepõem ao intervalo informado
+export async function getActiveWaitlistHolds(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  params: { unitId: string; startUTC: string; endUTC: string; barberId?: string }
+): Promise<WaitlistHold[]> {
+  let query = supabase
+    .from('waitlist_entries')
+    .select('id, client_name, client_phone, offered_barber_id, offered_slot_start, offered_slot_end')
+    .eq('unit_id', params.unitId)
+    .eq('status', 'offered')
+    .gt('offer_expires_at', new Date().toISOString())
+    .lt('offered_slot_start', params.endUTC)
+    .gt('offered_slot_end', params.startUTC);
+
+  if (params.barberId) {
+    query = query.eq('offered_barber_id', params.barberId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching waitlist holds:', error);
+    return [];
+  }
+
+  return (data || []).map((entry: {
+    id: string;
+    client_name: string;
+    client_phone: string;
+    offered_barber_id: string;
+    offered_slot_start: string;
+    offered_slot_end: string;
+  }) => ({
+    id: entry.id,
+    client_name: entry.client_name,
+    client_phone: entry.client_phone,
+    barber_id: entry.offered_barber_id,
+    start: new Date(entry.offered_slot_start),
+    end: new Date(entry.offered_slot_end),
+  }));
+}
+
+// A reserva pertence a este telefone? (o próprio cliente da lista de espera pode agendar)
+export function isWaitlistHoldForPhone(hold: WaitlistHold, phone: string | null | undefined): boolean {
+  if (!phone) return false;
+  const holdPhones = getPhoneVariations(hold.client_phone.replace(/\D/g, ''));
+  return getPhoneVariations(phone.replace(/\D/g, '')).some((p) => holdPhones.includes(p));
+}
+
+// Marca a entrada da lista de espera como agendada
+export async function markWaitlistEntryBooked(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  entryId: string,
+  appointmentId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'booked', appointment_id: appointmentId, offer_expires_at: null })
+    .eq('id', entryId);
+
+  if (error) {
+    console.error('Error marking waitlist entry as booked:', error);
+  }
+}
+
+async function sendWaitlistOfferMessage(
+  unit: { name: string; timezone: string | null; evolution_instance_name: string | null; evolution_api_key: string | null },
+  params: { clientName: string; clientPhone: string; barberName: string; serviceName: string | null; start: Date; holdMinutes: number }
+): Promise<void> {
+  if (!unit.evolution_instance_name || !unit.evolution_api_key) {
+    console.log('Oferta da lista de espera não enviada - unidade sem WhatsApp conectado');
+    return;
+  }
+
+  // Formatar telefone: adicionar 55 se necessário (apenas para envio)
+  let phoneForMessage = params.clientPhone.replace(/\D/g, '');
+  if (!phoneForMessage.startsWith('55') && phoneForMessage.length <= 11) {
+    phoneForMessage = '55' + phoneForMessage;
+  }
+
+  const formattedDateTime = new Intl.DateTimeFormat('pt-BR', {
+    timeZone: unit.timezone || 'America/Sao_Paulo',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(params.start);
+
+  const message = `⏰ *Vaga disponível!*\n\n` +
+    `Olá ${params.clientName}!\n\n` +
+    `Você está na nossa lista de espera e abriu um horário na ${unit.name}:\n\n` +
+    `📅 *Data/Hora:* ${formattedDateTime}\n` +
+    `💈 *Profissional:* ${params.barberName}\n` +
+    (params.serviceName ? `✂️ *Serviço:* ${params.serviceName}\n` : '') +
+    `\nReservamos este horário para você por ${params.holdMinutes} minutos. ` +
+    `Responda *SIM* para confirmar.`;
+
+  const evolutionApiUrl = Deno.env.get('EVOLUTION_API_URL') || 'https://api.evolution.barbersoft.com.br';
+
+  try {
+    const res = await fetch(`${evolutionApiUrl}/message/sendText/${unit.evolution_instance_name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': unit.evolution_api_key,
+      },
+      body: JSON.stringify({
+        number: phoneForMessage,
+        text: message,
+      }),
+    });
+    console.log(`Oferta da lista de espera enviada para ${phoneForMessage}: ${res.status}`);
+  } catch (err) {
+    console.error('Erro ao enviar oferta da lista de espera (não-crítico):', err instanceof Error ? err.message : err);
+  }
+}
+
+// Oferece um horário liberado ao primeiro cliente elegível da lista de espera.
+// Elegível: aguardando, data dentro do período desejado, barbeiro preferido igual (ou qualquer),
+// serviço cabe no horário e o mesmo horário ainda não foi oferecido a ele.
+export async function offerFreedSlot(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  slot: FreedSlot
+): Promise<WaitlistOfferResult> {
+  // barberId entra no filtro .or() dos candidatos; só aceita UUID para não alterar a consulta
+  if (!UUID_REGEX.test(slot.barberId) || !UUID_REGEX.test(slot.unitId)) {
+    return { offered: false };
+  }
+
+  const start = new Date(slot.startTime);
+  const end = new Date(slot.endTime);
+
+  if (start.getTime() <= Date.now()) {
+    return { offered: false };
+  }
+
+  const { data: unit, error: unitError } = await supabase
+    .from('units')
+    .select('id, company_id, name, timezone, waitlist_enabled, waitlist_hold_minutes, evolution_instance_name, evolution_api_key')
+    .eq('id', slot.unitId)
+    .maybeSingle();
+
+  if (unitError || !unit) {
+    console.error('Unit not found for waitlist offer:', unitError);
+    return { offered: false };
+  }
+
+  if (!unit.waitlist_enabled) {
+    return { offered: false };
+  }
+
+  // O horário continua livre?
+  const { data: conflicts } = await supabase
+    .from('appointments')
+    .select('id')
+    .eq('unit_id', slot.unitId)
+    .eq('barber_id', slot.barberId)
+    .neq('status', 'cancelled')
+    .lt('start_time', end.toISOString())
+    .gt('end_time', start.toISOString())
+    .limit(1);
+
+  if (conflicts && conflicts.length > 0) {
+    console.log('Horário liberado já foi ocupado, nenhuma oferta enviada');
+    return { offered: false };
+  }
+
+  const holds = await getActiveWaitlistHolds(supabase, {
+    unitId: slot.unitId,
+    startUTC: start.toISOString(),
+    endUTC: end.toISOString(),
+    barberId: slot.barberId,
+  });
+
+  if (holds.length > 0) {
+    console.log('Horário já reservado para a lista de espera');
+    return { offered: false };
+  }
+
+  const localDate = getLocalDate(start, unit.timezone || 'America/Sao_Paulo');
+  const { data: candidates, error: candidatesError } = await supabase
+    .from('waitlist_entries')
+    .select('id, client_name, client_phone, offered_slot_start, service:services(name, duration_minutes)')
+    .eq('unit_id', slot.unitId)
+    .eq('status', 'waiting')
+    .lte('desired_start_date', localDate)
+    .gte('desired_end_date', localDate)
+    .or(`barber_id.is.null,barber_id.eq.${slot.barberId}`)
+    .order('created_at', { ascending: true });
+
+  if (candidatesError) {
+    console.error('Error fetching waitlist candidates:', candidatesError);
+    return { offered: false };
+  }
+
+  const slotMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+
+  for (const candidate of candidates || []) {
+    const duration = candidate.service?.duration_minutes || slotMinutes;
+    if (duration > slotMinutes) continue;
+    if (candidate.offered_slot_start && new Date(candidate.offered_slot_start).getTime() === start.getTime()) continue;
+
+    const expiresAt = new Date(Date.now() + unit.waitlist_hold_minutes * 60000);
+
+    // Guardar status = waiting evita ofertar duas vezes em chamadas simultâneas
+    const { data: offered, error: offerError } = await supabase
+      .from('waitlist_entries')
+      .update({
+        status: 'offered',
+        offered_barber_id: slot.barberId,
+        offered_slot_start: start.toISOString(),
+        offered_slot_end: new Date(start.getTime() + duration * 60000).toISOString(),
+        offered_at: new Date().toISOString(),
+        offer_expires_at: expiresAt.toISOString(),
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'waiting')
+      .select('id')
+      .maybeSingle();
+
+    if (offerError || !offered) {
+      if (offerError) console.error('Error offering slot to waitlist entry:', offerError);
+      continue;
+    }
+
+    const { data: barber } = await supabase
+      .from('barbers')
+      .select('name')
+      .eq('id', slot.barberId)
+      .maybeSingle();
+
+    console.log(`Horário ${start.toISOString()} oferecido a ${candidate.client_name} (lista de espera) até ${expiresAt.toISOString()}`);
+
+    await sendWaitlistOfferMessage(unit, {
+      clientName: candidate.client_name,
+      clientPhone: candidate.client_phone,
+      barberName: barber?.name || 'Profissional',
+      serviceName: candidate.service?.name || null,
+      start,
+      holdMinutes: unit.waitlist_hold_minutes,
+    });
+
+    return { offered: true, entry_id: candidate.id, client_name: candidate.client_name, expires_at: expiresAt.toISOString() };
+  }
+
+  console.log('Nenhum cliente elegível na lista de espera para o horário liberado');
+  return { offered: false };
+}
+
+// Ofertas vencidas voltam para a fila e o horário é oferecido ao próximo da lista.
+// Não há cron: roda sempre que a lista de espera é acionada (cancelamentos, inclusões).
+export async function expireWaitlistOffers(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  unitId: string
+): Promise<number> {
+  const { data: expired, error } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'waiting', offer_expires_at: null })
+    .eq('unit_id', unitId)
+    .eq('status', 'offered')
+    .lte('offer_expires_at', new Date().toISOString())
+    .select('id, offered_barber_id, offered_slot_start, offered_slot_end');
+
+  if (error) {
+    console.error('Error expiring waitlist offers:', error);
+    return 0;
+  }
+
+  for (const entry of expired || []) {
+    if (!entry.offered_barber_id || !entry.offered_slot_start || !entry.offered_slot_end) continue;
+    await offerFreedSlot(supabase, {
+      unitId,
+      barberId: entry.offered_barber_id,
+      startTime: entry.offered_slot_start,
+      endTime: entry.offered_slot_end,
+    });
+  }
+
+  if (expired && expired.length > 0) {
+    console.log(`${expired.length} oferta(s) da lista de espera expirada(s)`);
+  }
+
+  return expired?.length || 0;
+}
@@ -1,5 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  convertLocalToUTC,
+  getAvailableSlots,
+  getDayBoundsInUTC,
+  getSlotUnavailabilityReason,
+  normalizeLocalDateTimeInput,
+  toLocalDateTimeInput,
+} from "../_shared/availability.ts";
+import { getPhoneVariations, normalizePhoneToStandard } from "../_shared/phone.ts";
+import {
+  expireWaitlistOffers,
+  getActiveWaitlistHolds,
+  isWaitlistHoldForPhone,
+  markWaitlistEntryBooked,
+  offerFreedSlot,
+} from "../_shared/waitlist.ts";
+
+// Disponível no runtime das Edge Functions; mantém a função viva até a promise terminar
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 // === INPUT VALIDATION UTILITIES ===
 // Maximum length constraints to prevent DoS via oversized inputs
@@ -8,6 +27,7 @@ const MAX_PHONE_LENGTH = 20;
 const MAX_NOTES_LENGTH = 1000;
 const MAX_TAGS_COUNT = 10;
 const MAX_TAG_LENGTH = 50;
+const MAX_SERVICES_PER_APPOINTMENT = 10;
 
 // Validation helper functions
 function validateStringLength(value: string | null | undefined, maxLength: number, fieldName: string): { valid: boolean; error?: string } {
@@ -59,6 +79,25 @@ function sanitizeText(text: string): string {
   return text.replace(/\0/g, '').trim();
 }
 
+// Accept a list of services as an array or a comma-separated string ("Corte, Barba")
+function parseServiceNames(value: unknown): string[] {
+  if (!value) return [];
+  const names: unknown[] = Array.isArray(value) ? value : String(value).split(',');
+  return names
+    .map((name) => (typeof name === 'string' ? name.trim() : ''))
+    .filter((name) => name.length > 0);
+}
+
+// Nome dos serviços de um agendamento ("Corte + Barba"), com fallback para o serviço principal
+function getAppointmentServicesLabel(appointment: {
+  services?: { service_name: string; position: number }[] | null;
+  service?: { name: string } | null;
+}): string {
+  const items = [...(appointment.services || [])].sort((a, b) => a.position - b.position);
+  if (items.length > 0) return items.map((item) => item.service_name).join(' + ');
+  return appointment.service?.name || 'Serviço';
+}
+
 // Generic error messages - never expose internal details
 const GENERIC_ERRORS = {
   database: 'Erro ao processar solicitação',
@@ -69,131 +108,11 @@ const GENERIC_ERRORS = {
   internal: 'Erro interno',
 };
 
-// ============= PHONE NORMALIZATION UTILITIES =============
-// Gera variações de telefone para busca flexível (9º dígito)
-function getPhoneVariations(phone: string): string[] {
-  const digits = (phone || '').replace(/\D/g, '');
-  if (!digits) return [];
-
-  // Padronizar para a forma com DDI quando possível (sem inventar dígitos)
-  const withCountry = (!digits.startsWith('55') && digits.length <= 11)
-    ? `55${digits}`
-    : digits;
-
-  const variations = new Set<string>();
-
-  // 12 dígitos com DDI (55 + DDD + 8 dígitos) => inserir o 9 após o DDD
-  // Ex: 556599891722 -> 5565999891722
-  if (withCountry.length === 12 && withCountry.startsWith('55')) {
-    variations.add(`${withCountry.slice(0, 4)}9${withCountry.slice(4)}`);
-  }
-
-  // 13 dígitos com DDI (55 + DDD + 9 + 8 dígitos) => remover o 9 após o DDD
-  // Ex: 5565999891722 -> 556599891722
-  if (withCountry.length === 13 && withCountry.startsWith('55') && withCountry.charAt(4) === '9') {
-    variations.add(`${withCountry.slice(0, 4)}${withCountry.slice(5)}`);
-  }
-
-  // Retornar variações sem repetir o original
-  variations.delete(withCountry);
-  variations.delete(digits);
-  return Array.from(variations);
-}
-
-// Normaliza telefone para formato padrão brasileiro (13 dígitos)
-function normalizePhoneToStandard(phone: string): string {
-  const digits = (phone || '').replace(/\D/g, '');
-  if (!digits) return digits;
-
-  const withCountry = (!digits.startsWith('55') && digits.length <= 11)
-    ? `55${digits}`
-    : digits;
-
-  // Já está no padrão esperado (55 + DDD + 9 dígitos)
-  if (withCountry.length === 13 && withCountry.startsWith('55')) {
-    return withCountry;
-  }
-
-  // 12 dígitos (55 + DDD + 8 dígitos) => inserir o 9 após o DDD
-  if (withCountry.length === 12 && withCountry.startsWith('55')) {
-    return `${withCountry.slice(0, 4)}9${withCountry.slice(4)}`;
-  }
-
-  return withCountry;
-}
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
 };
 
-// Mapeamento de fusos horários brasileiros para offsets
-function getTimezoneOffset(timezone: string): string {
-  const offsets: Record<string, string> = {
-    'America/Sao_Paulo': '-03:00',
-    'America/Cuiaba': '-04:00',
-    'America/Manaus': '-04:00',
-    'America/Fortaleza': '-03:00',
-    'America/Recife': '-03:00',
-    'America/Belem': '-03:00',
-    'America/Rio_Branco': '-05:00',
-    'America/Noronha': '-02:00',
-    'America/Porto_Velho': '-04:00',
-    'America/Boa_Vista': '-04:00',
-  };
-  return offsets[timezone] || '-03:00'; // Default: Brasília
-}
-
-// Normaliza input de datetime - SEMPRE trata como horário LOCAL (remove qualquer timezone)
-function normalizeLocalDateTimeInput(dateTimeStr: string): string {
-  if (!dateTimeStr) return dateTimeStr;
-  
-  // Remover timezone info (Z, +00:00, -03:00, etc.) para tratar como local
-  let normalized = dateTimeStr
-    .replace(/Z$/, '')
-    .replace(/[+-]\d{2}:\d{2}$/, '')
-    .replace(/\.\d{3}$/, ''); // Remover milissegundos
-  
-  console.log(`normalizeLocalDateTimeInput: "${dateTimeStr}" -> "${normalized}"`);
-  return normalized;
-}
-
-// Converte uma data local (sem timezone) para UTC baseado no timezone da unidade
-function convertLocalToUTC(dateTimeStr: string, timezone: string): Date {
-  // Primeiro normalizar para remover qualquer timezone
-  const normalizedDateTime = normalizeLocalDateTimeInput(dateTimeStr);
-  
-  // Adicionar o offset do timezone da unidade
-  const offset = getTimezoneOffset(timezone);
-  const localDateTime = `${normalizedDateTime}${offset}`;
-  
-  console.log(`convertLocalToUTC: "${dateTimeStr}" -> normalized: "${normalizedDateTime}" -> with offset ${offset}: "${localDateTime}"`);
-  
-  const result = new Date(localDateTime);
-  console.log(`convertLocalToUTC result: ${result.toISOString()}`);
-  
-  return result;
-}
-
-// Calcula início e fim do dia em UTC baseado no timezone local
-function getDayBoundsInUTC(dateStr: string, timezone: string): { startUTC: string; endUTC: string } {
-  // dateStr pode ser "2026-01-05" ou "2026-01-05T10:00:00Z" etc.
-  const dateOnly = dateStr.split('T')[0]; // Pegar apenas YYYY-MM-DD
-  
-  const startLocal = `${dateOnly}T00:00:00`;
-  const endLocal = `${dateOnly}T23:59:59`;
-  
-  const startUTC = convertLocalToUTC(startLocal, timezone);
-  const endUTC = convertLocalToUTC(endLocal, timezone);
-  
-  console.log(`getDayBoundsInUTC: ${dateOnly} (${timezone}) -> ${startUTC.toISOString()} to ${endUTC.toISOString()}`);
-  
-  return {
-    startUTC: startUTC.toISOString(),
-    endUTC: endUTC.toISOString()
-  };
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -336,9 +255,29 @@ serve(async (req) => {
       case 'add_dependent':
         return await handleAddDependent(supabase, enrichedBody, corsHeaders);
       
+      // Incluir cliente na lista de espera (alias: add_to_waitlist)
+      case 'waitlist_add':
+      case 'add_to_waitlist':
+        return await handleWaitlistAdd(supabase, enrichedBody, corsHeaders);
+      
+      // Aceitar o horário oferecido pela lista de espera (alias: accept_waitlist_offer)
+      case 'waitlist_accept':
+      case 'accept_waitlist_offer':
+        return await handleWaitlistAccept(supabase, enrichedBody, corsHeaders);
+      
+      // Retirar cliente da lista de espera / recusar oferta (alias: leave_waitlist)
+      case 'waitlist_remove':
+      case 'leave_waitlist':
+        return await handleWaitlistRemove(supabase, enrichedBody, corsHeaders);
+      
+      // Registrar a nota (0-10) e o comentário da pesquisa de satisfação (alias: nps_response)
+      case 'record_survey_response':
+      case 'nps_response':
+        return await handleSurveyResponse(supabase, enrichedBody, corsHeaders);
+      
       default:
         return new Response(
-          JSON.stringify({ success: false, error: 'Ação inválida. Actions válidas: check, check_availability, create, schedule_appointment, cancel, cancel_appointment, check_client, register_client, update_client, check_slot, confirm_appointment, add_dependent' }),
+          JSON.stringify({ success: false, error: 'Ação inválida. Actions válidas: check, check_availability, create, schedule_appointment, cancel, cancel_appointment, check_client, register_client, update_client, check_slot, confirm_appointment, add_dependent, waitlist_add, add_to_waitlist, waitlist_accept, accept_waitlist_offer, waitlist_remove, leave_waitlist, record_survey_response, nps_response' }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
     }
@@ -352,21 +291,6 @@ serve(async (req) => {
   }
 });
 
-// Helper para verificar se um horário está dentro do intervalo do barbeiro
-function isWithinLunchBreak(barber: any, hour: number, minute: number): boolean {
-  if (!barber.lunch_break_enabled || !barber.lunch_break_start || !barber.lunch_break_end) {
-    return false;
-  }
-  
-  const slotMinutes = hour * 60 + minute;
-  const [startHour, startMin] = barber.lunch_break_start.split(":").map(Number);
-  const [endHour, endMin] = barber.lunch_break_end.split(":").map(Number);
-  const lunchStartMinutes = startHour * 60 + (startMin || 0);
-  const lunchEndMinutes = endHour * 60 + (endMin || 0);
-  
-  return slotMinutes >= lunchStartMinutes && slotMinutes < lunchEndMinutes;
-}
-
 // Handler para consultar disponibilidade
 async function handleCheck(supabase: any, body: any, corsHeaders: any) {
   const { date, professional, unit_id, unit_timezone } = body;
@@ -388,64 +312,6 @@ async function handleCheck(supabase: any, body: any, corsHeaders: any) {
 
   console.log(`Checking availability for date: ${date}, professional: ${professional || 'any'}, unit: ${unit_id}, timezone: ${timezone}`);
 
-  // Buscar user_id da unidade para obter configurações de expediente
-  const { data: unitData, error: unitError } = await supabase
-    .from('units')
-    .select('user_id')
-    .eq('id', unit_id)
-    .single();
-
-  if (unitError) {
-    console.error('Error fetching unit:', unitError);
-  }
-
-  // Buscar horário de expediente configurado
-  let openingHour = 8;  // default
-  let closingHour = 21; // default
-
-  if (unitData?.user_id) {
-    const { data: settings, error: settingsError } = await supabase
-      .from('business_settings')
-      .select('opening_time, closing_time')
-      .eq('user_id', unitData.user_id)
-      .maybeSingle();
-
-    if (settingsError) {
-      console.error('Error fetching business settings:', settingsError);
-    }
-
-    if (settings) {
-      if (settings.opening_time) {
-        openingHour = parseInt(settings.opening_time.split(':')[0]);
-      }
-      if (settings.closing_time) {
-        closingHour = parseInt(settings.closing_time.split(':')[0]);
-      }
-      console.log(`Using configured hours: ${openingHour}:00 - ${closingHour}:00`);
-    }
-  }
-
-  // Calcular hora atual no timezone da unidade
-  const now = new Date();
-  const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone: timezone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false
-  });
-  const parts = formatter.formatToParts(now);
-  const todayDate = `${parts.find(p => p.type === 'year')?.value}-${parts.find(p => p.type === 'month')?.value}-${parts.find(p => p.type === 'day')?.value}`;
-  const currentHour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-  const currentMinute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
-
-  const dateOnly = date.split('T')[0];
-  const isToday = dateOnly === todayDate;
-
-  console.log(`Today in timezone ${timezone}: ${todayDate}, current time: ${currentHour}:${currentMinute}, requested date: ${dateOnly}, isToday: ${isToday}`);
-
   // Buscar barbeiros ativos da unidade (incluindo config de intervalo)
   let barbersQuery = supabase
     .from('barbers')
@@ -492,72 +358,28 @@ async function handleCheck(supabase: any, body: any, corsHeaders: any) {
     console.error('Error fetching services:', servicesError);
   }
 
-  // Buscar agendamentos do dia (exceto cancelados) - usar timezone correto
-  const { startUTC, endUTC } = getDayBoundsInUTC(date, timezone);
-
-  const { data: appointments, error: appointmentsError } = await supabase
-    .from('appointments')
-    .select('id, barber_id, start_time, end_time, status')
-    .eq('unit_id', unit_id)
-    .gte('start_time', startUTC)
-    .lte('start_time', endUTC)
-    .neq('status', 'cancelled');
-
-  if (appointmentsError) {
-    console.error('Error fetching appointments:', appointmentsError);
-  }
-
-  console.log(`Found ${appointments?.length || 0} existing appointments`);
-
-  // Gerar slots disponíveis (usando horário de expediente configurado)
-  const availableSlots: any[] = [];
-
-  for (let hour = openingHour; hour < closingHour; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      // Filtrar horários passados se for hoje
-      if (isToday) {
-        if (hour < currentHour || (hour === currentHour && minute <= currentMinute)) {
-          continue; // Pula este slot pois já passou
-        }
-      }
-
-      const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      const slotLocalStr = `${dateOnly}T${timeStr}:00`;
-      const slotStart = convertLocalToUTC(slotLocalStr, timezone);
-
-      for (const barber of barbers) {
-        // Verificar se está no intervalo do barbeiro
-        const isLunchBreak = isWithinLunchBreak(barber, hour, minute);
-        
-        // Verificar se o barbeiro está ocupado neste horário
-        const isOccupied = appointments?.some((apt: any) => {
-          if (apt.barber_id !== barber.id) return false;
-          const aptStart = new Date(apt.start_time);
-          const aptEnd = new Date(apt.end_time);
-          return slotStart >= aptStart && slotStart < aptEnd;
-        });
-
-        // Só adiciona slot se não estiver ocupado E não for intervalo
-        if (!isOccupied && !isLunchBreak) {
-          availableSlots.push({
-            time: timeStr,
-            datetime: slotStart.toISOString(),
-            barber_id: barber.id,
-            barber_name: barber.name,
-            status: "vago"
-          });
-        }
-      }
-    }
-  }
+  // Horários vagos: expediente do dia, feriados, jornada/ausências, intervalo, bloqueios e agendamentos existentes
+  const availability = await getAvailableSlots(supabase, {
+    unitId: unit_id,
+    date,
+    timezone,
+    barbers,
+  });
 
-  console.log(`Generated ${availableSlots.length} available slots`);
+  // Quando o profissional pedido está de folga/ausente, explicar o motivo para o bot
+  const unavailableBarbers = availability.unavailable_barbers || [];
+  const absenceMessage = !availability.closed && unavailableBarbers.length > 0 && unavailableBarbers.length === barbers.length
+    ? unavailableBarbers.map((b) => `${b.barber_name}: ${b.reason}`).join('; ')
+    : undefined;
 
   return new Response(
     JSON.stringify({
       success: true,
       date,
-      available_slots: availableSlots,
+      available_slots: availability.slots,
+      closed: availability.closed,
+      message: availability.reason || absenceMessage,
+      unavailable_barbers: unavailableBarbers,
       services: services || []
     }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -575,7 +397,11 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
   const normalizedClientPhone = clientPhone ? normalizePhoneToStandard(clientPhone) : null;
   const dateTime = body.data || body.datetime || body.date;
   const barberName = body.barbeiro_nome || body.professional;
-  const serviceName = body.servico || body.service;
+  // Vários serviços: servicos/services (array ou "Corte, Barba") - ou servico/service único
+  const serviceNames = (body.servicos || body.services)
+    ? parseServiceNames(body.servicos || body.services)
+    : parseServiceNames([body.servico || body.service]);
+  const serviceName = serviceNames.join(' + ');
   const { unit_id, company_id, unit_timezone } = body;
   const timezone = unit_timezone || 'America/Sao_Paulo';
 
@@ -586,11 +412,11 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
 
   // Validações
   // Validate required fields
-  if (!clientName || !barberName || !serviceName || !dateTime || !unit_id) {
+  if (!clientName || !barberName || serviceNames.length === 0 || !dateTime || !unit_id) {
     return new Response(
       JSON.stringify({ 
         success: false, 
-        error: 'Campos obrigatórios: nome/client_name, barbeiro_nome/professional, servico/service, data/datetime' 
+        error: 'Campos obrigatórios: nome/client_name, barbeiro_nome/professional, servico/service (ou servicos/services), data/datetime' 
       }),
       { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -624,6 +450,23 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
     );
   }
 
+  // Validate services
+  if (serviceNames.length > MAX_SERVICES_PER_APPOINTMENT) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Máximo de ${MAX_SERVICES_PER_APPOINTMENT} serviços por agendamento` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  for (const name of serviceNames) {
+    const serviceValidation = validateStringLength(name, MAX_NAME_LENGTH, 'Serviço');
+    if (!serviceValidation.valid) {
+      return new Response(
+        JSON.stringify({ success: false, error: serviceValidation.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
   // Validate notes length
   const notesValidation = validateStringLength(clientNotes, MAX_NOTES_LENGTH, 'Observações');
   if (!notesValidation.valid) {
@@ -646,7 +489,7 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
   // Sanitize text inputs
   const sanitizedClientName = sanitizeText(clientName);
   const sanitizedBarberName = sanitizeText(barberName);
-  const sanitizedServiceName = sanitizeText(serviceName);
+  const sanitizedServiceNames = serviceNames.map(sanitizeText);
   const sanitizedNotes = clientNotes ? sanitizeText(clientNotes) : null;
 
   // Se unit_timezone não veio do enrichedBody, buscar da unidade
@@ -801,7 +644,7 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
   // Buscar o barbeiro pelo nome
   const { data: barbers, error: barberError } = await supabase
     .from('barbers')
-    .select('id, name, company_id')
+    .select('id, name, company_id, lunch_break_enabled, lunch_break_start, lunch_break_end')
     .eq('unit_id', unit_id)
     .eq('is_active', true)
     .ilike('name', `%${barberName}%`)
@@ -818,35 +661,62 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
   const barber = barbers[0];
   console.log('Found barber:', barber);
 
-  // Buscar o serviço pelo nome
-  const { data: services, error: serviceError } = await supabase
-    .from('services')
-    .select('id, name, price, duration_minutes')
-    .eq('unit_id', unit_id)
-    .eq('is_active', true)
-    .ilike('name', `%${serviceName}%`)
-    .limit(1);
+  // Buscar cada serviço pelo nome (na ordem informada)
+  const selectedServices: { id: string; name: string; price: number; duration_minutes: number }[] = [];
+  for (const name of sanitizedServiceNames) {
+    const { data: services, error: serviceError } = await supabase
+      .from('services')
+      .select('id, name, price, duration_minutes')
+      .eq('unit_id', unit_id)
+      .eq('is_active', true)
+      .ilike('name', `%${name}%`)
+      .limit(1);
 
-  if (serviceError || !services || services.length === 0) {
-    console.error('Service not found:', serviceError);
-    return new Response(
-      JSON.stringify({ success: false, error: `Serviço "${serviceName}" não encontrado` }),
-      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    if (serviceError || !services || services.length === 0) {
+      console.error('Service not found:', name, serviceError);
+      return new Response(
+        JSON.stringify({ success: false, error: `Serviço "${name}" não encontrado` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    selectedServices.push(services[0]);
   }
 
-  const selectedService = services[0];
-  console.log('Found service:', selectedService);
+  const selectedService = selectedServices[0];
+  const selectedServicesLabel = selectedServices.map((s) => s.name).join(' + ');
+  const totalDuration = selectedServices.reduce((sum, s) => sum + s.duration_minutes, 0);
+  const totalPrice = selectedServices.reduce((sum, s) => sum + Number(s.price), 0);
+  console.log('Found services:', selectedServices);
 
   // Calcular end_time - converter para UTC baseado no timezone da unidade
   // IMPORTANTE: Sempre tratar dateTime como horário LOCAL
   const startTime = convertLocalToUTC(dateTime, finalTimezone);
-  const endTime = new Date(startTime.getTime() + selectedService.duration_minutes * 60000);
+  const endTime = new Date(startTime.getTime() + totalDuration * 60000);
   
   console.log(`Input datetime: ${dateTime}`);
   console.log(`Converted start_time (UTC): ${startTime.toISOString()}`);
   console.log(`Calculated end_time (UTC): ${endTime.toISOString()}`);
 
+  // Verificar expediente, jornada/ausências do barbeiro, intervalo e bloqueios
+  const [localDate, localTime = '00:00'] = normalizeLocalDateTimeInput(dateTime).split('T');
+  const unavailableReason = await getSlotUnavailabilityReason(supabase, {
+    unitId: unit_id,
+    date: localDate,
+    time: localTime.slice(0, 5),
+    barber,
+    durationMinutes: totalDuration,
+    timezone: finalTimezone,
+  });
+
+  if (unavailableReason) {
+    console.log(`Horário indisponível: ${unavailableReason}`);
+    return new Response(
+      JSON.stringify({ success: false, error: `Horário não disponível. ${unavailableReason}.` }),
+      { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
   // Verificar se o horário está disponível
   const { data: conflictingApts, error: conflictError } = await supabase
     .from('appointments')
@@ -871,6 +741,25 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
     );
   }
 
+  // Horário reservado pela lista de espera: só o cliente que recebeu a oferta pode agendar
+  const waitlistHolds = await getActiveWaitlistHolds(supabase, {
+    unitId: unit_id,
+    startUTC: startTime.toISOString(),
+    endUTC: endTime.toISOString(),
+    barberId: barber.id,
+  });
+  const ownWaitlistHold = waitlistHolds.find((hold) => isWaitlistHoldForPhone(hold, clientPhone));
+
+  if (waitlistHolds.some((hold) => hold !== ownWaitlistHold)) {
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: 'Horário não disponível. Este horário está reservado para um cliente da lista de espera.' 
+      }),
+      { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
   // === SUPORTE A DEPENDENTES ===
   // Se is_dependent = true e dependent_name fornecido, buscar ou criar dependente
   const isDependent = body.is_dependent === true || body.is_dependent === 'true';
@@ -954,7 +843,7 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
       client_birth_date: isDependent ? (dependentBirthDate || null) : (clientBirthDate || null),
       start_time: startTime.toISOString(),
       end_time: endTime.toISOString(),
-      total_price: selectedService.price,
+      total_price: totalPrice,
       status: 'pending',
       source: 'whatsapp',
       is_dependent: isDependent,
@@ -973,6 +862,32 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
 
   console.log('Appointment created:', appointment);
 
+  // Registrar os serviços do agendamento (snapshot de preço e duração)
+  const { error: servicesInsertError } = await supabase.rpc('replace_appointment_services', {
+    p_appointment_id: appointment.id,
+    p_services: selectedServices.map((s) => ({
+      service_id: s.id,
+      service_name: s.name,
+      price: s.price,
+      duration_minutes: s.duration_minutes
+    }))
+  });
+
+  if (servicesInsertError) {
+    console.error('Error saving appointment services:', servicesInsertError);
+    // Sem os serviços o agendamento fica incompleto; desfaz para o cliente tentar de novo
+    await supabase.from('appointments').delete().eq('id', appointment.id);
+    return new Response(
+      JSON.stringify({ success: false, error: 'Erro ao registrar os serviços do agendamento' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (ownWaitlistHold) {
+    await markWaitlistEntryBooked(supabase, ownWaitlistHold.id, appointment.id);
+    console.log(`Oferta da lista de espera aceita: ${ownWaitlistHold.client_name}`);
+  }
+
   // === ENVIO DE CONFIRMAÇÃO VIA WHATSAPP (não-bloqueante) ===
   const { evolution_instance_name, evolution_api_key } = body;
 
@@ -1005,9 +920,9 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
         `Olá ${clientName}!\n\n` +
         `Seu agendamento foi realizado com sucesso:\n\n` +
         `📅 *Data/Hora:* ${formattedDateTime}\n` +
-        `✂️ *Serviço:* ${selectedService.name}\n` +
+        `✂️ *${selectedServices.length > 1 ? 'Serviços' : 'Serviço'}:* ${selectedServicesLabel}\n` +
         `💈 *Profissional:* ${barber.name}\n` +
-        `💰 *Valor:* R$ ${selectedService.price.toFixed(2)}\n\n` +
+        `💰 *Valor:* R$ ${totalPrice.toFixed(2)}\n\n` +
         `Até lá! 💈`;
       
       // Enviar sem await (fire-and-forget) - não bloquear resposta
@@ -1064,7 +979,12 @@ async function handleCreate(supabase: any, body: any, corsHeaders: any) {
         responsible_name: isDependent ? clientName : null,
         responsible_phone: clientPhone,
         barber: barber.name,
-        service: selectedService.name,
+        service: selectedServicesLabel,
+        services: selectedServices.map((s) => ({
+          name: s.name,
+          price: s.price,
+          duration_minutes: s.duration_minutes
+        })),
         start_time: appointment.start_time,
         end_time: appointment.end_time,
         total_price: appointment.total_price,
@@ -1086,9 +1006,9 @@ async function recordCancellationHistory(
   const now = new Date();
   const scheduledTime = new Date(appointment.start_time);
   const minutesBefore = Math.round((scheduledTime.getTime() - now.getTime()) / 60000);
-  const isLateCancellation = minutesBefore < 10;
 
-  const { error } = await supabase
+  // Atraso e taxa são definidos por triggers no banco, conforme a política de cancelamento
+  const { data: record, error } = await supabase
     .from("cancellation_history")
     .insert({
       unit_id: appointment.unit_id,
@@ -1101,16 +1021,40 @@ async function recordCancellationHistory(
       scheduled_time: appointment.start_time,
       cancelled_at: now.toISOString(),
       minutes_before: minutesBefore,
-      is_late_cancellation: isLateCancellation,
       is_no_show: false,
       total_price: appointment.total_price || 0,
       cancellation_source: source,
-    });
+    })
+    .select("is_late_cancellation")
+    .single();
 
   if (error) {
     console.error("Error recording cancellation history:", error);
   } else {
-    console.log(`Cancellation recorded in history: ${appointment.client_name}, ${minutesBefore} min before, late: ${isLateCancellation}`);
+    console.log(`Cancellation recorded in history: ${appointment.client_name}, ${minutesBefore} min before, late: ${record?.is_late_cancellation}`);
+  }
+}
+
+// Oferece o horário cancelado para a lista de espera (falhas não afetam o cancelamento)
+async function offerSlotToWaitlist(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  appointment: { unit_id: string; barber_id: string | null; start_time: string; end_time: string }
+): Promise<boolean> {
+  if (!appointment.barber_id) return false;
+
+  try {
+    await expireWaitlistOffers(supabase, appointment.unit_id);
+    const result = await offerFreedSlot(supabase, {
+      unitId: appointment.unit_id,
+      barberId: appointment.barber_id,
+      startTime: appointment.start_time,
+      endTime: appointment.end_time,
+    });
+    return result.offered;
+  } catch (error) {
+    console.error('Erro ao oferecer horário para a lista de espera:', error);
+    return false;
   }
 }
 
@@ -1149,7 +1093,8 @@ async function handleCancel(supabase: any, body: any, corsHeaders: any) {
       .select(`
         *,
         barber:barbers(name),
-        service:services(name)
+        service:services(name),
+        services:appointment_services(service_name, position)
       `)
       .eq('id', appointmentId)
       .eq('unit_id', unit_id)
@@ -1183,17 +1128,20 @@ async function handleCancel(supabase: any, body: any, corsHeaders: any) {
       supabase,
       { ...fullAppointment, company_id: company_id || fullAppointment.company_id },
       fullAppointment.barber?.name || 'Desconhecido',
-      fullAppointment.service?.name || 'Serviço',
+      getAppointmentServicesLabel(fullAppointment),
       'whatsapp'
     );
 
     console.log('Appointment cancelled by ID:', cancelled[0]);
 
+    const waitlistOffered = await offerSlotToWaitlist(supabase, fullAppointment);
+
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Agendamento cancelado com sucesso!',
-        cancelled_appointment: cancelled[0]
+        cancelled_appointment: cancelled[0],
+        waitlist_offered: waitlistOffered
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1203,9 +1151,10 @@ async function handleCancel(supabase: any, body: any, corsHeaders: any) {
   let query = supabase
     .from('appointments')
     .select(`
-      id, client_name, client_phone, start_time, end_time, status, created_at, total_price, unit_id, company_id,
+      id, client_name, client_phone, start_time, end_time, status, created_at, total_price, unit_id, company_id, barber_id,
       barber:barbers(name),
-      service:services(name)
+      service:services(name),
+      services:appointment_services(service_name, position)
     `)
     .eq('unit_id', unit_id)
     .eq('client_phone', clientPhone)
@@ -1277,17 +1226,20 @@ async function handleCancel(supabase: any, body: any, corsHeaders: any) {
     supabase,
     { ...appointmentToCancel, company_id: company_id || appointmentToCancel.company_id },
     appointmentToCancel.barber?.name || 'Desconhecido',
-    appointmentToCancel.service?.name || 'Serviço',
+    getAppointmentServicesLabel(appointmentToCancel),
     'whatsapp'
   );
 
   console.log('Appointment cancelled:', cancelled[0]);
 
+  const waitlistOffered = await offerSlotToWaitlist(supabase, appointmentToCancel);
+
   return new Response(
     JSON.stringify({
       success: true,
       message: 'Agendamento cancelado com sucesso!',
-      cancelled_appointment: cancelled[0]
+      cancelled_appointment: cancelled[0],
+      waitlist_offered: waitlistOffered
     }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   );
@@ -1724,7 +1676,7 @@ async function handleCheckSlot(supabase: any, body: any, corsHeaders: any) {
   // Buscar barbeiro específico pelo nome (case-insensitive)
   const { data: barbers, error: barberError } = await supabase
     .from('barbers')
-    .select('id, name')
+    .select('id, name, lunch_break_enabled, lunch_break_start, lunch_break_end')
     .eq('unit_id', unit_id)
     .eq('is_active', true)
     .ilike('name', `%${professional}%`);
@@ -1754,6 +1706,30 @@ async function handleCheckSlot(supabase: any, body: any, corsHeaders: any) {
   const barber = barbers[0];
   console.log(`Barbeiro encontrado: ${barber.name} (ID: ${barber.id})`);
 
+  // Verificar expediente da unidade, jornada/ausências do barbeiro, intervalo e bloqueios
+  const unavailableReason = await getSlotUnavailabilityReason(supabase, {
+    unitId: unit_id,
+    date: dateOnly,
+    time: timeOnly.slice(0, 5),
+    barber,
+    durationMinutes: 30,
+    timezone,
+  });
+
+  if (unavailableReason) {
+    console.log(`SLOT INDISPONÍVEL: ${unavailableReason}`);
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        available: false, 
+        professional: barber.name,
+        datetime: localDateTime,
+        reason: unavailableReason
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
   // Converter horário local para UTC
   const slotStart = convertLocalToUTC(localDateTime, timezone);
   const slotEnd = new Date(slotStart.getTime() + 30 * 60 * 1000); // 30 min padrão
@@ -1799,6 +1775,29 @@ async function handleCheckSlot(supabase: any, body: any, corsHeaders: any) {
     );
   }
 
+  // Horário reservado para a lista de espera (liberado apenas para o cliente que recebeu a oferta)
+  const waitlistHolds = await getActiveWaitlistHolds(supabase, {
+    unitId: unit_id,
+    startUTC: slotStart.toISOString(),
+    endUTC: slotEnd.toISOString(),
+    barberId: barber.id,
+  });
+  const requesterPhone = body.telefone || body.client_phone || body.phone;
+
+  if (waitlistHolds.some((hold) => !isWaitlistHoldForPhone(hold, requesterPhone))) {
+    console.log(`SLOT RESERVADO: horário de ${barber.name} reservado para a lista de espera`);
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        available: false, 
+        professional: barber.name,
+        datetime: localDateTime,
+        reason: 'Horário reservado para um cliente da lista de espera'
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
   console.log(`SLOT DISPONÍVEL: ${barber.name} está livre às ${timeOnly}`);
   
   return new Response(
@@ -1844,7 +1843,12 @@ async function handleConfirmAppointment(supabase: any, body: any, corsHeaders: a
   
   const { data: appointment, error: appointmentError } = await supabase
     .from("appointments")
-    .select("*")
+    .select(`
+      *,
+      barber:barbers(name),
+      service:services(name),
+      services:appointment_services(service_name, position)
+    `)
     .or(uniqueVariants.map(p => `client_phone.eq.${p}`).join(","))
     .eq("status", "pending")
     .gte("start_time", now)
@@ -1934,6 +1938,17 @@ async function handleConfirmAppointment(supabase: any, body: any, corsHeaders: a
       );
     }
 
+    // Registra no histórico (a taxa de cancelamento tardio é aplicada pelos triggers)
+    await recordCancellationHistory(
+      supabase,
+      appointment,
+      appointment.barber?.name || 'Desconhecido',
+      getAppointmentServicesLabel(appointment),
+      'whatsapp'
+    );
+
+    await offerSlotToWaitlist(supabase, appointment);
+
     return new Response(
       JSON.stringify({ 
         success: true, 
@@ -2088,3 +2103,459 @@ async function handleAddDependent(supabase: any, body: any, corsHeaders: any) {
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   );
 }
+
+// Busca entradas ativas (aguardando ou com oferta) da lista de espera para um telefone
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function findActiveWaitlistEntries(supabase: any, unitId: string, phone: string) {
+  const normalizedPhone = normalizePhoneToStandard(phone);
+  const phonesToTry = [...new Set([normalizedPhone, phone, ...getPhoneVariations(normalizedPhone)])].filter(Boolean);
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select('id, client_name, client_phone, barber_id, service_id, desired_start_date, desired_end_date, status, offered_barber_id, offered_slot_start, offered_slot_end, offer_expires_at')
+    .eq('unit_id', unitId)
+    .in('client_phone', phonesToTry)
+    .in('status', ['waiting', 'offered'])
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching waitlist entries:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+// Handler para incluir cliente na lista de espera
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleWaitlistAdd(supabase: any, body: any, corsHeaders: any) {
+  const clientName = body.nome || body.client_name;
+  const rawPhone = body.telefone || body.client_phone;
+  const serviceName = body.servico || body.service;
+  const barberName = body.barbeiro_nome || body.professional || null;
+  const startDate = body.data_inicio || body.start_date || body.data || body.date;
+  const endDate = body.data_fim || body.end_date || startDate;
+  const notes = body.observacoes || body.notes || null;
+  const { unit_id, company_id } = body;
+
+  if (!clientName || !rawPhone || !serviceName || !startDate || !unit_id) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Campos obrigatórios: nome/client_name, telefone/client_phone, servico/service, data_inicio/start_date'
+      }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const nameValidation = validateStringLength(clientName, MAX_NAME_LENGTH, 'Nome');
+  const phoneValidation = validatePhone(rawPhone);
+  const notesValidation = validateStringLength(notes, MAX_NOTES_LENGTH, 'Observações');
+  const startDateValidation = validateDate(startDate);
+  const endDateValidation = validateDate(endDate);
+  const validationError = [nameValidation, phoneValidation, notesValidation, startDateValidation, endDateValidation]
+    .find((v) => !v.valid)?.error;
+
+  if (validationError) {
+    return new Response(
+      JSON.stringify({ success: false, error: validationError }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const desiredStartDate = startDate.split('T')[0];
+  const desiredEndDate = endDate.split('T')[0];
+
+  if (desiredEndDate < desiredStartDate) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'data_fim deve ser igual ou posterior a data_inicio' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const clientPhone = normalizePhoneToStandard(phoneValidation.normalized || rawPhone.replace(/\D/g, ''));
+
+  const { data: services, error: serviceError } = await supabase
+    .from('services')
+    .select('id, name')
+    .eq('unit_id', unit_id)
+    .eq('is_active', true)
+    .ilike('name', `%${sanitizeText(serviceName)}%`)
+    .limit(1);
+
+  if (serviceError || !services || services.length === 0) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Serviço "${serviceName}" não encontrado` }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  let barber: { id: string; name: string } | null = null;
+  if (barberName) {
+    const { data: barbers, error: barberError } = await supabase
+      .from('barbers')
+      .select('id, name')
+      .eq('unit_id', unit_id)
+      .eq('is_active', true)
+      .ilike('name', `%${sanitizeText(barberName)}%`)
+      .limit(1);
+
+    if (barberError || !barbers || barbers.length === 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Barbeiro "${barberName}" não encontrado` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    barber = barbers[0];
+  }
+
+  await expireWaitlistOffers(supabase, unit_id);
+
+  // Cliente já na lista: atualizar preferências em vez de duplicar
+  const existingEntries = await findActiveWaitlistEntries(supabase, unit_id, clientPhone);
+  const existingEntry = existingEntries?.find((entry: { status: string }) => entry.status === 'waiting');
+
+  const entryData = {
+    client_name: sanitizeText(clientName),
+    barber_id: barber?.id || null,
+    service_id: services[0].id,
+    desired_start_date: desiredStartDate,
+    desired_end_date: desiredEndDate,
+    notes: notes ? sanitizeText(notes) : null,
+  };
+
+  const { data: entry, error: saveError } = existingEntry
+    ? await supabase
+      .from('waitlist_entries')
+      .update(entryData)
+      .eq('id', existingEntry.id)
+      .select()
+      .single()
+    : await supabase
+      .from('waitlist_entries')
+      .insert({
+        ...entryData,
+        unit_id,
+        company_id: company_id || null,
+        client_phone: clientPhone,
+        source: 'whatsapp',
+      })
+      .select()
+      .single();
+
+  if (saveError) {
+    console.error('Error saving waitlist entry:', saveError);
+    return new Response(
+      JSON.stringify({ success: false, error: GENERIC_ERRORS.database }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  console.log(`Waitlist entry ${existingEntry ? 'updated' : 'created'}: ${entry.client_name} (${entry.id})`);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      already_exists: !!existingEntry,
+      waitlist_entry: {
+        id: entry.id,
+        client_name: entry.client_name,
+        client_phone: entry.client_phone,
+        service: services[0].name,
+        professional: barber?.name || null,
+        desired_start_date: entry.desired_start_date,
+        desired_end_date: entry.desired_end_date,
+        status: entry.status
+      },
+      message: existingEntry
+        ? 'Lista de espera atualizada. Avisaremos pelo WhatsApp quando abrir um horário.'
+        : 'Cliente incluído na lista de espera. Avisaremos pelo WhatsApp quando abrir um horário.'
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Handler para aceitar o horário oferecido pela lista de espera (cria o agendamento)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleWaitlistAccept(supabase: any, body: any, corsHeaders: any) {
+  const rawPhone = body.telefone || body.client_phone || body.phone;
+  const { unit_id, unit_timezone } = body;
+
+  if (!rawPhone || !unit_id) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'telefone/client_phone é obrigatório' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  await expireWaitlistOffers(supabase, unit_id);
+
+  const entries = await findActiveWaitlistEntries(supabase, unit_id, rawPhone.replace(/\D/g, ''));
+  const offer = entries?.find((entry: { status: string }) => entry.status === 'offered');
+
+  if (!offer) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Nenhuma oferta ativa da lista de espera para este telefone. A reserva pode ter expirado.'
+      }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const [{ data: barber }, { data: service }] = await Promise.all([
+    supabase.from('barbers').select('name').eq('id', offer.offered_barber_id).maybeSingle(),
+    offer.service_id
+      ? supabase.from('services').select('name').eq('id', offer.service_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const serviceName = service?.name || body.servico || body.service;
+  if (!barber || !serviceName) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Informe o serviço (servico/service) para confirmar o horário' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  console.log(`Aceitando oferta da lista de espera: ${offer.client_name} às ${offer.offered_slot_start}`);
+
+  // Reaproveita o fluxo de criação (validações, cliente, confirmação via WhatsApp e baixa da reserva)
+  return await handleCreate(supabase, {
+    ...body,
+    nome: offer.client_name,
+    telefone: offer.client_phone,
+    barbeiro_nome: barber.name,
+    servico: serviceName,
+    servicos: undefined,
+    services: undefined,
+    data: toLocalDateTimeInput(new Date(offer.offered_slot_start), unit_timezone || 'America/Sao_Paulo'),
+  }, corsHeaders);
+}
+
+// Handler para retirar cliente da lista de espera (também usado para recusar uma oferta)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleWaitlistRemove(supabase: any, body: any, corsHeaders: any) {
+  const rawPhone = body.telefone || body.client_phone || body.phone;
+  const { unit_id } = body;
+
+  if (!rawPhone || !unit_id) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'telefone/client_phone é obrigatório' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const entries = await findActiveWaitlistEntries(supabase, unit_id, rawPhone.replace(/\D/g, ''));
+
+  if (!entries || entries.length === 0) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Telefone não está na lista de espera' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { error: updateError } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'cancelled', offer_expires_at: null })
+    .in('id', entries.map((entry: { id: string }) => entry.id));
+
+  if (updateError) {
+    console.error('Error removing waitlist entries:', updateError);
+    return new Response(
+      JSON.stringify({ success: false, error: GENERIC_ERRORS.database }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Oferta recusada: o horário segue para o próximo da lista
+  for (const entry of entries) {
+    if (entry.status !== 'offered' || !entry.offered_barber_id) continue;
+    await offerSlotToWaitlist(supabase, {
+      unit_id,
+      barber_id: entry.offered_barber_id,
+      start_time: entry.offered_slot_start,
+      end_time: entry.offered_slot_end,
+    });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      removed: entries.length,
+      message: 'Cliente removido da lista de espera'
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Respostas só são aceitas para pesquisas enviadas nos últimos dias
+const SURVEY_RESPONSE_WINDOW_DAYS = 7;
+
+const DEFAULT_NPS_FOLLOWUP_TEMPLATE =
+  'Olá {{nome}}, sentimos muito que sua experiência não tenha sido a esperada. Pode nos contar o que aconteceu? Queremos resolver.';
+
+// Envia a mensagem de follow-up ao detrator, se habilitada nas configurações do dono da empresa
+async function sendDetractorFollowUp(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  survey: { id: string; client_name: string; client_phone: string },
+  score: number,
+  companyId: string,
+  evolutionInstanceName: string,
+  evolutionApiKey: string
+) {
+  const { data: company } = await supabase
+    .from('companies')
+    .select('owner_user_id')
+    .eq('id', companyId)
+    .maybeSingle();
+
+  const { data: settings } = company
+    ? await supabase
+        .from('business_settings')
+        .select('nps_followup_enabled, nps_followup_template')
+        .eq('user_id', company.owner_user_id)
+        .maybeSingle()
+    : { data: null };
+
+  if (!settings?.nps_followup_enabled) return;
+
+  let phoneForMessage = survey.client_phone.replace(/\D/g, '');
+  if (!phoneForMessage.startsWith('55') && phoneForMessage.length <= 11) {
+    phoneForMessage = '55' + phoneForMessage;
+  }
+
+  const message = (settings.nps_followup_template || DEFAULT_NPS_FOLLOWUP_TEMPLATE)
+    .replace(/\{\{nome\}\}/gi, survey.client_name)
+    .replace(/\{\{nota\}\}/gi, String(score));
+
+  const evolutionApiUrl = Deno.env.get('EVOLUTION_API_URL') || 'https://api.evolution.barbersoft.com.br';
+
+  const res = await fetch(`${evolutionApiUrl}/message/sendText/${evolutionInstanceName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': evolutionApiKey,
+    },
+    body: JSON.stringify({
+      number: phoneForMessage,
+      text: message,
+    }),
+  });
+  console.log(`Follow-up de detrator enviado para ${phoneForMessage}: ${res.status}`);
+
+  if (res.ok) {
+    await supabase
+      .from('satisfaction_surveys')
+      .update({ follow_up_sent_at: new Date().toISOString() })
+      .eq('id', survey.id);
+  }
+}
+
+// Handler para registrar a resposta da pesquisa de satisfação (NPS) enviada após o atendimento
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleSurveyResponse(supabase: any, body: any, corsHeaders: any) {
+  const rawPhone = body.telefone || body.client_phone || body.phone;
+  const rawScore = body.nota ?? body.score;
+  const rawComment = body.comentario ?? body.comment;
+  const { unit_id, company_id, evolution_instance_name, evolution_api_key } = body;
+
+  if (!rawPhone || !unit_id) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'telefone/client_phone é obrigatório' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const score = typeof rawScore === 'string' && rawScore.trim() !== '' ? Number(rawScore.trim()) : rawScore;
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 10) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'nota/score deve ser um número inteiro de 0 a 10' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const comment = typeof rawComment === 'string' && rawComment.trim() ? rawComment.trim() : null;
+  const commentValidation = validateStringLength(comment, MAX_NOTES_LENGTH, 'comentario');
+  if (!commentValidation.valid) {
+    return new Response(
+      JSON.stringify({ success: false, error: commentValidation.error }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const phone = rawPhone.replace(/\D/g, '');
+  const normalizedPhone = normalizePhoneToStandard(phone);
+  const phonesToTry = [...new Set([normalizedPhone, phone, ...getPhoneVariations(normalizedPhone)])].filter(Boolean);
+  const since = new Date(Date.now() - SURVEY_RESPONSE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  // Pesquisa mais recente ainda sem resposta para este telefone
+  const { data: survey, error: surveyError } = await supabase
+    .from('satisfaction_surveys')
+    .select('id, client_name, client_phone')
+    .eq('unit_id', unit_id)
+    .in('client_phone', phonesToTry)
+    .eq('status', 'sent')
+    .gte('sent_at', since.toISOString())
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (surveyError) {
+    console.error('Error fetching satisfaction survey:', surveyError);
+    return new Response(
+      JSON.stringify({ success: false, error: GENERIC_ERRORS.database }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!survey) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Nenhuma pesquisa de satisfação pendente para este telefone' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { error: updateError } = await supabase
+    .from('satisfaction_surveys')
+    .update({ status: 'answered', score, comment, answered_at: new Date().toISOString() })
+    .eq('id', survey.id);
+
+  if (updateError) {
+    console.error('Error recording survey response:', updateError);
+    return new Response(
+      JSON.stringify({ success: false, error: GENERIC_ERRORS.database }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const category = score >= 9 ? 'promoter' : score >= 7 ? 'passive' : 'detractor';
+  console.log(`Pesquisa respondida por ${survey.client_name}: nota ${score} (${category})`);
+
+  // === FOLLOW-UP PARA DETRATORES (opcional, não-bloqueante) ===
+  // O envio roda em segundo plano; a entrega fica registrada em follow_up_sent_at
+  let followUpQueued = false;
+  if (category === 'detractor' && evolution_instance_name && evolution_api_key) {
+    const followUp = sendDetractorFollowUp(supabase, survey, score, company_id, evolution_instance_name, evolution_api_key)
+      .catch((err) => {
+        console.error('Erro ao enviar follow-up de detrator (não-crítico):', err instanceof Error ? err.message : err);
+      });
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(followUp);
+    }
+    followUpQueued = true;
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      survey_id: survey.id,
+      score,
+      category,
+      follow_up_queued: followUpQueued,
+      message: 'Resposta da pesquisa registrada'
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
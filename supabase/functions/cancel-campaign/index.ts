@@ -89,7 +89,8 @@ serve(async (req) => {
     }
 
     // Check if campaign can be canceled
-    if (campaign.status !== "processing" && campaign.status !== "pending") {
+    const cancelableStatuses = ["pending", "processing", "scheduled", "sending", "paused"];
+    if (!cancelableStatuses.includes(campaign.status)) {
       console.log(`Campaign ${campaign_id} is already ${campaign.status}, cannot cancel`);
       return new Response(
         JSON.stringify({ error: `Campanha já está ${campaign.status}, não pode ser cancelada` }),
@@ -165,7 +165,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         status: campaign.status,
-        should_continue: campaign.status === "processing",
+        should_continue: campaign.status === "sending" || campaign.status === "processing",
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,82 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { dispatchCampaignBatch } from "../_shared/campaigns.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+// Executado periodicamente (a cada 5 minutos, como appointment-reminders): inicia as campanhas
+// agendadas que chegaram na hora e envia o próximo lote das campanhas em andamento, respeitando
+// o limite por hora e o horário de silêncio de cada campanha. O agendador envia o header
+// x-cron-secret com o valor de CRON_SECRET.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // verify_jwt is off for the scheduler, so the caller proves itself with the shared cron secret
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("x-cron-secret") !== cronSecret) {
+    console.error("Invalid or missing cron secret");
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date().toISOString();
+
+    // Scheduled campaigns whose time has come start sending
+    const { data: started, error: startError } = await supabase
+      .from("marketing_campaigns")
+      .update({ status: "sending", started_at: now })
+      .eq("status", "scheduled")
+      .lte("scheduled_at", now)
+      .select("id");
+
+    if (startError) {
+      console.error("Error starting scheduled campaigns:", startError.message);
+    } else if (started && started.length > 0) {
+      console.log(`Started ${started.length} scheduled campaign(s)`);
+    }
+
+    const { data: campaigns, error: campaignsError } = await supabase
+      .from("marketing_campaigns")
+      .select("id")
+      .eq("status", "sending");
+
+    if (campaignsError) {
+      console.error("Error fetching sending campaigns:", campaignsError.message);
+      return new Response(
+        JSON.stringify({ error: "Erro ao buscar campanhas" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const results: Record<string, unknown>[] = [];
+    for (const campaign of campaigns || []) {
+      const result = await dispatchCampaignBatch(supabase, campaign.id);
+      results.push({ campaign_id: campaign.id, ...result });
+    }
+
+    const dispatched = results.reduce((sum, r) => sum + ((r.dispatched as number) || 0), 0);
+    console.log(`Dispatch run finished: ${results.length} campaign(s), ${dispatched} message(s) sent to n8n`);
+
+    return new Response(
+      JSON.stringify({ success: true, started: started?.length || 0, dispatched, results }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,122 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    // The account being linked is always the caller's own, taken from the JWT
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+
+    if (authError || !user) {
+      console.error("Auth error:", authError?.message);
+      return new Response(
+        JSON.stringify({ error: "Token inválido" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = user.id;
+    const { staffMemberId, inviteToken } = await req.json();
+
+    // Unlike barbers, staff accounts get access to client data, so the token is mandatory
+    if (!staffMemberId || !inviteToken) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields: staffMemberId, inviteToken" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Linking staff member ${staffMemberId} to user ${userId}`);
+
+    // Claim the invite in a single conditional update: of two concurrent redemptions only one matches
+    const { data: staffMember, error: claimError } = await supabaseAdmin
+      .from("staff_members")
+      .update({
+        user_id: userId,
+        invite_token: null // Clear the token after use
+      })
+      .eq("id", staffMemberId)
+      .eq("invite_token", inviteToken)
+      .eq("is_active", true)
+      .is("user_id", null)
+      .select("id, role")
+      .maybeSingle();
+
+    if (claimError) {
+      console.error("Error updating staff member:", claimError);
+      throw claimError;
+    }
+
+    if (!staffMember) {
+      console.error("Invalid invite token for staff member:", staffMemberId);
+      return new Response(
+        JSON.stringify({ error: "Token de convite inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Add staff role
+    const { error: roleError } = await supabaseAdmin
+      .from("user_roles")
+      .upsert(
+        { user_id: userId, role: staffMember.role },
+        { onConflict: "user_id,role" }
+      );
+
+    if (roleError) {
+      console.error("Error adding role:", roleError);
+      // Without the role the account would fall back to a guessed one; undo the link so the invite can be retried
+      await supabaseAdmin
+        .from("staff_members")
+        .update({ user_id: null, invite_token: inviteToken })
+        .eq("id", staffMemberId)
+        .eq("user_id", userId);
+
+      return new Response(
+        JSON.stringify({ error: "Erro ao definir o acesso da conta. Tente novamente." }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Successfully linked user ${userId} to staff member ${staffMemberId}`);
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error: unknown) {
+    console.error("Error in link-staff-account:", error);
+    const message = error instanceof Error ? error.message : "Internal server error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
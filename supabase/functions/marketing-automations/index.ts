@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCompanyEntitlements, hasFeature } from "../_shared/entitlements.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -40,8 +41,13 @@ interface BusinessSettings {
   rescue_automation_enabled: boolean;
   rescue_message_template: string;
   rescue_days_threshold: number;
+  birthday_segment_id: string | null;
+  rescue_segment_id: string | null;
   automation_send_hour: number;
   automation_send_minute: number;
+  nps_survey_enabled: boolean;
+  nps_survey_delay_hours: number;
+  nps_survey_template: string | null;
 }
 
 interface Client {
@@ -54,6 +60,72 @@ interface Client {
   company_id: string;
 }
 
+// Destinatário de uma mensagem (cliente cadastrado ou apenas o contato do agendamento)
+interface Recipient {
+  id: string | null;
+  name: string;
+  phone: string;
+}
+
+interface CompletedAppointment {
+  id: string;
+  unit_id: string;
+  barber_id: string | null;
+  client_name: string;
+  client_phone: string | null;
+  barber: { name: string } | null;
+}
+
+// Pesquisas e fluxos personalizados só enviam em horário comercial (Brasília)
+const SEND_START_HOUR = 8;
+const SEND_END_HOUR = 21;
+
+// Apenas agendamentos concluídos nas últimas 24h após o atraso configurado (evita pesquisar o histórico)
+const SURVEY_LOOKBACK_HOURS = 24;
+
+const DEFAULT_SURVEY_TEMPLATE =
+  "Olá {{nome}}! Obrigado pela visita à {{unidade}}. De 0 a 10, quanto você recomendaria o atendimento de {{profissional}} a um amigo? Responda com a nota e, se quiser, um comentário.";
+
+// Passo de um fluxo personalizado (automation_workflows.steps)
+interface WorkflowStep {
+  delay_hours: number;
+  message_template: string;
+  conditions?: {
+    // Encerra o fluxo se o cliente agendou depois de entrar nele
+    stop_if_booked?: boolean;
+    // Pula o passo (segue para o próximo) se o cliente visitou nos últimos N dias
+    skip_if_visited_within_days?: number;
+  };
+}
+
+interface Workflow {
+  id: string;
+  company_id: string;
+  name: string;
+  segment_id: string | null;
+  steps: WorkflowStep[];
+}
+
+interface WorkflowRun {
+  id: string;
+  workflow_id: string;
+  current_step: number;
+  enrolled_at: string;
+  client: {
+    id: string;
+    name: string;
+    phone: string;
+    unit_id: string;
+    marketing_opt_out: boolean | null;
+    last_visit_at: string | null;
+    total_visits: number | null;
+    available_courtesies: number | null;
+  } | null;
+}
+
+// Eventos dos últimos 2 dias são considerados a cada execução (a restrição única evita duplicar)
+const WORKFLOW_LOOKBACK_HOURS = 48;
+
 interface Unit {
   id: string;
   name: string;
@@ -101,28 +173,20 @@ Deno.serve(async (req) => {
     const { data: settingsList, error: settingsError } = await supabase
       .from("business_settings")
       .select("*")
-      .or("birthday_automation_enabled.eq.true,rescue_automation_enabled.eq.true");
+      .or("birthday_automation_enabled.eq.true,rescue_automation_enabled.eq.true,nps_survey_enabled.eq.true");
 
     if (settingsError) {
       console.error("Erro ao buscar configurações:", settingsError);
       throw settingsError;
     }
 
-    if (!settingsList || settingsList.length === 0) {
-      console.log("Nenhuma empresa com automações habilitadas");
-      return new Response(
-        JSON.stringify({ message: "Nenhuma empresa com automações habilitadas", sent: 0 }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    console.log(`Encontradas ${settingsList.length} empresas com automações`);
+    console.log(`Encontradas ${settingsList?.length ?? 0} empresas com automações`);
 
     let totalSent = 0;
     let totalSkipped = 0;
     const results: { client: string; type: string; status: string; error?: string }[] = [];
 
-    for (const settings of settingsList as BusinessSettings[]) {
+    for (const settings of (settingsList || []) as BusinessSettings[]) {
       const sendHour = settings.automation_send_hour ?? 10;
       const sendMinute = settings.automation_send_minute ?? 0;
 
@@ -132,13 +196,17 @@ Deno.serve(async (req) => {
       const configuredMinutes = sendHour * 60 + sendMinute;
       const currentMinutes = currentHour * 60 + currentMinute;
       const diffMinutes = Math.abs(configuredMinutes - currentMinutes);
+      const inSendWindow = diffMinutes <= 3;
 
-      if (diffMinutes > 3) {
+      // A pesquisa de satisfação roda a cada execução; aniversário e resgate só no horário configurado
+      if (!inSendWindow && !settings.nps_survey_enabled) {
         console.log(`Fora da janela de envio (diff=${diffMinutes}min), pulando`);
         continue;
       }
 
-      console.log(`Dentro da janela de envio (diff=${diffMinutes}min)`);
+      if (inSendWindow) {
+        console.log(`Dentro da janela de envio (diff=${diffMinutes}min)`);
+      }
 
       // Buscar company_id
       const { data: company, error: companyError } = await supabase
@@ -154,6 +222,48 @@ Deno.serve(async (req) => {
 
       console.log(`Empresa: ${company.name} (${company.id})`);
 
+      if (!(await isMarketingAllowed(supabase, company.id))) {
+        console.log("Plano sem automações de marketing, pulando");
+        continue;
+      }
+
+      // Buscar unidades com WhatsApp (incluindo evolution_api_key)
+      const { data: units, error: unitsError } = await supabase
+        .from("units")
+        .select("id, name, evolution_instance_name, evolution_api_key")
+        .eq("company_id", company.id)
+        .not("evolution_instance_name", "is", null)
+        .not("evolution_api_key", "is", null);
+
+      if (unitsError || !units || units.length === 0) {
+        console.log("Nenhuma unidade com WhatsApp configurado");
+        continue;
+      }
+
+      const unitMap = new Map(units.map((u: Unit) => [u.id, u]));
+
+      // === PESQUISA DE SATISFAÇÃO (NPS) ===
+      if (settings.nps_survey_enabled) {
+        if (currentHour >= SEND_START_HOUR && currentHour < SEND_END_HOUR) {
+          const surveyResults = await processSatisfactionSurveys(
+            supabase,
+            evolutionApiUrl,
+            settings,
+            company.id,
+            unitMap as Map<string, Unit>,
+            now
+          );
+          totalSent += surveyResults.filter((r) => r.status === "sent").length;
+          results.push(...surveyResults);
+        } else {
+          console.log("Fora do horário comercial, pesquisas de satisfação adiadas");
+        }
+      }
+
+      if (!inSendWindow || (!settings.birthday_automation_enabled && !settings.rescue_automation_enabled)) {
+        continue;
+      }
+
       // Buscar clientes da empresa (excluindo os que fizeram opt-out)
       const { data: clients, error: clientsError } = await supabase
         .from("clients")
@@ -173,20 +283,9 @@ Deno.serve(async (req) => {
 
       console.log(`Encontrados ${clients.length} clientes`);
 
-      // Buscar unidades com WhatsApp (incluindo evolution_api_key)
-      const { data: units, error: unitsError } = await supabase
-        .from("units")
-        .select("id, name, evolution_instance_name, evolution_api_key")
-        .eq("company_id", company.id)
-        .not("evolution_instance_name", "is", null)
-        .not("evolution_api_key", "is", null);
-
-      if (unitsError || !units || units.length === 0) {
-        console.log("Nenhuma unidade com WhatsApp configurado");
-        continue;
-      }
-
-      const unitMap = new Map(units.map((u: Unit) => [u.id, u]));
+      // Segmentos opcionais que restringem quem recebe cada automação (null = todos)
+      const birthdaySegment = await loadSegmentClientIds(supabase, company.id, settings.birthday_segment_id);
+      const rescueSegment = await loadSegmentClientIds(supabase, company.id, settings.rescue_segment_id);
       console.log(`Unidades com WhatsApp: ${units.map((u: Unit) => u.name).join(", ")}`);
 
       // Contar mensagens que serão enviadas para calcular delays adequados
@@ -205,7 +304,7 @@ Deno.serve(async (req) => {
         }
 
         // === ANIVERSÁRIO ===
-        if (settings.birthday_automation_enabled && client.birth_date) {
+        if (settings.birthday_automation_enabled && client.birth_date && (!birthdaySegment || birthdaySegment.has(client.id))) {
           const birthMMDD = client.birth_date.substring(5, 10); // "YYYY-MM-DD" -> "MM-DD"
           
           if (birthMMDD === todayMMDD) {
@@ -249,7 +348,7 @@ Deno.serve(async (req) => {
         }
 
         // === RESGATE ===
-        if (settings.rescue_automation_enabled && client.last_visit_at) {
+        if (settings.rescue_automation_enabled && client.last_visit_at && (!rescueSegment || rescueSegment.has(client.id))) {
           const rescueDays = settings.rescue_days_threshold || 30;
           const lastVisit = new Date(client.last_visit_at);
           const daysSinceVisit = Math.floor((now.getTime() - lastVisit.getTime()) / (1000 * 60 * 60 * 24));
@@ -299,6 +398,15 @@ Deno.serve(async (req) => {
       }
     }
 
+    // === FLUXOS PERSONALIZADOS ===
+    if (currentHour >= SEND_START_HOUR && currentHour < SEND_END_HOUR) {
+      const workflowResults = await processWorkflows(supabase, evolutionApiUrl, now);
+      totalSent += workflowResults.filter((r) => r.status === "sent").length;
+      results.push(...workflowResults);
+    } else {
+      console.log("Fora do horário comercial, fluxos personalizados adiados");
+    }
+
     console.log(`\n=== RESUMO: ${totalSent} enviados, ${totalSkipped} já enviados anteriormente ===`);
 
     return new Response(
@@ -320,15 +428,401 @@ Deno.serve(async (req) => {
   }
 });
 
+// Aniversário, resgate, pesquisa de satisfação e fluxos fazem parte de plan_features.marketing_automations.
+// Erro ao consultar o plano não envia nada: a próxima execução tenta de novo.
+async function isMarketingAllowed(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  companyId: string
+): Promise<boolean> {
+  try {
+    const entitlements = await getCompanyEntitlements(supabase, companyId);
+    return hasFeature(entitlements, "marketing_automations");
+  } catch {
+    return false;
+  }
+}
+
+const SEGMENT_PAGE_SIZE = 1000;
+
+async function loadSegmentClientIds(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  companyId: string,
+  segmentId: string | null
+): Promise<Set<string> | null> {
+  if (!segmentId) return null;
+
+  const { data: segment } = await supabase
+    .from("client_segments")
+    .select("unit_id, rules")
+    .eq("id", segmentId)
+    .eq("company_id", companyId)
+    .maybeSingle();
+
+  if (!segment) {
+    console.log(`Segmento ${segmentId} não encontrado, considerando todos os clientes`);
+    return null;
+  }
+
+  // A API devolve no máximo 1000 linhas por chamada
+  const ids = new Set<string>();
+  for (let from = 0; ; from += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc("get_segment_client_ids", {
+        p_company_id: companyId,
+        p_rules: segment.rules,
+        ...(segment.unit_id ? { p_unit_id: segment.unit_id } : {}),
+      })
+      .range(from, from + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Erro ao avaliar segmento:", error);
+      // Nunca enviar para fora do público escolhido
+      return new Set();
+    }
+
+    for (const id of (data || []) as string[]) ids.add(id);
+    if (!data || data.length < SEGMENT_PAGE_SIZE) break;
+  }
+
+  return ids;
+}
+
+async function processSatisfactionSurveys(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  evolutionApiUrl: string,
+  settings: BusinessSettings,
+  companyId: string,
+  unitMap: Map<string, Unit>,
+  now: Date
+): Promise<{ client: string; type: string; status: string; error?: string }[]> {
+  const results: { client: string; type: string; status: string; error?: string }[] = [];
+  const delayHours = settings.nps_survey_delay_hours ?? 2;
+  const windowEnd = new Date(now.getTime() - delayHours * 60 * 60 * 1000);
+  const windowStart = new Date(windowEnd.getTime() - SURVEY_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  const { data: appointments, error: appointmentsError } = await supabase
+    .from("appointments")
+    .select("id, unit_id, barber_id, client_name, client_phone, barber:barbers(name)")
+    .in("unit_id", Array.from(unitMap.keys()))
+    .eq("status", "completed")
+    .gte("completed_at", windowStart.toISOString())
+    .lte("completed_at", windowEnd.toISOString());
+
+  if (appointmentsError) {
+    console.error("Erro ao buscar atendimentos concluídos:", appointmentsError);
+    return results;
+  }
+
+  const candidates = ((appointments || []) as CompletedAppointment[]).filter((a) => a.client_phone);
+  if (candidates.length === 0) return results;
+
+  // Uma pesquisa por atendimento
+  const { data: existingSurveys } = await supabase
+    .from("satisfaction_surveys")
+    .select("appointment_id")
+    .in("appointment_id", candidates.map((a) => a.id));
+  const surveyed = new Set((existingSurveys || []).map((s: { appointment_id: string }) => s.appointment_id));
+
+  // Vincular ao cadastro do cliente (mesma unidade e telefone) e respeitar opt-out
+  const { data: clients } = await supabase
+    .from("clients")
+    .select("id, unit_id, phone, marketing_opt_out")
+    .eq("company_id", companyId)
+    .in("phone", candidates.map((a) => a.client_phone));
+  const clientMap = new Map(
+    (clients || []).map((c: { id: string; unit_id: string; phone: string; marketing_opt_out: boolean | null }) => [
+      `${c.unit_id}:${c.phone}`,
+      c,
+    ])
+  );
+
+  const pending = candidates.filter((a) => {
+    if (surveyed.has(a.id)) return false;
+    const client = clientMap.get(`${a.unit_id}:${a.client_phone}`);
+    return !client?.marketing_opt_out;
+  });
+
+  console.log(`⭐ ${pending.length} pesquisas de satisfação a enviar`);
+  totalMessagesToSend = pending.length;
+  globalMessageIndex = 0;
+
+  for (const appointment of pending) {
+    const unit = unitMap.get(appointment.unit_id)!;
+    const client = clientMap.get(`${appointment.unit_id}:${appointment.client_phone}`);
+
+    // Registrar antes de enviar: a restrição única em appointment_id impede envio duplicado
+    const { data: survey, error: surveyError } = await supabase
+      .from("satisfaction_surveys")
+      .insert({
+        company_id: companyId,
+        unit_id: appointment.unit_id,
+        appointment_id: appointment.id,
+        barber_id: appointment.barber_id,
+        client_id: client?.id ?? null,
+        client_name: appointment.client_name,
+        client_phone: appointment.client_phone,
+      })
+      .select("id")
+      .single();
+
+    if (surveyError || !survey) {
+      console.log(`Pesquisa já registrada para o agendamento ${appointment.id}, pulando`);
+      continue;
+    }
+
+    const message = (settings.nps_survey_template || DEFAULT_SURVEY_TEMPLATE)
+      .replace(/\{\{nome\}\}/gi, appointment.client_name)
+      .replace(/\{\{name\}\}/gi, appointment.client_name)
+      .replace(/\{\{profissional\}\}/gi, appointment.barber?.name || "nossa equipe")
+      .replace(/\{\{unidade\}\}/gi, unit.name);
+
+    const sent = await sendWhatsAppMessage(
+      evolutionApiUrl,
+      unit,
+      { id: client?.id ?? null, name: appointment.client_name, phone: appointment.client_phone! },
+      message,
+      "nps_survey",
+      companyId,
+      supabase,
+      { appointmentId: appointment.id }
+    );
+
+    if (!sent) {
+      await supabase.from("satisfaction_surveys").update({ status: "failed" }).eq("id", survey.id);
+    }
+
+    results.push({ client: appointment.client_name, type: "nps_survey", status: sent ? "sent" : "failed" });
+  }
+
+  return results;
+}
+
+async function processWorkflows(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  evolutionApiUrl: string,
+  now: Date
+): Promise<{ client: string; type: string; status: string; error?: string }[]> {
+  const results: { client: string; type: string; status: string; error?: string }[] = [];
+
+  const { data: workflows, error: workflowsError } = await supabase
+    .from("automation_workflows")
+    .select("id, company_id, name, segment_id, steps")
+    .eq("is_active", true);
+
+  if (workflowsError) {
+    console.error("Erro ao buscar fluxos personalizados:", workflowsError);
+    return results;
+  }
+
+  const activeWorkflows = ((workflows || []) as Workflow[]).filter((w) => Array.isArray(w.steps) && w.steps.length > 0);
+  const companyIds = [...new Set(activeWorkflows.map((w) => w.company_id))];
+
+  for (const companyId of companyIds) {
+    if (!(await isMarketingAllowed(supabase, companyId))) {
+      console.log(`Plano da empresa ${companyId} sem automações de marketing, fluxos ignorados`);
+      continue;
+    }
+
+    const companyWorkflows = activeWorkflows.filter((w) => w.company_id === companyId);
+    const workflowMap = new Map(companyWorkflows.map((w) => [w.id, w]));
+    console.log(`\n--- Fluxos personalizados da empresa ${companyId}: ${companyWorkflows.length} ativos ---`);
+
+    const { data: units } = await supabase
+      .from("units")
+      .select("id, name, evolution_instance_name, evolution_api_key")
+      .eq("company_id", companyId)
+      .not("evolution_instance_name", "is", null)
+      .not("evolution_api_key", "is", null);
+
+    if (!units || units.length === 0) {
+      console.log("Nenhuma unidade com WhatsApp configurado");
+      continue;
+    }
+
+    const unitMap = new Map(units.map((u: Unit) => [u.id, u]));
+
+    // 1. Inscrever clientes que dispararam algum fluxo
+    const since = new Date(now.getTime() - WORKFLOW_LOOKBACK_HOURS * 60 * 60 * 1000);
+    const { data: events, error: eventsError } = await supabase.rpc("get_workflow_trigger_events", {
+      p_company_id: companyId,
+      p_since: since.toISOString(),
+    });
+
+    if (eventsError) {
+      console.error("Erro ao buscar gatilhos dos fluxos:", eventsError);
+    } else if (events && events.length > 0) {
+      const segments = new Map<string, Set<string> | null>();
+      for (const workflow of companyWorkflows) {
+        segments.set(workflow.id, await loadSegmentClientIds(supabase, companyId, workflow.segment_id));
+      }
+
+      const enrollments = (events as { workflow_id: string; client_id: string; trigger_key: string }[])
+        .filter((e) => {
+          const segment = segments.get(e.workflow_id);
+          return workflowMap.has(e.workflow_id) && (!segment || segment.has(e.client_id));
+        })
+        .map((e) => ({
+          workflow_id: e.workflow_id,
+          company_id: companyId,
+          client_id: e.client_id,
+          trigger_key: e.trigger_key,
+          next_run_at: new Date(
+            now.getTime() + (workflowMap.get(e.workflow_id)!.steps[0].delay_hours || 0) * 60 * 60 * 1000
+          ).toISOString(),
+        }));
+
+      if (enrollments.length > 0) {
+        const { error: enrollError } = await supabase
+          .from("automation_workflow_runs")
+          .upsert(enrollments, { onConflict: "workflow_id,trigger_key", ignoreDuplicates: true });
+
+        if (enrollError) {
+          console.error("Erro ao inscrever clientes nos fluxos:", enrollError);
+        }
+      }
+    }
+
+    // 2. Executar os passos que venceram
+    const { data: dueRuns, error: runsError } = await supabase
+      .from("automation_workflow_runs")
+      .select("id, workflow_id, current_step, enrolled_at, client:clients(id, name, phone, unit_id, marketing_opt_out, last_visit_at, total_visits, available_courtesies)")
+      .in("workflow_id", Array.from(workflowMap.keys()))
+      .eq("status", "active")
+      .lte("next_run_at", now.toISOString())
+      .order("next_run_at", { ascending: true });
+
+    if (runsError) {
+      console.error("Erro ao buscar execuções dos fluxos:", runsError);
+      continue;
+    }
+
+    const runs = (dueRuns || []) as WorkflowRun[];
+    console.log(`🔁 ${runs.length} passos de fluxos a executar`);
+    totalMessagesToSend = runs.length;
+    globalMessageIndex = 0;
+
+    for (const run of runs) {
+      const workflow = workflowMap.get(run.workflow_id)!;
+      const step = workflow.steps[run.current_step];
+      const client = run.client;
+
+      const finish = (status: "completed" | "exited", exitReason: string | null = null) =>
+        supabase.from("automation_workflow_runs").update({ status, exit_reason: exitReason }).eq("id", run.id);
+
+      // Passos removidos ao editar o fluxo encerram a execução
+      if (!step) {
+        await finish("completed");
+        continue;
+      }
+
+      // Avançar o passo antes de enviar (como na pesquisa de satisfação): só a execução que
+      // fizer a atualização condicional envia, então rodadas sobrepostas do cron não duplicam
+      const nextStep = workflow.steps[run.current_step + 1];
+      const { data: claimed, error: claimError } = await supabase
+        .from("automation_workflow_runs")
+        .update(
+          nextStep
+            ? {
+                current_step: run.current_step + 1,
+                next_run_at: new Date(now.getTime() + (nextStep.delay_hours || 0) * 60 * 60 * 1000).toISOString(),
+              }
+            : { current_step: run.current_step + 1, status: "completed" }
+        )
+        .eq("id", run.id)
+        .eq("status", "active")
+        .eq("current_step", run.current_step)
+        .select("id");
+
+      if (claimError) {
+        console.error(`Erro ao avançar execução ${run.id} do fluxo "${workflow.name}":`, claimError);
+        continue;
+      }
+
+      if (!claimed || claimed.length === 0) {
+        console.log(`Passo ${run.current_step + 1} do fluxo "${workflow.name}" já processado, pulando`);
+        continue;
+      }
+
+      if (!client || client.marketing_opt_out) {
+        await finish("exited", "opt_out");
+        continue;
+      }
+
+      const unit = unitMap.get(client.unit_id) as Unit | undefined;
+      if (!unit || !client.phone) {
+        await finish("exited", "no_whatsapp");
+        continue;
+      }
+
+      if (step.conditions?.stop_if_booked) {
+        const { count } = await supabase
+          .from("appointments")
+          .select("id", { count: "exact", head: true })
+          .eq("unit_id", client.unit_id)
+          .eq("client_phone", client.phone)
+          .neq("status", "cancelled")
+          .gt("created_at", run.enrolled_at);
+
+        if (count && count > 0) {
+          console.log(`${client.name} agendou, saindo do fluxo "${workflow.name}"`);
+          await finish("exited", "booked");
+          continue;
+        }
+      }
+
+      const skipDays = step.conditions?.skip_if_visited_within_days;
+      const visitedRecently =
+        skipDays !== undefined &&
+        client.last_visit_at !== null &&
+        now.getTime() - new Date(client.last_visit_at).getTime() < skipDays * 24 * 60 * 60 * 1000;
+
+      if (visitedRecently) {
+        console.log(`${client.name} visitou recentemente, pulando passo ${run.current_step + 1} do fluxo "${workflow.name}"`);
+      } else {
+        console.log(`🔁 Fluxo "${workflow.name}" passo ${run.current_step + 1} para ${client.name}`);
+
+        const message = step.message_template
+          .replace(/\{\{nome\}\}/gi, client.name)
+          .replace(/\{\{name\}\}/gi, client.name)
+          .replace(/\{\{unidade\}\}/gi, unit.name)
+          .replace(/\{\{visitas\}\}/gi, String(client.total_visits ?? 0))
+          .replace(/\{\{cortesias\}\}/gi, String(client.available_courtesies ?? 0));
+
+        const sent = await sendWhatsAppMessage(
+          evolutionApiUrl,
+          unit,
+          client,
+          message,
+          "workflow",
+          companyId,
+          supabase,
+          { workflowId: workflow.id }
+        );
+
+        // Falhas de envio não são repetidas: o passo já foi avançado acima
+        results.push({ client: client.name, type: `workflow:${workflow.name}`, status: sent ? "sent" : "failed" });
+      }
+
+    }
+  }
+
+  return results;
+}
+
 async function sendWhatsAppMessage(
   evolutionApiUrl: string,
   unit: Unit,
-  client: Client,
+  client: Recipient,
   message: string,
   automationType: string,
   companyId: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  supabase: any
+  supabase: any,
+  refs: { appointmentId?: string; workflowId?: string } = {}
 ): Promise<boolean> {
   try {
     // Delay humanizado antes de enviar (exceto para o primeiro)
@@ -373,6 +867,8 @@ async function sendWhatsAppMessage(
       await supabase.from("automation_logs").insert({
         company_id: companyId,
         client_id: client.id,
+        appointment_id: refs.appointmentId ?? null,
+        workflow_id: refs.workflowId ?? null,
         automation_type: automationType,
         status: "sent",
         sent_at: new Date().toISOString(),
@@ -385,6 +881,8 @@ async function sendWhatsAppMessage(
       await supabase.from("automation_logs").insert({
         company_id: companyId,
         client_id: client.id,
+        appointment_id: refs.appointmentId ?? null,
+        workflow_id: refs.workflowId ?? null,
         automation_type: automationType,
         status: "failed",
         error_message: JSON.stringify(responseData),
@@ -400,6 +898,8 @@ async function sendWhatsAppMessage(
     await supabase.from("automation_logs").insert({
       company_id: companyId,
       client_id: client.id,
+      appointment_id: refs.appointmentId ?? null,
+      workflow_id: refs.workflowId ?? null,
       automation_type: automationType,
       status: "failed",
       error_message: errorMessage,
@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { dispatchCampaignBatch } from "../_shared/campaigns.ts";
+import { getCompanyEntitlements, hasFeature } from "../_shared/entitlements.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Pausa ou retoma uma campanha. Ao pausar, o n8n interrompe o lote atual na próxima consulta a
+// check-campaign-status; ao retomar, as mensagens que ele deixou pendentes voltam para a fila e o
+// próximo lote é enviado na hora (respeitando limite por hora e horário de silêncio).
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    // Get JWT from Authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header");
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client with user JWT to verify ownership
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError?.message);
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse request body
+    const { campaign_id, action } = await req.json();
+
+    if (!campaign_id || (action !== "pause" && action !== "resume")) {
+      return new Response(
+        JSON.stringify({ error: "campaign_id e action (pause/resume) são obrigatórios" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`User ${user.id} requesting to ${action} campaign ${campaign_id}`);
+
+    // Use service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Fetch campaign and verify ownership
+    const { data: campaign, error: campaignError } = await supabase
+      .from("marketing_campaigns")
+      .select("id, company_id, status, scheduled_at, started_at, paused_at")
+      .eq("id", campaign_id)
+      .single();
+
+    if (campaignError || !campaign) {
+      console.error("Campaign not found:", campaignError?.message);
+      return new Response(
+        JSON.stringify({ error: "Campanha não encontrada" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify user owns the company
+    const { data: company, error: companyError } = await supabase
+      .from("companies")
+      .select("id")
+      .eq("id", campaign.company_id)
+      .eq("owner_user_id", user.id)
+      .single();
+
+    if (companyError || !company) {
+      console.error("User doesn't own this campaign's company");
+      return new Response(
+        JSON.stringify({ error: "Não autorizado a alterar esta campanha" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "pause") {
+      if (!["scheduled", "sending", "processing"].includes(campaign.status)) {
+        return new Response(
+          JSON.stringify({ error: `Campanha está ${campaign.status}, não pode ser pausada` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: updateError } = await supabase
+        .from("marketing_campaigns")
+        .update({ status: "paused", paused_at: new Date().toISOString() })
+        .eq("id", campaign_id);
+
+      if (updateError) {
+        console.error("Error pausing campaign:", updateError.message);
+        return new Response(
+          JSON.stringify({ error: "Falha ao pausar campanha" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Messages already handed to n8n stay reserved: n8n may still be sending the current one and
+      // only stops when check-campaign-status reports the pause. They are requeued on resume.
+      console.log(`Campaign ${campaign_id} paused`);
+
+      return new Response(
+        JSON.stringify({ success: true, status: "paused", message: "Campanha pausada" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (campaign.status !== "paused") {
+      return new Response(
+        JSON.stringify({ error: `Campanha está ${campaign.status}, não pode ser retomada` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Campaigns are a paid feature (plan_features.marketing_automations)
+    const entitlements = await getCompanyEntitlements(supabase, campaign.company_id);
+    if (!hasFeature(entitlements, "marketing_automations")) {
+      return new Response(
+        JSON.stringify({ error: "Campanhas não estão disponíveis no seu plano. Faça upgrade em Assinatura." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A campaign paused before its scheduled time goes back to waiting for it
+    const stillScheduled = !campaign.started_at && campaign.scheduled_at && new Date(campaign.scheduled_at) > new Date();
+    const nextStatus = stillScheduled ? "scheduled" : "sending";
+
+    const { error: updateError } = await supabase
+      .from("marketing_campaigns")
+      .update({
+        status: nextStatus,
+        paused_at: null,
+        ...(nextStatus === "sending" && !campaign.started_at ? { started_at: new Date().toISOString() } : {}),
+      })
+      .eq("id", campaign_id);
+
+    if (updateError) {
+      console.error("Error resuming campaign:", updateError.message);
+      return new Response(
+        JSON.stringify({ error: "Falha ao retomar campanha" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Messages n8n left unsent when it saw the pause go back to the queue
+    if (campaign.paused_at) {
+      const { error: logsError } = await supabase
+        .from("campaign_message_logs")
+        .update({ dispatched_at: null })
+        .eq("campaign_id", campaign_id)
+        .eq("status", "pending")
+        .lte("dispatched_at", campaign.paused_at);
+
+      if (logsError) {
+        console.error("Error requeueing message logs:", logsError.message);
+      }
+    }
+
+    let dispatched = 0;
+    if (nextStatus === "sending") {
+      const result = await dispatchCampaignBatch(supabase, campaign_id);
+      dispatched = result.dispatched;
+    }
+
+    console.log(`Campaign ${campaign_id} resumed as ${nextStatus}, ${dispatched} message(s) dispatched`);
+
+    return new Response(
+      JSON.stringify({ success: true, status: nextStatus, message: "Campanha retomada" }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
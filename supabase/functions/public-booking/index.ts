@@ -0,0 +1,378 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAvailableSlots, getLocalNow } from "../_shared/availability.ts";
+import { getPhoneVariations, normalizePhoneToStandard } from "../_shared/phone.ts";
+import { verifyRecaptchaToken } from "../_shared/recaptcha.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DAYS_AHEAD = 60;
+
+// Generic error messages to prevent information leakage
+const GENERIC_ERRORS = {
+  notFound: "Página de agendamento não encontrada",
+  badRequest: "Dados inválidos",
+  unavailable: "Este horário acabou de ser ocupado. Escolha outro horário.",
+  rateLimited: "Muitas tentativas de agendamento. Tente novamente mais tarde.",
+  recaptcha: "Verificação de segurança falhou. Tente novamente.",
+  internal: "Erro ao processar agendamento",
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+function isValidUUID(str: unknown): str is string {
+  return typeof str === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(str);
+}
+
+function isValidDate(str: unknown): str is string {
+  return typeof str === "string" && /^\d{4}-\d{2}-\d{2}$/.test(str);
+}
+
+// Only today up to MAX_DAYS_AHEAD days ahead (in the unit's timezone) can be booked online
+function isBookableDate(date: string, timezone: string): boolean {
+  const today = getLocalNow(timezone).date;
+  const diffDays = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86400000;
+  return diffDays >= 0 && diffDays <= MAX_DAYS_AHEAD;
+}
+
+function getClientIp(req: Request): string {
+  return req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    req.headers.get("x-real-ip") ||
+    "unknown";
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const body = await req.json();
+    const { action, slug } = body;
+
+    if (!slug || typeof slug !== "string" || slug.length > 100) {
+      return jsonResponse({ success: false, error: GENERIC_ERRORS.badRequest }, 400);
+    }
+
+    console.log(`Public booking action: ${action}, slug: ${slug}`);
+
+    // Resolve unit by public slug (service role bypasses RLS, so only public fields are returned)
+    const { data: unit, error: unitError } = await supabaseAdmin
+      .from("units")
+      .select("id, company_id, name, address, phone, timezone, whatsapp_picture_url, online_booking_enabled")
+      .eq("booking_slug", slug.toLowerCase())
+      .maybeSingle();
+
+    if (unitError) {
+      console.error("Error fetching unit:", unitError);
+      return jsonResponse({ success: false, error: GENERIC_ERRORS.internal }, 500);
+    }
+
+    if (!unit || !unit.online_booking_enabled) {
+      return jsonResponse({ success: false, error: GENERIC_ERRORS.notFound }, 404);
+    }
+
+    const timezone = unit.timezone || "America/Sao_Paulo";
+
+    switch (action) {
+      case "get_unit":
+        return await handleGetUnit(supabaseAdmin, unit);
+      case "check_availability":
+        return await handleCheckAvailability(supabaseAdmin, unit, timezone, body);
+      case "book":
+        return await handleBook(supabaseAdmin, unit, timezone, body, getClientIp(req));
+      default:
+        return jsonResponse({ success: false, error: "Ação inválida. Actions válidas: get_unit, check_availability, book" }, 400);
+    }
+  } catch (error: unknown) {
+    console.error("Error in public-booking:", error);
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.internal }, 500);
+  }
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SupabaseAdmin = any;
+
+interface PublicUnit {
+  id: string;
+  company_id: string | null;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  timezone: string | null;
+  whatsapp_picture_url: string | null;
+}
+
+async function fetchActiveBarbers(supabase: SupabaseAdmin, unitId: string, barberId?: string | null) {
+  let query = supabase
+    .from("barbers")
+    .select("id, name, photo_url, lunch_break_enabled, lunch_break_start, lunch_break_end")
+    .eq("unit_id", unitId)
+    .eq("is_active", true)
+    .order("name");
+
+  if (barberId) {
+    query = query.eq("id", barberId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error fetching barbers:", error);
+    return null;
+  }
+  return data || [];
+}
+
+async function fetchActiveService(supabase: SupabaseAdmin, unitId: string, serviceId: string) {
+  const { data, error } = await supabase
+    .from("services")
+    .select("id, name, price, duration_minutes")
+    .eq("unit_id", unitId)
+    .eq("id", serviceId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching service:", error);
+  }
+  return data;
+}
+
+async function handleGetUnit(supabase: SupabaseAdmin, unit: PublicUnit) {
+  const { data: services, error: servicesError } = await supabase
+    .from("services")
+    .select("id, name, price, duration_minutes")
+    .eq("unit_id", unit.id)
+    .eq("is_active", true)
+    .order("name");
+
+  if (servicesError) {
+    console.error("Error fetching services:", servicesError);
+  }
+
+  const barbers = await fetchActiveBarbers(supabase, unit.id);
+
+  return jsonResponse({
+    success: true,
+    unit: {
+      name: unit.name,
+      address: unit.address,
+      phone: unit.phone,
+      timezone: unit.timezone || "America/Sao_Paulo",
+      picture_url: unit.whatsapp_picture_url,
+    },
+    services: services || [],
+    barbers: (barbers || []).map((b: { id: string; name: string; photo_url: string | null }) => ({
+      id: b.id,
+      name: b.name,
+      photo_url: b.photo_url,
+    })),
+    max_days_ahead: MAX_DAYS_AHEAD,
+  });
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleCheckAvailability(supabase: SupabaseAdmin, unit: PublicUnit, timezone: string, body: any) {
+  const { date, service_id, barber_id } = body;
+
+  if (!isValidDate(date) || !isValidUUID(service_id) || (barber_id && !isValidUUID(barber_id))) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.badRequest }, 400);
+  }
+
+  if (!isBookableDate(date, timezone)) {
+    return jsonResponse({ success: true, date, closed: true, message: "Data fora do período de agendamento online", slots: [] });
+  }
+
+  const service = await fetchActiveService(supabase, unit.id, service_id);
+  if (!service) {
+    return jsonResponse({ success: false, error: "Serviço não encontrado" }, 404);
+  }
+
+  const barbers = await fetchActiveBarbers(supabase, unit.id, barber_id);
+  if (!barbers) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.internal }, 500);
+  }
+
+  const availability = await getAvailableSlots(supabase, {
+    unitId: unit.id,
+    date,
+    timezone,
+    barbers,
+    durationMinutes: service.duration_minutes,
+  });
+
+  return jsonResponse({
+    success: true,
+    date,
+    closed: availability.closed,
+    message: availability.reason,
+    slots: availability.slots.map(slot => ({
+      time: slot.time,
+      barber_id: slot.barber_id,
+      barber_name: slot.barber_name,
+    })),
+  });
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handleBook(supabase: SupabaseAdmin, unit: PublicUnit, timezone: string, body: any, clientIp: string) {
+  const { date, time, service_id, barber_id, recaptcha_token } = body;
+  const clientName = typeof body.client_name === "string" ? body.client_name.replace(/\0/g, "").trim() : "";
+  const phoneDigits = typeof body.client_phone === "string" ? body.client_phone.replace(/\D/g, "") : "";
+
+  if (
+    !isValidDate(date) ||
+    typeof time !== "string" || !/^\d{2}:\d{2}$/.test(time) ||
+    !isValidUUID(service_id) ||
+    (barber_id && !isValidUUID(barber_id))
+  ) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.badRequest }, 400);
+  }
+
+  if (!clientName || clientName.length > MAX_NAME_LENGTH) {
+    return jsonResponse({ success: false, error: "Informe seu nome" }, 400);
+  }
+
+  if (phoneDigits.length < 10 || phoneDigits.length > 13) {
+    return jsonResponse({ success: false, error: "Telefone deve ter entre 10 e 13 dígitos" }, 400);
+  }
+
+  if (!isBookableDate(date, timezone)) {
+    return jsonResponse({ success: false, error: "Data fora do período de agendamento online" }, 400);
+  }
+
+  const normalizedPhone = normalizePhoneToStandard(phoneDigits);
+
+  // Rate limit before the captcha so a flood of requests doesn't hit Google's API
+  const { data: withinLimit, error: rateLimitError } = await supabase.rpc("check_public_booking_rate_limit", {
+    p_unit_id: unit.id,
+    p_ip_address: clientIp,
+    p_phone: normalizedPhone,
+  });
+
+  if (rateLimitError) {
+    console.error("Error checking booking rate limit:", rateLimitError);
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.internal }, 500);
+  }
+
+  if (!withinLimit) {
+    console.warn(`Booking rate limit exceeded for unit ${unit.id} (ip: ${clientIp})`);
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.rateLimited }, 429);
+  }
+
+  if (typeof recaptcha_token !== "string" || !recaptcha_token) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.recaptcha }, 400);
+  }
+
+  const recaptcha = await verifyRecaptchaToken(recaptcha_token, "public_booking");
+  if (!recaptcha.success) {
+    return jsonResponse(
+      { success: false, error: recaptcha.misconfigured ? GENERIC_ERRORS.internal : GENERIC_ERRORS.recaptcha },
+      recaptcha.misconfigured ? 500 : 400
+    );
+  }
+
+  const service = await fetchActiveService(supabase, unit.id, service_id);
+  if (!service) {
+    return jsonResponse({ success: false, error: "Serviço não encontrado" }, 404);
+  }
+
+  const barbers = await fetchActiveBarbers(supabase, unit.id, barber_id);
+  if (!barbers || barbers.length === 0) {
+    return jsonResponse({ success: false, error: "Profissional não encontrado" }, 404);
+  }
+
+  // Re-validate with the same rules used to list the slots; "any barber" takes the first one free
+  const availability = await getAvailableSlots(supabase, {
+    unitId: unit.id,
+    date,
+    timezone,
+    barbers,
+    durationMinutes: service.duration_minutes,
+  });
+
+  const candidates = availability.slots.filter(s => s.time === time);
+  if (candidates.length === 0) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.unavailable }, 409);
+  }
+
+  // === VERIFICAR/CRIAR CLIENTE (mesma busca flexível do agenda-api) ===
+  const phonesToTry = Array.from(new Set([
+    normalizedPhone,
+    phoneDigits,
+    ...getPhoneVariations(normalizedPhone),
+    ...getPhoneVariations(phoneDigits),
+  ].filter(Boolean)));
+
+  // The RPC re-checks the barber's agenda under a lock, so two clients can't take the same slot.
+  // With "any barber" the next free barber at that time is tried when one was just taken.
+  let appointmentId: string | null = null;
+  let slot = candidates[0];
+
+  for (const candidate of candidates) {
+    const { data, error: createError } = await supabase.rpc("create_online_appointment", {
+      p_unit_id: unit.id,
+      p_barber_id: candidate.barber_id,
+      p_service_id: service.id,
+      p_start_time: new Date(candidate.datetime).toISOString(),
+      p_client_name: clientName,
+      p_client_phone: normalizedPhone,
+      p_phone_variations: phonesToTry,
+    });
+
+    if (createError) {
+      console.error("Error creating appointment:", createError);
+      return jsonResponse({ success: false, error: GENERIC_ERRORS.internal }, 500);
+    }
+
+    if (data) {
+      appointmentId = data;
+      slot = candidate;
+      break;
+    }
+  }
+
+  if (!appointmentId) {
+    return jsonResponse({ success: false, error: GENERIC_ERRORS.unavailable }, 409);
+  }
+
+  console.log(`Online appointment created: ${appointmentId}`);
+
+  return jsonResponse({
+    success: true,
+    message: "Agendamento realizado com sucesso!",
+    appointment: {
+      id: appointmentId,
+      date,
+      time: slot.time,
+      barber: slot.barber_name,
+      service: service.name,
+      total_price: service.price,
+      status: "pending",
+    },
+  });
+}
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { convertLocalToUTC } from "../_shared/availability.ts";
+import { dispatchCampaignBatch } from "../_shared/campaigns.ts";
+import { getCompanyEntitlements, hasFeature } from "../_shared/entitlements.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,8 +21,34 @@ interface RequestBody {
   unit_id: string;
   media_url?: string;
   media_type?: string;
+  // Local date/time (YYYY-MM-DDTHH:mm) in the unit's timezone; omitted = send now
+  scheduled_for?: string;
+  hourly_limit?: number;
+  quiet_hours_start?: number;
+  quiet_hours_end?: number;
+  // A/B test: two or more templates, recipients are split randomly between them
+  variants?: { label: string; message_template: string }[];
+  conversion_window_days?: number;
 }
 
+interface Variant {
+  id: string;
+  label: string;
+}
+
+// Fisher-Yates shuffle so the split between variants is random
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const isValidHour = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 23;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -68,7 +97,7 @@ serve(async (req) => {
 
     // Parse request body
     const body: RequestBody = await req.json();
-    const { message_template, targets, unit_id, media_url, media_type } = body;
+    const { message_template, targets, unit_id, media_url, media_type, scheduled_for, hourly_limit, quiet_hours_start, quiet_hours_end, variants, conversion_window_days } = body;
 
     if (!message_template || !targets || targets.length === 0 || !unit_id) {
       console.error("Invalid request body:", body);
@@ -78,10 +107,18 @@ serve(async (req) => {
       );
     }
 
+    const abVariants = (variants || []).filter((v) => v?.label?.trim() && v?.message_template?.trim());
+    if (variants && abVariants.length < 2) {
+      return new Response(
+        JSON.stringify({ error: "O teste A/B precisa de pelo menos duas variantes com mensagem." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Fetch unit data with WhatsApp credentials
     const { data: unit, error: unitError } = await supabase
       .from("units")
-      .select("id, name, evolution_instance_name, evolution_api_key, company_id, user_id")
+      .select("id, name, evolution_instance_name, evolution_api_key, company_id, user_id, timezone")
       .eq("id", unit_id)
       .single();
 
@@ -102,6 +139,16 @@ serve(async (req) => {
       );
     }
 
+    // Campaigns are a paid feature (plan_features.marketing_automations)
+    const entitlements = await getCompanyEntitlements(supabase, unit.company_id);
+    if (!hasFeature(entitlements, "marketing_automations")) {
+      console.log(`Company ${unit.company_id} plan (${entitlements.planTier}) does not include campaigns`);
+      return new Response(
+        JSON.stringify({ error: "Campanhas não estão disponíveis no seu plano. Faça upgrade em Assinatura." }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check if unit has WhatsApp configured
     if (!unit.evolution_instance_name || !unit.evolution_api_key) {
       console.error("Unit has no WhatsApp configured:", unit.id);
@@ -113,6 +160,27 @@ serve(async (req) => {
       );
     }
 
+    // Scheduling and throttling options
+    const hourlyLimit = typeof hourly_limit === "number" && hourly_limit > 0 ? Math.floor(hourly_limit) : null;
+    const hasQuietHours = isValidHour(quiet_hours_start) && isValidHour(quiet_hours_end) && quiet_hours_start !== quiet_hours_end;
+
+    let scheduledAt: Date | null = null;
+    if (scheduled_for) {
+      scheduledAt = convertLocalToUTC(scheduled_for, unit.timezone || "America/Sao_Paulo");
+      if (isNaN(scheduledAt.getTime())) {
+        return new Response(
+          JSON.stringify({ error: "Data de agendamento inválida" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (scheduledAt.getTime() <= Date.now()) {
+        return new Response(
+          JSON.stringify({ error: "A data de agendamento precisa ser no futuro" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // Fetch opted-out clients to filter them
     const { data: optedOutClients } = await supabase
       .from("clients")
@@ -163,7 +231,14 @@ serve(async (req) => {
         media_url: media_url || null,
         media_type: media_type || null,
         total_recipients: filteredTargets.length,
-        status: "processing",
+        status: scheduledAt ? "scheduled" : "sending",
+        scheduled_at: scheduledAt ? scheduledAt.toISOString() : null,
+        started_at: scheduledAt ? null : new Date().toISOString(),
+        hourly_limit: hourlyLimit,
+        quiet_hours_start: hasQuietHours ? quiet_hours_start : null,
+        quiet_hours_end: hasQuietHours ? quiet_hours_end : null,
+        conversion_window_days:
+          typeof conversion_window_days === "number" && conversion_window_days > 0 ? Math.floor(conversion_window_days) : 7,
         created_by: user.id,
       })
       .select()
@@ -179,19 +254,47 @@ serve(async (req) => {
 
     console.log(`Campaign ${campaign.id} created`);
 
-    // Create message logs for each target
-    const logs = filteredTargets.map((t) => ({
+    // A/B variants: the campaign's message_template keeps the first one
+    let createdVariants: Variant[] = [];
+    if (abVariants.length >= 2) {
+      const { data: variantRows, error: variantsError } = await supabase
+        .from("campaign_variants")
+        .insert(abVariants.map((v) => ({
+          campaign_id: campaign.id,
+          label: v.label.trim(),
+          message_template: v.message_template,
+        })))
+        .select("id, label");
+
+      if (variantsError || !variantRows) {
+        console.error("Error creating variants:", variantsError?.message);
+        await supabase
+          .from("marketing_campaigns")
+          .update({ status: "failed" })
+          .eq("id", campaign.id);
+        return new Response(
+          JSON.stringify({ error: "Erro ao criar variantes da campanha" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      createdVariants = variantRows;
+    }
+
+    // Create message logs for each target (shuffled and dealt round-robin between variants)
+    const orderedTargets = createdVariants.length > 0 ? shuffle(filteredTargets) : filteredTargets;
+    const logs = orderedTargets.map((t, index) => ({
       campaign_id: campaign.id,
       recipient_phone: t.phone,
       recipient_name: t.name,
       recipient_type: "client",
       status: "pending",
+      variant_id: createdVariants.length > 0 ? createdVariants[index % createdVariants.length].id : null,
     }));
 
     const { data: insertedLogs, error: logsError } = await supabase
       .from("campaign_message_logs")
       .insert(logs)
-      .select("id, recipient_phone");
+      .select("id");
 
     if (logsError) {
       console.error("Error creating logs:", logsError.message);
@@ -208,50 +311,23 @@ serve(async (req) => {
 
     console.log(`Created ${insertedLogs?.length} message logs`);
 
-    // Build contacts array with log IDs for callback
-    const contacts = filteredTargets.map((t) => {
-      const log = insertedLogs?.find((l) => l.recipient_phone === t.phone);
-      // Remove non-digits, remove leading 55 if present, then add 55 prefix
-      const cleanNumber = t.phone.replace(/\D/g, "").replace(/^55/, "");
-      return {
-        number: "55" + cleanNumber,
-        text: message_template.replace(/\{\{nome\}\}/g, t.name),
-        log_id: log?.id || null,
-      };
-    });
-
-    // Secret for callback validation - loaded from environment variable
-    const callbackSecret = Deno.env.get("N8N_CALLBACK_SECRET");
+    if (scheduledAt) {
+      console.log(`Campaign ${campaign.id} scheduled for ${scheduledAt.toISOString()}`);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          campaign_id: campaign.id,
+          status: "scheduled",
+          message: `Campanha agendada para ${filteredTargets.length} contato(s)${skippedCount > 0 ? ` (${skippedCount} ignorados por opt-out)` : ''}.`
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    // Build n8n payload matching the workflow format
-    const n8nPayload = {
-      instanceName: unit.evolution_instance_name,
-      api_key: unit.evolution_api_key,
-      mediaUrl: media_url || "",
-      mediaType: media_type || "",
-      contacts,
-      campaign_id: campaign.id,
-      callback_url: `${supabaseUrl}/functions/v1/campaign-callback`,
-      update_status_url: `${supabaseUrl}/functions/v1/update-campaign-status`,
-      check_status_url: `${supabaseUrl}/functions/v1/check-campaign-status`,
-      callback_secret: callbackSecret,
-    };
-
-    console.log(`Sending to n8n webhook with ${contacts.length} contacts`);
-
-    // Send to n8n webhook
-    const n8nResponse = await fetch(n8nMarketingUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(n8nPayload),
-    });
+    // First batch goes out now; the rest (hourly cap / quiet hours) is sent by dispatch-campaigns
+    const result = await dispatchCampaignBatch(supabase, campaign.id);
 
-    if (!n8nResponse.ok) {
-      const errorText = await n8nResponse.text();
-      console.error("n8n webhook error:", n8nResponse.status, errorText);
-      
+    if (result.reason === "webhook_error" || result.reason === "error") {
       // Update campaign to failed
       await supabase
         .from("marketing_campaigns")
@@ -264,13 +340,21 @@ serve(async (req) => {
       );
     }
 
-    console.log("Campaign sent successfully to n8n");
+    console.log(`Campaign ${campaign.id} started, ${result.dispatched} contacts sent to n8n`);
+
+    const waiting = filteredTargets.length - result.dispatched;
+    const pacingNote = result.reason === "quiet_hours"
+      ? " Envio aguardando o fim do horário de silêncio."
+      : waiting > 0
+        ? ` ${waiting} mensagem(ns) serão enviadas respeitando o limite por hora.`
+        : "";
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         campaign_id: campaign.id,
-        message: `Campanha iniciada para ${filteredTargets.length} contato(s)${skippedCount > 0 ? ` (${skippedCount} ignorados por opt-out)` : ''}. Processando em segundo plano...` 
+        status: "sending",
+        message: `Campanha iniciada para ${filteredTargets.length} contato(s)${skippedCount > 0 ? ` (${skippedCount} ignorados por opt-out)` : ''}. Processando em segundo plano...${pacingNote}` 
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -138,7 +138,7 @@ serve(async (req) => {
     }
 
     // Validate status is one of expected values
-    const validStatuses = ["pending", "processing", "completed", "failed", "cancelled"];
+    const validStatuses = ["pending", "processing", "sending", "completed", "failed", "cancelled"];
     if (!validStatuses.includes(status)) {
       console.error("Invalid status value:", status);
       return new Response(
@@ -149,18 +149,71 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const { data: campaign, error: campaignError } = await supabase
+      .from("marketing_campaigns")
+      .select("status")
+      .eq("id", campaign_id)
+      .single();
+
+    if (campaignError || !campaign) {
+      console.error("Campaign not found:", campaignError?.message);
+      return new Response(
+        JSON.stringify({ error: GENERIC_ERRORS.badRequest }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // n8n stops its batch when the campaign is paused or canceled; its final report must not
+    // overwrite that state
+    if (["paused", "canceled", "completed"].includes(campaign.status)) {
+      console.log(`Campaign ${campaign_id} is ${campaign.status}, ignoring n8n status ${status}`);
+      return new Response(
+        JSON.stringify({ success: true, ignored: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Throttled campaigns are sent in several batches: the end of one batch is not the end of
+    // the campaign while messages are still waiting for dispatch-campaigns
+    if (status === "completed") {
+      const { count: waiting } = await supabase
+        .from("campaign_message_logs")
+        .select("id", { count: "exact", head: true })
+        .eq("campaign_id", campaign_id)
+        .eq("status", "pending")
+        .is("dispatched_at", null);
+
+      if ((waiting || 0) > 0) {
+        console.log(`Campaign ${campaign_id} batch finished, ${waiting} message(s) still waiting`);
+        return new Response(
+          JSON.stringify({ success: true, ignored: true }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // Build update object
+    const isFinal = status !== "pending" && status !== "processing";
     const updateData: Record<string, unknown> = {
-      status,
-      completed_at: new Date().toISOString(),
+      status: status === "processing" ? "sending" : status,
+      ...(isFinal ? { completed_at: new Date().toISOString() } : {}),
     };
 
-    // Only update counts if provided (n8n may provide final counts)
+    // Only update counts if provided (n8n may provide final counts). n8n only knows its own
+    // batch, so the per-recipient logs win when they account for more messages.
+    const countLogs = async (logStatus: string) => {
+      const { count } = await supabase
+        .from("campaign_message_logs")
+        .select("id", { count: "exact", head: true })
+        .eq("campaign_id", campaign_id)
+        .eq("status", logStatus);
+      return count || 0;
+    };
     if (typeof sent_count === "number" && sent_count >= 0) {
-      updateData.sent_count = sent_count;
+      updateData.sent_count = Math.max(sent_count, await countLogs("sent"));
     }
     if (typeof failed_count === "number" && failed_count >= 0) {
-      updateData.failed_count = failed_count;
+      updateData.failed_count = Math.max(failed_count, await countLogs("failed"));
     }
 
     const { error: updateError } = await supabase
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { expireWaitlistOffers, offerFreedSlot } from "../_shared/waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Chamado pelo painel quando um agendamento é cancelado/excluído: oferece o horário
+// liberado para a lista de espera da unidade.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    // Get JWT from Authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("No authorization header");
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client with user JWT to verify ownership
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      console.error("User auth error:", userError?.message);
+      return new Response(
+        JSON.stringify({ error: "Não autorizado" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { unit_id, barber_id, start_time, end_time } = await req.json();
+
+    if (!unit_id) {
+      return new Response(
+        JSON.stringify({ error: "unit_id é obrigatório" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Dono/gerente ou recepção da unidade (a recepção também cancela agendamentos)
+    const [{ data: ownsUnit, error: ownershipError }, { data: isStaff, error: staffError }] = await Promise.all([
+      supabaseUser.rpc("user_owns_unit", { unit_id }),
+      supabaseUser.rpc("user_is_unit_staff", { p_unit_id: unit_id }),
+    ]);
+    if (ownershipError || staffError || (!ownsUnit && !isStaff)) {
+      console.error("User has no access to this unit:", ownershipError?.message || staffError?.message);
+      return new Response(
+        JSON.stringify({ error: "Não autorizado para esta unidade" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Use service role for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const expired = await expireWaitlistOffers(supabase, unit_id);
+
+    // Sem horário informado: apenas processa as ofertas vencidas
+    if (!barber_id || !start_time || !end_time) {
+      return new Response(
+        JSON.stringify({ success: true, offered: false, expired }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await offerFreedSlot(supabase, {
+      unitId: unit_id,
+      barberId: barber_id,
+      startTime: start_time,
+      endTime: end_time,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, ...result, expired }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+-- Public online booking page per unit (/agendar/:unitSlug)
+ALTER TABLE public.units
+  ADD COLUMN IF NOT EXISTS booking_slug TEXT,
+  ADD COLUMN IF NOT EXISTS online_booking_enabled BOOLEAN DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_units_booking_slug ON public.units(booking_slug);
+
+-- Generate a URL-friendly slug from the unit name, suffixed when already taken
+CREATE OR REPLACE FUNCTION public.generate_unit_booking_slug(p_name TEXT, p_unit_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  base_slug TEXT;
+  candidate TEXT;
+BEGIN
+  base_slug := lower(translate(
+    coalesce(p_name, ''),
+    'ÁÀÂÃÄáàâãäÉÈÊËéèêëÍÌÎÏíìîïÓÒÔÕÖóòôõöÚÙÛÜúùûüÇçÑñ',
+    'AAAAAaaaaaEEEEeeeeIIIIiiiiOOOOOoooooUUUUuuuuCcNn'
+  ));
+  base_slug := trim(both '-' from regexp_replace(base_slug, '[^a-z0-9]+', '-', 'g'));
+
+  IF base_slug = '' THEN
+    base_slug := 'unidade';
+  END IF;
+
+  candidate := base_slug;
+  IF EXISTS (SELECT 1 FROM public.units WHERE booking_slug = candidate AND id <> p_unit_id) THEN
+    candidate := base_slug || '-' || substr(replace(p_unit_id::text, '-', ''), 1, 6);
+  END IF;
+
+  RETURN candidate;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_unit_booking_slug()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only generate if not already set
+  IF NEW.booking_slug IS NULL OR NEW.booking_slug = '' THEN
+    NEW.booking_slug := public.generate_unit_booking_slug(NEW.name, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_unit_booking_slug ON public.units;
+CREATE TRIGGER trigger_set_unit_booking_slug
+  BEFORE INSERT ON public.units
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_unit_booking_slug();
+
+-- Generate slugs for existing units (one at a time so suffixes see previous rows)
+DO $$
+DECLARE
+  v_unit RECORD;
+BEGIN
+  FOR v_unit IN SELECT id, name FROM public.units WHERE booking_slug IS NULL ORDER BY created_at LOOP
+    UPDATE public.units
+    SET booking_slug = public.generate_unit_booking_slug(v_unit.name, v_unit.id)
+    WHERE id = v_unit.id;
+  END LOOP;
+END;
+$$;
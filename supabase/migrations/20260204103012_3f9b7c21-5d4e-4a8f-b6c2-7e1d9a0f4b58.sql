@@ -0,0 +1,49 @@
+-- Multiple services per appointment (corte + barba + sobrancelha in a single visit)
+CREATE TABLE public.appointment_services (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  -- Snapshots taken when the appointment is booked so later price changes don't rewrite history
+  service_name TEXT NOT NULL,
+  price NUMERIC NOT NULL DEFAULT 0,
+  duration_minutes INTEGER NOT NULL DEFAULT 30,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.appointment_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view appointment services from their units" ON public.appointment_services
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create appointment services in their units" ON public.appointment_services
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update appointment services in their units" ON public.appointment_services
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete appointment services from their units" ON public.appointment_services
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_appointment_services_appointment_id ON public.appointment_services(appointment_id);
+CREATE INDEX idx_appointment_services_service_id ON public.appointment_services(service_id);
+CREATE INDEX idx_appointment_services_unit_id ON public.appointment_services(unit_id);
+
+-- Backfill existing appointments with their single service
+INSERT INTO public.appointment_services (appointment_id, service_id, unit_id, company_id, service_name, price, duration_minutes, position)
+SELECT
+  a.id,
+  a.service_id,
+  a.unit_id,
+  a.company_id,
+  s.name,
+  CASE WHEN a.payment_method = 'courtesy' THEN s.price ELSE a.total_price END,
+  GREATEST(1, ROUND(EXTRACT(EPOCH FROM (a.end_time - a.start_time)) / 60))::INTEGER,
+  0
+FROM public.appointments a
+JOIN public.services s ON s.id = a.service_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.appointment_services aps WHERE aps.appointment_id = a.id
+);
@@ -0,0 +1,76 @@
+-- Per-barber weekly working schedule (barbers without rows follow the unit business hours)
+CREATE TABLE public.barber_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  barber_id UUID NOT NULL REFERENCES public.barbers(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
+  is_working BOOLEAN NOT NULL DEFAULT true,
+  start_time TIME,
+  end_time TIME,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(barber_id, day_of_week)
+);
+
+-- Dated absences: vacation, sick day, course...
+CREATE TABLE public.barber_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  barber_id UUID NOT NULL REFERENCES public.barbers(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'other' CHECK (reason IN ('vacation', 'sick', 'course', 'other')),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.barber_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.barber_time_off ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for barber_schedules
+CREATE POLICY "Users can view barber schedules from their units" ON public.barber_schedules
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create barber schedules in their units" ON public.barber_schedules
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update barber schedules in their units" ON public.barber_schedules
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete barber schedules from their units" ON public.barber_schedules
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+-- RLS policies for barber_time_off
+CREATE POLICY "Users can view barber time off from their units" ON public.barber_time_off
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create barber time off in their units" ON public.barber_time_off
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update barber time off in their units" ON public.barber_time_off
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete barber time off from their units" ON public.barber_time_off
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_barber_schedules_barber_id ON public.barber_schedules(barber_id);
+CREATE INDEX idx_barber_schedules_unit_id ON public.barber_schedules(unit_id);
+CREATE INDEX idx_barber_time_off_barber_dates ON public.barber_time_off(barber_id, start_date, end_date);
+CREATE INDEX idx_barber_time_off_unit_id ON public.barber_time_off(unit_id);
+
+-- Trigger to update updated_at on barber_schedules
+CREATE OR REPLACE FUNCTION public.update_barber_schedules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_barber_schedules_updated_at
+BEFORE UPDATE ON public.barber_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_barber_schedules_updated_at();
@@ -0,0 +1,45 @@
+-- Business hours and holidays per unit. Rows without unit_id are the company default:
+-- a unit with its own hours ignores the default week, and company holidays apply to every unit.
+ALTER TABLE public.business_hours
+  ADD COLUMN unit_id UUID REFERENCES public.units(id) ON DELETE CASCADE;
+
+ALTER TABLE public.business_hours
+  DROP CONSTRAINT IF EXISTS business_hours_user_id_day_of_week_key;
+
+ALTER TABLE public.business_hours
+  ADD CONSTRAINT business_hours_user_id_unit_id_day_of_week_key
+  UNIQUE NULLS NOT DISTINCT (user_id, unit_id, day_of_week);
+
+ALTER TABLE public.holidays
+  ADD COLUMN unit_id UUID REFERENCES public.units(id) ON DELETE CASCADE;
+
+ALTER TABLE public.holidays
+  DROP CONSTRAINT IF EXISTS holidays_user_id_date_key;
+
+ALTER TABLE public.holidays
+  ADD CONSTRAINT holidays_user_id_unit_id_date_key
+  UNIQUE NULLS NOT DISTINCT (user_id, unit_id, date);
+
+CREATE INDEX idx_business_hours_unit_id ON public.business_hours(unit_id);
+CREATE INDEX idx_holidays_unit_id ON public.holidays(unit_id);
+
+-- Unit-specific rows must belong to a unit of the same owner
+DROP POLICY IF EXISTS "Users can create their own business hours" ON public.business_hours;
+CREATE POLICY "Users can create their own business hours"
+ON public.business_hours FOR INSERT
+WITH CHECK (auth.uid() = user_id AND (unit_id IS NULL OR public.user_owns_unit(unit_id)));
+
+DROP POLICY IF EXISTS "Users can update their own business hours" ON public.business_hours;
+CREATE POLICY "Users can update their own business hours"
+ON public.business_hours FOR UPDATE
+USING (auth.uid() = user_id AND (unit_id IS NULL OR public.user_owns_unit(unit_id)));
+
+DROP POLICY IF EXISTS "Users can create their own holidays" ON public.holidays;
+CREATE POLICY "Users can create their own holidays"
+ON public.holidays FOR INSERT
+WITH CHECK (auth.uid() = user_id AND (unit_id IS NULL OR public.user_owns_unit(unit_id)));
+
+DROP POLICY IF EXISTS "Users can update their own holidays" ON public.holidays;
+CREATE POLICY "Users can update their own holidays"
+ON public.holidays FOR UPDATE
+USING (auth.uid() = user_id AND (unit_id IS NULL OR public.user_owns_unit(unit_id)));
@@ -0,0 +1,35 @@
+-- Recurring appointments: a series groups the occurrences created from one recurrence rule
+CREATE TABLE public.appointment_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  barber_id UUID REFERENCES public.barbers(id) ON DELETE SET NULL,
+  client_name TEXT NOT NULL,
+  client_phone TEXT,
+  interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 12),
+  -- One of occurrences / until_date bounds the series
+  occurrences INTEGER CHECK (occurrences IS NULL OR occurrences BETWEEN 1 AND 52),
+  until_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view appointment series from their units" ON public.appointment_series
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create appointment series in their units" ON public.appointment_series
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update appointment series in their units" ON public.appointment_series
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete appointment series from their units" ON public.appointment_series
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_appointment_series_unit_id ON public.appointment_series(unit_id);
+
+ALTER TABLE public.appointments
+  ADD COLUMN series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_series_id ON public.appointments(series_id) WHERE series_id IS NOT NULL;
@@ -0,0 +1,61 @@
+-- Waitlist: clients waiting for a slot; freed slots are offered over WhatsApp and held for a while
+ALTER TABLE public.units
+  ADD COLUMN waitlist_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN waitlist_hold_minutes INTEGER NOT NULL DEFAULT 30 CHECK (waitlist_hold_minutes BETWEEN 5 AND 1440);
+
+CREATE TABLE public.waitlist_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_name TEXT NOT NULL,
+  client_phone TEXT NOT NULL,
+  -- NULL = any barber
+  barber_id UUID REFERENCES public.barbers(id) ON DELETE SET NULL,
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  desired_start_date DATE NOT NULL,
+  desired_end_date DATE NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'cancelled')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'whatsapp')),
+  -- Last offer sent; kept after expiry so the same slot is not offered twice to the same client
+  offered_barber_id UUID REFERENCES public.barbers(id) ON DELETE SET NULL,
+  offered_slot_start TIMESTAMP WITH TIME ZONE,
+  offered_slot_end TIMESTAMP WITH TIME ZONE,
+  offered_at TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (desired_end_date >= desired_start_date)
+);
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view waitlist entries from their units" ON public.waitlist_entries
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create waitlist entries in their units" ON public.waitlist_entries
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update waitlist entries in their units" ON public.waitlist_entries
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete waitlist entries from their units" ON public.waitlist_entries
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_waitlist_entries_unit_status ON public.waitlist_entries(unit_id, status);
+CREATE INDEX idx_waitlist_entries_offer_expires_at ON public.waitlist_entries(offer_expires_at) WHERE status = 'offered';
+
+-- Trigger to update updated_at on waitlist_entries
+CREATE OR REPLACE FUNCTION public.update_waitlist_entries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+BEFORE UPDATE ON public.waitlist_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_waitlist_entries_updated_at();
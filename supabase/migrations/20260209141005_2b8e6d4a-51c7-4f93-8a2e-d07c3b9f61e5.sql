@@ -0,0 +1,152 @@
+-- Cancellation policy enforcement: late cancellations and no-shows generate a pending fee for the client
+CREATE TABLE public.client_fees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  client_name TEXT NOT NULL,
+  client_phone TEXT,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  cancellation_id UUID REFERENCES public.cancellation_history(id) ON DELETE SET NULL,
+  fee_type TEXT NOT NULL CHECK (fee_type IN ('late_cancellation', 'no_show')),
+  fee_percent NUMERIC(5,2) NOT NULL,
+  -- total_price of the cancelled appointment
+  base_amount NUMERIC(10,2) NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  scheduled_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'waived')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  payment_method TEXT,
+  -- Appointment during which the fee was collected
+  paid_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  waived_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.client_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view client fees from their units" ON public.client_fees
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create client fees in their units" ON public.client_fees
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can update client fees in their units" ON public.client_fees
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete client fees from their units" ON public.client_fees
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_client_fees_unit_status ON public.client_fees(unit_id, status);
+CREATE INDEX idx_client_fees_client_id ON public.client_fees(client_id);
+CREATE INDEX idx_client_fees_client_phone ON public.client_fees(unit_id, client_phone) WHERE status = 'pending';
+
+-- Trigger to update updated_at on client_fees
+CREATE OR REPLACE FUNCTION public.update_client_fees_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_client_fees_updated_at
+BEFORE UPDATE ON public.client_fees
+FOR EACH ROW
+EXECUTE FUNCTION public.update_client_fees_updated_at();
+
+-- Late flag follows the owner's cancellation_time_limit_minutes (the app and the bot used a fixed 10 min)
+CREATE OR REPLACE FUNCTION public.apply_cancellation_policy()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  time_limit integer;
+BEGIN
+  IF NEW.is_no_show THEN
+    NEW.is_late_cancellation := false;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(bs.cancellation_time_limit_minutes, 60)
+  INTO time_limit
+  FROM public.units u
+  LEFT JOIN public.business_settings bs ON bs.user_id = u.user_id
+  WHERE u.id = NEW.unit_id;
+
+  NEW.is_late_cancellation := NEW.minutes_before < COALESCE(time_limit, 60);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER trigger_apply_cancellation_policy
+  BEFORE INSERT ON public.cancellation_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_cancellation_policy();
+
+-- Creates the pending fee for late cancellations and no-shows, linked to the client when registered
+CREATE OR REPLACE FUNCTION public.create_cancellation_fee()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  fee_percent numeric;
+  fee_amount numeric;
+  matched_client_id uuid;
+BEGIN
+  IF NOT (NEW.is_late_cancellation OR NEW.is_no_show) OR COALESCE(NEW.total_price, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT CASE WHEN NEW.is_no_show
+           THEN COALESCE(bs.no_show_fee_percent, 100)
+           ELSE COALESCE(bs.late_cancellation_fee_percent, 50)
+         END
+  INTO fee_percent
+  FROM public.units u
+  LEFT JOIN public.business_settings bs ON bs.user_id = u.user_id
+  WHERE u.id = NEW.unit_id;
+
+  fee_amount := ROUND(NEW.total_price * COALESCE(fee_percent, 0) / 100, 2);
+  IF fee_amount <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Busca por telefone (prioridade) e, sem telefone, por nome
+  IF NEW.client_phone IS NOT NULL AND NEW.client_phone != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = NEW.unit_id AND phone = NEW.client_phone
+    LIMIT 1;
+  END IF;
+
+  IF matched_client_id IS NULL AND NEW.client_name IS NOT NULL AND TRIM(NEW.client_name) != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = NEW.unit_id
+      AND LOWER(TRIM(name)) = LOWER(TRIM(NEW.client_name))
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.client_fees (
+    unit_id, company_id, client_id, client_name, client_phone, appointment_id, cancellation_id,
+    fee_type, fee_percent, base_amount, amount, scheduled_time
+  ) VALUES (
+    NEW.unit_id, NEW.company_id, matched_client_id, NEW.client_name, NULLIF(NEW.client_phone, ''), NEW.appointment_id, NEW.id,
+    CASE WHEN NEW.is_no_show THEN 'no_show' ELSE 'late_cancellation' END,
+    fee_percent, NEW.total_price, fee_amount, NEW.scheduled_time
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER trigger_create_cancellation_fee
+  AFTER INSERT ON public.cancellation_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_cancellation_fee();
@@ -0,0 +1,237 @@
+-- Prepaid packages and subscription plans (clube de assinatura)
+CREATE TABLE public.service_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- package: credits valid for period_days after the sale; subscription: renewed every period_days
+  plan_type TEXT NOT NULL DEFAULT 'package' CHECK (plan_type IN ('package', 'subscription')),
+  price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  period_days INTEGER NOT NULL DEFAULT 30 CHECK (period_days > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Services covered by each plan (one credit per covered service in the appointment)
+CREATE TABLE public.service_plan_services (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES public.service_plans(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, service_id)
+);
+
+-- Plans sold to clients
+CREATE TABLE public.client_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  -- Sold plans keep their definition: deactivate a plan instead of deleting it
+  plan_id UUID NOT NULL REFERENCES public.service_plans(id) ON DELETE RESTRICT,
+  plan_name TEXT NOT NULL,
+  credits_total INTEGER NOT NULL CHECK (credits_total > 0),
+  starts_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  expires_at DATE NOT NULL,
+  price_paid NUMERIC(10,2) NOT NULL DEFAULT 0,
+  payment_method TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (expires_at >= starts_at)
+);
+
+-- Credits consumed by completed appointments; the balance is credits_total minus these rows
+CREATE TABLE public.client_plan_usages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_plan_id UUID NOT NULL REFERENCES public.client_plans(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  credits INTEGER NOT NULL DEFAULT 1 CHECK (credits > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.service_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.service_plan_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.client_plan_usages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view service plans from their units" ON public.service_plans
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create service plans in their units" ON public.service_plans
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update service plans in their units" ON public.service_plans
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete service plans from their units" ON public.service_plans
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can view service plan services from their units" ON public.service_plan_services
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create service plan services in their units" ON public.service_plan_services
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete service plan services from their units" ON public.service_plan_services
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can view client plans from their units" ON public.client_plans
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create client plans in their units" ON public.client_plans
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update client plans in their units" ON public.client_plans
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete client plans from their units" ON public.client_plans
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can view client plan usages from their units" ON public.client_plan_usages
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_service_plans_unit_id ON public.service_plans(unit_id);
+CREATE INDEX idx_service_plan_services_plan_id ON public.service_plan_services(plan_id);
+CREATE INDEX idx_client_plans_client_id ON public.client_plans(client_id);
+CREATE INDEX idx_client_plans_unit_status ON public.client_plans(unit_id, status);
+CREATE INDEX idx_client_plan_usages_client_plan_id ON public.client_plan_usages(client_plan_id);
+
+-- Trigger to update updated_at on service_plans
+CREATE OR REPLACE FUNCTION public.update_service_plans_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_service_plans_updated_at
+BEFORE UPDATE ON public.service_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_service_plans_updated_at();
+
+-- Trigger to update updated_at on client_plans
+CREATE OR REPLACE FUNCTION public.update_client_plans_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_client_plans_updated_at
+BEFORE UPDATE ON public.client_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_client_plans_updated_at();
+
+-- Plano ativo do cliente que cobre todos os serviços do atendimento e ainda tem créditos.
+-- Usado pela tela de pagamento (RPC) e pelo trigger de consumo; vence primeiro o que expira antes.
+CREATE OR REPLACE FUNCTION public.find_client_plan_for_appointment(p_appointment_id uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  apt RECORD;
+  matched_client_id uuid;
+  service_ids uuid[];
+  matched_plan_id uuid;
+BEGIN
+  SELECT id, unit_id, client_phone, client_name, service_id, start_time
+  INTO apt
+  FROM public.appointments
+  WHERE id = p_appointment_id;
+
+  IF apt IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(array_agg(s.service_id), ARRAY[]::uuid[])
+  INTO service_ids
+  FROM public.appointment_services s
+  WHERE s.appointment_id = apt.id AND s.service_id IS NOT NULL;
+
+  IF array_length(service_ids, 1) IS NULL THEN
+    IF apt.service_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+    service_ids := ARRAY[apt.service_id];
+  END IF;
+
+  -- Busca por telefone (prioridade) e, sem telefone, por nome
+  IF apt.client_phone IS NOT NULL AND apt.client_phone != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = apt.unit_id AND phone = apt.client_phone
+    LIMIT 1;
+  END IF;
+
+  IF matched_client_id IS NULL AND apt.client_name IS NOT NULL AND TRIM(apt.client_name) != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = apt.unit_id
+      AND LOWER(TRIM(name)) = LOWER(TRIM(apt.client_name))
+    LIMIT 1;
+  END IF;
+
+  IF matched_client_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT cp.id INTO matched_plan_id
+  FROM public.client_plans cp
+  WHERE cp.client_id = matched_client_id
+    AND cp.status = 'active'
+    AND apt.start_time::date BETWEEN cp.starts_at AND cp.expires_at
+    AND cp.credits_total - COALESCE((
+      SELECT SUM(u.credits) FROM public.client_plan_usages u WHERE u.client_plan_id = cp.id
+    ), 0) >= array_length(service_ids, 1)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(service_ids) AS needed(service_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.service_plan_services ps
+        WHERE ps.plan_id = cp.plan_id AND ps.service_id = needed.service_id
+      )
+    )
+  ORDER BY cp.expires_at ASC, cp.created_at ASC
+  LIMIT 1;
+
+  RETURN matched_plan_id;
+END;
+$function$;
+
+-- Consome os créditos quando o atendimento é finalizado com a forma de pagamento "package"
+CREATE OR REPLACE FUNCTION public.consume_client_plan_credit()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  matched_plan_id uuid;
+  credits_needed integer;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' OR NEW.payment_method IS DISTINCT FROM 'package' THEN
+    RETURN NEW;
+  END IF;
+
+  matched_plan_id := public.find_client_plan_for_appointment(NEW.id);
+
+  IF matched_plan_id IS NULL THEN
+    RAISE EXCEPTION 'Cliente não possui pacote com créditos para este atendimento';
+  END IF;
+
+  SELECT GREATEST(COUNT(*), 1) INTO credits_needed
+  FROM public.appointment_services
+  WHERE appointment_id = NEW.id AND service_id IS NOT NULL;
+
+  INSERT INTO public.client_plan_usages (client_plan_id, appointment_id, unit_id, credits)
+  VALUES (matched_plan_id, NEW.id, NEW.unit_id, credits_needed);
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER trigger_consume_client_plan_credit
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.consume_client_plan_credit();
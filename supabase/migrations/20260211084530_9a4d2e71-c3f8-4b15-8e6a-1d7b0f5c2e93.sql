@@ -0,0 +1,67 @@
+-- Cash register sessions (abertura e fechamento de caixa)
+CREATE TABLE public.cash_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  opened_by UUID,
+  opening_balance NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (opening_balance >= 0),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID,
+  -- Snapshots taken at closing, keyed by payment method (cash, pix, debit_card, credit_card)
+  expected_amounts JSONB,
+  counted_amounts JSONB,
+  -- Counted minus expected across all methods (negative = missing)
+  discrepancy NUMERIC(10,2),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Sangrias (withdrawal) e suprimentos (supply) de dinheiro durante a sessão
+CREATE TABLE public.cash_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.cash_sessions(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('withdrawal', 'supply')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cash_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cash sessions from their units" ON public.cash_sessions
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create cash sessions in their units" ON public.cash_sessions
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update cash sessions in their units" ON public.cash_sessions
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can view cash movements from their units" ON public.cash_movements
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+-- No update/delete: movements are the audit trail of the register
+CREATE POLICY "Users can create cash movements in their units" ON public.cash_movements
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+-- Only one open register per unit
+CREATE UNIQUE INDEX idx_cash_sessions_unit_open ON public.cash_sessions(unit_id) WHERE status = 'open';
+CREATE INDEX idx_cash_sessions_unit_opened_at ON public.cash_sessions(unit_id, opened_at DESC);
+CREATE INDEX idx_cash_movements_session_id ON public.cash_movements(session_id);
+
+-- Trigger to update updated_at on cash_sessions
+CREATE OR REPLACE FUNCTION public.update_cash_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_cash_sessions_updated_at
+BEFORE UPDATE ON public.cash_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_cash_sessions_updated_at();
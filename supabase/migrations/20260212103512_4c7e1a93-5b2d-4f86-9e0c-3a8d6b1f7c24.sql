@@ -0,0 +1,188 @@
+-- Comissão sobre venda de produtos, por profissional
+ALTER TABLE public.barbers
+ADD COLUMN IF NOT EXISTS product_commission_rate INTEGER NOT NULL DEFAULT 0
+CHECK (product_commission_rate >= 0 AND product_commission_rate <= 100);
+
+-- Commission statements (acertos) per barber and period
+CREATE TABLE public.commission_payouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  barber_id UUID NOT NULL REFERENCES public.barbers(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  -- Snapshots taken when the statement is generated
+  services_total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  service_commission NUMERIC(10,2) NOT NULL DEFAULT 0,
+  products_total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  product_commission NUMERIC(10,2) NOT NULL DEFAULT 0,
+  advances_total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  paid_by UUID,
+  payment_method TEXT,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_end >= period_start)
+);
+
+-- Appointments and product sales settled by a statement. Each one can only be settled once.
+CREATE TABLE public.commission_payout_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payout_id UUID NOT NULL REFERENCES public.commission_payouts(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('appointment', 'product_sale')),
+  appointment_id UUID UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  product_sale_id UUID UNIQUE REFERENCES public.product_sales(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  item_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL,
+  commission NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (item_type = 'appointment' AND appointment_id IS NOT NULL AND product_sale_id IS NULL)
+    OR (item_type = 'product_sale' AND product_sale_id IS NOT NULL AND appointment_id IS NULL)
+  )
+);
+
+-- Vales: advances paid to the barber, discounted in the next statement
+CREATE TABLE public.barber_advances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  barber_id UUID NOT NULL REFERENCES public.barbers(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  advance_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payout_id UUID REFERENCES public.commission_payouts(id) ON DELETE SET NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.commission_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_payout_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.barber_advances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view commission payouts from their units" ON public.commission_payouts
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create commission payouts in their units" ON public.commission_payouts
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update commission payouts in their units" ON public.commission_payouts
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+-- Paid statements are permanent
+CREATE POLICY "Users can delete pending commission payouts in their units" ON public.commission_payouts
+  FOR DELETE USING (public.user_owns_unit(unit_id) AND status = 'pending');
+CREATE POLICY "Barbers can view their own commission payouts" ON public.commission_payouts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = commission_payouts.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view commission payout items from their units" ON public.commission_payout_items
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create commission payout items in their units" ON public.commission_payout_items
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Barbers can view their own commission payout items" ON public.commission_payout_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.commission_payouts p
+      JOIN public.barbers b ON b.id = p.barber_id
+      WHERE p.id = commission_payout_items.payout_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view barber advances from their units" ON public.barber_advances
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create barber advances in their units" ON public.barber_advances
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update barber advances in their units" ON public.barber_advances
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete unsettled barber advances in their units" ON public.barber_advances
+  FOR DELETE USING (public.user_owns_unit(unit_id) AND payout_id IS NULL);
+CREATE POLICY "Barbers can view their own advances" ON public.barber_advances
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_advances.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_commission_payouts_unit_id ON public.commission_payouts(unit_id);
+CREATE INDEX idx_commission_payouts_barber_id ON public.commission_payouts(barber_id, period_end DESC);
+CREATE INDEX idx_commission_payout_items_payout_id ON public.commission_payout_items(payout_id);
+CREATE INDEX idx_barber_advances_barber_id ON public.barber_advances(barber_id) WHERE payout_id IS NULL;
+
+-- Trigger to update updated_at on commission_payouts
+CREATE OR REPLACE FUNCTION public.update_commission_payouts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_commission_payouts_updated_at
+BEFORE UPDATE ON public.commission_payouts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_commission_payouts_updated_at();
+
+-- Atendimentos incluídos em um acerto não podem ter valores alterados nem ser excluídos
+CREATE OR REPLACE FUNCTION public.prevent_settled_appointment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.commission_payout_items WHERE appointment_id = OLD.id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE'
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.barber_id IS DISTINCT FROM OLD.barber_id
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time THEN
+    RAISE EXCEPTION 'Atendimento incluído em acerto de comissão não pode ser alterado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_settled_appointment_changes
+BEFORE UPDATE OR DELETE ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_settled_appointment_changes();
+
+-- Mesma regra para vendas de produtos
+CREATE OR REPLACE FUNCTION public.prevent_settled_product_sale_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.commission_payout_items WHERE product_sale_id = OLD.id) THEN
+    RAISE EXCEPTION 'Venda incluída em acerto de comissão não pode ser alterada'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_settled_product_sale_changes
+BEFORE UPDATE OR DELETE ON public.product_sales
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_settled_product_sale_changes();
@@ -0,0 +1,27 @@
+-- Scheduled and throttled marketing campaigns
+-- Status flow: scheduled -> sending <-> paused -> completed (or canceled/failed at any point)
+ALTER TABLE public.marketing_campaigns
+ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE,
+-- NULL = no cap, every pending message is handed to n8n at once
+ADD COLUMN IF NOT EXISTS hourly_limit INTEGER CHECK (hourly_limit IS NULL OR hourly_limit > 0),
+-- Hours (0-23, unit timezone) with no sending; the window may wrap midnight (e.g. 21 -> 8)
+ADD COLUMN IF NOT EXISTS quiet_hours_start SMALLINT CHECK (quiet_hours_start IS NULL OR quiet_hours_start BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS quiet_hours_end SMALLINT CHECK (quiet_hours_end IS NULL OR quiet_hours_end BETWEEN 0 AND 23);
+
+-- 'processing' was the single in-flight status before scheduling existed
+UPDATE public.marketing_campaigns SET status = 'sending' WHERE status = 'processing';
+
+-- When the message was handed to n8n; NULL while it is still waiting for its batch
+ALTER TABLE public.campaign_message_logs
+ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.campaign_message_logs SET dispatched_at = created_at WHERE dispatched_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_marketing_campaigns_scheduled_at
+ON public.marketing_campaigns(scheduled_at)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_message_logs_dispatched_at
+ON public.campaign_message_logs(campaign_id, dispatched_at);
@@ -0,0 +1,77 @@
+-- A/B testing of campaign message templates
+CREATE TABLE public.campaign_variants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.marketing_campaigns(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  message_template TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, label)
+);
+
+ALTER TABLE public.campaign_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view variants from their campaigns" ON public.campaign_variants
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.marketing_campaigns mc
+    WHERE mc.id = campaign_id AND public.user_owns_company(mc.company_id)
+  ));
+CREATE POLICY "Users can create variants for their campaigns" ON public.campaign_variants
+  FOR INSERT WITH CHECK (EXISTS (
+    SELECT 1 FROM public.marketing_campaigns mc
+    WHERE mc.id = campaign_id AND public.user_owns_company(mc.company_id)
+  ));
+
+CREATE INDEX idx_campaign_variants_campaign_id ON public.campaign_variants(campaign_id);
+
+-- Which variant each recipient received (NULL = campaign without A/B test)
+ALTER TABLE public.campaign_message_logs
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_message_logs_variant_id ON public.campaign_message_logs(variant_id);
+
+-- Days after sent_at in which a booking counts as a conversion
+ALTER TABLE public.marketing_campaigns
+ADD COLUMN IF NOT EXISTS conversion_window_days INTEGER NOT NULL DEFAULT 7 CHECK (conversion_window_days > 0);
+
+-- Resultado por variante: enviados, falhas e convertidos (destinatários que marcaram um horário
+-- na unidade da campanha até conversion_window_days dias depois do envio)
+CREATE OR REPLACE FUNCTION public.get_campaign_variant_stats(p_campaign_id uuid)
+RETURNS TABLE (
+  variant_id uuid,
+  label text,
+  message_template text,
+  recipients integer,
+  sent integer,
+  failed integer,
+  converted integer
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT
+    v.id,
+    v.label,
+    v.message_template,
+    COUNT(l.id)::int,
+    COUNT(l.id) FILTER (WHERE l.status = 'sent')::int,
+    COUNT(l.id) FILTER (WHERE l.status = 'failed')::int,
+    COUNT(l.id) FILTER (
+      WHERE l.status = 'sent'
+        AND EXISTS (
+          SELECT 1
+          FROM public.appointments a
+          WHERE a.unit_id = mc.unit_id
+            AND a.client_phone = l.recipient_phone
+            AND a.status <> 'cancelled'
+            AND a.created_at > l.sent_at
+            AND a.created_at <= l.sent_at + make_interval(days => mc.conversion_window_days)
+        )
+    )::int
+  FROM public.campaign_variants v
+  JOIN public.marketing_campaigns mc ON mc.id = v.campaign_id
+  LEFT JOIN public.campaign_message_logs l ON l.variant_id = v.id
+  WHERE v.campaign_id = p_campaign_id
+  GROUP BY v.id, v.label, v.message_template
+  ORDER BY v.label
+$$;
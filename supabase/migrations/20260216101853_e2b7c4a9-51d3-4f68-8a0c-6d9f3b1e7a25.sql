@@ -0,0 +1,93 @@
+-- Retorno de campanhas e automações (atribuição de agendamentos às mensagens enviadas)
+-- Cada agendamento não cancelado é atribuído à última mensagem enviada ao mesmo telefone, na mesma
+-- unidade, até p_window_days dias antes de o agendamento ser criado (último toque). Mensagens são
+-- filtradas pela data de envio; a receita considera apenas agendamentos concluídos.
+CREATE OR REPLACE FUNCTION public.get_marketing_attribution(
+  p_company_id uuid,
+  p_start timestamp with time zone,
+  p_end timestamp with time zone,
+  p_unit_id uuid DEFAULT NULL,
+  p_window_days integer DEFAULT 30
+)
+RETURNS TABLE (
+  source_type text,
+  source_key text,
+  label text,
+  started_at timestamp with time zone,
+  messages_sent integer,
+  bookings integer,
+  completed_bookings integer,
+  revenue numeric,
+  avg_hours_to_book numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH touches AS (
+    SELECT 'campaign'::text AS source_type, mc.id::text AS source_key, mc.unit_id, l.recipient_phone AS phone, l.sent_at
+    FROM public.campaign_message_logs l
+    JOIN public.marketing_campaigns mc ON mc.id = l.campaign_id
+    WHERE mc.company_id = p_company_id
+      AND l.status = 'sent'
+      AND l.sent_at BETWEEN p_start AND p_end
+      AND (p_unit_id IS NULL OR mc.unit_id = p_unit_id)
+    UNION ALL
+    SELECT 'automation'::text, al.automation_type, COALESCE(c.unit_id, ra.unit_id), COALESCE(c.phone, ra.client_phone), al.sent_at
+    FROM public.automation_logs al
+    LEFT JOIN public.clients c ON c.id = al.client_id
+    LEFT JOIN public.appointments ra ON ra.id = al.appointment_id
+    WHERE al.company_id = p_company_id
+      AND al.status = 'sent'
+      AND al.sent_at BETWEEN p_start AND p_end
+      AND (p_unit_id IS NULL OR COALESCE(c.unit_id, ra.unit_id) = p_unit_id)
+  ),
+  attributed AS (
+    SELECT DISTINCT ON (a.id)
+      a.id,
+      a.status,
+      a.total_price,
+      a.created_at,
+      t.source_type,
+      t.source_key,
+      t.sent_at
+    FROM public.appointments a
+    JOIN touches t
+      ON a.unit_id = t.unit_id
+      AND a.client_phone = t.phone
+      AND a.created_at > t.sent_at
+      AND a.created_at <= t.sent_at + make_interval(days => p_window_days)
+    WHERE a.status <> 'cancelled'
+    ORDER BY a.id, t.sent_at DESC
+  ),
+  sent AS (
+    SELECT t.source_type, t.source_key, COUNT(*)::int AS messages_sent
+    FROM touches t
+    GROUP BY t.source_type, t.source_key
+  ),
+  results AS (
+    SELECT
+      at.source_type,
+      at.source_key,
+      COUNT(*)::int AS bookings,
+      COUNT(*) FILTER (WHERE at.status = 'completed')::int AS completed_bookings,
+      COALESCE(SUM(at.total_price) FILTER (WHERE at.status = 'completed'), 0) AS revenue,
+      ROUND(AVG(EXTRACT(EPOCH FROM (at.created_at - at.sent_at)) / 3600)::numeric, 1) AS avg_hours_to_book
+    FROM attributed at
+    GROUP BY at.source_type, at.source_key
+  )
+  SELECT
+    s.source_type,
+    s.source_key,
+    CASE WHEN s.source_type = 'campaign' THEN left(mc.message_template, 120) ELSE s.source_key END,
+    mc.created_at,
+    s.messages_sent,
+    COALESCE(r.bookings, 0),
+    COALESCE(r.completed_bookings, 0),
+    COALESCE(r.revenue, 0),
+    r.avg_hours_to_book
+  FROM sent s
+  LEFT JOIN results r ON r.source_type = s.source_type AND r.source_key = s.source_key
+  LEFT JOIN public.marketing_campaigns mc ON s.source_type = 'campaign' AND mc.id::text = s.source_key
+  ORDER BY COALESCE(r.revenue, 0) DESC, s.messages_sent DESC
+$$;
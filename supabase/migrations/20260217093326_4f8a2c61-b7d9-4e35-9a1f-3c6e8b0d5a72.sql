@@ -0,0 +1,71 @@
+-- Post-visit satisfaction survey (NPS) via WhatsApp
+
+-- When the appointment turned completed (the survey is sent N hours after it)
+ALTER TABLE public.appointments
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing completed appointments are dated by their end time so they are never surveyed
+UPDATE public.appointments SET completed_at = end_time WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_appointment_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed' THEN
+      NEW.completed_at = now();
+    END IF;
+  ELSE
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_appointment_completed_at
+BEFORE INSERT OR UPDATE OF status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_appointment_completed_at();
+
+CREATE INDEX IF NOT EXISTS idx_appointments_completed_at ON public.appointments(completed_at);
+
+-- Survey settings
+ALTER TABLE public.business_settings
+ADD COLUMN IF NOT EXISTS nps_survey_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS nps_survey_delay_hours INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN IF NOT EXISTS nps_survey_template TEXT,
+ADD COLUMN IF NOT EXISTS nps_followup_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS nps_followup_template TEXT;
+
+-- One survey per completed appointment
+CREATE TABLE public.satisfaction_surveys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  barber_id UUID REFERENCES public.barbers(id) ON DELETE SET NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  client_name TEXT NOT NULL,
+  client_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'answered', 'failed')),
+  score SMALLINT CHECK (score IS NULL OR score BETWEEN 0 AND 10),
+  comment TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  answered_at TIMESTAMP WITH TIME ZONE,
+  follow_up_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.satisfaction_surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view surveys from their company" ON public.satisfaction_surveys
+  FOR SELECT USING (public.user_owns_company(company_id));
+CREATE POLICY "Barbers can view their own surveys" ON public.satisfaction_surveys
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.barbers b
+    WHERE b.id = satisfaction_surveys.barber_id AND b.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_satisfaction_surveys_company_id ON public.satisfaction_surveys(company_id);
+CREATE INDEX idx_satisfaction_surveys_unit_id ON public.satisfaction_surveys(unit_id);
+CREATE INDEX idx_satisfaction_surveys_barber_id ON public.satisfaction_surveys(barber_id);
+CREATE INDEX idx_satisfaction_surveys_client_phone ON public.satisfaction_surveys(client_phone);
@@ -0,0 +1,179 @@
+-- Custom multi-step automation workflows
+-- A workflow has one trigger and an ordered list of delayed steps (JSONB, like segment rules):
+--   steps: [{ "delay_hours": 24, "message_template": "...", "conditions": { "stop_if_booked": true, "skip_if_visited_within_days": 7 } }]
+-- delay_hours is counted from the trigger (first step) or from the previous step.
+CREATE TABLE public.automation_workflows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  -- NULL = clients of every unit of the company
+  unit_id UUID REFERENCES public.units(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('first_visit', 'nth_visit', 'no_show', 'courtesy_earned', 'return_due')),
+  -- nth_visit: { "visit_count": 5 }; return_due: { "days_before": 3 }
+  trigger_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  segment_id UUID REFERENCES public.client_segments(id) ON DELETE SET NULL,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.automation_workflows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view workflows from their company" ON public.automation_workflows
+  FOR SELECT USING (public.user_owns_company(company_id));
+CREATE POLICY "Users can create workflows in their company" ON public.automation_workflows
+  FOR INSERT WITH CHECK (public.user_owns_company(company_id));
+CREATE POLICY "Users can update workflows in their company" ON public.automation_workflows
+  FOR UPDATE USING (public.user_owns_company(company_id));
+CREATE POLICY "Users can delete workflows from their company" ON public.automation_workflows
+  FOR DELETE USING (public.user_owns_company(company_id));
+
+CREATE INDEX idx_automation_workflows_company_id ON public.automation_workflows(company_id);
+
+CREATE OR REPLACE FUNCTION public.update_automation_workflows_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_automation_workflows_updated_at
+BEFORE UPDATE ON public.automation_workflows
+FOR EACH ROW
+EXECUTE FUNCTION public.update_automation_workflows_updated_at();
+
+-- One run per client per trigger event; trigger_key identifies the event (appointment, no-show, ...)
+CREATE TABLE public.automation_workflow_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.automation_workflows(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  trigger_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'exited')),
+  -- Index of the next step to run
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  exit_reason TEXT,
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workflow_id, trigger_key)
+);
+
+ALTER TABLE public.automation_workflow_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view workflow runs from their company" ON public.automation_workflow_runs
+  FOR SELECT USING (public.user_owns_company(company_id));
+
+CREATE INDEX idx_automation_workflow_runs_workflow_id ON public.automation_workflow_runs(workflow_id);
+CREATE INDEX idx_automation_workflow_runs_next_run_at ON public.automation_workflow_runs(next_run_at) WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION public.update_automation_workflow_runs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_automation_workflow_runs_updated_at
+BEFORE UPDATE ON public.automation_workflow_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_automation_workflow_runs_updated_at();
+
+-- Workflow messages are logged with automation_type = 'workflow'
+ALTER TABLE public.automation_logs
+ADD COLUMN IF NOT EXISTS workflow_id UUID REFERENCES public.automation_workflows(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_automation_logs_workflow_id ON public.automation_logs(workflow_id);
+
+-- Eventos que disparam cada fluxo ativo da empresa desde p_since (nunca antes da criação do fluxo).
+-- Clientes são vinculados aos agendamentos por unidade e telefone; clientes com opt-out não entram.
+--   first_visit / nth_visit: agendamento concluído que é a 1ª / N-ésima visita concluída do cliente
+--   no_show: falta registrada no histórico de cancelamentos
+--   courtesy_earned: cliente ganhou uma cortesia do fidelidade (total_courtesies_earned mudou)
+--   return_due: faltam days_before dias para o retorno esperado (média entre visitas), sem horário marcado
+CREATE OR REPLACE FUNCTION public.get_workflow_trigger_events(p_company_id uuid, p_since timestamp with time zone)
+RETURNS TABLE (workflow_id uuid, client_id uuid, trigger_key text)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH workflows AS (
+    SELECT w.*, GREATEST(p_since, w.created_at) AS since
+    FROM public.automation_workflows w
+    WHERE w.company_id = p_company_id AND w.is_active
+  ),
+  eligible_clients AS (
+    SELECT c.*
+    FROM public.clients c
+    WHERE c.company_id = p_company_id
+      AND COALESCE(c.marketing_opt_out, false) = false
+  ),
+  visits AS (
+    SELECT a.id, a.unit_id, a.client_phone, a.completed_at,
+      ROW_NUMBER() OVER (PARTITION BY a.unit_id, a.client_phone ORDER BY a.completed_at, a.id) AS visit_number
+    FROM public.appointments a
+    JOIN public.units u ON u.id = a.unit_id AND u.company_id = p_company_id
+    WHERE a.status = 'completed' AND a.completed_at IS NOT NULL
+  )
+  -- Primeira / N-ésima visita
+  SELECT w.id, c.id, v.id::text
+  FROM workflows w
+  JOIN visits v ON v.completed_at >= w.since
+    AND (w.unit_id IS NULL OR v.unit_id = w.unit_id)
+    AND v.visit_number = CASE
+      WHEN w.trigger_type = 'first_visit' THEN 1
+      ELSE GREATEST(COALESCE((w.trigger_config->>'visit_count')::int, 2), 2)
+    END
+  JOIN eligible_clients c ON c.unit_id = v.unit_id AND c.phone = v.client_phone
+  WHERE w.trigger_type IN ('first_visit', 'nth_visit')
+
+  UNION ALL
+
+  -- Falta (no-show)
+  SELECT w.id, c.id, ch.id::text
+  FROM workflows w
+  JOIN public.cancellation_history ch ON ch.is_no_show
+    AND ch.cancelled_at >= w.since
+    AND (w.unit_id IS NULL OR ch.unit_id = w.unit_id)
+  JOIN eligible_clients c ON c.unit_id = ch.unit_id AND c.phone = ch.client_phone
+  WHERE w.trigger_type = 'no_show'
+
+  UNION ALL
+
+  -- Cortesia do fidelidade conquistada (uma execução por cortesia)
+  SELECT w.id, c.id, c.id::text || ':' || c.total_courtesies_earned
+  FROM workflows w
+  JOIN eligible_clients c ON (w.unit_id IS NULL OR c.unit_id = w.unit_id)
+    AND COALESCE(c.total_courtesies_earned, 0) > 0
+    AND COALESCE(c.available_courtesies, 0) > 0
+    AND c.updated_at >= w.since
+  WHERE w.trigger_type = 'courtesy_earned'
+
+  UNION ALL
+
+  -- Perto do retorno habitual (uma execução por última visita)
+  SELECT w.id, r.client_id, r.client_id::text || ':' || r.last_visit
+  FROM workflows w
+  JOIN LATERAL (
+    SELECT c.id AS client_id, MAX(v.completed_at) AS last_visit,
+      (MAX(v.completed_at) - MIN(v.completed_at)) / (COUNT(*) - 1) AS avg_interval
+    FROM eligible_clients c
+    JOIN visits v ON v.unit_id = c.unit_id AND v.client_phone = c.phone
+    WHERE w.unit_id IS NULL OR c.unit_id = w.unit_id
+    GROUP BY c.id
+    HAVING COUNT(*) >= 2
+  ) r ON r.last_visit + r.avg_interval - make_interval(days => COALESCE((w.trigger_config->>'days_before')::int, 0))
+    BETWEEN w.since AND now()
+  WHERE w.trigger_type = 'return_due'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments fa
+      JOIN public.clients fc ON fc.id = r.client_id
+      WHERE fa.unit_id = fc.unit_id
+        AND fa.client_phone = fc.phone
+        AND fa.start_time > now()
+        AND fa.status IN ('pending', 'confirmed')
+    )
+$$;
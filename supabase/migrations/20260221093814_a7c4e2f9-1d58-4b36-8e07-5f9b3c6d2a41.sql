@@ -0,0 +1,285 @@
+-- Inventory ledger: every stock change is a row in stock_movements and the product's
+-- stock_quantity is only changed by the trigger that applies those rows.
+CREATE TABLE public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('sale', 'purchase', 'adjustment', 'loss', 'internal_use')),
+  -- Signed change (+ entrada / - saída)
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  -- Stock right after this movement, filled by the trigger
+  stock_after INTEGER,
+  reason TEXT,
+  product_sale_id UUID REFERENCES public.product_sales(id) ON DELETE SET NULL,
+  purchase_order_id UUID,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Ledger is append-only: no update/delete policies
+CREATE POLICY "Users can view stock movements from their units" ON public.stock_movements
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create stock movements in their units" ON public.stock_movements
+  FOR INSERT WITH CHECK (
+    public.user_owns_unit(unit_id)
+    AND stock_after IS NULL
+    AND movement_type IN ('adjustment', 'loss', 'internal_use')
+  );
+
+CREATE INDEX idx_stock_movements_product_id ON public.stock_movements(product_id, created_at DESC);
+CREATE INDEX idx_stock_movements_unit_id ON public.stock_movements(unit_id, created_at DESC);
+
+-- Aplica a movimentação no estoque do produto. Movimentações que já chegam com stock_after
+-- (estoque inicial do cadastro) só são registradas.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.stock_after IS NULL THEN
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + NEW.quantity
+    WHERE id = NEW.product_id
+    RETURNING stock_quantity INTO NEW.stock_after;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement
+BEFORE INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Vendas passam a baixar o estoque pelo livro de movimentações
+CREATE OR REPLACE FUNCTION public.update_stock_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.stock_movements (unit_id, company_id, product_id, movement_type, quantity, reason, product_sale_id)
+  VALUES (NEW.unit_id, NEW.company_id, NEW.product_id, 'sale', -NEW.quantity, NEW.client_name, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Estoque informado no cadastro do produto
+CREATE OR REPLACE FUNCTION public.log_initial_product_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.stock_quantity <> 0 THEN
+    INSERT INTO public.stock_movements (unit_id, company_id, product_id, movement_type, quantity, stock_after, reason)
+    VALUES (NEW.unit_id, NEW.company_id, NEW.id, 'adjustment', NEW.stock_quantity, NEW.stock_quantity, 'Estoque inicial');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_initial_product_stock
+AFTER INSERT ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.log_initial_product_stock();
+
+-- Opening balance for existing products so the ledger adds up to the current stock
+INSERT INTO public.stock_movements (unit_id, company_id, product_id, movement_type, quantity, stock_after, reason, created_by)
+SELECT unit_id, company_id, id, 'adjustment', stock_quantity, stock_quantity, 'Saldo inicial', NULL
+FROM public.products
+WHERE stock_quantity <> 0;
+
+-- Suppliers
+CREATE TABLE public.suppliers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  document TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suppliers from their units" ON public.suppliers
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create suppliers in their units" ON public.suppliers
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can update suppliers in their units" ON public.suppliers
+  FOR UPDATE USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete suppliers from their units" ON public.suppliers
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_suppliers_unit_id ON public.suppliers(unit_id);
+
+CREATE OR REPLACE FUNCTION public.update_suppliers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_suppliers_updated_at();
+
+-- Purchase orders: draft -> ordered -> received (stock + expense) or cancelled
+CREATE TABLE public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'ordered', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  total_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  received_at TIMESTAMP WITH TIME ZONE,
+  received_by UUID,
+  expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.purchase_order_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  -- Snapshot, kept if the product is deleted later
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_purchase_order_id_fkey
+FOREIGN KEY (purchase_order_id) REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view purchase orders from their units" ON public.purchase_orders
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create purchase orders in their units" ON public.purchase_orders
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id) AND status IN ('draft', 'ordered'));
+-- Receiving goes through receive_purchase_order()
+CREATE POLICY "Users can update open purchase orders in their units" ON public.purchase_orders
+  FOR UPDATE USING (public.user_owns_unit(unit_id) AND status IN ('draft', 'ordered'))
+  WITH CHECK (status IN ('draft', 'ordered', 'cancelled'));
+CREATE POLICY "Users can delete open purchase orders from their units" ON public.purchase_orders
+  FOR DELETE USING (public.user_owns_unit(unit_id) AND status <> 'received');
+
+CREATE POLICY "Users can view purchase order items from their units" ON public.purchase_order_items
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can create purchase order items in their units" ON public.purchase_order_items
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+CREATE POLICY "Users can delete purchase order items from their units" ON public.purchase_order_items
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE INDEX idx_purchase_orders_unit_id ON public.purchase_orders(unit_id, order_date DESC);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+
+CREATE OR REPLACE FUNCTION public.update_purchase_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_purchase_orders_updated_at();
+
+-- Recebe o pedido: lança a entrada de cada item no estoque, atualiza o custo do produto
+-- e registra a despesa (categoria Fornecedores). Retorna o id da despesa.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_order_id uuid, p_payment_method text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order public.purchase_orders%ROWTYPE;
+  v_item RECORD;
+  v_total NUMERIC(10,2) := 0;
+  v_supplier_name TEXT;
+  v_expense_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.id IS NULL OR NOT public.user_owns_unit(v_order.unit_id) THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'ordered') THEN
+    RAISE EXCEPTION 'Este pedido já foi recebido ou cancelado';
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM public.purchase_order_items WHERE purchase_order_id = p_order_id
+  LOOP
+    v_total := v_total + v_item.quantity * v_item.unit_cost;
+
+    IF v_item.product_id IS NOT NULL THEN
+      INSERT INTO public.stock_movements (unit_id, company_id, product_id, movement_type, quantity, reason, purchase_order_id)
+      VALUES (v_order.unit_id, v_order.company_id, v_item.product_id, 'purchase', v_item.quantity, 'Pedido de compra', p_order_id);
+
+      IF v_item.unit_cost > 0 THEN
+        UPDATE public.products SET cost_price = v_item.unit_cost WHERE id = v_item.product_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_total = 0 AND NOT EXISTS (SELECT 1 FROM public.purchase_order_items WHERE purchase_order_id = p_order_id) THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  SELECT name INTO v_supplier_name FROM public.suppliers WHERE id = v_order.supplier_id;
+
+  IF v_total > 0 THEN
+    INSERT INTO public.expenses (unit_id, company_id, category, description, amount, expense_date, payment_method)
+    VALUES (
+      v_order.unit_id,
+      v_order.company_id,
+      'Fornecedores',
+      'Pedido de compra' || COALESCE(' - ' || v_supplier_name, ''),
+      v_total,
+      CURRENT_DATE,
+      p_payment_method
+    )
+    RETURNING id INTO v_expense_id;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'received',
+      total_amount = v_total,
+      received_at = now(),
+      received_by = auth.uid(),
+      expense_id = v_expense_id
+  WHERE id = p_order_id;
+
+  RETURN v_expense_id;
+END;
+$$;
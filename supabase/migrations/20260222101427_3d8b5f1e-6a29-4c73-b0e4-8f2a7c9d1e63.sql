@@ -0,0 +1,110 @@
+-- Barber portal: barbers manage the status of their own appointments
+
+-- Quando o profissional iniciou o atendimento
+ALTER TABLE public.appointments
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+
+-- Profissionais enxergam o próprio cadastro
+CREATE POLICY "Barbers can view their own profile" ON public.barbers
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Profissionais enxergam e atualizam apenas os próprios agendamentos
+CREATE POLICY "Barbers can view their own appointments" ON public.appointments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = appointments.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can update their own appointments" ON public.appointments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = appointments.barber_id
+      AND b.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = appointments.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can view their own appointment services" ON public.appointment_services
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.appointments a
+      JOIN public.barbers b ON b.id = a.barber_id
+      WHERE a.id = appointment_services.appointment_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can view services from their unit" ON public.services
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.unit_id = services.unit_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+-- Faltas marcadas pelo profissional entram no histórico (e geram a taxa de no-show)
+CREATE POLICY "Barbers can record no-shows of their own appointments" ON public.cancellation_history
+  FOR INSERT WITH CHECK (
+    is_no_show = true
+    AND EXISTS (
+      SELECT 1 FROM public.appointments a
+      JOIN public.barbers b ON b.id = a.barber_id
+      WHERE a.id = cancellation_history.appointment_id
+      AND a.unit_id = cancellation_history.unit_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+-- Profissionais só alteram status, pagamento e observações; cliente, horário e valores ficam com o dono
+CREATE OR REPLACE FUNCTION public.restrict_barber_appointment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Dono da unidade e rotinas do sistema (service role) não têm restrição
+  IF auth.uid() IS NULL OR public.user_owns_unit(OLD.unit_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.unit_id, NEW.company_id, NEW.barber_id, NEW.service_id, NEW.client_name, NEW.client_phone, NEW.start_time, NEW.end_time)
+    IS DISTINCT FROM
+    (OLD.unit_id, OLD.company_id, OLD.barber_id, OLD.service_id, OLD.client_name, OLD.client_phone, OLD.start_time, OLD.end_time) THEN
+    RAISE EXCEPTION 'Profissionais podem alterar apenas o status e o pagamento dos seus atendimentos'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Este atendimento já foi encerrado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Cortesias zeram o valor; qualquer outra mudança de preço é do dono
+  IF NEW.total_price IS DISTINCT FROM OLD.total_price
+    AND NOT (NEW.total_price = 0 AND NEW.payment_method = 'courtesy') THEN
+    RAISE EXCEPTION 'Profissionais não podem alterar o valor do atendimento'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_barber_appointment_changes
+BEFORE UPDATE ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_barber_appointment_changes();
+
+CREATE INDEX IF NOT EXISTS idx_barbers_user_id ON public.barbers(user_id);
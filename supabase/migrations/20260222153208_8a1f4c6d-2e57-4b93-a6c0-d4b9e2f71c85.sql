@@ -0,0 +1,35 @@
+-- Barber earnings: monthly goal, own product sales and the owner's commission settings
+
+-- Meta mensal de faturamento do profissional (serviços + produtos)
+ALTER TABLE public.barbers
+ADD COLUMN IF NOT EXISTS monthly_goal NUMERIC(10,2)
+CHECK (monthly_goal IS NULL OR monthly_goal >= 0);
+
+CREATE POLICY "Barbers can view their own product sales" ON public.product_sales
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = product_sales.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+-- Taxas e base de comissão do dono da unidade, para o profissional calcular os próprios ganhos
+CREATE OR REPLACE FUNCTION public.get_barber_commission_settings()
+RETURNS TABLE (
+  debit_card_fee_percent NUMERIC,
+  credit_card_fee_percent NUMERIC,
+  commission_calculation_base TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT bs.debit_card_fee_percent, bs.credit_card_fee_percent, bs.commission_calculation_base
+  FROM public.barbers b
+  JOIN public.units u ON u.id = b.unit_id
+  JOIN public.business_settings bs ON bs.user_id = u.user_id
+  WHERE b.user_id = auth.uid()
+  LIMIT 1
+$$;
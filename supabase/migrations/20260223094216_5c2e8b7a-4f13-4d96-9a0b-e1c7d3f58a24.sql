@@ -0,0 +1,99 @@
+-- Barber self-service availability: hour blocks from the portal and absence requests approved by the owner
+
+-- Bloqueios pontuais de horário (dentista, banco...) criados pelo profissional ou pelo dono
+CREATE TABLE public.barber_time_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  barber_id UUID NOT NULL REFERENCES public.barbers(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+ALTER TABLE public.barber_time_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view barber time blocks from their units" ON public.barber_time_blocks
+  FOR SELECT USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can create barber time blocks in their units" ON public.barber_time_blocks
+  FOR INSERT WITH CHECK (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Users can delete barber time blocks from their units" ON public.barber_time_blocks
+  FOR DELETE USING (public.user_owns_unit(unit_id));
+
+CREATE POLICY "Barbers can view their own time blocks" ON public.barber_time_blocks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_blocks.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can create their own time blocks" ON public.barber_time_blocks
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_blocks.barber_id
+      AND b.unit_id = barber_time_blocks.unit_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can delete their own time blocks" ON public.barber_time_blocks
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_blocks.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_barber_time_blocks_barber_time ON public.barber_time_blocks(barber_id, start_time, end_time);
+CREATE INDEX idx_barber_time_blocks_unit_id ON public.barber_time_blocks(unit_id);
+
+-- Solicitações de ausência: o profissional pede, o dono aprova ou recusa.
+-- Ausências lançadas pelo dono já nascem aprovadas; só as aprovadas bloqueiam a agenda.
+ALTER TABLE public.barber_time_off
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'
+CHECK (status IN ('pending', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE POLICY "Barbers can view their own time off" ON public.barber_time_off
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_off.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can request their own time off" ON public.barber_time_off
+  FOR INSERT WITH CHECK (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_off.barber_id
+      AND b.unit_id = barber_time_off.unit_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can cancel their own pending time off requests" ON public.barber_time_off
+  FOR DELETE USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.barbers b
+      WHERE b.id = barber_time_off.barber_id
+      AND b.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_barber_time_off_pending ON public.barber_time_off(unit_id) WHERE status = 'pending';
+
+-- Notificar o dono em tempo real quando chega uma nova solicitação
+ALTER PUBLICATION supabase_realtime ADD TABLE public.barber_time_off;
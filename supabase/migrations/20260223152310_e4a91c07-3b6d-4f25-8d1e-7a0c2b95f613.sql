@@ -0,0 +1,3 @@
+-- Front desk and unit manager roles (new enum values must be committed before use)
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'receptionist';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'unit_manager';
@@ -0,0 +1,211 @@
+-- Staff accounts: receptionists (agenda and clients) and unit managers (everything for assigned units, no billing)
+
+CREATE TABLE public.staff_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  email TEXT,
+  role public.app_role NOT NULL CHECK (role IN ('receptionist', 'unit_manager')),
+  unit_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  invite_token UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_staff_members_invite_token ON public.staff_members(invite_token) WHERE invite_token IS NOT NULL;
+CREATE UNIQUE INDEX idx_staff_members_company_user ON public.staff_members(company_id, user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX idx_staff_members_user_id ON public.staff_members(user_id);
+
+ALTER TABLE public.staff_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their company staff" ON public.staff_members
+  FOR ALL USING (public.user_owns_company(company_id))
+  WITH CHECK (public.user_owns_company(company_id));
+
+CREATE POLICY "Staff can view their own membership" ON public.staff_members
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.update_staff_members_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_staff_members_updated_at
+BEFORE UPDATE ON public.staff_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_staff_members_updated_at();
+
+-- Qualquer membro ativo da equipe (recepção ou gerente) vinculado à unidade
+CREATE OR REPLACE FUNCTION public.user_is_unit_staff(p_unit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.is_active = true
+    AND p_unit_id = ANY(sm.unit_ids)
+    AND auth.uid() IS NOT NULL
+  )
+$$;
+
+-- Dono da empresa para a qual o usuário trabalha (NULL se não for da equipe).
+-- Configurações, horários e feriados continuam gravados no user_id do dono.
+CREATE OR REPLACE FUNCTION public.get_staff_owner_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.owner_user_id
+  FROM public.staff_members sm
+  JOIN public.companies c ON c.id = sm.company_id
+  WHERE sm.user_id = auth.uid()
+  AND sm.is_active = true
+  ORDER BY sm.created_at
+  LIMIT 1
+$$;
+
+-- O gerente tem na unidade os mesmos acessos do dono: todas as políticas baseadas em
+-- user_owns_unit passam a valer para ele, sem duplicar uma política por tabela.
+CREATE OR REPLACE FUNCTION public.user_owns_unit(unit_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    EXISTS (
+      SELECT 1 FROM public.units
+      WHERE id = user_owns_unit.unit_id
+      AND user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.staff_members sm
+      WHERE sm.user_id = auth.uid()
+      AND sm.is_active = true
+      AND sm.role = 'unit_manager'
+      AND user_owns_unit.unit_id = ANY(sm.unit_ids)
+    )
+  )
+$$;
+
+CREATE POLICY "Staff can view their assigned units" ON public.units
+  FOR SELECT USING (public.user_is_unit_staff(id));
+
+-- Recepção: agenda e clientes da unidade
+CREATE POLICY "Staff can manage appointments in their units" ON public.appointments
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage appointment services in their units" ON public.appointment_services
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage appointment series in their units" ON public.appointment_series
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage appointment deletions in their units" ON public.appointment_deletions
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage cancellation history in their units" ON public.cancellation_history
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage waitlist entries in their units" ON public.waitlist_entries
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage clients in their units" ON public.clients
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage client dependents in their units" ON public.client_dependents
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can manage client fees in their units" ON public.client_fees
+  FOR ALL USING (public.user_is_unit_staff(unit_id))
+  WITH CHECK (public.user_is_unit_staff(unit_id));
+
+-- Cadastros usados pela agenda: somente leitura para a recepção
+CREATE POLICY "Staff can view barbers from their units" ON public.barbers
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view services from their units" ON public.services
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view barber schedules from their units" ON public.barber_schedules
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view barber time off from their units" ON public.barber_time_off
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view barber time blocks from their units" ON public.barber_time_blocks
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view client plans from their units" ON public.client_plans
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view client plan usages from their units" ON public.client_plan_usages
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+CREATE POLICY "Staff can view service plans from their units" ON public.service_plans
+  FOR SELECT USING (public.user_is_unit_staff(unit_id));
+
+-- Expediente e configurações do dono, necessários para montar a agenda
+CREATE POLICY "Staff can view their company business settings" ON public.business_settings
+  FOR SELECT USING (user_id = public.get_staff_owner_id());
+
+CREATE POLICY "Staff can view their company business hours" ON public.business_hours
+  FOR SELECT USING (user_id = public.get_staff_owner_id());
+
+CREATE POLICY "Staff can view their company holidays" ON public.holidays
+  FOR SELECT USING (user_id = public.get_staff_owner_id());
+
+-- A recepção remarca e edita agendamentos livremente; a restrição vale só para profissionais
+CREATE OR REPLACE FUNCTION public.restrict_barber_appointment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Dono/gerente da unidade, recepção e rotinas do sistema (service role) não têm restrição
+  IF auth.uid() IS NULL OR public.user_owns_unit(OLD.unit_id) OR public.user_is_unit_staff(OLD.unit_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.unit_id, NEW.company_id, NEW.barber_id, NEW.service_id, NEW.client_name, NEW.client_phone, NEW.start_time, NEW.end_time)
+    IS DISTINCT FROM
+    (OLD.unit_id, OLD.company_id, OLD.barber_id, OLD.service_id, OLD.client_name, OLD.client_phone, OLD.start_time, OLD.end_time) THEN
+    RAISE EXCEPTION 'Profissionais podem alterar apenas o status e o pagamento dos seus atendimentos'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Este atendimento já foi encerrado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Cortesias zeram o valor; qualquer outra mudança de preço é do dono
+  IF NEW.total_price IS DISTINCT FROM OLD.total_price
+    AND NOT (NEW.total_price = 0 AND NEW.payment_method = 'courtesy') THEN
+    RAISE EXCEPTION 'Profissionais não podem alterar o valor do atendimento'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,172 @@
+-- Plan entitlements: resolve plan_features values for a company and enforce numeric limits
+
+-- Faixa do plano usada para ler plan_features (inicial / profissional / franquias).
+-- Planos antigos (professional, elite, empire) caem na faixa equivalente; super admins não têm limite.
+CREATE OR REPLACE FUNCTION public.get_company_plan_tier(p_company_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = c.owner_user_id
+      AND ur.role = 'super_admin'
+    ) THEN 'franquias'
+    WHEN c.plan_type IN ('inicial', 'profissional', 'franquias') THEN c.plan_type
+    WHEN c.plan_type = 'empire' THEN 'franquias'
+    ELSE 'profissional'
+  END
+  FROM public.companies c
+  WHERE c.id = p_company_id
+$$;
+
+-- Valor de um recurso para a empresa ('true'/'false', número ou 'unlimited'); NULL se o recurso não existir
+CREATE OR REPLACE FUNCTION public.get_plan_entitlement(p_company_id uuid, p_feature_key text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE public.get_company_plan_tier(p_company_id)
+    WHEN 'inicial' THEN pf.inicial_value
+    WHEN 'franquias' THEN pf.franquias_value
+    ELSE pf.profissional_value
+  END
+  FROM public.plan_features pf
+  WHERE pf.feature_key = p_feature_key
+$$;
+
+-- Todos os recursos do plano da empresa, lidos pelo app (dono e equipe) e pelas edge functions
+CREATE OR REPLACE FUNCTION public.get_company_entitlements(p_company_id uuid)
+RETURNS TABLE (feature_key text, feature_name text, feature_type text, value text, plan_tier text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pf.feature_key,
+    pf.feature_name,
+    pf.feature_type,
+    public.get_plan_entitlement(p_company_id, pf.feature_key),
+    public.get_company_plan_tier(p_company_id)
+  FROM public.plan_features pf
+  WHERE auth.uid() IS NULL
+    OR public.user_owns_company(p_company_id)
+    OR EXISTS (
+      SELECT 1 FROM public.staff_members sm
+      WHERE sm.company_id = p_company_id
+      AND sm.user_id = auth.uid()
+      AND sm.is_active = true
+    )
+  ORDER BY pf.display_order
+$$;
+
+-- Limites numéricos: NULL quando ilimitado ou não configurado
+CREATE OR REPLACE FUNCTION public.get_plan_limit(p_company_id uuid, p_feature_key text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN v.value ~ '^[0-9]+$' THEN v.value::integer
+    ELSE NULL
+  END
+  FROM (SELECT public.get_plan_entitlement(p_company_id, p_feature_key) AS value) v
+$$;
+
+-- Unidades: bloqueia a criação acima do limite do plano
+CREATE OR REPLACE FUNCTION public.enforce_units_plan_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit integer;
+  v_count integer;
+BEGIN
+  -- Rotinas do sistema (service role) não têm restrição
+  IF auth.uid() IS NULL OR NEW.company_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_limit := public.get_plan_limit(NEW.company_id, 'max_units');
+  IF v_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.units
+  WHERE company_id = NEW.company_id;
+
+  IF v_count >= v_limit THEN
+    RAISE EXCEPTION 'Seu plano permite até % unidade(s). Faça upgrade em Assinatura para adicionar mais.', v_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_units_plan_limit
+BEFORE INSERT ON public.units
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_units_plan_limit();
+
+-- Profissionais: conta apenas os ativos, então reativar alguém também respeita o limite
+CREATE OR REPLACE FUNCTION public.enforce_barbers_plan_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_limit integer;
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL OR NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT company_id INTO v_company_id FROM public.units WHERE id = NEW.unit_id;
+  IF v_company_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_limit := public.get_plan_limit(v_company_id, 'max_professionals');
+  IF v_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.barbers b
+  JOIN public.units u ON u.id = b.unit_id
+  WHERE u.company_id = v_company_id
+  AND b.is_active = true
+  AND b.id <> NEW.id;
+
+  IF v_count >= v_limit THEN
+    RAISE EXCEPTION 'Seu plano permite até % profissional(is) ativo(s). Faça upgrade em Assinatura para adicionar mais.', v_limit
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_barbers_plan_limit
+BEFORE INSERT OR UPDATE OF is_active ON public.barbers
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_barbers_plan_limit();
@@ -0,0 +1,167 @@
+-- Stock ledger hardening: manual adjustments and purchase orders go through RPCs and
+-- products.stock_quantity can only change through stock_movements.
+
+-- O trigger preenche stock_after antes da checagem de RLS, então a política de INSERT
+-- nunca passava. Ajustes manuais agora só entram por adjust_product_stock().
+DROP POLICY IF EXISTS "Users can create stock movements in their units" ON public.stock_movements;
+
+-- Marca a atualização feita pelo livro de movimentações para o trigger de proteção abaixo
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.stock_after IS NULL THEN
+    PERFORM set_config('app.stock_ledger', 'on', true);
+
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + NEW.quantity
+    WHERE id = NEW.product_id
+    RETURNING stock_quantity INTO NEW.stock_after;
+
+    PERFORM set_config('app.stock_ledger', 'off', true);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Escrita direta em stock_quantity pelo app pularia o livro de movimentações
+CREATE OR REPLACE FUNCTION public.protect_product_stock_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity
+    AND auth.uid() IS NOT NULL
+    AND current_setting('app.stock_ledger', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'O estoque só pode ser alterado por movimentações de estoque'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_product_stock_quantity
+BEFORE UPDATE OF stock_quantity ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_product_stock_quantity();
+
+-- Ajuste manual (inventário, perda, uso interno). Retorna o estoque após a movimentação.
+CREATE OR REPLACE FUNCTION public.adjust_product_stock(
+  p_product_id uuid,
+  p_movement_type text,
+  p_quantity integer,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+  v_stock_after integer;
+BEGIN
+  IF p_movement_type NOT IN ('adjustment', 'loss', 'internal_use') THEN
+    RAISE EXCEPTION 'Tipo de movimentação inválido';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Quantidade deve ser diferente de zero';
+  END IF;
+
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id FOR UPDATE;
+
+  IF v_product.id IS NULL OR NOT public.user_owns_unit(v_product.unit_id) THEN
+    RAISE EXCEPTION 'Produto não encontrado';
+  END IF;
+
+  INSERT INTO public.stock_movements (unit_id, company_id, product_id, movement_type, quantity, reason)
+  VALUES (v_product.unit_id, v_product.company_id, v_product.id, p_movement_type, p_quantity, NULLIF(trim(p_reason), ''))
+  RETURNING stock_after INTO v_stock_after;
+
+  RETURN v_stock_after;
+END;
+$$;
+
+-- Cria o pedido e os itens na mesma transação. p_items: [{product_id, product_name, quantity, unit_cost}]
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_unit_id uuid,
+  p_supplier_id uuid,
+  p_status text,
+  p_order_date date,
+  p_expected_date date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_order_id uuid;
+BEGIN
+  IF NOT public.user_owns_unit(p_unit_id) THEN
+    RAISE EXCEPTION 'Unidade não encontrada';
+  END IF;
+
+  IF p_status NOT IN ('draft', 'ordered') THEN
+    RAISE EXCEPTION 'Status inválido para um novo pedido';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Adicione pelo menos um produto';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.suppliers WHERE id = p_supplier_id AND unit_id = p_unit_id
+  ) THEN
+    RAISE EXCEPTION 'Fornecedor não encontrado';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.id = (item->>'product_id')::uuid
+      AND p.unit_id = p_unit_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Produto não encontrado nesta unidade';
+  END IF;
+
+  SELECT company_id INTO v_company_id FROM public.units WHERE id = p_unit_id;
+
+  INSERT INTO public.purchase_orders (unit_id, company_id, supplier_id, status, order_date, expected_date, notes)
+  VALUES (p_unit_id, v_company_id, p_supplier_id, p_status, COALESCE(p_order_date, CURRENT_DATE), p_expected_date, p_notes)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, unit_id, product_id, product_name, quantity, unit_cost)
+  SELECT
+    v_order_id,
+    p_unit_id,
+    (item->>'product_id')::uuid,
+    item->>'product_name',
+    (item->>'quantity')::integer,
+    COALESCE((item->>'unit_cost')::numeric, 0)
+  FROM jsonb_array_elements(p_items) item;
+
+  UPDATE public.purchase_orders
+  SET total_amount = (
+    SELECT COALESCE(SUM(quantity * unit_cost), 0)
+    FROM public.purchase_order_items
+    WHERE purchase_order_id = v_order_id
+  )
+  WHERE id = v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
@@ -0,0 +1,111 @@
+-- Staff members hardening: unit_ids must belong to the company, and user_id / invite_token are
+-- only written by the invite flow (link-staff-account, service role) and regenerate_staff_invite_token().
+
+CREATE OR REPLACE FUNCTION public.validate_staff_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Só unidades da própria empresa; do contrário user_owns_unit liberaria unidades de outro cliente
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(NEW.unit_ids) AS staff_unit(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.units u
+      WHERE u.id = staff_unit.id
+      AND u.company_id = NEW.company_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Unidade inválida para esta empresa'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Rotinas do sistema (service role) vinculam a conta e limpam o convite
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A conta do membro é vinculada pelo convite'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    NEW.invite_token := gen_random_uuid();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A conta do membro é vinculada pelo convite'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NEW.invite_token IS DISTINCT FROM OLD.invite_token
+    AND current_setting('app.staff_invite', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Use a opção de gerar um novo convite'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_staff_member
+BEFORE INSERT OR UPDATE ON public.staff_members
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_staff_member();
+
+-- Novo link de convite para um membro que ainda não criou a conta
+CREATE OR REPLACE FUNCTION public.regenerate_staff_invite_token(p_staff_member_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_member public.staff_members%ROWTYPE;
+  v_token uuid := gen_random_uuid();
+BEGIN
+  SELECT * INTO v_member FROM public.staff_members WHERE id = p_staff_member_id FOR UPDATE;
+
+  IF v_member.id IS NULL OR NOT public.user_owns_company(v_member.company_id) THEN
+    RAISE EXCEPTION 'Membro não encontrado';
+  END IF;
+
+  IF v_member.user_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Este membro já possui uma conta vinculada';
+  END IF;
+
+  PERFORM set_config('app.staff_invite', 'on', true);
+  UPDATE public.staff_members SET invite_token = v_token WHERE id = p_staff_member_id;
+  PERFORM set_config('app.staff_invite', 'off', true);
+
+  RETURN v_token;
+END;
+$$;
+
+-- Situação da assinatura da empresa em que o usuário trabalha, para o bloqueio de acesso da equipe.
+-- A equipe não lê companies diretamente (dados de cobrança do dono).
+CREATE OR REPLACE FUNCTION public.get_staff_company_status()
+RETURNS TABLE (
+  plan_status text,
+  trial_ends_at timestamptz,
+  is_blocked boolean,
+  is_partner boolean,
+  partner_ends_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT c.plan_status, c.trial_ends_at, c.is_blocked, c.is_partner, c.partner_ends_at
+  FROM public.staff_members sm
+  JOIN public.companies c ON c.id = sm.company_id
+  WHERE sm.user_id = auth.uid()
+  AND sm.is_active = true
+  ORDER BY sm.created_at
+  LIMIT 1
+$$;
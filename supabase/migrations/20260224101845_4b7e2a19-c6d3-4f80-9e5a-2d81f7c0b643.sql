@@ -0,0 +1,146 @@
+-- Public booking hardening: per-IP / per-phone rate limit and a single RPC that re-checks
+-- the barber's agenda under a lock before creating the client and the appointment.
+
+CREATE TABLE public.public_booking_attempts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  unit_id uuid NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  ip_address text NOT NULL,
+  phone text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Sem políticas: só a edge function public-booking (service role) lê e grava
+ALTER TABLE public.public_booking_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_public_booking_attempts_ip ON public.public_booking_attempts (ip_address, created_at);
+CREATE INDEX idx_public_booking_attempts_phone ON public.public_booking_attempts (phone, created_at);
+
+-- Registra a tentativa e retorna false quando o IP ou o telefone passou do limite
+CREATE OR REPLACE FUNCTION public.check_public_booking_rate_limit(
+  p_unit_id uuid,
+  p_ip_address text,
+  p_phone text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_ip_attempts integer;
+  v_phone_attempts integer;
+BEGIN
+  DELETE FROM public.public_booking_attempts WHERE created_at < now() - interval '1 day';
+
+  SELECT count(*) INTO v_ip_attempts
+  FROM public.public_booking_attempts
+  WHERE ip_address = p_ip_address
+  AND created_at > now() - interval '1 hour';
+
+  SELECT count(*) INTO v_phone_attempts
+  FROM public.public_booking_attempts
+  WHERE phone = p_phone
+  AND created_at > now() - interval '1 day';
+
+  INSERT INTO public.public_booking_attempts (unit_id, ip_address, phone)
+  VALUES (p_unit_id, p_ip_address, p_phone);
+
+  RETURN v_ip_attempts < 10 AND v_phone_attempts < 5;
+END;
+$$;
+
+-- Cria cliente (se preciso), agendamento e serviço na mesma transação.
+-- Retorna NULL quando o horário do profissional foi ocupado desde a consulta de disponibilidade.
+CREATE OR REPLACE FUNCTION public.create_online_appointment(
+  p_unit_id uuid,
+  p_barber_id uuid,
+  p_service_id uuid,
+  p_start_time timestamptz,
+  p_client_name text,
+  p_client_phone text,
+  p_phone_variations text[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_unit public.units%ROWTYPE;
+  v_service public.services%ROWTYPE;
+  v_end_time timestamptz;
+  v_client public.clients%ROWTYPE;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO v_unit FROM public.units WHERE id = p_unit_id;
+
+  SELECT * INTO v_service
+  FROM public.services
+  WHERE id = p_service_id
+  AND unit_id = p_unit_id
+  AND is_active = true;
+
+  IF v_unit.id IS NULL OR v_service.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.barbers
+    WHERE id = p_barber_id
+    AND unit_id = p_unit_id
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Serviço ou profissional não encontrado';
+  END IF;
+
+  v_end_time := p_start_time + make_interval(mins => v_service.duration_minutes);
+
+  -- Serializa agendamentos do mesmo profissional até o fim da transação
+  PERFORM pg_advisory_xact_lock(hashtextextended('appointments:' || p_barber_id::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE barber_id = p_barber_id
+    AND status <> 'cancelled'
+    AND start_time < v_end_time
+    AND end_time > p_start_time
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Mesma busca flexível do agenda-api (variações com/sem 9º dígito e DDI)
+  SELECT * INTO v_client
+  FROM public.clients
+  WHERE unit_id = p_unit_id
+  AND phone = ANY(p_phone_variations)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_client.id IS NULL THEN
+    INSERT INTO public.clients (unit_id, company_id, name, phone, tags, total_visits)
+    VALUES (p_unit_id, v_unit.company_id, p_client_name, p_client_phone, ARRAY['Novo'], 0)
+    RETURNING * INTO v_client;
+  END IF;
+
+  INSERT INTO public.appointments (
+    unit_id, company_id, barber_id, service_id, client_name, client_phone,
+    start_time, end_time, total_price, status, source
+  )
+  VALUES (
+    p_unit_id, v_unit.company_id, p_barber_id, v_service.id, v_client.name, COALESCE(v_client.phone, p_client_phone),
+    p_start_time, v_end_time, v_service.price, 'pending', 'online'
+  )
+  RETURNING id INTO v_appointment_id;
+
+  INSERT INTO public.appointment_services (
+    appointment_id, service_id, unit_id, company_id, service_name, price, duration_minutes, position
+  )
+  VALUES (
+    v_appointment_id, v_service.id, p_unit_id, v_unit.company_id, v_service.name, v_service.price, v_service.duration_minutes, 0
+  );
+
+  RETURN v_appointment_id;
+END;
+$$;
+
+-- Chamadas apenas pela edge function (service role); o agendamento público não fala direto com o banco
+REVOKE EXECUTE ON FUNCTION public.check_public_booking_rate_limit(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_online_appointment(uuid, uuid, uuid, timestamptz, text, text, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_public_booking_rate_limit(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.create_online_appointment(uuid, uuid, uuid, timestamptz, text, text, text[]) TO service_role;
@@ -0,0 +1,86 @@
+-- Workflow triggers: first/nth visit count the visits imported with the client (imported_visits),
+-- matching clients.total_visits.
+
+CREATE OR REPLACE FUNCTION public.get_workflow_trigger_events(p_company_id uuid, p_since timestamp with time zone)
+RETURNS TABLE (workflow_id uuid, client_id uuid, trigger_key text)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH workflows AS (
+    SELECT w.*, GREATEST(p_since, w.created_at) AS since
+    FROM public.automation_workflows w
+    WHERE w.company_id = p_company_id AND w.is_active
+  ),
+  eligible_clients AS (
+    SELECT c.*
+    FROM public.clients c
+    WHERE c.company_id = p_company_id
+      AND COALESCE(c.marketing_opt_out, false) = false
+  ),
+  visits AS (
+    SELECT a.id, a.unit_id, a.client_phone, a.completed_at,
+      ROW_NUMBER() OVER (PARTITION BY a.unit_id, a.client_phone ORDER BY a.completed_at, a.id) AS visit_number
+    FROM public.appointments a
+    JOIN public.units u ON u.id = a.unit_id AND u.company_id = p_company_id
+    WHERE a.status = 'completed' AND a.completed_at IS NOT NULL
+  )
+  -- Primeira / N-ésima visita (contando as visitas importadas do sistema anterior)
+  SELECT w.id, c.id, v.id::text
+  FROM workflows w
+  JOIN visits v ON v.completed_at >= w.since
+    AND (w.unit_id IS NULL OR v.unit_id = w.unit_id)
+  JOIN eligible_clients c ON c.unit_id = v.unit_id AND c.phone = v.client_phone
+  WHERE w.trigger_type IN ('first_visit', 'nth_visit')
+    AND v.visit_number + COALESCE(c.imported_visits, 0) = CASE
+      WHEN w.trigger_type = 'first_visit' THEN 1
+      ELSE GREATEST(COALESCE((w.trigger_config->>'visit_count')::int, 2), 2)
+    END
+
+  UNION ALL
+
+  -- Falta (no-show)
+  SELECT w.id, c.id, ch.id::text
+  FROM workflows w
+  JOIN public.cancellation_history ch ON ch.is_no_show
+    AND ch.cancelled_at >= w.since
+    AND (w.unit_id IS NULL OR ch.unit_id = w.unit_id)
+  JOIN eligible_clients c ON c.unit_id = ch.unit_id AND c.phone = ch.client_phone
+  WHERE w.trigger_type = 'no_show'
+
+  UNION ALL
+
+  -- Cortesia do fidelidade conquistada (uma execução por cortesia)
+  SELECT w.id, c.id, c.id::text || ':' || c.total_courtesies_earned
+  FROM workflows w
+  JOIN eligible_clients c ON (w.unit_id IS NULL OR c.unit_id = w.unit_id)
+    AND COALESCE(c.total_courtesies_earned, 0) > 0
+    AND COALESCE(c.available_courtesies, 0) > 0
+    AND c.updated_at >= w.since
+  WHERE w.trigger_type = 'courtesy_earned'
+
+  UNION ALL
+
+  -- Perto do retorno habitual (uma execução por última visita)
+  SELECT w.id, r.client_id, r.client_id::text || ':' || r.last_visit
+  FROM workflows w
+  JOIN LATERAL (
+    SELECT c.id AS client_id, MAX(v.completed_at) AS last_visit,
+      (MAX(v.completed_at) - MIN(v.completed_at)) / (COUNT(*) - 1) AS avg_interval
+    FROM eligible_clients c
+    JOIN visits v ON v.unit_id = c.unit_id AND v.client_phone = c.phone
+    WHERE w.unit_id IS NULL OR c.unit_id = w.unit_id
+    GROUP BY c.id
+    HAVING COUNT(*) >= 2
+  ) r ON r.last_visit + r.avg_interval - make_interval(days => COALESCE((w.trigger_config->>'days_before')::int, 0))
+    BETWEEN w.since AND now()
+  WHERE w.trigger_type = 'return_due'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments fa
+      JOIN public.clients fc ON fc.id = r.client_id
+      WHERE fa.unit_id = fc.unit_id
+        AND fa.client_phone = fc.phone
+        AND fa.start_time > now()
+        AND fa.status IN ('pending', 'confirmed')
+    )
+$$;
@@ -0,0 +1,28 @@
+-- Campaign batches: claim the pending messages atomically so overlapping dispatch runs
+-- (cron, resume, first batch) never hand the same message to n8n twice.
+
+CREATE OR REPLACE FUNCTION public.claim_campaign_messages(p_campaign_id uuid, p_limit integer)
+RETURNS TABLE (id uuid, recipient_phone text, recipient_name text, variant_id uuid)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE public.campaign_message_logs l
+  SET dispatched_at = now()
+  WHERE l.id IN (
+    SELECT p.id
+    FROM public.campaign_message_logs p
+    WHERE p.campaign_id = p_campaign_id
+    AND p.status = 'pending'
+    AND p.dispatched_at IS NULL
+    ORDER BY p.created_at
+    LIMIT p_limit
+    -- Outra execução já reservando as mesmas mensagens fica com as seguintes
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING l.id, l.recipient_phone, l.recipient_name, l.variant_id
+$$;
+
+-- Apenas as edge functions (service role) despacham campanhas
+REVOKE EXECUTE ON FUNCTION public.claim_campaign_messages(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_campaign_messages(uuid, integer) TO service_role;
@@ -0,0 +1,13 @@
+-- Plan entitlements: get_company_entitlements lets auth.uid() IS NULL through for the edge functions,
+-- which also matched the anon role. Only signed-in users and the service role may call it now.
+
+REVOKE EXECUTE ON FUNCTION public.get_company_entitlements(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_company_entitlements(uuid) TO authenticated, service_role;
+
+-- Funções auxiliares usadas apenas dentro de outras funções SECURITY DEFINER (triggers de limite)
+REVOKE EXECUTE ON FUNCTION public.get_company_plan_tier(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_plan_entitlement(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_plan_limit(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_company_plan_tier(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_plan_entitlement(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_plan_limit(uuid, text) TO service_role;
@@ -0,0 +1,22 @@
+-- Waitlist phones: same 55 + DDD normalization as clients and appointments, so offers and
+-- the booking match (client_phone) find the entry.
+
+CREATE OR REPLACE FUNCTION sanitize_waitlist_phone_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.client_phone := sanitize_brazilian_phone(NEW.client_phone, NEW.unit_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sanitize_waitlist_phone ON waitlist_entries;
+CREATE TRIGGER trigger_sanitize_waitlist_phone
+  BEFORE INSERT OR UPDATE OF client_phone ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION sanitize_waitlist_phone_trigger();
+
+-- Entradas já cadastradas pelo painel sem o DDI
+UPDATE waitlist_entries
+SET client_phone = sanitize_brazilian_phone(client_phone, unit_id)
+WHERE regexp_replace(client_phone, '\D', '', 'g') <> ''
+  AND client_phone IS DISTINCT FROM sanitize_brazilian_phone(client_phone, unit_id);
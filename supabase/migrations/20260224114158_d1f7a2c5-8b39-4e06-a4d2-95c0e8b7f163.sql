@@ -0,0 +1,223 @@
+-- Commission statements hardening: barbers with statements or advances can't be deleted, paid
+-- statements are permanent, and a statement is generated in a single RPC that claims its items
+-- and advances atomically.
+
+-- Excluir o profissional apagava o histórico de acertos e vales. NO ACTION (e não RESTRICT) para
+-- que a exclusão de uma unidade, que remove profissionais e acertos em cascata, continue funcionando.
+ALTER TABLE public.commission_payouts
+  DROP CONSTRAINT commission_payouts_barber_id_fkey,
+  ADD CONSTRAINT commission_payouts_barber_id_fkey
+    FOREIGN KEY (barber_id) REFERENCES public.barbers(id) ON DELETE NO ACTION;
+
+ALTER TABLE public.barber_advances
+  DROP CONSTRAINT barber_advances_barber_id_fkey,
+  ADD CONSTRAINT barber_advances_barber_id_fkey
+    FOREIGN KEY (barber_id) REFERENCES public.barbers(id) ON DELETE NO ACTION;
+
+-- Acerto pago não volta para pendente, não tem valores alterados e não pode ser excluído
+CREATE OR REPLACE FUNCTION public.protect_paid_commission_payout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Rotinas do sistema e exclusão em cascata da unidade/empresa
+  IF OLD.status <> 'paid' OR auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE'
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.barber_id IS DISTINCT FROM OLD.barber_id
+    OR NEW.period_start IS DISTINCT FROM OLD.period_start
+    OR NEW.period_end IS DISTINCT FROM OLD.period_end
+    OR NEW.services_total IS DISTINCT FROM OLD.services_total
+    OR NEW.service_commission IS DISTINCT FROM OLD.service_commission
+    OR NEW.products_total IS DISTINCT FROM OLD.products_total
+    OR NEW.product_commission IS DISTINCT FROM OLD.product_commission
+    OR NEW.advances_total IS DISTINCT FROM OLD.advances_total
+    OR NEW.net_amount IS DISTINCT FROM OLD.net_amount
+    OR NEW.paid_at IS DISTINCT FROM OLD.paid_at
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method THEN
+    RAISE EXCEPTION 'Acerto de comissão pago não pode ser alterado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_paid_commission_payout
+BEFORE UPDATE OR DELETE ON public.commission_payouts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_paid_commission_payout();
+
+-- Vales só entram em um acerto por create_commission_payout() e não mudam depois de pagos.
+-- Excluir um acerto pendente devolve os vales (ON DELETE SET NULL, em cascata), o que continua permitido.
+CREATE OR REPLACE FUNCTION public.protect_settled_barber_advance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF OLD.payout_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.commission_payouts
+    WHERE id = OLD.payout_id
+    AND status = 'paid'
+  ) THEN
+    RAISE EXCEPTION 'Vale incluído em acerto pago não pode ser alterado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.payout_id IS DISTINCT FROM OLD.payout_id
+    AND current_setting('app.commission_payout', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Vales são incluídos pelo acerto de comissão'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_settled_barber_advance
+BEFORE UPDATE OR DELETE ON public.barber_advances
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_settled_barber_advance();
+
+-- Acertos e itens entram apenas pela RPC abaixo, que calcula os totais
+DROP POLICY IF EXISTS "Users can create commission payouts in their units" ON public.commission_payouts;
+DROP POLICY IF EXISTS "Users can create commission payout items in their units" ON public.commission_payout_items;
+
+-- Gera o acerto, os itens e reserva os vales na mesma transação; os totais são calculados aqui.
+-- p_items: [{item_type, appointment_id, product_sale_id, description, item_date, amount, commission}]
+CREATE OR REPLACE FUNCTION public.create_commission_payout(
+  p_unit_id uuid,
+  p_barber_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_notes text,
+  p_items jsonb,
+  p_advance_ids uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_company_id uuid;
+  v_payout_id uuid;
+  v_claimed integer;
+BEGIN
+  IF NOT public.user_owns_unit(p_unit_id) THEN
+    RAISE EXCEPTION 'Unidade não encontrada';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.barbers WHERE id = p_barber_id AND unit_id = p_unit_id) THEN
+    RAISE EXCEPTION 'Profissional não encontrado';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' THEN
+    RAISE EXCEPTION 'Itens inválidos';
+  END IF;
+
+  IF jsonb_array_length(p_items) = 0 AND COALESCE(array_length(p_advance_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Nada a acertar no período selecionado';
+  END IF;
+
+  -- Só atendimentos concluídos e vendas do próprio profissional nesta unidade
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) item
+    WHERE NOT CASE item->>'item_type'
+      WHEN 'appointment' THEN EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = (item->>'appointment_id')::uuid
+        AND a.unit_id = p_unit_id
+        AND a.barber_id = p_barber_id
+        AND a.status = 'completed'
+      )
+      WHEN 'product_sale' THEN EXISTS (
+        SELECT 1 FROM public.product_sales s
+        WHERE s.id = (item->>'product_sale_id')::uuid
+        AND s.unit_id = p_unit_id
+        AND s.barber_id = p_barber_id
+      )
+      ELSE false
+    END
+  ) THEN
+    RAISE EXCEPTION 'Item não pertence a este profissional';
+  END IF;
+
+  SELECT company_id INTO v_company_id FROM public.units WHERE id = p_unit_id;
+
+  INSERT INTO public.commission_payouts (unit_id, company_id, barber_id, period_start, period_end, notes, created_by)
+  VALUES (p_unit_id, v_company_id, p_barber_id, p_period_start, p_period_end, NULLIF(trim(p_notes), ''), auth.uid())
+  RETURNING id INTO v_payout_id;
+
+  BEGIN
+    INSERT INTO public.commission_payout_items (
+      payout_id, unit_id, item_type, appointment_id, product_sale_id, description, item_date, amount, commission
+    )
+    SELECT
+      v_payout_id,
+      p_unit_id,
+      item->>'item_type',
+      (item->>'appointment_id')::uuid,
+      (item->>'product_sale_id')::uuid,
+      item->>'description',
+      (item->>'item_date')::timestamptz,
+      (item->>'amount')::numeric,
+      (item->>'commission')::numeric
+    FROM jsonb_array_elements(p_items) item;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Alguns atendimentos já foram incluídos em outro acerto. Gere o extrato novamente.';
+  END;
+
+  -- Reserva os vales; se algum já entrou em outro acerto, nada é gravado
+  PERFORM set_config('app.commission_payout', 'on', true);
+
+  UPDATE public.barber_advances
+  SET payout_id = v_payout_id
+  WHERE id = ANY(COALESCE(p_advance_ids, '{}'))
+  AND unit_id = p_unit_id
+  AND barber_id = p_barber_id
+  AND payout_id IS NULL;
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  PERFORM set_config('app.commission_payout', 'off', true);
+
+  IF v_claimed <> COALESCE(array_length(p_advance_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Alguns vales já foram incluídos em outro acerto. Gere o extrato novamente.';
+  END IF;
+
+  UPDATE public.commission_payouts p
+  SET
+    services_total = t.services_total,
+    service_commission = t.service_commission,
+    products_total = t.products_total,
+    product_commission = t.product_commission,
+    advances_total = t.advances_total,
+    net_amount = t.service_commission + t.product_commission - t.advances_total
+  FROM (
+    SELECT
+      COALESCE(SUM(i.amount) FILTER (WHERE i.item_type = 'appointment'), 0) AS services_total,
+      COALESCE(SUM(i.commission) FILTER (WHERE i.item_type = 'appointment'), 0) AS service_commission,
+      COALESCE(SUM(i.amount) FILTER (WHERE i.item_type = 'product_sale'), 0) AS products_total,
+      COALESCE(SUM(i.commission) FILTER (WHERE i.item_type = 'product_sale'), 0) AS product_commission,
+      (SELECT COALESCE(SUM(a.amount), 0) FROM public.barber_advances a WHERE a.payout_id = v_payout_id) AS advances_total
+    FROM public.commission_payout_items i
+    WHERE i.payout_id = v_payout_id
+  ) t
+  WHERE p.id = v_payout_id;
+
+  RETURN v_payout_id;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Appointment services: replace the list in a single call so a failed insert never leaves
+-- an appointment without services. Runs with the caller's privileges, so the existing RLS
+-- policies on appointment_services still apply to signed-in users.
+
+-- p_services: [{service_id, service_name, price, duration_minutes}], na ordem escolhida
+CREATE OR REPLACE FUNCTION public.replace_appointment_services(
+  p_appointment_id uuid,
+  p_services jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_appointment public.appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id;
+
+  IF v_appointment.id IS NULL THEN
+    RAISE EXCEPTION 'Agendamento não encontrado';
+  END IF;
+
+  IF jsonb_typeof(p_services) <> 'array' OR jsonb_array_length(p_services) = 0 THEN
+    RAISE EXCEPTION 'Selecione pelo menos um serviço';
+  END IF;
+
+  DELETE FROM public.appointment_services WHERE appointment_id = p_appointment_id;
+
+  INSERT INTO public.appointment_services (
+    appointment_id, service_id, unit_id, company_id, service_name, price, duration_minutes, position
+  )
+  SELECT
+    v_appointment.id,
+    (item->>'service_id')::uuid,
+    v_appointment.unit_id,
+    v_appointment.company_id,
+    item->>'service_name',
+    (item->>'price')::numeric,
+    (item->>'duration_minutes')::integer,
+    (ordinality - 1)::integer
+  FROM jsonb_array_elements(p_services) WITH ORDINALITY AS t(item, ordinality);
+END;
+$$;
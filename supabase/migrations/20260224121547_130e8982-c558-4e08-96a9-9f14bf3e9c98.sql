@@ -0,0 +1,94 @@
+-- Client segments: the API caps each response at 1000 rows, so callers page through the ids and
+-- need a stable order. The birthday month now follows each unit's timezone.
+
+CREATE OR REPLACE FUNCTION public.get_segment_client_ids(p_company_id uuid, p_rules jsonb, p_unit_id uuid DEFAULT NULL)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT c.id
+  FROM public.clients c
+  JOIN public.units u ON u.id = c.unit_id
+  LEFT JOIN LATERAL (
+    SELECT
+      COALESCE(SUM(a.total_price), 0) AS total_spent,
+      (
+        SELECT a2.barber_id
+        FROM public.appointments a2
+        WHERE a2.unit_id = c.unit_id
+          AND a2.client_phone = c.phone
+          AND a2.status = 'completed'
+          AND a2.barber_id IS NOT NULL
+        GROUP BY a2.barber_id
+        ORDER BY COUNT(*) DESC, MAX(a2.start_time) DESC
+        LIMIT 1
+      ) AS preferred_barber_id
+    FROM public.appointments a
+    WHERE a.unit_id = c.unit_id
+      AND a.client_phone = c.phone
+      AND a.status = 'completed'
+  ) stats ON true
+  WHERE c.company_id = p_company_id
+    AND (p_unit_id IS NULL OR c.unit_id = p_unit_id)
+    AND COALESCE(c.marketing_opt_out, false) = false
+    AND (
+      jsonb_array_length(COALESCE(p_rules->'tags', '[]'::jsonb)) = 0
+      OR (
+        COALESCE(p_rules->>'tags_mode', 'any') = 'all'
+        AND COALESCE(c.tags, '{}') @> ARRAY(SELECT jsonb_array_elements_text(p_rules->'tags'))
+      )
+      OR (
+        COALESCE(p_rules->>'tags_mode', 'any') = 'any'
+        AND COALESCE(c.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_rules->'tags'))
+      )
+    )
+    AND (p_rules->>'min_visits' IS NULL OR COALESCE(c.total_visits, 0) >= (p_rules->>'min_visits')::int)
+    AND (p_rules->>'max_visits' IS NULL OR COALESCE(c.total_visits, 0) <= (p_rules->>'max_visits')::int)
+    AND (
+      p_rules->>'visited_within_days' IS NULL
+      OR c.last_visit_at >= now() - make_interval(days => (p_rules->>'visited_within_days')::int)
+    )
+    AND (
+      p_rules->>'not_visited_days' IS NULL
+      OR c.last_visit_at IS NULL
+      OR c.last_visit_at < now() - make_interval(days => (p_rules->>'not_visited_days')::int)
+    )
+    AND (p_rules->>'min_spent' IS NULL OR stats.total_spent >= (p_rules->>'min_spent')::numeric)
+    AND (p_rules->>'max_spent' IS NULL OR stats.total_spent <= (p_rules->>'max_spent')::numeric)
+    AND (p_rules->>'preferred_barber_id' IS NULL OR stats.preferred_barber_id = (p_rules->>'preferred_barber_id')::uuid)
+    AND (
+      jsonb_array_length(COALESCE(p_rules->'service_ids', '[]'::jsonb)) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM public.appointments a
+        LEFT JOIN public.appointment_services s ON s.appointment_id = a.id
+        WHERE a.unit_id = c.unit_id
+          AND a.client_phone = c.phone
+          AND a.status = 'completed'
+          AND (
+            a.service_id::text IN (SELECT jsonb_array_elements_text(p_rules->'service_ids'))
+            OR s.service_id::text IN (SELECT jsonb_array_elements_text(p_rules->'service_ids'))
+          )
+      )
+    )
+    AND (p_rules->>'min_loyalty_cuts' IS NULL OR COALESCE(c.loyalty_cuts, 0) >= (p_rules->>'min_loyalty_cuts')::int)
+    AND (p_rules->>'min_courtesies' IS NULL OR COALESCE(c.available_courtesies, 0) >= (p_rules->>'min_courtesies')::int)
+    AND (
+      p_rules->>'has_upcoming_appointment' IS NULL
+      OR (p_rules->>'has_upcoming_appointment')::boolean = EXISTS (
+        SELECT 1
+        FROM public.appointments a
+        WHERE a.unit_id = c.unit_id
+          AND a.client_phone = c.phone
+          AND a.status IN ('pending', 'confirmed')
+          AND a.start_time > now()
+      )
+    )
+    AND (
+      COALESCE((p_rules->>'birthday_month')::boolean, false) = false
+      OR EXTRACT(MONTH FROM c.birth_date) = EXTRACT(MONTH FROM now() AT TIME ZONE COALESCE(u.timezone, 'America/Sao_Paulo'))
+    )
+  -- Ordem estável para as chamadas paginarem com range()
+  ORDER BY c.id
+$$;
@@ -0,0 +1,84 @@
+-- Client plans: an evening appointment fell on the next UTC day, so a package expiring that day
+-- was not matched. Compare the plan dates with the appointment date in the unit's timezone.
+
+CREATE OR REPLACE FUNCTION public.find_client_plan_for_appointment(p_appointment_id uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  apt RECORD;
+  matched_client_id uuid;
+  service_ids uuid[];
+  matched_plan_id uuid;
+  local_date date;
+BEGIN
+  SELECT id, unit_id, client_phone, client_name, service_id, start_time
+  INTO apt
+  FROM public.appointments
+  WHERE id = p_appointment_id;
+
+  IF apt IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Data do atendimento no fuso da unidade (start_time::date usa o fuso da sessão, UTC)
+  SELECT (apt.start_time AT TIME ZONE COALESCE(u.timezone, 'America/Sao_Paulo'))::date
+  INTO local_date
+  FROM public.units u
+  WHERE u.id = apt.unit_id;
+
+  SELECT COALESCE(array_agg(s.service_id), ARRAY[]::uuid[])
+  INTO service_ids
+  FROM public.appointment_services s
+  WHERE s.appointment_id = apt.id AND s.service_id IS NOT NULL;
+
+  IF array_length(service_ids, 1) IS NULL THEN
+    IF apt.service_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+    service_ids := ARRAY[apt.service_id];
+  END IF;
+
+  -- Busca por telefone (prioridade) e, sem telefone, por nome
+  IF apt.client_phone IS NOT NULL AND apt.client_phone != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = apt.unit_id AND phone = apt.client_phone
+    LIMIT 1;
+  END IF;
+
+  IF matched_client_id IS NULL AND apt.client_name IS NOT NULL AND TRIM(apt.client_name) != '' THEN
+    SELECT id INTO matched_client_id
+    FROM public.clients
+    WHERE unit_id = apt.unit_id
+      AND LOWER(TRIM(name)) = LOWER(TRIM(apt.client_name))
+    LIMIT 1;
+  END IF;
+
+  IF matched_client_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT cp.id INTO matched_plan_id
+  FROM public.client_plans cp
+  WHERE cp.client_id = matched_client_id
+    AND cp.status = 'active'
+    AND local_date BETWEEN cp.starts_at AND cp.expires_at
+    AND cp.credits_total - COALESCE((
+      SELECT SUM(u.credits) FROM public.client_plan_usages u WHERE u.client_plan_id = cp.id
+    ), 0) >= array_length(service_ids, 1)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(service_ids) AS needed(service_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.service_plan_services ps
+        WHERE ps.plan_id = cp.plan_id AND ps.service_id = needed.service_id
+      )
+    )
+  ORDER BY cp.expires_at ASC, cp.created_at ASC
+  LIMIT 1;
+
+  RETURN matched_plan_id;
+END;
+$function$;
@@ -0,0 +1,103 @@
+-- Client merge: summing both loyalty counters could leave the kept client above the unit's
+-- threshold, so the courtesy was never granted. Completed cycles now become courtesies.
+
+-- Mescla o cliente p_source_id em p_target_id (mesma unidade) e remove o duplicado.
+-- Contadores de fidelidade e visitas são somados (cortes que completam o ciclo viram cortesias);
+-- dados cadastrais vazios do destino são completados com os do duplicado.
+CREATE OR REPLACE FUNCTION public.merge_clients(p_target_id uuid, p_source_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_target public.clients%ROWTYPE;
+  v_source public.clients%ROWTYPE;
+  v_company_id uuid;
+  v_threshold integer;
+  v_cuts integer;
+BEGIN
+  IF p_target_id = p_source_id THEN
+    RAISE EXCEPTION 'Selecione dois clientes diferentes para mesclar';
+  END IF;
+
+  SELECT * INTO v_target FROM public.clients WHERE id = p_target_id FOR UPDATE;
+  SELECT * INTO v_source FROM public.clients WHERE id = p_source_id FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Cliente não encontrado';
+  END IF;
+
+  IF v_target.unit_id <> v_source.unit_id THEN
+    RAISE EXCEPTION 'Só é possível mesclar clientes da mesma unidade';
+  END IF;
+
+  SELECT company_id, GREATEST(COALESCE(fidelity_cuts_threshold, 10), 1)
+  INTO v_company_id, v_threshold
+  FROM public.units
+  WHERE id = v_target.unit_id;
+  IF NOT public.user_owns_company(v_company_id) THEN
+    RAISE EXCEPTION 'Not authorized to merge these clients';
+  END IF;
+
+  -- Histórico vinculado por telefone (agendamentos sem telefone do Serviço Rápido: pelo nome)
+  UPDATE public.appointments
+  SET client_phone = v_target.phone
+  WHERE unit_id = v_source.unit_id
+    AND (
+      client_phone = v_source.phone
+      OR (COALESCE(client_phone, '') = '' AND NOT COALESCE(is_dependent, false)
+          AND LOWER(TRIM(client_name)) = LOWER(TRIM(v_source.name)))
+    );
+
+  UPDATE public.product_sales
+  SET client_phone = v_target.phone, client_name = v_target.name
+  WHERE unit_id = v_source.unit_id AND client_phone = v_source.phone;
+
+  UPDATE public.cancellation_history
+  SET client_phone = v_target.phone
+  WHERE unit_id = v_source.unit_id AND client_phone = v_source.phone;
+
+  -- Tabelas com client_id
+  UPDATE public.client_dependents SET client_id = p_target_id WHERE client_id = p_source_id;
+  UPDATE public.client_plans SET client_id = p_target_id WHERE client_id = p_source_id;
+  UPDATE public.client_fees
+  SET client_id = p_target_id, client_phone = v_target.phone
+  WHERE client_id = p_source_id;
+  UPDATE public.automation_logs SET client_id = p_target_id WHERE client_id = p_source_id;
+  UPDATE public.automation_workflow_runs SET client_id = p_target_id WHERE client_id = p_source_id;
+  UPDATE public.satisfaction_surveys
+  SET client_id = p_target_id, client_phone = v_target.phone
+  WHERE client_id = p_source_id;
+
+  -- Mesma regra do recálculo de fidelidade: o que passa do limite vira cortesia
+  v_cuts := COALESCE(v_target.loyalty_cuts, 0) + COALESCE(v_source.loyalty_cuts, 0);
+
+  UPDATE public.clients
+  SET
+    total_visits = COALESCE(v_target.total_visits, 0) + COALESCE(v_source.total_visits, 0),
+    imported_visits = v_target.imported_visits + v_source.imported_visits,
+    loyalty_cuts = v_cuts % v_threshold,
+    available_courtesies = COALESCE(v_target.available_courtesies, 0) + COALESCE(v_source.available_courtesies, 0)
+      + v_cuts / v_threshold,
+    total_courtesies_earned = COALESCE(v_target.total_courtesies_earned, 0) + COALESCE(v_source.total_courtesies_earned, 0)
+      + v_cuts / v_threshold,
+    last_visit_at = GREATEST(v_target.last_visit_at, v_source.last_visit_at),
+    birth_date = COALESCE(v_target.birth_date, v_source.birth_date),
+    notes = CASE
+      WHEN COALESCE(TRIM(v_source.notes), '') = '' THEN v_target.notes
+      WHEN COALESCE(TRIM(v_target.notes), '') = '' THEN v_source.notes
+      ELSE v_target.notes || E'\n' || v_source.notes
+    END,
+    tags = ARRAY(
+      SELECT DISTINCT t FROM unnest(COALESCE(v_target.tags, '{}') || COALESCE(v_source.tags, '{}')) AS t
+    ),
+    marketing_opt_out = COALESCE(v_target.marketing_opt_out, false) OR COALESCE(v_source.marketing_opt_out, false),
+    opted_out_at = COALESCE(v_target.opted_out_at, v_source.opted_out_at)
+  WHERE id = p_target_id;
+
+  DELETE FROM public.clients WHERE id = p_source_id;
+
+  RETURN p_target_id;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Staff unit access: the row-level SELECT on units exposed agenda_api_key and evolution_api_key to
+-- every staff member. Staff (and the panel in general) now read units through an RPC that returns
+-- only the non-secret fields; the full rows stay with the owner.
+
+DROP POLICY IF EXISTS "Staff can view their assigned units" ON public.units;
+
+-- Unidades visíveis ao usuário (dono, gerente ou recepção), sem as chaves de integração
+CREATE OR REPLACE FUNCTION public.get_accessible_units()
+RETURNS TABLE (
+  id uuid,
+  company_id uuid,
+  user_id uuid,
+  name text,
+  address text,
+  phone text,
+  manager_name text,
+  is_headquarters boolean,
+  timezone text,
+  evolution_instance_name text,
+  whatsapp_name text,
+  whatsapp_phone text,
+  whatsapp_picture_url text,
+  fidelity_program_enabled boolean,
+  fidelity_cuts_threshold integer,
+  fidelity_min_value numeric,
+  booking_slug text,
+  online_booking_enabled boolean,
+  waitlist_enabled boolean,
+  waitlist_hold_minutes integer,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    u.id, u.company_id, u.user_id, u.name, u.address, u.phone, u.manager_name, u.is_headquarters,
+    u.timezone, u.evolution_instance_name, u.whatsapp_name, u.whatsapp_phone, u.whatsapp_picture_url,
+    u.fidelity_program_enabled, u.fidelity_cuts_threshold, u.fidelity_min_value, u.booking_slug,
+    u.online_booking_enabled, u.waitlist_enabled, u.waitlist_hold_minutes, u.created_at
+  FROM public.units u
+  WHERE public.user_owns_unit(u.id) OR public.user_is_unit_staff(u.id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_accessible_units() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_accessible_units() TO authenticated;
@@ -0,0 +1,185 @@
+-- Commission statements: create_commission_payout stored the amounts and commissions sent by the
+-- client. It now takes only the appointment and sale ids and computes every item from the
+-- appointment, the sale, the barber's rates and the owner's card fee settings.
+
+DROP FUNCTION IF EXISTS public.create_commission_payout(uuid, uuid, date, date, text, jsonb, uuid[]);
+
+CREATE OR REPLACE FUNCTION public.create_commission_payout(
+  p_unit_id uuid,
+  p_barber_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_notes text,
+  p_appointment_ids uuid[],
+  p_product_sale_ids uuid[],
+  p_advance_ids uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_unit public.units%ROWTYPE;
+  v_barber public.barbers%ROWTYPE;
+  v_timezone text;
+  v_debit_fee numeric;
+  v_credit_fee numeric;
+  v_base text;
+  v_payout_id uuid;
+  v_count integer;
+BEGIN
+  IF NOT public.user_owns_unit(p_unit_id) THEN
+    RAISE EXCEPTION 'Unidade não encontrada';
+  END IF;
+
+  SELECT * INTO v_unit FROM public.units WHERE id = p_unit_id;
+  SELECT * INTO v_barber FROM public.barbers WHERE id = p_barber_id AND unit_id = p_unit_id;
+
+  IF v_barber.id IS NULL THEN
+    RAISE EXCEPTION 'Profissional não encontrado';
+  END IF;
+
+  p_appointment_ids := COALESCE(p_appointment_ids, '{}');
+  p_product_sale_ids := COALESCE(p_product_sale_ids, '{}');
+  p_advance_ids := COALESCE(p_advance_ids, '{}');
+
+  IF cardinality(p_appointment_ids) = 0 AND cardinality(p_product_sale_ids) = 0 AND cardinality(p_advance_ids) = 0 THEN
+    RAISE EXCEPTION 'Nada a acertar no período selecionado';
+  END IF;
+
+  v_timezone := COALESCE(v_unit.timezone, 'America/Sao_Paulo');
+
+  -- Taxas de cartão e base de cálculo do dono da unidade (mesmos padrões do painel)
+  SELECT bs.debit_card_fee_percent, bs.credit_card_fee_percent, bs.commission_calculation_base
+  INTO v_debit_fee, v_credit_fee, v_base
+  FROM public.business_settings bs
+  WHERE bs.user_id = v_unit.user_id
+  LIMIT 1;
+
+  v_debit_fee := COALESCE(v_barber.debit_card_fee_percent, v_debit_fee, 1.5);
+  v_credit_fee := COALESCE(v_barber.credit_card_fee_percent, v_credit_fee, 3.0);
+  v_base := COALESCE(v_base, 'gross');
+
+  -- Só atendimentos concluídos e vendas do próprio profissional, dentro do período
+  SELECT count(*) INTO v_count
+  FROM public.appointments a
+  WHERE a.id = ANY(p_appointment_ids)
+  AND a.unit_id = p_unit_id
+  AND a.barber_id = p_barber_id
+  AND a.status = 'completed'
+  AND (a.start_time AT TIME ZONE v_timezone)::date BETWEEN p_period_start AND p_period_end;
+
+  IF v_count <> cardinality(p_appointment_ids) THEN
+    RAISE EXCEPTION 'Item não pertence a este profissional ou ao período';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.product_sales s
+  WHERE s.id = ANY(p_product_sale_ids)
+  AND s.unit_id = p_unit_id
+  AND s.barber_id = p_barber_id
+  AND (s.sale_date AT TIME ZONE v_timezone)::date BETWEEN p_period_start AND p_period_end;
+
+  IF v_count <> cardinality(p_product_sale_ids) THEN
+    RAISE EXCEPTION 'Item não pertence a este profissional ou ao período';
+  END IF;
+
+  INSERT INTO public.commission_payouts (unit_id, company_id, barber_id, period_start, period_end, notes, created_by)
+  VALUES (p_unit_id, v_unit.company_id, p_barber_id, p_period_start, p_period_end, NULLIF(trim(p_notes), ''), auth.uid())
+  RETURNING id INTO v_payout_id;
+
+  BEGIN
+    -- Comissão sobre o valor cobrado (ou líquido da taxa do cartão), como no painel
+    INSERT INTO public.commission_payout_items (
+      payout_id, unit_id, item_type, appointment_id, description, item_date, amount, commission
+    )
+    SELECT
+      v_payout_id,
+      p_unit_id,
+      'appointment',
+      a.id,
+      COALESCE(
+        (SELECT string_agg(aps.service_name, ' + ' ORDER BY aps.position)
+         FROM public.appointment_services aps WHERE aps.appointment_id = a.id),
+        sv.name,
+        'Serviço'
+      ) || ' - ' || a.client_name,
+      a.start_time,
+      a.total_price,
+      round(
+        CASE
+          WHEN v_base = 'net' THEN a.total_price * (1 - CASE a.payment_method
+            WHEN 'debit_card' THEN v_debit_fee / 100
+            WHEN 'credit_card' THEN v_credit_fee / 100
+            ELSE 0
+          END)
+          ELSE a.total_price
+        END * COALESCE(v_barber.commission_rate, 50) / 100,
+        2
+      )
+    FROM public.appointments a
+    LEFT JOIN public.services sv ON sv.id = a.service_id
+    WHERE a.id = ANY(p_appointment_ids);
+
+    INSERT INTO public.commission_payout_items (
+      payout_id, unit_id, item_type, product_sale_id, description, item_date, amount, commission
+    )
+    SELECT
+      v_payout_id,
+      p_unit_id,
+      'product_sale',
+      s.id,
+      s.quantity || 'x ' || COALESCE(p.name, 'Produto'),
+      s.sale_date,
+      s.total_price,
+      round(s.total_price * COALESCE(v_barber.product_commission_rate, 0) / 100, 2)
+    FROM public.product_sales s
+    LEFT JOIN public.products p ON p.id = s.product_id
+    WHERE s.id = ANY(p_product_sale_ids);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Alguns atendimentos já foram incluídos em outro acerto. Gere o extrato novamente.';
+  END;
+
+  -- Reserva os vales; se algum já entrou em outro acerto, nada é gravado
+  PERFORM set_config('app.commission_payout', 'on', true);
+
+  UPDATE public.barber_advances
+  SET payout_id = v_payout_id
+  WHERE id = ANY(p_advance_ids)
+  AND unit_id = p_unit_id
+  AND barber_id = p_barber_id
+  AND advance_date <= p_period_end
+  AND payout_id IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.commission_payout', 'off', true);
+
+  IF v_count <> cardinality(p_advance_ids) THEN
+    RAISE EXCEPTION 'Alguns vales já foram incluídos em outro acerto. Gere o extrato novamente.';
+  END IF;
+
+  UPDATE public.commission_payouts p
+  SET
+    services_total = t.services_total,
+    service_commission = t.service_commission,
+    products_total = t.products_total,
+    product_commission = t.product_commission,
+    advances_total = t.advances_total,
+    net_amount = t.service_commission + t.product_commission - t.advances_total
+  FROM (
+    SELECT
+      COALESCE(SUM(i.amount) FILTER (WHERE i.item_type = 'appointment'), 0) AS services_total,
+      COALESCE(SUM(i.commission) FILTER (WHERE i.item_type = 'appointment'), 0) AS service_commission,
+      COALESCE(SUM(i.amount) FILTER (WHERE i.item_type = 'product_sale'), 0) AS products_total,
+      COALESCE(SUM(i.commission) FILTER (WHERE i.item_type = 'product_sale'), 0) AS product_commission,
+      (SELECT COALESCE(SUM(a.amount), 0) FROM public.barber_advances a WHERE a.payout_id = v_payout_id) AS advances_total
+    FROM public.commission_payout_items i
+    WHERE i.payout_id = v_payout_id
+  ) t
+  WHERE p.id = v_payout_id;
+
+  RETURN v_payout_id;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Settled appointments: the lock covered the appointment row only, so the services of an
+-- appointment already in a commission statement could still be replaced. The same rule now
+-- applies to appointment_services (including replace_appointment_services).
+
+CREATE OR REPLACE FUNCTION public.prevent_settled_appointment_service_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Exclusão em cascata da unidade/empresa
+  IF pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.commission_payout_items
+    WHERE appointment_id IN (
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.appointment_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.appointment_id END
+    )
+  ) THEN
+    RAISE EXCEPTION 'Atendimento incluído em acerto de comissão não pode ser alterado'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_settled_appointment_service_changes
+BEFORE INSERT OR UPDATE OR DELETE ON public.appointment_services
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_settled_appointment_service_changes();
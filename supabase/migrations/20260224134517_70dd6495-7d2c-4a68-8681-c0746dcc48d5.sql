@@ -0,0 +1,72 @@
+-- Panel bookings: the series, the appointments and their services were saved in separate inserts,
+-- so a failure in the last one left appointments without service lines. One call now saves
+-- everything in one transaction. Runs with the caller's privileges, so the RLS policies still apply.
+
+-- p_series: NULL ou {unit_id, company_id, barber_id, client_name, client_phone, interval_weeks, occurrences, until_date}
+-- p_appointments: [{unit_id, company_id, barber_id, service_id, client_name, client_phone, client_birth_date,
+--                   start_time, end_time, total_price, notes, status, is_dependent, dependent_id}]
+-- p_services: [{service_id, service_name, price, duration_minutes}], na ordem escolhida
+CREATE OR REPLACE FUNCTION public.create_appointments(
+  p_series jsonb,
+  p_appointments jsonb,
+  p_services jsonb
+)
+RETURNS TABLE (id uuid, start_time timestamptz)
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series_id uuid;
+BEGIN
+  IF jsonb_typeof(p_appointments) <> 'array' OR jsonb_array_length(p_appointments) = 0 THEN
+    RAISE EXCEPTION 'Nenhum horário disponível para agendar';
+  END IF;
+
+  IF jsonb_typeof(p_services) <> 'array' OR jsonb_array_length(p_services) = 0 THEN
+    RAISE EXCEPTION 'Selecione pelo menos um serviço';
+  END IF;
+
+  IF p_series IS NOT NULL AND jsonb_typeof(p_series) = 'object' THEN
+    INSERT INTO public.appointment_series (
+      unit_id, company_id, barber_id, client_name, client_phone, interval_weeks, occurrences, until_date
+    )
+    SELECT s.unit_id, s.company_id, s.barber_id, s.client_name, s.client_phone, s.interval_weeks, s.occurrences, s.until_date
+    FROM jsonb_populate_record(NULL::public.appointment_series, p_series) s
+    RETURNING appointment_series.id INTO v_series_id;
+  END IF;
+
+  -- Mesma instrução: se os serviços falharem, nenhum agendamento fica gravado
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO public.appointments (
+      unit_id, company_id, barber_id, service_id, client_name, client_phone, client_birth_date,
+      start_time, end_time, total_price, notes, status, is_dependent, dependent_id, series_id
+    )
+    SELECT
+      a.unit_id, a.company_id, a.barber_id, a.service_id, a.client_name, a.client_phone, a.client_birth_date,
+      a.start_time, a.end_time, a.total_price, a.notes, COALESCE(a.status, 'pending'),
+      COALESCE(a.is_dependent, false), a.dependent_id, v_series_id
+    FROM jsonb_populate_recordset(NULL::public.appointments, p_appointments) a
+    RETURNING appointments.id, appointments.unit_id, appointments.company_id, appointments.start_time
+  ),
+  inserted_services AS (
+    INSERT INTO public.appointment_services (
+      appointment_id, service_id, unit_id, company_id, service_name, price, duration_minutes, position
+    )
+    SELECT
+      i.id,
+      (item->>'service_id')::uuid,
+      i.unit_id,
+      i.company_id,
+      item->>'service_name',
+      (item->>'price')::numeric,
+      (item->>'duration_minutes')::integer,
+      (ordinality - 1)::integer
+    FROM inserted i
+    CROSS JOIN jsonb_array_elements(p_services) WITH ORDINALITY AS t(item, ordinality)
+  )
+  SELECT i.id, i.start_time
+  FROM inserted i
+  ORDER BY i.start_time;
+END;
+$$;
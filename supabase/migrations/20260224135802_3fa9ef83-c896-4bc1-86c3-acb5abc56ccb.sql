@@ -0,0 +1,175 @@
+-- Double booking: only create_online_appointment took the per-barber lock, so panel, agenda-api
+-- and recurring inserts could still overlap a public booking. A trigger now takes the same lock
+-- and rejects overlapping active appointments on every path. The public booking RPC also checks
+-- time blocks, approved time off and waitlist holds.
+
+-- Agendamentos ativos do mesmo profissional não podem se sobrepor, venham de onde vierem
+CREATE OR REPLACE FUNCTION public.prevent_appointment_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.barber_id IS NULL OR NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Na edição, só revalida quando o horário ou o profissional mudam ou o agendamento é reativado
+  IF TG_OP = 'UPDATE'
+    AND NEW.barber_id IS NOT DISTINCT FROM OLD.barber_id
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND OLD.status IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mesmo lock de create_online_appointment: serializa agendamentos do profissional
+  PERFORM pg_advisory_xact_lock(hashtextextended('appointments:' || NEW.barber_id::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE barber_id = NEW.barber_id
+    AND id <> NEW.id
+    AND status <> 'cancelled'
+    AND start_time < NEW.end_time
+    AND end_time > NEW.start_time
+  ) THEN
+    RAISE EXCEPTION 'Horário ocupado! O profissional já tem agendamento nesse horário.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_appointment_overlap
+BEFORE INSERT OR UPDATE OF barber_id, start_time, end_time, status ON public.appointments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_appointment_overlap();
+
+-- Cria cliente (se preciso), agendamento e serviço na mesma transação.
+-- Retorna NULL quando o horário do profissional foi ocupado desde a consulta de disponibilidade
+-- (agendamento, bloqueio, ausência aprovada ou horário reservado para a lista de espera).
+CREATE OR REPLACE FUNCTION public.create_online_appointment(
+  p_unit_id uuid,
+  p_barber_id uuid,
+  p_service_id uuid,
+  p_start_time timestamptz,
+  p_client_name text,
+  p_client_phone text,
+  p_phone_variations text[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_unit public.units%ROWTYPE;
+  v_service public.services%ROWTYPE;
+  v_end_time timestamptz;
+  v_timezone text;
+  v_client public.clients%ROWTYPE;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO v_unit FROM public.units WHERE id = p_unit_id;
+
+  SELECT * INTO v_service
+  FROM public.services
+  WHERE id = p_service_id
+  AND unit_id = p_unit_id
+  AND is_active = true;
+
+  IF v_unit.id IS NULL OR v_service.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.barbers
+    WHERE id = p_barber_id
+    AND unit_id = p_unit_id
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Serviço ou profissional não encontrado';
+  END IF;
+
+  v_end_time := p_start_time + make_interval(mins => v_service.duration_minutes);
+  v_timezone := COALESCE(v_unit.timezone, 'America/Sao_Paulo');
+
+  -- Serializa agendamentos do mesmo profissional até o fim da transação
+  PERFORM pg_advisory_xact_lock(hashtextextended('appointments:' || p_barber_id::text, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE barber_id = p_barber_id
+    AND status <> 'cancelled'
+    AND start_time < v_end_time
+    AND end_time > p_start_time
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.barber_time_blocks
+    WHERE barber_id = p_barber_id
+    AND start_time < v_end_time
+    AND end_time > p_start_time
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.barber_time_off
+    WHERE barber_id = p_barber_id
+    AND status = 'approved'
+    AND start_date <= (v_end_time AT TIME ZONE v_timezone)::date
+    AND end_date >= (p_start_time AT TIME ZONE v_timezone)::date
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Horário oferecido a outro cliente da lista de espera enquanto a oferta vale
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE unit_id = p_unit_id
+    AND offered_barber_id = p_barber_id
+    AND status = 'offered'
+    AND offer_expires_at > now()
+    AND offered_slot_start < v_end_time
+    AND offered_slot_end > p_start_time
+    AND NOT COALESCE(client_phone = ANY(p_phone_variations), false)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Mesma busca flexível do agenda-api (variações com/sem 9º dígito e DDI)
+  SELECT * INTO v_client
+  FROM public.clients
+  WHERE unit_id = p_unit_id
+  AND phone = ANY(p_phone_variations)
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_client.id IS NULL THEN
+    INSERT INTO public.clients (unit_id, company_id, name, phone, tags, total_visits)
+    VALUES (p_unit_id, v_unit.company_id, p_client_name, p_client_phone, ARRAY['Novo'], 0)
+    RETURNING * INTO v_client;
+  END IF;
+
+  INSERT INTO public.appointments (
+    unit_id, company_id, barber_id, service_id, client_name, client_phone,
+    start_time, end_time, total_price, status, source
+  )
+  VALUES (
+    p_unit_id, v_unit.company_id, p_barber_id, v_service.id, v_client.name, COALESCE(v_client.phone, p_client_phone),
+    p_start_time, v_end_time, v_service.price, 'pending', 'online'
+  )
+  RETURNING id INTO v_appointment_id;
+
+  INSERT INTO public.appointment_services (
+    appointment_id, service_id, unit_id, company_id, service_name, price, duration_minutes, position
+  )
+  VALUES (
+    v_appointment_id, v_service.id, p_unit_id, v_unit.company_id, v_service.name, v_service.price, v_service.duration_minutes, 0
+  );
+
+  RETURN v_appointment_id;
+END;
+$$;